@@ -0,0 +1,5 @@
+-- AppForge Zero App Template Versions
+-- Migration: 004_app_template_version
+-- Records the exact template version each app was created from or migrated to
+
+ALTER TABLE apps ADD COLUMN template_version TEXT;
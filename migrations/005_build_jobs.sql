@@ -0,0 +1,25 @@
+-- AppForge Zero Build Queue
+-- Migration: 005_build_jobs
+-- Persists queued builds so they survive app restarts
+
+-- Build Jobs: one row per queued, running or finished build
+CREATE TABLE IF NOT EXISTS build_jobs (
+    id TEXT PRIMARY KEY,
+    app_id TEXT NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+    build_type TEXT NOT NULL CHECK(build_type IN ('debug', 'release')),
+    config TEXT NOT NULL, -- JSON build config, without signing credentials
+    signed INTEGER NOT NULL DEFAULT 0, -- 1 when the build needs signing credentials
+    status TEXT NOT NULL DEFAULT 'queued' CHECK(status IN ('queued', 'running', 'success', 'failed', 'cancelled')),
+    priority INTEGER NOT NULL DEFAULT 0, -- Higher runs first
+    position INTEGER NOT NULL, -- Order among jobs of equal priority
+    attempts INTEGER NOT NULL DEFAULT 0,
+    apk_path TEXT,
+    error_message TEXT,
+    logs TEXT, -- JSON array of Gradle output, written when the build ends
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    started_at DATETIME,
+    completed_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_build_jobs_queue ON build_jobs(status, priority DESC, position);
+CREATE INDEX IF NOT EXISTS idx_build_jobs_app ON build_jobs(app_id);
@@ -0,0 +1,5 @@
+-- AppForge Zero Build Diagnostics
+-- Migration: 006_build_diagnostics
+-- Stores compiler and tool messages parsed from each build's Gradle output
+
+ALTER TABLE build_jobs ADD COLUMN diagnostics TEXT; -- JSON array of BuildDiagnostic
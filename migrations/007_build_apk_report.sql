@@ -0,0 +1,5 @@
+-- AppForge Zero APK Reports
+-- Migration: 007_build_apk_report
+-- Stores the manifest details and size breakdown decoded from each built APK
+
+ALTER TABLE build_jobs ADD COLUMN apk_report TEXT; -- JSON ApkReport, set for successful builds
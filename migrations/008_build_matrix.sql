@@ -0,0 +1,24 @@
+-- AppForge Zero Build Matrix
+-- Migration: 008_build_matrix
+-- Lets one request build several variants, each recording its own artifacts
+
+ALTER TABLE build_jobs ADD COLUMN matrix_id TEXT; -- Shared by jobs queued from one build matrix
+ALTER TABLE build_jobs ADD COLUMN flavor TEXT;
+ALTER TABLE build_jobs ADD COLUMN format TEXT NOT NULL DEFAULT 'apk' CHECK(format IN ('apk', 'aab'));
+
+CREATE INDEX IF NOT EXISTS idx_build_jobs_matrix ON build_jobs(matrix_id);
+
+-- Build Artifacts: one row per APK split or bundle a build produced or failed to produce
+CREATE TABLE IF NOT EXISTS build_artifacts (
+    id TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL REFERENCES build_jobs(id) ON DELETE CASCADE,
+    format TEXT NOT NULL CHECK(format IN ('apk', 'aab')),
+    abi TEXT,
+    path TEXT,
+    size INTEGER,
+    status TEXT NOT NULL CHECK(status IN ('success', 'failed')),
+    error_message TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_build_artifacts_job ON build_artifacts(job_id);
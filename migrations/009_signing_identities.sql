@@ -0,0 +1,29 @@
+-- AppForge Zero Signing Vault
+-- Migration: 009_signing_identities
+-- Keystores and their passwords, encrypted under a master passphrase
+
+-- Signing Vault: a single row holding the key derivation salt and a check value
+CREATE TABLE IF NOT EXISTS signing_vault (
+    id INTEGER PRIMARY KEY CHECK(id = 1),
+    salt TEXT NOT NULL, -- Base64 scrypt salt
+    verifier TEXT NOT NULL, -- Known value sealed with the derived key, to check passphrases
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Signing Identities: certificate details in the clear, key material sealed
+CREATE TABLE IF NOT EXISTS signing_identities (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK(kind IN ('upload', 'release')),
+    alias TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    sha1 TEXT NOT NULL,
+    sha256 TEXT NOT NULL,
+    valid_until DATETIME,
+    secret TEXT NOT NULL, -- AES-256-GCM sealed JSON: keystore bytes, store and key passwords
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE apps ADD COLUMN signing_identity_id TEXT REFERENCES signing_identities(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_apps_signing_identity ON apps(signing_identity_id);
@@ -0,0 +1,27 @@
+-- AppForge Zero Build Cache
+-- Migration: 010_build_cache
+-- Reuses artifacts of identical builds and keeps warm Gradle projects per template
+
+-- Build Cache: a single row with the cache settings and lookup counters
+CREATE TABLE IF NOT EXISTS build_cache (
+    id INTEGER PRIMARY KEY CHECK(id = 1),
+    enabled INTEGER NOT NULL DEFAULT 1,
+    max_size INTEGER NOT NULL DEFAULT 2048, -- MB, covering artifacts and workspaces
+    hits INTEGER NOT NULL DEFAULT 0,
+    misses INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT OR IGNORE INTO build_cache (id) VALUES (1);
+
+-- Build Cache Entries: cached artifacts by input hash, and warm workspaces by template
+CREATE TABLE IF NOT EXISTS build_cache_entries (
+    key TEXT PRIMARY KEY,
+    kind TEXT NOT NULL CHECK(kind IN ('artifacts', 'workspace')),
+    size INTEGER NOT NULL DEFAULT 0, -- Bytes on disk
+    artifacts TEXT, -- JSON: format, ABI and file of each cached artifact
+    hits INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_build_cache_entries_used ON build_cache_entries(last_used_at);
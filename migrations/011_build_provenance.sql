@@ -0,0 +1,9 @@
+-- AppForge Zero Build Provenance
+-- Migration: 011_build_provenance
+-- Signed provenance and SBOM of each successful build
+
+ALTER TABLE build_jobs ADD COLUMN provenance TEXT; -- JSON DSSE envelope of an in-toto SLSA provenance statement
+ALTER TABLE build_jobs ADD COLUMN sbom TEXT; -- JSON CycloneDX SBOM of the resolved dependencies
+
+-- Cache hits reuse the dependencies Gradle reported for the cached build
+ALTER TABLE build_cache_entries ADD COLUMN dependencies TEXT; -- JSON dependency report
@@ -0,0 +1,6 @@
+-- AppForge Zero Build Failures
+-- Migration: 012_build_failures
+-- Known cause of a failed build and the remediations retried for it
+
+ALTER TABLE build_jobs ADD COLUMN failure_class TEXT; -- 'daemon-crash' | 'out-of-memory' | 'offline-dependencies' | ...
+ALTER TABLE build_jobs ADD COLUMN remediations TEXT; -- JSON array of {failureClass, remediation, succeeded}
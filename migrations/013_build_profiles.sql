@@ -0,0 +1,5 @@
+-- AppForge Zero Build Profiles
+-- Migration: 013_build_profiles
+-- Gradle task timings of each build that ran Gradle
+
+ALTER TABLE build_jobs ADD COLUMN profile TEXT; -- JSON {duration, configuration, tasks: [{path, start, duration, outcome}]}
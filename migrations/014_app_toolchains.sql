@@ -0,0 +1,5 @@
+-- AppForge Zero App Toolchains
+-- Migration: 014_app_toolchains
+-- JDK and Android SDK packages each app is pinned to build with
+
+ALTER TABLE apps ADD COLUMN toolchain TEXT; -- JSON: SDK root, JDK, platform, build-tools and NDK with their paths
@@ -0,0 +1,83 @@
+-- AppForge Zero Trend Ingestion
+-- Migration: 015_trend_ingestion
+-- Polls trend sources on a schedule and keeps a snapshot of every run
+
+-- Trends: rebuilt to accept any registered source, keeping rowids so the
+-- full-text index stays valid. History is set aside first, since dropping
+-- the old table would cascade into it.
+CREATE TABLE trend_history_backup AS SELECT * FROM trend_history;
+DROP TABLE trend_history;
+
+CREATE TABLE trends_rebuilt (
+    id TEXT PRIMARY KEY,
+    keyword TEXT NOT NULL,
+    source TEXT NOT NULL, -- Registered source, e.g. 'google_trends' or 'reddit'
+    score REAL NOT NULL DEFAULT 0.0, -- Normalized 0-100 score
+    volume INTEGER, -- Search volume or post count
+    growth_rate REAL, -- Percentage change
+    category TEXT,
+    region TEXT DEFAULT 'US',
+    data TEXT, -- JSON for additional trend data
+    first_seen DATETIME DEFAULT CURRENT_TIMESTAMP,
+    fetched_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    expires_at DATETIME
+);
+
+INSERT INTO trends_rebuilt (
+    rowid, id, keyword, source, score, volume, growth_rate, category, region, data, first_seen, fetched_at, expires_at
+)
+SELECT rowid, id, keyword, source, score, volume, growth_rate, category, region, data, fetched_at, fetched_at, expires_at
+FROM trends;
+
+DROP TABLE trends;
+ALTER TABLE trends_rebuilt RENAME TO trends;
+
+CREATE TABLE trend_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    trend_id TEXT NOT NULL REFERENCES trends(id) ON DELETE CASCADE,
+    score REAL NOT NULL,
+    volume INTEGER,
+    recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO trend_history SELECT * FROM trend_history_backup;
+DROP TABLE trend_history_backup;
+
+CREATE INDEX IF NOT EXISTS idx_trends_keyword ON trends(keyword);
+CREATE INDEX IF NOT EXISTS idx_trends_source ON trends(source);
+CREATE INDEX IF NOT EXISTS idx_trends_score ON trends(score DESC);
+CREATE INDEX IF NOT EXISTS idx_trend_history_trend ON trend_history(trend_id);
+
+CREATE TRIGGER IF NOT EXISTS trends_ai AFTER INSERT ON trends BEGIN
+    INSERT INTO trends_fts(rowid, keyword, category) VALUES (NEW.rowid, NEW.keyword, NEW.category);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trends_ad AFTER DELETE ON trends BEGIN
+    INSERT INTO trends_fts(trends_fts, rowid, keyword, category) VALUES('delete', OLD.rowid, OLD.keyword, OLD.category);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trends_au AFTER UPDATE OF keyword, category ON trends BEGIN
+    INSERT INTO trends_fts(trends_fts, rowid, keyword, category) VALUES('delete', OLD.rowid, OLD.keyword, OLD.category);
+    INSERT INTO trends_fts(rowid, keyword, category) VALUES (NEW.rowid, NEW.keyword, NEW.category);
+END;
+
+-- Trend Ingestion: a single row with the scan settings, mirroring AppSettings.trends
+CREATE TABLE IF NOT EXISTS trend_ingestion (
+    id INTEGER PRIMARY KEY CHECK(id = 1),
+    auto_scan INTEGER NOT NULL DEFAULT 0,
+    interval_hours REAL NOT NULL DEFAULT 24,
+    max_trends INTEGER NOT NULL DEFAULT 50,
+    include_sources TEXT NOT NULL DEFAULT '["google","playstore"]' -- JSON array of settings source names
+);
+
+INSERT OR IGNORE INTO trend_ingestion (id) VALUES (1);
+
+-- Trend Sources: when each source was last polled and how it went
+CREATE TABLE IF NOT EXISTS trend_sources (
+    source TEXT PRIMARY KEY,
+    last_run_at DATETIME,
+    next_run_at DATETIME,
+    failures INTEGER NOT NULL DEFAULT 0, -- Consecutive failed polls
+    last_error TEXT,
+    last_count INTEGER -- Trends fetched by the last successful poll
+);
@@ -0,0 +1,34 @@
+-- AppForge Zero Trend Entities
+-- Migration: 016_trend_entities
+-- Merges the trends of different sources that name the same topic
+
+-- Trend Entities: one canonical trend per topic
+CREATE TABLE IF NOT EXISTS trend_entities (
+    id TEXT PRIMARY KEY,
+    label TEXT NOT NULL, -- Keyword of the member with the largest volume
+    first_seen DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Trend Entity Members: the per-source trends merged into an entity
+CREATE TABLE IF NOT EXISTS trend_entity_members (
+    trend_id TEXT PRIMARY KEY REFERENCES trends(id) ON DELETE CASCADE,
+    entity_id TEXT NOT NULL REFERENCES trend_entities(id) ON DELETE CASCADE,
+    similarity REAL NOT NULL, -- To the entity when the trend joined it
+    linked_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Trend Edges: weighted correlation graph between canonical trends, which
+-- are trend entities or the trends TrendService tracks. Each pair is
+-- stored once with the smaller id first.
+CREATE TABLE IF NOT EXISTS trend_edges (
+    trend_id TEXT NOT NULL,
+    related_id TEXT NOT NULL,
+    weight REAL NOT NULL, -- Similarity, 0-1
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (trend_id, related_id),
+    CHECK (trend_id < related_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trend_entity_members_entity ON trend_entity_members(entity_id);
+CREATE INDEX IF NOT EXISTS idx_trend_edges_related ON trend_edges(related_id);
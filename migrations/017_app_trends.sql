@@ -0,0 +1,8 @@
+-- AppForge Zero App Trends
+-- Migration: 017_app_trends
+-- The trend each app was created from, so template sales can be credited to similar trends
+
+ALTER TABLE apps ADD COLUMN trend_id TEXT; -- Not a foreign key: trends are replaced as they expire
+ALTER TABLE apps ADD COLUMN trend_keyword TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_apps_trend_keyword ON apps(trend_keyword);
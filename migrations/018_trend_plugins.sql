@@ -0,0 +1,13 @@
+-- AppForge Zero Trend Plugins
+-- Migration: 018_trend_plugins
+-- Trend sources configured in the settings: RSS/Atom feeds, watched folders and keyword lists
+
+CREATE TABLE IF NOT EXISTS trend_plugins (
+    id TEXT PRIMARY KEY, -- Source name suffix, e.g. 'rss:<id>'
+    kind TEXT NOT NULL CHECK(kind IN ('rss', 'folder', 'manual')),
+    name TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    config TEXT NOT NULL, -- JSON: URL or path, keywords, field mapping and refresh interval
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
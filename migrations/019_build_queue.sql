@@ -0,0 +1,11 @@
+-- AppForge Zero Build Queue Settings
+-- Migration: 019_build_queue
+-- Keeps the concurrency limit of the build queue across restarts
+
+-- Build Queue: a single row with the queue settings
+CREATE TABLE IF NOT EXISTS build_queue (
+    id INTEGER PRIMARY KEY CHECK(id = 1),
+    concurrency INTEGER -- Builds run at once, NULL for the default
+);
+
+INSERT OR IGNORE INTO build_queue (id) VALUES (1);
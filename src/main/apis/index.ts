@@ -37,6 +37,16 @@ export {
   RedditTrendSource,
   GoogleTrendsSource,
 } from "./trend-sources";
+export {
+  TrendPluginRegistry,
+  RssTrendSource,
+  FolderTrendSource,
+  ManualTrendSource,
+  createPluginRegistry,
+  parseCsv,
+  parseFeed,
+} from "./trend-plugins";
+export type { TrendPluginFactory } from "./trend-plugins";
 export type { TrendData } from "./types";
 
 // APK Builder
@@ -0,0 +1,399 @@
+/**
+ * Trend Source Plugins
+ *
+ * Trend sources configured in the settings rather than in code, for
+ * feeds and files that need no API keys:
+ * - RSS and Atom feeds, fetched or read from a saved copy
+ * - CSV and JSON files dropped into a watched folder
+ * - Keyword lists entered by hand
+ *
+ * Each kind is created by a factory registered under its name, so more
+ * kinds can be added without changing TrendManager.
+ */
+
+import * as fs from "fs-extra";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { watch } from "chokidar";
+import { TrendSource } from "./trend-sources";
+import type { TrendData, TrendSource as TrendSourceName } from "./types";
+import type { TrendFieldMapping, TrendPluginConfig, TrendPluginKind } from "../../shared/types";
+
+export type TrendPluginFactory = (config: TrendPluginConfig) => TrendSource;
+
+/**
+ * Reads a field of a record by the name a field mapping gives
+ */
+type FieldReader = (field: string) => unknown;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fields looked for when the field mapping names none, in order
+ */
+const DEFAULT_FIELDS: Record<"keyword" | "volume" | "growthRate" | "category", string[]> = {
+  keyword: ["keyword", "title", "term", "query", "name"],
+  volume: ["volume", "search_volume", "searchVolume", "traffic", "approx_traffic", "count"],
+  growthRate: ["growth_rate", "growthRate", "growth"],
+  category: ["category"],
+};
+
+const TREND_FILE = /\.(csv|json)$/i;
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+/**
+ * Plugin factories by kind
+ */
+export class TrendPluginRegistry {
+  private factories: Map<TrendPluginKind, TrendPluginFactory> = new Map();
+
+  register(kind: TrendPluginKind, factory: TrendPluginFactory): void {
+    this.factories.set(kind, factory);
+  }
+
+  kinds(): TrendPluginKind[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Create the source a configuration describes; throws when the
+   * configuration is incomplete
+   */
+  create(config: TrendPluginConfig): TrendSource {
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(config.id)) {
+      throw new Error(`Trend plugin id must be lowercase letters, digits and dashes, got "${config.id}"`);
+    }
+    const factory = this.factories.get(config.kind);
+    if (!factory) {
+      throw new Error(`Unknown trend plugin kind: ${config.kind}`);
+    }
+    const interval = config.refreshIntervalHours;
+    if (interval !== undefined && (!Number.isFinite(interval) || interval <= 0)) {
+      throw new Error(`Refresh interval must be a positive number of hours, got ${interval}`);
+    }
+
+    const source = factory(config);
+    source.plugin = config.id;
+    source.pollIntervalHours = interval;
+    return source;
+  }
+}
+
+/**
+ * Registry with the built-in RSS, folder and manual plugins
+ */
+export function createPluginRegistry(): TrendPluginRegistry {
+  const registry = new TrendPluginRegistry();
+  registry.register("rss", (config) => new RssTrendSource(config));
+  registry.register("folder", (config) => new FolderTrendSource(config));
+  registry.register("manual", (config) => new ManualTrendSource(config));
+  return registry;
+}
+
+// =============================================================================
+// Plugin Sources
+// =============================================================================
+
+/**
+ * A source created from a plugin configuration, named `kind:id`
+ */
+abstract class PluginTrendSource extends TrendSource {
+  source: TrendSourceName;
+
+  constructor(protected config: TrendPluginConfig, baseUrl: string = "") {
+    super({ baseUrl, rateLimitPerSecond: 1 });
+    this.source = `${config.kind}:${config.id}`;
+  }
+
+  /**
+   * Search the trends the source reports
+   */
+  async searchTrend(query: string): Promise<TrendData[]> {
+    const needle = query.toLowerCase();
+    return (await this.fetchTrends(Infinity)).filter((trend) => trend.title.toLowerCase().includes(needle));
+  }
+
+  /**
+   * Map records to trends by the field mapping, highest volume first.
+   * Records without a volume rank by their position, first highest.
+   */
+  protected toTrends(records: FieldReader[], limit: number, origin: string): TrendData[] {
+    const fields = this.config.fields ?? {};
+    const fetchedAt = new Date();
+
+    return records
+      .map((read, index) => {
+        const keyword = readField(read, fields, "keyword");
+        const volume = parseNumber(readField(read, fields, "volume"));
+        const category = readField(read, fields, "category");
+        return {
+          id: `${this.source}-${index}`,
+          source: this.source,
+          title: typeof keyword === "string" ? keyword.trim() : String(keyword ?? "").trim(),
+          searchVolume: volume ?? records.length - index,
+          growthRate: parseNumber(readField(read, fields, "growthRate")),
+          metadata: {
+            plugin: this.config.id,
+            origin,
+            ...(category ? { category: String(category) } : {}),
+          },
+          fetchedAt,
+          expiresAt: new Date(fetchedAt.getTime() + DAY_MS),
+        };
+      })
+      .filter((trend) => trend.title)
+      .sort((a, b) => (b.searchVolume ?? 0) - (a.searchVolume ?? 0))
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Items of an RSS or Atom feed. `file://` URLs are read from disk, so
+ * saved feeds work offline.
+ */
+export class RssTrendSource extends PluginTrendSource {
+  private url: string;
+
+  constructor(config: TrendPluginConfig) {
+    if (!config.url) {
+      throw new Error(`RSS trend plugin ${config.id} needs a feed URL`);
+    }
+    super(config, config.url);
+    this.url = config.url;
+  }
+
+  async fetchTrends(limit: number = 20): Promise<TrendData[]> {
+    const xml = this.url.startsWith("file:")
+      ? await fs.readFile(fileURLToPath(this.url), "utf8")
+      : await this.download();
+
+    const items = parseFeed(xml).map((item): FieldReader => (field) => item.get(field));
+    return this.toTrends(items, limit, this.url);
+  }
+
+  private async download(): Promise<string> {
+    const response = await this.client.request<string>({ method: "GET", url: this.url });
+    if (response.status >= 400) {
+      throw new Error(`${this.url} responded with ${response.status}`);
+    }
+    return response.rawBody;
+  }
+}
+
+/**
+ * Records of the CSV and JSON files in a folder, rescanned whenever a
+ * file is added or changed
+ */
+export class FolderTrendSource extends PluginTrendSource {
+  private directory: string;
+
+  constructor(config: TrendPluginConfig) {
+    if (!config.path) {
+      throw new Error(`Folder trend plugin ${config.id} needs a folder`);
+    }
+    super(config);
+    this.directory = config.path;
+  }
+
+  async fetchTrends(limit: number = 20): Promise<TrendData[]> {
+    const files = (await fs.readdir(this.directory)).filter((name) => TREND_FILE.test(name)).sort();
+    const records: FieldReader[] = [];
+
+    for (const name of files) {
+      const text = (await fs.readFile(path.join(this.directory, name), "utf8")).replace(/^\uFEFF/, "");
+      try {
+        records.push(...(name.toLowerCase().endsWith(".csv") ? csvRecords(text) : jsonRecords(text, this.config.fields)));
+      } catch (error) {
+        throw new Error(`Could not read ${name}: ${(error as Error).message}`);
+      }
+    }
+
+    return this.toTrends(records, limit, this.directory);
+  }
+
+  watch(onChange: () => void): () => void {
+    const watcher = watch(this.directory, {
+      ignoreInitial: true,
+      depth: 0,
+      awaitWriteFinish: { stabilityThreshold: 500 },
+    });
+    watcher.on("all", (_event, file) => {
+      if (TREND_FILE.test(file)) {
+        onChange();
+      }
+    });
+    return () => {
+      watcher.close().catch((error) => console.error(`Failed to stop watching ${this.directory}:`, error));
+    };
+  }
+}
+
+/**
+ * Keywords entered in the settings
+ */
+export class ManualTrendSource extends PluginTrendSource {
+  async fetchTrends(limit: number = 20): Promise<TrendData[]> {
+    const records = (this.config.keywords ?? []).map((entry): FieldReader => (field) =>
+      (entry as Record<string, unknown>)[field]
+    );
+    return this.toTrends(records, limit, "manual");
+  }
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Rows of a CSV file. The delimiter is the comma, semicolon or tab the
+ * first line has most of; quoted fields may contain delimiters, doubled
+ * quotes and line breaks.
+ */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"]
+    .map((candidate) => ({ candidate, count: firstLine.split(candidate).length }))
+    .reduce((best, next) => (next.count > best.count ? next : best)).candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+/**
+ * Elements of each item or entry of an RSS or Atom feed by name. Namespaced
+ * elements such as `ht:approx_traffic` are also found by their local name.
+ */
+export function parseFeed(xml: string): Array<Map<string, string>> {
+  const items = xml.match(/<(item|entry)\b[^>]*>[\s\S]*?<\/\1>/g) ?? [];
+
+  return items.map((item) => {
+    const fields = new Map<string, string>();
+    const body = item.replace(/^<[^>]*>/, "").replace(/<\/[^>]*>$/, "");
+    for (const [, name, content = ""] of body.matchAll(/<([\w:.-]+)\b[^>]*?(?:\/>|>([\s\S]*?)<\/\1>)/g)) {
+      const text = decodeXml(content);
+      for (const key of [name, name.slice(name.indexOf(":") + 1)]) {
+        if (!fields.has(key)) {
+          fields.set(key, text);
+        }
+      }
+    }
+    return fields;
+  });
+}
+
+function csvRecords(text: string): FieldReader[] {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = new Map(header.map((name, index) => [name.trim().toLowerCase(), index]));
+  return rows.map((row) => (field) => {
+    const index = columns.get(field.toLowerCase());
+    return index === undefined ? undefined : row[index];
+  });
+}
+
+/**
+ * Records of a JSON file: the array at the `records` path of the field
+ * mapping, the document itself if it is an array, or else its first
+ * array-valued property
+ */
+function jsonRecords(text: string, fields: TrendFieldMapping = {}): FieldReader[] {
+  const document = JSON.parse(text);
+  const records = fields.records
+    ? readPath(document, fields.records)
+    : Array.isArray(document)
+      ? document
+      : Object.values(document ?? {}).find(Array.isArray);
+
+  if (!Array.isArray(records)) {
+    throw new Error(fields.records ? `${fields.records} is not an array` : "No array of records found");
+  }
+  return records.map((record): FieldReader => (field) => readPath(record, field));
+}
+
+function readField(
+  read: FieldReader,
+  fields: TrendFieldMapping,
+  field: keyof typeof DEFAULT_FIELDS
+): unknown {
+  const mapped = fields[field];
+  if (mapped) {
+    return read(mapped);
+  }
+  for (const candidate of DEFAULT_FIELDS[field]) {
+    const value = read(candidate);
+    if (value !== undefined && value !== "") {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Value at a dotted path, e.g. `stats.volume` or `items.0.title`
+ */
+function readPath(value: unknown, dottedPath: string): unknown {
+  return dottedPath
+    .split(".")
+    .reduce<unknown>((current, key) => (current == null ? undefined : (current as Record<string, unknown>)[key]), value);
+}
+
+/**
+ * Numbers as exports write them: "20,000+", "12.5%" or " 300 "
+ */
+function parseNumber(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const parsed = parseFloat(value.replace(/[^\d.eE+-]/g, "").replace(/^\+/, ""));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) => data.replace(/</g, "&lt;").replace(/>/g, "&gt;"))
+    .replace(/<[^>]*>/g, "")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&(lt|gt|quot|apos|amp);/g, (_, name: string) => ({ lt: "<", gt: ">", quot: '"', apos: "'", amp: "&" })[name]!)
+    .trim();
+}
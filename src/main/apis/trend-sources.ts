@@ -9,13 +9,25 @@
  */
 
 import { ApiClient, createApiClient } from "./http-client";
-import { TrendData, TrendSource, ApiClientConfig } from "./types";
+import { TrendData, TrendSource as TrendSourceName, ApiClientConfig } from "./types";
+import type { TrendPluginRegistry } from "./trend-plugins";
+import type { TrendPluginConfig } from "../../shared/types";
 
 /**
  * Abstract trend source
  */
 export abstract class TrendSource {
-  abstract source: TrendSource;
+  abstract source: TrendSourceName;
+  /**
+   * How often scheduled scans poll this source; the scan interval from
+   * the trend settings when unset
+   */
+  pollIntervalHours?: number;
+  /**
+   * Id of the plugin configuration the source was created from; plugin
+   * sources are enabled on their own rather than by the included sources
+   */
+  plugin?: string;
   protected client: ApiClient;
 
   constructor(config: ApiClientConfig) {
@@ -23,7 +35,7 @@ export abstract class TrendSource {
   }
 
   /**
-   * Fetch trending data
+   * Fetch trending data; rejects when the source can't be reached
    */
   abstract fetchTrends(limit?: number): Promise<TrendData[]>;
 
@@ -31,13 +43,19 @@ export abstract class TrendSource {
    * Search for trend
    */
   abstract searchTrend(query: string): Promise<TrendData[]>;
+
+  /**
+   * Call back when the source has new data without being polled; returns
+   * a function that stops watching
+   */
+  watch?(onChange: () => void): () => void;
 }
 
 /**
  * Twitter/X trend source
  */
 export class TwitterTrendSource extends TrendSource {
-  source: TrendSource = "twitter";
+  source: TrendSourceName = "twitter";
 
   constructor(bearerToken: string) {
     super({
@@ -56,32 +74,27 @@ export class TwitterTrendSource extends TrendSource {
   async fetchTrends(limit: number = 20): Promise<TrendData[]> {
     // Note: Twitter v2 API requires academic research access for trends
     // This is a mock implementation showing the structure
-    try {
-      const response = await this.client.get<any>("/tweets/search/recent", {
-        query: "is:trending",
-        max_results: limit,
-        "tweet.fields": "public_metrics,created_at",
-      });
+    const response = await this.client.get<any>("/tweets/search/recent", {
+      query: "is:trending",
+      max_results: limit,
+      "tweet.fields": "public_metrics,created_at",
+    });
 
-      return (
-        response.data?.map((tweet: any, idx: number) => ({
-          id: `twitter-${idx}`,
-          source: "twitter" as TrendSource,
-          title: tweet.text,
-          searchVolume: tweet.public_metrics?.like_count || 0,
-          metadata: {
-            impressions: tweet.public_metrics?.impression_count,
-            retweets: tweet.public_metrics?.retweet_count,
-            replies: tweet.public_metrics?.reply_count,
-          },
-          fetchedAt: new Date(),
-          expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
-        })) || []
-      );
-    } catch (error) {
-      console.error("Twitter trends fetch failed:", error);
-      return [];
-    }
+    return (
+      response.data?.map((tweet: any, idx: number) => ({
+        id: `twitter-${idx}`,
+        source: "twitter" as TrendSourceName,
+        title: tweet.text,
+        searchVolume: tweet.public_metrics?.like_count || 0,
+        metadata: {
+          impressions: tweet.public_metrics?.impression_count,
+          retweets: tweet.public_metrics?.retweet_count,
+          replies: tweet.public_metrics?.reply_count,
+        },
+        fetchedAt: new Date(),
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
+      })) || []
+    );
   }
 
   /**
@@ -98,7 +111,7 @@ export class TwitterTrendSource extends TrendSource {
       return (
         response.data?.map((tweet: any) => ({
           id: `twitter-${tweet.id}`,
-          source: "twitter" as TrendSource,
+          source: "twitter" as TrendSourceName,
           title: tweet.text,
           searchVolume: tweet.public_metrics?.like_count || 0,
           metadata: {
@@ -121,7 +134,7 @@ export class TwitterTrendSource extends TrendSource {
  * TikTok trend source
  */
 export class TikTokTrendSource extends TrendSource {
-  source: TrendSource = "tiktok";
+  source: TrendSourceName = "tiktok";
 
   constructor(clientId: string, clientSecret: string) {
     super({
@@ -136,33 +149,28 @@ export class TikTokTrendSource extends TrendSource {
    * Fetch trending sounds/hashtags
    */
   async fetchTrends(limit: number = 20): Promise<TrendData[]> {
-    try {
-      const response = await this.client.get<any>(
-        "/discovery/hashtag/search/",
-        {
-          keywords: "trending",
-          count: limit,
-        }
-      );
-
-      return (
-        response.hashtag_list?.map((tag: any, idx: number) => ({
-          id: `tiktok-${idx}`,
-          source: "tiktok" as TrendSource,
-          title: `#${tag.name}`,
-          searchVolume: tag.view_count || 0,
-          metadata: {
-            viewCount: tag.view_count,
-            videoCount: tag.video_count,
-          },
-          fetchedAt: new Date(),
-          expiresAt: new Date(Date.now() + 12 * 60 * 60 * 1000), // 12 hours
-        })) || []
-      );
-    } catch (error) {
-      console.error("TikTok trends fetch failed:", error);
-      return [];
-    }
+    const response = await this.client.get<any>(
+      "/discovery/hashtag/search/",
+      {
+        keywords: "trending",
+        count: limit,
+      }
+    );
+
+    return (
+      response.hashtag_list?.map((tag: any, idx: number) => ({
+        id: `tiktok-${idx}`,
+        source: "tiktok" as TrendSourceName,
+        title: `#${tag.name}`,
+        searchVolume: tag.view_count || 0,
+        metadata: {
+          viewCount: tag.view_count,
+          videoCount: tag.video_count,
+        },
+        fetchedAt: new Date(),
+        expiresAt: new Date(Date.now() + 12 * 60 * 60 * 1000), // 12 hours
+      })) || []
+    );
   }
 
   /**
@@ -181,7 +189,7 @@ export class TikTokTrendSource extends TrendSource {
       return (
         response.hashtag_list?.map((tag: any) => ({
           id: `tiktok-${tag.id}`,
-          source: "tiktok" as TrendSource,
+          source: "tiktok" as TrendSourceName,
           title: `#${tag.name}`,
           searchVolume: tag.view_count || 0,
           metadata: {
@@ -203,7 +211,7 @@ export class TikTokTrendSource extends TrendSource {
  * Reddit trend source
  */
 export class RedditTrendSource extends TrendSource {
-  source: TrendSource = "reddit";
+  source: TrendSourceName = "reddit";
   private accessToken: string = "";
 
   constructor(
@@ -255,43 +263,38 @@ export class RedditTrendSource extends TrendSource {
    * Fetch trending subreddits
    */
   async fetchTrends(limit: number = 20): Promise<TrendData[]> {
-    try {
-      if (!this.accessToken) {
-        return [];
-      }
-
-      const response = await this.client.get<any>(
-        "/r/all/hot",
-        {
-          limit,
-        },
-        {
-          Authorization: `bearer ${this.accessToken}`,
-        }
-      );
-
-      return (
-        response.data?.children
-          ?.slice(0, limit)
-          .map((item: any, idx: number) => ({
-            id: `reddit-${idx}`,
-            source: "reddit" as TrendSource,
-            title: item.data.title,
-            searchVolume: item.data.score || 0,
-            growthRate: item.data.upvote_ratio || 0,
-            metadata: {
-              score: item.data.score,
-              comments: item.data.num_comments,
-              subreddit: item.data.subreddit,
-            },
-            fetchedAt: new Date(),
-            expiresAt: new Date(Date.now() + 6 * 60 * 60 * 1000), // 6 hours
-          })) || []
-      );
-    } catch (error) {
-      console.error("Reddit trends fetch failed:", error);
-      return [];
+    if (!this.accessToken) {
+      throw new Error("Reddit is not authenticated");
     }
+
+    const response = await this.client.get<any>(
+      "/r/all/hot",
+      {
+        limit,
+      },
+      {
+        Authorization: `bearer ${this.accessToken}`,
+      }
+    );
+
+    return (
+      response.data?.children
+        ?.slice(0, limit)
+        .map((item: any, idx: number) => ({
+          id: `reddit-${idx}`,
+          source: "reddit" as TrendSourceName,
+          title: item.data.title,
+          searchVolume: item.data.score || 0,
+          growthRate: item.data.upvote_ratio || 0,
+          metadata: {
+            score: item.data.score,
+            comments: item.data.num_comments,
+            subreddit: item.data.subreddit,
+          },
+          fetchedAt: new Date(),
+          expiresAt: new Date(Date.now() + 6 * 60 * 60 * 1000), // 6 hours
+        })) || []
+    );
   }
 
   /**
@@ -317,7 +320,7 @@ export class RedditTrendSource extends TrendSource {
       return (
         response.data?.children?.map((item: any) => ({
           id: `reddit-${item.data.id}`,
-          source: "reddit" as TrendSource,
+          source: "reddit" as TrendSourceName,
           title: item.data.title,
           searchVolume: item.data.score,
           growthRate: item.data.upvote_ratio,
@@ -341,7 +344,7 @@ export class RedditTrendSource extends TrendSource {
  * Google Trends source
  */
 export class GoogleTrendsSource extends TrendSource {
-  source: TrendSource = "google-trends";
+  source: TrendSourceName = "google-trends";
 
   constructor(apiKey: string) {
     super({
@@ -355,41 +358,36 @@ export class GoogleTrendsSource extends TrendSource {
    * Fetch trending searches
    */
   async fetchTrends(limit: number = 20): Promise<TrendData[]> {
-    try {
-      // Google Trends API is not directly available, using alternative approach
-      // This would typically use a third-party service or web scraping
-      const response = await fetch(
-        "https://trends.google.com/trends/api/dailytrends?hl=en-US&tz=-240&geo=US"
-      );
-
-      if (!response.ok) {
-        return [];
-      }
-
-      const text = await response.text();
-      // Remove XSRF protection prefix
-      const jsonText = text.replace(/^[^{]*/, "");
-      const data = JSON.parse(jsonText);
-
-      return (
-        data.default?.timelineData
-          ?.slice(0, limit)
-          .map((item: any, idx: number) => ({
-            id: `google-trends-${idx}`,
-            source: "google-trends" as TrendSource,
-            title: item.title?.query || "",
-            searchVolume: parseInt(item.formattedTraffic || "0", 10),
-            metadata: {
-              articles: item.articles || [],
-            },
-            fetchedAt: new Date(),
-            expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
-          })) || []
-      );
-    } catch (error) {
-      console.error("Google Trends fetch failed:", error);
-      return [];
+    // Google Trends API is not directly available, using alternative approach
+    // This would typically use a third-party service or web scraping
+    const response = await fetch(
+      "https://trends.google.com/trends/api/dailytrends?hl=en-US&tz=-240&geo=US"
+    );
+
+    if (!response.ok) {
+      throw new Error(`Google Trends responded with ${response.status}`);
     }
+
+    const text = await response.text();
+    // Remove XSRF protection prefix
+    const jsonText = text.replace(/^[^{]*/, "");
+    const data = JSON.parse(jsonText);
+
+    return (
+      data.default?.timelineData
+        ?.slice(0, limit)
+        .map((item: any, idx: number) => ({
+          id: `google-trends-${idx}`,
+          source: "google-trends" as TrendSourceName,
+          title: item.title?.query || "",
+          searchVolume: parseInt(item.formattedTraffic || "0", 10),
+          metadata: {
+            articles: item.articles || [],
+          },
+          fetchedAt: new Date(),
+          expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        })) || []
+    );
   }
 
   /**
@@ -415,7 +413,7 @@ export class GoogleTrendsSource extends TrendSource {
       return [
         {
           id: `google-trends-${query}`,
-          source: "google-trends" as TrendSource,
+          source: "google-trends" as TrendSourceName,
           title: query,
           searchVolume: 100, // Normalized value
           metadata: data,
@@ -434,7 +432,7 @@ export class GoogleTrendsSource extends TrendSource {
  * Unified trend manager
  */
 export class TrendManager {
-  private sources: Map<TrendSource, TrendSource> = new Map();
+  private sources: Map<TrendSourceName, TrendSource> = new Map();
 
   /**
    * Register trend source
@@ -443,10 +441,40 @@ export class TrendManager {
     this.sources.set(source.source, source);
   }
 
+  /**
+   * Remove a registered source
+   */
+  unregisterSource(source: TrendSourceName): boolean {
+    return this.sources.delete(source);
+  }
+
+  /**
+   * Replace the plugin sources with those the configurations describe.
+   * Disabled configurations are skipped; invalid ones are logged.
+   */
+  loadPlugins(registry: TrendPluginRegistry, configs: TrendPluginConfig[]): void {
+    for (const source of this.listSources()) {
+      if (source.plugin !== undefined) {
+        this.sources.delete(source.source);
+      }
+    }
+
+    for (const config of configs) {
+      if (!config.enabled) {
+        continue;
+      }
+      try {
+        this.registerSource(registry.create(config));
+      } catch (error) {
+        console.error(`Failed to load trend plugin ${config.id}:`, error);
+      }
+    }
+  }
+
   /**
    * Get trend source
    */
-  getSource(source: TrendSource): TrendSource {
+  getSource(source: TrendSourceName): TrendSource {
     const src = this.sources.get(source);
     if (!src) {
       throw new Error(`Trend source ${source} not registered`);
@@ -454,6 +482,13 @@ export class TrendManager {
     return src;
   }
 
+  /**
+   * Registered sources, in registration order
+   */
+  listSources(): TrendSource[] {
+    return Array.from(this.sources.values());
+  }
+
   /**
    * Fetch trends from all sources
    */
@@ -496,16 +531,8 @@ export class TrendManager {
   /**
    * Search trend on specific source
    */
-  async searchTrend(source: TrendSource, query: string): Promise<TrendData[]> {
+  async searchTrend(source: TrendSourceName, query: string): Promise<TrendData[]> {
     const src = this.getSource(source);
     return src.searchTrend(query);
   }
 }
-
-export {
-  TrendSource,
-  TwitterTrendSource,
-  TikTokTrendSource,
-  RedditTrendSource,
-  GoogleTrendsSource,
-};
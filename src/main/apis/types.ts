@@ -127,9 +127,15 @@ export interface WebhookHandlerResult {
 }
 
 /**
- * Trend data sources
+ * Trend data sources; sources created from plugin configurations are
+ * named after their kind and id, e.g. `rss:market-news`
  */
-export type TrendSource = "twitter" | "tiktok" | "reddit" | "google-trends";
+export type TrendSource =
+  | "twitter"
+  | "tiktok"
+  | "reddit"
+  | "google-trends"
+  | `${"rss" | "folder" | "manual"}:${string}`;
 
 /**
  * Trend data structure
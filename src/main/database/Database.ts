@@ -115,6 +115,21 @@ export class DatabaseService {
     return this.db.prepare(sql).run(...params);
   }
 
+  /**
+   * Aliases used by the IPC handlers
+   */
+  all<T>(sql: string, params: any[] = []): T[] {
+    return this.query<T>(sql, params);
+  }
+
+  get<T>(sql: string, params: any[] = []): T | undefined {
+    return this.queryOne<T>(sql, params);
+  }
+
+  run(sql: string, params: any[] = []): Database.RunResult {
+    return this.execute(sql, params);
+  }
+
   /**
    * Run multiple statements in a transaction
    */
@@ -10,7 +10,33 @@ import { join } from "path";
 import { electronApp, optimizer, is } from "@electron-toolkit/utils";
 import { DatabaseService } from "./database/Database";
 import { TemplateEngine } from "./services/TemplateEngine";
-import { BuildPipeline } from "./services/BuildPipeline";
+import { loadTrustedPublishers } from "./services/TemplatePackage";
+import { BuildScheduler } from "./services/BuildScheduler";
+import { SqliteBuildJobStore } from "./services/BuildJobStore";
+import { BuildCache } from "./services/BuildCache";
+import { SqliteBuildCacheStore } from "./services/BuildCacheStore";
+import { BuildExecutor, ContainerExecutor, DEFAULT_BUILD_IMAGE } from "./services/BuildExecutor";
+import { RemoteExecutor } from "./services/RemoteExecutor";
+import { ProvenanceSigner } from "./services/Provenance";
+import { SigningVault } from "./services/SigningVault";
+import { SqliteSigningIdentityStore } from "./services/SigningIdentityStore";
+import { Keytool } from "./services/Keytool";
+import { ToolchainManager } from "./services/Toolchain";
+import { SqliteToolchainStore } from "./services/ToolchainStore";
+import { TrendIngestion } from "./services/TrendIngestion";
+import { SqliteTrendStore } from "./services/TrendStore";
+import { TrendForecaster } from "./services/TrendForecast";
+import { TrendEntities } from "./services/TrendEntities";
+import { SqliteTrendEntityStore } from "./services/TrendEntityStore";
+import { TrendPlugins } from "./services/TrendPlugins";
+import { SqliteTrendPluginStore } from "./services/TrendPluginStore";
+import { TemplateRecommender } from "./services/TemplateRecommender";
+import { SqliteTemplateSalesStore } from "./services/TemplateSalesStore";
+import trendAnalyzer from "./services/trend.analyzer";
+import distribution from "./services/distribution.service";
+import buildPipeline from "./services/build.pipeline";
+import { TrendManager, GoogleTrendsSource, RedditTrendSource, TwitterTrendSource, TikTokTrendSource } from "./apis/trend-sources";
+import { createPluginRegistry } from "./apis/trend-plugins";
 import { setupIPCHandlers } from "./ipc/handlers";
 
 // Icon path (will be resolved at runtime)
@@ -23,7 +49,15 @@ const icon = join(__dirname, "../../resources/icon.svg");
 let mainWindow: BrowserWindow | null = null;
 let database: DatabaseService | null = null;
 let templateEngine: TemplateEngine | null = null;
-let buildPipeline: BuildPipeline | null = null;
+let buildScheduler: BuildScheduler | null = null;
+let buildCache: BuildCache | null = null;
+let signingVault: SigningVault | null = null;
+let toolchains: ToolchainManager | null = null;
+let trendIngestion: TrendIngestion | null = null;
+let trendForecasts: TrendForecaster | null = null;
+let trendPlugins: TrendPlugins | null = null;
+let trendEntities: TrendEntities | null = null;
+let templateRecommender: TemplateRecommender | null = null;
 
 // =============================================================================
 // Window Management
@@ -83,6 +117,55 @@ function createWindow(): void {
 // Service Initialization
 // =============================================================================
 
+/**
+ * Executors builds can choose besides the local one. The container image
+ * and remote worker are configured through the environment.
+ */
+function createBuildExecutors(): Record<string, BuildExecutor> {
+  const executors: Record<string, BuildExecutor> = {
+    container: new ContainerExecutor({
+      image: process.env.APPFORGE_BUILD_IMAGE || DEFAULT_BUILD_IMAGE,
+      runtime: process.env.APPFORGE_CONTAINER_RUNTIME === "podman" ? "podman" : "docker",
+    }),
+  };
+
+  if (process.env.APPFORGE_BUILD_WORKER_URL) {
+    executors.remote = new RemoteExecutor({
+      url: process.env.APPFORGE_BUILD_WORKER_URL,
+      token: process.env.APPFORGE_BUILD_WORKER_TOKEN,
+    });
+  }
+
+  return executors;
+}
+
+/**
+ * Trend sources to poll. Google Trends needs no credentials; the others
+ * are registered when theirs are configured through the environment.
+ */
+function createTrendSources(): TrendManager {
+  const env = process.env;
+  const manager = new TrendManager();
+  manager.registerSource(new GoogleTrendsSource(env.APPFORGE_GOOGLE_TRENDS_KEY || ""));
+
+  if (env.APPFORGE_REDDIT_CLIENT_ID && env.APPFORGE_REDDIT_CLIENT_SECRET) {
+    manager.registerSource(new RedditTrendSource(
+      env.APPFORGE_REDDIT_CLIENT_ID,
+      env.APPFORGE_REDDIT_CLIENT_SECRET,
+      env.APPFORGE_REDDIT_USERNAME || "",
+      env.APPFORGE_REDDIT_PASSWORD || ""
+    ));
+  }
+  if (env.APPFORGE_TWITTER_BEARER_TOKEN) {
+    manager.registerSource(new TwitterTrendSource(env.APPFORGE_TWITTER_BEARER_TOKEN));
+  }
+  if (env.APPFORGE_TIKTOK_CLIENT_ID && env.APPFORGE_TIKTOK_CLIENT_SECRET) {
+    manager.registerSource(new TikTokTrendSource(env.APPFORGE_TIKTOK_CLIENT_ID, env.APPFORGE_TIKTOK_CLIENT_SECRET));
+  }
+
+  return manager;
+}
+
 async function initializeServices(): Promise<void> {
   console.log("[Main] Initializing services...");
 
@@ -98,26 +181,74 @@ async function initializeServices(): Promise<void> {
       ? join(__dirname, "../../templates")
       : join(process.resourcesPath, "templates");
     templateEngine = new TemplateEngine(templatesPath);
+    templateEngine.setTrustedPublishers(
+      await loadTrustedPublishers(join(app.getPath("userData"), "trusted-publishers.json"))
+    );
     console.log("[Main] Template engine initialized");
 
-    // Initialize build pipeline
-    const androidSdkPath =
-      process.env["ANDROID_SDK_ROOT"] || process.env["ANDROID_HOME"] || "";
-    if (androidSdkPath) {
-      buildPipeline = new BuildPipeline(androidSdkPath);
-      console.log("[Main] Build pipeline initialized");
-    } else {
-      console.warn("[Main] Android SDK not found - build features disabled");
-    }
+    // Initialize build cache and queue; builds check for the Android SDK when they run
+    buildCache = new BuildCache(
+      new SqliteBuildCacheStore(database),
+      join(app.getPath("userData"), "build-cache")
+    );
+    const buildJobs = new SqliteBuildJobStore(database);
+    buildScheduler = new BuildScheduler(buildJobs, {
+      executors: createBuildExecutors(),
+      cache: buildCache,
+      provenance: await ProvenanceSigner.load(join(app.getPath("userData"), "provenance-key.pem")),
+    });
+    const requeued = buildScheduler.initialize();
+    console.log(`[Main] Build scheduler initialized (${requeued} interrupted builds re-queued)`);
+
+    // Build statistics include the task timings of queued Gradle builds
+    buildPipeline.setJobStore(buildJobs);
+
+    // Signing vault starts locked; the renderer asks for the passphrase
+    signingVault = new SigningVault(
+      new SqliteSigningIdentityStore(database),
+      new Keytool(process.env.JAVA_HOME)
+    );
+
+    // Installed JDKs and SDK packages are scanned when first needed
+    toolchains = new ToolchainManager(new SqliteToolchainStore(database));
+
+    // Trend plugins configured in the settings register alongside the built-in sources
+    const trendStore = new SqliteTrendStore(database);
+    const trendSources = createTrendSources();
+    trendPlugins = new TrendPlugins(new SqliteTrendPluginStore(database), createPluginRegistry(), trendSources);
+    trendAnalyzer.setTrendManager(trendSources);
+    trendPlugins.load();
+    trendEntities = new TrendEntities(new SqliteTrendEntityStore(database));
+    trendIngestion = new TrendIngestion(trendStore, trendSources, trendEntities);
+
+    // Forecasts are fitted on the history scans leave behind
+    trendForecasts = new TrendForecaster(trendStore);
+
+    // Templates are recommended for trends by their text and past sales
+    templateRecommender = new TemplateRecommender(templateEngine, new SqliteTemplateSalesStore(database));
+    trendAnalyzer.setTemplateRecommender(templateRecommender);
+
+    // Published apps carry the provenance and SBOM of their build
+    distribution.setAttestationSource(buildScheduler);
 
     // Setup IPC handlers
     setupIPCHandlers({
       database,
       templateEngine,
-      buildPipeline,
+      buildScheduler,
+      signingVault,
+      buildCache,
+      toolchains,
+      trendIngestion,
+      trendForecasts,
+      trendPlugins,
+      trendEntities,
+      templateRecommender,
       mainWindow: () => mainWindow,
     });
     console.log("[Main] IPC handlers registered");
+
+    trendIngestion.start();
   } catch (error) {
     console.error("[Main] Service initialization failed:", error);
     dialog.showErrorBox(
@@ -168,14 +299,16 @@ app.on("window-all-closed", () => {
 app.on("before-quit", async () => {
   console.log("[Main] Application quitting...");
 
-  // Cancel any running builds
-  if (buildPipeline) {
-    const builds = buildPipeline.getActiveBuilds();
-    for (const buildId of builds) {
-      await buildPipeline.cancelBuild(buildId);
-    }
+  // Stop running builds; they are re-queued on next launch
+  if (buildScheduler) {
+    buildScheduler.shutdown();
   }
 
+  trendIngestion?.stop();
+
+  // Clear the vault key from memory
+  signingVault?.lock();
+
   // Close database connection
   if (database) {
     database.close();
@@ -254,4 +387,4 @@ ipcMain.handle(
 // Export for testing
 // =============================================================================
 
-export { mainWindow, database, templateEngine, buildPipeline };
+export { mainWindow, database, templateEngine, buildScheduler, buildCache, signingVault, toolchains, trendIngestion, trendForecasts, trendPlugins, trendEntities, templateRecommender };
@@ -9,7 +9,17 @@ import { ipcMain, BrowserWindow } from 'electron';
 import { v4 as uuidv4 } from 'uuid';
 import type { DatabaseService } from '../database/Database';
 import type { TemplateEngine } from '../services/TemplateEngine';
-import type { BuildPipeline } from '../services/BuildPipeline';
+import type { BuildScheduler } from '../services/BuildScheduler';
+import type { BuildConfig as PipelineBuildConfig } from '../services/BuildPipeline';
+import type { SigningVault } from '../services/SigningVault';
+import type { BuildCache } from '../services/BuildCache';
+import type { ToolchainManager, ToolchainTemplate } from '../services/Toolchain';
+import type { TrendIngestion } from '../services/TrendIngestion';
+import type { TrendForecaster } from '../services/TrendForecast';
+import type { TrendPlugins } from '../services/TrendPlugins';
+import type { TrendEntities } from '../services/TrendEntities';
+import { prefillMorphValues, trendAppName, trendPackageName, type TemplateRecommender } from '../services/TemplateRecommender';
+import { writeAttestation } from '../services/Provenance';
 import type {
   IPCResponse,
   Template,
@@ -17,9 +27,41 @@ import type {
   MorphValue,
   BuildConfig,
   BuildProgress,
+  BuildJob,
+  BuildQueueState,
+  BuildCacheSettings,
+  BuildCacheStats,
+  BuildDiagnostic,
+  ApkReport,
+  BuildArtifact,
+  BuildAttestationKind,
+  BuildPerformance,
+  BuildMatrix,
+  TemplateToolchainCompatibility,
+  ToolchainInventory,
+  ToolchainResolution,
   Trend,
-  TrendAnalysis,
+  TrendBacktestReport,
+  TrendForecastResult,
+  TemplateRecommendation,
+  CreateAppFromTrendRequest,
+  TrendIngestionSettings,
+  TrendIngestionStatus,
+  TrendScanResult,
+  TrendPluginConfig,
+  TrendEntity,
+  RelatedTrendEntity,
   TemplateCategory,
+  MorphFieldError,
+  MorphValuesConfig,
+  InstantiationPlan,
+  TemplateImportInfo,
+  AppMigrationPlan,
+  TemplateLintResult,
+  SigningIdentity,
+  SigningVaultState,
+  GenerateSigningIdentityRequest,
+  ImportSigningIdentityRequest,
 } from '../../shared/types';
 
 // =============================================================================
@@ -29,10 +71,31 @@ import type {
 interface HandlerContext {
   database: DatabaseService | null;
   templateEngine: TemplateEngine | null;
-  buildPipeline: BuildPipeline | null;
+  buildScheduler: BuildScheduler | null;
+  signingVault: SigningVault | null;
+  buildCache: BuildCache | null;
+  toolchains: ToolchainManager | null;
+  trendIngestion: TrendIngestion | null;
+  trendForecasts: TrendForecaster | null;
+  trendPlugins: TrendPlugins | null;
+  trendEntities: TrendEntities | null;
+  templateRecommender: TemplateRecommender | null;
   mainWindow: () => BrowserWindow | null;
 }
 
+/**
+ * Version assumed for apps created before template versions were recorded,
+ * so every migration of their template applies
+ */
+const UNVERSIONED_TEMPLATE = '0.0.0';
+
+/**
+ * Directory an app's project is morphed into and built from
+ */
+function projectDir(appId: string): string {
+  return `./output/${appId}`;
+}
+
 // =============================================================================
 // Response Helpers
 // =============================================================================
@@ -41,7 +104,7 @@ function success<T>(data: T): IPCResponse<T> {
   return { success: true, data };
 }
 
-function error(code: string, message: string, details?: unknown): IPCResponse {
+function error(code: string, message: string, details?: unknown): IPCResponse<never> {
   return { 
     success: false, 
     error: { code, message, details } 
@@ -101,19 +164,147 @@ function setupTemplateHandlers(ctx: HandlerContext): void {
     }
   });
 
-  // Validate a template path
-  ipcMain.handle('template:validate', async (_, path: string): Promise<IPCResponse<boolean>> => {
+  // Lint a template directory and report diagnostics
+  ipcMain.handle('template:validate', async (_, path: string): Promise<IPCResponse<TemplateLintResult>> => {
     try {
       if (!ctx.templateEngine) {
         return error('SERVICE_UNAVAILABLE', 'Template engine not initialized');
       }
       
-      const isValid = await ctx.templateEngine.validateTemplate(path);
-      return success(isValid);
+      const result = await ctx.templateEngine.lintTemplate(path);
+      return success(result);
     } catch (err) {
       return error('TEMPLATE_VALIDATE_ERROR', (err as Error).message);
     }
   });
+
+  // Validate morph values against a template's rules
+  ipcMain.handle('template:validateValues', async (_, id: string, config: MorphValuesConfig): Promise<IPCResponse<MorphFieldError[]>> => {
+    try {
+      if (!ctx.templateEngine) {
+        return error('SERVICE_UNAVAILABLE', 'Template engine not initialized');
+      }
+      
+      const template = ctx.templateEngine.getTemplate(id);
+      if (!template) {
+        return error('TEMPLATE_NOT_FOUND', `Template with id ${id} not found`);
+      }
+      
+      return success(ctx.templateEngine.validateMorphFields(template, config));
+    } catch (err) {
+      return error('TEMPLATE_VALIDATE_ERROR', (err as Error).message);
+    }
+  });
+
+  // Preview what instantiating a template would change, without writing files
+  ipcMain.handle('template:plan', async (_, id: string, config: MorphValuesConfig): Promise<IPCResponse<InstantiationPlan>> => {
+    try {
+      if (!ctx.templateEngine) {
+        return error('SERVICE_UNAVAILABLE', 'Template engine not initialized');
+      }
+      
+      const plan = await ctx.templateEngine.planInstantiation(id, config);
+      return success(plan);
+    } catch (err) {
+      return error('TEMPLATE_PLAN_ERROR', (err as Error).message);
+    }
+  });
+
+  // Export a template as an .afz package
+  ipcMain.handle('template:export', async (_, id: string, outputPath: string): Promise<IPCResponse<string>> => {
+    try {
+      if (!ctx.templateEngine) {
+        return error('SERVICE_UNAVAILABLE', 'Template engine not initialized');
+      }
+      
+      const exported = await ctx.templateEngine.exportTemplate(id, outputPath);
+      return success(exported);
+    } catch (err) {
+      return error('TEMPLATE_EXPORT_ERROR', (err as Error).message);
+    }
+  });
+
+  // Install a template from an .afz package
+  ipcMain.handle('template:import', async (_, packagePath: string, options?: { overwrite?: boolean; requireSignature?: boolean }): Promise<IPCResponse<TemplateImportInfo>> => {
+    try {
+      if (!ctx.templateEngine) {
+        return error('SERVICE_UNAVAILABLE', 'Template engine not initialized');
+      }
+      
+      const { template, signedBy } = await ctx.templateEngine.importTemplate(packagePath, options);
+      return success({
+        id: template.id,
+        name: template.name,
+        version: template.version,
+        signedBy,
+      });
+    } catch (err) {
+      return error('TEMPLATE_IMPORT_ERROR', (err as Error).message);
+    }
+  });
+
+  // Rank the installed templates for a trend, with the reasons for each score
+  ipcMain.handle('template:recommend', async (_, trendId: string, limit?: number): Promise<IPCResponse<TemplateRecommendation[]>> => {
+    try {
+      if (!ctx.templateRecommender || !ctx.database) {
+        return error('SERVICE_UNAVAILABLE', 'Template recommender not initialized');
+      }
+      
+      const row = ctx.database.get<Record<string, unknown>>('SELECT * FROM trends WHERE id = ?', [trendId]);
+      if (!row) {
+        return error('TREND_NOT_FOUND', `Trend with id ${trendId} not found`);
+      }
+      
+      const trend = toTrend(row);
+      return success(ctx.templateRecommender.recommend({
+        keyword: trend.keyword,
+        relatedKeywords: trend.relatedKeywords,
+        category: trend.suggestedCategory,
+      }, limit));
+    } catch (err) {
+      return error('TEMPLATE_RECOMMEND_ERROR', (err as Error).message);
+    }
+  });
+
+  // Create a draft app from a template with morph values taken from a trend
+  ipcMain.handle('templates:createFromTrend', async (_, request: CreateAppFromTrendRequest): Promise<IPCResponse<AppProject>> => {
+    try {
+      if (!ctx.database || !ctx.templateEngine) {
+        return error('SERVICE_UNAVAILABLE', 'Database not initialized');
+      }
+      
+      const template = ctx.templateEngine.getTemplate(request.templateId);
+      if (!template) {
+        return error('TEMPLATE_NOT_FOUND', `Template with id ${request.templateId} not found`);
+      }
+      
+      const row = ctx.database.get<{ keyword: string }>('SELECT keyword FROM trends WHERE id = ?', [request.trendId]);
+      const keyword = row?.keyword ?? request.keyword;
+      if (!keyword) {
+        return error('TREND_NOT_FOUND', `Trend with id ${request.trendId} not found`);
+      }
+      
+      const now = new Date();
+      const app: AppProject = {
+        id: uuidv4(),
+        name: trendAppName(keyword),
+        packageName: uniquePackageName(ctx.database, trendPackageName(keyword)),
+        templateId: template.id,
+        templateVersion: template.version,
+        templateCategory: template.category as TemplateCategory,
+        morphValues: prefillMorphValues(template, keyword),
+        status: 'draft',
+        createdAt: now,
+        updatedAt: now,
+        buildHistory: [],
+      };
+      
+      insertApp(ctx.database, app, { id: request.trendId, keyword });
+      return success(app);
+    } catch (err) {
+      return error('APP_CREATE_ERROR', (err as Error).message);
+    }
+  });
 }
 
 // =============================================================================
@@ -134,6 +325,7 @@ function setupAppHandlers(ctx: HandlerContext): void {
         name: data.name || 'Untitled App',
         packageName: data.packageName || 'com.example.app',
         templateId: data.templateId || '',
+        templateVersion: data.templateVersion ?? ctx.templateEngine?.getTemplate(data.templateId || '')?.version,
         templateCategory: data.templateCategory || 'utility',
         morphValues: data.morphValues || [],
         status: 'draft',
@@ -142,11 +334,7 @@ function setupAppHandlers(ctx: HandlerContext): void {
         buildHistory: [],
       };
       
-      // Insert into database
-      ctx.database.run(`
-        INSERT INTO apps (id, name, package_name, template_id, template_category, morph_values, status, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `, [app.id, app.name, app.packageName, app.templateId, app.templateCategory, JSON.stringify(app.morphValues), app.status, app.createdAt.toISOString(), app.updatedAt.toISOString()]);
+      insertApp(ctx.database, app);
       
       return success(app);
     } catch (err) {
@@ -170,6 +358,7 @@ function setupAppHandlers(ctx: HandlerContext): void {
         name: row.name as string,
         packageName: row.package_name as string,
         templateId: row.template_id as string,
+        templateVersion: (row.template_version as string | null) ?? undefined,
         templateCategory: row.template_category as TemplateCategory,
         morphValues: JSON.parse((row.morph_values as string) || '[]'),
         status: row.status as AppProject['status'],
@@ -206,6 +395,7 @@ function setupAppHandlers(ctx: HandlerContext): void {
         name: row.name as string,
         packageName: row.package_name as string,
         templateId: row.template_id as string,
+        templateVersion: (row.template_version as string | null) ?? undefined,
         templateCategory: row.template_category as TemplateCategory,
         morphValues: JSON.parse((row.morph_values as string) || '[]'),
         status: row.status as AppProject['status'],
@@ -235,6 +425,7 @@ function setupAppHandlers(ctx: HandlerContext): void {
       
       if (data.name !== undefined) { fields.push('name = ?'); values.push(data.name); }
       if (data.packageName !== undefined) { fields.push('package_name = ?'); values.push(data.packageName); }
+      if (data.templateVersion !== undefined) { fields.push('template_version = ?'); values.push(data.templateVersion); }
       if (data.morphValues !== undefined) { fields.push('morph_values = ?'); values.push(JSON.stringify(data.morphValues)); }
       if (data.status !== undefined) { fields.push('status = ?'); values.push(data.status); }
       if (data.apkPath !== undefined) { fields.push('apk_path = ?'); values.push(data.apkPath); }
@@ -291,8 +482,7 @@ function setupAppHandlers(ctx: HandlerContext): void {
       `, [new Date().toISOString(), id]);
       
       // Perform the morph
-      const outputDir = `./output/${id}`;
-      await ctx.templateEngine.morphTemplate(app.templateId, values, outputDir);
+      await ctx.templateEngine.morphTemplate(app.templateId, values, projectDir(id));
       
       // Update status to ready
       ctx.database.run(`
@@ -310,6 +500,94 @@ function setupAppHandlers(ctx: HandlerContext): void {
       return error('APP_MORPH_ERROR', (err as Error).message);
     }
   });
+
+  // Preview rebasing an app onto a newer version of its template
+  ipcMain.handle('app:previewMigration', async (_, id: string, toVersion?: string): Promise<IPCResponse<AppMigrationPlan>> => {
+    try {
+      if (!ctx.database || !ctx.templateEngine) {
+        return error('SERVICE_UNAVAILABLE', 'Required services not initialized');
+      }
+      
+      const plan = planAppMigration(ctx, id, toVersion);
+      if (!plan) {
+        return error('APP_NOT_FOUND', `App with id ${id} not found`);
+      }
+      
+      return success(plan);
+    } catch (err) {
+      return error('APP_MIGRATION_ERROR', (err as Error).message);
+    }
+  });
+
+  // Rebase an app onto a newer template version, migrating its morph values
+  ipcMain.handle('app:migrate', async (_, id: string, toVersion?: string): Promise<IPCResponse<AppMigrationPlan>> => {
+    try {
+      if (!ctx.database || !ctx.templateEngine) {
+        return error('SERVICE_UNAVAILABLE', 'Required services not initialized');
+      }
+      
+      const plan = planAppMigration(ctx, id, toVersion);
+      if (!plan) {
+        return error('APP_NOT_FOUND', `App with id ${id} not found`);
+      }
+      if (plan.missingRequired.length > 0) {
+        return error(
+          'APP_MIGRATION_INCOMPLETE',
+          `Values required by ${plan.templateId}@${plan.toVersion} are missing: ${plan.missingRequired.join(', ')}`,
+          plan
+        );
+      }
+      
+      ctx.database.run(`
+        UPDATE apps SET template_version = ?, morph_values = ?, updated_at = ? WHERE id = ?
+      `, [plan.toVersion, JSON.stringify(plan.morphValues), new Date().toISOString(), id]);
+      
+      return success(plan);
+    } catch (err) {
+      return error('APP_MIGRATION_ERROR', (err as Error).message);
+    }
+  });
+}
+
+/**
+ * Insert a new app, recording the trend it was created from if any
+ */
+function insertApp(database: DatabaseService, app: AppProject, trend?: { id: string; keyword: string }): void {
+  database.run(`
+    INSERT INTO apps (id, name, package_name, template_id, template_version, template_category, morph_values, status, created_at, updated_at, trend_id, trend_keyword)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `, [app.id, app.name, app.packageName, app.templateId, app.templateVersion ?? null, app.templateCategory, JSON.stringify(app.morphValues), app.status, app.createdAt.toISOString(), app.updatedAt.toISOString(), trend?.id ?? null, trend?.keyword ?? null]);
+}
+
+/**
+ * The package name, or the first free one with a number appended
+ */
+function uniquePackageName(database: DatabaseService, packageName: string): string {
+  let candidate = packageName;
+  for (let n = 2; database.get('SELECT 1 FROM apps WHERE package_name = ?', [candidate]); n++) {
+    candidate = `${packageName}${n}`;
+  }
+  return candidate;
+}
+
+/**
+ * Plan the morph value migration for a stored app, or null if it does not exist
+ */
+function planAppMigration(ctx: HandlerContext, id: string, toVersion?: string): AppMigrationPlan | null {
+  const row = ctx.database!.get<Record<string, unknown>>(`
+    SELECT * FROM apps WHERE id = ?
+  `, [id]);
+  
+  if (!row) {
+    return null;
+  }
+  
+  return ctx.templateEngine!.planMigration(
+    row.template_id as string,
+    (row.template_version as string | null) || UNVERSIONED_TEMPLATE,
+    JSON.parse((row.morph_values as string) || '[]'),
+    toVersion
+  );
 }
 
 // =============================================================================
@@ -317,58 +595,74 @@ function setupAppHandlers(ctx: HandlerContext): void {
 // =============================================================================
 
 function setupBuildHandlers(ctx: HandlerContext): void {
-  // Start a build
-  ipcMain.handle('build:start', async (_, config: BuildConfig): Promise<IPCResponse<{ buildId: string }>> => {
-    try {
-      if (!ctx.buildPipeline) {
-        return error('SERVICE_UNAVAILABLE', 'Build pipeline not initialized. Is Android SDK configured?');
-      }
-      
-      const buildId = await ctx.buildPipeline.buildApp(config);
-      
-      // Send progress updates to renderer
-      const progressInterval = setInterval(() => {
-        if (!ctx.buildPipeline) {
-          clearInterval(progressInterval);
-          return;
-        }
-        
-        const info = ctx.buildPipeline.getBuildInfo(buildId);
-        if (!info) {
-          clearInterval(progressInterval);
-          return;
-        }
-        
-        const window = ctx.mainWindow();
-        if (window) {
-          window.webContents.send('build:progress', {
-            buildId,
-            stage: info.status === 'running' ? 'compiling' : info.status,
-            progress: info.progress || 0,
-            currentTask: info.currentTask || 'Building...',
-          } as BuildProgress);
-        }
-        
-        if (info.status === 'success' || info.status === 'failed' || info.status === 'cancelled') {
-          clearInterval(progressInterval);
-        }
-      }, 1000);
-      
-      return success({ buildId });
+  forwardBuildProgress(ctx);
+
+  // Queue a build
+  ipcMain.handle('build:start', async (_, config: BuildConfig, options?: { priority?: number }): Promise<IPCResponse<{ buildId: string }>> => {
+    try {
+      if (!ctx.buildScheduler || !ctx.database) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
+      }
+      
+      const pipelineConfig = toPipelineConfigForApp(ctx.database, config);
+      if (!pipelineConfig) {
+        return error('APP_NOT_FOUND', `App with id ${config.appId} not found`);
+      }
+      
+      const locked = pipelineConfig.buildType === 'release' ? applySigningIdentity(ctx, pipelineConfig) : null;
+      if (locked) {
+        return locked;
+      }
+      await applyToolchain(ctx, pipelineConfig);
+      
+      const job = ctx.buildScheduler.enqueue(pipelineConfig, options);
+      return success({ buildId: job.id });
     } catch (err) {
       return error('BUILD_START_ERROR', (err as Error).message);
     }
   });
 
-  // Cancel a build
-  ipcMain.handle('build:cancel', async (_, buildId: string): Promise<IPCResponse<void>> => {
+  // Queue one build per variant of a build matrix
+  ipcMain.handle('build:matrix', async (
+    _,
+    config: BuildConfig,
+    matrix: BuildMatrix,
+    options?: { priority?: number }
+  ): Promise<IPCResponse<{ matrixId: string; buildIds: string[] }>> => {
     try {
-      if (!ctx.buildPipeline) {
-        return error('SERVICE_UNAVAILABLE', 'Build pipeline not initialized');
+      if (!ctx.buildScheduler || !ctx.database) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
       }
       
-      await ctx.buildPipeline.cancelBuild(buildId);
-      return success(undefined);
+      const pipelineConfig = toPipelineConfigForApp(ctx.database, config);
+      if (!pipelineConfig) {
+        return error('APP_NOT_FOUND', `App with id ${config.appId} not found`);
+      }
+      
+      const locked = matrix.buildTypes.includes('release') ? applySigningIdentity(ctx, pipelineConfig) : null;
+      if (locked) {
+        return locked;
+      }
+      await applyToolchain(ctx, pipelineConfig);
+      
+      const jobs = ctx.buildScheduler.enqueueMatrix(pipelineConfig, matrix, options);
+      return success({ matrixId: jobs[0].matrixId!, buildIds: jobs.map((job) => job.id) });
+    } catch (err) {
+      return error('BUILD_MATRIX_ERROR', (err as Error).message);
+    }
+  });
+
+  // Cancel a queued or running build
+  ipcMain.handle('build:cancel', async (_, buildId: string): Promise<IPCResponse<{ cancelled: boolean }>> => {
+    try {
+      if (!ctx.buildScheduler) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
+      }
+      
+      if (!ctx.buildScheduler.cancel(buildId)) {
+        return error('BUILD_NOT_FOUND', `No queued or running build with id ${buildId}`);
+      }
+      return success({ cancelled: true });
     } catch (err) {
       return error('BUILD_CANCEL_ERROR', (err as Error).message);
     }
@@ -377,25 +671,16 @@ function setupBuildHandlers(ctx: HandlerContext): void {
   // Get build status
   ipcMain.handle('build:status', async (_, buildId: string): Promise<IPCResponse<BuildProgress>> => {
     try {
-      if (!ctx.buildPipeline) {
-        return error('SERVICE_UNAVAILABLE', 'Build pipeline not initialized');
+      if (!ctx.buildScheduler) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
       }
       
-      const info = ctx.buildPipeline.getBuildInfo(buildId);
-      if (!info) {
+      const job = ctx.buildScheduler.getJob(buildId);
+      if (!job) {
         return error('BUILD_NOT_FOUND', `Build with id ${buildId} not found`);
       }
       
-      const progress: BuildProgress = {
-        buildId,
-        stage: info.status === 'running' ? 'compiling' : 
-               info.status === 'success' ? 'complete' :
-               info.status === 'failed' ? 'failed' : 'preparing',
-        progress: info.progress || 0,
-        currentTask: info.currentTask || 'Unknown',
-      };
-      
-      return success(progress);
+      return success(toBuildProgress(job));
     } catch (err) {
       return error('BUILD_STATUS_ERROR', (err as Error).message);
     }
@@ -404,20 +689,573 @@ function setupBuildHandlers(ctx: HandlerContext): void {
   // Get build logs
   ipcMain.handle('build:logs', async (_, buildId: string): Promise<IPCResponse<string[]>> => {
     try {
-      if (!ctx.buildPipeline) {
-        return error('SERVICE_UNAVAILABLE', 'Build pipeline not initialized');
+      if (!ctx.buildScheduler) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
       }
       
-      const info = ctx.buildPipeline.getBuildInfo(buildId);
-      if (!info) {
+      const logs = ctx.buildScheduler.getLogs(buildId);
+      if (!logs) {
         return error('BUILD_NOT_FOUND', `Build with id ${buildId} not found`);
       }
       
-      return success(info.logs || []);
+      return success(logs);
     } catch (err) {
       return error('BUILD_LOGS_ERROR', (err as Error).message);
     }
   });
+
+  // Get diagnostics parsed from a finished build
+  ipcMain.handle('build:diagnostics', async (_, buildId: string): Promise<IPCResponse<BuildDiagnostic[]>> => {
+    try {
+      if (!ctx.buildScheduler) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
+      }
+      
+      const diagnostics = ctx.buildScheduler.getDiagnostics(buildId);
+      if (!diagnostics) {
+        return error('BUILD_NOT_FOUND', `Build with id ${buildId} not found`);
+      }
+      
+      return success(diagnostics);
+    } catch (err) {
+      return error('BUILD_DIAGNOSTICS_ERROR', (err as Error).message);
+    }
+  });
+
+  // Get the APK report of a finished build
+  ipcMain.handle('build:report', async (_, buildId: string): Promise<IPCResponse<ApkReport | null>> => {
+    try {
+      if (!ctx.buildScheduler) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
+      }
+      
+      const report = ctx.buildScheduler.getApkReport(buildId);
+      if (report === undefined) {
+        return error('BUILD_NOT_FOUND', `Build with id ${buildId} not found`);
+      }
+      
+      return success(report);
+    } catch (err) {
+      return error('BUILD_REPORT_ERROR', (err as Error).message);
+    }
+  });
+
+  // Save the signed provenance or the SBOM of a successful build
+  ipcMain.handle('build:exportAttestation', async (
+    _,
+    buildId: string,
+    kind: BuildAttestationKind,
+    outputPath: string
+  ): Promise<IPCResponse<string>> => {
+    try {
+      if (!ctx.buildScheduler) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
+      }
+      
+      const document = ctx.buildScheduler.getAttestation(buildId, kind);
+      if (document === undefined) {
+        return error('BUILD_NOT_FOUND', `Build with id ${buildId} not found`);
+      }
+      if (document === null) {
+        return error('ATTESTATION_NOT_FOUND', `Build ${buildId} has no recorded ${kind}`);
+      }
+      
+      return success(await writeAttestation(document, outputPath));
+    } catch (err) {
+      return error('BUILD_ATTESTATION_ERROR', (err as Error).message);
+    }
+  });
+
+  // Get the artifacts a build produced
+  ipcMain.handle('build:artifacts', async (_, buildId: string): Promise<IPCResponse<BuildArtifact[]>> => {
+    try {
+      if (!ctx.buildScheduler) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
+      }
+      
+      const artifacts = ctx.buildScheduler.getArtifacts(buildId);
+      if (!artifacts) {
+        return error('BUILD_NOT_FOUND', `Build with id ${buildId} not found`);
+      }
+      
+      return success(artifacts);
+    } catch (err) {
+      return error('BUILD_ARTIFACTS_ERROR', (err as Error).message);
+    }
+  });
+
+  // Get the task timings of a build and the tasks that got slower
+  ipcMain.handle('build:performance', async (_, buildId: string): Promise<IPCResponse<BuildPerformance>> => {
+    try {
+      if (!ctx.buildScheduler) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
+      }
+      
+      const performance = ctx.buildScheduler.getPerformance(buildId);
+      if (!performance) {
+        return error('BUILD_NOT_FOUND', `Build with id ${buildId} not found`);
+      }
+      
+      return success(performance);
+    } catch (err) {
+      return error('BUILD_PERFORMANCE_ERROR', (err as Error).message);
+    }
+  });
+
+  // Get running and queued builds
+  ipcMain.handle('build:queue', async (): Promise<IPCResponse<BuildQueueState>> => {
+    try {
+      if (!ctx.buildScheduler) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
+      }
+      
+      return success(ctx.buildScheduler.getState());
+    } catch (err) {
+      return error('BUILD_QUEUE_ERROR', (err as Error).message);
+    }
+  });
+
+  // Reorder queued builds
+  ipcMain.handle('build:reorder', async (_, buildIds: string[]): Promise<IPCResponse<BuildQueueState>> => {
+    try {
+      if (!ctx.buildScheduler) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
+      }
+      
+      ctx.buildScheduler.reorder(buildIds);
+      return success(ctx.buildScheduler.getState());
+    } catch (err) {
+      return error('BUILD_QUEUE_ERROR', (err as Error).message);
+    }
+  });
+
+  // Change the priority of a queued build
+  ipcMain.handle('build:setPriority', async (_, buildId: string, priority: number): Promise<IPCResponse<BuildJob>> => {
+    try {
+      if (!ctx.buildScheduler) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
+      }
+      
+      return success(ctx.buildScheduler.setPriority(buildId, priority));
+    } catch (err) {
+      return error('BUILD_QUEUE_ERROR', (err as Error).message);
+    }
+  });
+
+  // Stop starting new builds
+  ipcMain.handle('build:pause', async (): Promise<IPCResponse<BuildQueueState>> => {
+    try {
+      if (!ctx.buildScheduler) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
+      }
+      
+      ctx.buildScheduler.pause();
+      return success(ctx.buildScheduler.getState());
+    } catch (err) {
+      return error('BUILD_QUEUE_ERROR', (err as Error).message);
+    }
+  });
+
+  // Start queued builds again
+  ipcMain.handle('build:resume', async (): Promise<IPCResponse<BuildQueueState>> => {
+    try {
+      if (!ctx.buildScheduler) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
+      }
+      
+      ctx.buildScheduler.resume();
+      return success(ctx.buildScheduler.getState());
+    } catch (err) {
+      return error('BUILD_QUEUE_ERROR', (err as Error).message);
+    }
+  });
+
+  // Set how many builds may run at once
+  ipcMain.handle('build:setConcurrency', async (_, concurrency: number): Promise<IPCResponse<BuildQueueState>> => {
+    try {
+      if (!ctx.buildScheduler) {
+        return error('SERVICE_UNAVAILABLE', 'Build scheduler not initialized');
+      }
+      
+      ctx.buildScheduler.setConcurrency(concurrency);
+      return success(ctx.buildScheduler.getState());
+    } catch (err) {
+      return error('BUILD_QUEUE_ERROR', (err as Error).message);
+    }
+  });
+
+  // Get build cache usage and hit rate
+  ipcMain.handle('build:cacheStats', async (): Promise<IPCResponse<BuildCacheStats>> => {
+    try {
+      if (!ctx.buildCache) {
+        return error('SERVICE_UNAVAILABLE', 'Build cache not initialized');
+      }
+      
+      return success(ctx.buildCache.getStats());
+    } catch (err) {
+      return error('BUILD_CACHE_ERROR', (err as Error).message);
+    }
+  });
+
+  // Enable or disable the build cache and set its size limit
+  ipcMain.handle('build:configureCache', async (_, settings: BuildCacheSettings): Promise<IPCResponse<BuildCacheStats>> => {
+    try {
+      if (!ctx.buildCache) {
+        return error('SERVICE_UNAVAILABLE', 'Build cache not initialized');
+      }
+      
+      return success(await ctx.buildCache.configure(settings));
+    } catch (err) {
+      return error('BUILD_CACHE_ERROR', (err as Error).message);
+    }
+  });
+
+  // Remove cached artifacts and idle workspaces
+  ipcMain.handle('build:clearCache', async (): Promise<IPCResponse<BuildCacheStats>> => {
+    try {
+      if (!ctx.buildCache) {
+        return error('SERVICE_UNAVAILABLE', 'Build cache not initialized');
+      }
+      
+      return success(await ctx.buildCache.clear());
+    } catch (err) {
+      return error('BUILD_CACHE_ERROR', (err as Error).message);
+    }
+  });
+}
+
+/**
+ * Send scheduler progress to the renderer as build:progress events
+ */
+function forwardBuildProgress(ctx: HandlerContext): void {
+  if (!ctx.buildScheduler) {
+    return;
+  }
+
+  for (const event of ['job:started', 'job:progress', 'job:complete']) {
+    ctx.buildScheduler.on(event, (job: BuildJob) => {
+      ctx.mainWindow()?.webContents.send('build:progress', toBuildProgress(job));
+    });
+  }
+}
+
+/**
+ * Map a renderer build request onto the Gradle pipeline config
+ */
+function toPipelineConfig(config: BuildConfig): PipelineBuildConfig {
+  return {
+    appId: config.appId,
+    projectPath: projectDir(config.appId),
+    outputPath: config.outputDir,
+    buildType: config.debugBuild ? 'debug' : 'release',
+    executor: config.executor,
+    keystore: config.signConfig && {
+      path: config.signConfig.keystorePath,
+      password: config.signConfig.keystorePassword,
+      alias: config.signConfig.keyAlias,
+      keyPassword: config.signConfig.keyPassword,
+    },
+  };
+}
+
+/**
+ * Pipeline config for an app's project, checked against the app's
+ * package and name. Apps of one template share a warm build workspace;
+ * the template and morph values go into the build's provenance.
+ * Returns null when the app does not exist.
+ */
+function toPipelineConfigForApp(database: DatabaseService, config: BuildConfig): PipelineBuildConfig | null {
+  const app = database.get<{
+    name: string;
+    package_name: string;
+    template_id: string;
+    template_version: string | null;
+    morph_values: string | null;
+  }>(
+    'SELECT name, package_name, template_id, template_version, morph_values FROM apps WHERE id = ?',
+    [config.appId]
+  );
+  if (!app) {
+    return null;
+  }
+
+  const morphValues: MorphValue[] = JSON.parse(app.morph_values || '[]');
+  return {
+    ...toPipelineConfig(config),
+    cacheGroup: app.template_id,
+    expected: { packageName: app.package_name, appName: app.name },
+    source: {
+      templateId: app.template_id,
+      templateVersion: app.template_version ?? undefined,
+      morphValues: Object.fromEntries(morphValues.map((morph) => [morph.key, morph.value])),
+    },
+  };
+}
+
+/**
+ * Sign with the app's assigned identity when the request brings no
+ * keystore of its own. Returns an error response when the identity
+ * can't be used because the vault is locked.
+ */
+function applySigningIdentity(ctx: HandlerContext, pipelineConfig: PipelineBuildConfig): IPCResponse<never> | null {
+  if (pipelineConfig.keystore || !ctx.signingVault) {
+    return null;
+  }
+
+  const identityId = ctx.signingVault.identityForApp(pipelineConfig.appId);
+  if (!identityId) {
+    return null;
+  }
+  if (!ctx.signingVault.getState().unlocked) {
+    return error('VAULT_LOCKED', 'Unlock the signing vault to sign release builds of this app');
+  }
+
+  pipelineConfig.keystore = ctx.signingVault.credentials(identityId);
+  return null;
+}
+
+/**
+ * Build with the toolchain pinned for the app, pinning one on its first
+ * build. Without a compatible toolchain the build uses the default SDK
+ * and JDK, and fails there if they don't fit.
+ */
+async function applyToolchain(ctx: HandlerContext, pipelineConfig: PipelineBuildConfig): Promise<void> {
+  const template = ctx.templateEngine && pipelineConfig.source && appTemplate(ctx.templateEngine, pipelineConfig.source);
+  if (!ctx.toolchains || !template) {
+    return;
+  }
+
+  const resolution = await ctx.toolchains.resolveForApp(pipelineConfig.appId, template);
+  pipelineConfig.toolchain = resolution.pin ?? undefined;
+}
+
+/**
+ * The template version an app was created from, or the newest version
+ * when that one is no longer installed
+ */
+function appTemplate(
+  templateEngine: TemplateEngine,
+  source: { templateId: string; templateVersion?: string }
+): ToolchainTemplate | undefined {
+  return (source.templateVersion && templateEngine.getTemplate(`${source.templateId}@${source.templateVersion}`)) ||
+    templateEngine.getTemplate(source.templateId);
+}
+
+/**
+ * Describe a build job in the progress format the renderer expects
+ */
+function toBuildProgress(job: BuildJob): BuildProgress {
+  const stages: Record<BuildJob['status'], BuildProgress['stage']> = {
+    queued: 'preparing',
+    running: 'compiling',
+    success: 'complete',
+    failed: 'failed',
+    cancelled: 'failed',
+  };
+  const tasks: Record<BuildJob['status'], string> = {
+    queued: 'Waiting in queue',
+    running: 'Building...',
+    success: 'Build complete',
+    failed: job.errorMessage || 'Build failed',
+    cancelled: 'Cancelled',
+  };
+
+  return {
+    buildId: job.id,
+    stage: stages[job.status],
+    progress: job.progress,
+    currentTask: job.currentTask || tasks[job.status],
+  };
+}
+
+// =============================================================================
+// Signing Handlers
+// =============================================================================
+
+function setupSigningHandlers(ctx: HandlerContext): void {
+  // Whether the vault has a passphrase and is unlocked
+  ipcMain.handle('signing:state', async (): Promise<IPCResponse<SigningVaultState>> => {
+    try {
+      if (!ctx.signingVault) {
+        return error('SERVICE_UNAVAILABLE', 'Signing vault not initialized');
+      }
+      
+      return success(ctx.signingVault.getState());
+    } catch (err) {
+      return error('SIGNING_STATE_ERROR', (err as Error).message);
+    }
+  });
+
+  // Unlock the vault, setting the passphrase on first use
+  ipcMain.handle('signing:unlock', async (_, passphrase: string): Promise<IPCResponse<SigningVaultState>> => {
+    try {
+      if (!ctx.signingVault) {
+        return error('SERVICE_UNAVAILABLE', 'Signing vault not initialized');
+      }
+      
+      return success(await ctx.signingVault.unlock(passphrase));
+    } catch (err) {
+      return error('SIGNING_UNLOCK_ERROR', (err as Error).message);
+    }
+  });
+
+  // Forget the vault key
+  ipcMain.handle('signing:lock', async (): Promise<IPCResponse<SigningVaultState>> => {
+    try {
+      if (!ctx.signingVault) {
+        return error('SERVICE_UNAVAILABLE', 'Signing vault not initialized');
+      }
+      
+      return success(ctx.signingVault.lock());
+    } catch (err) {
+      return error('SIGNING_LOCK_ERROR', (err as Error).message);
+    }
+  });
+
+  // Re-encrypt the vault under a new passphrase
+  ipcMain.handle('signing:changePassphrase', async (_, current: string, next: string): Promise<IPCResponse<void>> => {
+    try {
+      if (!ctx.signingVault) {
+        return error('SERVICE_UNAVAILABLE', 'Signing vault not initialized');
+      }
+      
+      await ctx.signingVault.changePassphrase(current, next);
+      return success(undefined);
+    } catch (err) {
+      return error('SIGNING_PASSPHRASE_ERROR', (err as Error).message);
+    }
+  });
+
+  // List identities with their certificate fingerprints
+  ipcMain.handle('signing:list', async (): Promise<IPCResponse<SigningIdentity[]>> => {
+    try {
+      if (!ctx.signingVault) {
+        return error('SERVICE_UNAVAILABLE', 'Signing vault not initialized');
+      }
+      
+      return success(ctx.signingVault.list());
+    } catch (err) {
+      return error('SIGNING_LIST_ERROR', (err as Error).message);
+    }
+  });
+
+  // Generate a new keystore
+  ipcMain.handle('signing:generate', async (_, request: GenerateSigningIdentityRequest): Promise<IPCResponse<SigningIdentity>> => {
+    try {
+      if (!ctx.signingVault) {
+        return error('SERVICE_UNAVAILABLE', 'Signing vault not initialized');
+      }
+      
+      return success(await ctx.signingVault.generate(request));
+    } catch (err) {
+      return error('SIGNING_GENERATE_ERROR', (err as Error).message);
+    }
+  });
+
+  // Import an existing keystore file
+  ipcMain.handle('signing:import', async (_, request: ImportSigningIdentityRequest): Promise<IPCResponse<SigningIdentity>> => {
+    try {
+      if (!ctx.signingVault) {
+        return error('SERVICE_UNAVAILABLE', 'Signing vault not initialized');
+      }
+      
+      return success(await ctx.signingVault.import(request));
+    } catch (err) {
+      return error('SIGNING_IMPORT_ERROR', (err as Error).message);
+    }
+  });
+
+  // Delete an identity and unassign it from its apps
+  ipcMain.handle('signing:delete', async (_, identityId: string): Promise<IPCResponse<void>> => {
+    try {
+      if (!ctx.signingVault) {
+        return error('SERVICE_UNAVAILABLE', 'Signing vault not initialized');
+      }
+      
+      if (!ctx.signingVault.delete(identityId)) {
+        return error('IDENTITY_NOT_FOUND', `Signing identity ${identityId} not found`);
+      }
+      return success(undefined);
+    } catch (err) {
+      return error('SIGNING_DELETE_ERROR', (err as Error).message);
+    }
+  });
+
+  // Choose the identity that signs an app's release builds
+  ipcMain.handle('signing:assign', async (_, appId: string, identityId: string | null): Promise<IPCResponse<void>> => {
+    try {
+      if (!ctx.signingVault) {
+        return error('SERVICE_UNAVAILABLE', 'Signing vault not initialized');
+      }
+      
+      ctx.signingVault.assign(appId, identityId);
+      return success(undefined);
+    } catch (err) {
+      return error('SIGNING_ASSIGN_ERROR', (err as Error).message);
+    }
+  });
+}
+
+// =============================================================================
+// Toolchain Handlers
+// =============================================================================
+
+function setupToolchainHandlers(ctx: HandlerContext): void {
+  // List the installed JDKs and SDK packages
+  ipcMain.handle('toolchain:inventory', async (_, refresh?: boolean): Promise<IPCResponse<ToolchainInventory>> => {
+    try {
+      if (!ctx.toolchains) {
+        return error('SERVICE_UNAVAILABLE', 'Toolchain manager not initialized');
+      }
+      
+      return success(await ctx.toolchains.inventory(refresh === true));
+    } catch (err) {
+      return error('TOOLCHAIN_INVENTORY_ERROR', (err as Error).message);
+    }
+  });
+
+  // Check each template against the installed toolchains
+  ipcMain.handle('toolchain:compatibility', async (): Promise<IPCResponse<TemplateToolchainCompatibility[]>> => {
+    try {
+      if (!ctx.toolchains || !ctx.templateEngine) {
+        return error('SERVICE_UNAVAILABLE', 'Toolchain manager not initialized');
+      }
+      
+      const templates = ctx.templateEngine.listTemplates().filter((template) => !template.abstract);
+      return success(await ctx.toolchains.compatibility(templates));
+    } catch (err) {
+      return error('TOOLCHAIN_COMPATIBILITY_ERROR', (err as Error).message);
+    }
+  });
+
+  // Pick a compatible toolchain for an app again and pin it
+  ipcMain.handle('toolchain:pin', async (_, appId: string): Promise<IPCResponse<ToolchainResolution>> => {
+    try {
+      if (!ctx.toolchains || !ctx.templateEngine || !ctx.database) {
+        return error('SERVICE_UNAVAILABLE', 'Toolchain manager not initialized');
+      }
+      
+      const app = ctx.database.get<{ template_id: string; template_version: string | null }>(
+        'SELECT template_id, template_version FROM apps WHERE id = ?',
+        [appId]
+      );
+      if (!app) {
+        return error('APP_NOT_FOUND', `App with id ${appId} not found`);
+      }
+      
+      const template = appTemplate(ctx.templateEngine, {
+        templateId: app.template_id,
+        templateVersion: app.template_version ?? undefined,
+      });
+      if (!template) {
+        return error('TEMPLATE_NOT_FOUND', `Template ${app.template_id} not found`);
+      }
+      
+      return success(await ctx.toolchains.pin(appId, template));
+    } catch (err) {
+      return error('TOOLCHAIN_PIN_ERROR', (err as Error).message);
+    }
+  });
 }
 
 // =============================================================================
@@ -425,34 +1263,142 @@ function setupBuildHandlers(ctx: HandlerContext): void {
 // =============================================================================
 
 function setupTrendHandlers(ctx: HandlerContext): void {
-  // Scan for new trends
-  ipcMain.handle('trend:scan', async (): Promise<IPCResponse<TrendAnalysis>> => {
-    try {
-      // TODO: Implement actual trend scanning
-      // For now, return mock data
-      const analysis: TrendAnalysis = {
-        timestamp: new Date(),
-        topTrends: [],
-        emergingTrends: [],
-        decliningTrends: [],
-        categoryBreakdown: {
-          'wallpaper-pack': 35,
-          'quote-cards': 25,
-          'sound-boards': 20,
-          'ringtone-pack': 10,
-          'icon-pack': 5,
-          'widget-pack': 3,
-          'utility': 1,
-          'entertainment': 1,
-        },
-      };
+  forwardTrendScans(ctx);
+
+  // Poll every included trend source now
+  ipcMain.handle('trend:scan', async (): Promise<IPCResponse<TrendScanResult>> => {
+    try {
+      if (!ctx.trendIngestion) {
+        return error('SERVICE_UNAVAILABLE', 'Trend ingestion not initialized');
+      }
       
-      return success(analysis);
+      return success(await ctx.trendIngestion.scan());
     } catch (err) {
       return error('TREND_SCAN_ERROR', (err as Error).message);
     }
   });
 
+  // Scan settings and the polling state of each source
+  ipcMain.handle('trend:ingestionStatus', async (): Promise<IPCResponse<TrendIngestionStatus>> => {
+    try {
+      if (!ctx.trendIngestion) {
+        return error('SERVICE_UNAVAILABLE', 'Trend ingestion not initialized');
+      }
+      
+      return success(ctx.trendIngestion.getStatus());
+    } catch (err) {
+      return error('TREND_INGESTION_ERROR', (err as Error).message);
+    }
+  });
+
+  // Apply the trend settings to scheduled scans
+  ipcMain.handle('trend:configureIngestion', async (_, settings: TrendIngestionSettings): Promise<IPCResponse<TrendIngestionStatus>> => {
+    try {
+      if (!ctx.trendIngestion) {
+        return error('SERVICE_UNAVAILABLE', 'Trend ingestion not initialized');
+      }
+      
+      return success(ctx.trendIngestion.configure(settings));
+    } catch (err) {
+      return error('TREND_INGESTION_ERROR', (err as Error).message);
+    }
+  });
+
+  // Trend sources configured in the settings
+  ipcMain.handle('trend:plugins', async (): Promise<IPCResponse<TrendPluginConfig[]>> => {
+    try {
+      if (!ctx.trendPlugins) {
+        return error('SERVICE_UNAVAILABLE', 'Trend plugins not initialized');
+      }
+      
+      return success(ctx.trendPlugins.list());
+    } catch (err) {
+      return error('TREND_PLUGIN_ERROR', (err as Error).message);
+    }
+  });
+
+  // Add or replace a trend source plugin and poll it with the others
+  ipcMain.handle('trend:savePlugin', async (_, config: TrendPluginConfig): Promise<IPCResponse<TrendPluginConfig[]>> => {
+    try {
+      if (!ctx.trendPlugins) {
+        return error('SERVICE_UNAVAILABLE', 'Trend plugins not initialized');
+      }
+      
+      const plugins = ctx.trendPlugins.save(config);
+      ctx.trendIngestion?.reschedule();
+      return success(plugins);
+    } catch (err) {
+      return error('TREND_PLUGIN_ERROR', (err as Error).message);
+    }
+  });
+
+  // Remove a trend source plugin
+  ipcMain.handle('trend:deletePlugin', async (_, id: string): Promise<IPCResponse<TrendPluginConfig[]>> => {
+    try {
+      if (!ctx.trendPlugins) {
+        return error('SERVICE_UNAVAILABLE', 'Trend plugins not initialized');
+      }
+      
+      const plugins = ctx.trendPlugins.remove(id);
+      ctx.trendIngestion?.reschedule();
+      return success(plugins);
+    } catch (err) {
+      return error('TREND_PLUGIN_ERROR', (err as Error).message);
+    }
+  });
+
+  // Trends merged across sources, highest score first
+  ipcMain.handle('trend:entities', async (_, limit?: number): Promise<IPCResponse<TrendEntity[]>> => {
+    try {
+      if (!ctx.trendEntities) {
+        return error('SERVICE_UNAVAILABLE', 'Trend entities not initialized');
+      }
+      
+      return success(ctx.trendEntities.list(limit));
+    } catch (err) {
+      return error('TREND_ENTITY_ERROR', (err as Error).message);
+    }
+  });
+
+  // Entities linked to an entity, strongest edge first
+  ipcMain.handle('trend:related', async (_, entityId: string): Promise<IPCResponse<RelatedTrendEntity[]>> => {
+    try {
+      if (!ctx.trendEntities) {
+        return error('SERVICE_UNAVAILABLE', 'Trend entities not initialized');
+      }
+      
+      return success(ctx.trendEntities.related(entityId));
+    } catch (err) {
+      return error('TREND_ENTITY_ERROR', (err as Error).message);
+    }
+  });
+
+  // Forecast the daily volume of a trend from its scan history
+  ipcMain.handle('trend:forecast', async (_, trendId: string, horizonDays?: number): Promise<IPCResponse<TrendForecastResult>> => {
+    try {
+      if (!ctx.trendForecasts) {
+        return error('SERVICE_UNAVAILABLE', 'Trend forecasting not initialized');
+      }
+      
+      return success(ctx.trendForecasts.forecast(trendId, horizonDays));
+    } catch (err) {
+      return error('TREND_FORECAST_ERROR', (err as Error).message);
+    }
+  });
+
+  // Forecast error of each model on the trends with enough history
+  ipcMain.handle('trend:backtest', async (_, horizonDays?: number): Promise<IPCResponse<TrendBacktestReport>> => {
+    try {
+      if (!ctx.trendForecasts) {
+        return error('SERVICE_UNAVAILABLE', 'Trend forecasting not initialized');
+      }
+      
+      return success(ctx.trendForecasts.backtest(horizonDays));
+    } catch (err) {
+      return error('TREND_FORECAST_ERROR', (err as Error).message);
+    }
+  });
+
   // List all trends
   ipcMain.handle('trend:list', async (): Promise<IPCResponse<Trend[]>> => {
     try {
@@ -464,20 +1410,7 @@ function setupTrendHandlers(ctx: HandlerContext): void {
         SELECT * FROM trends ORDER BY score DESC LIMIT 50
       `);
       
-      const trends: Trend[] = rows.map((row) => ({
-        id: row.id as string,
-        keyword: row.keyword as string,
-        source: row.source as Trend['source'],
-        score: row.score as number,
-        velocity: row.velocity as number,
-        firstSeen: new Date(row.first_seen as string),
-        lastUpdated: new Date(row.last_updated as string),
-        suggestedCategory: row.suggested_category as TemplateCategory | undefined,
-        relatedKeywords: JSON.parse((row.related_keywords as string) || '[]'),
-        metadata: JSON.parse((row.metadata as string) || '{}'),
-      }));
-      
-      return success(trends);
+      return success(rows.map(toTrend));
     } catch (err) {
       return error('TREND_LIST_ERROR', (err as Error).message);
     }
@@ -492,31 +1425,54 @@ function setupTrendHandlers(ctx: HandlerContext): void {
       
       const rows = ctx.database.all<Record<string, unknown>>(`
         SELECT * FROM trends 
-        WHERE suggested_category = ? 
+        WHERE category = ? 
         ORDER BY score DESC 
         LIMIT 20
       `, [category]);
       
-      const trends: Trend[] = rows.map((row) => ({
-        id: row.id as string,
-        keyword: row.keyword as string,
-        source: row.source as Trend['source'],
-        score: row.score as number,
-        velocity: row.velocity as number,
-        firstSeen: new Date(row.first_seen as string),
-        lastUpdated: new Date(row.last_updated as string),
-        suggestedCategory: row.suggested_category as TemplateCategory,
-        relatedKeywords: JSON.parse((row.related_keywords as string) || '[]'),
-        metadata: JSON.parse((row.metadata as string) || '{}'),
-      }));
-      
-      return success(trends);
+      return success(rows.map(toTrend));
     } catch (err) {
       return error('TREND_SUGGEST_ERROR', (err as Error).message);
     }
   });
 }
 
+/**
+ * Send trend scan progress to the renderer as trends:scanProgress and
+ * trends:scanComplete events
+ */
+function forwardTrendScans(ctx: HandlerContext): void {
+  if (!ctx.trendIngestion) {
+    return;
+  }
+
+  ctx.trendIngestion.on('scan:progress', (progress) => {
+    ctx.mainWindow()?.webContents.send('trends:scanProgress', progress);
+  });
+  ctx.trendIngestion.on('scan:complete', (result) => {
+    ctx.mainWindow()?.webContents.send('trends:scanComplete', result);
+  });
+}
+
+/**
+ * Map a row of the trends table onto a Trend
+ */
+function toTrend(row: Record<string, unknown>): Trend {
+  const data = JSON.parse((row.data as string) || '{}');
+  return {
+    id: row.id as string,
+    keyword: row.keyword as string,
+    source: row.source as Trend['source'],
+    score: row.score as number,
+    velocity: (row.growth_rate as number | null) ?? 0,
+    firstSeen: new Date(row.first_seen as string),
+    lastUpdated: new Date(row.fetched_at as string),
+    suggestedCategory: (row.category as TemplateCategory | null) ?? undefined,
+    relatedKeywords: data.relatedKeywords ?? [],
+    metadata: data.metadata ?? {},
+  };
+}
+
 // =============================================================================
 // Setup All Handlers
 // =============================================================================
@@ -533,6 +1489,12 @@ export function setupIPCHandlers(ctx: HandlerContext): void {
   setupBuildHandlers(ctx);
   console.log('[IPC] Build handlers registered');
   
+  setupSigningHandlers(ctx);
+  console.log('[IPC] Signing handlers registered');
+  
+  setupToolchainHandlers(ctx);
+  console.log('[IPC] Toolchain handlers registered');
+  
   setupTrendHandlers(ctx);
   console.log('[IPC] Trend handlers registered');
   
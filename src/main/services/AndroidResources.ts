@@ -0,0 +1,398 @@
+/**
+ * AndroidResources.ts - Compiled Android Resource Decoder
+ *
+ * Decodes the binary formats AAPT2 writes into an APK: binary XML
+ * (AXML, used for AndroidManifest.xml) and the resource table
+ * (resources.arsc). Only what the APK inspector needs is decoded:
+ * elements, attribute values and simple resource entries.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Reference to another resource, e.g. `@string/app_name`
+ */
+export interface ResourceReference {
+  resourceId: number;
+}
+
+export type ResourceValue = string | number | boolean | ResourceReference;
+
+/**
+ * An element of a decoded binary XML document. Attribute names are
+ * stored without namespace prefix (`android:name` becomes `name`).
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, ResourceValue>;
+  children: XmlElement[];
+}
+
+/**
+ * A simple (non-bag) resource from the resource table
+ */
+export interface ResourceEntry {
+  type: string;
+  key: string;
+  value?: ResourceValue;
+}
+
+/**
+ * Decoded resource table, keyed by resource id
+ */
+export interface ResourceTable {
+  /** Global string pool, holding the values of string resources */
+  strings: string[];
+  entries: Map<number, ResourceEntry>;
+}
+
+// Chunk types
+const RES_STRING_POOL_TYPE = 0x0001;
+const RES_TABLE_TYPE = 0x0002;
+const RES_XML_TYPE = 0x0003;
+const RES_XML_START_ELEMENT_TYPE = 0x0102;
+const RES_XML_END_ELEMENT_TYPE = 0x0103;
+const RES_TABLE_PACKAGE_TYPE = 0x0200;
+const RES_TABLE_TYPE_TYPE = 0x0201;
+
+// Res_value data types
+const TYPE_REFERENCE = 0x01;
+const TYPE_STRING = 0x03;
+const TYPE_INT_DEC = 0x10;
+const TYPE_INT_BOOLEAN = 0x12;
+
+const STRING_POOL_UTF8 = 0x100;
+const NO_INDEX = 0xffffffff;
+
+// ResTable_type flags
+const TYPE_FLAG_SPARSE = 0x01;
+const TYPE_FLAG_OFFSET16 = 0x02;
+
+// ResTable_entry flags
+const ENTRY_FLAG_COMPLEX = 0x0001;
+const ENTRY_FLAG_COMPACT = 0x0008;
+
+/**
+ * Limit on chained references, guarding against reference cycles
+ */
+const MAX_REFERENCE_DEPTH = 8;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Binary XML
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Decode a binary XML document into its root element
+ */
+export function parseBinaryXml(data: Buffer): XmlElement {
+  if (data.length < 8 || data.readUInt16LE(0) !== RES_XML_TYPE) {
+    throw new Error('Not a binary XML document');
+  }
+
+  let strings: string[] = [];
+  let root: XmlElement | undefined;
+  const stack: XmlElement[] = [];
+
+  forEachChunk(data, data.readUInt16LE(2), data.length, (type, offset) => {
+    if (type === RES_STRING_POOL_TYPE) {
+      strings = readStringPool(data, offset);
+    } else if (type === RES_XML_START_ELEMENT_TYPE) {
+      const element = readElement(data, offset, strings);
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else {
+        root ??= element;
+      }
+      stack.push(element);
+    } else if (type === RES_XML_END_ELEMENT_TYPE) {
+      stack.pop();
+    }
+  });
+
+  if (!root) {
+    throw new Error('Binary XML document has no root element');
+  }
+  return root;
+}
+
+/**
+ * Read a start-element chunk and its attributes
+ */
+function readElement(data: Buffer, offset: number, strings: string[]): XmlElement {
+  const ext = offset + data.readUInt16LE(offset + 2);
+  const attributeStart = data.readUInt16LE(ext + 8);
+  const attributeSize = data.readUInt16LE(ext + 10);
+  const attributeCount = data.readUInt16LE(ext + 12);
+
+  const element: XmlElement = {
+    name: strings[data.readUInt32LE(ext + 4)] ?? '',
+    attributes: {},
+    children: [],
+  };
+
+  for (let i = 0; i < attributeCount; i++) {
+    const attribute = ext + attributeStart + i * attributeSize;
+    const name = strings[data.readUInt32LE(attribute + 4)];
+    const rawValue = data.readUInt32LE(attribute + 8);
+    if (!name) {
+      continue;
+    }
+
+    element.attributes[name] = rawValue !== NO_INDEX
+      ? strings[rawValue]
+      : readValue(data, attribute + 12, strings);
+  }
+
+  return element;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Resource Table
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Decode resources.arsc. Each entry takes its value from the default
+ * configuration when there is one, otherwise from the first
+ * configuration that defines it.
+ */
+export function parseResourceTable(data: Buffer): ResourceTable {
+  if (data.length < 12 || data.readUInt16LE(0) !== RES_TABLE_TYPE) {
+    throw new Error('Not a resource table');
+  }
+
+  const table: ResourceTable = { strings: [], entries: new Map() };
+  const fromDefault = new Set<number>();
+
+  forEachChunk(data, data.readUInt16LE(2), data.length, (type, offset, size) => {
+    if (type === RES_STRING_POOL_TYPE) {
+      table.strings = readStringPool(data, offset);
+    } else if (type === RES_TABLE_PACKAGE_TYPE) {
+      readPackage(data, offset, size, table, fromDefault);
+    }
+  });
+
+  return table;
+}
+
+/**
+ * Follow references until a plain value is reached
+ */
+export function resolveValue(table: ResourceTable | null, value: ResourceValue | undefined): ResourceValue | undefined {
+  let current = value;
+  for (let depth = 0; depth < MAX_REFERENCE_DEPTH && isReference(current); depth++) {
+    if (!table) {
+      return current;
+    }
+    current = table.entries.get(current.resourceId)?.value;
+  }
+  return current;
+}
+
+/**
+ * Whether a value points at another resource
+ */
+export function isReference(value: ResourceValue | undefined): value is ResourceReference {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Read one package chunk: its type and key names, then every type chunk
+ */
+function readPackage(
+  data: Buffer,
+  start: number,
+  size: number,
+  table: ResourceTable,
+  fromDefault: Set<number>
+): void {
+  const packageId = data.readUInt32LE(start + 8);
+  const typeNames = readStringPool(data, start + data.readUInt32LE(start + 268));
+  const keyNames = readStringPool(data, start + data.readUInt32LE(start + 276));
+
+  forEachChunk(data, start + data.readUInt16LE(start + 2), start + size, (type, offset) => {
+    if (type !== RES_TABLE_TYPE_TYPE) {
+      return;
+    }
+
+    const typeId = data[offset + 8];
+    const flags = data[offset + 9];
+    const entryCount = data.readUInt32LE(offset + 12);
+    const entriesStart = offset + data.readUInt32LE(offset + 16);
+    const isDefault = isDefaultConfig(data, offset + 20);
+    const offsets = offset + data.readUInt16LE(offset + 2);
+
+    for (let i = 0; i < entryCount; i++) {
+      let index = i;
+      let entryOffset: number;
+
+      if (flags & TYPE_FLAG_SPARSE) {
+        index = data.readUInt16LE(offsets + i * 4);
+        entryOffset = data.readUInt16LE(offsets + i * 4 + 2) * 4;
+      } else if (flags & TYPE_FLAG_OFFSET16) {
+        const value = data.readUInt16LE(offsets + i * 2);
+        if (value === 0xffff) {
+          continue;
+        }
+        entryOffset = value * 4;
+      } else {
+        entryOffset = data.readUInt32LE(offsets + i * 4);
+        if (entryOffset === NO_INDEX) {
+          continue;
+        }
+      }
+
+      const id = ((packageId << 24) | (typeId << 16) | index) >>> 0;
+      if (table.entries.has(id) && (fromDefault.has(id) || !isDefault)) {
+        continue;
+      }
+
+      table.entries.set(id, {
+        type: typeNames[typeId - 1] ?? '',
+        ...readEntry(data, entriesStart + entryOffset, keyNames, table.strings),
+      });
+      if (isDefault) {
+        fromDefault.add(id);
+      }
+    }
+  });
+}
+
+/**
+ * Read a table entry's key and, for simple entries, its value
+ */
+function readEntry(
+  data: Buffer,
+  offset: number,
+  keyNames: string[],
+  strings: string[]
+): Omit<ResourceEntry, 'type'> {
+  const size = data.readUInt16LE(offset);
+  const flags = data.readUInt16LE(offset + 2);
+
+  if (flags & ENTRY_FLAG_COMPACT) {
+    // Compact entries keep the key index in the size field and the
+    // data type in the high byte of the flags
+    return {
+      key: keyNames[size] ?? '',
+      value: toValue(flags >> 8, data.readUInt32LE(offset + 4), strings),
+    };
+  }
+
+  const key = keyNames[data.readUInt32LE(offset + 4)] ?? '';
+  if (flags & ENTRY_FLAG_COMPLEX) {
+    return { key };
+  }
+  return { key, value: readValue(data, offset + size, strings) };
+}
+
+/**
+ * Whether a ResTable_config matches every device, i.e. all fields
+ * after its size are zero
+ */
+function isDefaultConfig(data: Buffer, offset: number): boolean {
+  const size = data.readUInt32LE(offset);
+  for (let i = offset + 4; i < offset + size; i++) {
+    if (data[i] !== 0) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Call `visit` for each chunk between `start` and `end`
+ */
+function forEachChunk(
+  data: Buffer,
+  start: number,
+  end: number,
+  visit: (type: number, offset: number, size: number) => void
+): void {
+  let offset = start;
+  while (offset + 8 <= end) {
+    const type = data.readUInt16LE(offset);
+    const size = data.readUInt32LE(offset + 4);
+    if (size < 8 || offset + size > data.length) {
+      throw new Error(`Corrupt resource chunk at offset ${offset}`);
+    }
+    visit(type, offset, size);
+    offset += size;
+  }
+}
+
+/**
+ * Read a Res_value structure
+ */
+function readValue(data: Buffer, offset: number, strings: string[]): ResourceValue {
+  return toValue(data[offset + 3], data.readUInt32LE(offset + 4), strings);
+}
+
+function toValue(dataType: number, value: number, strings: string[]): ResourceValue {
+  switch (dataType) {
+    case TYPE_REFERENCE:
+      return { resourceId: value };
+    case TYPE_STRING:
+      return strings[value] ?? '';
+    case TYPE_INT_DEC:
+      return value | 0;
+    case TYPE_INT_BOOLEAN:
+      return value !== 0;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Read every string of a string pool chunk
+ */
+function readStringPool(data: Buffer, offset: number): string[] {
+  const headerSize = data.readUInt16LE(offset + 2);
+  const count = data.readUInt32LE(offset + 8);
+  const utf8 = (data.readUInt32LE(offset + 16) & STRING_POOL_UTF8) !== 0;
+  const stringsStart = offset + data.readUInt32LE(offset + 20);
+
+  const strings: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const start = stringsStart + data.readUInt32LE(offset + headerSize + i * 4);
+    strings.push(utf8 ? readUtf8String(data, start) : readUtf16String(data, start));
+  }
+  return strings;
+}
+
+/**
+ * UTF-8 strings are prefixed with their UTF-16 length and then their
+ * byte length, each stored in one byte, or two when the high bit is set
+ */
+function readUtf8String(data: Buffer, start: number): string {
+  let offset = start + (data[start] & 0x80 ? 2 : 1);
+  let length = data[offset];
+  if (length & 0x80) {
+    length = ((length & 0x7f) << 8) | data[offset + 1];
+    offset += 2;
+  } else {
+    offset += 1;
+  }
+  return data.toString('utf-8', offset, offset + length);
+}
+
+/**
+ * UTF-16 strings are prefixed with their length in code units, stored in
+ * one word, or two when the high bit is set
+ */
+function readUtf16String(data: Buffer, start: number): string {
+  let length = data.readUInt16LE(start);
+  let offset = start + 2;
+  if (length & 0x8000) {
+    length = ((length & 0x7fff) << 16) | data.readUInt16LE(offset);
+    offset += 2;
+  }
+  return data.toString('utf16le', offset, offset + length * 2);
+}
+
+export default parseBinaryXml;
@@ -0,0 +1,210 @@
+/**
+ * ApkInspector.ts - Built APK Analysis
+ *
+ * Opens a built APK without the Android SDK and reports its manifest
+ * details and size breakdown, and checks that the morphed package name
+ * and app name made it into the binary.
+ */
+
+import * as fs from 'fs-extra';
+import { readZip, ZipEntry } from './ZipArchive';
+import {
+  parseBinaryXml,
+  parseResourceTable,
+  resolveValue,
+  ResourceTable,
+  ResourceValue,
+  XmlElement,
+} from './AndroidResources';
+import type { ApkCheck, ApkReport, ApkSizeEntry } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Values the APK is expected to contain after morphing
+ */
+export interface ApkExpectations {
+  packageName?: string;
+  appName?: string;
+}
+
+/**
+ * APKs hold far more entries than template packages
+ */
+const MAX_APK_ENTRIES = 65_535;
+
+/**
+ * Template placeholders that must not survive into a built APK
+ */
+const PLACEHOLDERS = ['{{PACKAGE_NAME}}', '{{APP_NAME}}'];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Inspection
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Read and analyze an APK file
+ */
+export async function inspectApk(apkPath: string, expected: ApkExpectations = {}): Promise<ApkReport> {
+  return analyzeApk(await fs.readFile(apkPath), expected);
+}
+
+/**
+ * Analyze an APK held in memory
+ */
+export function analyzeApk(archive: Buffer, expected: ApkExpectations = {}): ApkReport {
+  const entries = readZip(archive, { maxEntries: MAX_APK_ENTRIES });
+  const byName = new Map(entries.map((entry) => [entry.name, entry]));
+
+  const manifestEntry = byName.get('AndroidManifest.xml');
+  if (!manifestEntry) {
+    throw new Error('APK has no AndroidManifest.xml');
+  }
+
+  const manifest = parseBinaryXml(manifestEntry.data);
+  const resourcesEntry = byName.get('resources.arsc');
+  const resources = resourcesEntry ? parseResourceTable(resourcesEntry.data) : null;
+
+  const resolve = (value: ResourceValue | undefined): ResourceValue | undefined =>
+    resolveValue(resources, value);
+  const packageName = asString(manifest.attributes.package) ?? '';
+  const usesSdk = findChildren(manifest, 'uses-sdk')[0];
+  const application = findChildren(manifest, 'application')[0];
+
+  const report: ApkReport = {
+    packageName,
+    versionCode: asNumber(resolve(manifest.attributes.versionCode)),
+    versionName: asString(resolve(manifest.attributes.versionName)),
+    minSdkVersion: asNumber(resolve(usesSdk?.attributes.minSdkVersion)),
+    targetSdkVersion: asNumber(resolve(usesSdk?.attributes.targetSdkVersion)),
+    label: asString(resolve(application?.attributes.label)),
+    permissions: [
+      ...findChildren(manifest, 'uses-permission'),
+      ...findChildren(manifest, 'uses-permission-sdk-23'),
+    ]
+      .map((element) => asString(element.attributes.name))
+      .filter((name): name is string => name !== undefined),
+    activities: (application ? findChildren(application, 'activity') : [])
+      .map((element) => asString(element.attributes.name))
+      .filter((name): name is string => name !== undefined)
+      .map((name) => (name.startsWith('.') ? `${packageName}${name}` : name)),
+    fileSize: archive.length,
+    directories: sizeBreakdown(entries),
+    dexFiles: entries
+      .filter((entry) => /^classes\d*\.dex$/.test(entry.name))
+      .map((entry) => toSizeEntry(entry.name, [entry])),
+    checks: [],
+  };
+
+  report.checks = runChecks(report, expected, entries, manifest, resources);
+  return report;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Compare the decoded APK against the morphed values and look for
+ * placeholders that were never substituted
+ */
+function runChecks(
+  report: ApkReport,
+  expected: ApkExpectations,
+  entries: ZipEntry[],
+  manifest: XmlElement,
+  resources: ResourceTable | null
+): ApkCheck[] {
+  const checks: ApkCheck[] = [];
+
+  if (expected.packageName !== undefined) {
+    checks.push({
+      name: 'packageName',
+      expected: expected.packageName,
+      actual: report.packageName,
+      passed: report.packageName === expected.packageName,
+    });
+  }
+  if (expected.appName !== undefined) {
+    checks.push({
+      name: 'appName',
+      expected: expected.appName,
+      actual: report.label,
+      passed: report.label === expected.appName,
+    });
+  }
+
+  const strings = [...collectStrings(manifest), ...(resources?.strings ?? [])];
+  const found = PLACEHOLDERS.filter((placeholder) =>
+    strings.some((value) => value.includes(placeholder)) ||
+    entries.some((entry) => entry.name.endsWith('.dex') && entry.data.includes(placeholder))
+  );
+  checks.push({
+    name: 'placeholders',
+    expected: 'none',
+    actual: found.length > 0 ? found.join(', ') : 'none',
+    passed: found.length === 0,
+  });
+
+  return checks;
+}
+
+/**
+ * Group entries by top-level directory, largest first
+ */
+function sizeBreakdown(entries: ZipEntry[]): ApkSizeEntry[] {
+  const groups = new Map<string, ZipEntry[]>();
+  for (const entry of entries) {
+    const slash = entry.name.indexOf('/');
+    const directory = slash === -1 ? '/' : entry.name.slice(0, slash);
+    groups.set(directory, [...(groups.get(directory) ?? []), entry]);
+  }
+
+  return [...groups.entries()]
+    .map(([directory, group]) => toSizeEntry(directory, group))
+    .sort((a, b) => b.compressedSize - a.compressedSize);
+}
+
+function toSizeEntry(path: string, entries: ZipEntry[]): ApkSizeEntry {
+  return {
+    path,
+    files: entries.length,
+    size: entries.reduce((total, entry) => total + entry.data.length, 0),
+    compressedSize: entries.reduce((total, entry) => total + (entry.compressedSize ?? entry.data.length), 0),
+  };
+}
+
+function findChildren(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
+
+/**
+ * Every string attribute value in a document
+ */
+function collectStrings(element: XmlElement): string[] {
+  return [
+    ...Object.values(element.attributes).filter((value): value is string => typeof value === 'string'),
+    ...element.children.flatMap(collectStrings),
+  ];
+}
+
+function asString(value: ResourceValue | undefined): string | undefined {
+  if (value === undefined || typeof value === 'object') {
+    return undefined;
+  }
+  return String(value);
+}
+
+function asNumber(value: ResourceValue | undefined): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+export default inspectApk;
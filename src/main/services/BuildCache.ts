@@ -0,0 +1,383 @@
+/**
+ * BuildCache.ts - Content-Addressed Build Cache
+ *
+ * Builds are keyed on a hash of the morphed project tree, the variant,
+ * the signing key and the toolchain versions. When a build with the same
+ * key succeeded before its artifacts are copied out of the cache instead
+ * of running Gradle. Builds that miss run in a warm workspace kept per
+ * template, so Gradle's incremental compilation carries over from one
+ * app to the next. Entries are evicted least recently used first once
+ * the cache outgrows its size limit.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import type { BuildCacheEntry, BuildCacheStore } from './BuildCacheStore';
+import type { DependencyReport } from './Provenance';
+import type { AndroidAbi, BuildCacheSettings, BuildCacheStats, BuildFormat } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * An artifact file to cache, or one restored from the cache
+ */
+export interface ArtifactFile {
+  format: BuildFormat;
+  abi?: AndroidAbi;
+  path: string;
+}
+
+/**
+ * What a cache hit restores
+ */
+export interface CachedBuild {
+  artifacts: ArtifactFile[];
+  dependencies?: DependencyReport;
+}
+
+/**
+ * A warm project directory reserved for one build
+ */
+export interface Workspace {
+  path: string;
+  /** Record the workspace's size and make it available to other builds */
+  release(): Promise<void>;
+}
+
+/**
+ * Entries that never affect build outputs: Gradle's and the IDE's state,
+ * machine-specific properties and AppForge's own metadata. Build
+ * directories of Gradle modules are skipped as well.
+ */
+const IGNORED_INPUTS = new Set(['.gradle', '.idea', '.appforge', 'local.properties', 'keystore.properties']);
+
+/**
+ * Entries a workspace keeps from its previous build instead of syncing
+ */
+const WORKSPACE_STATE = new Set(['.gradle', '.idea']);
+
+const BYTES_PER_MB = 1024 * 1024;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BuildCache Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class BuildCache {
+  private readonly busyWorkspaces = new Set<string>();
+
+  /**
+   * @param root - Directory holding cached artifacts and workspaces
+   */
+  constructor(private store: BuildCacheStore, private readonly root: string) {}
+
+  get enabled(): boolean {
+    return this.store.getSettings().cacheEnabled;
+  }
+
+  getStats(): BuildCacheStats {
+    const entries = this.store.list();
+    return {
+      ...this.store.getSettings(),
+      ...this.store.counters(),
+      size: entries.reduce((total, entry) => total + entry.size, 0),
+      entries: entries.filter((entry) => entry.kind === 'artifacts').length,
+      workspaces: entries.filter((entry) => entry.kind === 'workspace').length,
+    };
+  }
+
+  /**
+   * Change the settings, evicting entries that no longer fit
+   */
+  async configure(settings: BuildCacheSettings): Promise<BuildCacheStats> {
+    if (!Number.isFinite(settings.cacheMaxSize) || settings.cacheMaxSize <= 0) {
+      throw new Error(`Cache size must be a positive number of MB, got ${settings.cacheMaxSize}`);
+    }
+    this.store.saveSettings(settings);
+    await this.evict();
+    return this.getStats();
+  }
+
+  /**
+   * Remove every entry except workspaces in use
+   */
+  async clear(): Promise<BuildCacheStats> {
+    for (const entry of this.store.list()) {
+      if (!this.busyWorkspaces.has(entry.key)) {
+        await this.remove(entry);
+      }
+    }
+    return this.getStats();
+  }
+
+  /**
+   * Cached artifacts for a build key, or null on a miss
+   */
+  async lookup(key: string): Promise<CachedBuild | null> {
+    const entry = this.store.get(key);
+    const artifacts = entry?.artifacts?.map((artifact) => ({
+      format: artifact.format,
+      abi: artifact.abi,
+      path: path.join(this.entryPath(entry), artifact.file),
+    }));
+
+    if (!entry || !artifacts || !(await allExist(artifacts.map((artifact) => artifact.path)))) {
+      if (entry) {
+        await this.remove(entry);
+      }
+      this.store.countLookup(false);
+      return null;
+    }
+
+    this.store.countLookup(true);
+    this.store.update(key, { hits: entry.hits + 1, lastUsedAt: new Date() });
+    return { artifacts, dependencies: entry.dependencies };
+  }
+
+  /**
+   * Keep copies of a successful build's artifacts under its key
+   */
+  async save(key: string, artifacts: ArtifactFile[], dependencies?: DependencyReport): Promise<void> {
+    const entry: BuildCacheEntry = {
+      key,
+      kind: 'artifacts',
+      size: 0,
+      artifacts: [],
+      dependencies,
+      hits: 0,
+      createdAt: new Date(),
+      lastUsedAt: new Date(),
+    };
+    const dir = this.entryPath(entry);
+
+    // Builds with the same key may finish together; stage, then swap in
+    const staging = `${dir}.${process.pid}-${Date.now()}`;
+    await fs.ensureDir(staging);
+    try {
+      for (const [index, artifact] of artifacts.entries()) {
+        const file = `${index}-${path.basename(artifact.path)}`;
+        await fs.copy(artifact.path, path.join(staging, file));
+        entry.size += (await fs.stat(artifact.path)).size;
+        entry.artifacts!.push({ format: artifact.format, abi: artifact.abi, file });
+      }
+      await fs.remove(dir);
+      await fs.move(staging, dir);
+    } catch (error) {
+      await fs.remove(staging);
+      throw error;
+    }
+
+    this.store.put(entry);
+    await this.evict();
+  }
+
+  /**
+   * Reserve the warm workspace of a template. Returns null while another
+   * build uses it; that build then runs in the app's own project.
+   */
+  async acquireWorkspace(group: string): Promise<Workspace | null> {
+    const key = `workspace:${group}`;
+    if (this.busyWorkspaces.has(key)) {
+      return null;
+    }
+    this.busyWorkspaces.add(key);
+
+    const existing = this.store.get(key);
+    const entry: BuildCacheEntry = existing ?? {
+      key,
+      kind: 'workspace',
+      size: 0,
+      hits: 0,
+      createdAt: new Date(),
+      lastUsedAt: new Date(),
+    };
+    if (existing) {
+      this.store.update(key, { hits: existing.hits + 1, lastUsedAt: new Date() });
+    } else {
+      this.store.put(entry);
+    }
+
+    const workspacePath = this.entryPath(entry);
+    await fs.ensureDir(workspacePath);
+
+    return {
+      path: workspacePath,
+      release: async () => {
+        try {
+          if (this.store.get(key)) {
+            this.store.update(key, { size: await directorySize(workspacePath), lastUsedAt: new Date() });
+          }
+        } finally {
+          this.busyWorkspaces.delete(key);
+        }
+        await this.evict();
+      },
+    };
+  }
+
+  /**
+   * Drop least recently used entries until the cache fits its limit.
+   * Workspaces in use are skipped.
+   */
+  private async evict(): Promise<void> {
+    const limit = this.store.getSettings().cacheMaxSize * BYTES_PER_MB;
+    const entries = this.store.list();
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+    for (const entry of entries) {
+      if (total <= limit) {
+        break;
+      }
+      if (!this.busyWorkspaces.has(entry.key)) {
+        await this.remove(entry);
+        total -= entry.size;
+      }
+    }
+  }
+
+  private async remove(entry: BuildCacheEntry): Promise<void> {
+    this.store.delete(entry.key);
+    await fs.remove(this.entryPath(entry));
+  }
+
+  private entryPath(entry: Pick<BuildCacheEntry, 'key' | 'kind'>): string {
+    return entry.kind === 'workspace'
+      ? path.join(this.root, 'workspaces', entry.key.slice('workspace:'.length).replace(/[^\w.-]/g, '_'))
+      : path.join(this.root, 'artifacts', entry.key);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Hash a project's source tree together with the other build inputs.
+ * Files are hashed by content, so re-morphing an app with the same
+ * values yields the same key.
+ */
+export async function buildKey(projectPath: string, inputs: Record<string, unknown>): Promise<string> {
+  const hash = createHash('sha256');
+  hash.update(JSON.stringify(inputs));
+
+  for (const file of await listFiles(projectPath, (name, isModule) =>
+    IGNORED_INPUTS.has(name) || (isModule && name === 'build')
+  )) {
+    const content = createHash('sha256').update(await fs.readFile(path.join(projectPath, file))).digest('hex');
+    hash.update(`\0${file}\0${content}`);
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * Versions of the host SDK and JDK builds run with
+ */
+export async function hostToolchainVersion(androidSdkRoot: string, javaHome: string): Promise<string> {
+  const packages = async (dir: string) =>
+    (await fs.pathExists(dir)) ? (await fs.readdir(dir)).sort().join(',') : 'none';
+
+  const release = path.join(javaHome, 'release');
+  const java = (await fs.pathExists(release))
+    ? /^JAVA_VERSION="?([^"\n]+)/m.exec(await fs.readFile(release, 'utf-8'))?.[1] ?? 'unknown'
+    : 'unknown';
+
+  return [
+    `java=${java}`,
+    `build-tools=${await packages(path.join(androidSdkRoot, 'build-tools'))}`,
+    `platforms=${await packages(path.join(androidSdkRoot, 'platforms'))}`,
+  ].join(';');
+}
+
+/**
+ * Make a workspace match a project, leaving its Gradle state and build
+ * directories alone. Files whose content is unchanged are not touched so
+ * Gradle sees them as up to date.
+ */
+export async function syncProject(projectPath: string, workspacePath: string): Promise<void> {
+  const skip = (name: string, isModule: boolean) => WORKSPACE_STATE.has(name) || (isModule && name === 'build');
+  const sources = await listFiles(projectPath, skip);
+  const wanted = new Set(sources);
+
+  for (const file of sources) {
+    const source = path.join(projectPath, file);
+    const target = path.join(workspacePath, file);
+    if (!(await sameContent(source, target))) {
+      await fs.copy(source, target);
+    }
+  }
+
+  for (const file of await listFiles(workspacePath, skip)) {
+    if (!wanted.has(file)) {
+      await fs.remove(path.join(workspacePath, file));
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Files below a directory as sorted `/`-separated relative paths.
+ * `skip` is asked about each entry, with whether its directory is a
+ * Gradle module.
+ */
+async function listFiles(
+  root: string,
+  skip: (name: string, isModule: boolean) => boolean,
+  relative = ''
+): Promise<string[]> {
+  const names = (await fs.readdir(path.join(root, relative))).sort();
+  const isModule = names.includes('build.gradle') || names.includes('build.gradle.kts');
+  const files: string[] = [];
+
+  for (const name of names) {
+    if (skip(name, isModule)) {
+      continue;
+    }
+    const entry = relative ? `${relative}/${name}` : name;
+    const stat = await fs.stat(path.join(root, entry));
+    if (stat.isDirectory()) {
+      files.push(...(await listFiles(root, skip, entry)));
+    } else if (stat.isFile()) {
+      files.push(entry);
+    }
+  }
+
+  return files;
+}
+
+async function sameContent(a: string, b: string): Promise<boolean> {
+  if (!(await fs.pathExists(b))) {
+    return false;
+  }
+  const [statA, statB] = await Promise.all([fs.stat(a), fs.stat(b)]);
+  if (statA.size !== statB.size || statA.mode !== statB.mode) {
+    return false;
+  }
+  const [contentA, contentB] = await Promise.all([fs.readFile(a), fs.readFile(b)]);
+  return contentA.equals(contentB);
+}
+
+async function allExist(files: string[]): Promise<boolean> {
+  for (const file of files) {
+    if (!(await fs.pathExists(file))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+async function directorySize(dir: string): Promise<number> {
+  let size = 0;
+  for (const name of await fs.readdir(dir)) {
+    const stat = await fs.lstat(path.join(dir, name));
+    size += stat.isDirectory() ? await directorySize(path.join(dir, name)) : stat.size;
+  }
+  return size;
+}
+
+export default BuildCache;
@@ -0,0 +1,161 @@
+/**
+ * BuildCacheStore.ts - Build Cache Persistence
+ *
+ * Stores the build cache settings, its hit and miss counters, and the
+ * index of cached artifacts and warm workspaces in SQLite. The cached
+ * files themselves live on disk, see BuildCache.
+ */
+
+import type { DatabaseService } from '../database/Database';
+import type { DependencyReport } from './Provenance';
+import type { AndroidAbi, BuildCacheSettings, BuildFormat } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * An artifact file kept in the cache
+ */
+export interface CachedArtifact {
+  format: BuildFormat;
+  abi?: AndroidAbi;
+  /** File name inside the entry's directory */
+  file: string;
+}
+
+export type BuildCacheEntryKind = 'artifacts' | 'workspace';
+
+export interface BuildCacheEntry {
+  key: string;
+  kind: BuildCacheEntryKind;
+  /** Bytes on disk */
+  size: number;
+  /** Files of an `artifacts` entry */
+  artifacts?: CachedArtifact[];
+  /** Dependencies Gradle reported for the cached build */
+  dependencies?: DependencyReport;
+  hits: number;
+  createdAt: Date;
+  lastUsedAt: Date;
+}
+
+/**
+ * Persistence used by the build cache
+ */
+export interface BuildCacheStore {
+  getSettings(): BuildCacheSettings;
+  saveSettings(settings: BuildCacheSettings): void;
+  counters(): { hits: number; misses: number };
+  countLookup(hit: boolean): void;
+  get(key: string): BuildCacheEntry | undefined;
+  /** Insert an entry, replacing one with the same key */
+  put(entry: BuildCacheEntry): void;
+  update(key: string, changes: Partial<Pick<BuildCacheEntry, 'size' | 'hits' | 'lastUsedAt'>>): void;
+  /** Least recently used first */
+  list(): BuildCacheEntry[];
+  delete(key: string): void;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SqliteBuildCacheStore Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build cache persistence backed by the app database
+ */
+export class SqliteBuildCacheStore implements BuildCacheStore {
+  constructor(private database: DatabaseService) {}
+
+  getSettings(): BuildCacheSettings {
+    const row = this.database.get<{ enabled: number; max_size: number }>(
+      'SELECT enabled, max_size FROM build_cache WHERE id = 1'
+    );
+    return { cacheEnabled: row ? row.enabled === 1 : true, cacheMaxSize: row?.max_size ?? 2048 };
+  }
+
+  saveSettings(settings: BuildCacheSettings): void {
+    this.database.run(`
+      INSERT INTO build_cache (id, enabled, max_size) VALUES (1, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET enabled = excluded.enabled, max_size = excluded.max_size
+    `, [settings.cacheEnabled ? 1 : 0, settings.cacheMaxSize]);
+  }
+
+  counters(): { hits: number; misses: number } {
+    const row = this.database.get<{ hits: number; misses: number }>('SELECT hits, misses FROM build_cache WHERE id = 1');
+    return { hits: row?.hits ?? 0, misses: row?.misses ?? 0 };
+  }
+
+  countLookup(hit: boolean): void {
+    this.database.run(hit
+      ? 'UPDATE build_cache SET hits = hits + 1 WHERE id = 1'
+      : 'UPDATE build_cache SET misses = misses + 1 WHERE id = 1');
+  }
+
+  get(key: string): BuildCacheEntry | undefined {
+    const row = this.database.get<Record<string, unknown>>('SELECT * FROM build_cache_entries WHERE key = ?', [key]);
+    return row ? fromRow(row) : undefined;
+  }
+
+  put(entry: BuildCacheEntry): void {
+    this.database.run(`
+      INSERT OR REPLACE INTO build_cache_entries (
+        key, kind, size, artifacts, dependencies, hits, created_at, last_used_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      entry.key,
+      entry.kind,
+      entry.size,
+      entry.artifacts ? JSON.stringify(entry.artifacts) : null,
+      entry.dependencies ? JSON.stringify(entry.dependencies) : null,
+      entry.hits,
+      entry.createdAt.toISOString(),
+      entry.lastUsedAt.toISOString(),
+    ]);
+  }
+
+  update(key: string, changes: Partial<Pick<BuildCacheEntry, 'size' | 'hits' | 'lastUsedAt'>>): void {
+    const columns = { size: 'size', hits: 'hits', lastUsedAt: 'last_used_at' } as const;
+    const assignments: string[] = [];
+    const params: unknown[] = [];
+
+    for (const [field, value] of Object.entries(changes)) {
+      assignments.push(`${columns[field as keyof typeof columns]} = ?`);
+      params.push(value instanceof Date ? value.toISOString() : value);
+    }
+
+    if (assignments.length > 0) {
+      this.database.run(`UPDATE build_cache_entries SET ${assignments.join(', ')} WHERE key = ?`, [...params, key]);
+    }
+  }
+
+  list(): BuildCacheEntry[] {
+    return this.database
+      .all<Record<string, unknown>>('SELECT * FROM build_cache_entries ORDER BY last_used_at ASC')
+      .map(fromRow);
+  }
+
+  delete(key: string): void {
+    this.database.run('DELETE FROM build_cache_entries WHERE key = ?', [key]);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function fromRow(row: Record<string, unknown>): BuildCacheEntry {
+  return {
+    key: row.key as string,
+    kind: row.kind as BuildCacheEntryKind,
+    size: row.size as number,
+    artifacts: row.artifacts ? JSON.parse(row.artifacts as string) : undefined,
+    dependencies: row.dependencies ? JSON.parse(row.dependencies as string) : undefined,
+    hits: row.hits as number,
+    createdAt: new Date(row.created_at as string),
+    lastUsedAt: new Date(row.last_used_at as string),
+  };
+}
+
+export default SqliteBuildCacheStore;
@@ -0,0 +1,209 @@
+/**
+ * BuildExecutor.ts - Where Gradle Runs
+ *
+ * Executors run the Gradle wrapper of a prepared project and stream its
+ * output back. The pipeline picks one per build: the local process, a
+ * container runtime, or a remote worker (see RemoteExecutor).
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A Gradle invocation for an executor to run
+ */
+export interface ExecutionRequest {
+  projectPath: string;
+  /** Arguments to the Gradle wrapper */
+  args: string[];
+  /** Variables for the build, e.g. signing credentials */
+  env: Record<string, string>;
+  /** Project-relative directories the build writes its outputs to */
+  outputs: string[];
+  /** Files outside the project the build reads, e.g. a keystore */
+  hostPaths: string[];
+}
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export type OutputListener = (stream: OutputStream, text: string) => void;
+
+/**
+ * A running invocation
+ */
+export interface Execution {
+  /**
+   * Settles once the build finished and its outputs are in the project
+   * directory. Resolves with Gradle's exit code, null when cancelled.
+   */
+  done: Promise<number | null>;
+  cancel(): void;
+}
+
+export interface BuildExecutor {
+  readonly name: string;
+  /** Whether builds use the Android SDK and JDK installed on this machine */
+  readonly usesHostToolchain: boolean;
+  /** Identifies the SDK and JDK of executors that bring their own */
+  readonly toolchain?: string;
+  execute(request: ExecutionRequest, onOutput: OutputListener): Execution;
+}
+
+/**
+ * Container executor configuration
+ */
+export interface ContainerExecutorOptions {
+  /** Image with the Android SDK and a JDK installed */
+  image: string;
+  runtime?: 'docker' | 'podman';
+}
+
+export const DEFAULT_BUILD_IMAGE = 'ghcr.io/cirruslabs/android-sdk:34';
+
+/**
+ * Where the project is mounted inside the container
+ */
+const CONTAINER_WORKDIR = '/workspace';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Executors
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Runs the Gradle wrapper as a child process of this machine
+ */
+export class LocalExecutor implements BuildExecutor {
+  readonly name = 'local';
+  readonly usesHostToolchain = true;
+
+  execute(request: ExecutionRequest, onOutput: OutputListener): Execution {
+    let child: ChildProcess | null = null;
+    let cancelled = false;
+
+    const done = ensureExecutable(request.projectPath).then(() => {
+      if (cancelled) {
+        return null;
+      }
+      // The shell splits on whitespace, so paths in arguments are quoted
+      const args = request.args.map((arg) => (/\s/.test(arg) ? `"${arg}"` : arg));
+      child = spawn(process.platform === 'win32' ? 'gradlew.bat' : './gradlew', args, {
+        cwd: request.projectPath,
+        env: { ...process.env, ...request.env },
+        shell: true,
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+      return waitForExit(child, onOutput);
+    });
+
+    return {
+      done,
+      cancel: () => {
+        cancelled = true;
+        child?.kill('SIGTERM');
+      },
+    };
+  }
+}
+
+/**
+ * Runs the Gradle wrapper in a throwaway container with the project
+ * mounted read-write and any host files it needs mounted read-only at
+ * their host paths. The image provides the SDK and JDK. Variables are
+ * passed by name so their values stay off the command line.
+ */
+export class ContainerExecutor implements BuildExecutor {
+  readonly name = 'container';
+  readonly usesHostToolchain = false;
+  readonly toolchain: string;
+  private readonly runtime: 'docker' | 'podman';
+
+  constructor(private readonly options: ContainerExecutorOptions) {
+    this.runtime = options.runtime ?? 'docker';
+    this.toolchain = options.image;
+  }
+
+  execute(request: ExecutionRequest, onOutput: OutputListener): Execution {
+    const containerName = `appforge-build-${randomUUID()}`;
+    let child: ChildProcess | null = null;
+    let cancelled = false;
+
+    const done = ensureExecutable(request.projectPath).then(() => {
+      if (cancelled) {
+        return null;
+      }
+      child = spawn(this.runtime, this.runArgs(containerName, request), {
+        env: { ...process.env, ...request.env },
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+      return waitForExit(child, onOutput);
+    });
+
+    return {
+      done,
+      cancel: () => {
+        cancelled = true;
+        if (child) {
+          // Killing the client does not stop the container itself
+          spawn(this.runtime, ['kill', containerName], { stdio: 'ignore' }).on('error', () => undefined);
+          child.kill('SIGTERM');
+        }
+      },
+    };
+  }
+
+  /**
+   * Arguments for `docker run` / `podman run`
+   */
+  runArgs(containerName: string, request: ExecutionRequest): string[] {
+    return [
+      'run',
+      '--rm',
+      '--name', containerName,
+      '-v', `${path.resolve(request.projectPath)}:${CONTAINER_WORKDIR}`,
+      ...request.hostPaths.flatMap((hostPath) => ['-v', `${hostPath}:${hostPath}:ro`]),
+      ...Object.keys(request.env).flatMap((name) => ['-e', name]),
+      '-w', CONTAINER_WORKDIR,
+      this.options.image,
+      './gradlew',
+      ...request.args,
+    ];
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Make the Gradle wrapper executable; generated and extracted projects
+ * may have lost the mode bit
+ */
+async function ensureExecutable(projectPath: string): Promise<void> {
+  if (process.platform === 'win32') {
+    return;
+  }
+  const gradlewPath = path.join(projectPath, 'gradlew');
+  if (await fs.pathExists(gradlewPath)) {
+    await fs.chmod(gradlewPath, 0o755);
+  }
+}
+
+/**
+ * Forward a child's output and resolve with its exit code
+ */
+function waitForExit(child: ChildProcess, onOutput: OutputListener): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    child.stdout?.on('data', (data: Buffer) => onOutput('stdout', data.toString()));
+    child.stderr?.on('data', (data: Buffer) => onOutput('stderr', data.toString()));
+    child.on('close', (code: number | null) => resolve(code));
+    child.on('error', reject);
+  });
+}
+
+export default LocalExecutor;
@@ -0,0 +1,198 @@
+/**
+ * BuildFailures.ts - Build Failure Classification
+ *
+ * Recognizes common causes of failed Gradle builds from their output and
+ * decides what to do about each: retry with a remediation that usually
+ * helps, or fail fast with a message saying how to fix the cause.
+ */
+
+import type { BuildFailureClass, BuildRemediation, BuildRemediationAttempt } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A recognized failure with an actionable message
+ */
+export interface BuildFailure {
+  failureClass: BuildFailureClass;
+  message: string;
+  /** Line of the output the class was recognized by */
+  evidence: string;
+}
+
+/**
+ * What to do about a failure class
+ */
+export type FailurePolicy =
+  | { action: 'retry'; remediation: BuildRemediation }
+  | { action: 'fail' };
+
+/**
+ * A retry to make
+ */
+export interface RemediationStep {
+  remediation: BuildRemediation;
+  /** Gradle arguments of this and the earlier remediations */
+  args: string[];
+}
+
+interface FailurePattern {
+  failureClass: BuildFailureClass;
+  /** Every pattern must match; the first one's line is the evidence */
+  patterns: RegExp[];
+  message: (match: RegExpExecArray) => string;
+}
+
+/**
+ * Heap Gradle gets when a build ran out of memory
+ */
+const RAISED_JVM_ARGS = '-Xmx4g -XX:MaxMetaspaceSize=1g -XX:+HeapDumpOnOutOfMemoryError';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Patterns
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Checked in order: running out of memory often kills the daemon too,
+ * and a missing SDK platform can fail dependency resolution
+ */
+const FAILURE_PATTERNS: FailurePattern[] = [
+  {
+    failureClass: 'out-of-memory',
+    patterns: [/java\.lang\.OutOfMemoryError|GC overhead limit exceeded|JVM heap space is exhausted/],
+    message: () =>
+      'Gradle ran out of memory. Raise org.gradle.jvmargs in gradle.properties, e.g. -Xmx4g, ' +
+      'or close other builds and try again.',
+  },
+  {
+    failureClass: 'daemon-crash',
+    patterns: [
+      /Gradle build daemon disappeared unexpectedly|Could not (?:connect to|receive a message from) the Gradle daemon|daemon (?:has )?(?:crashed|terminated unexpectedly)/i,
+    ],
+    message: () =>
+      'The Gradle daemon crashed, also when building without it. ' +
+      'Check the JDK installation and free disk space, then build again.',
+  },
+  {
+    failureClass: 'sdk-platform-missing',
+    patterns: [
+      /Failed to find (?:target with hash string '(?:android-)?(\d+)'|Platform SDK with path: platforms;android-(\d+)|Build Tools revision ([\d.]+))/,
+    ],
+    message: (match) => {
+      const component = match[3] ? `build-tools;${match[3]}` : `platforms;android-${match[1] ?? match[2]}`;
+      return `Android SDK component ${component} is not installed. ` +
+        `Install it with the SDK Manager or \`sdkmanager "${component}"\`, then build again.`;
+    },
+  },
+  {
+    failureClass: 'license-not-accepted',
+    patterns: [
+      /You have not accepted the license agreements of the following SDK components:\s*\[?([^\]\n]*)|License for package (.+?) not accepted/,
+    ],
+    message: (match) => {
+      const components = (match[1] ?? match[2] ?? '').trim();
+      return `Android SDK licenses are not accepted${components ? ` for ${components}` : ''}. ` +
+        'Run `sdkmanager --licenses` and accept them, then build again.';
+    },
+  },
+  {
+    failureClass: 'keystore-password',
+    patterns: [/Keystore was tampered with, or password was incorrect|Cannot recover key|Given final block not properly padded/],
+    message: () =>
+      'The keystore password or key password is wrong. Check the passwords of the signing identity, ' +
+      'or import the keystore again in Settings > Signing.',
+  },
+  {
+    failureClass: 'unreplaced-placeholder',
+    patterns: [/\{\{\s*([A-Z][A-Z0-9_]*)\s*\}\}/],
+    message: (match) =>
+      `The project still contains the template placeholder {{${match[1]}}}. ` +
+      'Give it a value in the app\'s morph values and morph the app again.',
+  },
+  {
+    failureClass: 'offline-dependencies',
+    patterns: [
+      /Could not (?:resolve|download|GET|HEAD) /,
+      /UnknownHostException|No address associated with hostname|nodename nor servname provided|Network is unreachable|Connect(?:ion)? (?:refused|timed out)/,
+    ],
+    message: () =>
+      'Dependencies could not be downloaded and are not in Gradle\'s cache. ' +
+      'Connect to the network, or build once online so Gradle can cache them.',
+  },
+];
+
+/**
+ * What each failure class calls for. Classes without a fix Gradle can
+ * apply on its own fail fast.
+ */
+export const FAILURE_POLICIES: Record<BuildFailureClass, FailurePolicy> = {
+  'daemon-crash': { action: 'retry', remediation: 'no-daemon' },
+  'out-of-memory': { action: 'retry', remediation: 'raise-heap' },
+  'offline-dependencies': { action: 'retry', remediation: 'offline' },
+  'sdk-platform-missing': { action: 'fail' },
+  'license-not-accepted': { action: 'fail' },
+  'keystore-password': { action: 'fail' },
+  'unreplaced-placeholder': { action: 'fail' },
+};
+
+const REMEDIATION_ARGS: Record<BuildRemediation, string[]> = {
+  'no-daemon': ['--no-daemon'],
+  'raise-heap': [`-Dorg.gradle.jvmargs=${RAISED_JVM_ARGS}`],
+  offline: ['--offline'],
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Recognize why a build failed from its output; null when the cause is
+ * none of the known classes, e.g. a compile error
+ */
+export function classifyFailure(output: string): BuildFailure | null {
+  for (const candidate of FAILURE_PATTERNS) {
+    const matches = candidate.patterns.map((pattern) => pattern.exec(output));
+    if (matches.every(Boolean)) {
+      const match = matches[0]!;
+      return {
+        failureClass: candidate.failureClass,
+        message: candidate.message(match),
+        evidence: lineAt(output, match.index),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * The retry a failure calls for, or null to fail. Each remediation is
+ * tried once per build; a retry keeps the remediations made before it.
+ */
+export function nextRemediation(
+  failure: BuildFailure | null,
+  attempts: BuildRemediationAttempt[]
+): RemediationStep | null {
+  const policy = failure ? FAILURE_POLICIES[failure.failureClass] : null;
+  if (!policy || policy.action !== 'retry' || attempts.some((attempt) => attempt.remediation === policy.remediation)) {
+    return null;
+  }
+
+  return {
+    remediation: policy.remediation,
+    args: [...attempts, policy].flatMap(({ remediation }) => REMEDIATION_ARGS[remediation]),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function lineAt(output: string, index: number): string {
+  const start = output.lastIndexOf('\n', index) + 1;
+  const end = output.indexOf('\n', index);
+  return output.slice(start, end === -1 ? undefined : end).trim();
+}
+
+export default classifyFailure;
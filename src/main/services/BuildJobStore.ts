@@ -0,0 +1,255 @@
+/**
+ * BuildJobStore.ts - Build Queue Persistence
+ *
+ * Stores build jobs in the `build_jobs` SQLite table, and the queue's
+ * concurrency limit in `build_queue`, so the queue survives app restarts.
+ */
+
+import type { DatabaseService } from '../database/Database';
+import type { BuildConfig } from './BuildPipeline';
+import type { CycloneDxBom, DsseEnvelope } from './Provenance';
+import type {
+  ApkReport,
+  BuildArtifact,
+  BuildDiagnostic,
+  BuildJob,
+  BuildJobStatus,
+  BuildProfile,
+} from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build config as persisted; signing credentials are never written to disk
+ */
+export type StoredBuildConfig = Omit<BuildConfig, 'keystore'>;
+
+/**
+ * A job together with the data needed to run it
+ */
+export interface StoredBuildJob extends BuildJob {
+  config: StoredBuildConfig;
+  signed: boolean;
+  logs?: string[];
+  diagnostics?: BuildDiagnostic[];
+  apkReport?: ApkReport;
+  /** Signed provenance statement of a successful build */
+  provenance?: DsseEnvelope;
+  sbom?: CycloneDxBom;
+  /** Gradle task timings of a build that ran Gradle */
+  profile?: BuildProfile;
+}
+
+/**
+ * Persistence used by the build scheduler
+ */
+export interface BuildJobStore {
+  insert(job: StoredBuildJob): void;
+  get(id: string): StoredBuildJob | undefined;
+  /** Jobs with the given statuses, highest priority first, then by position */
+  list(statuses: BuildJobStatus[]): StoredBuildJob[];
+  update(id: string, changes: Partial<StoredBuildJob>): void;
+  /** Position that places a new job at the end of the queue */
+  nextPosition(): number;
+  addArtifacts(artifacts: BuildArtifact[]): void;
+  listArtifacts(jobId: string): BuildArtifact[];
+  /** Concurrency limit last set, if any */
+  getConcurrency(): number | undefined;
+  saveConcurrency(concurrency: number): void;
+}
+
+/**
+ * Column for each updatable job field
+ */
+const COLUMNS: Partial<Record<keyof StoredBuildJob, string>> = {
+  status: 'status',
+  priority: 'priority',
+  position: 'position',
+  attempts: 'attempts',
+  apkPath: 'apk_path',
+  errorMessage: 'error_message',
+  logs: 'logs',
+  diagnostics: 'diagnostics',
+  apkReport: 'apk_report',
+  failureClass: 'failure_class',
+  remediations: 'remediations',
+  provenance: 'provenance',
+  sbom: 'sbom',
+  profile: 'profile',
+  startedAt: 'started_at',
+  completedAt: 'completed_at',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SqliteBuildJobStore Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build job persistence backed by the app database
+ */
+export class SqliteBuildJobStore implements BuildJobStore {
+  constructor(private database: DatabaseService) {}
+
+  insert(job: StoredBuildJob): void {
+    this.database.run(`
+      INSERT INTO build_jobs (
+        id, app_id, build_type, flavor, format, matrix_id, config, signed, status, priority, position, attempts, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      job.id,
+      job.appId,
+      job.buildType,
+      job.flavor ?? null,
+      job.format,
+      job.matrixId ?? null,
+      JSON.stringify(job.config),
+      job.signed ? 1 : 0,
+      job.status,
+      job.priority,
+      job.position,
+      job.attempts,
+      job.createdAt.toISOString(),
+    ]);
+  }
+
+  get(id: string): StoredBuildJob | undefined {
+    const row = this.database.get<Record<string, unknown>>('SELECT * FROM build_jobs WHERE id = ?', [id]);
+    return row ? fromRow(row) : undefined;
+  }
+
+  list(statuses: BuildJobStatus[]): StoredBuildJob[] {
+    if (statuses.length === 0) {
+      return [];
+    }
+
+    const rows = this.database.all<Record<string, unknown>>(`
+      SELECT * FROM build_jobs
+      WHERE status IN (${statuses.map(() => '?').join(', ')})
+      ORDER BY priority DESC, position ASC
+    `, statuses);
+    return rows.map(fromRow);
+  }
+
+  update(id: string, changes: Partial<StoredBuildJob>): void {
+    const assignments: string[] = [];
+    const params: unknown[] = [];
+
+    for (const [key, value] of Object.entries(changes)) {
+      const column = COLUMNS[key as keyof StoredBuildJob];
+      if (!column) {
+        continue;
+      }
+      assignments.push(`${column} = ?`);
+      params.push(toColumnValue(value));
+    }
+
+    if (assignments.length > 0) {
+      this.database.run(`UPDATE build_jobs SET ${assignments.join(', ')} WHERE id = ?`, [...params, id]);
+    }
+  }
+
+  nextPosition(): number {
+    const row = this.database.get<{ position: number | null }>('SELECT MAX(position) AS position FROM build_jobs');
+    return (row?.position ?? 0) + 1;
+  }
+
+  addArtifacts(artifacts: BuildArtifact[]): void {
+    for (const artifact of artifacts) {
+      this.database.run(`
+        INSERT INTO build_artifacts (id, job_id, format, abi, path, size, status, error_message, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        artifact.id,
+        artifact.jobId,
+        artifact.format,
+        artifact.abi ?? null,
+        artifact.path ?? null,
+        artifact.size ?? null,
+        artifact.status,
+        artifact.errorMessage ?? null,
+        artifact.createdAt.toISOString(),
+      ]);
+    }
+  }
+
+  listArtifacts(jobId: string): BuildArtifact[] {
+    const rows = this.database.all<Record<string, unknown>>(
+      'SELECT * FROM build_artifacts WHERE job_id = ? ORDER BY created_at, abi',
+      [jobId]
+    );
+    return rows.map((row) => ({
+      id: row.id as string,
+      jobId: row.job_id as string,
+      format: row.format as BuildArtifact['format'],
+      abi: (row.abi as BuildArtifact['abi'] | null) ?? undefined,
+      path: (row.path as string | null) ?? undefined,
+      size: (row.size as number | null) ?? undefined,
+      status: row.status as BuildArtifact['status'],
+      errorMessage: (row.error_message as string | null) ?? undefined,
+      createdAt: new Date(row.created_at as string),
+    }));
+  }
+
+  getConcurrency(): number | undefined {
+    const row = this.database.get<{ concurrency: number | null }>('SELECT concurrency FROM build_queue WHERE id = 1');
+    return row?.concurrency ?? undefined;
+  }
+
+  saveConcurrency(concurrency: number): void {
+    this.database.run(`
+      INSERT INTO build_queue (id, concurrency) VALUES (1, ?)
+      ON CONFLICT(id) DO UPDATE SET concurrency = excluded.concurrency
+    `, [concurrency]);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function toColumnValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object' && value !== null) {
+    return JSON.stringify(value);
+  }
+  return value ?? null;
+}
+
+function fromRow(row: Record<string, unknown>): StoredBuildJob {
+  const status = row.status as BuildJobStatus;
+  return {
+    id: row.id as string,
+    appId: row.app_id as string,
+    buildType: row.build_type as BuildJob['buildType'],
+    flavor: (row.flavor as string | null) ?? undefined,
+    format: row.format as BuildJob['format'],
+    matrixId: (row.matrix_id as string | null) ?? undefined,
+    config: JSON.parse(row.config as string),
+    signed: row.signed === 1,
+    status,
+    priority: row.priority as number,
+    position: row.position as number,
+    attempts: row.attempts as number,
+    progress: status === 'success' ? 100 : 0,
+    apkPath: (row.apk_path as string | null) ?? undefined,
+    errorMessage: (row.error_message as string | null) ?? undefined,
+    logs: row.logs ? JSON.parse(row.logs as string) : undefined,
+    diagnostics: row.diagnostics ? JSON.parse(row.diagnostics as string) : undefined,
+    apkReport: row.apk_report ? JSON.parse(row.apk_report as string) : undefined,
+    failureClass: (row.failure_class as BuildJob['failureClass'] | null) ?? undefined,
+    remediations: row.remediations ? JSON.parse(row.remediations as string) : undefined,
+    provenance: row.provenance ? JSON.parse(row.provenance as string) : undefined,
+    sbom: row.sbom ? JSON.parse(row.sbom as string) : undefined,
+    profile: row.profile ? JSON.parse(row.profile as string) : undefined,
+    createdAt: new Date(row.created_at as string),
+    startedAt: row.started_at ? new Date(row.started_at as string) : undefined,
+    completedAt: row.completed_at ? new Date(row.completed_at as string) : undefined,
+  };
+}
+
+export default SqliteBuildJobStore;
@@ -0,0 +1,153 @@
+/**
+ * BuildMatrix.ts - Build Variant Expansion
+ *
+ * Expands a build matrix into variants and maps each variant to its
+ * Gradle task, output directories and artifact file names, following
+ * the Android Gradle Plugin's naming conventions. ABI splits are turned
+ * on through an init script, so projects need no `splits` block.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import type { AndroidAbi, BuildMatrix, BuildVariant } from '../../shared/types';
+
+export const ANDROID_ABIS: AndroidAbi[] = ['armeabi-v7a', 'arm64-v8a', 'x86', 'x86_64'];
+
+/**
+ * Product flavor names as Gradle accepts them
+ */
+const FLAVOR_NAME = /^[a-z][A-Za-z0-9]*$/;
+
+export const ABI_SPLITS_INIT_SCRIPT_FILE = path.join('.appforge', 'abi-splits.gradle');
+
+/**
+ * Gradle init script splitting the APKs of every application module by
+ * the ABIs in the `appforgeAbis` property. It runs once the project's own
+ * `android` block is evaluated and replaces any ABI split it declares.
+ */
+const ABI_SPLITS_INIT_SCRIPT = `
+allprojects { project ->
+    project.plugins.withId('com.android.application') {
+        def abis = project.findProperty('appforgeAbis')?.toString()?.split(',')
+        if (!abis) {
+            return
+        }
+        project.extensions.getByName('androidComponents').finalizeDsl { android ->
+            def split = android.splits.abi
+            split.enable = true
+            split.reset()
+            split.include(*abis)
+            split.universalApk = false
+        }
+    }
+}
+`.trimStart();
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Expand a matrix into one variant per flavor, build type and format
+ */
+export function expandMatrix(matrix: BuildMatrix): BuildVariant[] {
+  const flavors = matrix.flavors?.length ? matrix.flavors : [undefined];
+  const formats = matrix.formats?.length ? matrix.formats : ['apk' as const];
+
+  if (matrix.buildTypes.length === 0) {
+    throw new Error('Build matrix needs at least one build type');
+  }
+  for (const flavor of flavors) {
+    if (flavor !== undefined && !FLAVOR_NAME.test(flavor)) {
+      throw new Error(`Invalid product flavor: ${flavor}`);
+    }
+  }
+  for (const abi of matrix.abis ?? []) {
+    if (!ANDROID_ABIS.includes(abi)) {
+      throw new Error(`Unknown ABI: ${abi}`);
+    }
+  }
+
+  const variants: BuildVariant[] = [];
+  for (const flavor of flavors) {
+    for (const buildType of matrix.buildTypes) {
+      for (const format of formats) {
+        variants.push({
+          ...(flavor ? { flavor } : {}),
+          buildType,
+          format,
+          ...(format === 'apk' && matrix.abis?.length ? { abis: matrix.abis } : {}),
+        });
+      }
+    }
+  }
+  return variants;
+}
+
+/**
+ * Gradle's name for a variant, e.g. `freeRelease`
+ */
+export function variantName(variant: Pick<BuildVariant, 'flavor' | 'buildType'>): string {
+  return variant.flavor ? `${variant.flavor}${capitalize(variant.buildType)}` : variant.buildType;
+}
+
+/**
+ * Gradle task that builds a variant: `assembleFreeRelease` or `bundleFreeRelease`
+ */
+export function gradleTask(variant: Omit<BuildVariant, 'abis'>): string {
+  const verb = variant.format === 'aab' ? 'bundle' : 'assemble';
+  return `${verb}${capitalize(variantName(variant))}`;
+}
+
+/**
+ * Directories a variant's outputs are written to, for an `app` module
+ * and for single-module projects. APKs are nested by flavor then build
+ * type; bundles use the variant name.
+ */
+export function outputDirectories(projectPath: string, variant: Omit<BuildVariant, 'abis'>): string[] {
+  const relative = variant.format === 'aab'
+    ? path.join('bundle', variantName(variant))
+    : path.join('apk', ...(variant.flavor ? [variant.flavor] : []), variant.buildType);
+
+  return [
+    path.join(projectPath, 'app', 'build', 'outputs', relative),
+    path.join(projectPath, 'build', 'outputs', relative),
+  ];
+}
+
+/**
+ * File name an artifact is copied to, e.g. `app-1-free-release-arm64-v8a.apk`
+ */
+export function artifactFileName(appId: string, variant: Omit<BuildVariant, 'abis'>, abi?: AndroidAbi): string {
+  return `${[appId, variant.flavor, variant.buildType, abi].filter(Boolean).join('-')}.${variant.format}`;
+}
+
+/**
+ * Write the ABI split init script into a project. Returns the Gradle
+ * arguments that apply it, or none when no ABIs are requested.
+ */
+export async function prepareAbiSplits(projectPath: string, abis: AndroidAbi[]): Promise<string[]> {
+  if (abis.length === 0) {
+    return [];
+  }
+  await fs.outputFile(path.join(projectPath, ABI_SPLITS_INIT_SCRIPT_FILE), ABI_SPLITS_INIT_SCRIPT, 'utf-8');
+
+  return [
+    '--init-script',
+    ABI_SPLITS_INIT_SCRIPT_FILE.split(path.sep).join('/'),
+    `-PappforgeAbis=${abis.join(',')}`,
+  ];
+}
+
+/**
+ * The ABI an APK split was built for, judging by its file name
+ */
+export function abiOf(fileName: string): AndroidAbi | undefined {
+  return ANDROID_ABIS.find((abi) => fileName.includes(`-${abi}-`) || fileName.includes(`-${abi}.`));
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+export default expandMatrix;
@@ -6,9 +6,38 @@
  */
 
 import { EventEmitter } from 'events';
-import { spawn, ChildProcess } from 'child_process';
+import { createHash } from 'crypto';
 import * as fs from 'fs-extra';
+import * as os from 'os';
 import * as path from 'path';
+import { parseGradleOutput, mapDiagnosticsToTemplate, formatDiagnostic } from './GradleDiagnostics';
+import { readSourceMap } from './ProjectSourceMap';
+import { inspectApk, ApkExpectations } from './ApkInspector';
+import { abiOf, artifactFileName, gradleTask, outputDirectories, prepareAbiSplits } from './BuildMatrix';
+import { BuildExecutor, Execution, LocalExecutor } from './BuildExecutor';
+import { BuildFailure, classifyFailure, nextRemediation } from './BuildFailures';
+import { prepareProfile, readProfile } from './BuildProfile';
+import { verifyPin } from './Toolchain';
+import { BuildCache, ArtifactFile, Workspace, buildKey, hostToolchainVersion, syncProject } from './BuildCache';
+import {
+  BuildSource,
+  DependencyReport,
+  DEPENDENCY_REPORT_DIR,
+  prepareDependencyReport,
+  readDependencyReport,
+} from './Provenance';
+import type {
+  AndroidAbi,
+  ApkReport,
+  BuildArtifact,
+  BuildDiagnostic,
+  BuildFormat,
+  BuildProfile,
+  BuildRemediationAttempt,
+  BuildVariant,
+  MissingToolchainComponent,
+  ToolchainPin,
+} from '../../shared/types';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Interfaces
@@ -22,8 +51,14 @@ export interface BuildConfig {
   projectPath: string;
   outputPath: string;
   buildType: 'debug' | 'release';
-  keystore?: {
-    path: string;
+  /** Product flavor, e.g. `free`; omitted for projects without flavors */
+  flavor?: string;
+  /** Defaults to `apk`; `aab` runs the bundle task */
+  format?: BuildFormat;
+  /** ABI splits the APK build is expected to produce */
+  abis?: AndroidAbi[];
+  /** Release signing key, given as a keystore file or its contents */
+  keystore?: KeystoreSource & {
     password: string;
     alias: string;
     keyPassword: string;
@@ -31,18 +66,81 @@ export interface BuildConfig {
   gradleOptions?: string[];
   javaHome?: string;
   androidSdkRoot?: string;
+  /** JDK and SDK packages pinned for the app; javaHome and androidSdkRoot take precedence */
+  toolchain?: ToolchainPin;
+  /** Name of the executor that runs Gradle; defaults to `local` */
+  executor?: string;
+  /** Builds in the same group share a warm workspace, e.g. apps of one template */
+  cacheGroup?: string;
+  /** Morphed values the built APK is checked against */
+  expected?: ApkExpectations;
+  /** Template and morph values the project came from, for its provenance */
+  source?: BuildSource;
 }
 
+export type KeystoreSource = { path: string } | { data: Buffer };
+
+/**
+ * Files and variables that let Gradle sign a release build
+ */
+interface SigningSetup {
+  /** Private temp directory holding the keystore and init script */
+  dir: string;
+  args: string[];
+  env: Record<string, string>;
+}
+
+/**
+ * Gradle init script that signs release builds of every application
+ * module with the keystore named in the environment, so templates need
+ * no signing configuration of their own
+ */
+const SIGNING_INIT_SCRIPT = `
+allprojects { project ->
+    project.plugins.withId('com.android.application') {
+        def android = project.extensions.getByName('android')
+        def appforge = android.signingConfigs.create('appforgeRelease') {
+            storeFile = new File(System.getenv('APPFORGE_SIGNING_STORE_FILE'))
+            storePassword = System.getenv('APPFORGE_SIGNING_STORE_PASSWORD')
+            keyAlias = System.getenv('APPFORGE_SIGNING_KEY_ALIAS')
+            keyPassword = System.getenv('APPFORGE_SIGNING_KEY_PASSWORD')
+        }
+        android.buildTypes.getByName('release').signingConfig = appforge
+    }
+}
+`.trimStart();
+
+/**
+ * An artifact as produced by the pipeline, before it is recorded
+ */
+export type BuildArtifactResult = Omit<BuildArtifact, 'id' | 'jobId' | 'createdAt'>;
+
 /**
  * Result of a build operation
  */
 export interface BuildResult {
   success: boolean;
+  /** First artifact built, kept for single-artifact callers */
   apkPath?: string;
   buildTime: number;
   errors: string[];
   warnings: string[];
   logs: string[];
+  /** Compiler and tool messages parsed from the Gradle output */
+  diagnostics: BuildDiagnostic[];
+  apkReport?: ApkReport;
+  /** One per output file; a build succeeds only when every artifact did */
+  artifacts: BuildArtifactResult[];
+  /** Whether the artifacts were reused from an identical earlier build */
+  cacheHit?: boolean;
+  /** Toolchain versions and resolved dependencies reported by Gradle */
+  dependencies?: DependencyReport;
+  /** Known cause of the last Gradle failure, remediated or not */
+  failure?: BuildFailure;
+  /** Retries made with remediations, in order */
+  remediations?: BuildRemediationAttempt[];
+  /** Task timings of the Gradle run that produced the artifacts */
+  profile?: BuildProfile;
 }
 
 /**
@@ -54,6 +152,8 @@ export interface PrerequisiteCheck {
   javaFound: boolean;
   gradleFound: boolean;
   errors: string[];
+  /** Components of the pinned toolchain that are no longer installed */
+  missing?: MissingToolchainComponent[];
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -70,12 +170,21 @@ export interface PrerequisiteCheck {
  * @fires BuildPipeline#build:error - When build fails
  */
 export class BuildPipeline extends EventEmitter {
-  private currentProcess: ChildProcess | null = null;
+  private currentExecution: Execution | null = null;
+  private cancelled = false;
+  private output = '';
   private defaultAndroidSdkRoot: string;
   private defaultJavaHome: string;
+  private readonly executors: Record<string, BuildExecutor>;
 
-  constructor() {
+  /**
+   * @param executors - Executors builds can choose by name, in addition
+   * to `local`
+   * @param cache - Reuses artifacts of identical builds when enabled
+   */
+  constructor(executors: Record<string, BuildExecutor> = {}, private readonly cache: BuildCache | null = null) {
     super();
+    this.executors = { local: new LocalExecutor(), ...executors };
     
     // Set default paths based on platform
     if (process.platform === 'win32') {
@@ -109,14 +218,7 @@ export class BuildPipeline extends EventEmitter {
   async checkPrerequisites(config?: Partial<BuildConfig>): Promise<PrerequisiteCheck> {
     const errors: string[] = [];
     
-    const androidSdkRoot = config?.androidSdkRoot || 
-      process.env.ANDROID_SDK_ROOT || 
-      process.env.ANDROID_HOME ||
-      this.defaultAndroidSdkRoot;
-
-    const javaHome = config?.javaHome || 
-      process.env.JAVA_HOME ||
-      this.defaultJavaHome;
+    const { ANDROID_SDK_ROOT: androidSdkRoot, JAVA_HOME: javaHome } = this.resolveToolchain(config ?? {});
 
     // Check Android SDK
     const androidSdkFound = await fs.pathExists(androidSdkRoot);
@@ -141,6 +243,13 @@ export class BuildPipeline extends EventEmitter {
       errors.push(`Java not found at: ${javaHome}`);
     }
 
+    // Check the pinned packages are still installed
+    const missing = config?.toolchain ? await verifyPin(config.toolchain) : undefined;
+    for (const component of missing ?? []) {
+      errors.push(`Pinned ${component.requirement} is no longer installed` +
+        (component.sdkPackage ? `; install it with \`sdkmanager "${component.sdkPackage}"\`` : ''));
+    }
+
     // Check Gradle wrapper existence (will be checked per-project)
     const gradleFound = true; // Gradle wrapper is bundled with projects
 
@@ -150,6 +259,7 @@ export class BuildPipeline extends EventEmitter {
       javaFound,
       gradleFound,
       errors,
+      missing,
     };
   }
 
@@ -164,13 +274,29 @@ export class BuildPipeline extends EventEmitter {
       errors: [],
       warnings: [],
       logs: [],
+      diagnostics: [],
+      artifacts: [],
     };
+    this.output = '';
+    this.cancelled = false;
+    let signing: SigningSetup | null = null;
+    let workspace: Workspace | null = null;
 
     this.emit('build:start', { config });
 
     try {
-      // Check prerequisites
-      const prereqs = await this.checkPrerequisites(config);
+      const executor = this.executors[config.executor ?? 'local'];
+      if (!executor) {
+        const error = `Unknown build executor: ${config.executor}`;
+        result.errors.push(error);
+        this.emit('build:error', { errors: [error] });
+        return result;
+      }
+
+      // Check prerequisites; other executors bring their own SDK and JDK
+      const prereqs = executor.usesHostToolchain
+        ? await this.checkPrerequisites(config)
+        : { valid: true, errors: [] };
       if (!prereqs.valid) {
         result.errors.push(...prereqs.errors);
         this.emit('build:error', { errors: prereqs.errors });
@@ -196,51 +322,127 @@ export class BuildPipeline extends EventEmitter {
         return result;
       }
 
-      // Configure keystore for release builds
-      if (config.buildType === 'release' && config.keystore) {
-        await this.configureKeystore(config);
-      }
+      const cacheKey = this.cache?.enabled ? await this.cacheKey(executor, config) : null;
+      const cached = cacheKey ? await this.cache!.lookup(cacheKey) : null;
 
-      // Run Gradle build
-      const gradleTask = config.buildType === 'debug' 
-        ? 'assembleDebug' 
-        : 'assembleRelease';
+      if (cached) {
+        this.emit('build:progress', { stage: 'cache', message: 'Reusing the artifacts of an identical build' });
+        result.cacheHit = true;
+        result.artifacts = await this.restoreArtifacts(config, cached.artifacts);
+        result.dependencies = cached.dependencies;
+      } else {
+        // Build in the template's warm workspace so Gradle can compile
+        // incrementally; outputs are copied from there as usual
+        let buildConfig = config;
+        if (cacheKey && config.cacheGroup) {
+          workspace = await this.cache!.acquireWorkspace(config.cacheGroup);
+          if (workspace) {
+            await syncProject(config.projectPath, workspace.path);
+            buildConfig = { ...config, projectPath: workspace.path };
+          }
+        }
 
-      const gradleArgs = [
-        gradleTask,
-        '--stacktrace',
-        ...(config.gradleOptions || []),
-      ];
+        // Credentials reach Gradle through the environment and a private
+        // temp directory, removed once the build is over
+        if (config.buildType === 'release' && config.keystore) {
+          signing = await prepareSigning(config.keystore);
+        }
 
-      this.emit('build:progress', { 
-        stage: 'gradle', 
-        message: `Running Gradle task: ${gradleTask}` 
-      });
+        // Run Gradle build
+        const variant = { flavor: config.flavor, buildType: config.buildType, format: config.format ?? 'apk' };
+        const task = gradleTask(variant);
+
+        const gradleArgs = [
+          task,
+          ...(await prepareDependencyReport(buildConfig.projectPath, variant)),
+          ...(await prepareProfile(buildConfig.projectPath)),
+          ...(await prepareAbiSplits(buildConfig.projectPath, variant.format === 'apk' ? config.abis ?? [] : [])),
+          '--stacktrace',
+          ...(signing?.args ?? []),
+          ...(config.gradleOptions || []),
+        ];
+
+        this.emit('build:progress', { 
+          stage: 'gradle', 
+          message: `Running Gradle task: ${task}${executor.name === 'local' ? '' : ` (${executor.name})`}` 
+        });
+
+        await this.runGradleWithRemediation(executor, gradleArgs, buildConfig, signing, result);
+
+        // Copy the generated APKs or bundle to the output path
+        result.artifacts = await this.collectArtifacts(buildConfig);
+
+        // Without the report the SBOM lists no dependencies; the build still counts
+        try {
+          result.dependencies = (await readDependencyReport(buildConfig.projectPath)) ?? undefined;
+          if (!result.dependencies) {
+            result.warnings.push('Gradle did not report the resolved dependencies');
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          result.warnings.push(`Could not read the resolved dependencies: ${message}`);
+        }
 
-      await this.runGradle(config.projectPath, gradleArgs, config);
+        try {
+          result.profile = (await readProfile(buildConfig.projectPath)) ?? undefined;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          result.warnings.push(`Could not read the task timings: ${message}`);
+        }
 
-      // Find the generated APK
-      const apkPath = await this.findApk(config.projectPath, config.buildType);
-      
-      if (apkPath) {
-        // Copy APK to output path
-        await fs.ensureDir(config.outputPath);
-        const outputApkPath = path.join(
-          config.outputPath, 
-          `${config.appId}-${config.buildType}.apk`
-        );
-        await fs.copy(apkPath, outputApkPath);
+        if (cacheKey && result.artifacts.every((artifact) => artifact.status === 'success')) {
+          try {
+            await this.cache!.save(cacheKey, result.artifacts.map((artifact) => ({
+              format: artifact.format,
+              abi: artifact.abi,
+              path: artifact.path!,
+            })), result.dependencies);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            result.warnings.push(`Could not cache build: ${message}`);
+          }
+        }
+      }
 
-        result.success = true;
-        result.apkPath = outputApkPath;
-      } else {
-        result.errors.push('APK file not found after build');
+      const built = result.artifacts.filter((artifact) => artifact.status === 'success');
+
+      result.success = built.length > 0 && built.length === result.artifacts.length;
+      result.apkPath = built[0]?.path;
+      result.errors.push(
+        ...result.artifacts
+          .filter((artifact) => artifact.status === 'failed')
+          .map((artifact) => artifact.errorMessage!)
+      );
+
+      // A report is informational; failing to read the APK doesn't fail the build
+      const apk = built.find((artifact) => artifact.format === 'apk');
+      if (apk) {
+        try {
+          result.apkReport = await inspectApk(apk.path!, config.expected);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          result.warnings.push(`Could not inspect APK: ${message}`);
+        }
       }
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       result.errors.push(errorMessage);
       this.emit('build:error', { errors: [errorMessage] });
+    } finally {
+      if (signing) {
+        await fs.remove(signing.dir);
+      }
+      await workspace?.release();
+    }
+
+    if (this.output) {
+      await this.collectDiagnostics(config, result, workspace?.path);
+    }
+
+    // A known cause says more than the compiler errors it led to
+    if (!result.success && result.failure && !result.errors.includes(result.failure.message)) {
+      result.errors.unshift(result.failure.message);
     }
 
     result.buildTime = Date.now() - startTime;
@@ -250,144 +452,257 @@ export class BuildPipeline extends EventEmitter {
   }
 
   /**
-   * Configure keystore for release builds
+   * Parse the Gradle output into diagnostics. When a failed build reported
+   * compiler errors they replace the raw Gradle failure message. Files of
+   * a build that ran in a workspace are mapped back to the project.
    */
-  private async configureKeystore(config: BuildConfig): Promise<void> {
-    if (!config.keystore) return;
+  private async collectDiagnostics(config: BuildConfig, result: BuildResult, workspacePath?: string): Promise<void> {
+    const diagnostics = parseGradleOutput(this.output).map((diagnostic) => {
+      const relative = workspacePath && diagnostic.file ? path.relative(workspacePath, diagnostic.file) : null;
+      return relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+        ? { ...diagnostic, file: path.join(config.projectPath, relative) }
+        : diagnostic;
+    });
 
-    const keystorePropertiesPath = path.join(config.projectPath, 'keystore.properties');
-    
-    const keystoreProperties = `
-storeFile=${config.keystore.path.replace(/\\/g, '\\\\')}
-storePassword=${config.keystore.password}
-keyAlias=${config.keystore.alias}
-keyPassword=${config.keystore.keyPassword}
-`.trim();
-
-    await fs.writeFile(keystorePropertiesPath, keystoreProperties, 'utf-8');
+    result.diagnostics = mapDiagnosticsToTemplate(
+      diagnostics,
+      await readSourceMap(config.projectPath),
+      config.projectPath
+    );
+
+    const errors = result.diagnostics.filter((d) => d.severity === 'error');
+    const warnings = result.diagnostics.filter((d) => d.severity === 'warning');
+
+    result.warnings.push(...warnings.map(formatDiagnostic));
+    if (!result.success && errors.length > 0) {
+      result.errors = errors.map(formatDiagnostic);
+    }
+  }
+
+  /**
+   * Run Gradle, retrying failures of a known cause with the remediation
+   * their policy calls for. Causes that need the user's attention fail
+   * with a message saying what to do.
+   */
+  private async runGradleWithRemediation(
+    executor: BuildExecutor,
+    args: string[],
+    config: BuildConfig,
+    signing: SigningSetup | null,
+    result: BuildResult
+  ): Promise<void> {
+    const attempts: BuildRemediationAttempt[] = [];
+    let remediationArgs: string[] = [];
+
+    for (;;) {
+      // Diagnostics describe the final attempt, not the ones it replaced
+      this.output = '';
+      try {
+        await this.runGradle(executor, [...args, ...remediationArgs], config, signing);
+        if (attempts.length > 0) {
+          attempts[attempts.length - 1].succeeded = true;
+        }
+        return;
+      } catch (error) {
+        if (this.cancelled) {
+          throw error;
+        }
+        const failure = classifyFailure(this.output);
+        if (!failure) {
+          throw error;
+        }
+        result.failure = failure;
+
+        const step = nextRemediation(failure, attempts);
+        if (!step) {
+          throw new Error(failure.message);
+        }
+        attempts.push({ failureClass: failure.failureClass, remediation: step.remediation, succeeded: false });
+        result.remediations = attempts;
+        remediationArgs = step.args;
+
+        this.emit('build:progress', {
+          stage: 'remediation',
+          message: `Retrying after ${failure.failureClass} with ${step.remediation}`,
+        });
+      }
+    }
   }
 
   /**
-   * Run Gradle wrapper with specified arguments
+   * Run the Gradle wrapper with the chosen executor and capture its output
    */
   private async runGradle(
-    projectPath: string, 
+    executor: BuildExecutor,
     args: string[],
-    config: BuildConfig
+    config: BuildConfig,
+    signing: SigningSetup | null
   ): Promise<void> {
-    const gradlew = process.platform === 'win32' ? 'gradlew.bat' : './gradlew';
-    
-    // Ensure gradlew is executable on Unix systems
-    if (process.platform !== 'win32') {
-      const gradlewPath = path.join(projectPath, 'gradlew');
-      if (await fs.pathExists(gradlewPath)) {
-        await fs.chmod(gradlewPath, 0o755);
+    const variant = { flavor: config.flavor, buildType: config.buildType, format: config.format ?? 'apk' };
+    const toolchain = this.resolveToolchain(config);
+
+    let stderr = '';
+    const execution = executor.execute(
+      {
+        projectPath: config.projectPath,
+        args,
+        env: { ...(executor.usesHostToolchain ? toolchain : {}), ...signing?.env },
+        outputs: [
+          ...outputDirectories(config.projectPath, variant).map((dir) => path.relative(config.projectPath, dir)),
+          DEPENDENCY_REPORT_DIR,
+        ],
+        hostPaths: signing ? [signing.dir] : [],
+      },
+      (stream, text) => {
+        this.output += text;
+        this.emit('build:log', { type: stream, message: text });
+
+        if (stream === 'stderr') {
+          stderr += text;
+        } else if (text.includes('> Task')) {
+          // Parse progress from Gradle output
+          this.emit('build:progress', { 
+            stage: 'task', 
+            message: text.trim() 
+          });
+        }
       }
+    );
+
+    this.currentExecution = execution;
+    try {
+      const code = await execution.done;
+      if (code !== 0) {
+        throw new Error(`Build failed with exit code ${code}:\n${stderr}`);
+      }
+    } finally {
+      this.currentExecution = null;
     }
+  }
 
-    const env: NodeJS.ProcessEnv = {
-      ...process.env,
+  /**
+   * SDK and JDK a build on this machine uses
+   */
+  private resolveToolchain(config: Partial<BuildConfig>): { ANDROID_SDK_ROOT: string; JAVA_HOME: string } {
+    return {
       ANDROID_SDK_ROOT: config.androidSdkRoot || 
+        config.toolchain?.sdkRoot ||
         process.env.ANDROID_SDK_ROOT || 
         process.env.ANDROID_HOME ||
         this.defaultAndroidSdkRoot,
       JAVA_HOME: config.javaHome || 
+        config.toolchain?.jdk.path ||
         process.env.JAVA_HOME ||
         this.defaultJavaHome,
     };
+  }
+
+  /**
+   * Cache key of a build: its project tree and every other input that
+   * changes what Gradle produces. Signing keys count by content, never
+   * by password.
+   */
+  private async cacheKey(executor: BuildExecutor, config: BuildConfig): Promise<string> {
+    let toolchain = executor.toolchain ?? executor.name;
+    if (executor.usesHostToolchain) {
+      const { ANDROID_SDK_ROOT, JAVA_HOME } = this.resolveToolchain(config);
+      toolchain = await hostToolchainVersion(ANDROID_SDK_ROOT, JAVA_HOME);
+    }
 
-    return this.runCommand(gradlew, args, { 
-      cwd: projectPath,
-      env,
+    let signingKey: string | null = null;
+    if (config.buildType === 'release' && config.keystore) {
+      const data = 'data' in config.keystore ? config.keystore.data : await fs.readFile(config.keystore.path);
+      signingKey = `${createHash('sha256').update(data).digest('hex')}:${config.keystore.alias}`;
+    }
+
+    return buildKey(config.projectPath, {
+      buildType: config.buildType,
+      flavor: config.flavor ?? null,
+      format: config.format ?? 'apk',
+      abis: [...(config.abis ?? [])].sort(),
+      gradleOptions: config.gradleOptions ?? [],
+      executor: executor.name,
+      toolchain,
+      signingKey,
     });
   }
 
   /**
-   * Run a command and capture output
+   * Copy cached artifacts to the output path under this build's names
    */
-  private runCommand(
-    cmd: string, 
-    args: string[], 
-    options?: { cwd?: string; env?: NodeJS.ProcessEnv }
-  ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.currentProcess = spawn(cmd, args, {
-        cwd: options?.cwd,
-        env: options?.env,
-        shell: true,
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
-
-      let stdout = '';
-      let stderr = '';
-
-      this.currentProcess.stdout?.on('data', (data: Buffer) => {
-        const line = data.toString();
-        stdout += line;
-        this.emit('build:log', { type: 'stdout', message: line });
-        
-        // Parse progress from Gradle output
-        if (line.includes('> Task')) {
-          this.emit('build:progress', { 
-            stage: 'task', 
-            message: line.trim() 
-          });
-        }
-      });
-
-      this.currentProcess.stderr?.on('data', (data: Buffer) => {
-        const line = data.toString();
-        stderr += line;
-        this.emit('build:log', { type: 'stderr', message: line });
-      });
-
-      this.currentProcess.on('close', (code: number | null) => {
-        this.currentProcess = null;
-        
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`Build failed with exit code ${code}:\n${stderr}`));
-        }
-      });
+  private async restoreArtifacts(config: BuildConfig, files: ArtifactFile[]): Promise<BuildArtifactResult[]> {
+    const variant = { flavor: config.flavor, buildType: config.buildType, format: config.format ?? 'apk' };
+    await fs.ensureDir(config.outputPath);
+
+    return Promise.all(files.map(async (file) => {
+      const target = path.join(config.outputPath, artifactFileName(config.appId, variant, file.abi));
+      await fs.copy(file.path, target);
+      const { size } = await fs.stat(target);
+      return { format: file.format, abi: file.abi, path: target, size, status: 'success' as const };
+    }));
+  }
 
-      this.currentProcess.on('error', (error: Error) => {
-        this.currentProcess = null;
-        reject(error);
-      });
-    });
+  /**
+   * Copy the files Gradle produced for a variant to the output path.
+   * With ABI splits each expected ABI becomes its own artifact, failed
+   * when its APK is missing; otherwise the universal output is used.
+   */
+  private async collectArtifacts(config: BuildConfig): Promise<BuildArtifactResult[]> {
+    const format = config.format ?? 'apk';
+    const variant = { flavor: config.flavor, buildType: config.buildType, format };
+    const files = await this.findOutputs(config.projectPath, variant);
+    const label = format === 'aab' ? 'App Bundle' : 'APK';
+
+    const copy = async (file: string, abi?: AndroidAbi): Promise<BuildArtifactResult> => {
+      await fs.ensureDir(config.outputPath);
+      const target = path.join(config.outputPath, artifactFileName(config.appId, variant, abi));
+      await fs.copy(file, target);
+      const { size } = await fs.stat(target);
+      return { format, abi, path: target, size, status: 'success' };
+    };
+
+    if (config.abis?.length) {
+      return Promise.all(config.abis.map((abi) => {
+        const file = files.find((candidate) => abiOf(path.basename(candidate)) === abi);
+        return file
+          ? copy(file, abi)
+          : { format, abi, status: 'failed' as const, errorMessage: `${label} for ${abi} not found after build` };
+      }));
+    }
+
+    const file = files.find((candidate) => !abiOf(path.basename(candidate))) ?? files[0];
+    return file
+      ? [await copy(file)]
+      : [{ format, status: 'failed', errorMessage: `${label} file not found after build` }];
   }
 
   /**
-   * Find the generated APK file
+   * Find the files Gradle wrote for a variant
    */
-  private async findApk(projectPath: string, buildType: string): Promise<string | null> {
-    const apkDirs = [
-      path.join(projectPath, 'app', 'build', 'outputs', 'apk', buildType),
-      path.join(projectPath, 'build', 'outputs', 'apk', buildType),
-    ];
-
-    for (const apkDir of apkDirs) {
-      if (await fs.pathExists(apkDir)) {
-        const files = await fs.readdir(apkDir);
-        const apkFile = files.find(f => f.endsWith('.apk') && !f.includes('unsigned'));
-        
-        if (apkFile) {
-          return path.join(apkDir, apkFile);
+  private async findOutputs(projectPath: string, variant: Omit<BuildVariant, 'abis'>): Promise<string[]> {
+    for (const outputDir of outputDirectories(projectPath, variant)) {
+      if (await fs.pathExists(outputDir)) {
+        const files = (await fs.readdir(outputDir)).filter((file) =>
+          file.endsWith(`.${variant.format}`) && !file.includes('unsigned')
+        );
+
+        if (files.length > 0) {
+          return files.map((file) => path.join(outputDir, file));
         }
       }
     }
 
-    return null;
+    return [];
   }
 
   /**
    * Cancel the current build process
    */
   cancelBuild(): boolean {
-    if (this.currentProcess) {
-      this.currentProcess.kill('SIGTERM');
-      this.currentProcess = null;
+    this.cancelled = true;
+    if (this.currentExecution) {
+      this.currentExecution.cancel();
+      this.currentExecution = null;
       this.emit('build:cancelled');
       return true;
     }
@@ -461,4 +776,37 @@ keyPassword=${config.keystore.keyPassword}
   }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Put the keystore and signing init script in a directory only this
+ * user can read
+ */
+async function prepareSigning(keystore: NonNullable<BuildConfig['keystore']>): Promise<SigningSetup> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'appforge-signing-'));
+  await fs.chmod(dir, 0o700);
+
+  const storeFile = path.join(dir, 'release.keystore');
+  if ('data' in keystore) {
+    await fs.writeFile(storeFile, keystore.data, { mode: 0o600 });
+  } else {
+    await fs.copy(keystore.path, storeFile);
+  }
+  const initScript = path.join(dir, 'signing.gradle');
+  await fs.writeFile(initScript, SIGNING_INIT_SCRIPT, 'utf-8');
+
+  return {
+    dir,
+    args: ['--init-script', initScript],
+    env: {
+      APPFORGE_SIGNING_STORE_FILE: storeFile,
+      APPFORGE_SIGNING_STORE_PASSWORD: keystore.password,
+      APPFORGE_SIGNING_KEY_ALIAS: keystore.alias,
+      APPFORGE_SIGNING_KEY_PASSWORD: keystore.keyPassword,
+    },
+  };
+}
+
 export default BuildPipeline;
@@ -0,0 +1,197 @@
+/**
+ * BuildProfile.ts - Gradle Task Timings
+ *
+ * Records when each Gradle task of a build ran through an init script,
+ * and compares a build's timings with earlier builds of the same
+ * template to point out tasks that got slower.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { DEPENDENCY_REPORT_DIR } from './Provenance';
+import type { BuildProfile, BuildTaskOutcome, BuildTaskRegression, BuildTaskTiming } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * How long a task takes across builds, when it does its work
+ */
+export interface BuildTaskSummary {
+  path: string;
+  /** Builds that executed the task */
+  builds: number;
+  averageDuration: number;
+}
+
+/**
+ * Init script next to the dependency report's; the profile lands in the
+ * same output directory
+ */
+export const PROFILE_INIT_SCRIPT_FILE = path.join('.appforge', 'profile.gradle');
+const PROFILE_FILE = path.join(DEPENDENCY_REPORT_DIR, 'profile.json');
+
+/**
+ * Earlier builds needed before a task can be called slower than usual
+ */
+const MIN_BASELINE_BUILDS = 3;
+
+/**
+ * A task regressed when it took this many times its median, and at
+ * least REGRESSION_MIN_DELTA milliseconds longer
+ */
+const REGRESSION_FACTOR = 1.5;
+const REGRESSION_MIN_DELTA = 1000;
+
+const OUTCOMES: BuildTaskOutcome[] = ['executed', 'up-to-date', 'from-cache', 'no-source', 'skipped', 'failed'];
+
+/**
+ * Gradle init script recording the start, duration and outcome of every
+ * task. Times are relative to when Gradle evaluated the script, right
+ * after the build started; the profile is written when the build
+ * finishes, failed or not.
+ */
+const PROFILE_INIT_SCRIPT = `
+def appforgeBuildStart = System.currentTimeMillis()
+def appforgeTaskStarts = new java.util.concurrent.ConcurrentHashMap()
+def appforgeTasks = java.util.Collections.synchronizedList([])
+
+gradle.taskGraph.beforeTask { task ->
+    appforgeTaskStarts[task.path] = System.currentTimeMillis()
+}
+
+gradle.taskGraph.afterTask { task, state ->
+    def start = appforgeTaskStarts.remove(task.path) ?: System.currentTimeMillis()
+    def outcome = state.failure != null ? 'failed'
+        : state.skipMessage == 'UP-TO-DATE' ? 'up-to-date'
+        : state.skipMessage == 'FROM-CACHE' ? 'from-cache'
+        : state.skipMessage == 'NO-SOURCE' ? 'no-source'
+        : state.skipped ? 'skipped'
+        : 'executed'
+    appforgeTasks << [
+        path: task.path,
+        start: start - appforgeBuildStart,
+        duration: System.currentTimeMillis() - start,
+        outcome: outcome,
+    ]
+}
+
+gradle.buildFinished {
+    def file = new File(gradle.rootProject.layout.buildDirectory.get().asFile, 'appforge/profile.json')
+    file.parentFile.mkdirs()
+    synchronized (appforgeTasks) {
+        file.text = groovy.json.JsonOutput.toJson([
+            duration: System.currentTimeMillis() - appforgeBuildStart,
+            tasks: appforgeTasks,
+        ])
+    }
+}
+`.trimStart();
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Write the init script into a project and drop the profile of an
+ * earlier build. Returns the Gradle arguments that apply the script.
+ */
+export async function prepareProfile(projectPath: string): Promise<string[]> {
+  await fs.outputFile(path.join(projectPath, PROFILE_INIT_SCRIPT_FILE), PROFILE_INIT_SCRIPT, 'utf-8');
+  await fs.remove(path.join(projectPath, PROFILE_FILE));
+
+  return ['--init-script', PROFILE_INIT_SCRIPT_FILE.split(path.sep).join('/')];
+}
+
+/**
+ * Read the profile the init script wrote, or null when there is none
+ */
+export async function readProfile(projectPath: string): Promise<BuildProfile | null> {
+  const file = path.join(projectPath, PROFILE_FILE);
+  if (!(await fs.pathExists(file))) {
+    return null;
+  }
+
+  const raw = JSON.parse(await fs.readFile(file, 'utf-8')) as { duration?: unknown; tasks?: unknown };
+  if (typeof raw.duration !== 'number' || !Array.isArray(raw.tasks) || !raw.tasks.every(isTaskTiming)) {
+    throw new Error(`Malformed build profile: ${file}`);
+  }
+
+  const tasks = [...(raw.tasks as BuildTaskTiming[])].sort((a, b) => a.start - b.start || a.path.localeCompare(b.path));
+  return {
+    duration: raw.duration,
+    configuration: tasks[0]?.start ?? raw.duration,
+    tasks,
+  };
+}
+
+/**
+ * Executed tasks of a build that took markedly longer than their median
+ * in earlier builds, slowest first. Tasks that were up to date or came
+ * from the cache did no work and are not compared.
+ */
+export function findRegressions(profile: BuildProfile, earlier: BuildProfile[]): BuildTaskRegression[] {
+  const history = executedDurations(earlier);
+  const regressions: BuildTaskRegression[] = [];
+
+  for (const task of profile.tasks) {
+    const durations = history.get(task.path);
+    if (task.outcome !== 'executed' || !durations || durations.length < MIN_BASELINE_BUILDS) {
+      continue;
+    }
+    const baseline = median(durations);
+    if (task.duration >= baseline * REGRESSION_FACTOR && task.duration - baseline >= REGRESSION_MIN_DELTA) {
+      regressions.push({ path: task.path, duration: task.duration, baseline });
+    }
+  }
+
+  return regressions.sort((a, b) => (b.duration - b.baseline) - (a.duration - a.baseline));
+}
+
+/**
+ * Average duration of each task over the builds that executed it,
+ * slowest first
+ */
+export function summarizeProfiles(profiles: BuildProfile[], limit: number = 10): BuildTaskSummary[] {
+  return [...executedDurations(profiles)]
+    .map(([taskPath, durations]) => ({
+      path: taskPath,
+      builds: durations.length,
+      averageDuration: Math.round(durations.reduce((sum, duration) => sum + duration, 0) / durations.length),
+    }))
+    .sort((a, b) => b.averageDuration - a.averageDuration)
+    .slice(0, limit);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function executedDurations(profiles: BuildProfile[]): Map<string, number[]> {
+  const durations = new Map<string, number[]>();
+  for (const profile of profiles) {
+    for (const task of profile.tasks) {
+      if (task.outcome === 'executed') {
+        durations.set(task.path, [...(durations.get(task.path) ?? []), task.duration]);
+      }
+    }
+  }
+  return durations;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+function isTaskTiming(value: unknown): boolean {
+  const task = value as Partial<BuildTaskTiming> | null;
+  return typeof task?.path === 'string' &&
+    typeof task.start === 'number' &&
+    typeof task.duration === 'number' &&
+    OUTCOMES.includes(task.outcome as BuildTaskOutcome);
+}
+
+export default readProfile;
@@ -0,0 +1,567 @@
+/**
+ * BuildScheduler.ts - Persistent Build Queue
+ *
+ * Queues builds in SQLite and runs them through BuildPipeline with a
+ * concurrency limit. Supports priority, reordering, pause and resume,
+ * and re-queues builds that were interrupted by an app restart.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { BuildPipeline, BuildConfig, BuildResult } from './BuildPipeline';
+import { expandMatrix } from './BuildMatrix';
+import { findRegressions } from './BuildProfile';
+import type { BuildJobStore, StoredBuildJob } from './BuildJobStore';
+import type { BuildExecutor } from './BuildExecutor';
+import type { BuildCache } from './BuildCache';
+import type { BuildAttestations, CycloneDxBom, DsseEnvelope, ProvenanceSigner } from './Provenance';
+import type {
+  ApkReport,
+  BuildArtifact,
+  BuildDiagnostic,
+  BuildJob,
+  BuildMatrix,
+  BuildPerformance,
+  BuildQueueState,
+} from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Scheduler configuration
+ */
+export interface BuildSchedulerOptions {
+  /** Limit used until one is set with setConcurrency */
+  concurrency?: number;
+  /** Creates the pipeline for each build; every running job needs its own */
+  createPipeline?: () => BuildPipeline;
+  /** Executors jobs can choose by name, passed to the default pipeline */
+  executors?: Record<string, BuildExecutor>;
+  /** Build cache shared by the default pipelines */
+  cache?: BuildCache;
+  /** Signs the provenance recorded for successful builds */
+  provenance?: ProvenanceSigner;
+}
+
+/**
+ * Options for queueing a build
+ */
+export interface EnqueueOptions {
+  priority?: number;
+  matrixId?: string;
+}
+
+/**
+ * In-memory state of a job that is currently building
+ */
+interface RunningJob {
+  pipeline: BuildPipeline;
+  logs: string[];
+  currentTask?: string;
+  stopReason: 'cancelled' | 'interrupted' | null;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+
+/**
+ * Log chunks kept per build; older output is dropped
+ */
+const MAX_LOG_ENTRIES = 5000;
+
+/**
+ * Earlier builds of a template its task timings are compared against
+ */
+const PERFORMANCE_BASELINE_BUILDS = 10;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BuildScheduler Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Runs queued builds with a concurrency limit
+ *
+ * @fires BuildScheduler#job:queued - When a build is added to the queue
+ * @fires BuildScheduler#job:started - When a build starts running
+ * @fires BuildScheduler#job:progress - When a running build reaches a new Gradle task
+ * @fires BuildScheduler#job:log - Log output from a running build
+ * @fires BuildScheduler#job:complete - When a build succeeds, fails or is cancelled
+ * @fires BuildScheduler#queue:changed - When the queue is paused, resumed, reordered or resized
+ */
+export class BuildScheduler extends EventEmitter {
+  private concurrency: number;
+  private paused = false;
+  private stopped = false;
+  private readonly createPipeline: () => BuildPipeline;
+  private readonly provenance: ProvenanceSigner | null;
+  private readonly running = new Map<string, RunningJob>();
+  private readonly signingKeys = new Map<string, NonNullable<BuildConfig['keystore']>>();
+
+  constructor(private store: BuildJobStore, options: BuildSchedulerOptions = {}) {
+    super();
+    this.concurrency = Math.max(1, store.getConcurrency() ?? options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.createPipeline = options.createPipeline ?? (() => new BuildPipeline(options.executors, options.cache));
+    this.provenance = options.provenance ?? null;
+  }
+
+  /**
+   * Recover jobs left over from the previous session and start the queue.
+   * Builds that were running are queued again; signed builds fail because
+   * their credentials were only held in memory. Returns the number of
+   * jobs re-queued.
+   */
+  initialize(): number {
+    let requeued = 0;
+
+    for (const job of this.store.list(['queued', 'running'])) {
+      if (job.signed) {
+        this.store.update(job.id, {
+          status: 'failed',
+          errorMessage: 'Signing credentials are not kept across restarts; queue the build again',
+          completedAt: new Date(),
+        });
+      } else if (job.status === 'running') {
+        this.store.update(job.id, { status: 'queued', startedAt: undefined });
+        requeued++;
+      }
+    }
+
+    this.pump();
+    return requeued;
+  }
+
+  /**
+   * Add a build to the queue
+   */
+  enqueue(config: BuildConfig, options: EnqueueOptions = {}): BuildJob {
+    const { keystore, ...persisted } = config;
+    const job: StoredBuildJob = {
+      id: randomUUID(),
+      appId: config.appId,
+      buildType: config.buildType,
+      flavor: config.flavor,
+      format: config.format ?? 'apk',
+      matrixId: options.matrixId,
+      config: persisted,
+      signed: keystore !== undefined,
+      status: 'queued',
+      priority: options.priority ?? 0,
+      position: this.store.nextPosition(),
+      attempts: 0,
+      progress: 0,
+      createdAt: new Date(),
+    };
+
+    if (keystore) {
+      this.signingKeys.set(job.id, keystore);
+    }
+    this.store.insert(job);
+    this.emit('job:queued', this.toJob(job));
+
+    this.pump();
+    return this.getJob(job.id)!;
+  }
+
+  /**
+   * Queue one build per variant of a matrix. Each variant is its own job,
+   * so a failing variant does not affect the others.
+   */
+  enqueueMatrix(config: BuildConfig, matrix: BuildMatrix, options: EnqueueOptions = {}): BuildJob[] {
+    const variants = expandMatrix(matrix);
+    const matrixId = randomUUID();
+
+    // Only release builds are signed, so debug variants don't hold the keystore
+    return variants.map((variant) =>
+      this.enqueue(
+        { ...config, ...variant, keystore: variant.buildType === 'release' ? config.keystore : undefined },
+        { ...options, matrixId }
+      )
+    );
+  }
+
+  /**
+   * Cancel a queued or running build. Returns false if the job does not
+   * exist or has already finished.
+   */
+  cancel(jobId: string): boolean {
+    const job = this.store.get(jobId);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+      return false;
+    }
+
+    this.store.update(jobId, { status: 'cancelled', completedAt: new Date() });
+    this.signingKeys.delete(jobId);
+
+    const running = this.running.get(jobId);
+    if (running) {
+      running.stopReason = 'cancelled';
+      running.pipeline.cancelBuild();
+    } else {
+      this.emit('job:complete', this.getJob(jobId));
+    }
+    return true;
+  }
+
+  /**
+   * Move queued jobs into the given order. Jobs not listed keep their
+   * relative order after the listed ones. Priority still takes precedence,
+   * so this orders jobs among those of equal priority.
+   */
+  reorder(jobIds: string[]): void {
+    const queued = this.store.list(['queued']);
+    const queuedIds = new Set(queued.map((job) => job.id));
+
+    for (const id of jobIds) {
+      if (!queuedIds.has(id)) {
+        throw new Error(`Build ${id} is not queued`);
+      }
+    }
+
+    const listed = new Set(jobIds);
+    const rest = queued
+      .sort((a, b) => a.position - b.position)
+      .map((job) => job.id)
+      .filter((id) => !listed.has(id));
+    const ordered = [...jobIds, ...rest];
+    const first = Math.min(...queued.map((job) => job.position));
+    ordered.forEach((id, index) => this.store.update(id, { position: first + index }));
+
+    this.emit('queue:changed', this.getState());
+  }
+
+  /**
+   * Change the priority of a queued job
+   */
+  setPriority(jobId: string, priority: number): BuildJob {
+    const job = this.store.get(jobId);
+    if (!job || job.status !== 'queued') {
+      throw new Error(`Build ${jobId} is not queued`);
+    }
+
+    this.store.update(jobId, { priority });
+    this.emit('queue:changed', this.getState());
+    return this.getJob(jobId)!;
+  }
+
+  /**
+   * Stop starting new builds; running builds continue
+   */
+  pause(): void {
+    this.paused = true;
+    this.emit('queue:changed', this.getState());
+  }
+
+  /**
+   * Start queued builds again
+   */
+  resume(): void {
+    this.paused = false;
+    this.emit('queue:changed', this.getState());
+    this.pump();
+  }
+
+  /**
+   * Change how many builds may run at once; the limit is kept across
+   * restarts. Lowering the limit does not stop builds that are already
+   * running.
+   */
+  setConcurrency(concurrency: number): void {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+    }
+
+    this.store.saveConcurrency(concurrency);
+    this.concurrency = concurrency;
+    this.emit('queue:changed', this.getState());
+    this.pump();
+  }
+
+  /**
+   * Get a job with live progress for running builds
+   */
+  getJob(jobId: string): BuildJob | undefined {
+    const job = this.store.get(jobId);
+    return job ? this.toJob(job) : undefined;
+  }
+
+  /**
+   * Get the log output of a build, live while it is running
+   */
+  getLogs(jobId: string): string[] | undefined {
+    const running = this.running.get(jobId);
+    if (running) {
+      return [...running.logs];
+    }
+
+    const job = this.store.get(jobId);
+    return job ? job.logs ?? [] : undefined;
+  }
+
+  /**
+   * Get the diagnostics parsed from a finished build's output
+   */
+  getDiagnostics(jobId: string): BuildDiagnostic[] | undefined {
+    const job = this.store.get(jobId);
+    return job ? job.diagnostics ?? [] : undefined;
+  }
+
+  /**
+   * Get the APK report of a build; null until it has built successfully
+   */
+  getApkReport(jobId: string): ApkReport | null | undefined {
+    const job = this.store.get(jobId);
+    return job ? job.apkReport ?? null : undefined;
+  }
+
+  /**
+   * Get the signed provenance or the SBOM of a build; null until it has
+   * built successfully
+   */
+  getAttestation(jobId: string, kind: keyof BuildAttestations): DsseEnvelope | CycloneDxBom | null | undefined {
+    const job = this.store.get(jobId);
+    return job ? job[kind] ?? null : undefined;
+  }
+
+  /**
+   * Get the task timings of a build with the tasks that got slower than
+   * in the earlier successful builds of its template
+   */
+  getPerformance(jobId: string): BuildPerformance | undefined {
+    const job = this.store.get(jobId);
+    if (!job) {
+      return undefined;
+    }
+    if (!job.profile) {
+      return { profile: null, regressions: [], baselineBuilds: 0 };
+    }
+
+    const template = templateOf(job);
+    const earlier = this.store
+      .list(['success'])
+      .filter((other) => other.id !== job.id && other.profile && templateOf(other) === template &&
+        other.createdAt < job.createdAt)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(-PERFORMANCE_BASELINE_BUILDS)
+      .map((other) => other.profile!);
+
+    return {
+      profile: job.profile,
+      regressions: template ? findRegressions(job.profile, earlier) : [],
+      baselineBuilds: template ? earlier.length : 0,
+    };
+  }
+
+  /**
+   * Get the artifacts a build produced, including failed ABI splits
+   */
+  getArtifacts(jobId: string): BuildArtifact[] | undefined {
+    return this.store.get(jobId) ? this.store.listArtifacts(jobId) : undefined;
+  }
+
+  /**
+   * Get running and queued jobs in the order they will be processed
+   */
+  getState(): BuildQueueState {
+    return {
+      paused: this.paused,
+      concurrency: this.concurrency,
+      jobs: [...this.store.list(['running']), ...this.store.list(['queued'])].map((job) => this.toJob(job)),
+    };
+  }
+
+  /**
+   * Stop running builds and leave them queued for the next session
+   */
+  shutdown(): void {
+    this.stopped = true;
+
+    for (const [jobId, running] of this.running) {
+      running.stopReason = 'interrupted';
+      this.store.update(jobId, { status: 'queued', startedAt: undefined });
+      running.pipeline.cancelBuild();
+    }
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Private Methods
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Start queued builds while there is capacity
+   */
+  private pump(): void {
+    if (this.paused || this.stopped) {
+      return;
+    }
+
+    for (const job of this.store.list(['queued'])) {
+      if (this.running.size >= this.concurrency) {
+        break;
+      }
+      // Listeners of earlier starts may have started or cancelled this job
+      if (!this.running.has(job.id) && this.store.get(job.id)?.status === 'queued') {
+        void this.run(job);
+      }
+    }
+  }
+
+  /**
+   * Run a single build and record its outcome
+   */
+  private async run(job: StoredBuildJob): Promise<void> {
+    const pipeline = this.createPipeline();
+    const running: RunningJob = { pipeline, logs: [], stopReason: null };
+    this.running.set(job.id, running);
+
+    const startedAt = new Date();
+    this.store.update(job.id, {
+      status: 'running',
+      attempts: job.attempts + 1,
+      startedAt,
+      errorMessage: undefined,
+    });
+    this.emit('job:started', this.getJob(job.id));
+
+    // cancelBuild only stops a running Gradle process, so a build
+    // cancelled while preparing is stopped once Gradle starts
+    const stopIfRequested = (): void => {
+      if (running.stopReason) {
+        pipeline.cancelBuild();
+      }
+    };
+
+    pipeline.on('build:log', ({ message }: { message: string }) => {
+      stopIfRequested();
+      running.logs.push(message);
+      if (running.logs.length > MAX_LOG_ENTRIES) {
+        running.logs.shift();
+      }
+      this.emit('job:log', { jobId: job.id, message });
+    });
+    pipeline.on('build:progress', ({ message }: { message: string }) => {
+      stopIfRequested();
+      running.currentTask = message;
+      this.emit('job:progress', this.getJob(job.id));
+    });
+
+    let result: BuildResult;
+    try {
+      const keystore = this.signingKeys.get(job.id);
+      result = await pipeline.build({ ...job.config, ...(keystore ? { keystore } : {}) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result = { success: false, buildTime: 0, errors: [message], warnings: [], logs: [], diagnostics: [], artifacts: [] };
+    }
+
+    // Attested while the job still counts as running, so a cancel in the meantime wins
+    let attestations: BuildAttestations | null = null;
+    if (result.success && this.provenance && !running.stopReason) {
+      attestations = await this.attest(job, result, startedAt, running);
+    }
+
+    this.running.delete(job.id);
+    pipeline.removeAllListeners();
+
+    if (running.stopReason !== 'interrupted') {
+      this.signingKeys.delete(job.id);
+
+      if (running.stopReason === 'cancelled') {
+        this.store.update(job.id, { logs: running.logs });
+      } else {
+        const completedAt = new Date();
+        this.store.addArtifacts(result.artifacts.map((artifact) => ({
+          ...artifact,
+          id: randomUUID(),
+          jobId: job.id,
+          createdAt: completedAt,
+        })));
+        this.store.update(job.id, {
+          status: result.success ? 'success' : 'failed',
+          apkPath: result.apkPath,
+          errorMessage: result.success ? undefined : result.errors.join('\n'),
+          logs: running.logs,
+          diagnostics: result.diagnostics,
+          apkReport: result.apkReport,
+          failureClass: result.success ? undefined : result.failure?.failureClass,
+          remediations: result.remediations,
+          profile: result.profile,
+          provenance: attestations?.provenance,
+          sbom: attestations?.sbom,
+          completedAt,
+        });
+      }
+      this.emit('job:complete', this.getJob(job.id));
+    }
+
+    this.pump();
+  }
+
+  /**
+   * Provenance and SBOM of a successful build. Failing to produce them is
+   * noted in the log; the build still succeeds.
+   */
+  private async attest(
+    job: StoredBuildJob,
+    result: BuildResult,
+    startedAt: Date,
+    running: RunningJob
+  ): Promise<BuildAttestations | null> {
+    try {
+      return await this.provenance!.attest({
+        jobId: job.id,
+        appId: job.appId,
+        buildType: job.buildType,
+        flavor: job.flavor,
+        format: job.format,
+        abis: job.config.abis,
+        executor: job.config.executor ?? 'local',
+        source: job.config.source,
+        artifacts: result.artifacts
+          .filter((artifact) => artifact.status === 'success')
+          .map((artifact) => ({ format: artifact.format, abi: artifact.abi, path: artifact.path! })),
+        dependencies: result.dependencies,
+        cacheHit: result.cacheHit,
+        startedAt,
+        finishedAt: new Date(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      running.logs.push(`Could not record build provenance: ${message}\n`);
+      return null;
+    }
+  }
+
+  /**
+   * Public view of a job, with live task information while it runs
+   */
+  private toJob(job: StoredBuildJob): BuildJob {
+    const {
+      config: _config,
+      signed: _signed,
+      logs: _logs,
+      diagnostics: _diagnostics,
+      apkReport: _apkReport,
+      provenance: _provenance,
+      sbom: _sbom,
+      profile: _profile,
+      ...rest
+    } = job;
+    const running = this.running.get(job.id);
+    return running ? { ...rest, currentTask: running.currentTask } : rest;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Template a job was built from; builds of other apps from the same
+ * template run the same tasks
+ */
+function templateOf(job: StoredBuildJob): string | undefined {
+  return job.config.source?.templateId ?? job.config.cacheGroup;
+}
+
+export default BuildScheduler;
@@ -0,0 +1,296 @@
+/**
+ * BuildWorker.ts - In-Process Build Worker
+ *
+ * Server side of the build worker protocol described in RemoteExecutor.
+ * Each submitted project is extracted to its own directory and built
+ * with another executor, the local one by default. Runs inside the app
+ * as a stand-in for a remote build machine.
+ */
+
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { randomUUID } from 'crypto';
+import type { AddressInfo } from 'net';
+import { BuildExecutor, Execution, LocalExecutor } from './BuildExecutor';
+import { extractArchive, packOutputs, RemoteJobSubmission, RemoteLogEvent } from './RemoteExecutor';
+import { isSafeEntryPath } from './TemplatePackage';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface BuildWorkerOptions {
+  /** Runs the extracted projects; defaults to the local executor */
+  executor?: BuildExecutor;
+  /** Bearer token clients must send */
+  token?: string;
+  /** Parent directory of job directories; defaults to the OS temp dir */
+  workDir?: string;
+}
+
+interface WorkerJob {
+  id: string;
+  dir: string;
+  outputs: string[];
+  events: RemoteLogEvent[];
+  finished: boolean;
+  execution: Execution | null;
+  /** Settles once the job finished, whatever the outcome */
+  settled: Promise<void>;
+  /** Open log streams */
+  listeners: Set<http.ServerResponse>;
+}
+
+/**
+ * Largest accepted submission, project archive included
+ */
+const MAX_SUBMISSION_SIZE = 512 * 1024 * 1024;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BuildWorker Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class BuildWorker {
+  private server: http.Server | null = null;
+  private readonly executor: BuildExecutor;
+  private readonly jobs = new Map<string, WorkerJob>();
+
+  constructor(private readonly options: BuildWorkerOptions = {}) {
+    this.executor = options.executor ?? new LocalExecutor();
+  }
+
+  /**
+   * Start listening; resolves with the worker's base URL. Port 0 picks
+   * a free port.
+   */
+  async start(port = 0, host = '127.0.0.1'): Promise<string> {
+    if (this.server) {
+      throw new Error('Build worker is already running');
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((err: Error) => {
+        if (!res.headersSent) {
+          this.send(res, 500, err.message);
+        } else {
+          res.destroy();
+        }
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+
+    this.server = server;
+    const address = server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  /**
+   * Cancel every job, remove their files and stop listening
+   */
+  async stop(): Promise<void> {
+    await Promise.all([...this.jobs.keys()].map((id) => this.discard(id)));
+
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Routes
+  // ───────────────────────────────────────────────────────────────────────────
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (this.options.token && req.headers.authorization !== `Bearer ${this.options.token}`) {
+      return this.send(res, 401, 'Invalid or missing token');
+    }
+
+    const segments = new URL(req.url ?? '/', 'http://worker').pathname.split('/').filter(Boolean);
+    if (segments[0] !== 'jobs' || segments.length > 3) {
+      return this.send(res, 404, 'Not found');
+    }
+
+    if (segments.length === 1) {
+      return req.method === 'POST' ? this.submit(req, res) : this.send(res, 405, 'Method not allowed');
+    }
+
+    const job = this.jobs.get(segments[1]);
+    if (!job) {
+      return this.send(res, 404, `No job with id ${segments[1]}`);
+    }
+
+    const route = `${req.method} ${segments[2] ?? ''}`;
+    switch (route) {
+      case 'GET log':
+        return this.streamLog(job, res);
+      case 'GET artifacts':
+        return this.sendArtifacts(job, res);
+      case 'DELETE ':
+        await this.discard(job.id);
+        res.writeHead(204).end();
+        return;
+      default:
+        return this.send(res, 405, 'Method not allowed');
+    }
+  }
+
+  /**
+   * POST /jobs - extract the project and start building it
+   */
+  private async submit(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let submission: RemoteJobSubmission;
+    try {
+      submission = JSON.parse((await readBody(req)).toString('utf-8'));
+    } catch (err) {
+      return this.send(res, 400, `Invalid submission: ${(err as Error).message}`);
+    }
+    if (
+      !Array.isArray(submission.args) ||
+      !Array.isArray(submission.outputs) ||
+      !submission.outputs.every((output) => typeof output === 'string' && isSafeEntryPath(output)) ||
+      typeof submission.project !== 'string'
+    ) {
+      return this.send(res, 400, 'Invalid submission');
+    }
+
+    const workDir = this.options.workDir ?? os.tmpdir();
+    await fs.ensureDir(workDir);
+    const dir = await fs.mkdtemp(path.join(workDir, 'appforge-worker-'));
+    try {
+      await extractArchive(Buffer.from(submission.project, 'base64'), dir);
+    } catch (err) {
+      await fs.remove(dir);
+      return this.send(res, 400, `Invalid project archive: ${(err as Error).message}`);
+    }
+
+    const job: WorkerJob = {
+      id: randomUUID(),
+      dir,
+      outputs: submission.outputs,
+      events: [],
+      finished: false,
+      execution: null,
+      settled: Promise.resolve(),
+      listeners: new Set(),
+    };
+    job.execution = this.executor.execute(
+      { projectPath: dir, args: submission.args, env: {}, outputs: submission.outputs, hostPaths: [] },
+      (stream, text) => this.publish(job, { stream, text })
+    );
+    job.settled = job.execution.done.then(
+      (exitCode) => this.finish(job, exitCode),
+      (err: Error) => {
+        this.publish(job, { stream: 'stderr', text: `${err.message}\n` });
+        this.finish(job, null);
+      }
+    );
+    this.jobs.set(job.id, job);
+
+    res.writeHead(201, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ id: job.id }));
+  }
+
+  /**
+   * GET /jobs/:id/log - replay the output so far, then follow the build
+   */
+  private streamLog(job: WorkerJob, res: http.ServerResponse): void {
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    for (const event of job.events) {
+      res.write(`${JSON.stringify(event)}\n`);
+    }
+
+    if (job.finished) {
+      res.end();
+      return;
+    }
+    job.listeners.add(res);
+    res.on('close', () => job.listeners.delete(res));
+  }
+
+  /**
+   * GET /jobs/:id/artifacts - ZIP of the output directories
+   */
+  private async sendArtifacts(job: WorkerJob, res: http.ServerResponse): Promise<void> {
+    if (!job.finished) {
+      return this.send(res, 409, 'Build has not finished');
+    }
+
+    const archive = await packOutputs(job.dir, job.outputs);
+    res.writeHead(200, { 'Content-Type': 'application/zip', 'Content-Length': archive.length });
+    res.end(archive);
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Jobs
+  // ───────────────────────────────────────────────────────────────────────────
+
+  private publish(job: WorkerJob, event: RemoteLogEvent): void {
+    job.events.push(event);
+    for (const listener of job.listeners) {
+      listener.write(`${JSON.stringify(event)}\n`);
+    }
+  }
+
+  private finish(job: WorkerJob, exitCode: number | null): void {
+    this.publish(job, { exitCode });
+    job.finished = true;
+    for (const listener of job.listeners) {
+      listener.end();
+    }
+    job.listeners.clear();
+  }
+
+  /**
+   * Cancel a job if it is still running and delete its directory
+   */
+  private async discard(id: string): Promise<void> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return;
+    }
+
+    this.jobs.delete(id);
+    if (!job.finished) {
+      job.execution?.cancel();
+    }
+    await job.settled;
+    await fs.remove(job.dir);
+  }
+
+  private send(res: http.ServerResponse, status: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(message);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_SUBMISSION_SIZE) {
+        reject(new Error(`Submission exceeds ${MAX_SUBMISSION_SIZE} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+export default BuildWorker;
@@ -0,0 +1,202 @@
+/**
+ * GradleDiagnostics.ts - Build Output Parser
+ *
+ * Extracts structured diagnostics from Gradle console output: kotlinc,
+ * javac, AAPT2, D8/R8 and manifest-merger messages, plus Gradle's own
+ * "What went wrong" summary. Diagnostics for generated files can then be
+ * mapped back to the template file and morph point that produced them.
+ */
+
+import * as path from 'path';
+import type { ProjectSourceMap } from './ProjectSourceMap';
+import type { BuildDiagnostic, BuildTool, DiagnosticSeverity } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Patterns
+// ─────────────────────────────────────────────────────────────────────────────
+
+const TASK_LINE = /^> Task (:\S+)/;
+
+/** `e: file:///src/Main.kt:12:5 Unresolved reference: foo` (Kotlin 1.8+) */
+const KOTLIN_MESSAGE = /^([ew]): (?:file:\/\/)?(.+?):(\d+):(\d+) (.+)$/;
+
+/** `e: /src/Main.kt: (12, 5): Unresolved reference: foo` (older Kotlin) */
+const KOTLIN_LEGACY_MESSAGE = /^([ew]): (.+?): \((\d+), (\d+)\): (.+)$/;
+
+/** `e: Some message without a location` */
+const KOTLIN_BARE_MESSAGE = /^([ew]): (.+)$/;
+
+/** `/src/Main.java:12: error: cannot find symbol` */
+const JAVAC_MESSAGE = /^(.+\.java):(\d+): (error|warning): (.+)$/;
+
+/** `ERROR: /res/values/strings.xml:5: AAPT: error: resource not found` */
+const AAPT_MESSAGE = /^(?:ERROR:\s*)?(.+?):(\d+)(?::(\d+))?: AAPT: (error|warning): (.+)$/;
+
+/** `AAPT: error: resource string/app_name not found.` */
+const AAPT_BARE_MESSAGE = /^(?:ERROR:\s*)?AAPT: (error|warning): (.+)$/;
+
+/** `/src/main/AndroidManifest.xml:7:5-65 Error:`, message on following lines */
+const MANIFEST_MESSAGE = /^(.+AndroidManifest\.xml):(\d+):(\d+)(?:-\d+)? (Error|Warning):\s*(.*)$/;
+
+/** `ERROR: /build/classes.jar: D8: Type a.B is defined multiple times` */
+const DEX_MESSAGE = /^(ERROR|WARNING|Error|Warning):\s*(?:(.+?):\s*)?(D8|R8): (.+)$/;
+
+const WHAT_WENT_WRONG = '* What went wrong:';
+const FAILED_TASK = /task '([^']+)'/;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parse Gradle console output into diagnostics, attributing each one to
+ * the Gradle task that was running when it was printed
+ */
+export function parseGradleOutput(output: string): BuildDiagnostic[] {
+  const lines = output.split(/\r?\n/);
+  const diagnostics: BuildDiagnostic[] = [];
+  const seen = new Set<string>();
+  let task: string | undefined;
+
+  const add = (diagnostic: BuildDiagnostic): void => {
+    const key = [diagnostic.tool, diagnostic.file, diagnostic.line, diagnostic.column, diagnostic.message].join('|');
+    if (!seen.has(key)) {
+      seen.add(key);
+      diagnostics.push(diagnostic);
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    let match: RegExpExecArray | null;
+
+    if ((match = TASK_LINE.exec(line))) {
+      task = match[1];
+    } else if ((match = KOTLIN_LEGACY_MESSAGE.exec(line)) || (match = KOTLIN_MESSAGE.exec(line))) {
+      add({
+        tool: 'kotlinc',
+        severity: match[1] === 'e' ? 'error' : 'warning',
+        file: match[2],
+        line: Number(match[3]),
+        column: Number(match[4]),
+        message: match[5],
+        task,
+      });
+    } else if ((match = KOTLIN_BARE_MESSAGE.exec(line))) {
+      add({ tool: 'kotlinc', severity: match[1] === 'e' ? 'error' : 'warning', message: match[2], task });
+    } else if ((match = JAVAC_MESSAGE.exec(line))) {
+      add({
+        tool: 'javac',
+        severity: toSeverity(match[3]),
+        file: match[1],
+        line: Number(match[2]),
+        message: match[4],
+        task,
+      });
+    } else if ((match = AAPT_MESSAGE.exec(line))) {
+      add({
+        tool: 'aapt2',
+        severity: toSeverity(match[4]),
+        file: match[1],
+        line: Number(match[2]),
+        column: match[3] ? Number(match[3]) : undefined,
+        message: match[5],
+        task,
+      });
+    } else if ((match = AAPT_BARE_MESSAGE.exec(line))) {
+      add({ tool: 'aapt2', severity: toSeverity(match[1]), message: match[2], task });
+    } else if ((match = MANIFEST_MESSAGE.exec(line))) {
+      // The message follows on indented lines
+      const messageLines = match[5] ? [match[5]] : [];
+      while (i + 1 < lines.length && /^\s+\S/.test(lines[i + 1])) {
+        messageLines.push(lines[++i].trim());
+      }
+      add({
+        tool: 'manifest-merger',
+        severity: toSeverity(match[4]),
+        file: match[1],
+        line: Number(match[2]),
+        column: Number(match[3]),
+        message: messageLines.join(' '),
+        task,
+      });
+    } else if ((match = DEX_MESSAGE.exec(line))) {
+      add({
+        tool: match[3].toLowerCase() as BuildTool,
+        severity: toSeverity(match[1]),
+        file: match[2],
+        message: match[4],
+        task,
+      });
+    } else if (line === WHAT_WENT_WRONG) {
+      const messageLines: string[] = [];
+      while (i + 1 < lines.length && lines[i + 1].trim() !== '' && !lines[i + 1].startsWith('* ')) {
+        messageLines.push(lines[++i].trim().replace(/^>\s*/, ''));
+      }
+      const message = messageLines.join(' ');
+      add({ tool: 'gradle', severity: 'error', message, task: FAILED_TASK.exec(message)?.[1] });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Attach the template file and morph point to diagnostics reported
+ * against files of a templated project
+ */
+export function mapDiagnosticsToTemplate(
+  diagnostics: BuildDiagnostic[],
+  sourceMap: ProjectSourceMap | null,
+  projectPath: string
+): BuildDiagnostic[] {
+  if (!sourceMap) {
+    return diagnostics;
+  }
+
+  return diagnostics.map((diagnostic) => {
+    if (!diagnostic.file) {
+      return diagnostic;
+    }
+
+    const relative = path.relative(projectPath, diagnostic.file).split(path.sep).join('/');
+    const entry = sourceMap.files[relative];
+    if (!entry) {
+      return diagnostic;
+    }
+
+    const line = diagnostic.line;
+    const point = line === undefined
+      ? undefined
+      : entry.morphPoints.find((candidate) =>
+          candidate.ranges.some((range) => line >= range.start && line <= range.end)
+        );
+
+    return {
+      ...diagnostic,
+      templateFile: entry.templateFile ?? undefined,
+      templateSource: entry.source,
+      morphPointId: point?.id,
+    };
+  });
+}
+
+/**
+ * Format a diagnostic as a single `file:line:column: message` line
+ */
+export function formatDiagnostic(diagnostic: BuildDiagnostic): string {
+  const location = [diagnostic.file, diagnostic.line, diagnostic.column]
+    .filter((part) => part !== undefined)
+    .join(':');
+  return location ? `${location}: ${diagnostic.message}` : diagnostic.message;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function toSeverity(level: string): DiagnosticSeverity {
+  return level.toLowerCase() === 'error' ? 'error' : 'warning';
+}
+
+export default parseGradleOutput;
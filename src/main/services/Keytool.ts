@@ -0,0 +1,170 @@
+/**
+ * Keytool.ts - Keystore Generation and Inspection
+ *
+ * Wraps the JDK's keytool to create PKCS12 keystores and read the
+ * certificate of a key. Passwords reach keytool through environment
+ * variables, never the command line, and keystores only touch disk in
+ * private temp directories removed right after use.
+ */
+
+import { spawn } from 'child_process';
+import { X509Certificate } from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CertificateInfo {
+  subject: string;
+  sha1: string;
+  sha256: string;
+  validUntil?: Date;
+}
+
+export interface GenerateKeystoreOptions {
+  alias: string;
+  /** X.500 name, see distinguishedName() */
+  distinguishedName: string;
+  validityDays: number;
+  /** PKCS12 keystores use one password for the store and the key */
+  password: string;
+}
+
+/**
+ * Keystore operations the signing vault depends on
+ */
+export interface KeystoreTool {
+  generate(options: GenerateKeystoreOptions): Promise<Buffer>;
+  /** Read the certificate of a key; fails on a wrong store password or alias */
+  certificate(keystore: Buffer, alias: string, storePassword: string): Promise<CertificateInfo>;
+}
+
+const PASSWORD_VARIABLE = 'APPFORGE_KEYTOOL_PASSWORD';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Keytool Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class Keytool implements KeystoreTool {
+  /**
+   * @param javaHome - JDK to take keytool from; defaults to keytool on the PATH
+   */
+  constructor(private readonly javaHome?: string) {}
+
+  async generate(options: GenerateKeystoreOptions): Promise<Buffer> {
+    return withTempDir(async (dir) => {
+      const file = path.join(dir, 'keystore.p12');
+      await this.run([
+        '-genkeypair',
+        '-keystore', file,
+        '-storetype', 'PKCS12',
+        '-alias', options.alias,
+        '-keyalg', 'RSA',
+        '-keysize', '2048',
+        '-validity', String(options.validityDays),
+        '-dname', options.distinguishedName,
+        '-storepass:env', PASSWORD_VARIABLE,
+        '-keypass:env', PASSWORD_VARIABLE,
+      ], options.password);
+      return fs.readFile(file);
+    });
+  }
+
+  async certificate(keystore: Buffer, alias: string, storePassword: string): Promise<CertificateInfo> {
+    return withTempDir(async (dir) => {
+      const file = path.join(dir, 'keystore');
+      await fs.writeFile(file, keystore, { mode: 0o600 });
+      const pem = await this.run([
+        '-exportcert',
+        '-rfc',
+        '-keystore', file,
+        '-alias', alias,
+        '-storepass:env', PASSWORD_VARIABLE,
+      ], storePassword);
+      return describeCertificate(pem);
+    });
+  }
+
+  private run(args: string[], password: string): Promise<string> {
+    const command = this.javaHome
+      ? path.join(this.javaHome, 'bin', process.platform === 'win32' ? 'keytool.exe' : 'keytool')
+      : 'keytool';
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, {
+        env: { ...process.env, [PASSWORD_VARIABLE]: password },
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      let stdout = '';
+      let stderr = '';
+      child.stdout.on('data', (data: Buffer) => {
+        stdout += data.toString();
+      });
+      child.stderr.on('data', (data: Buffer) => {
+        stderr += data.toString();
+      });
+
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        reject(error.code === 'ENOENT'
+          ? new Error('keytool not found; install a JDK or set JAVA_HOME')
+          : error);
+      });
+      child.on('close', (code: number | null) => {
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          // keytool reports most errors on stdout
+          reject(new Error((stderr || stdout).trim() || `keytool exited with code ${code}`));
+        }
+      });
+    });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Subject, fingerprints and expiry of a PEM certificate
+ */
+export function describeCertificate(pem: string): CertificateInfo {
+  const certificate = new X509Certificate(pem);
+  return {
+    subject: certificate.subject.split('\n').join(', '),
+    sha1: certificate.fingerprint,
+    sha256: certificate.fingerprint256,
+    validUntil: new Date(certificate.validTo),
+  };
+}
+
+/**
+ * Build an X.500 name for keytool, escaping its special characters
+ */
+export function distinguishedName(fields: { commonName: string; organization?: string; countryCode?: string }): string {
+  const escape = (value: string) => value.trim().replace(/([,+"\\<>;=])/g, '\\$1');
+  return [
+    `CN=${escape(fields.commonName)}`,
+    ...(fields.organization ? [`O=${escape(fields.organization)}`] : []),
+    ...(fields.countryCode ? [`C=${escape(fields.countryCode)}`] : []),
+  ].join(', ');
+}
+
+/**
+ * Run `fn` with a directory only this user can read, removed afterwards
+ */
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'appforge-keytool-'));
+  try {
+    await fs.chmod(dir, 0o700);
+    return await fn(dir);
+  } finally {
+    await fs.remove(dir);
+  }
+}
+
+export default Keytool;
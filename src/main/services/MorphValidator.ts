@@ -0,0 +1,347 @@
+/**
+ * MorphValidator.ts - Validation Rule Engine for Morph Values
+ *
+ * Evaluates the `validations:` block declared in a template's morph.yaml
+ * against the values supplied for instantiation. Rule types are registered
+ * by name so templates can opt into new checks without engine changes.
+ */
+
+import * as fs from 'fs';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A single validation rule parsed from morph.yaml
+ */
+export interface ValidationRule {
+  type: string;
+  target: string;
+  message?: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * A validation failure tied to one morph point or config field
+ */
+export interface MorphFieldError {
+  field: string;
+  rule: string;
+  message: string;
+}
+
+/**
+ * Checks a single value against a rule.
+ * Returns an error message, or null when the value passes.
+ */
+export type RuleValidator = (
+  value: unknown,
+  rule: ValidationRule
+) => string | null;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Built-in Rules
+// ─────────────────────────────────────────────────────────────────────────────
+
+const HEX_COLOR_FORMATS: Record<string, RegExp> = {
+  hex: /^#?([0-9a-fA-F]{3}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/,
+  rgb: /^#?[0-9a-fA-F]{6}$/,
+  argb: /^#?[0-9a-fA-F]{8}$/,
+};
+
+const PACKAGE_NAME_REGEX = /^[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)+$/;
+
+/**
+ * Read a numeric rule parameter, ignoring anything that isn't a finite number
+ */
+function numberParam(rule: ValidationRule, key: string): number | undefined {
+  const raw = rule.params[key];
+  const num = typeof raw === 'string' ? Number(raw) : raw;
+  return typeof num === 'number' && Number.isFinite(num) ? num : undefined;
+}
+
+const stringLength: RuleValidator = (value, rule) => {
+  const length = String(value).length;
+  const min = numberParam(rule, 'min_length');
+  const max = numberParam(rule, 'max_length');
+
+  if (min !== undefined && length < min) {
+    return `Must be at least ${min} characters`;
+  }
+  if (max !== undefined && length > max) {
+    return `Must be at most ${max} characters`;
+  }
+  return null;
+};
+
+const regex: RuleValidator = (value, rule) => {
+  const pattern = rule.params.pattern;
+  if (typeof pattern !== 'string') {
+    return 'Regex rule is missing a pattern';
+  }
+
+  const flags = typeof rule.params.flags === 'string' ? rule.params.flags : '';
+  let matcher: RegExp;
+  try {
+    matcher = new RegExp(pattern, flags);
+  } catch (error) {
+    return `Regex rule has an invalid pattern: ${(error as Error).message}`;
+  }
+
+  return matcher.test(String(value))
+    ? null
+    : `Must match pattern ${pattern}`;
+};
+
+const colorFormat: RuleValidator = (value, rule) => {
+  const format = typeof rule.params.format === 'string' ? rule.params.format : 'hex';
+  const matcher = HEX_COLOR_FORMATS[format];
+
+  if (!matcher) {
+    return `Unsupported color format: ${format}`;
+  }
+  return matcher.test(String(value))
+    ? null
+    : `Must be a valid ${format} color (e.g. #6200EE)`;
+};
+
+const enumeration: RuleValidator = (value, rule) => {
+  const allowed = Array.isArray(rule.params.values) ? rule.params.values : [];
+  return allowed.some((candidate) => String(candidate) === String(value))
+    ? null
+    : `Must be one of: ${allowed.join(', ')}`;
+};
+
+const numericRange: RuleValidator = (value, rule) => {
+  const num = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(num)) {
+    return 'Must be a number';
+  }
+
+  const min = numberParam(rule, 'min');
+  const max = numberParam(rule, 'max');
+
+  if (rule.params.integer === true && !Number.isInteger(num)) {
+    return 'Must be a whole number';
+  }
+  if (min !== undefined && num < min) {
+    return `Must be at least ${min}`;
+  }
+  if (max !== undefined && num > max) {
+    return `Must be at most ${max}`;
+  }
+  return null;
+};
+
+const packageName: RuleValidator = (value) => {
+  return PACKAGE_NAME_REGEX.test(String(value))
+    ? null
+    : 'Invalid package name format. Must be like: com.example.app';
+};
+
+const imageDimensions: RuleValidator = (value, rule) => {
+  const dimensions = readImageDimensions(String(value));
+  if (!dimensions) {
+    return 'Image could not be read (supported: PNG, JPEG, GIF, WebP)';
+  }
+
+  const { width, height } = dimensions;
+  const checks: Array<[string, number, (limit: number) => boolean, string]> = [
+    ['width', width, (limit) => width === limit, 'exactly'],
+    ['height', height, (limit) => height === limit, 'exactly'],
+    ['min_width', width, (limit) => width >= limit, 'at least'],
+    ['min_height', height, (limit) => height >= limit, 'at least'],
+    ['max_width', width, (limit) => width <= limit, 'at most'],
+    ['max_height', height, (limit) => height <= limit, 'at most'],
+  ];
+
+  for (const [key, actual, passes, phrase] of checks) {
+    const limit = numberParam(rule, key);
+    if (limit !== undefined && !passes(limit)) {
+      const axis = key.endsWith('width') ? 'width' : 'height';
+      return `Image ${axis} must be ${phrase} ${limit}px (got ${actual}px)`;
+    }
+  }
+
+  return null;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Image Header Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Read pixel dimensions from an image file header without decoding it.
+ * Returns null for unreadable files or unsupported formats.
+ */
+export function readImageDimensions(
+  filePath: string
+): { width: number; height: number } | null {
+  let header: Buffer;
+  try {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      header = Buffer.alloc(64 * 1024);
+      const bytesRead = fs.readSync(fd, header, 0, header.length, 0);
+      header = header.subarray(0, bytesRead);
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    return null;
+  }
+
+  // PNG: signature followed by the IHDR chunk
+  if (header.length >= 24 && header.readUInt32BE(0) === 0x89504e47) {
+    return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+  }
+
+  // GIF: logical screen descriptor
+  if (header.length >= 10 && header.toString('ascii', 0, 3) === 'GIF') {
+    return { width: header.readUInt16LE(6), height: header.readUInt16LE(8) };
+  }
+
+  // WebP: RIFF container with VP8, VP8L or VP8X chunk
+  if (
+    header.length >= 30 &&
+    header.toString('ascii', 0, 4) === 'RIFF' &&
+    header.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    const chunk = header.toString('ascii', 12, 16);
+    if (chunk === 'VP8X') {
+      return {
+        width: 1 + header.readUIntLE(24, 3),
+        height: 1 + header.readUIntLE(27, 3),
+      };
+    }
+    if (chunk === 'VP8L') {
+      const bits = header.readUInt32LE(21);
+      return { width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+    }
+    if (chunk === 'VP8 ') {
+      return {
+        width: header.readUInt16LE(26) & 0x3fff,
+        height: header.readUInt16LE(28) & 0x3fff,
+      };
+    }
+    return null;
+  }
+
+  // JPEG: walk markers until a start-of-frame segment
+  if (header.length >= 4 && header[0] === 0xff && header[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < header.length) {
+      if (header[offset] !== 0xff) {
+        return null;
+      }
+      const marker = header[offset + 1];
+      const isStartOfFrame =
+        marker >= 0xc0 && marker <= 0xcf &&
+        marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+      if (isStartOfFrame) {
+        return {
+          width: header.readUInt16BE(offset + 7),
+          height: header.readUInt16BE(offset + 5),
+        };
+      }
+      offset += 2 + header.readUInt16BE(offset + 2);
+    }
+  }
+
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// MorphValidator Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Registry and runner for morph value validation rules
+ */
+export class MorphValidator {
+  private rules: Map<string, RuleValidator> = new Map();
+
+  constructor() {
+    this.registerRule('string_length', stringLength);
+    this.registerRule('regex', regex);
+    this.registerRule('color_format', colorFormat);
+    this.registerRule('enum', enumeration);
+    this.registerRule('numeric_range', numericRange);
+    this.registerRule('package_name', packageName);
+    this.registerRule('image_dimensions', imageDimensions);
+  }
+
+  /**
+   * Register (or replace) a rule type
+   */
+  registerRule(type: string, validator: RuleValidator): void {
+    this.rules.set(type, validator);
+  }
+
+  /**
+   * Check whether a rule type is known
+   */
+  hasRule(type: string): boolean {
+    return this.rules.has(type);
+  }
+
+  /**
+   * Parse the raw `validations:` block from morph.yaml
+   */
+  static parseRules(rawRules: any[]): ValidationRule[] {
+    return rawRules
+      .filter((rule) => rule && typeof rule === 'object')
+      .map((rule) => {
+        const { type, target, message, ...params } = rule;
+        return {
+          type: String(type),
+          target: String(target),
+          message: typeof message === 'string' ? message : undefined,
+          params,
+        };
+      });
+  }
+
+  /**
+   * Run every rule against the resolved values.
+   * Empty values are skipped; required-ness is checked separately.
+   */
+  validate(
+    rules: ValidationRule[],
+    values: Record<string, unknown>
+  ): MorphFieldError[] {
+    const errors: MorphFieldError[] = [];
+
+    for (const rule of rules) {
+      const validator = this.rules.get(rule.type);
+      if (!validator) {
+        errors.push({
+          field: rule.target,
+          rule: rule.type,
+          message: `Unknown validation rule type: ${rule.type}`,
+        });
+        continue;
+      }
+
+      const value = values[rule.target];
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+
+      const failure = validator(value, rule);
+      if (failure) {
+        errors.push({
+          field: rule.target,
+          rule: rule.type,
+          message: rule.message ?? failure,
+        });
+      }
+    }
+
+    return errors;
+  }
+}
+
+export default MorphValidator;
@@ -0,0 +1,128 @@
+/**
+ * MorphValues.ts - Structured Morph Value Rendering
+ *
+ * Helpers for turning typed morph values (lists, booleans, numbers with
+ * units) into the text that gets substituted into template files.
+ */
+
+import type { MorphPointValue, MorphListFormat } from '../../shared/types';
+import { escapeKotlinString, escapeXml } from './Substitution';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Unit Conversion
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Conversion factors to each dimension's base unit
+ */
+const UNIT_DIMENSIONS: Record<string, Record<string, number>> = {
+  time: { ms: 1, s: 1000, min: 60_000, h: 3_600_000 },
+  data: { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 },
+  ratio: { fraction: 1, percent: 0.01 },
+};
+
+/**
+ * Android dimension units, written with their suffix (e.g. `16dp`)
+ */
+const ANDROID_DIMENSION_UNITS = ['dp', 'sp', 'px', 'pt', 'mm', 'in'];
+
+/**
+ * Convert a number between units of the same dimension
+ */
+export function convertUnit(value: number, from?: string, to?: string): number {
+  if (!from || !to || from === to) {
+    return value;
+  }
+
+  for (const factors of Object.values(UNIT_DIMENSIONS)) {
+    if (from in factors && to in factors) {
+      return (value * factors[from]) / factors[to];
+    }
+  }
+
+  throw new Error(`Cannot convert from ${from} to ${to}`);
+}
+
+/**
+ * Render a number for substitution, converting units and adding an
+ * Android dimension suffix where one applies
+ */
+export function formatNumber(value: number, unit?: string, outputUnit?: string): string {
+  const target = outputUnit ?? unit;
+  const converted = convertUnit(value, unit, target);
+  const text = Number.isInteger(converted)
+    ? String(converted)
+    : String(Number(converted.toFixed(6)));
+
+  return target && ANDROID_DIMENSION_UNITS.includes(target) ? `${text}${target}` : text;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Lists
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Render list items in the requested target syntax
+ */
+export function formatList(items: string[], format: MorphListFormat = 'lines'): string {
+  switch (format) {
+    case 'kotlin':
+      return `listOf(${items.map((item) => `"${escapeKotlinString(item)}"`).join(', ')})`;
+    case 'xml':
+      return items.map((item) => `<item>${escapeXml(item)}</item>`).join('\n');
+    case 'json':
+      return JSON.stringify(items);
+    case 'csv':
+      return items.join(', ');
+    case 'lines':
+    default:
+      return items.join('\n');
+  }
+}
+
+/**
+ * Coerce a raw value into list items
+ */
+export function toList(value: MorphPointValue | undefined): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  if (value === undefined || value === '') {
+    return [];
+  }
+  return String(value)
+    .split(/\r?\n|,/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Booleans
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Coerce a raw value into a boolean, accepting common string forms
+ */
+export function toBoolean(value: MorphPointValue | undefined): boolean {
+  if (typeof value === 'string') {
+    return ['true', 'yes', 'on', '1'].includes(value.trim().toLowerCase());
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return Boolean(value);
+}
+
+/**
+ * Keep or drop blocks delimited by `@morph:if <id>` / `@morph:endif <id>`
+ * marker lines. Marker lines are always removed.
+ */
+export function applyBlockToggle(content: string, id: string, enabled: boolean): string {
+  const escaped = id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const block = new RegExp(
+    `^[^\\n]*@morph:if ${escaped}\\b[^\\n]*\\n([\\s\\S]*?)^[^\\n]*@morph:endif ${escaped}\\b[^\\n]*(?:\\n|$)`,
+    'gm'
+  );
+
+  return content.replace(block, (_match, body: string) => (enabled ? body : ''));
+}
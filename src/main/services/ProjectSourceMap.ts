@@ -0,0 +1,73 @@
+/**
+ * ProjectSourceMap.ts - Generated File Provenance
+ *
+ * Records, for every file of an instantiated project, the template file
+ * it came from and the lines each morph point substituted, so build
+ * diagnostics can be traced back to the template.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import type { LineRange } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Where one generated file came from
+ */
+export interface SourceMapEntry {
+  /** Path inside the template, e.g. `src/app/src/main/res/values/strings.xml` */
+  templateFile: string | null;
+  /** Absolute path of the template file the content was read from */
+  source: string;
+  morphPoints: Array<{ id: string; ranges: LineRange[] }>;
+}
+
+/**
+ * Contents of the source map, keyed by project-relative path
+ */
+export interface ProjectSourceMap {
+  templateId: string;
+  templateVersion: string;
+  files: Record<string, SourceMapEntry>;
+}
+
+/**
+ * Location of the source map inside an instantiated project
+ */
+export const SOURCE_MAP_FILE = path.join('.appforge', 'source-map.json');
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Write a project's source map
+ */
+export async function writeSourceMap(projectPath: string, sourceMap: ProjectSourceMap): Promise<void> {
+  await fs.outputFile(
+    path.join(projectPath, SOURCE_MAP_FILE),
+    JSON.stringify(sourceMap, null, 2),
+    'utf-8'
+  );
+}
+
+/**
+ * Read a project's source map, or null for projects without one
+ */
+export async function readSourceMap(projectPath: string): Promise<ProjectSourceMap | null> {
+  const mapPath = path.join(projectPath, SOURCE_MAP_FILE);
+  if (!await fs.pathExists(mapPath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(await fs.readFile(mapPath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+export default readSourceMap;
@@ -0,0 +1,459 @@
+/**
+ * Provenance.ts - Build Provenance and SBOM
+ *
+ * Describes how each artifact was made: an in-toto statement with a SLSA
+ * provenance predicate naming the template version, morph values,
+ * toolchain and dependencies, signed in a DSSE envelope, and a CycloneDX
+ * SBOM of the dependencies Gradle resolved for the built variant.
+ * Dependencies are written by a Gradle init script during the build.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { variantName } from './BuildMatrix';
+import type { AndroidAbi, BuildFormat } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A library on the runtime classpath of the built variant
+ */
+export interface ResolvedComponent {
+  group: string;
+  name: string;
+  version: string;
+  /** `group:name:version` of the libraries it depends on */
+  dependencies: string[];
+}
+
+/**
+ * Toolchain and dependencies reported by Gradle for one build
+ */
+export interface DependencyReport {
+  gradle: string;
+  java: string;
+  androidGradlePlugin: string | null;
+  /** `group:name:version` of the app modules' direct dependencies */
+  direct: string[];
+  components: ResolvedComponent[];
+}
+
+/**
+ * Template and morph values a project was instantiated from
+ */
+export interface BuildSource {
+  templateId: string;
+  templateVersion?: string;
+  morphValues: Record<string, unknown>;
+}
+
+/**
+ * What a statement is made about: a successfully built artifact
+ */
+export interface AttestedArtifact {
+  format: BuildFormat;
+  abi?: AndroidAbi;
+  path: string;
+}
+
+/**
+ * Everything known about a finished build that goes into its provenance
+ */
+export interface AttestationInput {
+  jobId: string;
+  appId: string;
+  buildType: 'debug' | 'release';
+  flavor?: string;
+  format: BuildFormat;
+  abis?: AndroidAbi[];
+  executor: string;
+  source?: BuildSource;
+  artifacts: AttestedArtifact[];
+  dependencies?: DependencyReport;
+  cacheHit?: boolean;
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+/**
+ * in-toto statement with a SLSA v1 provenance predicate
+ */
+export interface ProvenanceStatement {
+  _type: typeof STATEMENT_TYPE;
+  subject: Array<{ name: string; digest: { sha256: string } }>;
+  predicateType: typeof PROVENANCE_PREDICATE_TYPE;
+  predicate: {
+    buildDefinition: {
+      buildType: string;
+      externalParameters: Record<string, unknown>;
+      internalParameters: Record<string, unknown>;
+      resolvedDependencies: Array<{ uri: string; name: string }>;
+    };
+    runDetails: {
+      builder: { id: string };
+      metadata: { invocationId: string; startedOn: string; finishedOn: string };
+    };
+  };
+}
+
+/**
+ * A signed payload as defined by Dead Simple Signing Envelope
+ */
+export interface DsseEnvelope {
+  payloadType: string;
+  /** Base64 of the statement's JSON */
+  payload: string;
+  signatures: Array<{ keyid: string; sig: string }>;
+}
+
+/**
+ * CycloneDX 1.5 bill of materials, limited to the fields AppForge writes
+ */
+export interface CycloneDxBom {
+  bomFormat: 'CycloneDX';
+  specVersion: '1.5';
+  serialNumber: string;
+  version: number;
+  metadata: {
+    timestamp: string;
+    tools: { components: Array<{ type: 'application'; name: string }> };
+    component: CycloneDxComponent;
+  };
+  components: CycloneDxComponent[];
+  dependencies: Array<{ ref: string; dependsOn: string[] }>;
+}
+
+export interface CycloneDxComponent {
+  type: 'application' | 'library';
+  'bom-ref': string;
+  group?: string;
+  name: string;
+  version?: string;
+  purl?: string;
+}
+
+/**
+ * Provenance and SBOM of one build, as stored with its record
+ */
+export interface BuildAttestations {
+  provenance: DsseEnvelope;
+  sbom: CycloneDxBom;
+}
+
+export const STATEMENT_TYPE = 'https://in-toto.io/Statement/v1';
+export const PROVENANCE_PREDICATE_TYPE = 'https://slsa.dev/provenance/v1';
+export const DSSE_PAYLOAD_TYPE = 'application/vnd.in-toto+json';
+
+const BUILD_TYPE = 'urn:appforge-zero:gradle-build:v1';
+
+/**
+ * Where the init script and its report live inside a built project. The
+ * script sits with AppForge's metadata so it never changes a build key;
+ * the report lands in the root build directory next to other outputs.
+ */
+export const DEPENDENCY_INIT_SCRIPT_FILE = path.join('.appforge', 'dependencies.gradle');
+export const DEPENDENCY_REPORT_DIR = path.join('build', 'appforge');
+const DEPENDENCY_REPORT_FILE = path.join(DEPENDENCY_REPORT_DIR, 'dependencies.json');
+
+/**
+ * Gradle init script adding an `appforgeDependencies` task to the root
+ * project. It resolves the runtime classpath of the variant named by the
+ * `appforgeVariant` property in every application module and writes the
+ * components with the Gradle, JDK and Android plugin versions.
+ */
+const DEPENDENCY_INIT_SCRIPT = `
+rootProject {
+    tasks.register('appforgeDependencies') {
+        def variant = project.findProperty('appforgeVariant')
+        def report = project.layout.buildDirectory.file('appforge/dependencies.json')
+        doLast {
+            def coordinates = { id -> "\${id.group}:\${id.name}:\${id.version}".toString() }
+            def components = [:]
+            def direct = [] as LinkedHashSet
+            def agp = null
+            project.allprojects.each { module ->
+                def plugin = module.plugins.findPlugin('com.android.application')
+                def configuration = module.configurations.findByName("\${variant}RuntimeClasspath")
+                if (plugin == null || configuration == null) {
+                    return
+                }
+                try {
+                    agp = plugin.class.classLoader.loadClass('com.android.Version').ANDROID_GRADLE_PLUGIN_VERSION
+                } catch (Throwable ignored) {
+                }
+                def result = configuration.incoming.resolutionResult
+                def selected = { dependency ->
+                    dependency instanceof org.gradle.api.artifacts.result.ResolvedDependencyResult &&
+                        !(dependency.selected.id instanceof org.gradle.api.artifacts.component.ProjectComponentIdentifier)
+                }
+                result.root.dependencies.findAll(selected).each { direct << coordinates(it.selected.moduleVersion) }
+                result.allComponents.each { component ->
+                    if (component.id instanceof org.gradle.api.artifacts.component.ProjectComponentIdentifier) {
+                        return
+                    }
+                    def id = component.moduleVersion
+                    def entry = components.computeIfAbsent(coordinates(id)) {
+                        [group: id.group, name: id.name, version: id.version, dependencies: [] as LinkedHashSet]
+                    }
+                    component.dependencies.findAll(selected).each { entry.dependencies << coordinates(it.selected.moduleVersion) }
+                }
+            }
+            def file = report.get().asFile
+            file.parentFile.mkdirs()
+            file.text = groovy.json.JsonOutput.toJson([
+                gradle: gradle.gradleVersion,
+                java: System.getProperty('java.version'),
+                androidGradlePlugin: agp,
+                direct: direct as List,
+                components: components.values().collect { it + [dependencies: it.dependencies as List] },
+            ])
+        }
+    }
+}
+`.trimStart();
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ProvenanceSigner Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Signs provenance with this installation's Ed25519 key
+ */
+export class ProvenanceSigner {
+  /** SHA-256 of the public key, naming it in signatures */
+  readonly keyId: string;
+
+  constructor(private readonly privateKey: crypto.KeyObject) {
+    this.keyId = crypto.createHash('sha256').update(this.publicKeyDer()).digest('hex');
+  }
+
+  /**
+   * Load the key at `keyPath`, creating it on first use
+   */
+  static async load(keyPath: string): Promise<ProvenanceSigner> {
+    if (await fs.pathExists(keyPath)) {
+      return new ProvenanceSigner(crypto.createPrivateKey(await fs.readFile(keyPath, 'utf-8')));
+    }
+
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    await fs.outputFile(keyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+    return new ProvenanceSigner(privateKey);
+  }
+
+  /**
+   * Public key in PEM, for verifying envelopes elsewhere
+   */
+  get publicKey(): string {
+    return crypto.createPublicKey(this.privateKey).export({ type: 'spki', format: 'pem' }).toString();
+  }
+
+  /**
+   * Sign a statement into a DSSE envelope
+   */
+  sign(statement: ProvenanceStatement): DsseEnvelope {
+    const payload = Buffer.from(JSON.stringify(statement), 'utf-8');
+    const sig = crypto.sign(null, preAuthEncoding(DSSE_PAYLOAD_TYPE, payload), this.privateKey);
+    return {
+      payloadType: DSSE_PAYLOAD_TYPE,
+      payload: payload.toString('base64'),
+      signatures: [{ keyid: this.keyId, sig: sig.toString('base64') }],
+    };
+  }
+
+  /**
+   * Provenance and SBOM for a finished build
+   */
+  async attest(input: AttestationInput): Promise<BuildAttestations> {
+    return {
+      provenance: this.sign(await createProvenance(input)),
+      sbom: createSbom(input),
+    };
+  }
+
+  private publicKeyDer(): Buffer {
+    return crypto.createPublicKey(this.privateKey).export({ type: 'spki', format: 'der' });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Put the dependency init script into a project and drop the report of
+ * an earlier build. Returns the Gradle arguments that run it.
+ */
+export async function prepareDependencyReport(
+  projectPath: string,
+  variant: { flavor?: string; buildType: 'debug' | 'release' }
+): Promise<string[]> {
+  await fs.outputFile(path.join(projectPath, DEPENDENCY_INIT_SCRIPT_FILE), DEPENDENCY_INIT_SCRIPT, 'utf-8');
+  await fs.remove(path.join(projectPath, DEPENDENCY_REPORT_FILE));
+
+  return [
+    'appforgeDependencies',
+    '--init-script',
+    DEPENDENCY_INIT_SCRIPT_FILE.split(path.sep).join('/'),
+    `-PappforgeVariant=${variantName(variant)}`,
+  ];
+}
+
+/**
+ * Read the report the init script wrote, or null when there is none
+ */
+export async function readDependencyReport(projectPath: string): Promise<DependencyReport | null> {
+  const file = path.join(projectPath, DEPENDENCY_REPORT_FILE);
+  if (!(await fs.pathExists(file))) {
+    return null;
+  }
+
+  const report = JSON.parse(await fs.readFile(file, 'utf-8')) as DependencyReport;
+  if (typeof report.gradle !== 'string' || !Array.isArray(report.components)) {
+    throw new Error(`Malformed dependency report: ${file}`);
+  }
+  return report;
+}
+
+/**
+ * Write a stored provenance envelope or SBOM as a JSON file
+ */
+export async function writeAttestation(document: DsseEnvelope | CycloneDxBom, outputPath: string): Promise<string> {
+  await fs.outputFile(outputPath, JSON.stringify(document, null, 2), 'utf-8');
+  return outputPath;
+}
+
+/**
+ * An in-toto statement whose subjects are the artifacts' digests
+ */
+export async function createProvenance(input: AttestationInput): Promise<ProvenanceStatement> {
+  const subject = await Promise.all(input.artifacts.map(async (artifact) => ({
+    name: path.basename(artifact.path),
+    digest: { sha256: await sha256File(artifact.path) },
+  })));
+
+  return {
+    _type: STATEMENT_TYPE,
+    subject,
+    predicateType: PROVENANCE_PREDICATE_TYPE,
+    predicate: {
+      buildDefinition: {
+        buildType: BUILD_TYPE,
+        externalParameters: {
+          appId: input.appId,
+          template: input.source
+            ? { id: input.source.templateId, version: input.source.templateVersion ?? null }
+            : null,
+          morphValues: input.source?.morphValues ?? null,
+          variant: {
+            buildType: input.buildType,
+            flavor: input.flavor ?? null,
+            format: input.format,
+            abis: input.abis ?? [],
+          },
+        },
+        internalParameters: {
+          executor: input.executor,
+          gradle: input.dependencies?.gradle ?? null,
+          java: input.dependencies?.java ?? null,
+          androidGradlePlugin: input.dependencies?.androidGradlePlugin ?? null,
+          cacheHit: input.cacheHit ?? false,
+        },
+        resolvedDependencies: (input.dependencies?.components ?? []).map((component) => ({
+          uri: purl(component),
+          name: `${component.group}:${component.name}`,
+        })),
+      },
+      runDetails: {
+        builder: { id: `urn:appforge-zero:executor:${input.executor}` },
+        metadata: {
+          invocationId: input.jobId,
+          startedOn: input.startedAt.toISOString(),
+          finishedOn: input.finishedAt.toISOString(),
+        },
+      },
+    },
+  };
+}
+
+/**
+ * A CycloneDX SBOM of the resolved dependencies. Without a dependency
+ * report it lists only the app itself.
+ */
+export function createSbom(input: AttestationInput): CycloneDxBom {
+  const appRef = `app:${input.appId}`;
+  const components = input.dependencies?.components ?? [];
+  const refs = new Map(components.map((component) => [coordinates(component), purl(component)]));
+  const refsOf = (list: string[]) => list.map((entry) => refs.get(entry)).filter((ref): ref is string => !!ref);
+
+  return {
+    bomFormat: 'CycloneDX',
+    specVersion: '1.5',
+    serialNumber: `urn:uuid:${crypto.randomUUID()}`,
+    version: 1,
+    metadata: {
+      timestamp: input.finishedAt.toISOString(),
+      tools: { components: [{ type: 'application', name: 'AppForge Zero' }] },
+      component: { type: 'application', 'bom-ref': appRef, name: input.appId },
+    },
+    components: components.map((component) => ({
+      type: 'library',
+      'bom-ref': purl(component),
+      group: component.group,
+      name: component.name,
+      version: component.version,
+      purl: purl(component),
+    })),
+    dependencies: [
+      { ref: appRef, dependsOn: refsOf(input.dependencies?.direct ?? []) },
+      ...components.map((component) => ({ ref: purl(component), dependsOn: refsOf(component.dependencies) })),
+    ],
+  };
+}
+
+/**
+ * Check an envelope's signature and return its statement
+ */
+export function verifyProvenance(envelope: DsseEnvelope, publicKey: string): ProvenanceStatement {
+  const payload = Buffer.from(envelope.payload, 'base64');
+  const key = crypto.createPublicKey(publicKey);
+  const valid = envelope.payloadType === DSSE_PAYLOAD_TYPE && envelope.signatures.some((signature) =>
+    crypto.verify(null, preAuthEncoding(envelope.payloadType, payload), key, Buffer.from(signature.sig, 'base64'))
+  );
+
+  if (!valid) {
+    throw new Error('Provenance signature does not match');
+  }
+  return JSON.parse(payload.toString('utf-8')) as ProvenanceStatement;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * DSSE pre-authentication encoding: what is actually signed
+ */
+function preAuthEncoding(payloadType: string, payload: Buffer): Buffer {
+  return Buffer.concat([
+    Buffer.from(`DSSEv1 ${Buffer.byteLength(payloadType)} ${payloadType} ${payload.length} `, 'utf-8'),
+    payload,
+  ]);
+}
+
+function coordinates(component: ResolvedComponent): string {
+  return `${component.group}:${component.name}:${component.version}`;
+}
+
+function purl(component: ResolvedComponent): string {
+  const encode = (value: string) => encodeURIComponent(value);
+  return `pkg:maven/${encode(component.group)}/${encode(component.name)}@${encode(component.version)}`;
+}
+
+async function sha256File(file: string): Promise<string> {
+  return crypto.createHash('sha256').update(await fs.readFile(file)).digest('hex');
+}
+
+export default ProvenanceSigner;
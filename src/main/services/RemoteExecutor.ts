@@ -0,0 +1,271 @@
+/**
+ * RemoteExecutor.ts - Builds on a Remote Worker
+ *
+ * Client for the build worker protocol, HTTP with JSON bodies:
+ *
+ *   POST   /jobs                 submit a project archive and Gradle arguments
+ *   GET    /jobs/:id/log         stream output as newline-delimited JSON,
+ *                                ending with the exit code
+ *   GET    /jobs/:id/artifacts   ZIP of the output directories
+ *   DELETE /jobs/:id             cancel the job and discard its files
+ *
+ * Workers may require a bearer token. BuildWorker implements the server
+ * side in-process.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { readZip, writeZip, ZipEntry } from './ZipArchive';
+import { isSafeEntryPath } from './TemplatePackage';
+import { DEPENDENCY_INIT_SCRIPT_FILE } from './Provenance';
+import { PROFILE_INIT_SCRIPT_FILE } from './BuildProfile';
+import type { BuildExecutor, Execution, ExecutionRequest, OutputListener, OutputStream } from './BuildExecutor';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Body of `POST /jobs`
+ */
+export interface RemoteJobSubmission {
+  args: string[];
+  outputs: string[];
+  /** Base64 ZIP of the project without build outputs or machine-specific files */
+  project: string;
+}
+
+/**
+ * One line of `GET /jobs/:id/log`
+ */
+export type RemoteLogEvent =
+  | { stream: OutputStream; text: string }
+  | { exitCode: number | null };
+
+export interface RemoteExecutorOptions {
+  /** Base URL of the worker, e.g. `http://build-host:7420` */
+  url: string;
+  token?: string;
+}
+
+/**
+ * Entries never sent to a worker: Gradle caches, IDE state, and files
+ * holding paths or secrets of this machine
+ */
+const EXCLUDED_ENTRIES = new Set(['.gradle', '.idea', '.appforge', 'local.properties', 'keystore.properties']);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// RemoteExecutor Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Sends builds to a worker and copies their outputs back into the
+ * project. Signed builds are refused since the keystore would have to
+ * leave this machine.
+ */
+export class RemoteExecutor implements BuildExecutor {
+  readonly name = 'remote';
+  readonly usesHostToolchain = false;
+  readonly toolchain: string;
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: RemoteExecutorOptions) {
+    this.baseUrl = options.url.replace(/\/+$/, '');
+    this.toolchain = this.baseUrl;
+  }
+
+  execute(request: ExecutionRequest, onOutput: OutputListener): Execution {
+    const controller = new AbortController();
+    let jobId: string | null = null;
+
+    const done = this.run(request, onOutput, controller.signal, (id) => {
+      jobId = id;
+    })
+      .catch((error) => {
+        if (controller.signal.aborted) {
+          return null;
+        }
+        throw error;
+      })
+      .finally(() => {
+        if (jobId) {
+          this.fetch(`/jobs/${jobId}`, { method: 'DELETE' }).catch(() => undefined);
+        }
+      });
+
+    return { done, cancel: () => controller.abort() };
+  }
+
+  private async run(
+    request: ExecutionRequest,
+    onOutput: OutputListener,
+    signal: AbortSignal,
+    onSubmitted: (jobId: string) => void
+  ): Promise<number | null> {
+    if (request.hostPaths.length > 0) {
+      throw new Error(`Remote workers cannot read files outside the project: ${request.hostPaths.join(', ')}`);
+    }
+
+    const submission: RemoteJobSubmission = {
+      args: request.args,
+      outputs: request.outputs,
+      project: (await packProject(request.projectPath)).toString('base64'),
+    };
+    const response = await this.fetch('/jobs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(submission),
+      signal,
+    });
+    const { id } = (await response.json()) as { id: string };
+    onSubmitted(id);
+
+    const exitCode = await this.streamLog(id, onOutput, signal);
+    if (exitCode === 0) {
+      // Drop outputs of earlier local builds so only this build's files are found
+      for (const output of request.outputs) {
+        await fs.remove(path.join(request.projectPath, output));
+      }
+      const artifacts = await this.fetch(`/jobs/${id}/artifacts`, { signal });
+      await extractOutputs(Buffer.from(await artifacts.arrayBuffer()), request.projectPath, request.outputs);
+    }
+    return exitCode;
+  }
+
+  /**
+   * Forward log lines until the worker reports the exit code
+   */
+  private async streamLog(jobId: string, onOutput: OutputListener, signal: AbortSignal): Promise<number | null> {
+    const response = await this.fetch(`/jobs/${jobId}/log`, { signal });
+    const decoder = new TextDecoder();
+    let buffered = '';
+
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffered += decoder.decode(chunk, { stream: true });
+
+      let newline: number;
+      while ((newline = buffered.indexOf('\n')) !== -1) {
+        const line = buffered.slice(0, newline).trim();
+        buffered = buffered.slice(newline + 1);
+        if (!line) {
+          continue;
+        }
+
+        const event = JSON.parse(line) as RemoteLogEvent;
+        if ('exitCode' in event) {
+          return event.exitCode;
+        }
+        onOutput(event.stream, event.text);
+      }
+    }
+
+    throw new Error('Build worker closed the log before the build finished');
+  }
+
+  private async fetch(pathname: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${pathname}`, {
+      ...init,
+      headers: {
+        ...(init.headers as Record<string, string> | undefined),
+        ...(this.options.token ? { Authorization: `Bearer ${this.options.token}` } : {}),
+      },
+    });
+    if (!response.ok) {
+      const detail = (await response.text()).trim();
+      throw new Error(`Build worker responded ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+    return response;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Archives
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * ZIP a project for submission. Build directories of Gradle modules
+ * are left out along with EXCLUDED_ENTRIES; of AppForge's metadata only
+ * the init scripts the build runs are sent.
+ */
+export async function packProject(projectPath: string): Promise<Buffer> {
+  const entries = await readTree(projectPath, '', true);
+
+  for (const script of [DEPENDENCY_INIT_SCRIPT_FILE, PROFILE_INIT_SCRIPT_FILE]) {
+    const initScript = path.join(projectPath, script);
+    if (await fs.pathExists(initScript)) {
+      entries.push({ name: toEntryPath(script), data: await fs.readFile(initScript) });
+    }
+  }
+
+  return writeZip(entries);
+}
+
+/**
+ * ZIP the given project-relative directories
+ */
+export async function packOutputs(projectPath: string, outputs: string[]): Promise<Buffer> {
+  const entries: ZipEntry[] = [];
+  for (const output of outputs) {
+    if (await fs.pathExists(path.join(projectPath, output))) {
+      entries.push(...(await readTree(projectPath, toEntryPath(output), false)));
+    }
+  }
+  return writeZip(entries);
+}
+
+/**
+ * Extract an archive into a directory. Throws on entries that would
+ * land outside it.
+ */
+export async function extractArchive(archive: Buffer, targetPath: string): Promise<void> {
+  await extractOutputs(archive, targetPath, null);
+}
+
+/**
+ * Extract an archive, keeping only entries inside `outputs` when given
+ */
+async function extractOutputs(archive: Buffer, targetPath: string, outputs: string[] | null): Promise<void> {
+  const prefixes = outputs?.map((output) => `${toEntryPath(output)}/`);
+
+  for (const entry of readZip(archive)) {
+    if (!isSafeEntryPath(entry.name)) {
+      throw new Error(`Unsafe path in archive: ${entry.name}`);
+    }
+    if (prefixes && !prefixes.some((prefix) => entry.name.startsWith(prefix))) {
+      continue;
+    }
+    await fs.outputFile(path.join(targetPath, ...entry.name.split('/')), entry.data);
+  }
+}
+
+/**
+ * Read every file below `relative` as archive entries
+ */
+async function readTree(root: string, relative: string, excludeBuildState: boolean): Promise<ZipEntry[]> {
+  const names = await fs.readdir(path.join(root, relative));
+  const isModule = names.includes('build.gradle') || names.includes('build.gradle.kts');
+  const entries: ZipEntry[] = [];
+
+  for (const name of names) {
+    if (excludeBuildState && (EXCLUDED_ENTRIES.has(name) || (isModule && name === 'build'))) {
+      continue;
+    }
+
+    const entryPath = relative ? `${relative}/${name}` : name;
+    const filePath = path.join(root, entryPath);
+    const stat = await fs.stat(filePath);
+    if (stat.isDirectory()) {
+      entries.push(...(await readTree(root, entryPath, excludeBuildState)));
+    } else if (stat.isFile()) {
+      entries.push({ name: entryPath, data: await fs.readFile(filePath) });
+    }
+  }
+
+  return entries;
+}
+
+function toEntryPath(relativePath: string): string {
+  return relativePath.split(path.sep).join('/').replace(/\/+$/, '');
+}
+
+export default RemoteExecutor;
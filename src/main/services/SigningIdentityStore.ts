@@ -0,0 +1,159 @@
+/**
+ * SigningIdentityStore.ts - Signing Vault Persistence
+ *
+ * Stores the vault's key derivation parameters, sealed signing
+ * identities and their assignment to apps in SQLite.
+ */
+
+import type { DatabaseService } from '../database/Database';
+import type { SigningIdentity } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parameters needed to re-derive the vault key from the passphrase
+ */
+export interface VaultRecord {
+  salt: string;
+  verifier: string;
+}
+
+/**
+ * An identity as persisted, with its key material sealed
+ */
+export interface StoredSigningIdentity extends Omit<SigningIdentity, 'appIds'> {
+  secret: string;
+}
+
+/**
+ * Persistence used by the signing vault
+ */
+export interface SigningIdentityStore {
+  getVault(): VaultRecord | undefined;
+  /** Replace the vault record and every sealed secret at once */
+  rekey(vault: VaultRecord, secrets: Map<string, string>): void;
+  insert(identity: StoredSigningIdentity): void;
+  get(id: string): StoredSigningIdentity | undefined;
+  list(): StoredSigningIdentity[];
+  /** Removes the identity and unassigns it from its apps */
+  delete(id: string): void;
+  /** Returns false when the app does not exist */
+  assign(appId: string, identityId: string | null): boolean;
+  identityForApp(appId: string): string | undefined;
+  /** App ids by identity id */
+  assignments(): Map<string, string[]>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SqliteSigningIdentityStore Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Signing vault persistence backed by the app database
+ */
+export class SqliteSigningIdentityStore implements SigningIdentityStore {
+  constructor(private database: DatabaseService) {}
+
+  getVault(): VaultRecord | undefined {
+    return this.database.get<VaultRecord>('SELECT salt, verifier FROM signing_vault WHERE id = 1');
+  }
+
+  rekey(vault: VaultRecord, secrets: Map<string, string>): void {
+    this.database.transaction(() => {
+      this.database.run(`
+        INSERT INTO signing_vault (id, salt, verifier) VALUES (1, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET salt = excluded.salt, verifier = excluded.verifier
+      `, [vault.salt, vault.verifier]);
+
+      for (const [id, secret] of secrets) {
+        this.database.run('UPDATE signing_identities SET secret = ? WHERE id = ?', [secret, id]);
+      }
+    });
+  }
+
+  insert(identity: StoredSigningIdentity): void {
+    this.database.run(`
+      INSERT INTO signing_identities (
+        id, name, kind, alias, subject, sha1, sha256, valid_until, secret, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      identity.id,
+      identity.name,
+      identity.kind,
+      identity.alias,
+      identity.subject,
+      identity.sha1,
+      identity.sha256,
+      identity.validUntil?.toISOString() ?? null,
+      identity.secret,
+      identity.createdAt.toISOString(),
+    ]);
+  }
+
+  get(id: string): StoredSigningIdentity | undefined {
+    const row = this.database.get<Record<string, unknown>>('SELECT * FROM signing_identities WHERE id = ?', [id]);
+    return row ? fromRow(row) : undefined;
+  }
+
+  list(): StoredSigningIdentity[] {
+    return this.database
+      .all<Record<string, unknown>>('SELECT * FROM signing_identities ORDER BY created_at')
+      .map(fromRow);
+  }
+
+  delete(id: string): void {
+    this.database.transaction(() => {
+      this.database.run('UPDATE apps SET signing_identity_id = NULL WHERE signing_identity_id = ?', [id]);
+      this.database.run('DELETE FROM signing_identities WHERE id = ?', [id]);
+    });
+  }
+
+  assign(appId: string, identityId: string | null): boolean {
+    const result = this.database.run('UPDATE apps SET signing_identity_id = ? WHERE id = ?', [identityId, appId]);
+    return result.changes > 0;
+  }
+
+  identityForApp(appId: string): string | undefined {
+    const row = this.database.get<{ signing_identity_id: string | null }>(
+      'SELECT signing_identity_id FROM apps WHERE id = ?',
+      [appId]
+    );
+    return row?.signing_identity_id ?? undefined;
+  }
+
+  assignments(): Map<string, string[]> {
+    const rows = this.database.all<{ id: string; signing_identity_id: string }>(
+      'SELECT id, signing_identity_id FROM apps WHERE signing_identity_id IS NOT NULL'
+    );
+
+    const assignments = new Map<string, string[]>();
+    for (const row of rows) {
+      assignments.set(row.signing_identity_id, [...(assignments.get(row.signing_identity_id) ?? []), row.id]);
+    }
+    return assignments;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function fromRow(row: Record<string, unknown>): StoredSigningIdentity {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    kind: row.kind as StoredSigningIdentity['kind'],
+    alias: row.alias as string,
+    subject: row.subject as string,
+    sha1: row.sha1 as string,
+    sha256: row.sha256 as string,
+    validUntil: row.valid_until ? new Date(row.valid_until as string) : undefined,
+    secret: row.secret as string,
+    createdAt: new Date(row.created_at as string),
+  };
+}
+
+export default SqliteSigningIdentityStore;
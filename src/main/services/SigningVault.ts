@@ -0,0 +1,302 @@
+/**
+ * SigningVault.ts - Encrypted Signing Identity Storage
+ *
+ * Keeps keystores and their passwords encrypted at rest. A key derived
+ * from the master passphrase with scrypt seals each identity with
+ * AES-256-GCM; the key is held in memory only while the vault is
+ * unlocked. Certificate details stay readable so identities can be
+ * listed and assigned to apps while the vault is locked.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import { Keytool, KeystoreTool, CertificateInfo, distinguishedName } from './Keytool';
+import type { SigningIdentityStore, StoredSigningIdentity } from './SigningIdentityStore';
+import type {
+  GenerateSigningIdentityRequest,
+  ImportSigningIdentityRequest,
+  SigningIdentity,
+  SigningVaultState,
+} from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Everything Gradle needs to sign with an identity
+ */
+export interface SigningCredentials {
+  data: Buffer;
+  password: string;
+  alias: string;
+  keyPassword: string;
+}
+
+/**
+ * Contents of a sealed identity
+ */
+interface IdentitySecret {
+  keystore: string;
+  storePassword: string;
+  keyPassword: string;
+}
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const DEFAULT_VALIDITY_YEARS = 25;
+
+/**
+ * scrypt cost; derivation takes a fraction of a second, once per unlock
+ */
+const SCRYPT_OPTIONS: crypto.ScryptOptions = { N: 1 << 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Plaintext sealed into the vault record to check passphrases
+ */
+const VERIFIER = Buffer.from('appforge-signing-vault');
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Encryption
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Derive the vault key from a passphrase
+ */
+export function deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase, salt, KEY_LENGTH, SCRYPT_OPTIONS, (error, key) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(key);
+      }
+    });
+  });
+}
+
+/**
+ * Encrypt and authenticate data; returns base64 of IV, tag and ciphertext
+ */
+export function seal(key: Buffer, data: Buffer): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+/**
+ * Reverse seal(). Throws when the key is wrong or the data was altered.
+ */
+export function unseal(key: Buffer, sealed: string): Buffer {
+  const bytes = Buffer.from(sealed, 'base64');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, bytes.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(bytes.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  try {
+    return Buffer.concat([decipher.update(bytes.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+  } catch {
+    throw new Error('Could not decrypt vault data');
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SigningVault Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class SigningVault {
+  private key: Buffer | null = null;
+
+  constructor(private store: SigningIdentityStore, private tool: KeystoreTool = new Keytool()) {}
+
+  getState(): SigningVaultState {
+    return { initialized: this.store.getVault() !== undefined, unlocked: this.key !== null };
+  }
+
+  /**
+   * Unlock the vault. The first unlock sets the master passphrase.
+   */
+  async unlock(passphrase: string): Promise<SigningVaultState> {
+    const vault = this.store.getVault();
+
+    if (!vault) {
+      assertPassphrase(passphrase);
+      const salt = crypto.randomBytes(16);
+      const key = await deriveKey(passphrase, salt);
+      this.store.rekey({ salt: salt.toString('base64'), verifier: seal(key, VERIFIER) }, new Map());
+      this.key = key;
+      return this.getState();
+    }
+
+    const key = await deriveKey(passphrase, Buffer.from(vault.salt, 'base64'));
+    try {
+      unseal(key, vault.verifier);
+    } catch {
+      throw new Error('Incorrect passphrase');
+    }
+    this.key = key;
+    return this.getState();
+  }
+
+  lock(): SigningVaultState {
+    this.key?.fill(0);
+    this.key = null;
+    return this.getState();
+  }
+
+  /**
+   * Re-encrypt every identity under a new passphrase
+   */
+  async changePassphrase(current: string, next: string): Promise<void> {
+    if (!this.store.getVault()) {
+      throw new Error('Signing vault has no passphrase yet');
+    }
+    assertPassphrase(next);
+    await this.unlock(current);
+    const oldKey = this.requireKey();
+
+    const salt = crypto.randomBytes(16);
+    const key = await deriveKey(next, salt);
+    const secrets = new Map(
+      this.store.list().map((identity) => [identity.id, seal(key, unseal(oldKey, identity.secret))])
+    );
+
+    this.store.rekey({ salt: salt.toString('base64'), verifier: seal(key, VERIFIER) }, secrets);
+    oldKey.fill(0);
+    this.key = key;
+  }
+
+  list(): SigningIdentity[] {
+    const assignments = this.store.assignments();
+    return this.store.list().map((identity) => toIdentity(identity, assignments.get(identity.id) ?? []));
+  }
+
+  /**
+   * Create a new keystore with a random password
+   */
+  async generate(request: GenerateSigningIdentityRequest): Promise<SigningIdentity> {
+    this.requireKey();
+    const password = crypto.randomBytes(24).toString('base64url');
+
+    const keystore = await this.tool.generate({
+      alias: request.alias,
+      distinguishedName: distinguishedName(request),
+      validityDays: Math.round((request.validityYears ?? DEFAULT_VALIDITY_YEARS) * 365),
+      password,
+    });
+    const certificate = await this.tool.certificate(keystore, request.alias, password);
+
+    return this.add(request, request.alias, certificate, {
+      keystore: keystore.toString('base64'),
+      storePassword: password,
+      keyPassword: password,
+    });
+  }
+
+  /**
+   * Move an existing keystore into the vault. The original file is left
+   * in place for the user to delete or back up.
+   */
+  async import(request: ImportSigningIdentityRequest): Promise<SigningIdentity> {
+    this.requireKey();
+    const keystore = await fs.readFile(request.keystorePath);
+    const certificate = await this.tool.certificate(keystore, request.alias, request.storePassword);
+
+    return this.add(request, request.alias, certificate, {
+      keystore: keystore.toString('base64'),
+      storePassword: request.storePassword,
+      keyPassword: request.keyPassword,
+    });
+  }
+
+  delete(id: string): boolean {
+    if (!this.store.get(id)) {
+      return false;
+    }
+    this.store.delete(id);
+    return true;
+  }
+
+  /**
+   * Sign an app's release builds with an identity, or with none
+   */
+  assign(appId: string, identityId: string | null): void {
+    if (identityId !== null && !this.store.get(identityId)) {
+      throw new Error(`Signing identity ${identityId} not found`);
+    }
+    if (!this.store.assign(appId, identityId)) {
+      throw new Error(`App with id ${appId} not found`);
+    }
+  }
+
+  /**
+   * Identity assigned to an app, if any
+   */
+  identityForApp(appId: string): string | undefined {
+    return this.store.identityForApp(appId);
+  }
+
+  /**
+   * Decrypt the credentials of an identity; the vault must be unlocked
+   */
+  credentials(identityId: string): SigningCredentials {
+    const key = this.requireKey();
+    const identity = this.store.get(identityId);
+    if (!identity) {
+      throw new Error(`Signing identity ${identityId} not found`);
+    }
+
+    const secret = JSON.parse(unseal(key, identity.secret).toString('utf-8')) as IdentitySecret;
+    return {
+      data: Buffer.from(secret.keystore, 'base64'),
+      password: secret.storePassword,
+      alias: identity.alias,
+      keyPassword: secret.keyPassword,
+    };
+  }
+
+  private add(
+    request: { name: string; kind: SigningIdentity['kind'] },
+    alias: string,
+    certificate: CertificateInfo,
+    secret: IdentitySecret
+  ): SigningIdentity {
+    const identity: StoredSigningIdentity = {
+      id: crypto.randomUUID(),
+      name: request.name,
+      kind: request.kind,
+      alias,
+      ...certificate,
+      secret: seal(this.requireKey(), Buffer.from(JSON.stringify(secret), 'utf-8')),
+      createdAt: new Date(),
+    };
+    this.store.insert(identity);
+    return toIdentity(identity, []);
+  }
+
+  private requireKey(): Buffer {
+    if (!this.key) {
+      throw new Error('Signing vault is locked');
+    }
+    return this.key;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function assertPassphrase(passphrase: string): void {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+}
+
+function toIdentity(identity: StoredSigningIdentity, appIds: string[]): SigningIdentity {
+  const { secret: _secret, ...rest } = identity;
+  return { ...rest, appIds };
+}
+
+export default SigningVault;
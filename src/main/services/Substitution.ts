@@ -0,0 +1,131 @@
+/**
+ * Substitution.ts - Placeholder Replacement Modes
+ *
+ * Replaces morph point patterns without letting user values be read as
+ * `$&`/`$1` replacement tokens, and escapes values for the syntax of the
+ * file they land in.
+ */
+
+import * as path from 'path';
+import type { SubstitutionMode } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const SUBSTITUTION_MODES: SubstitutionMode[] = ['literal', 'regex', 'xml', 'kotlin', 'java', 'json'];
+
+/**
+ * Escaping applied by default for each target file extension
+ */
+const MODE_BY_EXTENSION: Record<string, SubstitutionMode> = {
+  '.xml': 'xml',
+  '.kt': 'kotlin',
+  '.kts': 'kotlin',
+  '.java': 'java',
+  '.json': 'json',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Escaping
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Escape a value for Android XML resources. Quotes are escaped as
+ * `\&quot;` / `\'` so the result is valid both as element text and inside
+ * a double-quoted attribute, and survives aapt's string processing.
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '\\&quot;')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')
+    .replace(/^([@?])/, '\\$1');
+}
+
+/**
+ * Escape a value for use inside a Kotlin string literal, where `$` starts
+ * a string template
+ */
+export function escapeKotlinString(value: string): string {
+  return escapeJavaString(value).replace(/\$/g, '\\$');
+}
+
+/**
+ * Escape a value for use inside a Java string literal. `\$` is not a Java
+ * escape, so dollar signs are left as they are.
+ */
+export function escapeJavaString(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+/**
+ * Escape a value for use inside a JSON string literal
+ */
+export function escapeJsonString(value: string): string {
+  return JSON.stringify(value).slice(1, -1);
+}
+
+/**
+ * Escape a value for the given mode; literal and regex insert it verbatim
+ */
+export function escapeValue(value: string, mode: SubstitutionMode): string {
+  switch (mode) {
+    case 'xml':
+      return escapeXml(value);
+    case 'kotlin':
+      return escapeKotlinString(value);
+    case 'java':
+      return escapeJavaString(value);
+    case 'json':
+      return escapeJsonString(value);
+    default:
+      return value;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Matching and Replacement
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Pick the escaping mode for a target file from its extension
+ */
+export function inferSubstitutionMode(filePath: string): SubstitutionMode {
+  return MODE_BY_EXTENSION[path.extname(filePath).toLowerCase()] ?? 'literal';
+}
+
+/**
+ * Build a global matcher for a pattern. Only `regex` mode treats the
+ * pattern as a regular expression; every other mode matches it verbatim.
+ */
+export function createMatcher(pattern: string, mode: SubstitutionMode): RegExp {
+  return mode === 'regex'
+    ? new RegExp(pattern, 'g')
+    : new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g');
+}
+
+/**
+ * Replace every match of `pattern` in `content` with the escaped value.
+ * The replacement is inserted as-is, so `$&` or `$1` in values are kept.
+ */
+export function substitute(
+  content: string,
+  pattern: string,
+  value: string,
+  mode: SubstitutionMode
+): string {
+  const replacement = escapeValue(value, mode);
+  return content.replace(createMatcher(pattern, mode), () => replacement);
+}
+
+export default substitute;
@@ -10,23 +10,41 @@ import * as yaml from 'yaml';
 import Handlebars from 'handlebars';
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import { MorphValidator, ValidationRule, MorphFieldError } from './MorphValidator';
+import { createUnifiedDiff } from './TextDiff';
+import { createPackage, openPackage, TrustedPublisher, PackageSigningKey } from './TemplatePackage';
+import type { ZipEntry } from './ZipArchive';
+import { lintTemplateSource } from './TemplateLinter';
+import type {
+  InstantiationPlan,
+  PlannedFile,
+  MorphPointPlan,
+  FileDiff,
+  PathMove,
+  LineRange,
+  MorphPoint,
+  MorphPointType,
+  MorphPointValue,
+  MorphValue,
+  MorphValueChange,
+  AppMigrationPlan,
+  TemplateDiagnostic,
+  TemplateLintResult,
+} from '../../shared/types';
+import {
+  applyBlockToggle,
+  formatList,
+  formatNumber,
+  toBoolean,
+  toList,
+} from './MorphValues';
+import { createMatcher, inferSubstitutionMode, substitute } from './Substitution';
+import { writeSourceMap, ProjectSourceMap } from './ProjectSourceMap';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Interfaces
 // ─────────────────────────────────────────────────────────────────────────────
 
-/**
- * Represents a single morph point within a template
- */
-export interface MorphPoint {
-  id: string;
-  type: 'text' | 'color' | 'image' | 'resource' | 'string' | 'layout';
-  path: string;
-  pattern: string;
-  required: boolean;
-  default?: string;
-}
-
 /**
  * Template metadata and configuration
  */
@@ -43,6 +61,58 @@ export interface Template {
   tags: string[];
   minSdkVersion: number;
   targetSdkVersion: number;
+  validations: ValidationRule[];
+  extends?: string;
+  partials: string[];
+  sourceLayers: string[];
+  abstract: boolean;
+  fileRules: TemplateFileRule[];
+  migrations: TemplateMigration[];
+}
+
+/**
+ * A `migrations` entry in morph.yaml: how stored morph values change when
+ * an app is rebased onto `version` from any earlier version
+ */
+export interface TemplateMigration {
+  version: string;
+  renamed: Record<string, string>;
+  removed: string[];
+  defaults: Record<string, MorphPointValue>;
+}
+
+/**
+ * A `files` entry in morph.yaml. `when` includes the file or directory at
+ * `path` only if the named value is truthy (prefix with `!` to negate);
+ * `each` repeats it once per list item, written to the Handlebars path `to`.
+ */
+export interface TemplateFileRule {
+  path: string;
+  when?: string;
+  each?: string;
+  as: string;
+  to?: string;
+}
+
+/**
+ * Raw morph.yaml contents before inheritance is resolved
+ */
+interface TemplateDefinition {
+  id: string;
+  version: string;
+  path: string;
+  data: any;
+}
+
+/**
+ * Reusable morph points and file tree shared between templates
+ */
+interface PartialDefinition {
+  name: string;
+  path: string;
+  morphPoints: MorphPoint[];
+  validations: ValidationRule[];
+  fileRules: TemplateFileRule[];
 }
 
 /**
@@ -53,9 +123,58 @@ export interface MorphConfig {
   packageName: string;
   versionName: string;
   versionCode: number;
-  values: Record<string, string | number | boolean>;
+  values: Record<string, MorphPointValue>;
+}
+
+/**
+ * A file in the in-memory project tree being morphed.
+ * `content` is null for binary files, which are copied from `sourcePath`.
+ */
+interface TreeFile {
+  sourcePath: string;
+  originalSourcePath: string;
+  originalPath: string | null;
+  original: string | null;
+  content: string | null;
+}
+
+/**
+ * Project files keyed by forward-slash path relative to the project root
+ */
+type ProjectTree = Map<string, TreeFile>;
+
+/**
+ * Morph point types whose values are plain text and get escaped for the
+ * target file by default. Other types render code or markup themselves.
+ */
+const ESCAPED_TYPES: MorphPointType[] = ['text', 'string'];
+
+/**
+ * Options for importing an .afz template package
+ */
+export interface TemplateImportOptions {
+  requireSignature?: boolean;
+  overwrite?: boolean;
 }
 
+/**
+ * An installed template and the trusted publisher that signed its package
+ */
+export interface TemplateImportResult {
+  template: Template;
+  signedBy: string | null;
+}
+
+/**
+ * Folder under the templates directory that holds partials
+ */
+const PARTIALS_DIR = '_partials';
+
+/**
+ * Built-in checks whose messages already name the offending field
+ */
+const CORE_CHECKS = new Set(['required', 'package_format', 'version_code', 'app_name']);
+
 // ─────────────────────────────────────────────────────────────────────────────
 // TemplateEngine Class
 // ─────────────────────────────────────────────────────────────────────────────
@@ -72,12 +191,16 @@ export interface MorphConfig {
 export class TemplateEngine extends EventEmitter {
   private templatesDir: string;
   private templates: Map<string, Template> = new Map();
+  private templateVersions: Map<string, Template> = new Map();
   private handlebars: typeof Handlebars;
+  private validator: MorphValidator;
+  private trustedPublishers: TrustedPublisher[] = [];
 
   constructor(templatesDir: string) {
     super();
     this.templatesDir = templatesDir;
     this.handlebars = Handlebars.create();
+    this.validator = new MorphValidator();
     this.registerHelpers();
   }
 
@@ -128,21 +251,34 @@ export class TemplateEngine extends EventEmitter {
   }
 
   /**
-   * Load all templates from the templates directory
+   * Load all templates from the templates directory.
+   * Definitions are read first so `extends` can refer to any template,
+   * then each one is resolved against its base and partials.
    */
   async loadTemplates(): Promise<void> {
     this.templates.clear();
+    this.templateVersions.clear();
+    const definitions = new Map<string, TemplateDefinition>();
     const templateDirs = await fs.readdir(this.templatesDir);
 
     for (const dir of templateDirs) {
+      // Underscore-prefixed folders hold partials, not templates
+      if (dir.startsWith('_')) {
+        continue;
+      }
+
       const templatePath = path.join(this.templatesDir, dir);
       const stat = await fs.stat(templatePath);
 
       if (stat.isDirectory()) {
         try {
-          const template = await this.loadTemplate(templatePath);
-          this.templates.set(template.id, template);
-          this.emit('template:loaded', template);
+          const definition = await this.readDefinition(templatePath);
+          const key = templateKey(definition.id, definition.version);
+          const duplicate = definitions.get(key);
+          if (duplicate) {
+            throw new Error(`Template ${key} is already installed at ${duplicate.path}`);
+          }
+          definitions.set(key, definition);
         } catch (error) {
           this.emit('error', { 
             type: 'template:load', 
@@ -152,12 +288,44 @@ export class TemplateEngine extends EventEmitter {
         }
       }
     }
+
+    const resolved = new Map<string, Template>();
+    const partials = new Map<string, PartialDefinition>();
+
+    for (const definition of definitions.values()) {
+      try {
+        const template = await this.resolveTemplate(
+          definition,
+          definitions,
+          resolved,
+          partials,
+          []
+        );
+
+        if (!template.abstract) {
+          this.templateVersions.set(templateKey(template.id, template.version), template);
+
+          // The unversioned id always refers to the newest installed version
+          const latest = this.templates.get(template.id);
+          if (!latest || compareVersions(template.version, latest.version) > 0) {
+            this.templates.set(template.id, template);
+          }
+          this.emit('template:loaded', template);
+        }
+      } catch (error) {
+        this.emit('error', { 
+          type: 'template:load', 
+          path: definition.path, 
+          error 
+        });
+      }
+    }
   }
 
   /**
-   * Load a single template from its directory
+   * Read a template's morph.yaml without resolving inheritance
    */
-  private async loadTemplate(templatePath: string): Promise<Template> {
+  private async readDefinition(templatePath: string): Promise<TemplateDefinition> {
     const morphYamlPath = path.join(templatePath, 'morph.yaml');
 
     if (!await fs.pathExists(morphYamlPath)) {
@@ -165,23 +333,163 @@ export class TemplateEngine extends EventEmitter {
     }
 
     const morphContent = await fs.readFile(morphYamlPath, 'utf-8');
-    const morphData = yaml.parse(morphContent);
+    const data = yaml.parse(morphContent) ?? {};
+
+    return {
+      id: data.id || path.basename(templatePath),
+      version: String(data.version || '1.0.0'),
+      path: templatePath,
+      data,
+    };
+  }
+
+  /**
+   * Resolve a template definition against its base template and partials
+   */
+  private async resolveTemplate(
+    definition: TemplateDefinition,
+    definitions: Map<string, TemplateDefinition>,
+    resolved: Map<string, Template>,
+    partials: Map<string, PartialDefinition>,
+    chain: string[]
+  ): Promise<Template> {
+    const key = templateKey(definition.id, definition.version);
+    const cached = resolved.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    if (chain.includes(key)) {
+      const ids = [...chain, key].map((entry) => entry.slice(0, entry.lastIndexOf('@')));
+      throw new Error(`Template inheritance cycle: ${ids.join(' -> ')}`);
+    }
+
+    const morphData = definition.data;
+    let base: Template | undefined;
+
+    if (morphData.extends) {
+      const baseDefinition = findDefinition(definitions, String(morphData.extends));
+      if (!baseDefinition) {
+        throw new Error(
+          `Base template not found: ${morphData.extends} (extended by ${definition.id})`
+        );
+      }
+      base = await this.resolveTemplate(
+        baseDefinition,
+        definitions,
+        resolved,
+        partials,
+        [...chain, key]
+      );
+    }
+
+    const partialNames: string[] = morphData.partials || [];
+    const loadedPartials: PartialDefinition[] = [];
+    for (const name of partialNames) {
+      loadedPartials.push(await this.loadPartial(name, partials));
+    }
+
+    const template = this.buildTemplate(definition, base, loadedPartials);
+    resolved.set(key, template);
+    return template;
+  }
+
+  /**
+   * Load a partial from templates/_partials/<name>, caching by name
+   */
+  private async loadPartial(
+    name: string,
+    partials: Map<string, PartialDefinition>
+  ): Promise<PartialDefinition> {
+    const cached = partials.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    const partialPath = path.join(this.templatesDir, PARTIALS_DIR, name);
+    const partialYamlPath = path.join(partialPath, 'partial.yaml');
+
+    if (!await fs.pathExists(partialPath)) {
+      throw new Error(`Partial not found: ${name}`);
+    }
+
+    const data = await fs.pathExists(partialYamlPath)
+      ? yaml.parse(await fs.readFile(partialYamlPath, 'utf-8')) ?? {}
+      : {};
+
+    const partial: PartialDefinition = {
+      name,
+      path: partialPath,
+      morphPoints: this.parseMorphPoints(data.morph_points || []),
+      validations: MorphValidator.parseRules(data.validations || []),
+      fileRules: this.parseFileRules(data.files || []),
+    };
+
+    partials.set(name, partial);
+    return partial;
+  }
+
+  /**
+   * Build the merged template. Base values are inherited unless the child
+   * sets them; partials and then the child override morph points by id,
+   * and src trees are overlaid base -> partials -> child.
+   */
+  private buildTemplate(
+    definition: TemplateDefinition,
+    base: Template | undefined,
+    partials: PartialDefinition[]
+  ): Template {
+    const morphData = definition.data;
+    const templatePath = definition.path;
+
+    const morphPoints = mergeById(
+      [
+        ...(base?.morphPoints ?? []),
+        ...partials.flatMap((partial) => partial.morphPoints),
+        ...this.parseMorphPoints(morphData.morph_points || []),
+      ]
+    );
+
+    const validations = mergeValidations([
+      ...(base?.validations ?? []),
+      ...partials.flatMap((partial) => partial.validations),
+      ...MorphValidator.parseRules(morphData.validations || []),
+    ]);
+
+    const fileRules = [
+      ...(base?.fileRules ?? []),
+      ...partials.flatMap((partial) => partial.fileRules),
+      ...this.parseFileRules(morphData.files || []),
+    ];
+
+    const sourceLayers = [
+      ...(base?.sourceLayers ?? []),
+      ...partials.map((partial) => path.join(partial.path, 'src')),
+      path.join(templatePath, 'src'),
+    ];
 
     const template: Template = {
-      id: morphData.id || path.basename(templatePath),
-      name: morphData.name,
-      description: morphData.description || '',
-      category: morphData.category || 'general',
+      id: definition.id,
+      name: morphData.name ?? base?.name,
+      description: morphData.description || base?.description || '',
+      category: morphData.category || base?.category || 'general',
       version: morphData.version || '1.0.0',
-      author: morphData.author || 'Unknown',
-      morphPoints: this.parseMorphPoints(morphData.morph_points || []),
+      author: morphData.author || base?.author || 'Unknown',
+      morphPoints,
       basePath: templatePath,
       previewImage: morphData.preview_image 
         ? path.join(templatePath, morphData.preview_image) 
-        : undefined,
-      tags: morphData.tags || [],
-      minSdkVersion: morphData.min_sdk_version || 21,
-      targetSdkVersion: morphData.target_sdk_version || 34,
+        : base?.previewImage,
+      tags: [...new Set([...(base?.tags ?? []), ...(morphData.tags || [])])],
+      minSdkVersion: morphData.min_sdk_version || base?.minSdkVersion || 21,
+      targetSdkVersion: morphData.target_sdk_version || base?.targetSdkVersion || 34,
+      validations,
+      extends: morphData.extends,
+      partials: partials.map((partial) => partial.name),
+      sourceLayers,
+      abstract: morphData.abstract === true,
+      fileRules,
+      migrations: this.parseMigrations(morphData.migrations || []),
     };
 
     return template;
@@ -193,13 +501,65 @@ export class TemplateEngine extends EventEmitter {
   private parseMorphPoints(points: any[]): MorphPoint[] {
     return points.map((point) => ({
       id: point.id,
+      label: point.label || point.id,
       type: point.type || 'text',
       path: point.path,
       pattern: point.pattern,
+      mode: point.mode,
       required: point.required ?? true,
       default: point.default,
+      description: point.description,
+      validation: point.validation,
+      format: point.format,
+      files: point.files,
+      unit: point.unit,
+      outputUnit: point.output_unit,
+      resourcePrefix: point.resource_prefix,
+      arrayPath: point.array_path,
     }));
   }
+  /**
+   * Parse conditional and repeated file rules from YAML data
+   */
+  private parseFileRules(rules: any[]): TemplateFileRule[] {
+    return rules.map((rule) => {
+      if (!rule.path) {
+        throw new Error('File rule is missing a path');
+      }
+      if (rule.each && !rule.to) {
+        throw new Error(`File rule for ${rule.path} repeats over ${rule.each} but has no "to" path`);
+      }
+
+      return {
+        path: rule.path,
+        when: rule.when,
+        each: rule.each,
+        as: rule.as || 'item',
+        to: rule.to,
+      };
+    });
+  }
+  /**
+   * Parse value migrations from YAML data, oldest first
+   */
+  private parseMigrations(migrations: any[]): TemplateMigration[] {
+    return migrations
+      .map((migration) => {
+        if (!migration.version) {
+          throw new Error('Template migration is missing a version');
+        }
+
+        return {
+          version: String(migration.version),
+          renamed: migration.renamed || {},
+          removed: migration.removed || [],
+          defaults: migration.defaults || {},
+        };
+      })
+      .sort((a, b) => compareVersions(a.version, b.version));
+  }
+
+
 
   /**
    * Get list of all available templates
@@ -209,44 +569,264 @@ export class TemplateEngine extends EventEmitter {
   }
 
   /**
-   * Get a specific template by ID
+   * Lint a template directory for authoring mistakes: schema errors,
+   * morph points whose file or pattern is missing, uncovered `{{FOO}}`
+   * placeholders, SDK version problems and a missing preview image.
+   * A base template named by `extends` must already be loaded.
+   */
+  async lintTemplate(templatePath: string): Promise<TemplateLintResult> {
+    const morphYamlPath = path.join(templatePath, 'morph.yaml');
+    if (!await fs.pathExists(morphYamlPath)) {
+      return lintResult([
+        { file: 'morph.yaml', severity: 'error', rule: 'missing-morph-yaml', message: `morph.yaml not found in ${templatePath}` },
+      ]);
+    }
+
+    const morphYaml = await fs.readFile(morphYamlPath, 'utf-8');
+    let data: any = {};
+    try {
+      data = yaml.parse(morphYaml) ?? {};
+    } catch {
+      // Syntax errors are reported with positions by the linter
+    }
+
+    const diagnostics: TemplateDiagnostic[] = [];
+    const layers: string[] = [];
+    const inheritedPoints: MorphPoint[] = [];
+
+    if (typeof data.extends === 'string') {
+      const base = this.getTemplate(data.extends);
+      if (base) {
+        layers.push(...base.sourceLayers);
+        inheritedPoints.push(...base.morphPoints);
+      } else {
+        diagnostics.push({ file: 'morph.yaml', severity: 'error', rule: 'missing-base', message: `Base template not found: ${data.extends}` });
+      }
+    }
+
+    for (const name of Array.isArray(data.partials) ? data.partials : []) {
+      try {
+        const partial = await this.loadPartial(String(name), new Map());
+        layers.push(path.join(partial.path, 'src'));
+        inheritedPoints.push(...partial.morphPoints);
+      } catch (error) {
+        diagnostics.push({ file: 'morph.yaml', severity: 'error', rule: 'missing-partial', message: (error as Error).message });
+      }
+    }
+    layers.push(path.join(templatePath, 'src'));
+
+    const tree: ProjectTree = new Map();
+    for (const layer of layers) {
+      await this.readTree(layer, tree);
+    }
+
+    diagnostics.push(...lintTemplateSource({
+      morphYaml,
+      files: new Map([...tree].map(([filePath, file]) => [filePath, file.content])),
+      inheritedPoints,
+      previewExists: typeof data.preview_image === 'string'
+        ? await fs.pathExists(path.join(templatePath, data.preview_image))
+        : null,
+      isKnownRule: (type) => this.validator.hasRule(type),
+    }));
+
+    return lintResult(diagnostics);
+  }
+
+  /**
+   * Get a template by ID (newest version) or by `id@version`
    */
   getTemplate(templateId: string): Template | undefined {
-    return this.templates.get(templateId);
+    return templateId.includes('@')
+      ? this.templateVersions.get(templateId)
+      : this.templates.get(templateId);
+  }
+
+  /**
+   * List the installed versions of a template, oldest first
+   */
+  listTemplateVersions(templateId: string): string[] {
+    return [...this.templateVersions.values()]
+      .filter((template) => template.id === templateId)
+      .map((template) => template.version)
+      .sort(compareVersions);
+  }
+
+  /**
+   * Work out how an app's stored morph values change when it is rebased
+   * from `fromVersion` onto a newer installed version of its template.
+   * Applies every migration after `fromVersion` up to the target, then
+   * drops values the target no longer declares.
+   */
+  planMigration(
+    templateId: string,
+    fromVersion: string,
+    morphValues: MorphValue[],
+    toVersion?: string
+  ): AppMigrationPlan {
+    const target = this.getTemplate(toVersion ? templateKey(templateId, toVersion) : templateId);
+
+    if (!target) {
+      throw new Error(`Template not found: ${toVersion ? templateKey(templateId, toVersion) : templateId}`);
+    }
+    if (compareVersions(target.version, fromVersion) < 0) {
+      throw new Error(`Cannot migrate ${templateId} from ${fromVersion} down to ${target.version}`);
+    }
+
+    const values = new Map(morphValues.map((entry) => [entry.key, entry.value]));
+    const changes: MorphValueChange[] = [];
+    const steps = target.migrations.filter(
+      (migration) =>
+        compareVersions(migration.version, fromVersion) > 0 &&
+        compareVersions(migration.version, target.version) <= 0
+    );
+
+    for (const step of steps) {
+      for (const [from, to] of Object.entries(step.renamed)) {
+        if (values.has(from)) {
+          values.set(to, values.get(from)!);
+          values.delete(from);
+          changes.push({ key: to, kind: 'renamed', from, version: step.version, newValue: values.get(to) });
+        }
+      }
+      for (const key of step.removed) {
+        if (values.has(key)) {
+          changes.push({ key, kind: 'removed', version: step.version, oldValue: values.get(key) });
+          values.delete(key);
+        }
+      }
+      for (const [key, value] of Object.entries(step.defaults)) {
+        if (isMissingValue(values.get(key))) {
+          values.set(key, value);
+          changes.push({ key, kind: 'defaulted', version: step.version, newValue: value });
+        }
+      }
+    }
+
+    const declared = new Set(target.morphPoints.map((point) => point.id));
+    for (const [key, value] of [...values]) {
+      if (!declared.has(key)) {
+        values.delete(key);
+        changes.push({ key, kind: 'orphaned', version: target.version, oldValue: value });
+      }
+    }
+
+    const missingRequired = target.morphPoints
+      .filter((point) => point.required && isMissingValue(values.get(point.id)) && isMissingValue(point.default))
+      .map((point) => point.id);
+
+    return {
+      templateId,
+      fromVersion,
+      toVersion: target.version,
+      steps: steps.map((step) => step.version),
+      changes,
+      morphValues: [...values].map(([key, value]) => ({ key, value })),
+      missingRequired,
+    };
+  }
+
+  /**
+   * Get the validation rule engine, e.g. to register custom rule types
+   */
+  getValidator(): MorphValidator {
+    return this.validator;
   }
 
   /**
    * Validate a morph configuration against a template
    */
   validateMorphConfig(template: Template, config: MorphConfig): string[] {
-    const errors: string[] = [];
+    return this.validateMorphFields(template, config).map((fieldError) =>
+      CORE_CHECKS.has(fieldError.rule)
+        ? fieldError.message
+        : `${fieldError.field}: ${fieldError.message}`
+    );
+  }
+
+  /**
+   * Validate a morph configuration, returning errors keyed by field
+   * so the renderer can show them inline next to each input
+   */
+  validateMorphFields(template: Template, config: MorphConfig): MorphFieldError[] {
+    const errors: MorphFieldError[] = [];
 
     // Validate required morph points
     for (const point of template.morphPoints) {
-      if (point.required && !config.values[point.id] && !point.default) {
-        errors.push(`Missing required value for morph point: ${point.id}`);
+      if (
+        point.required &&
+        isMissingValue(config.values[point.id]) &&
+        isMissingValue(point.default)
+      ) {
+        errors.push({
+          field: point.id,
+          rule: 'required',
+          message: `Missing required value for morph point: ${point.id}`,
+        });
       }
     }
 
     // Validate package name format
     const packageRegex = /^[a-z][a-z0-9]*(\.[a-z][a-z0-9]*)+$/;
     if (!packageRegex.test(config.packageName)) {
-      errors.push('Invalid package name format. Must be like: com.example.app');
+      errors.push({
+        field: 'packageName',
+        rule: 'package_format',
+        message: 'Invalid package name format. Must be like: com.example.app',
+      });
     }
 
     // Validate version code
     if (config.versionCode < 1) {
-      errors.push('Version code must be a positive integer');
+      errors.push({
+        field: 'versionCode',
+        rule: 'version_code',
+        message: 'Version code must be a positive integer',
+      });
     }
 
     // Validate app name
     if (!config.appName || config.appName.trim().length === 0) {
-      errors.push('App name is required');
+      errors.push({
+        field: 'appName',
+        rule: 'app_name',
+        message: 'App name is required',
+      });
     }
 
+    // Apply declarative rules from morph.yaml
+    errors.push(
+      ...this.validator.validate(
+        template.validations ?? [],
+        this.resolveMorphValues(template, config)
+      )
+    );
+
     return errors;
   }
 
+  /**
+   * Merge config fields, morph point defaults and user values into
+   * a single lookup used by validation rules
+   */
+  private resolveMorphValues(
+    template: Template,
+    config: MorphConfig
+  ): Record<string, unknown> {
+    const values: Record<string, unknown> = {
+      appName: config.appName,
+      packageName: config.packageName,
+      versionName: config.versionName,
+      versionCode: config.versionCode,
+    };
+
+    for (const point of template.morphPoints) {
+      values[point.id] = config.values[point.id] ?? point.default;
+    }
+
+    return values;
+  }
+
   /**
    * Instantiate a template with the given configuration
    * Creates a new project in the output directory
@@ -256,7 +836,261 @@ export class TemplateEngine extends EventEmitter {
     config: MorphConfig,
     outputDir: string
   ): Promise<string> {
-    const template = this.templates.get(templateId);
+    const template = this.requireValidTemplate(templateId, config);
+
+    this.emit('morph:start', { templateId, config });
+
+    // Create output directory
+    await fs.ensureDir(outputDir);
+
+    const { tree, morphPoints, moves } = await this.morphTree(template, config, (current, total, point) => {
+      this.emit('morph:progress', { current, total, point });
+    });
+
+    await this.writeTree(tree, outputDir);
+    await writeSourceMap(outputDir, createSourceMap(template, tree, morphPoints, moves));
+
+    this.emit('morph:complete', { outputDir });
+    return outputDir;
+  }
+
+  /**
+   * Compute what instantiating a template would do, without touching disk.
+   * Returns the files that would be created, the lines each morph point
+   * affects, and unified diffs of every substitution and package move.
+   */
+  async planInstantiation(
+    templateId: string,
+    config: MorphConfig
+  ): Promise<InstantiationPlan> {
+    const template = this.requireValidTemplate(templateId, config);
+    const { tree, morphPoints, moves } = await this.morphTree(template, config);
+
+    const files: PlannedFile[] = [];
+    const diffs: FileDiff[] = [];
+
+    for (const [filePath, file] of tree) {
+      files.push({
+        path: filePath,
+        source: file.sourcePath,
+        binary: file.content === null,
+      });
+
+      if (file.originalPath === null) {
+        continue;
+      }
+
+      if (file.content === null || file.original === null) {
+        if (file.sourcePath !== file.originalSourcePath || file.originalPath !== filePath) {
+          diffs.push({
+            oldPath: file.originalPath,
+            newPath: filePath,
+            diff: `Binary files a/${file.originalPath} and b/${filePath} differ`,
+          });
+        }
+        continue;
+      }
+
+      const diff = createUnifiedDiff(file.originalPath, filePath, file.original, file.content);
+      if (diff) {
+        diffs.push({ oldPath: file.originalPath, newPath: filePath, diff });
+      }
+    }
+
+    return { templateId, files, morphPoints, diffs, moves };
+  }
+
+  /**
+   * Set the publishers whose signed packages are verified on import
+   */
+  setTrustedPublishers(publishers: TrustedPublisher[]): void {
+    this.trustedPublishers = publishers;
+  }
+
+  /**
+   * Export a template as an .afz package. Templates that extend a base or
+   * use partials are flattened so the package is self-contained.
+   */
+  async exportTemplate(
+    templateId: string,
+    outputPath: string,
+    signingKey?: PackageSigningKey
+  ): Promise<string> {
+    const template = this.getTemplate(templateId);
+
+    if (!template) {
+      throw new Error(`Template not found: ${templateId}`);
+    }
+
+    const files = new Map<string, string>();
+    for (const layer of template.sourceLayers) {
+      await this.collectFiles(layer, 'src', files);
+      await this.collectFiles(path.join(path.dirname(layer), 'assets'), 'assets', files);
+    }
+
+    const flatten = Boolean(template.extends) || template.partials.length > 0;
+    let previewEntry: string | undefined;
+    if (template.previewImage && await fs.pathExists(template.previewImage)) {
+      previewEntry = flatten
+        ? `preview${path.extname(template.previewImage).toLowerCase()}`
+        : toTreePath(path.relative(template.basePath, template.previewImage));
+      files.set(previewEntry, template.previewImage);
+    }
+
+    const morphYaml = flatten
+      ? yaml.stringify(this.serializeTemplate(template, previewEntry))
+      : await fs.readFile(path.join(template.basePath, 'morph.yaml'), 'utf-8');
+
+    const entries: ZipEntry[] = [{ name: 'morph.yaml', data: Buffer.from(morphYaml, 'utf-8') }];
+    for (const [name, sourcePath] of files) {
+      entries.push({ name, data: await fs.readFile(sourcePath) });
+    }
+
+    const archive = createPackage(
+      { id: template.id, name: template.name, version: template.version, author: template.author },
+      entries,
+      signingKey
+    );
+
+    await fs.ensureDir(path.dirname(outputPath));
+    await fs.writeFile(outputPath, archive);
+
+    this.emit('template:exported', { templateId, outputPath });
+    return outputPath;
+  }
+
+  /**
+   * Install a template from an .afz package into the templates directory.
+   * The manifest, file hashes and (if present) signature are verified, and
+   * a template with the same id is only replaced when `overwrite` is set.
+   */
+  async importTemplate(
+    packagePath: string,
+    options: TemplateImportOptions = {}
+  ): Promise<TemplateImportResult> {
+    const pkg = openPackage(await fs.readFile(packagePath), {
+      trustedPublishers: this.trustedPublishers,
+      requireSignature: options.requireSignature,
+    });
+    const { id, version } = pkg.manifest;
+
+    const morphData = yaml.parse(pkg.files.get('morph.yaml')!.toString('utf-8')) ?? {};
+    if ((morphData.id ?? id) !== id || String(morphData.version ?? '1.0.0') !== version) {
+      throw new Error(`morph.yaml does not match the package manifest (${id}@${version})`);
+    }
+
+    // Other versions of the same template are installed side by side
+    const installed = this.templateVersions.get(templateKey(id, version));
+    if (installed && !options.overwrite) {
+      throw new Error(`Template ${id}@${version} is already installed`);
+    }
+
+    let targetDir = installed?.basePath ?? path.join(this.templatesDir, id);
+    if (!installed && this.listTemplateVersions(id).length > 0) {
+      targetDir = path.join(this.templatesDir, templateKey(id, version));
+    }
+    if (!path.resolve(targetDir).startsWith(path.resolve(this.templatesDir) + path.sep)) {
+      throw new Error(`Template directory is outside the templates folder: ${targetDir}`);
+    }
+    if (!installed && await fs.pathExists(targetDir)) {
+      throw new Error(`Template directory already exists: ${targetDir}`);
+    }
+
+    // Extract next to the target so a failed import leaves nothing behind
+    const stagingDir = path.join(this.templatesDir, `_import-${id}-${Date.now()}`);
+    try {
+      for (const [name, data] of pkg.files) {
+        const filePath = path.resolve(stagingDir, ...name.split('/'));
+        if (!filePath.startsWith(path.resolve(stagingDir) + path.sep)) {
+          throw new Error(`Unsafe path in package: ${name}`);
+        }
+        await fs.ensureDir(path.dirname(filePath));
+        await fs.writeFile(filePath, data);
+      }
+
+      await fs.remove(targetDir);
+      await fs.move(stagingDir, targetDir);
+    } catch (error) {
+      await fs.remove(stagingDir);
+      throw error;
+    }
+
+    await this.loadTemplates();
+    const template = this.templateVersions.get(templateKey(id, version));
+    if (!template) {
+      throw new Error(`Imported template failed to load: ${id}`);
+    }
+
+    this.emit('template:imported', { templateId: id, version, signedBy: pkg.signedBy });
+    return { template, signedBy: pkg.signedBy };
+  }
+
+  /**
+   * Add every file under `dir` to `files` as `<prefix>/<relative path>`,
+   * overriding files already collected from earlier layers
+   */
+  private async collectFiles(dir: string, prefix: string, files: Map<string, string>): Promise<void> {
+    if (!await fs.pathExists(dir)) {
+      return;
+    }
+
+    for (const file of await this.getAllFiles(dir)) {
+      const relativePath = toTreePath(path.relative(dir, file));
+      if (relativePath.split('/').includes('.git')) {
+        continue;
+      }
+      files.set(`${prefix}/${relativePath}`, file);
+    }
+  }
+
+  /**
+   * Write a resolved template back out as morph.yaml data
+   */
+  private serializeTemplate(template: Template, previewImage?: string): Record<string, unknown> {
+    return {
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      category: template.category,
+      version: template.version,
+      author: template.author,
+      preview_image: previewImage,
+      tags: template.tags,
+      min_sdk_version: template.minSdkVersion,
+      target_sdk_version: template.targetSdkVersion,
+      morph_points: template.morphPoints.map((point) => ({
+        id: point.id,
+        label: point.label,
+        type: point.type,
+        path: point.path,
+        pattern: point.pattern,
+        mode: point.mode,
+        required: point.required,
+        default: point.default,
+        description: point.description,
+        validation: point.validation,
+        format: point.format,
+        files: point.files,
+        unit: point.unit,
+        output_unit: point.outputUnit,
+        resource_prefix: point.resourcePrefix,
+        array_path: point.arrayPath,
+      })),
+      validations: template.validations.map((rule) => ({
+        type: rule.type,
+        target: rule.target,
+        message: rule.message,
+        ...rule.params,
+      })),
+      files: template.fileRules.length > 0 ? template.fileRules : undefined,
+    };
+  }
+
+  /**
+   * Look up a template and reject configurations that fail validation
+   */
+  private requireValidTemplate(templateId: string, config: MorphConfig): Template {
+    const template = this.getTemplate(templateId);
 
     if (!template) {
       throw new Error(`Template not found: ${templateId}`);
@@ -268,152 +1102,428 @@ export class TemplateEngine extends EventEmitter {
       throw new Error(`Validation failed:\n${validationErrors.join('\n')}`);
     }
 
-    this.emit('morph:start', { templateId, config });
+    return template;
+  }
 
-    // Create output directory
-    await fs.ensureDir(outputDir);
+  /**
+   * Load the template's src tree into memory and apply every morph step
+   */
+  private async morphTree(
+    template: Template,
+    config: MorphConfig,
+    onProgress?: (current: number, total: number, point: string) => void
+  ): Promise<{ tree: ProjectTree; morphPoints: MorphPointPlan[]; moves: PathMove[] }> {
+    const tree: ProjectTree = new Map();
+    for (const layer of template.sourceLayers) {
+      await this.readTree(layer, tree);
+    }
 
-    // Copy template files
-    const srcPath = path.join(template.basePath, 'src');
-    await fs.copy(srcPath, outputDir, {
-      filter: (src) => !src.includes('.git'),
-    });
+    // Drop conditional files and expand repeated ones before morphing
+    const expanded = this.applyFileRules(tree, template, config);
 
-    // Apply morph points
+    // Apply morph points, to every copy of a repeated file
+    const morphPoints: MorphPointPlan[] = [];
     let processed = 0;
     const total = template.morphPoints.length;
 
     for (const point of template.morphPoints) {
       const value = config.values[point.id] ?? point.default;
-      await this.applyMorphPoint(outputDir, point, value, config);
+      for (const copyPath of expanded.get(toTreePath(point.path)) ?? [point.path]) {
+        morphPoints.push(await this.applyMorphPoint(tree, { ...point, path: copyPath }, value, config));
+      }
 
       processed++;
-      this.emit('morph:progress', {
-        current: processed,
-        total,
-        point: point.id,
-      });
+      onProgress?.(processed, total, point.id);
     }
 
     // Apply global substitutions (package name, app name, versions)
-    await this.applyGlobalSubstitutions(outputDir, config);
+    this.applyGlobalSubstitutions(tree, config);
 
-    this.emit('morph:complete', { outputDir });
-    return outputDir;
+    // Rename directories for package structure
+    const moves = this.reorganizePackageStructure(tree, config.packageName);
+
+    return { tree, morphPoints, moves };
+  }
+
+  /**
+   * Apply `files` rules: remove paths whose `when` value is falsy and
+   * replace repeated paths with one rendered copy per list item.
+   * Repeated file names and contents are rendered with Handlebars for the
+   * item and config values only; morph point placeholders and other
+   * unknown expressions are left for the morph points.
+   *
+   * @returns The paths of the copies by the path they were repeated from
+   */
+  private applyFileRules(
+    tree: ProjectTree,
+    template: Pick<Template, 'fileRules' | 'morphPoints'>,
+    config: MorphConfig
+  ): Map<string, string[]> {
+    const expanded = new Map<string, string[]>();
+    const placeholders = new Set(template.morphPoints.map((point) => point.pattern).filter(Boolean));
+    const context: Record<string, unknown> = {
+      ...config,
+      ...config.values,
+      APP_NAME: config.appName,
+      PACKAGE_NAME: config.packageName,
+      VERSION_NAME: config.versionName,
+      VERSION_CODE: config.versionCode,
+    };
+
+    for (const rule of template.fileRules) {
+      const rulePath = toTreePath(rule.path);
+      const matches = [...tree.keys()].filter(
+        (filePath) => filePath === rulePath || filePath.startsWith(`${rulePath}/`)
+      );
+
+      if (rule.when && !evaluateCondition(context, rule.when)) {
+        matches.forEach((filePath) => tree.delete(filePath));
+        continue;
+      }
+
+      if (!rule.each || !rule.to) {
+        continue;
+      }
+
+      const items = toList(lookupValue(context, rule.each) as MorphPointValue | undefined);
+      for (const filePath of matches) {
+        const source = tree.get(filePath)!;
+        tree.delete(filePath);
+
+        const copies = items.map((item, index) => {
+          const itemContext = {
+            ...context,
+            [rule.as]: item,
+            index,
+            number: index + 1,
+          };
+          const target = toTreePath(
+            this.render(rule.to!, itemContext) +
+              this.render(filePath.slice(rulePath.length), itemContext)
+          );
+
+          tree.set(target, {
+            sourcePath: source.sourcePath,
+            originalSourcePath: source.originalSourcePath,
+            originalPath: null,
+            original: null,
+            content: source.content === null ? null : this.renderKnown(source.content, itemContext, placeholders),
+          });
+          return target;
+        });
+        expanded.set(filePath, copies);
+      }
+    }
+
+    return expanded;
+  }
+
+  /**
+   * Render only the expressions the context or a helper can resolve.
+   * Simple expressions naming anything else, and the placeholders given,
+   * are kept as they are instead of rendering empty.
+   */
+  private renderKnown(source: string, context: Record<string, unknown>, placeholders: Set<string>): string {
+    const kept: string[] = [];
+    const guarded = source.replace(/\{\{\{?\s*([^{}]*?)\s*\}?\}\}/g, (expression, body: string) => {
+      const name = /^[\w.-]+$/.test(body) ? body : null;
+      const unknown = name !== null
+        && !['else', 'this'].includes(name)
+        && lookupValue(context, name) === undefined
+        && !(name in this.handlebars.helpers);
+      if (!placeholders.has(expression) && !unknown) {
+        return expression;
+      }
+      kept.push(expression);
+      return `__APPFORGE_KEPT_${kept.length - 1}__`;
+    });
+
+    return this.render(guarded, context).replace(/__APPFORGE_KEPT_(\d+)__/g, (_, index: string) => kept[Number(index)]);
+  }
+
+  /**
+   * Render a string with the engine's Handlebars instance and helpers
+   */
+  private render(source: string, context: Record<string, unknown>): string {
+    return this.handlebars.compile(source, { noEscape: true })(context);
+  }
+
+  /**
+   * Read a directory into an in-memory project tree keyed by relative path.
+   * Files already in the tree are overlaid by files at the same path.
+   */
+  private async readTree(srcPath: string, tree: ProjectTree): Promise<void> {
+    if (!await fs.pathExists(srcPath)) {
+      return;
+    }
+
+    for (const file of await this.getAllFiles(srcPath)) {
+      if (file.includes('.git')) {
+        continue;
+      }
+
+      const relativePath = toTreePath(path.relative(srcPath, file));
+      const content = this.isBinaryFile(file)
+        ? null
+        : await fs.readFile(file, 'utf-8');
+
+      tree.set(relativePath, {
+        sourcePath: file,
+        originalSourcePath: file,
+        originalPath: relativePath,
+        original: content,
+        content,
+      });
+    }
+  }
+
+  /**
+   * Write a morphed project tree to the output directory
+   */
+  private async writeTree(tree: ProjectTree, outputDir: string): Promise<void> {
+    for (const [relativePath, file] of tree) {
+      const targetPath = path.join(outputDir, ...relativePath.split('/'));
+      await fs.ensureDir(path.dirname(targetPath));
+
+      if (file.content === null) {
+        await fs.copy(file.sourcePath, targetPath, { overwrite: true });
+      } else {
+        await fs.writeFile(targetPath, file.content, 'utf-8');
+      }
+    }
   }
 
   /**
    * Apply a single morph point to the project
    */
   private async applyMorphPoint(
-    projectPath: string,
+    tree: ProjectTree,
     point: MorphPoint,
     value: any,
     config: MorphConfig
-  ): Promise<void> {
-    const targetPath = path.join(projectPath, point.path);
+  ): Promise<MorphPointPlan> {
+    const targetPath = toTreePath(point.path);
 
     switch (point.type) {
       case 'text':
       case 'string':
-        await this.applyTextMorph(targetPath, point.pattern, value);
-        break;
+        return this.applyTextMorph(tree, point, targetPath, value);
       case 'color':
-        await this.applyColorMorph(targetPath, point.pattern, value);
-        break;
+        return this.applyColorMorph(tree, point, targetPath, value);
       case 'image':
-        await this.applyImageMorph(targetPath, value);
-        break;
+        return this.applyImageMorph(tree, point, targetPath, value);
       case 'resource':
-        await this.applyResourceMorph(targetPath, point.pattern, value, config);
-        break;
+        return this.applyResourceMorph(tree, point, targetPath, value, config);
       case 'layout':
-        await this.applyLayoutMorph(targetPath, point.pattern, value);
-        break;
+        return this.applyLayoutMorph(tree, point, targetPath, value);
+      case 'list':
+        return this.applyTextMorph(tree, point, targetPath, formatList(toList(value), point.format));
+      case 'boolean':
+        return this.applyBooleanMorph(tree, point, targetPath, toBoolean(value));
+      case 'number':
+        return this.applyTextMorph(
+          tree,
+          point,
+          targetPath,
+          formatNumber(Number(value), point.unit, point.outputUnit)
+        );
+      case 'asset-bundle':
+        return this.applyAssetBundleMorph(tree, point, targetPath, toList(value));
+      default:
+        return { id: point.id, file: targetPath, matched: false, ranges: [] };
     }
   }
 
   /**
    * Apply text replacement morph
    */
-  private async applyTextMorph(
-    filePath: string,
-    pattern: string,
+  private applyTextMorph(
+    tree: ProjectTree,
+    point: MorphPoint,
+    targetPath: string,
     value: string
-  ): Promise<void> {
-    if (!await fs.pathExists(filePath)) {
-      return;
+  ): MorphPointPlan {
+    const plan: MorphPointPlan = { id: point.id, file: targetPath, matched: false, ranges: [] };
+    const file = tree.get(targetPath);
+
+    if (!file || file.content === null || !point.pattern) {
+      return plan;
     }
 
-    let content = await fs.readFile(filePath, 'utf-8');
-    const regex = new RegExp(pattern, 'g');
-    content = content.replace(regex, value);
-    await fs.writeFile(filePath, content, 'utf-8');
+    const mode =
+      point.mode ?? (ESCAPED_TYPES.includes(point.type) ? inferSubstitutionMode(targetPath) : 'literal');
+    plan.ranges = matchLineRanges(file.content, createMatcher(point.pattern, mode));
+    plan.matched = plan.ranges.length > 0;
+    file.content = substitute(file.content, point.pattern, value, mode);
+
+    return plan;
   }
 
   /**
    * Apply color replacement morph
    */
-  private async applyColorMorph(
-    filePath: string,
-    pattern: string,
+  private applyColorMorph(
+    tree: ProjectTree,
+    point: MorphPoint,
+    targetPath: string,
     colorValue: string
-  ): Promise<void> {
+  ): MorphPointPlan {
     // Ensure color has proper format (#RRGGBB or #AARRGGBB)
     const normalizedColor = colorValue.startsWith('#') 
       ? colorValue 
       : `#${colorValue}`;
 
-    await this.applyTextMorph(filePath, pattern, normalizedColor);
+    return this.applyTextMorph(tree, point, targetPath, normalizedColor);
   }
 
   /**
    * Apply image replacement morph
    */
   private async applyImageMorph(
+    tree: ProjectTree,
+    point: MorphPoint,
     targetPath: string,
     sourcePath: string
-  ): Promise<void> {
+  ): Promise<MorphPointPlan> {
+    const plan: MorphPointPlan = { id: point.id, file: targetPath, matched: false, ranges: [] };
+
     if (await fs.pathExists(sourcePath)) {
-      await fs.copy(sourcePath, targetPath, { overwrite: true });
+      const existing = tree.get(targetPath);
+      tree.set(targetPath, {
+        sourcePath,
+        originalSourcePath: existing?.originalSourcePath ?? sourcePath,
+        originalPath: existing?.originalPath ?? null,
+        original: null,
+        content: null,
+      });
+      plan.matched = true;
     }
+
+    return plan;
   }
 
   /**
    * Apply Android resource morph
    */
-  private async applyResourceMorph(
-    filePath: string,
-    pattern: string,
+  private applyResourceMorph(
+    tree: ProjectTree,
+    point: MorphPoint,
+    targetPath: string,
     value: string,
     config: MorphConfig
-  ): Promise<void> {
+  ): MorphPointPlan {
     const template = this.handlebars.compile(value);
     const renderedValue = template({
       ...config,
       ...config.values,
     });
-    await this.applyTextMorph(filePath, pattern, renderedValue);
+    return this.applyTextMorph(tree, point, targetPath, renderedValue);
   }
 
   /**
    * Apply layout XML morph
    */
-  private async applyLayoutMorph(
-    filePath: string,
-    pattern: string,
+  private applyLayoutMorph(
+    tree: ProjectTree,
+    point: MorphPoint,
+    targetPath: string,
     value: string
-  ): Promise<void> {
-    await this.applyTextMorph(filePath, pattern, value);
+  ): MorphPointPlan {
+    return this.applyTextMorph(tree, point, targetPath, value);
+  }
+
+  /**
+   * Apply boolean morph: drop toggled files and `@morph:if` blocks when
+   * false, and substitute the pattern (if any) with `true`/`false`
+   */
+  private applyBooleanMorph(
+    tree: ProjectTree,
+    point: MorphPoint,
+    targetPath: string,
+    enabled: boolean
+  ): MorphPointPlan {
+    const plan: MorphPointPlan = { id: point.id, file: targetPath, matched: false, ranges: [] };
+
+    if (!enabled) {
+      for (const toggled of (point.files ?? []).map(toTreePath)) {
+        for (const filePath of [...tree.keys()]) {
+          if (filePath === toggled || filePath.startsWith(`${toggled}/`)) {
+            tree.delete(filePath);
+            plan.matched = true;
+          }
+        }
+      }
+    }
+
+    const file = tree.get(targetPath);
+    if (file && file.content !== null) {
+      const toggledContent = applyBlockToggle(file.content, point.id, enabled);
+      if (toggledContent !== file.content) {
+        file.content = toggledContent;
+        plan.matched = true;
+      }
+    }
+
+    if (point.pattern) {
+      const substituted = this.applyTextMorph(tree, point, targetPath, String(enabled));
+      plan.matched = plan.matched || substituted.matched;
+      plan.ranges = substituted.ranges;
+    }
+
+    return plan;
+  }
+
+  /**
+   * Apply asset bundle morph: copy each asset into the resource directory
+   * as `<prefix>_<n>` and substitute the pattern in `arrayPath` with a
+   * Kotlin array of the generated resource references
+   */
+  private async applyAssetBundleMorph(
+    tree: ProjectTree,
+    point: MorphPoint,
+    targetPath: string,
+    assets: string[]
+  ): Promise<MorphPointPlan> {
+    const prefix = (point.resourcePrefix || point.id).replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
+    const resourceType = path.posix.basename(targetPath).split('-')[0] || 'drawable';
+    const references: string[] = [];
+
+    for (const [index, assetPath] of assets.entries()) {
+      if (!await fs.pathExists(assetPath)) {
+        continue;
+      }
+
+      const resourceName = `${prefix}_${index + 1}`;
+      const assetTreePath = `${targetPath}/${resourceName}${path.extname(assetPath).toLowerCase()}`;
+      tree.set(assetTreePath, {
+        sourcePath: assetPath,
+        originalSourcePath: assetPath,
+        originalPath: null,
+        original: null,
+        content: null,
+      });
+      references.push(`R.${resourceType}.${resourceName}`);
+    }
+
+    if (!point.arrayPath) {
+      return { id: point.id, file: targetPath, matched: references.length > 0, ranges: [] };
+    }
+
+    return this.applyTextMorph(
+      tree,
+      point,
+      toTreePath(point.arrayPath),
+      `intArrayOf(${references.join(', ')})`
+    );
   }
 
   /**
    * Apply global substitutions across all project files
    */
-  private async applyGlobalSubstitutions(
-    projectPath: string,
+  private applyGlobalSubstitutions(
+    tree: ProjectTree,
     config: MorphConfig
-  ): Promise<void> {
+  ): void {
     const substitutions = {
       '{{APP_NAME}}': config.appName,
       '{{PACKAGE_NAME}}': config.packageName,
@@ -421,31 +1531,19 @@ export class TemplateEngine extends EventEmitter {
       '{{VERSION_CODE}}': String(config.versionCode),
     };
 
-    const files = await this.getAllFiles(projectPath);
-
-    for (const file of files) {
+    for (const [filePath, file] of tree) {
       // Skip binary files
-      if (this.isBinaryFile(file)) {
+      if (file.content === null) {
         continue;
       }
 
-      let content = await fs.readFile(file, 'utf-8');
-      let modified = false;
-
+      const mode = inferSubstitutionMode(filePath);
       for (const [pattern, value] of Object.entries(substitutions)) {
-        if (content.includes(pattern)) {
-          content = content.replace(new RegExp(pattern.replace(/[{}]/g, '\\$&'), 'g'), value);
-          modified = true;
+        if (file.content.includes(pattern)) {
+          file.content = substitute(file.content, pattern, value, mode);
         }
       }
-
-      if (modified) {
-        await fs.writeFile(file, content, 'utf-8');
-      }
     }
-
-    // Rename directories for package structure
-    await this.reorganizePackageStructure(projectPath, config.packageName);
   }
 
   /**
@@ -488,69 +1586,268 @@ export class TemplateEngine extends EventEmitter {
   /**
    * Reorganize Java/Kotlin source files to match package structure
    */
-  private async reorganizePackageStructure(
-    projectPath: string,
+  private reorganizePackageStructure(
+    tree: ProjectTree,
     packageName: string
-  ): Promise<void> {
-    const packagePath = packageName.replace(/\./g, path.sep);
-    const javaSrcDir = path.join(projectPath, 'app', 'src', 'main', 'java');
-    const kotlinSrcDir = path.join(projectPath, 'app', 'src', 'main', 'kotlin');
-
-    // Handle Java sources
-    if (await fs.pathExists(javaSrcDir)) {
-      await this.movePackageSources(javaSrcDir, packagePath);
+  ): PathMove[] {
+    const packagePath = packageName.replace(/\./g, '/');
+    const moves: PathMove[] = [];
+
+    // Handle Java and Kotlin sources
+    for (const srcDir of ['app/src/main/java', 'app/src/main/kotlin']) {
+      const move = this.movePackageSources(tree, srcDir, packagePath);
+      if (move) {
+        moves.push(move);
+      }
     }
 
-    // Handle Kotlin sources
-    if (await fs.pathExists(kotlinSrcDir)) {
-      await this.movePackageSources(kotlinSrcDir, packagePath);
-    }
+    return moves;
   }
 
   /**
    * Move source files to proper package directory
    */
-  private async movePackageSources(
+  private movePackageSources(
+    tree: ProjectTree,
     srcDir: string,
     packagePath: string
-  ): Promise<void> {
-    const templatePackageDir = path.join(srcDir, 'com', 'template', 'app');
-    const targetPackageDir = path.join(srcDir, packagePath);
+  ): PathMove | null {
+    const templatePackageDir = `${srcDir}/com/template/app`;
+    const targetPackageDir = `${srcDir}/${packagePath}`;
 
-    if (await fs.pathExists(templatePackageDir)) {
-      await fs.ensureDir(path.dirname(targetPackageDir));
-      await fs.move(templatePackageDir, targetPackageDir, { overwrite: true });
+    if (templatePackageDir === targetPackageDir) {
+      return null;
+    }
 
-      // Clean up empty template directories
-      await this.removeEmptyDirs(path.join(srcDir, 'com'));
+    const prefix = `${templatePackageDir}/`;
+    const moved = [...tree.entries()].filter(([filePath]) => filePath.startsWith(prefix));
+
+    if (moved.length === 0) {
+      return null;
+    }
+
+    for (const [filePath, file] of moved) {
+      tree.delete(filePath);
+      tree.set(`${targetPackageDir}/${filePath.slice(prefix.length)}`, file);
     }
+
+    return { from: templatePackageDir, to: targetPackageDir };
   }
+}
 
-  /**
-   * Remove empty directories recursively
-   */
-  private async removeEmptyDirs(dir: string): Promise<void> {
-    if (!await fs.pathExists(dir)) {
-      return;
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Normalize a relative path to the forward-slash form used as tree keys
+ */
+function toTreePath(relativePath: string): string {
+  return relativePath.split(/[\\/]+/).filter(Boolean).join('/');
+}
+
+/**
+ * Whether a morph value counts as "not provided" for required checks.
+ * `false` and `0` are real values for boolean and number points.
+ */
+function isMissingValue(value: MorphPointValue | undefined): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * A lint result is valid when no diagnostic is an error
+ */
+function lintResult(diagnostics: TemplateDiagnostic[]): TemplateLintResult {
+  return {
+    valid: !diagnostics.some((diagnostic) => diagnostic.severity === 'error'),
+    diagnostics,
+  };
+}
+
+/**
+ * Record where each generated file came from and which lines each
+ * morph point substituted, keyed by final project path
+ */
+function createSourceMap(
+  template: Template,
+  tree: ProjectTree,
+  morphPoints: MorphPointPlan[],
+  moves: PathMove[]
+): ProjectSourceMap {
+  const files: ProjectSourceMap['files'] = {};
+  for (const [filePath, file] of tree) {
+    const templateFile = path.relative(template.basePath, file.originalSourcePath);
+    files[filePath] = {
+      // Files from base templates or user assets lie outside this template
+      templateFile: templateFile.startsWith('..') || path.isAbsolute(templateFile)
+        ? null
+        : toTreePath(templateFile),
+      source: file.sourcePath,
+      morphPoints: [],
+    };
+  }
+
+  for (const point of morphPoints) {
+    const move = moves.find((candidate) => point.file.startsWith(`${candidate.from}/`));
+    const filePath = move ? `${move.to}${point.file.slice(move.from.length)}` : point.file;
+    if (point.matched && files[filePath]) {
+      files[filePath].morphPoints.push({ id: point.id, ranges: point.ranges });
     }
+  }
 
-    const items = await fs.readdir(dir);
+  return { templateId: template.id, templateVersion: template.version, files };
+}
 
-    for (const item of items) {
-      const fullPath = path.join(dir, item);
-      const stat = await fs.stat(fullPath);
+/**
+ * Key for one installed version of a template
+ */
+function templateKey(id: string, version: string): string {
+  return `${id}@${version}`;
+}
 
-      if (stat.isDirectory()) {
-        await this.removeEmptyDirs(fullPath);
-      }
+/**
+ * Compare dotted version strings numerically (`1.10.0` > `1.9.2`)
+ */
+function compareVersions(a: string, b: string): number {
+  const left = a.split(/[.-]/);
+  const right = b.split(/[.-]/);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (parseInt(left[i], 10) || 0) - (parseInt(right[i], 10) || 0);
+    if (diff !== 0) {
+      return diff;
     }
+  }
+  return 0;
+}
 
-    // Check if directory is now empty
-    const remaining = await fs.readdir(dir);
-    if (remaining.length === 0) {
-      await fs.rmdir(dir);
+/**
+ * Find the definition an `extends` reference points at: `id` for the
+ * newest version, or `id@version` for an exact one
+ */
+function findDefinition(
+  definitions: Map<string, TemplateDefinition>,
+  ref: string
+): TemplateDefinition | undefined {
+  if (ref.includes('@')) {
+    return definitions.get(ref);
+  }
+
+  let latest: TemplateDefinition | undefined;
+  for (const definition of definitions.values()) {
+    if (definition.id === ref && (!latest || compareVersions(definition.version, latest.version) > 0)) {
+      latest = definition;
     }
   }
+  return latest;
 }
 
+/**
+ * Look up a value by key, falling back to a dotted path into nested objects
+ */
+function lookupValue(context: Record<string, unknown>, key: string): unknown {
+  if (key in context) {
+    return context[key];
+  }
+
+  return key.split('.').reduce<unknown>(
+    (value, part) =>
+      value !== null && typeof value === 'object'
+        ? (value as Record<string, unknown>)[part]
+        : undefined,
+    context
+  );
+}
+
+/**
+ * Evaluate a `when` condition: a value key, optionally negated with `!`
+ */
+function evaluateCondition(context: Record<string, unknown>, condition: string): boolean {
+  const negated = condition.trim().startsWith('!');
+  const key = condition.trim().replace(/^!\s*/, '');
+  const result = toBoolean(lookupValue(context, key) as MorphPointValue | undefined);
+  return negated ? !result : result;
+}
+
+/**
+ * Merge morph points by id; later entries replace earlier ones in place
+ */
+function mergeById(points: MorphPoint[]): MorphPoint[] {
+  const merged = new Map<string, MorphPoint>();
+  for (const point of points) {
+    merged.set(point.id, point);
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Merge validation rules; a later rule of the same type and target wins
+ */
+function mergeValidations(rules: ValidationRule[]): ValidationRule[] {
+  const merged = new Map<string, ValidationRule>();
+  for (const rule of rules) {
+    merged.set(`${rule.type}:${rule.target}`, rule);
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Find the 1-based line ranges covered by every match of a global regex
+ */
+function matchLineRanges(content: string, regex: RegExp): LineRange[] {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  const lineAt = (offset: number): number => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low + 1;
+  };
+
+  const ranges: LineRange[] = [];
+  for (const match of content.matchAll(regex)) {
+    const start = lineAt(match.index ?? 0);
+    const end = lineAt((match.index ?? 0) + Math.max(match[0].length - 1, 0));
+    const last = ranges[ranges.length - 1];
+
+    if (last && start <= last.end + 1) {
+      last.end = Math.max(last.end, end);
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+
+  return ranges;
+}
+
+export type { ValidationRule, MorphFieldError } from './MorphValidator';
+export type {
+  MorphPoint,
+  MorphPointType,
+  MorphPointValue,
+  InstantiationPlan,
+  PlannedFile,
+  MorphPointPlan,
+  FileDiff,
+  PathMove,
+  LineRange,
+} from '../../shared/types';
+
 export default TemplateEngine;
@@ -0,0 +1,373 @@
+/**
+ * TemplateLinter.ts - Static Checks for Template Authors
+ *
+ * Checks a template's morph.yaml and src tree for mistakes that would
+ * otherwise only surface at instantiation or Gradle time.
+ */
+
+import * as yaml from 'yaml';
+import type { MorphPoint, TemplateDiagnostic, DiagnosticSeverity } from '../../shared/types';
+import { createMatcher, SUBSTITUTION_MODES } from './Substitution';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Everything the linter needs, gathered by the template engine
+ */
+export interface TemplateLintInput {
+  morphYaml: string;
+  /** Layered src tree keyed by path relative to src/; content is null for binaries */
+  files: Map<string, string | null>;
+  /** Morph points contributed by the base template and partials */
+  inheritedPoints: MorphPoint[];
+  /** Whether the declared preview image exists, or null if none is declared */
+  previewExists: boolean | null;
+  /** Whether a validation rule type is registered */
+  isKnownRule: (type: string) => boolean;
+}
+
+type FieldType = 'string' | 'integer' | 'boolean' | 'array' | 'object' | 'string[]' | 'any';
+
+const TEMPLATE_FIELDS: Record<string, FieldType> = {
+  id: 'string',
+  name: 'string',
+  description: 'string',
+  category: 'string',
+  version: 'string',
+  author: 'string',
+  preview_image: 'string',
+  tags: 'string[]',
+  min_sdk_version: 'integer',
+  target_sdk_version: 'integer',
+  extends: 'string',
+  partials: 'string[]',
+  abstract: 'boolean',
+  morph_points: 'array',
+  validations: 'array',
+  files: 'array',
+  migrations: 'array',
+};
+
+const MORPH_POINT_FIELDS: Record<string, FieldType> = {
+  id: 'string',
+  label: 'string',
+  type: 'string',
+  path: 'string',
+  pattern: 'string',
+  mode: 'string',
+  required: 'boolean',
+  default: 'any',
+  description: 'string',
+  validation: 'object',
+  format: 'string',
+  files: 'string[]',
+  unit: 'string',
+  output_unit: 'string',
+  resource_prefix: 'string',
+  array_path: 'string',
+};
+
+const MORPH_POINT_TYPES = [
+  'text', 'string', 'color', 'image', 'resource', 'layout',
+  'list', 'boolean', 'number', 'asset-bundle',
+];
+
+/**
+ * Placeholders replaced for every template by global substitution
+ */
+const GLOBAL_PLACEHOLDERS = ['APP_NAME', 'PACKAGE_NAME', 'VERSION_NAME', 'VERSION_CODE'];
+
+/**
+ * Upper-case `{{FOO}}` tokens; lower-case Handlebars expressions are
+ * rendered by file rules and are not placeholders
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Z][A-Z0-9_]*)\s*\}\}/g;
+
+/**
+ * Lowest Android API level the build toolchain supports
+ */
+const MIN_SUPPORTED_SDK = 21;
+
+/**
+ * Target SDK Google Play requires for new apps
+ */
+const PLAY_MIN_TARGET_SDK = 34;
+
+const MORPH_YAML = 'morph.yaml';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Linter
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Lint a template, returning diagnostics ordered by file and line
+ */
+export function lintTemplateSource(input: TemplateLintInput): TemplateDiagnostic[] {
+  const lineCounter = new yaml.LineCounter();
+  const doc = yaml.parseDocument(input.morphYaml, { lineCounter });
+  const diagnostics: TemplateDiagnostic[] = [];
+
+  const report = (
+    severity: DiagnosticSeverity,
+    rule: string,
+    message: string,
+    file = MORPH_YAML,
+    line?: number
+  ): void => {
+    diagnostics.push({ file, line, severity, rule, message });
+  };
+
+  // Line of a node in morph.yaml, if it exists
+  const lineOf = (nodePath: Array<string | number>): number | undefined => {
+    const node = doc.getIn(nodePath, true) as { range?: [number, number, number] } | undefined;
+    return node?.range ? lineCounter.linePos(node.range[0]).line : undefined;
+  };
+
+  if (doc.errors.length > 0) {
+    for (const yamlError of doc.errors) {
+      report('error', 'yaml-syntax', yamlError.message.split('\n')[0], MORPH_YAML, yamlError.linePos?.[0].line);
+    }
+    return diagnostics;
+  }
+
+  const data = doc.toJS() ?? {};
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    report('error', 'schema', 'morph.yaml must be a mapping', MORPH_YAML, 1);
+    return diagnostics;
+  }
+
+  // Schema
+  checkFields(data, TEMPLATE_FIELDS, [], lineOf, report);
+  if (!data.name && !data.extends) {
+    report('error', 'schema', 'Missing required field "name"', MORPH_YAML, 1);
+  }
+
+  const points: any[] = Array.isArray(data.morph_points) ? data.morph_points : [];
+  const seenIds = new Set<string>();
+  points.forEach((point, index) => {
+    const pointPath = ['morph_points', index];
+    const line = lineOf(pointPath);
+
+    if (typeof point !== 'object' || point === null || Array.isArray(point)) {
+      report('error', 'schema', `morph_points[${index}] must be a mapping`, MORPH_YAML, line);
+      return;
+    }
+
+    checkFields(point, MORPH_POINT_FIELDS, pointPath, lineOf, report);
+    for (const field of ['id', 'path']) {
+      if (point[field] === undefined) {
+        report('error', 'schema', `morph_points[${index}] is missing required field "${field}"`, MORPH_YAML, line);
+      }
+    }
+    if (point.type !== undefined && !MORPH_POINT_TYPES.includes(point.type)) {
+      report('error', 'schema', `Unknown morph point type "${point.type}"`, MORPH_YAML, lineOf([...pointPath, 'type']));
+    }
+    if (typeof point.mode === 'string' && !SUBSTITUTION_MODES.includes(point.mode)) {
+      report('error', 'schema', `Unknown substitution mode "${point.mode}"`, MORPH_YAML, lineOf([...pointPath, 'mode']));
+    }
+    if (typeof point.id === 'string') {
+      if (seenIds.has(point.id)) {
+        report('error', 'duplicate-morph-point', `Duplicate morph point id "${point.id}"`, MORPH_YAML, line);
+      }
+      seenIds.add(point.id);
+    }
+
+    checkMorphPointTarget(point, pointPath, input.files, lineOf, report);
+  });
+
+  const validations: any[] = Array.isArray(data.validations) ? data.validations : [];
+  validations.forEach((rule, index) => {
+    if (typeof rule?.type === 'string' && !input.isKnownRule(rule.type)) {
+      report('error', 'unknown-validation', `Unknown validation rule type "${rule.type}"`, MORPH_YAML, lineOf(['validations', index]));
+    }
+  });
+
+  checkSdkVersions(data, lineOf, report);
+
+  if (input.previewExists === null) {
+    report('warning', 'missing-preview', 'No preview_image declared', MORPH_YAML, 1);
+  } else if (!input.previewExists) {
+    report('error', 'missing-preview', `Preview image not found: ${data.preview_image}`, MORPH_YAML, lineOf(['preview_image']));
+  }
+
+  checkPlaceholders(points, input, report);
+
+  return diagnostics.sort(
+    (a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0)
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Checks
+// ─────────────────────────────────────────────────────────────────────────────
+
+type Reporter = (
+  severity: DiagnosticSeverity,
+  rule: string,
+  message: string,
+  file?: string,
+  line?: number
+) => void;
+
+type LineLookup = (nodePath: Array<string | number>) => number | undefined;
+
+/**
+ * Report unknown keys and values of the wrong type
+ */
+function checkFields(
+  value: Record<string, unknown>,
+  schema: Record<string, FieldType>,
+  basePath: Array<string | number>,
+  lineOf: LineLookup,
+  report: Reporter
+): void {
+  const where = basePath.length > 0 ? `${basePath[0]}[${basePath[1]}].` : '';
+
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const line = lineOf([...basePath, key]);
+    const expected = schema[key];
+
+    if (!expected) {
+      report('warning', 'schema', `Unknown field "${where}${key}"`, MORPH_YAML, line);
+    } else if (fieldValue !== null && fieldValue !== undefined && !matchesType(fieldValue, expected)) {
+      report('error', 'schema', `"${where}${key}" must be ${describeType(expected)}`, MORPH_YAML, line);
+    }
+  }
+}
+
+/**
+ * Check that a morph point's target file exists and its pattern occurs in it
+ */
+function checkMorphPointTarget(
+  point: any,
+  pointPath: Array<string | number>,
+  files: Map<string, string | null>,
+  lineOf: LineLookup,
+  report: Reporter
+): void {
+  // Asset bundles write into a resource directory and substitute into array_path
+  const targetKey = point.type === 'asset-bundle' ? 'array_path' : 'path';
+  const target = point[targetKey];
+  if (typeof target !== 'string') {
+    return;
+  }
+
+  const relativePath = target.split(/[\\/]+/).filter(Boolean).join('/');
+  if (!files.has(relativePath)) {
+    report('error', 'missing-target', `Morph point "${point.id}" targets missing file src/${relativePath}`, MORPH_YAML, lineOf([...pointPath, targetKey]));
+    return;
+  }
+
+  if (typeof point.pattern !== 'string' || point.pattern === '') {
+    return;
+  }
+
+  let regex: RegExp;
+  try {
+    regex = createMatcher(point.pattern, point.mode);
+  } catch (error) {
+    report('error', 'invalid-pattern', `Invalid pattern for "${point.id}": ${(error as Error).message}`, MORPH_YAML, lineOf([...pointPath, 'pattern']));
+    return;
+  }
+
+  const content = files.get(relativePath);
+  if (content !== null && content !== undefined && content.search(regex) === -1) {
+    report('warning', 'unmatched-pattern', `Pattern ${point.pattern} for "${point.id}" never occurs in src/${relativePath}`, MORPH_YAML, lineOf([...pointPath, 'pattern']));
+  }
+}
+
+/**
+ * Check min/target SDK values and how they relate
+ */
+function checkSdkVersions(data: any, lineOf: LineLookup, report: Reporter): void {
+  const min = data.min_sdk_version;
+  const target = data.target_sdk_version;
+  const minLine = lineOf(['min_sdk_version']);
+  const targetLine = lineOf(['target_sdk_version']);
+
+  if (Number.isInteger(min) && min < MIN_SUPPORTED_SDK) {
+    report('error', 'sdk-version', `min_sdk_version ${min} is below the supported minimum ${MIN_SUPPORTED_SDK}`, MORPH_YAML, minLine);
+  }
+  if (Number.isInteger(min) && Number.isInteger(target) && min > target) {
+    report('error', 'sdk-version', `min_sdk_version ${min} is greater than target_sdk_version ${target}`, MORPH_YAML, minLine);
+  }
+  if (Number.isInteger(target) && target < PLAY_MIN_TARGET_SDK) {
+    report('warning', 'sdk-version', `target_sdk_version ${target} is below ${PLAY_MIN_TARGET_SDK}, which Google Play requires for new apps`, MORPH_YAML, targetLine);
+  }
+}
+
+/**
+ * Report `{{FOO}}` placeholders in the src tree that no morph point
+ * pattern or global substitution replaces
+ */
+function checkPlaceholders(points: any[], input: TemplateLintInput, report: Reporter): void {
+  const patterns: RegExp[] = [];
+  for (const point of [...input.inheritedPoints, ...points]) {
+    if (typeof point?.pattern === 'string' && point.pattern) {
+      try {
+        patterns.push(createMatcher(point.pattern, point.mode));
+      } catch {
+        // Reported by checkMorphPointTarget
+      }
+    }
+  }
+
+  const covered = (token: string, name: string): boolean =>
+    GLOBAL_PLACEHOLDERS.includes(name) || patterns.some((pattern) => token.search(pattern) !== -1);
+
+  for (const [filePath, content] of input.files) {
+    if (content === null) {
+      continue;
+    }
+
+    content.split('\n').forEach((text, index) => {
+      for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+        if (!covered(match[0], match[1])) {
+          report('warning', 'uncovered-placeholder', `Placeholder ${match[0]} is not replaced by any morph point`, `src/${filePath}`, index + 1);
+        }
+      }
+    });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value);
+    case 'string[]':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string');
+    default:
+      return true;
+  }
+}
+
+function describeType(type: FieldType): string {
+  switch (type) {
+    case 'integer':
+      return 'an integer';
+    case 'array':
+      return 'a list';
+    case 'object':
+      return 'a mapping';
+    case 'string[]':
+      return 'a list of strings';
+    default:
+      return `a ${type}`;
+  }
+}
+
+export default lintTemplateSource;
@@ -0,0 +1,346 @@
+/**
+ * TemplatePackage.ts - Signed .afz Template Bundles
+ *
+ * An .afz file is a ZIP archive holding a template's morph.yaml, src tree,
+ * assets and preview image, plus a manifest.json listing the SHA-256 of
+ * every file. The manifest may be signed with Ed25519 (manifest.sig).
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import { readZip, writeZip, ZipEntry } from './ZipArchive';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A file listed in the package manifest
+ */
+export interface PackageFileEntry {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * Contents of manifest.json
+ */
+export interface TemplatePackageManifest {
+  format: number;
+  id: string;
+  name: string;
+  version: string;
+  author: string;
+  createdAt: string;
+  files: PackageFileEntry[];
+}
+
+/**
+ * Contents of manifest.sig: an Ed25519 signature over the manifest bytes
+ */
+export interface PackageSignature {
+  publisher: string;
+  algorithm: 'ed25519';
+  signature: string;
+}
+
+/**
+ * A publisher whose signed packages are accepted
+ */
+export interface TrustedPublisher {
+  id: string;
+  name?: string;
+  publicKey: string;
+}
+
+/**
+ * Key used to sign packages on export
+ */
+export interface PackageSigningKey {
+  publisher: string;
+  privateKey: string;
+}
+
+/**
+ * Template metadata recorded in the manifest
+ */
+export interface PackageMetadata {
+  id: string;
+  name: string;
+  version: string;
+  author: string;
+}
+
+/**
+ * Options for opening a package
+ */
+export interface OpenPackageOptions {
+  trustedPublishers?: TrustedPublisher[];
+  requireSignature?: boolean;
+}
+
+/**
+ * A package whose manifest and file hashes have been verified
+ */
+export interface OpenedPackage {
+  manifest: TemplatePackageManifest;
+  files: Map<string, Buffer>;
+  /** Publisher id when the signature was verified against a trusted key */
+  signedBy: string | null;
+}
+
+export const AFZ_FORMAT_VERSION = 1;
+export const AFZ_EXTENSION = '.afz';
+
+const MANIFEST_ENTRY = 'manifest.json';
+const SIGNATURE_ENTRY = 'manifest.sig';
+
+/**
+ * Template ids double as directory names under the templates folder
+ */
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+
+/**
+ * Versions name the directory of a side-by-side install (`<id>@<version>`)
+ */
+const TEMPLATE_VERSION_PATTERN = /^[a-z0-9]+(?:[.+_-][a-z0-9]+)*$/i;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Package Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Whether an archive entry name is a plain relative path that cannot
+ * escape the directory it is extracted into
+ */
+export function isSafeEntryPath(name: string): boolean {
+  if (!name || name.includes('\0') || name.includes('\\')) {
+    return false;
+  }
+  if (name.startsWith('/') || /^[a-zA-Z]:/.test(name)) {
+    return false;
+  }
+  return name.split('/').every((segment) => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+/**
+ * Build an .afz archive from template files, optionally signing the manifest
+ */
+export function createPackage(
+  metadata: PackageMetadata,
+  files: ZipEntry[],
+  signingKey?: PackageSigningKey
+): Buffer {
+  for (const file of files) {
+    if (!isSafeEntryPath(file.name) || file.name === MANIFEST_ENTRY || file.name === SIGNATURE_ENTRY) {
+      throw new Error(`Invalid package path: ${file.name}`);
+    }
+  }
+
+  const manifest: TemplatePackageManifest = {
+    format: AFZ_FORMAT_VERSION,
+    id: metadata.id,
+    name: metadata.name,
+    version: metadata.version,
+    author: metadata.author,
+    createdAt: new Date().toISOString(),
+    files: files.map((file) => ({
+      path: file.name,
+      size: file.data.length,
+      sha256: sha256(file.data),
+    })),
+  };
+  const manifestBytes = Buffer.from(JSON.stringify(manifest, null, 2), 'utf-8');
+
+  const entries: ZipEntry[] = [{ name: MANIFEST_ENTRY, data: manifestBytes }];
+  if (signingKey) {
+    const signature: PackageSignature = {
+      publisher: signingKey.publisher,
+      algorithm: 'ed25519',
+      signature: crypto
+        .sign(null, manifestBytes, crypto.createPrivateKey(signingKey.privateKey))
+        .toString('base64'),
+    };
+    entries.push({ name: SIGNATURE_ENTRY, data: Buffer.from(JSON.stringify(signature, null, 2)) });
+  }
+
+  return writeZip([...entries, ...files]);
+}
+
+/**
+ * Read an .afz archive and verify its manifest, file hashes and signature.
+ * Throws if any entry is unsafe, missing, unlisted or altered.
+ */
+export function openPackage(archive: Buffer, options: OpenPackageOptions = {}): OpenedPackage {
+  const entries = new Map<string, Buffer>();
+  for (const entry of readZip(archive)) {
+    if (!isSafeEntryPath(entry.name)) {
+      throw new Error(`Unsafe path in package: ${entry.name}`);
+    }
+    if (entries.has(entry.name)) {
+      throw new Error(`Duplicate entry in package: ${entry.name}`);
+    }
+    entries.set(entry.name, entry.data);
+  }
+
+  const manifestBytes = entries.get(MANIFEST_ENTRY);
+  if (!manifestBytes) {
+    throw new Error(`Package is missing ${MANIFEST_ENTRY}`);
+  }
+  const manifest = parseManifest(manifestBytes);
+
+  const files = new Map<string, Buffer>();
+  for (const file of manifest.files) {
+    const data = entries.get(file.path);
+    if (!data) {
+      throw new Error(`Package is missing listed file: ${file.path}`);
+    }
+    if (data.length !== file.size || sha256(data) !== file.sha256) {
+      throw new Error(`Hash mismatch for ${file.path}`);
+    }
+    files.set(file.path, data);
+  }
+
+  for (const name of entries.keys()) {
+    if (name !== MANIFEST_ENTRY && name !== SIGNATURE_ENTRY && !files.has(name)) {
+      throw new Error(`Package contains unlisted file: ${name}`);
+    }
+  }
+
+  if (!files.has('morph.yaml')) {
+    throw new Error('Package does not contain morph.yaml');
+  }
+
+  const signedBy = verifySignature(
+    manifestBytes,
+    entries.get(SIGNATURE_ENTRY),
+    options.trustedPublishers ?? [],
+    options.requireSignature ?? false
+  );
+
+  return { manifest, files, signedBy };
+}
+
+/**
+ * Load the trusted publishers list, returning an empty list if the file
+ * does not exist
+ */
+export async function loadTrustedPublishers(filePath: string): Promise<TrustedPublisher[]> {
+  if (!await fs.pathExists(filePath)) {
+    return [];
+  }
+
+  const publishers = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  if (!Array.isArray(publishers)) {
+    throw new Error(`Trusted publishers file must contain an array: ${filePath}`);
+  }
+
+  return publishers.filter(
+    (publisher): publisher is TrustedPublisher =>
+      typeof publisher?.id === 'string' && typeof publisher?.publicKey === 'string'
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function sha256(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Parse and shape-check manifest.json
+ */
+function parseManifest(bytes: Buffer): TemplatePackageManifest {
+  let manifest: any;
+  try {
+    manifest = JSON.parse(bytes.toString('utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid ${MANIFEST_ENTRY}: ${(error as Error).message}`);
+  }
+
+  if (manifest?.format !== AFZ_FORMAT_VERSION) {
+    throw new Error(`Unsupported package format: ${manifest?.format}`);
+  }
+  if (typeof manifest.id !== 'string' || !TEMPLATE_ID_PATTERN.test(manifest.id)) {
+    throw new Error(`Invalid template id in manifest: ${manifest.id}`);
+  }
+  if (typeof manifest.version !== 'string' || !manifest.version) {
+    throw new Error('Manifest is missing a version');
+  }
+  if (!TEMPLATE_VERSION_PATTERN.test(manifest.version)) {
+    throw new Error(`Invalid template version in manifest: ${manifest.version}`);
+  }
+  if (!Array.isArray(manifest.files)) {
+    throw new Error('Manifest is missing a file list');
+  }
+
+  for (const file of manifest.files) {
+    if (
+      typeof file?.path !== 'string' ||
+      typeof file.size !== 'number' ||
+      typeof file.sha256 !== 'string'
+    ) {
+      throw new Error('Manifest contains a malformed file entry');
+    }
+    if (!isSafeEntryPath(file.path)) {
+      throw new Error(`Unsafe path in manifest: ${file.path}`);
+    }
+  }
+
+  return manifest as TemplatePackageManifest;
+}
+
+/**
+ * Check manifest.sig against the trusted publishers. Returns the publisher
+ * id when verified, or null for unsigned packages and unknown publishers
+ * (unless a signature is required). A signature that fails verification
+ * is always rejected.
+ */
+function verifySignature(
+  manifestBytes: Buffer,
+  signatureBytes: Buffer | undefined,
+  trustedPublishers: TrustedPublisher[],
+  requireSignature: boolean
+): string | null {
+  if (!signatureBytes) {
+    if (requireSignature) {
+      throw new Error('Package is not signed');
+    }
+    return null;
+  }
+
+  let signature: PackageSignature;
+  try {
+    signature = JSON.parse(signatureBytes.toString('utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid ${SIGNATURE_ENTRY}: ${(error as Error).message}`);
+  }
+  if (signature?.algorithm !== 'ed25519' || typeof signature.signature !== 'string') {
+    throw new Error(`Unsupported signature algorithm: ${signature?.algorithm}`);
+  }
+
+  const publisher = trustedPublishers.find((candidate) => candidate.id === signature.publisher);
+  if (!publisher) {
+    if (requireSignature) {
+      throw new Error(`Package is signed by an untrusted publisher: ${signature.publisher}`);
+    }
+    return null;
+  }
+
+  const valid = crypto.verify(
+    null,
+    manifestBytes,
+    crypto.createPublicKey(publisher.publicKey),
+    Buffer.from(signature.signature, 'base64')
+  );
+  if (!valid) {
+    throw new Error(`Invalid signature from publisher: ${publisher.id}`);
+  }
+
+  return publisher.id;
+}
+
+export default { createPackage, openPackage, loadTrustedPublishers };
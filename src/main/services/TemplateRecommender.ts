@@ -0,0 +1,359 @@
+/**
+ * TemplateRecommender.ts - Trend to Template Recommendations
+ *
+ * Ranks the installed templates for a trend by how well the trend's
+ * keyword, related keywords and category match each template's name,
+ * tags, description and category, boosted by what the template earned on
+ * similar trends before. Each recommendation lists the factors its score
+ * is made of.
+ *
+ * Apps created from a trend start with morph values taken from it: a
+ * name, a description and a color scheme derived from the keyword.
+ */
+
+import { TfIdfIndex, matchKey } from './TrendMatching';
+import type { Template } from './TemplateEngine';
+import type { TemplateSalesStore, TemplateTrendSales } from './TemplateSalesStore';
+import type {
+  MorphValue,
+  TemplateRecommendation,
+  TemplateScoreFactor,
+  TemplateScoreReason,
+} from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type RecommendableTemplate = Pick<Template, 'id' | 'name' | 'description' | 'category' | 'tags'>;
+
+/**
+ * The installed templates, e.g. the template engine
+ */
+export interface TemplateCatalog {
+  listTemplates(): RecommendableTemplate[];
+}
+
+/**
+ * The parts of a trend templates are matched on
+ */
+export interface TrendQuery {
+  keyword: string;
+  relatedKeywords?: string[];
+  category?: string;
+}
+
+type TemplateField = 'name' | 'tags' | 'description' | 'category';
+
+interface SalesBoost {
+  /** Similarity-weighted revenue relative to the top template, 0-1 */
+  value: number;
+  weighted: number;
+  revenue: number;
+  apps: number;
+  trends: TemplateTrendSales[];
+}
+
+/**
+ * Share of the score each factor can contribute
+ */
+const FACTOR_WEIGHTS: Record<TemplateScoreFactor, number> = {
+  keyword: 0.45,
+  related: 0.2,
+  category: 0.15,
+  sales: 0.2,
+};
+
+/**
+ * How much a keyword matching each template field counts; the category
+ * field is matched by the trend category alone
+ */
+const FIELD_WEIGHTS: Array<[TemplateField, number]> = [
+  ['name', 0.35],
+  ['tags', 0.4],
+  ['description', 0.25],
+];
+
+/**
+ * Similarity from which a text matches a template field, below which
+ * only word fragments are shared
+ */
+const MIN_FIELD_SIMILARITY = 0.1;
+
+/**
+ * Similarity from which a past trend counts as similar for sales
+ */
+const SIMILAR_TREND = 0.3;
+
+/**
+ * Play Store titles are limited to 30 characters
+ */
+const MAX_APP_NAME_LENGTH = 30;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TemplateRecommender Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class TemplateRecommender {
+  constructor(
+    private catalog: TemplateCatalog,
+    private sales: TemplateSalesStore | null = null
+  ) {}
+
+  /**
+   * The templates that fit a trend, best first. Templates nothing speaks
+   * for are left out.
+   */
+  recommend(trend: TrendQuery, limit = 3): TemplateRecommendation[] {
+    const templates = this.catalog.listTemplates();
+    const index = new TfIdfIndex();
+    for (const template of templates) {
+      for (const [field, text] of fieldsOf(template)) {
+        index.add(fieldId(template.id, field), text);
+      }
+    }
+
+    const keyword = similarities(index, trend.keyword);
+    const related = (trend.relatedKeywords ?? []).map((text) => ({ text, matches: similarities(index, text) }));
+    const category = trend.category ? similarities(index, trend.category) : new Map<string, number>();
+    const salesBoost = this.salesBoost(trend.keyword);
+
+    return templates
+      .map((template) => {
+        const reasons: TemplateScoreReason[] = [];
+        const reason = (factor: TemplateScoreFactor, value: number, detail: string) => {
+          if (value > 0) {
+            reasons.push({ factor, value: round(value), weight: FACTOR_WEIGHTS[factor], detail });
+          }
+        };
+
+        const keywordMatch = matchFields(keyword, template.id);
+        reason('keyword', keywordMatch.value, `"${trend.keyword}" matches the ${describeFields(keywordMatch.fields)}`);
+
+        const relatedMatch = related
+          .map(({ text, matches }) => ({ text, ...matchFields(matches, template.id) }))
+          .reduce<{ text: string; value: number; fields: TemplateField[] } | null>(
+            (best, next) => (!best || next.value > best.value ? next : best),
+            null
+          );
+        if (relatedMatch) {
+          reason('related', relatedMatch.value, `Related keyword "${relatedMatch.text}" matches the ${describeFields(relatedMatch.fields)}`);
+        }
+
+        reason(
+          'category',
+          category.get(fieldId(template.id, 'category')) ?? 0,
+          `Trend category "${trend.category}" matches the template category "${template.category}"`
+        );
+
+        const sales = salesBoost.get(template.id);
+        if (sales) {
+          reason('sales', sales.value, describeSales(sales));
+        }
+
+        const score = reasons.reduce((sum, next) => sum + next.value * next.weight, 0);
+        return { templateId: template.id, templateName: template.name, score: round(score), reasons };
+      })
+      .filter((recommendation) => recommendation.score > 0)
+      .sort((a, b) => b.score - a.score || a.templateId.localeCompare(b.templateId))
+      .slice(0, limit);
+  }
+
+  /**
+   * Revenue each template earned on trends similar to the keyword,
+   * weighted by their similarity and relative to the top earner
+   */
+  private salesBoost(keyword: string): Map<string, SalesBoost> {
+    const boosts = new Map<string, SalesBoost>();
+    const sales = this.sales?.sales() ?? [];
+    if (sales.length === 0) {
+      return boosts;
+    }
+
+    const index = new TfIdfIndex();
+    for (const sale of sales) {
+      index.add(sale.trendKeyword, sale.trendKeyword);
+    }
+    const similar = new Map(index.nearest(keyword, SIMILAR_TREND).map((match) => [match.id, match.similarity]));
+
+    for (const sale of sales) {
+      const weight = similar.get(sale.trendKeyword);
+      if (weight === undefined) {
+        continue;
+      }
+      const boost = boosts.get(sale.templateId) ?? { value: 0, weighted: 0, revenue: 0, apps: 0, trends: [] };
+      boost.weighted += sale.revenue * weight;
+      boost.revenue += sale.revenue;
+      boost.apps += sale.apps;
+      boost.trends.push(sale);
+      boosts.set(sale.templateId, boost);
+    }
+
+    const top = Math.max(0, ...[...boosts.values()].map((boost) => boost.weighted));
+    for (const boost of boosts.values()) {
+      boost.value = top > 0 ? boost.weighted / top : 0;
+    }
+    return boosts;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Morph Value Prefill
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Morph values for an app created from a trend, for the app name,
+ * description and color morph points the template has
+ */
+export function prefillMorphValues(
+  template: Pick<Template, 'description' | 'morphPoints' | 'validations'>,
+  keyword: string
+): MorphValue[] {
+  const name = trendAppName(keyword, maxLength(template, 'app_name'));
+  const { primary, secondary } = trendColors(keyword);
+  const candidates: MorphValue[] = [
+    { key: 'app_name', value: name },
+    { key: 'app_description', value: truncate(`${name}: ${template.description}`, maxLength(template, 'app_description')) },
+    { key: 'primary_color', value: primary },
+    { key: 'secondary_color', value: secondary },
+  ];
+
+  const points = new Set(template.morphPoints.map((point) => point.id));
+  return candidates.filter((candidate) => points.has(candidate.key));
+}
+
+/**
+ * "#AestheticWallpapers" to "Aesthetic Wallpapers", cut at a word
+ */
+export function trendAppName(keyword: string, limit = MAX_APP_NAME_LENGTH): string {
+  const words = keyword
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[#@]/g, ' ')
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .split(/[\s_]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1));
+
+  return truncate(words.join(' '), Math.min(limit, MAX_APP_NAME_LENGTH)) || 'Trend App';
+}
+
+/**
+ * Package name from the words of a trend keyword
+ */
+export function trendPackageName(keyword: string): string {
+  const name = keyword.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return `com.appforge.${/^[a-z]/.test(name) ? name : `app${name}`}`;
+}
+
+/**
+ * A color scheme picked by the keyword, so the same topic always gets the
+ * same colors: a primary hue and its split complement
+ */
+export function trendColors(keyword: string): { primary: string; secondary: string } {
+  const hue = hash(matchKey(keyword) || keyword.toLowerCase()) % 360;
+  return {
+    primary: hslToHex(hue, 0.65, 0.45),
+    secondary: hslToHex((hue + 150) % 360, 0.7, 0.5),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function fieldsOf(template: RecommendableTemplate): Array<[TemplateField, string]> {
+  return [
+    ['name', template.name],
+    ['tags', template.tags.join(' ')],
+    ['description', template.description],
+    ['category', template.category],
+  ];
+}
+
+function fieldId(templateId: string, field: TemplateField): string {
+  return `${templateId}#${field}`;
+}
+
+/**
+ * Similarity of a text to every indexed template field
+ */
+function similarities(index: TfIdfIndex, text: string): Map<string, number> {
+  return new Map(index.nearest(text, MIN_FIELD_SIMILARITY).map((match) => [match.id, match.similarity]));
+}
+
+/**
+ * Weighted similarity of a text to the name, tags and description of a
+ * template, with the fields it matched, best first
+ */
+function matchFields(matches: Map<string, number>, templateId: string): { value: number; fields: TemplateField[] } {
+  const matched = FIELD_WEIGHTS
+    .map(([field, weight]) => ({ field, weight, similarity: matches.get(fieldId(templateId, field)) ?? 0 }))
+    .filter((match) => match.similarity > 0);
+
+  return {
+    value: matched.reduce((sum, match) => sum + match.similarity * match.weight, 0),
+    fields: matched.sort((a, b) => b.similarity - a.similarity).map((match) => match.field),
+  };
+}
+
+function describeFields(fields: TemplateField[]): string {
+  return fields.length > 1 ? `${fields.slice(0, -1).join(', ')} and ${fields[fields.length - 1]}` : fields[0];
+}
+
+function describeSales(boost: SalesBoost): string {
+  const trends = boost.trends
+    .sort((a, b) => b.revenue - a.revenue)
+    .slice(0, 3)
+    .map((sale) => `"${sale.trendKeyword}"`)
+    .join(', ');
+  const apps = boost.apps === 1 ? '1 app' : `${boost.apps} apps`;
+  return `Earned $${boost.revenue.toFixed(2)} from ${apps} on similar trends: ${trends}`;
+}
+
+function maxLength(template: Pick<Template, 'validations'>, target: string): number {
+  const limits = template.validations
+    .filter((rule) => rule.type === 'string_length' && rule.target === target)
+    .map((rule) => Number(rule.params.max_length))
+    .filter((limit) => Number.isFinite(limit) && limit > 0);
+  return Math.min(Infinity, ...limits);
+}
+
+/**
+ * Cut text to a length at a word boundary where there is one
+ */
+function truncate(text: string, limit: number): string {
+  if (text.length <= limit) {
+    return text;
+  }
+  const cut = text.slice(0, limit + 1);
+  const space = cut.lastIndexOf(' ');
+  return (space > 0 ? cut.slice(0, space) : text.slice(0, limit)).replace(/[\s:,.-]+$/, '');
+}
+
+/**
+ * 32-bit FNV-1a
+ */
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+function hslToHex(hue: number, saturation: number, lightness: number): string {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = lightness - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`.toUpperCase();
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export default TemplateRecommender;
@@ -0,0 +1,54 @@
+/**
+ * TemplateSalesStore.ts - Template Sales by Trend
+ *
+ * Reads the revenue of apps created from a trend, per template and trend
+ * keyword, for template recommendations.
+ */
+
+import type { DatabaseService } from '../database/Database';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * What the apps built from one template for one trend keyword earned
+ */
+export interface TemplateTrendSales {
+  templateId: string;
+  trendKeyword: string;
+  apps: number;
+  revenue: number;
+}
+
+export interface TemplateSalesStore {
+  /** Sales of every template and trend keyword that earned anything */
+  sales(): TemplateTrendSales[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SqliteTemplateSalesStore Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Template sales from the revenue transactions of every store an app was
+ * distributed to. Apps not created from a trend are left out.
+ */
+export class SqliteTemplateSalesStore implements TemplateSalesStore {
+  constructor(private database: DatabaseService) {}
+
+  sales(): TemplateTrendSales[] {
+    return this.database.all<TemplateTrendSales>(`
+      SELECT a.template_id AS templateId, a.trend_keyword AS trendKeyword,
+        COUNT(DISTINCT a.id) AS apps, SUM(r.amount) AS revenue
+      FROM apps a
+      JOIN distributions d ON d.app_id = a.id
+      JOIN revenue_transactions r ON r.distribution_id = d.id
+      WHERE a.trend_keyword IS NOT NULL
+      GROUP BY a.template_id, a.trend_keyword
+      HAVING SUM(r.amount) > 0
+    `);
+  }
+}
+
+export default SqliteTemplateSalesStore;
@@ -0,0 +1,177 @@
+/**
+ * TextDiff.ts - Line-based Unified Diff Generation
+ *
+ * Produces `diff -u` style output for previewing template morphs
+ * without writing anything to disk.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A single line-level edit operation
+ */
+interface DiffOp {
+  type: ' ' | '-' | '+';
+  line: string;
+}
+
+/**
+ * Above this many DP cells the diff degrades to a whole-file replacement
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Diff Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Compute the line operations that turn `a` into `b`
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  // Strip the common prefix and suffix so the LCS table stays small
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const head: DiffOp[] = a.slice(0, prefix).map((line) => ({ type: ' ', line }));
+  const tail: DiffOp[] = a.slice(a.length - suffix).map((line) => ({ type: ' ', line }));
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  let middle: DiffOp[];
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    middle = [
+      ...midA.map((line): DiffOp => ({ type: '-', line })),
+      ...midB.map((line): DiffOp => ({ type: '+', line })),
+    ];
+  } else {
+    middle = lcsOps(midA, midB);
+  }
+
+  return [...head, ...middle, ...tail];
+}
+
+/**
+ * Longest-common-subsequence diff for the differing middle section
+ */
+function lcsOps(a: string[], b: string[]): DiffOp[] {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table = new Uint32Array(rows * cols);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = a[i] === b[j]
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      ops.push({ type: '-', line: a[i++] });
+    } else {
+      ops.push({ type: '+', line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: '-', line: a[i++] });
+  while (j < b.length) ops.push({ type: '+', line: b[j++] });
+
+  return ops;
+}
+
+/**
+ * Format a hunk range, using the `start,0` convention for empty sides
+ */
+function formatRange(start: number, count: number): string {
+  if (count === 0) {
+    return `${start - 1},0`;
+  }
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Create a unified diff between two versions of a text file.
+ * Returns an empty string when nothing changed.
+ */
+export function createUnifiedDiff(
+  oldPath: string,
+  newPath: string,
+  oldText: string,
+  newText: string,
+  context = 3
+): string {
+  if (oldText === newText && oldPath === newPath) {
+    return '';
+  }
+
+  const header = [`--- a/${oldPath}`, `+++ b/${newPath}`];
+  if (oldText === newText) {
+    return header.join('\n');
+  }
+
+  const ops = diffLines(oldText.split('\n'), newText.split('\n'));
+  const changed = ops
+    .map((op, index) => (op.type === ' ' ? -1 : index))
+    .filter((index) => index >= 0);
+
+  // Group nearby changes into hunks with surrounding context
+  const groups: Array<[number, number]> = [];
+  for (const index of changed) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= context * 2 + 1) {
+      last[1] = index;
+    } else {
+      groups.push([index, index]);
+    }
+  }
+
+  // Line numbers at the start of each op
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (op.type !== '+') oldLine++;
+    if (op.type !== '-') newLine++;
+  }
+
+  const lines = [...header];
+  for (const [first, last] of groups) {
+    const start = Math.max(0, first - context);
+    const end = Math.min(ops.length - 1, last + context);
+    const hunk = ops.slice(start, end + 1);
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+
+    lines.push(
+      `@@ -${formatRange(oldLineAt[start], oldCount)} +${formatRange(newLineAt[start], newCount)} @@`
+    );
+    lines.push(...hunk.map((op) => `${op.type}${op.line}`));
+  }
+
+  return lines.join('\n');
+}
+
+export default createUnifiedDiff;
@@ -0,0 +1,481 @@
+/**
+ * Toolchain.ts - JDK and Android SDK Management
+ *
+ * Inventories the JDKs, SDK platforms, build-tools and NDKs installed on
+ * this machine, works out what a template's project needs from its
+ * SDK versions and the Android Gradle Plugin its build files apply, and
+ * picks a compatible set. The set chosen for an app is pinned so its
+ * builds keep using it until it is pinned again.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import type { ToolchainStore } from './ToolchainStore';
+import type {
+  MissingToolchainComponent,
+  TemplateToolchainCompatibility,
+  ToolchainComponent,
+  ToolchainComponentKind,
+  ToolchainInventory,
+  ToolchainPin,
+  ToolchainRequirements,
+  ToolchainResolution,
+} from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Where to look for installed toolchains
+ */
+export interface ToolchainSearchPaths {
+  /** Candidate SDK roots; the first that exists is used */
+  sdkRoots: string[];
+  /** JDK homes, e.g. JAVA_HOME */
+  jdkHomes: string[];
+  /** Directories whose children are JDK homes, e.g. /usr/lib/jvm */
+  jdkDirectories: string[];
+}
+
+/**
+ * The parts of a template requirements are read from
+ */
+export interface ToolchainTemplate {
+  id: string;
+  name: string;
+  minSdkVersion: number;
+  targetSdkVersion: number;
+  /** Project directories, later ones overriding earlier ones */
+  sourceLayers: string[];
+}
+
+/**
+ * Oldest JDK and build-tools an Android Gradle Plugin release works with
+ */
+interface AgpRequirement {
+  agp: string;
+  jdk: number;
+  buildTools: string;
+}
+
+/**
+ * Assumed for projects whose build files name no plugin version
+ */
+const DEFAULT_AGP_VERSION = '8.2.0';
+
+/**
+ * From the Android Gradle Plugin release notes, oldest release first
+ */
+const AGP_REQUIREMENTS: AgpRequirement[] = [
+  { agp: '7.0', jdk: 11, buildTools: '30.0.2' },
+  { agp: '7.1', jdk: 11, buildTools: '30.0.3' },
+  { agp: '8.0', jdk: 17, buildTools: '30.0.3' },
+  { agp: '8.1', jdk: 17, buildTools: '33.0.1' },
+  { agp: '8.2', jdk: 17, buildTools: '34.0.0' },
+];
+
+const BUILD_FILES = [
+  'build.gradle',
+  'build.gradle.kts',
+  path.join('app', 'build.gradle'),
+  path.join('app', 'build.gradle.kts'),
+  path.join('gradle', 'libs.versions.toml'),
+];
+
+/** `classpath 'com.android.tools.build:gradle:8.2.0'` */
+const AGP_CLASSPATH = /com\.android\.tools\.build:gradle:(\d+\.\d+[\w.-]*)/;
+/** `id("com.android.application") version "8.2.0"` */
+const AGP_PLUGIN = /id\s*\(?\s*["']com\.android\.(?:application|library)["']\s*\)?\s*version\s*["'](\d+\.\d+[\w.-]*)["']/;
+/** `agp = "8.2.0"` in a version catalog */
+const AGP_CATALOG = /^\s*(?:agp|androidGradlePlugin|android-gradle-plugin)\s*=\s*["'](\d+\.\d+[\w.-]*)["']/m;
+const COMPILE_SDK = /compileSdk(?:Version)?\s*(?:=\s*)?\(?\s*(\d+)/;
+const NDK_VERSION = /ndkVersion\s*(?:=\s*)?["']([\d.]+)["']/;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ToolchainManager Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Keeps the inventory of installed toolchains and the one pinned per app
+ */
+export class ToolchainManager {
+  private scanned: ToolchainInventory | null = null;
+
+  constructor(
+    private readonly store: ToolchainStore,
+    private readonly searchPaths: ToolchainSearchPaths = defaultSearchPaths()
+  ) {}
+
+  /**
+   * Installed components, scanned on first use or when asked to
+   */
+  async inventory(refresh = false): Promise<ToolchainInventory> {
+    if (!this.scanned || refresh) {
+      this.scanned = await scanToolchains(this.searchPaths);
+    }
+    return this.scanned;
+  }
+
+  /**
+   * Whether each template builds with what is installed
+   */
+  async compatibility(templates: ToolchainTemplate[]): Promise<TemplateToolchainCompatibility[]> {
+    const inventory = await this.inventory();
+    return Promise.all(templates.map(async (template) => ({
+      templateId: template.id,
+      templateName: template.name,
+      resolution: resolveToolchain(inventory, await readRequirements(template)),
+    })));
+  }
+
+  /**
+   * The toolchain an app builds with. A pinned toolchain is kept as long
+   * as its components are installed; without one, a compatible set is
+   * picked and pinned.
+   */
+  async resolveForApp(appId: string, template: ToolchainTemplate): Promise<ToolchainResolution> {
+    const requirements = await readRequirements(template);
+    const pinned = this.store.pinForApp(appId);
+    if (pinned) {
+      const missing = await verifyPin(pinned);
+      const selected = pinnedComponents(pinned).filter((component) =>
+        !missing.some((gone) => gone.kind === component.kind));
+      return { requirements, pin: missing.length === 0 ? pinned : null, selected, missing };
+    }
+
+    return this.pin(appId, template);
+  }
+
+  /**
+   * Pick a compatible set from a fresh inventory and pin it, replacing
+   * the app's earlier pin. Nothing is pinned when a component is missing.
+   */
+  async pin(appId: string, template: ToolchainTemplate): Promise<ToolchainResolution> {
+    const resolution = resolveToolchain(await this.inventory(true), await readRequirements(template));
+    if (resolution.pin && !this.store.pin(appId, resolution.pin)) {
+      throw new Error(`App not found: ${appId}`);
+    }
+    return resolution;
+  }
+
+  /**
+   * Toolchain pinned for an app, if any
+   */
+  pinForApp(appId: string): ToolchainPin | undefined {
+    return this.store.pinForApp(appId);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The usual install locations on this platform
+ */
+export function defaultSearchPaths(): ToolchainSearchPaths {
+  const home = os.homedir();
+  const env = process.env;
+  const fromEnv = (...names: string[]) => names.map((name) => env[name]).filter((value): value is string => !!value);
+
+  if (process.platform === 'win32') {
+    const localAppData = env.LOCALAPPDATA || path.join(home, 'AppData', 'Local');
+    const programFiles = env.ProgramFiles || 'C:\\Program Files';
+    return {
+      sdkRoots: [...fromEnv('ANDROID_SDK_ROOT', 'ANDROID_HOME'), path.join(localAppData, 'Android', 'Sdk')],
+      jdkHomes: [...fromEnv('JAVA_HOME'), path.join(programFiles, 'Android', 'Android Studio', 'jbr')],
+      jdkDirectories: [
+        path.join(programFiles, 'Java'),
+        path.join(programFiles, 'Eclipse Adoptium'),
+        path.join(programFiles, 'Microsoft'),
+        path.join(home, '.gradle', 'jdks'),
+      ],
+    };
+  }
+
+  if (process.platform === 'darwin') {
+    return {
+      sdkRoots: [...fromEnv('ANDROID_SDK_ROOT', 'ANDROID_HOME'), path.join(home, 'Library', 'Android', 'sdk')],
+      jdkHomes: [...fromEnv('JAVA_HOME'), '/Applications/Android Studio.app/Contents/jbr/Contents/Home'],
+      jdkDirectories: [
+        '/Library/Java/JavaVirtualMachines',
+        path.join(home, 'Library', 'Java', 'JavaVirtualMachines'),
+        path.join(home, '.gradle', 'jdks'),
+        path.join(home, '.sdkman', 'candidates', 'java'),
+      ],
+    };
+  }
+
+  return {
+    sdkRoots: [...fromEnv('ANDROID_SDK_ROOT', 'ANDROID_HOME'), path.join(home, 'Android', 'Sdk')],
+    jdkHomes: [...fromEnv('JAVA_HOME'), '/opt/android-studio/jbr'],
+    jdkDirectories: [
+      '/usr/lib/jvm',
+      path.join(home, '.gradle', 'jdks'),
+      path.join(home, '.sdkman', 'candidates', 'java'),
+    ],
+  };
+}
+
+/**
+ * Find the installed JDKs and the packages of the first SDK root that
+ * exists. Newest versions first within each kind.
+ */
+export async function scanToolchains(searchPaths: ToolchainSearchPaths): Promise<ToolchainInventory> {
+  const components: ToolchainComponent[] = [];
+  const seen = new Set<string>();
+
+  const candidates = [...searchPaths.jdkHomes];
+  for (const directory of searchPaths.jdkDirectories) {
+    for (const name of await readDirectory(directory)) {
+      candidates.push(path.join(directory, name), path.join(directory, name, 'Contents', 'Home'));
+    }
+  }
+  for (const candidate of candidates) {
+    const version = await readJavaVersion(candidate);
+    const real = version ? await fs.realpath(candidate) : null;
+    if (version && real && !seen.has(real)) {
+      seen.add(real);
+      components.push({ kind: 'jdk', version, path: candidate });
+    }
+  }
+
+  let sdkRoot: string | null = null;
+  for (const candidate of searchPaths.sdkRoots) {
+    if (await fs.pathExists(candidate)) {
+      sdkRoot = candidate;
+      break;
+    }
+  }
+
+  if (sdkRoot) {
+    components.push(
+      ...(await scanPackages(sdkRoot, 'platforms', 'platform', /^AndroidVersion\.ApiLevel=(\S+)/m, /^android-(\d+)$/)),
+      ...(await scanPackages(sdkRoot, 'build-tools', 'build-tools', /^Pkg\.Revision=(.+?)\s*$/m, /^([\d.]+)$/)),
+      ...(await scanPackages(sdkRoot, 'ndk', 'ndk', /^Pkg\.Revision=(.+?)\s*$/m, /^([\d.]+)$/)),
+      ...(await scanPackages(sdkRoot, '', 'ndk', /^Pkg\.Revision=(.+?)\s*$/m, null, 'ndk-bundle'))
+    );
+  }
+
+  components.sort((a, b) => a.kind.localeCompare(b.kind) || compareVersions(b.version, a.version));
+  return { sdkRoot, components, scannedAt: new Date() };
+}
+
+/**
+ * What a template's project needs: its SDK versions from morph.yaml, and
+ * the plugin version, compile SDK and NDK its build files declare
+ */
+export async function readRequirements(template: ToolchainTemplate): Promise<ToolchainRequirements> {
+  let agpVersion: string | undefined;
+  let compileSdk: number | undefined;
+  let ndkVersion: string | undefined;
+
+  for (const layer of template.sourceLayers) {
+    for (const file of BUILD_FILES) {
+      const filePath = path.join(layer, file);
+      if (!(await fs.pathExists(filePath))) {
+        continue;
+      }
+      const content = await fs.readFile(filePath, 'utf-8');
+      agpVersion = (AGP_CLASSPATH.exec(content) ?? AGP_PLUGIN.exec(content) ?? AGP_CATALOG.exec(content))?.[1] ??
+        agpVersion;
+      const compile = COMPILE_SDK.exec(content);
+      compileSdk = compile ? Number(compile[1]) : compileSdk;
+      ndkVersion = NDK_VERSION.exec(content)?.[1] ?? ndkVersion;
+    }
+  }
+
+  return {
+    minSdk: template.minSdkVersion,
+    targetSdk: template.targetSdkVersion,
+    compileSdk: Math.max(compileSdk ?? 0, template.targetSdkVersion),
+    agpVersion: agpVersion ?? DEFAULT_AGP_VERSION,
+    ndkVersion,
+  };
+}
+
+/**
+ * Pick components that satisfy the requirements: the oldest JDK the
+ * plugin accepts, the platform of the compile SDK, the newest
+ * build-tools the plugin accepts and the NDK the project names.
+ */
+export function resolveToolchain(inventory: ToolchainInventory, requirements: ToolchainRequirements): ToolchainResolution {
+  const agp = agpRequirement(requirements.agpVersion);
+  const installed = (kind: ToolchainComponentKind) =>
+    inventory.components.filter((component) => component.kind === kind);
+  const missing: MissingToolchainComponent[] = [];
+
+  const jdk = installed('jdk')
+    .filter((component) => javaMajor(component.version) >= agp.jdk)
+    .sort((a, b) => compareVersions(a.version, b.version))[0];
+  if (!jdk) {
+    missing.push({ kind: 'jdk', requirement: `JDK ${agp.jdk} or newer for Android Gradle Plugin ${requirements.agpVersion}` });
+  }
+
+  const platform = installed('platform').find((component) => component.version === String(requirements.compileSdk));
+  if (!platform) {
+    const sdkPackage = `platforms;android-${requirements.compileSdk}`;
+    missing.push({ kind: 'platform', requirement: `Android ${requirements.compileSdk} SDK platform`, sdkPackage });
+  }
+
+  const buildTools = installed('build-tools').find((component) =>
+    /^\d+\.\d+\.\d+$/.test(component.version) && compareVersions(component.version, agp.buildTools) >= 0);
+  if (!buildTools) {
+    missing.push({
+      kind: 'build-tools',
+      requirement: `Build-tools ${agp.buildTools} or newer`,
+      sdkPackage: `build-tools;${agp.buildTools}`,
+    });
+  }
+
+  const ndk = requirements.ndkVersion
+    ? installed('ndk').find((component) => component.version === requirements.ndkVersion)
+    : undefined;
+  if (requirements.ndkVersion && !ndk) {
+    missing.push({
+      kind: 'ndk',
+      requirement: `NDK ${requirements.ndkVersion}`,
+      sdkPackage: `ndk;${requirements.ndkVersion}`,
+    });
+  }
+
+  // A platform is only found inside an SDK root
+  const pin = missing.length === 0
+    ? { sdkRoot: inventory.sdkRoot!, jdk: jdk!, platform: platform!, buildTools: buildTools!, ndk, pinnedAt: new Date() }
+    : null;
+  const selected = [jdk, platform, buildTools, ndk].filter((component): component is ToolchainComponent => !!component);
+  return { requirements, pin, selected, missing };
+}
+
+/**
+ * Components of a pin that are no longer installed
+ */
+export async function verifyPin(pin: ToolchainPin): Promise<MissingToolchainComponent[]> {
+  const missing: MissingToolchainComponent[] = [];
+  for (const component of pinnedComponents(pin)) {
+    if (!(await fs.pathExists(component.path))) {
+      missing.push({
+        kind: component.kind,
+        requirement: `${describeComponent(component)} at ${component.path}`,
+        sdkPackage: sdkPackageOf(component),
+      });
+    }
+  }
+  return missing;
+}
+
+/**
+ * Readable name of a component, e.g. `JDK 17.0.9`
+ */
+export function describeComponent(component: ToolchainComponent): string {
+  const names: Record<ToolchainComponentKind, string> = {
+    jdk: 'JDK',
+    platform: 'Android SDK platform',
+    'build-tools': 'Build-tools',
+    ndk: 'NDK',
+  };
+  return `${names[component.kind]} ${component.version}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function readDirectory(directory: string): Promise<string[]> {
+  try {
+    return (await fs.readdir(directory)).sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * JAVA_VERSION from a JDK's `release` file, or null when it is not a JDK
+ */
+async function readJavaVersion(home: string): Promise<string | null> {
+  const release = path.join(home, 'release');
+  const javac = path.join(home, 'bin', process.platform === 'win32' ? 'javac.exe' : 'javac');
+  if (!(await fs.pathExists(release)) || !(await fs.pathExists(javac))) {
+    return null;
+  }
+  return /^JAVA_VERSION="?([^"\n]+)/m.exec(await fs.readFile(release, 'utf-8'))?.[1] ?? null;
+}
+
+/**
+ * Packages in one SDK directory, versioned by their source.properties or
+ * else by their directory name
+ */
+async function scanPackages(
+  sdkRoot: string,
+  directory: string,
+  kind: ToolchainComponentKind,
+  property: RegExp,
+  dirPattern: RegExp | null,
+  only?: string
+): Promise<ToolchainComponent[]> {
+  const parent = path.join(sdkRoot, directory);
+  const names = only ? [only] : await readDirectory(parent);
+  const components: ToolchainComponent[] = [];
+
+  for (const name of names) {
+    const packagePath = path.join(parent, name);
+    const properties = path.join(packagePath, 'source.properties');
+    const version = (await fs.pathExists(properties))
+      ? property.exec(await fs.readFile(properties, 'utf-8'))?.[1]
+      : dirPattern?.exec(name)?.[1];
+    if (version) {
+      components.push({ kind, version, path: packagePath });
+    }
+  }
+  return components;
+}
+
+function pinnedComponents(pin: ToolchainPin): ToolchainComponent[] {
+  return [pin.jdk, pin.platform, pin.buildTools, ...(pin.ndk ? [pin.ndk] : [])];
+}
+
+function agpRequirement(version: string): AgpRequirement {
+  const supported = AGP_REQUIREMENTS.filter((requirement) => compareVersions(version, requirement.agp) >= 0);
+  return supported[supported.length - 1] ?? AGP_REQUIREMENTS[0];
+}
+
+/**
+ * Feature release of a Java version: `1.8.0_392` is 8, `17.0.9` is 17
+ */
+function javaMajor(version: string): number {
+  const [first, second] = version.split('.').map((part) => parseInt(part, 10));
+  return first === 1 ? second : first;
+}
+
+function sdkPackageOf(component: ToolchainComponent): string | undefined {
+  switch (component.kind) {
+    case 'platform':
+      return `platforms;android-${component.version}`;
+    case 'build-tools':
+      return `build-tools;${component.version}`;
+    case 'ndk':
+      return `ndk;${component.version}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Compare dotted version strings numerically (`34.0.0` > `33.0.1`)
+ */
+function compareVersions(a: string, b: string): number {
+  const left = a.split(/[._-]/);
+  const right = b.split(/[._-]/);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (parseInt(left[i], 10) || 0) - (parseInt(right[i], 10) || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+export default ToolchainManager;
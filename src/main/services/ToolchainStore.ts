@@ -0,0 +1,52 @@
+/**
+ * ToolchainStore.ts - Toolchain Pin Persistence
+ *
+ * Stores the toolchain pinned for each app in the `apps` table.
+ */
+
+import type { DatabaseService } from '../database/Database';
+import type { ToolchainPin } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Persistence used by the toolchain manager
+ */
+export interface ToolchainStore {
+  pinForApp(appId: string): ToolchainPin | undefined;
+  /** Returns false when the app does not exist */
+  pin(appId: string, pin: ToolchainPin | null): boolean;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SqliteToolchainStore Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Toolchain pins backed by the app database
+ */
+export class SqliteToolchainStore implements ToolchainStore {
+  constructor(private database: DatabaseService) {}
+
+  pinForApp(appId: string): ToolchainPin | undefined {
+    const row = this.database.get<{ toolchain: string | null }>('SELECT toolchain FROM apps WHERE id = ?', [appId]);
+    if (!row?.toolchain) {
+      return undefined;
+    }
+
+    const pin = JSON.parse(row.toolchain);
+    return { ...pin, pinnedAt: new Date(pin.pinnedAt) };
+  }
+
+  pin(appId: string, pin: ToolchainPin | null): boolean {
+    const result = this.database.run('UPDATE apps SET toolchain = ? WHERE id = ?', [
+      pin ? JSON.stringify(pin) : null,
+      appId,
+    ]);
+    return result.changes > 0;
+  }
+}
+
+export default SqliteToolchainStore;
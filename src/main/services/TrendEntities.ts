@@ -0,0 +1,169 @@
+/**
+ * TrendEntities.ts - Cross-source Trend Entity Resolution
+ *
+ * Merges ingested trends that name the same topic into one canonical
+ * trend, an entity, which keeps the signal of every source that reported
+ * it. A trend joins the most similar entity when the TF-IDF similarity
+ * of their text reaches the merge threshold, and starts a new entity
+ * otherwise. Entities that are related without being the same topic are
+ * linked by weighted edges.
+ */
+
+import { randomUUID } from 'crypto';
+import { TfIdfIndex, matchKey } from './TrendMatching';
+import { summarizeEntity, type TrendEntityStore } from './TrendEntityStore';
+import type { IngestedTrend } from './TrendStore';
+import type { RelatedTrendEntity, TrendEdge, TrendEntity, TrendEntitySignal } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface TrendResolution {
+  /** Entities started by trends no existing entity matched */
+  created: number;
+  /** Trends merged into an entity another trend started */
+  merged: number;
+  /** Ids of the entities whose signals changed */
+  entities: string[];
+}
+
+export interface TrendEntityThresholds {
+  /** Similarity from which a trend joins an entity */
+  merge: number;
+  /** Similarity from which two entities are linked by an edge */
+  relate: number;
+}
+
+const DEFAULT_THRESHOLDS: TrendEntityThresholds = { merge: 0.6, relate: 0.2 };
+
+/**
+ * Edges kept per entity, strongest first
+ */
+const MAX_EDGES = 10;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TrendEntities Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class TrendEntities {
+  constructor(
+    private store: TrendEntityStore,
+    private readonly thresholds: TrendEntityThresholds = DEFAULT_THRESHOLDS
+  ) {}
+
+  /**
+   * Entities by their highest score
+   */
+  list(limit = Infinity): TrendEntity[] {
+    return this.store.entities()
+      .sort((a, b) => b.score - a.score || b.volume - a.volume)
+      .slice(0, limit);
+  }
+
+  /**
+   * Entities linked to an entity, strongest edge first
+   */
+  related(id: string): RelatedTrendEntity[] {
+    const entities = new Map(this.store.entities().map((entity) => [entity.id, entity]));
+    return this.store.edges(id)
+      .filter((edge) => entities.has(edge.relatedId))
+      .map((edge) => ({ entity: entities.get(edge.relatedId)!, weight: edge.weight }));
+  }
+
+  /**
+   * Merge trends into entities and update the edges of the entities that
+   * changed. A trend stays in the entity it first joined.
+   */
+  resolve(trends: IngestedTrend[], seenAt: Date): TrendResolution {
+    const entities = new Map(this.store.entities().map((entity) => [entity.id, entity]));
+    const memberOf = new Map<string, string>();
+    const index = new TfIdfIndex();
+
+    for (const entity of entities.values()) {
+      index.add(entity.id, documentOf(entity));
+      for (const signal of entity.signals) {
+        memberOf.set(signal.trendId, entity.id);
+      }
+    }
+
+    const changed = new Set<string>();
+    let created = 0;
+    let merged = 0;
+
+    for (const trend of trends) {
+      let entity = entities.get(memberOf.get(trend.id) ?? '');
+      let similarity = entity?.signals.find((signal) => signal.trendId === trend.id)?.similarity ?? 1;
+
+      if (!entity) {
+        const [match] = index.nearest(trend.keyword, this.thresholds.merge, 1);
+        if (match) {
+          entity = entities.get(match.id)!;
+          similarity = round(match.similarity);
+          merged++;
+        } else {
+          entity = summarizeEntity(randomUUID(), trend.keyword, [], seenAt, seenAt);
+          similarity = 1;
+          created++;
+        }
+      }
+
+      const signal: TrendEntitySignal = {
+        trendId: trend.id,
+        source: trend.source,
+        keyword: trend.keyword,
+        score: trend.score,
+        volume: trend.volume,
+        growthRate: trend.growthRate,
+        similarity,
+        seenAt,
+      };
+      const signals = [...entity.signals.filter((existing) => existing.trendId !== trend.id), signal];
+      const label = signals.reduce((top, next) => (next.volume > top.volume ? next : top)).keyword;
+
+      entity = summarizeEntity(entity.id, label, signals, entity.firstSeen, seenAt);
+      this.store.saveEntity(entity);
+      this.store.link(entity.id, signal);
+
+      entities.set(entity.id, entity);
+      memberOf.set(trend.id, entity.id);
+      index.add(entity.id, documentOf(entity));
+      changed.add(entity.id);
+    }
+
+    for (const id of changed) {
+      const edges: TrendEdge[] = index.nearest(documentOf(entities.get(id)!), this.thresholds.relate, MAX_EDGES + 1)
+        .filter((match) => match.id !== id)
+        .slice(0, MAX_EDGES)
+        .map((match) => ({ relatedId: match.id, weight: round(match.similarity) }));
+      this.store.replaceEdges(id, edges, seenAt);
+    }
+
+    return { created, merged, entities: [...changed] };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The text an entity is matched on: one keyword per distinct spelling,
+ * so a topic reported by many sources does not drown out its words
+ */
+function documentOf(entity: TrendEntity): string {
+  const keywords = new Map<string, string>();
+  for (const signal of entity.signals) {
+    const key = matchKey(signal.keyword);
+    if (!keywords.has(key)) {
+      keywords.set(key, signal.keyword);
+    }
+  }
+  return keywords.size > 0 ? [...keywords.values()].join(' ') : entity.label;
+}
+
+function round(similarity: number): number {
+  return Math.round(similarity * 1000) / 1000;
+}
+
+export default TrendEntities;
@@ -0,0 +1,154 @@
+/**
+ * TrendEntityStore.ts - Trend Entity Persistence
+ *
+ * Stores the canonical trends that ingested trends are merged into, which
+ * trends each one merged, and the weighted edges between them.
+ */
+
+import type { DatabaseService } from '../database/Database';
+import type { TrendEdge, TrendEntity, TrendEntitySignal } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Persistence used by trend entity resolution
+ */
+export interface TrendEntityStore {
+  /** Every entity with its signals */
+  entities(): TrendEntity[];
+  /** Insert or update the label and timestamps of an entity */
+  saveEntity(entity: TrendEntity): void;
+  /** Merge a trend into an entity, moving it out of any other */
+  link(entityId: string, signal: TrendEntitySignal): void;
+  edges(id: string): TrendEdge[];
+  /** Replace every edge touching `id` */
+  replaceEdges(id: string, edges: TrendEdge[], updatedAt: Date): void;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SqliteTrendEntityStore Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Trend entity persistence backed by the app database. Signals are read
+ * from the trends table, so they follow the latest scan.
+ */
+export class SqliteTrendEntityStore implements TrendEntityStore {
+  constructor(private database: DatabaseService) {}
+
+  entities(): TrendEntity[] {
+    const rows = this.database.all<{
+      id: string;
+      label: string;
+      first_seen: string;
+      updated_at: string;
+    }>('SELECT id, label, first_seen, updated_at FROM trend_entities ORDER BY first_seen, id');
+
+    const members = this.database.all<{
+      entity_id: string;
+      trend_id: string;
+      similarity: number;
+      source: string;
+      keyword: string;
+      score: number;
+      volume: number | null;
+      growth_rate: number | null;
+      fetched_at: string;
+    }>(`
+      SELECT m.entity_id, m.trend_id, m.similarity, t.source, t.keyword, t.score, t.volume, t.growth_rate, t.fetched_at
+      FROM trend_entity_members m
+      JOIN trends t ON t.id = m.trend_id
+      ORDER BY m.linked_at, m.trend_id
+    `);
+
+    const signals = new Map<string, TrendEntitySignal[]>();
+    for (const member of members) {
+      const list = signals.get(member.entity_id) ?? [];
+      list.push({
+        trendId: member.trend_id,
+        source: member.source,
+        keyword: member.keyword,
+        score: member.score,
+        volume: member.volume ?? 0,
+        growthRate: member.growth_rate,
+        similarity: member.similarity,
+        seenAt: new Date(member.fetched_at),
+      });
+      signals.set(member.entity_id, list);
+    }
+
+    return rows.map((row) => summarizeEntity(
+      row.id,
+      row.label,
+      signals.get(row.id) ?? [],
+      new Date(row.first_seen),
+      new Date(row.updated_at)
+    ));
+  }
+
+  saveEntity(entity: TrendEntity): void {
+    this.database.run(`
+      INSERT INTO trend_entities (id, label, first_seen, updated_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET label = excluded.label, updated_at = excluded.updated_at
+    `, [entity.id, entity.label, entity.firstSeen.toISOString(), entity.updatedAt.toISOString()]);
+  }
+
+  link(entityId: string, signal: TrendEntitySignal): void {
+    this.database.run(`
+      INSERT INTO trend_entity_members (trend_id, entity_id, similarity, linked_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT(trend_id) DO UPDATE SET entity_id = excluded.entity_id, similarity = excluded.similarity
+    `, [signal.trendId, entityId, signal.similarity, signal.seenAt.toISOString()]);
+  }
+
+  edges(id: string): TrendEdge[] {
+    return this.database.all<TrendEdge>(`
+      SELECT related_id AS relatedId, weight FROM trend_edges WHERE trend_id = ?
+      UNION ALL
+      SELECT trend_id AS relatedId, weight FROM trend_edges WHERE related_id = ?
+      ORDER BY weight DESC
+    `, [id, id]);
+  }
+
+  replaceEdges(id: string, edges: TrendEdge[], updatedAt: Date): void {
+    this.database.transaction(() => {
+      this.database.run('DELETE FROM trend_edges WHERE trend_id = ? OR related_id = ?', [id, id]);
+      for (const edge of edges) {
+        const [first, second] = id < edge.relatedId ? [id, edge.relatedId] : [edge.relatedId, id];
+        this.database.run(
+          'INSERT INTO trend_edges (trend_id, related_id, weight, updated_at) VALUES (?, ?, ?, ?)',
+          [first, second, edge.weight, updatedAt.toISOString()]
+        );
+      }
+    });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * An entity with its aggregates computed from its signals
+ */
+export function summarizeEntity(
+  id: string,
+  label: string,
+  signals: TrendEntitySignal[],
+  firstSeen: Date,
+  updatedAt: Date
+): TrendEntity {
+  return {
+    id,
+    label,
+    sources: [...new Set(signals.map((signal) => signal.source))],
+    score: Math.max(0, ...signals.map((signal) => signal.score)),
+    volume: signals.reduce((sum, signal) => sum + signal.volume, 0),
+    signals,
+    firstSeen,
+    updatedAt,
+  };
+}
+
+export default SqliteTrendEntityStore;
@@ -0,0 +1,432 @@
+/**
+ * TrendForecast.ts - Trend Volume Forecasting
+ *
+ * Fits time-series models on the scan history of a trend: a linear
+ * trend as the baseline, double exponential smoothing (Holt) and, with
+ * two weeks of history, additive Holt-Winters with a weekly season.
+ * History is resampled to one value per day before fitting. Forecasts
+ * come with prediction intervals and an estimated peak, and a rolling
+ * backtest measures the error of each model on past history.
+ */
+
+import type {
+  TrendBacktestReport,
+  TrendForecastModel,
+  TrendForecastPoint,
+  TrendForecastResult,
+} from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A volume recorded by a scan
+ */
+export interface TrendObservation {
+  recordedAt: Date;
+  volume: number;
+}
+
+/**
+ * The scan history forecasts are fitted on
+ */
+export interface TrendHistorySource {
+  history(trendId: string): TrendObservation[];
+  /** Trends with at least this many history rows */
+  trendsWithHistory(minRows: number): string[];
+}
+
+/**
+ * A model fitted on a daily series
+ */
+interface FittedModel {
+  /** Point forecasts for the next `horizon` days */
+  predict(horizon: number): number[];
+  /** Standard error of the forecast `step` days ahead */
+  standardError(step: number): number;
+}
+
+interface ModelSpec {
+  /** Shortest series the model can be fitted on */
+  minLength: number;
+  fit(values: number[]): FittedModel;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SEASON_LENGTH = 7;
+
+/**
+ * Two-sided 95% intervals
+ */
+const CONFIDENCE = 0.95;
+const Z_SCORE = 1.96;
+
+/**
+ * Smoothing parameters tried when fitting, picked by one-step error
+ */
+const SMOOTHING_GRID = [0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const SEASONAL_GRID = [0.05, 0.1, 0.3, 0.5];
+
+const MODELS: Record<TrendForecastModel, ModelSpec> = {
+  linear: { minLength: 3, fit: fitLinear },
+  holt: { minLength: 4, fit: fitHolt },
+  'holt-winters': { minLength: 2 * SEASON_LENGTH, fit: fitHoltWinters },
+};
+
+const MODEL_NAMES = Object.keys(MODELS) as TrendForecastModel[];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TrendForecaster Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class TrendForecaster {
+  constructor(private history: TrendHistorySource) {}
+
+  /**
+   * Forecast the daily volume of a trend with the model that backtests
+   * best on its history, or the given one
+   */
+  forecast(trendId: string, horizonDays = 14, model?: TrendForecastModel): TrendForecastResult {
+    return { trendId, ...forecastSeries(this.history.history(trendId), horizonDays, model) };
+  }
+
+  /**
+   * Backtest every model on the trends with enough history
+   */
+  backtest(horizonDays = 7): TrendBacktestReport {
+    const series = this.history.trendsWithHistory(2 * SEASON_LENGTH)
+      .map((trendId) => this.history.history(trendId));
+    return backtest(series, horizonDays);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Mean volume per UTC day from the first to the last observation, with
+ * days without a scan interpolated linearly
+ */
+export function dailySeries(observations: TrendObservation[]): { start: Date; values: number[] } {
+  const days = new Map<number, number[]>();
+  for (const observation of observations) {
+    const day = Math.floor(observation.recordedAt.getTime() / DAY_MS);
+    days.set(day, [...(days.get(day) ?? []), observation.volume]);
+  }
+  if (days.size === 0) {
+    return { start: new Date(0), values: [] };
+  }
+
+  const sorted = [...days.keys()].sort((a, b) => a - b);
+  const first = sorted[0];
+  const known = new Map(sorted.map((day) => [day, mean(days.get(day)!)]));
+  const values: number[] = [];
+
+  let previous = first;
+  for (const day of sorted) {
+    for (let gap = previous + 1; gap < day; gap++) {
+      const share = (gap - previous) / (day - previous);
+      values.push(known.get(previous)! + share * (known.get(day)! - known.get(previous)!));
+    }
+    values.push(known.get(day)!);
+    previous = day;
+  }
+
+  return { start: new Date(first * DAY_MS), values };
+}
+
+/**
+ * Forecast a history. Without a model, the one with the lowest backtest
+ * error on this history is used; with too little history to backtest
+ * any, Holt is preferred over the linear baseline.
+ */
+export function forecastSeries(
+  observations: TrendObservation[],
+  horizonDays: number,
+  model?: TrendForecastModel
+): Omit<TrendForecastResult, 'trendId'> {
+  assertHorizon(horizonDays);
+
+  const { start, values } = dailySeries(observations);
+  const usable = MODEL_NAMES.filter((name) => values.length >= MODELS[name].minLength);
+  if (usable.length === 0) {
+    throw new Error(`A forecast needs at least ${MODELS.linear.minLength} days of history, got ${values.length}`);
+  }
+  if (model && !usable.includes(model)) {
+    throw new Error(`The ${model} model needs at least ${MODELS[model].minLength} days of history, got ${values.length}`);
+  }
+
+  // Only models with history left over to test against take part
+  const testHorizon = Math.min(horizonDays, SEASON_LENGTH);
+  const testable = (model ? [model] : usable)
+    .filter((name) => MODELS[name].minLength + testHorizon <= values.length);
+  const errors = backtestSeries(values, testHorizon, testable);
+  const chosen = model
+    ?? [...errors.entries()].sort((a, b) => a[1].mape - b[1].mape)[0]?.[0]
+    ?? (usable.includes('holt') ? 'holt' : 'linear');
+
+  const fitted = MODELS[chosen].fit(values);
+  const last = values.length - 1;
+  const dateOf = (index: number) => new Date(start.getTime() + index * DAY_MS);
+
+  const forecast: TrendForecastPoint[] = fitted.predict(horizonDays).map((predicted, step) => {
+    const margin = Z_SCORE * fitted.standardError(step + 1);
+    const volume = Math.max(0, predicted);
+    return {
+      date: dateOf(last + step + 1),
+      volume: round(volume),
+      lower: round(Math.max(0, predicted - margin)),
+      upper: round(Math.max(0, predicted + margin)),
+    };
+  });
+
+  const actual = values.map((volume, index) => ({ date: dateOf(index), volume: round(volume) }));
+  const peak = [...actual, ...forecast].reduce((top, next) => (next.volume > top.volume ? next : top));
+  const stillRising = peak === forecast[forecast.length - 1];
+
+  return {
+    model: chosen,
+    actual,
+    forecast,
+    confidence: CONFIDENCE,
+    peakDate: stillRising ? undefined : peak.date,
+    peakVolume: stillRising ? undefined : peak.volume,
+    mape: errors.get(chosen)?.mape,
+  };
+}
+
+/**
+ * Rolling-origin backtest over many histories: each model is fitted on
+ * every prefix that leaves `horizonDays` to predict, stepping a horizon
+ * at a time, and scored by the mean absolute percentage error of its
+ * predictions. Every model is scored on the same windows.
+ */
+export function backtest(histories: TrendObservation[][], horizonDays = 7): TrendBacktestReport {
+  assertHorizon(horizonDays);
+  const totals = new Map<TrendForecastModel, { error: number; points: number; forecasts: number }>();
+  let trends = 0;
+
+  for (const observations of histories) {
+    const { values } = dailySeries(observations);
+    const errors = backtestSeries(values, horizonDays, MODEL_NAMES);
+    if (errors.size === 0) {
+      continue;
+    }
+
+    trends++;
+    for (const [model, result] of errors) {
+      const total = totals.get(model) ?? { error: 0, points: 0, forecasts: 0 };
+      total.error += result.mape * result.points;
+      total.points += result.points;
+      total.forecasts += result.forecasts;
+      totals.set(model, total);
+    }
+  }
+
+  const models = MODEL_NAMES
+    .filter((model) => totals.has(model))
+    .map((model) => {
+      const total = totals.get(model)!;
+      return { model, mape: round(total.error / total.points), forecasts: total.forecasts };
+    });
+
+  return {
+    horizonDays,
+    trends,
+    models,
+    best: [...models].sort((a, b) => a.mape - b.mape)[0]?.model,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Models
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Least-squares line through the series
+ */
+function fitLinear(values: number[]): FittedModel {
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = mean(values);
+  let sxx = 0;
+  let sxy = 0;
+  values.forEach((y, x) => {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (y - meanY);
+  });
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const sse = values.reduce((sum, y, x) => sum + (y - (intercept + slope * x)) ** 2, 0);
+  const sigma = Math.sqrt(sse / Math.max(1, n - 2));
+
+  return {
+    predict: (horizon) => range(horizon).map((step) => intercept + slope * (n - 1 + step)),
+    standardError: (step) => sigma * Math.sqrt(1 + 1 / n + (n - 1 + step - meanX) ** 2 / sxx),
+  };
+}
+
+/**
+ * Double exponential smoothing of level and trend
+ */
+function fitHolt(values: number[]): FittedModel {
+  let best: { sse: number; alpha: number; beta: number; level: number; trend: number } | null = null;
+
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of SMOOTHING_GRID) {
+      let level = values[0];
+      let trend = values[1] - values[0];
+      let sse = 0;
+      for (let t = 1; t < values.length; t++) {
+        const error = values[t] - (level + trend);
+        sse += error * error;
+        const previousLevel = level;
+        level = alpha * values[t] + (1 - alpha) * (level + trend);
+        trend = beta * (level - previousLevel) + (1 - beta) * trend;
+      }
+      if (!best || sse < best.sse) {
+        best = { sse, alpha, beta, level, trend };
+      }
+    }
+  }
+
+  const { sse, alpha, beta, level, trend } = best!;
+  const sigma = Math.sqrt(sse / Math.max(1, values.length - 3));
+
+  return {
+    predict: (horizon) => range(horizon).map((step) => level + step * trend),
+    standardError: (step) => {
+      let variance = 1;
+      for (let j = 1; j < step; j++) {
+        variance += (alpha * (1 + j * beta)) ** 2;
+      }
+      return sigma * Math.sqrt(variance);
+    },
+  };
+}
+
+/**
+ * Additive Holt-Winters with a weekly season, initialized from the
+ * first two seasons
+ */
+function fitHoltWinters(values: number[]): FittedModel {
+  const m = SEASON_LENGTH;
+  const firstMean = mean(values.slice(0, m));
+  const secondMean = mean(values.slice(m, 2 * m));
+  let best: {
+    sse: number;
+    alpha: number;
+    beta: number;
+    gamma: number;
+    level: number;
+    trend: number;
+    seasonal: number[];
+  } | null = null;
+
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of SMOOTHING_GRID) {
+      for (const gamma of SEASONAL_GRID) {
+        let level = firstMean;
+        let trend = (secondMean - firstMean) / m;
+        const seasonal = values.slice(0, m).map((value) => value - firstMean);
+        let sse = 0;
+
+        for (let t = m; t < values.length; t++) {
+          const season = seasonal[t - m];
+          const error = values[t] - (level + trend + season);
+          sse += error * error;
+          const previousLevel = level;
+          level = alpha * (values[t] - season) + (1 - alpha) * (level + trend);
+          trend = beta * (level - previousLevel) + (1 - beta) * trend;
+          seasonal.push(gamma * (values[t] - level) + (1 - gamma) * season);
+        }
+
+        if (!best || sse < best.sse) {
+          best = { sse, alpha, beta, gamma, level, trend, seasonal: seasonal.slice(-m) };
+        }
+      }
+    }
+  }
+
+  const { sse, alpha, beta, gamma, level, trend, seasonal } = best!;
+  const sigma = Math.sqrt(sse / Math.max(1, values.length - m - 3));
+
+  return {
+    predict: (horizon) => range(horizon).map((step) => level + step * trend + seasonal[(step - 1) % m]),
+    standardError: (step) => {
+      let variance = 1;
+      for (let j = 1; j < step; j++) {
+        variance += (alpha * (1 + j * beta) + (j % m === 0 ? gamma : 0)) ** 2;
+      }
+      return sigma * Math.sqrt(variance);
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * MAPE of each model on one daily series, over the windows every model
+ * can be fitted for. Days with no volume are left out of the error.
+ */
+function backtestSeries(
+  values: number[],
+  horizon: number,
+  models: TrendForecastModel[]
+): Map<TrendForecastModel, { mape: number; points: number; forecasts: number }> {
+  const results = new Map<TrendForecastModel, { mape: number; points: number; forecasts: number }>();
+  const firstOrigin = Math.max(...models.map((model) => MODELS[model].minLength));
+
+  for (const model of models) {
+    let error = 0;
+    let points = 0;
+    let forecasts = 0;
+
+    for (let origin = firstOrigin; origin + horizon <= values.length; origin += horizon) {
+      const predicted = MODELS[model].fit(values.slice(0, origin)).predict(horizon);
+      forecasts++;
+      predicted.forEach((value, step) => {
+        const actual = values[origin + step];
+        if (actual > 0) {
+          error += Math.abs(actual - Math.max(0, value)) / actual;
+          points++;
+        }
+      });
+    }
+
+    if (points > 0) {
+      results.set(model, { mape: round((error / points) * 100), points, forecasts });
+    }
+  }
+
+  return results;
+}
+
+function assertHorizon(horizonDays: number): void {
+  if (!Number.isInteger(horizonDays) || horizonDays <= 0) {
+    throw new Error(`Forecast horizon must be a positive number of days, got ${horizonDays}`);
+  }
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * 1..count
+ */
+function range(count: number): number[] {
+  return Array.from({ length: count }, (_, index) => index + 1);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export default TrendForecaster;
@@ -0,0 +1,407 @@
+/**
+ * TrendIngestion.ts - Scheduled Trend Scans
+ *
+ * Polls the registered trend sources, each on its own interval, and
+ * writes the trends they return to the trends table with a history
+ * snapshot per scan. A source that fails backs off and is retried with
+ * growing delays until it succeeds again. With entity resolution, the
+ * trends of each poll are merged into the canonical trends of their
+ * topics. Sources that can watch for new data, such as watched folders,
+ * are also polled whenever they report a change. Emits `scan:progress`
+ * after each source and `scan:complete` when a scan is done.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import type { IngestedTrend, TrendSourceState, TrendStore } from './TrendStore';
+import type { TrendEntities } from './TrendEntities';
+import type { TrendData } from '../apis/types';
+import type {
+  TrendIngestionSettings,
+  TrendIngestionStatus,
+  TrendScanProgress,
+  TrendScanResult,
+  TrendSourceStatus,
+} from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * What ingestion needs of a trend source adapter
+ */
+export interface PolledTrendSource {
+  source: string;
+  /** Overrides the scan interval of the trend settings */
+  pollIntervalHours?: number;
+  /** Set on plugin sources, which are polled whatever the included sources */
+  plugin?: string;
+  fetchTrends(limit?: number): Promise<TrendData[]>;
+  /** Call back when there is new data; returns a function that stops watching */
+  watch?(onChange: () => void): () => void;
+}
+
+/**
+ * Where the sources to poll are registered, e.g. TrendManager
+ */
+export interface TrendSourceRegistry {
+  listSources(): PolledTrendSource[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * First retry of a failed source; doubles with each further failure
+ */
+const RETRY_DELAY_MS = 15 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 24 * HOUR_MS;
+
+/**
+ * Longest delay setTimeout accepts
+ */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Settings names of sources whose adapters register under another name
+ */
+const SETTINGS_NAMES: Record<string, string> = {
+  'google-trends': 'google',
+  'play-store': 'playstore',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TrendIngestion Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class TrendIngestion extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<TrendScanResult> | null = null;
+  private started = false;
+  private watchers: Map<PolledTrendSource, () => void> = new Map();
+
+  constructor(
+    private store: TrendStore,
+    private registry: TrendSourceRegistry,
+    private readonly entities: TrendEntities | null = null,
+    private readonly now: () => Date = () => new Date()
+  ) {
+    super();
+  }
+
+  /**
+   * Poll sources as they fall due while auto scan is enabled
+   */
+  start(): void {
+    this.started = true;
+    this.schedule();
+  }
+
+  stop(): void {
+    this.started = false;
+    this.clearTimer();
+    this.unwatch(() => true);
+  }
+
+  /**
+   * Pick up sources registered or removed since the last schedule, e.g.
+   * after the trend plugins changed
+   */
+  reschedule(): void {
+    this.schedule();
+  }
+
+  getStatus(): TrendIngestionStatus {
+    const settings = this.store.getSettings();
+    return {
+      settings,
+      scanning: this.running !== null,
+      sources: this.enabledSources(settings).map((source) => this.statusOf(source, settings)),
+    };
+  }
+
+  /**
+   * Change the settings and reschedule
+   */
+  configure(settings: TrendIngestionSettings): TrendIngestionStatus {
+    if (!Number.isFinite(settings.scanIntervalHours) || settings.scanIntervalHours <= 0) {
+      throw new Error(`Scan interval must be a positive number of hours, got ${settings.scanIntervalHours}`);
+    }
+    if (!Number.isInteger(settings.maxTrendsToFetch) || settings.maxTrendsToFetch <= 0) {
+      throw new Error(`Trends to fetch must be a positive whole number, got ${settings.maxTrendsToFetch}`);
+    }
+
+    this.store.saveSettings(settings);
+    this.schedule();
+    return this.getStatus();
+  }
+
+  /**
+   * Poll every included source now, including ones backing off. Joins
+   * the scan in progress if there is one.
+   */
+  scan(): Promise<TrendScanResult> {
+    return this.run(this.enabledSources(this.store.getSettings()));
+  }
+
+  /**
+   * Poll the included sources that are due. Returns null when auto scan
+   * is off or no source is due.
+   */
+  async runDue(): Promise<TrendScanResult | null> {
+    const settings = this.store.getSettings();
+    const now = this.now().getTime();
+    const due = this.enabledSources(settings)
+      .filter((source) => this.nextRunOf(source, settings).getTime() <= now);
+
+    if (!settings.autoScanEnabled || due.length === 0 || this.running) {
+      this.schedule();
+      return null;
+    }
+    return this.run(due);
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Private Methods
+  // ───────────────────────────────────────────────────────────────────────────
+
+  private run(sources: PolledTrendSource[]): Promise<TrendScanResult> {
+    if (!this.running) {
+      this.clearTimer();
+      this.running = this.poll(sources).finally(() => {
+        this.running = null;
+        this.schedule();
+      });
+    }
+    return this.running;
+  }
+
+  private async poll(sources: PolledTrendSource[]): Promise<TrendScanResult> {
+    const settings = this.store.getSettings();
+    const scanId = randomUUID();
+    const startedAt = this.now();
+    const outcomes: TrendScanResult['sources'] = [];
+    let stored = 0;
+
+    for (const source of sources) {
+      const previous = this.store.sourceState(source.source);
+      const polledAt = this.now();
+      let state: TrendSourceState;
+
+      try {
+        const fetched = (await source.fetchTrends(settings.maxTrendsToFetch)).slice(0, settings.maxTrendsToFetch);
+        const trends = normalizeTrends(source.source, fetched, (ids) => this.store.volumes(ids));
+        stored += this.store.ingest(trends, polledAt);
+        this.resolveEntities(source.source, trends, polledAt);
+        state = { source: source.source, lastRunAt: polledAt, failures: 0, lastCount: trends.length };
+        outcomes.push({ source: source.source, fetched: trends.length });
+      } catch (err) {
+        const failures = (previous?.failures ?? 0) + 1;
+        const message = (err as Error).message;
+        state = {
+          source: source.source,
+          lastRunAt: polledAt,
+          nextRunAt: new Date(polledAt.getTime() + retryDelay(failures)),
+          failures,
+          lastError: message,
+          lastCount: previous?.lastCount,
+        };
+        outcomes.push({ source: source.source, fetched: 0, error: message });
+        console.warn(`[TrendIngestion] ${source.source} failed (${failures} in a row): ${message}`);
+      }
+
+      this.store.saveSourceState(state);
+      const progress: TrendScanProgress = {
+        scanId,
+        source: source.source,
+        completed: outcomes.length,
+        total: sources.length,
+        fetched: outcomes[outcomes.length - 1].fetched,
+        error: outcomes[outcomes.length - 1].error,
+      };
+      this.emit('scan:progress', progress);
+    }
+
+    const result: TrendScanResult = { scanId, startedAt, completedAt: this.now(), sources: outcomes, stored };
+    this.emit('scan:complete', result);
+    return result;
+  }
+
+  /**
+   * Merge polled trends into entities. The trends are stored either way,
+   * so a failure here does not count against the source.
+   */
+  private resolveEntities(source: string, trends: IngestedTrend[], polledAt: Date): void {
+    try {
+      this.entities?.resolve(trends, polledAt);
+    } catch (err) {
+      console.warn(`[TrendIngestion] Could not resolve the trend entities of ${source}:`, err);
+    }
+  }
+
+  /**
+   * Wake up when the next source falls due
+   */
+  private schedule(): void {
+    this.clearTimer();
+    const settings = this.store.getSettings();
+    const sources = this.enabledSources(settings);
+    this.watch(sources);
+    if (!this.started || !settings.autoScanEnabled || sources.length === 0 || this.running) {
+      return;
+    }
+
+    const next = Math.min(...sources.map((source) => this.nextRunOf(source, settings).getTime()));
+    const delay = Math.min(Math.max(next - this.now().getTime(), 0), MAX_TIMER_MS);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.runDue().catch((err) => console.error('[TrendIngestion] Scheduled scan failed:', err));
+    }, delay);
+    this.timer.unref?.();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Watch the sources that can while started, and stop watching the ones
+   * no longer enabled
+   */
+  private watch(sources: PolledTrendSource[]): void {
+    const watched = new Set(this.started ? sources : []);
+    this.unwatch((source) => !watched.has(source));
+
+    for (const source of watched) {
+      if (source.watch && !this.watchers.has(source)) {
+        this.watchers.set(source, source.watch(() => this.pollChanged(source)));
+      }
+    }
+  }
+
+  private unwatch(predicate: (source: PolledTrendSource) => boolean): void {
+    for (const [source, close] of this.watchers) {
+      if (predicate(source)) {
+        close();
+        this.watchers.delete(source);
+      }
+    }
+  }
+
+  /**
+   * Poll a source that reported a change, after the scan in progress so
+   * the change isn't missed by a poll that already happened
+   */
+  private pollChanged(source: PolledTrendSource): void {
+    (this.running ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.run([source]))
+      .catch((err) => console.error(`[TrendIngestion] Polling ${source.source} after a change failed:`, err));
+  }
+
+  private enabledSources(settings: TrendIngestionSettings): PolledTrendSource[] {
+    return this.registry.listSources()
+      .filter((source) =>
+        source.plugin !== undefined || settings.includeSources.includes(SETTINGS_NAMES[source.source] ?? source.source)
+      );
+  }
+
+  /**
+   * When a source is polled next: right away if it never was, at its
+   * retry time while it fails, otherwise one interval after the last poll
+   */
+  private nextRunOf(source: PolledTrendSource, settings: TrendIngestionSettings): Date {
+    const state = this.store.sourceState(source.source);
+    if (state?.failures && state.nextRunAt) {
+      return state.nextRunAt;
+    }
+    if (!state?.lastRunAt) {
+      return this.now();
+    }
+    return new Date(state.lastRunAt.getTime() + intervalOf(source, settings) * HOUR_MS);
+  }
+
+  private statusOf(source: PolledTrendSource, settings: TrendIngestionSettings): TrendSourceStatus {
+    const state = this.store.sourceState(source.source);
+    return {
+      source: source.source,
+      intervalHours: intervalOf(source, settings),
+      lastRunAt: state?.lastRunAt,
+      nextRunAt: settings.autoScanEnabled ? this.nextRunOf(source, settings) : undefined,
+      failures: state?.failures ?? 0,
+      lastError: state?.lastError,
+      lastCount: state?.lastCount,
+    };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Turn what a source returned into rows of the trends table. Titles are
+ * the keywords, and the same keyword seen twice keeps its larger volume.
+ * Scores are relative to the largest volume of the batch on a log
+ * scale, since volumes span orders of magnitude. Growth is measured
+ * against the volume the trend had after the previous scan. Categories
+ * come from the metadata of the source, e.g. a plugin's field mapping.
+ *
+ * @param volumes - Looks up the previous volumes of trends by id
+ */
+export function normalizeTrends(
+  source: string,
+  fetched: TrendData[],
+  volumes: (ids: string[]) => Map<string, number>
+): IngestedTrend[] {
+  const column = source.replace(/-/g, '_');
+  const byId = new Map<string, TrendData & { keyword: string; volume: number }>();
+
+  for (const item of fetched) {
+    const keyword = item.title.trim().replace(/\s+/g, ' ');
+    if (!keyword) {
+      continue;
+    }
+    const volume = Math.max(0, Math.round(item.searchVolume ?? 0));
+    const id = `${column}:${keyword.toLowerCase()}`;
+    if (!byId.has(id) || byId.get(id)!.volume < volume) {
+      byId.set(id, { ...item, keyword, volume });
+    }
+  }
+
+  const previous = volumes([...byId.keys()]);
+  const scale = Math.log1p(Math.max(0, ...[...byId.values()].map((item) => item.volume)));
+
+  return [...byId.entries()].map(([id, item]) => {
+    const before = previous.get(id);
+    return {
+      id,
+      keyword: item.keyword,
+      source: column,
+      score: scale > 0 ? Math.round((Math.log1p(item.volume) / scale) * 10000) / 100 : 0,
+      volume: item.volume,
+      growthRate: before ? Math.round(((item.volume - before) / before) * 10000) / 100 : null,
+      category: typeof item.metadata?.category === 'string' ? item.metadata.category : null,
+      data: { sourceId: item.id, sourceGrowthRate: item.growthRate, metadata: item.metadata ?? {} },
+      fetchedAt: item.fetchedAt,
+      expiresAt: item.expiresAt,
+    };
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function intervalOf(source: PolledTrendSource, settings: TrendIngestionSettings): number {
+  return source.pollIntervalHours ?? settings.scanIntervalHours;
+}
+
+function retryDelay(failures: number): number {
+  return Math.min(RETRY_DELAY_MS * 2 ** (failures - 1), MAX_RETRY_DELAY_MS);
+}
+
+export default TrendIngestion;
@@ -0,0 +1,240 @@
+/**
+ * TrendMatching.ts - Trend Text Normalization and Similarity
+ *
+ * The same topic arrives as a hashtag, a post title and a search query.
+ * Text is reduced to stemmed tokens without stop words, hashtags are
+ * split into words, and similarity is the cosine of TF-IDF vectors over
+ * the tokens and the character trigrams of the text, so that spellings
+ * which tokenize differently ("#lofibeats", "lo-fi beats") still meet.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface TrendMatch {
+  id: string;
+  /** Cosine similarity, 0-1 */
+  similarity: number;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'an', 'and', 'any', 'app', 'apps', 'are', 'as', 'at', 'be', 'best', 'but', 'by',
+  'can', 'do', 'for', 'free', 'from', 'get', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its',
+  'just', 'me', 'my', 'new', 'no', 'not', 'now', 'of', 'on', 'or', 'our', 'out', 'so', 'that', 'the', 'their',
+  'this', 'to', 'top', 'up', 'us', 'vs', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will',
+  'with', 'you', 'your',
+]);
+
+/**
+ * Trigrams carry less weight than whole tokens, so a shared word counts
+ * for more than a shared fragment
+ */
+const TRIGRAM_WEIGHT = 0.5;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Normalization
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Stemmed tokens of a trend title, without links, mentions and stop
+ * words. Hashtags are split at case changes and underscores.
+ */
+export function normalizeText(text: string): string[] {
+  const words = text
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/@\w+/g, ' ')
+    .replace(/#(\w+)/g, (_, tag: string) => ` ${splitHashtag(tag)} `)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/);
+
+  return words.filter((word) => word && !STOP_WORDS.has(word)).map(stem);
+}
+
+/**
+ * A key equal for titles that differ only in case, word order, stop
+ * words, inflection or hashtag spelling
+ */
+export function matchKey(text: string): string {
+  return [...new Set(normalizeText(text))].sort().join(' ');
+}
+
+/**
+ * Strip common English inflections: plurals, -ing, -ed and a final e,
+ * so "memes", "meme" and "gaming", "games" reduce to the same stem
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word;
+  }
+
+  let stemmed = word;
+  if (stemmed.endsWith('ies') || stemmed.endsWith('ied')) {
+    stemmed = `${stemmed.slice(0, -3)}y`;
+  } else if (stemmed.endsWith('sses')) {
+    stemmed = stemmed.slice(0, -2);
+  } else if (/[^sui]s$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -1);
+  }
+
+  const inflected = /^(.*[aeiouy].*?)(ing|ed)$/.exec(stemmed);
+  if (inflected && inflected[1].length >= 3) {
+    stemmed = inflected[1];
+    if (/([^aeiouylsz])\1$/.test(stemmed)) {
+      stemmed = stemmed.slice(0, -1);
+    }
+  }
+
+  return stemmed.length > 3 && stemmed.endsWith('e') ? stemmed.slice(0, -1) : stemmed;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TfIdfIndex Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Documents by id, compared by TF-IDF cosine similarity. Document
+ * frequencies are kept up to date as documents are added and removed.
+ */
+export class TfIdfIndex {
+  private documents = new Map<string, Map<string, number>>();
+  private frequencies = new Map<string, number>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  /**
+   * Add a document, replacing the one with the same id
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+    const features = featuresOf(text);
+    this.documents.set(id, features);
+    for (const feature of features.keys()) {
+      this.frequencies.set(feature, (this.frequencies.get(feature) ?? 0) + 1);
+    }
+  }
+
+  remove(id: string): void {
+    const features = this.documents.get(id);
+    if (!features) {
+      return;
+    }
+
+    this.documents.delete(id);
+    for (const feature of features.keys()) {
+      const count = (this.frequencies.get(feature) ?? 1) - 1;
+      if (count > 0) {
+        this.frequencies.set(feature, count);
+      } else {
+        this.frequencies.delete(feature);
+      }
+    }
+  }
+
+  /**
+   * Similarity of two indexed documents, 0 when either is unknown
+   */
+  between(a: string, b: string): number {
+    const first = this.documents.get(a);
+    const second = this.documents.get(b);
+    return first && second ? cosine(this.weigh(first), this.weigh(second)) : 0;
+  }
+
+  /**
+   * Indexed documents at least `minSimilarity` similar to the text, most
+   * similar first
+   */
+  nearest(text: string, minSimilarity = 0, limit = Infinity): TrendMatch[] {
+    const query = this.weigh(featuresOf(text));
+    if (query.size === 0) {
+      return [];
+    }
+
+    const matches: TrendMatch[] = [];
+    for (const [id, features] of this.documents) {
+      const similarity = cosine(query, this.weigh(features));
+      if (similarity > 0 && similarity >= minSimilarity) {
+        matches.push({ id, similarity });
+      }
+    }
+    return matches.sort((a, b) => b.similarity - a.similarity || a.id.localeCompare(b.id)).slice(0, limit);
+  }
+
+  /**
+   * Smoothed inverse document frequency, so features unseen by the index
+   * still weigh in
+   */
+  private weigh(features: Map<string, number>): Map<string, number> {
+    const weighted = new Map<string, number>();
+    for (const [feature, count] of features) {
+      const idf = Math.log((1 + this.documents.size) / (1 + (this.frequencies.get(feature) ?? 0))) + 1;
+      weighted.set(feature, count * idf);
+    }
+    return weighted;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * "AestheticWallpapers", "HTMLTips" and "lofi_beats" to separate words
+ */
+function splitHashtag(tag: string): string {
+  return tag
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .replace(/_/g, ' ');
+}
+
+/**
+ * Token counts plus weighted trigrams of the tokens run together
+ */
+function featuresOf(text: string): Map<string, number> {
+  const tokens = normalizeText(text);
+  const features = new Map<string, number>();
+
+  for (const token of tokens) {
+    features.set(`w:${token}`, (features.get(`w:${token}`) ?? 0) + 1);
+  }
+
+  const joined = `_${tokens.join('')}_`;
+  for (let i = 0; i + 3 <= joined.length && tokens.length > 0; i++) {
+    const trigram = `t:${joined.slice(i, i + 3)}`;
+    features.set(trigram, (features.get(trigram) ?? 0) + TRIGRAM_WEIGHT);
+  }
+
+  return features;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [feature, weight] of a) {
+    dot += weight * (b.get(feature) ?? 0);
+  }
+  if (dot === 0) {
+    return 0;
+  }
+  return Math.min(1, dot / (norm(a) * norm(b)));
+}
+
+function norm(vector: Map<string, number>): number {
+  let sum = 0;
+  for (const weight of vector.values()) {
+    sum += weight * weight;
+  }
+  return Math.sqrt(sum);
+}
+
+export default TfIdfIndex;
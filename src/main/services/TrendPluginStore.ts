@@ -0,0 +1,60 @@
+/**
+ * TrendPluginStore.ts - Trend Plugin Persistence
+ *
+ * Stores the trend source plugins configured in the settings.
+ */
+
+import type { DatabaseService } from '../database/Database';
+import type { TrendPluginConfig } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Persistence used by the trend plugins
+ */
+export interface TrendPluginStore {
+  /** In the order they were added */
+  list(): TrendPluginConfig[];
+  /** Adds the plugin or replaces the one with its id */
+  save(config: TrendPluginConfig): void;
+  /** Returns false when there is no plugin with the id */
+  remove(id: string): boolean;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SqliteTrendPluginStore Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Trend plugins backed by the app database; the kind-specific settings
+ * are kept as JSON
+ */
+export class SqliteTrendPluginStore implements TrendPluginStore {
+  constructor(private database: DatabaseService) {}
+
+  list(): TrendPluginConfig[] {
+    return this.database
+      .all<{ id: string; kind: TrendPluginConfig['kind']; name: string; enabled: number; config: string }>(
+        'SELECT id, kind, name, enabled, config FROM trend_plugins ORDER BY created_at, rowid'
+      )
+      .map((row) => ({ ...JSON.parse(row.config), id: row.id, kind: row.kind, name: row.name, enabled: row.enabled === 1 }));
+  }
+
+  save(config: TrendPluginConfig): void {
+    const { id, kind, name, enabled, ...settings } = config;
+    this.database.run(`
+      INSERT INTO trend_plugins (id, kind, name, enabled, config) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        kind = excluded.kind, name = excluded.name, enabled = excluded.enabled,
+        config = excluded.config, updated_at = CURRENT_TIMESTAMP
+    `, [id, kind, name, enabled ? 1 : 0, JSON.stringify(settings)]);
+  }
+
+  remove(id: string): boolean {
+    return this.database.run('DELETE FROM trend_plugins WHERE id = ?', [id]).changes > 0;
+  }
+}
+
+export default SqliteTrendPluginStore;
@@ -0,0 +1,69 @@
+/**
+ * TrendPlugins.ts - Trend Source Plugins
+ *
+ * Keeps the trend sources registered with the trend manager in step with
+ * the plugins configured in the settings: RSS and Atom feeds, watched
+ * folders of CSV and JSON files, and keyword lists. A configuration is
+ * only saved once the source it describes can be created.
+ */
+
+import type { TrendPluginStore } from './TrendPluginStore';
+import type { TrendPluginRegistry } from '../apis/trend-plugins';
+import type { TrendPluginConfig } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Where plugin sources are registered, e.g. TrendManager
+ */
+export interface PluginSourceRegistry {
+  loadPlugins(registry: TrendPluginRegistry, configs: TrendPluginConfig[]): void;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TrendPlugins Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class TrendPlugins {
+  constructor(
+    private store: TrendPluginStore,
+    private registry: TrendPluginRegistry,
+    private sources: PluginSourceRegistry
+  ) {}
+
+  /**
+   * Register the sources of the saved plugins
+   */
+  load(): TrendPluginConfig[] {
+    const configs = this.store.list();
+    this.sources.loadPlugins(this.registry, configs);
+    return configs;
+  }
+
+  list(): TrendPluginConfig[] {
+    return this.store.list();
+  }
+
+  /**
+   * Add or replace a plugin; throws when its source can't be created
+   */
+  save(config: TrendPluginConfig): TrendPluginConfig[] {
+    if (!config.name.trim()) {
+      throw new Error('Trend plugin needs a name');
+    }
+    this.registry.create(config);
+    this.store.save(config);
+    return this.load();
+  }
+
+  remove(id: string): TrendPluginConfig[] {
+    if (!this.store.remove(id)) {
+      throw new Error(`Trend plugin not found: ${id}`);
+    }
+    return this.load();
+  }
+}
+
+export default TrendPlugins;
@@ -0,0 +1,191 @@
+/**
+ * TrendStore.ts - Trend Ingestion Persistence
+ *
+ * Stores the trend scan settings, the polling state of each trend
+ * source, and the trends scans bring in along with a history snapshot
+ * of every scan. The history is what trend forecasts are fitted on.
+ */
+
+import type { DatabaseService } from '../database/Database';
+import type { TrendHistorySource, TrendObservation } from './TrendForecast';
+import type { TrendIngestionSettings, TrendSourceStatus } from '../../shared/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A trend as written to the trends table
+ */
+export interface IngestedTrend {
+  /** Source and keyword, so the same trend is updated by later scans */
+  id: string;
+  keyword: string;
+  source: string;
+  /** 0-100 within the scan of its source */
+  score: number;
+  volume: number;
+  /** Percentage change since the previous scan, null when first seen */
+  growthRate: number | null;
+  /** Category the source reported, if any */
+  category: string | null;
+  data: Record<string, unknown>;
+  fetchedAt: Date;
+  expiresAt: Date;
+}
+
+export type TrendSourceState = Omit<TrendSourceStatus, 'intervalHours'>;
+
+/**
+ * Persistence used by trend ingestion
+ */
+export interface TrendStore {
+  getSettings(): TrendIngestionSettings;
+  saveSettings(settings: TrendIngestionSettings): void;
+  sourceState(source: string): TrendSourceState | undefined;
+  saveSourceState(state: TrendSourceState): void;
+  /** Volume each of the given trends had after the last scan */
+  volumes(ids: string[]): Map<string, number>;
+  /** Insert or update trends and record a history snapshot of each */
+  ingest(trends: IngestedTrend[], recordedAt: Date): number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SqliteTrendStore Class
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Trend ingestion persistence backed by the app database
+ */
+export class SqliteTrendStore implements TrendStore, TrendHistorySource {
+  constructor(private database: DatabaseService) {}
+
+  getSettings(): TrendIngestionSettings {
+    const row = this.database.get<{
+      auto_scan: number;
+      interval_hours: number;
+      max_trends: number;
+      include_sources: string;
+    }>('SELECT auto_scan, interval_hours, max_trends, include_sources FROM trend_ingestion WHERE id = 1');
+
+    return {
+      autoScanEnabled: row ? row.auto_scan === 1 : false,
+      scanIntervalHours: row?.interval_hours ?? 24,
+      maxTrendsToFetch: row?.max_trends ?? 50,
+      includeSources: row ? JSON.parse(row.include_sources) : ['google', 'playstore'],
+    };
+  }
+
+  saveSettings(settings: TrendIngestionSettings): void {
+    this.database.run(`
+      INSERT INTO trend_ingestion (id, auto_scan, interval_hours, max_trends, include_sources) VALUES (1, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        auto_scan = excluded.auto_scan,
+        interval_hours = excluded.interval_hours,
+        max_trends = excluded.max_trends,
+        include_sources = excluded.include_sources
+    `, [
+      settings.autoScanEnabled ? 1 : 0,
+      settings.scanIntervalHours,
+      settings.maxTrendsToFetch,
+      JSON.stringify(settings.includeSources),
+    ]);
+  }
+
+  sourceState(source: string): TrendSourceState | undefined {
+    const row = this.database.get<Record<string, unknown>>('SELECT * FROM trend_sources WHERE source = ?', [source]);
+    if (!row) {
+      return undefined;
+    }
+
+    return {
+      source: row.source as string,
+      lastRunAt: row.last_run_at ? new Date(row.last_run_at as string) : undefined,
+      nextRunAt: row.next_run_at ? new Date(row.next_run_at as string) : undefined,
+      failures: row.failures as number,
+      lastError: (row.last_error as string | null) ?? undefined,
+      lastCount: (row.last_count as number | null) ?? undefined,
+    };
+  }
+
+  saveSourceState(state: TrendSourceState): void {
+    this.database.run(`
+      INSERT OR REPLACE INTO trend_sources (source, last_run_at, next_run_at, failures, last_error, last_count)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [
+      state.source,
+      state.lastRunAt?.toISOString() ?? null,
+      state.nextRunAt?.toISOString() ?? null,
+      state.failures,
+      state.lastError ?? null,
+      state.lastCount ?? null,
+    ]);
+  }
+
+  volumes(ids: string[]): Map<string, number> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const rows = this.database.all<{ id: string; volume: number | null }>(
+      `SELECT id, volume FROM trends WHERE id IN (${ids.map(() => '?').join(', ')})`,
+      ids
+    );
+    return new Map(rows.filter((row) => row.volume !== null).map((row) => [row.id, row.volume as number]));
+  }
+
+  ingest(trends: IngestedTrend[], recordedAt: Date): number {
+    return this.database.transaction(() => {
+      for (const trend of trends) {
+        this.database.run(`
+          INSERT INTO trends (
+            id, keyword, source, score, volume, growth_rate, category, data, first_seen, fetched_at, expires_at
+          )
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET
+            score = excluded.score,
+            volume = excluded.volume,
+            growth_rate = excluded.growth_rate,
+            category = excluded.category,
+            data = excluded.data,
+            fetched_at = excluded.fetched_at,
+            expires_at = excluded.expires_at
+        `, [
+          trend.id,
+          trend.keyword,
+          trend.source,
+          trend.score,
+          trend.volume,
+          trend.growthRate,
+          trend.category,
+          JSON.stringify(trend.data),
+          trend.fetchedAt.toISOString(),
+          trend.fetchedAt.toISOString(),
+          trend.expiresAt.toISOString(),
+        ]);
+        this.database.run(
+          'INSERT INTO trend_history (trend_id, score, volume, recorded_at) VALUES (?, ?, ?, ?)',
+          [trend.id, trend.score, trend.volume, recordedAt.toISOString()]
+        );
+      }
+      return trends.length;
+    });
+  }
+
+  history(trendId: string): TrendObservation[] {
+    const rows = this.database.all<{ volume: number | null; recorded_at: string }>(
+      'SELECT volume, recorded_at FROM trend_history WHERE trend_id = ? AND volume IS NOT NULL ORDER BY recorded_at',
+      [trendId]
+    );
+    return rows.map((row) => ({ recordedAt: new Date(row.recorded_at), volume: row.volume as number }));
+  }
+
+  trendsWithHistory(minRows: number): string[] {
+    return this.database.all<{ trend_id: string }>(
+      'SELECT trend_id FROM trend_history WHERE volume IS NOT NULL GROUP BY trend_id HAVING COUNT(*) >= ? ORDER BY trend_id',
+      [minRows]
+    ).map((row) => row.trend_id);
+  }
+}
+
+export default SqliteTrendStore;
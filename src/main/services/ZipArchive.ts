@@ -0,0 +1,237 @@
+/**
+ * ZipArchive.ts - Minimal In-Memory ZIP Reader/Writer
+ *
+ * Reads and writes the subset of the ZIP format used by template
+ * packages: stored or deflated entries, no encryption, no ZIP64.
+ */
+
+import * as zlib from 'zlib';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interfaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A file stored in an archive
+ */
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+  /** Size inside the archive; set when reading */
+  compressedSize?: number;
+}
+
+/**
+ * Limits applied while reading untrusted archives
+ */
+export interface ZipReadOptions {
+  maxEntries?: number;
+  maxTotalSize?: number;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+/**
+ * General purpose flag: file names are UTF-8
+ */
+const FLAG_UTF8 = 0x0800;
+
+const DEFAULT_MAX_ENTRIES = 10_000;
+const DEFAULT_MAX_TOTAL_SIZE = 1024 * 1024 * 1024;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CRC-32
+// ─────────────────────────────────────────────────────────────────────────────
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Compute the CRC-32 checksum stored in ZIP headers
+ */
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Writing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build a ZIP archive from a list of entries. Entries are deflated
+ * unless compression would make them larger.
+ */
+export function writeZip(entries: ZipEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const deflated = zlib.deflateRawSync(entry.data);
+    const useDeflate = deflated.length < entry.data.length;
+    const stored = useDeflate ? deflated : entry.data;
+    const checksum = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(FLAG_UTF8, 6);
+    local.writeUInt16LE(useDeflate ? METHOD_DEFLATED : METHOD_STORED, 8);
+    local.writeUInt32LE(0, 10);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(stored.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(FLAG_UTF8, 8);
+    central.writeUInt16LE(useDeflate ? METHOD_DEFLATED : METHOD_STORED, 10);
+    central.writeUInt32LE(0, 12);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(stored.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, stored);
+    centralParts.push(central, name);
+    offset += local.length + name.length + stored.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Reading
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Read every entry of a ZIP archive. Directory entries are skipped.
+ * Throws on malformed archives, checksum mismatches and size limits.
+ */
+export function readZip(archive: Buffer, options: ZipReadOptions = {}): ZipEntry[] {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const maxTotalSize = options.maxTotalSize ?? DEFAULT_MAX_TOTAL_SIZE;
+
+  const endOffset = findEndOfCentralDirectory(archive);
+  const count = archive.readUInt16LE(endOffset + 10);
+  let pointer = archive.readUInt32LE(endOffset + 16);
+
+  if (count > maxEntries) {
+    throw new Error(`Archive has too many entries (${count} > ${maxEntries})`);
+  }
+
+  const entries: ZipEntry[] = [];
+  let totalSize = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (pointer + 46 > archive.length || archive.readUInt32LE(pointer) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt archive: bad central directory entry');
+    }
+
+    const flags = archive.readUInt16LE(pointer + 8);
+    const method = archive.readUInt16LE(pointer + 10);
+    const checksum = archive.readUInt32LE(pointer + 16);
+    const compressedSize = archive.readUInt32LE(pointer + 20);
+    const size = archive.readUInt32LE(pointer + 24);
+    const nameLength = archive.readUInt16LE(pointer + 28);
+    const extraLength = archive.readUInt16LE(pointer + 30);
+    const commentLength = archive.readUInt16LE(pointer + 32);
+    const localOffset = archive.readUInt32LE(pointer + 42);
+    const name = archive.toString('utf-8', pointer + 46, pointer + 46 + nameLength);
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 0x1) {
+      throw new Error(`Encrypted entries are not supported: ${name}`);
+    }
+    if (compressedSize === 0xffffffff || size === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error(`ZIP64 entries are not supported: ${name}`);
+    }
+    if (name.endsWith('/')) {
+      continue;
+    }
+
+    totalSize += size;
+    if (totalSize > maxTotalSize) {
+      throw new Error(`Archive contents exceed ${maxTotalSize} bytes`);
+    }
+
+    if (localOffset + 30 > archive.length || archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt archive: bad local header for ${name}`);
+    }
+    const dataStart =
+      localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const raw = archive.subarray(dataStart, dataStart + compressedSize);
+    if (raw.length !== compressedSize) {
+      throw new Error(`Corrupt archive: truncated data for ${name}`);
+    }
+
+    let data: Buffer;
+    if (method === METHOD_STORED) {
+      data = Buffer.from(raw);
+    } else if (method === METHOD_DEFLATED) {
+      data = zlib.inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+    } else {
+      throw new Error(`Unsupported compression method ${method} for ${name}`);
+    }
+
+    if (data.length !== size || crc32(data) !== checksum) {
+      throw new Error(`Checksum mismatch for ${name}`);
+    }
+
+    entries.push({ name, data, compressedSize });
+  }
+
+  return entries;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Locate the end-of-central-directory record, which may be followed by
+ * an archive comment of up to 64 KiB
+ */
+function findEndOfCentralDirectory(archive: Buffer): number {
+  const lowest = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= lowest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Not a ZIP archive: end of central directory not found');
+}
+
+export default { readZip, writeZip };
@@ -380,5 +380,3 @@ export function createServiceLogger(serviceName: string): ServiceLogger {
     },
   };
 }
-
-export { BaseService };
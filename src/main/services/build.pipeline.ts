@@ -14,6 +14,9 @@ import {
   SigningConfig,
   ListBuildOptions,
 } from "./types";
+import { findRegressions, summarizeProfiles, BuildTaskSummary } from "./BuildProfile";
+import type { BuildJobStore } from "./BuildJobStore";
+import type { BuildProfile, BuildTaskRegression } from "../../shared/types";
 
 /**
  * In-memory build database
@@ -24,6 +27,14 @@ const BUILD_DATABASE: Map<string, BuildJob> = new Map();
 class BuildPipeline implements BuildPipelineService {
   private buildQueue: string[] = [];
   private activeBuild: string | null = null;
+  private jobStore: BuildJobStore | null = null;
+
+  /**
+   * Include the task timings of the builds the build queue ran with Gradle
+   */
+  setJobStore(store: BuildJobStore | null): void {
+    this.jobStore = store;
+  }
 
   /**
    * Create a new build job
@@ -312,13 +323,16 @@ class BuildPipeline implements BuildPipelineService {
   }
 
   /**
-   * Get build statistics
+   * Get build statistics, with the slowest Gradle tasks and the tasks
+   * the latest profiled build ran slower than the builds before it
    */
   async getBuildStats(appId: string): Promise<{
     totalBuilds: number;
     successfulBuilds: number;
     failedBuilds: number;
     averageDuration: number;
+    slowestTasks: BuildTaskSummary[];
+    regressions: BuildTaskRegression[];
   }> {
     const builds = Array.from(BUILD_DATABASE.values()).filter(
       (b) => b.appId === appId && b.endTime
@@ -338,11 +352,27 @@ class BuildPipeline implements BuildPipelineService {
         ? durations.reduce((a, b) => a + b, 0) / durations.length
         : 0;
 
+    // Task timings of this pipeline's and the build queue's builds, oldest first
+    const timed: Array<{ startedAt: Date; profile: BuildProfile }> = builds
+      .filter((b) => b.profile)
+      .map((b) => ({ startedAt: b.startTime!, profile: b.profile! }));
+    for (const job of this.jobStore?.list(["success", "failed"]) ?? []) {
+      if (job.appId === appId && job.profile && job.startedAt) {
+        timed.push({ startedAt: job.startedAt, profile: job.profile });
+      }
+    }
+    const profiles = timed
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime())
+      .map((entry) => entry.profile);
+    const latest = profiles[profiles.length - 1];
+
     return {
       totalBuilds: builds.length,
       successfulBuilds: successful,
       failedBuilds: failed,
       averageDuration,
+      slowestTasks: summarizeProfiles(profiles),
+      regressions: latest ? findRegressions(latest, profiles.slice(0, -1)) : [],
     };
   }
 }
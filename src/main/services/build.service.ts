@@ -11,6 +11,9 @@
 import { BaseService, ServiceContext, OperationResult } from "./base.service";
 import { EventBus, EventPublisher } from "./event-bus";
 import { ApiClient } from "../apis";
+import { classifyFailure, nextRemediation } from "./BuildFailures";
+import { findRegressions, summarizeProfiles } from "./BuildProfile";
+import type { BuildFailureClass, BuildProfile, BuildRemediationAttempt } from "../../shared/types";
 
 /**
  * Build record
@@ -40,6 +43,12 @@ export interface Build {
   completedAt?: Date;
   duration?: number;
   error?: string;
+  /** Why a failed build failed, when the cause is a known one */
+  failureClass?: BuildFailureClass;
+  /** Retries made with remediations, in order */
+  remediations?: BuildRemediationAttempt[];
+  /** Gradle task timings */
+  profile?: BuildProfile;
   logs?: string;
 }
 
@@ -145,24 +154,51 @@ export class BuildService extends BaseService {
         ["building", JSON.stringify(buildingStatus), buildId]
       );
 
+      let failureClass: BuildFailureClass | undefined;
+      const remediations: BuildRemediationAttempt[] = [];
+
       // Trigger actual build via API
       try {
         if (this.api) {
-          const buildResult = await this.api.buildApk({
-            templateId: build.templateId,
-            version: build.version,
-            versionCode: build.versionCode,
-          });
+          let buildResult: { apkPath?: string; aabPath?: string; profile?: BuildProfile } | undefined;
+          let gradleArgs: string[] = [];
+
+          // Retry known failure causes with a remediation; the others fail
+          // with a message saying how to fix them
+          while (!buildResult) {
+            try {
+              buildResult = await this.api.buildApk({
+                templateId: build.templateId,
+                version: build.version,
+                versionCode: build.versionCode,
+                gradleArgs,
+              });
+            } catch (error) {
+              const failure = classifyFailure(error instanceof Error ? error.message : String(error));
+              failureClass = failure?.failureClass;
+              const step = nextRemediation(failure, remediations);
+              if (!step) {
+                throw failure ? new Error(failure.message) : error;
+              }
+              remediations.push({ failureClass: failure!.failureClass, remediation: step.remediation, succeeded: false });
+              gradleArgs = step.args;
+            }
+          }
+          if (remediations.length > 0) {
+            remediations[remediations.length - 1].succeeded = true;
+          }
 
           const completedBuild: Build = {
             ...build,
             status: "completed",
+            remediations: remediations.length > 0 ? remediations : undefined,
             artifacts: {
               apk: buildResult.apkPath,
               aab: buildResult.aabPath,
             },
+            profile: buildResult.profile,
             completedAt: new Date(),
-            duration: Date.now() - build.createdAt.getTime(),
+            duration: Date.now() - new Date(build.createdAt).getTime(),
           };
 
           await this.db.execute(
@@ -196,8 +232,10 @@ export class BuildService extends BaseService {
           ...build,
           status: "failed",
           error: error instanceof Error ? error.message : String(error),
+          failureClass,
+          remediations: remediations.length > 0 ? remediations : undefined,
           completedAt: new Date(),
-          duration: Date.now() - build.createdAt.getTime(),
+          duration: Date.now() - new Date(build.createdAt).getTime(),
         };
 
         await this.db.execute(
@@ -314,7 +352,7 @@ export class BuildService extends BaseService {
         if (build.platforms.length === build.distributedTo.length + 1) {
           deployedBuild.status = "completed";
           deployedBuild.completedAt = new Date();
-          deployedBuild.duration = Date.now() - build.createdAt.getTime();
+          deployedBuild.duration = Date.now() - new Date(build.createdAt).getTime();
 
           await this.eventPublisher.publish("build.deployed", "build-service", {
             buildId,
@@ -408,6 +446,14 @@ export class BuildService extends BaseService {
         return null;
       }
 
+      // Task timings of the recent builds, oldest first
+      const recent = await this.getTemplateBuilds(templateId);
+      const profiles = (recent.data ?? [])
+        .filter((build) => build.profile)
+        .reverse()
+        .map((build) => build.profile!);
+      const latest = profiles[profiles.length - 1];
+
       const stats = results[0];
       return {
         totalBuilds: stats.total_builds || 0,
@@ -418,6 +464,8 @@ export class BuildService extends BaseService {
           stats.total_builds > 0
             ? Math.round((stats.successful_builds / stats.total_builds) * 100)
             : 0,
+        slowestTasks: summarizeProfiles(profiles),
+        regressions: latest ? findRegressions(latest, profiles.slice(0, -1)) : [],
       };
     });
   }
@@ -3,10 +3,17 @@
  * Handles publishing to Gumroad, Ko-fi, and Itch.io with authentication and sales reporting
  */
 
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { writeAttestation } from "./Provenance";
+import type { CycloneDxBom, DsseEnvelope } from "./Provenance";
+import type { BuildAttestationKind } from "../../shared/types";
 import {
   DistributionService,
   DistributionChannel,
   PublishConfig,
+  PublishAttachment,
   PublishResult,
   SalesReport,
   DateRange,
@@ -16,6 +23,21 @@ import {
   ChannelAuth,
 } from "./types";
 
+/**
+ * Where the stored attestations of a build are read from, e.g. BuildScheduler
+ */
+export interface BuildAttestationSource {
+  getAttestation(buildId: string, kind: BuildAttestationKind): DsseEnvelope | CycloneDxBom | null | undefined;
+}
+
+/**
+ * File suffix and media type of each attestation kind
+ */
+const ATTESTATION_FILES: Record<BuildAttestationKind, { suffix: string; mediaType: string }> = {
+  provenance: { suffix: "intoto.json", mediaType: "application/vnd.in-toto+json" },
+  sbom: { suffix: "cdx.json", mediaType: "application/vnd.cyclonedx+json" },
+};
+
 /**
  * Mock channel authentication data
  */
@@ -174,6 +196,18 @@ const SALES_DATA: Map<string, SalesMetric[]> = new Map([
 ]);
 
 class Distribution implements DistributionService {
+  constructor(
+    private attestations: BuildAttestationSource | null = null,
+    private attestationDir: string = path.join(os.tmpdir(), "appforge-attestations")
+  ) {}
+
+  /**
+   * Read the provenance and SBOM of published builds from the builds
+   */
+  setAttestationSource(source: BuildAttestationSource | null): void {
+    this.attestations = source;
+  }
+
   /**
    * Authenticate with a distribution channel
    */
@@ -208,13 +242,26 @@ class Distribution implements DistributionService {
   }
 
   /**
-   * Publish app to one or more channels
+   * Publish app to one or more channels, with its attachments and the
+   * provenance and SBOM of its build
    */
   async publishApp(
     config: PublishConfig,
     channels: string[]
   ): Promise<PublishResult[]> {
     const results: PublishResult[] = [];
+    let attachments: PublishAttachment[];
+
+    try {
+      attachments = [...(config.attachments ?? []), ...(await this.buildAttachments(config))];
+    } catch (error) {
+      return channels.map((channel) => ({
+        channel,
+        success: false,
+        error: (error as Error).message,
+        timestamp: new Date(),
+      }));
+    }
 
     for (const channel of channels) {
       try {
@@ -223,6 +270,13 @@ class Distribution implements DistributionService {
           throw new Error(`Not authenticated with ${channel}`);
         }
 
+        // Provenance that can't be uploaded must not be silently dropped
+        for (const attachment of attachments) {
+          if (!(await fs.pathExists(attachment.path))) {
+            throw new Error(`Attachment ${attachment.name} not found: ${attachment.path}`);
+          }
+        }
+
         // Simulate publishing
         const publishId = `${channel}-pub-${Date.now()}`;
         const url = this.generatePublishUrl(channel, publishId, config.appName);
@@ -240,6 +294,7 @@ class Distribution implements DistributionService {
           status: "published",
           revenue: 0,
           downloads: 0,
+          attachments: attachments.map((attachment) => attachment.name),
         };
 
         PUBLISHED_APPS.get(channel)!.push(publishedApp);
@@ -249,6 +304,7 @@ class Distribution implements DistributionService {
           success: true,
           publishId,
           url,
+          attachments: attachments.map((attachment) => attachment.name),
           timestamp: new Date(),
         });
 
@@ -272,6 +328,39 @@ class Distribution implements DistributionService {
     return results;
   }
 
+  /**
+   * Write the attestations recorded for the published build so they can be
+   * uploaded; builds without a signer have none
+   */
+  private async buildAttachments(config: PublishConfig): Promise<PublishAttachment[]> {
+    if (!config.buildId) {
+      return [];
+    }
+    if (!this.attestations) {
+      throw new Error(`Cannot attach the provenance of build ${config.buildId}: builds are not available`);
+    }
+
+    const attachments: PublishAttachment[] = [];
+    for (const kind of Object.keys(ATTESTATION_FILES) as BuildAttestationKind[]) {
+      const document = this.attestations.getAttestation(config.buildId, kind);
+      if (document === undefined) {
+        throw new Error(`Build not found: ${config.buildId}`);
+      }
+      if (document === null) {
+        continue;
+      }
+
+      const { suffix, mediaType } = ATTESTATION_FILES[kind];
+      const name = `${config.appId}-${config.buildId}.${suffix}`;
+      attachments.push({
+        name,
+        path: await writeAttestation(document, path.join(this.attestationDir, name)),
+        mediaType,
+      });
+    }
+    return attachments;
+  }
+
   /**
    * Unpublish app from a channel
    */
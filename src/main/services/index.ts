@@ -308,6 +308,7 @@ export {
 
 // Trend service
 export { TrendService, Trend, createTrendService } from "./trend.service";
+export type { TrendSignal } from "./trend.service";
 
 // Build service
 export { BuildService, Build, createBuildService } from "./build.service";
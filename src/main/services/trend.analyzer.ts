@@ -14,10 +14,19 @@ import {
   AppSuggestion,
   TrendForecast,
 } from "./types";
+import { TrendManager } from "../apis/trend-sources";
+import type { TrendData } from "../apis/types";
+import { forecastSeries, type TrendObservation } from "./TrendForecast";
+import { trendAppName, type TemplateRecommender } from "./TemplateRecommender";
+
+/**
+ * Days ahead analysis forecasts look
+ */
+const FORECAST_HORIZON_DAYS = 90;
 
 /**
  * In-memory trend database
- * In production, would use real-time data sources
+ * Seeded with examples; scans add the trends they fetch
  */
 const TREND_DATABASE: Map<string, Trend> = new Map([
   [
@@ -91,9 +100,33 @@ const TREND_DATABASE: Map<string, Trend> = new Map([
   ],
 ]);
 
+/**
+ * Volume of each trend as seen by every scan, which forecasts are fitted on
+ */
+const TREND_HISTORY: Map<string, TrendObservation[]> = new Map();
+
 class TrendAnalyzer implements TrendAnalyzerService {
+  constructor(
+    private trendManager: TrendManager = new TrendManager(),
+    private templateRecommender: TemplateRecommender | null = null
+  ) {}
+
+  /**
+   * Scan the trend sources the app has registered
+   */
+  setTrendManager(manager: TrendManager): void {
+    this.trendManager = manager;
+  }
+
   /**
-   * Scan for trending topics across multiple sources
+   * Recommend installed templates in trend analyses
+   */
+  setTemplateRecommender(recommender: TemplateRecommender | null): void {
+    this.templateRecommender = recommender;
+  }
+
+  /**
+   * Scan for trending topics across the registered trend sources
    */
   async scan(options: ScanOptions): Promise<Trend[]> {
     const {
@@ -103,10 +136,18 @@ class TrendAnalyzer implements TrendAnalyzerService {
       minVolume = 1000,
     } = options;
 
-    // Simulate scanning multiple sources
     const scannedTrends: Trend[] = [];
+    const fetched = (await this.trendManager.fetchAllTrends(limit)).map((data) => {
+      const trend = toAnalyzerTrend(data, TREND_DATABASE.get(analyzerTrendId(data)));
+      TREND_DATABASE.set(trend.id, trend);
+      TREND_HISTORY.set(trend.id, [
+        ...(TREND_HISTORY.get(trend.id) ?? []),
+        { recordedAt: data.fetchedAt, volume: trend.metrics.volume },
+      ]);
+      return trend;
+    });
 
-    for (const [trendId, trend] of TREND_DATABASE) {
+    for (const trend of fetched) {
       // Filter by category
       if (categories && !categories.includes(trend.category)) {
         continue;
@@ -298,47 +339,26 @@ class TrendAnalyzer implements TrendAnalyzerService {
   }
 
   /**
-   * Suggest app templates that fit the trend
+   * Suggest the installed templates that fit the trend, best first.
+   * Without a template recommender there is nothing to suggest.
    */
   async suggestApps(trend: Trend): Promise<AppSuggestion[]> {
-    const suggestions: AppSuggestion[] = [];
-
-    // Map keywords to templates
-    const keywordToTemplates: Record<
-      string,
-      Array<{ templateId: string; name: string }>
-    > = {
-      "AI companion apps": [
-        { templateId: "template-ai-1", name: "Smart Assistant" },
-        { templateId: "template-ai-2", name: "AI Chat Bot" },
-      ],
-      "retro gaming nostalgia": [
-        { templateId: "template-game-1", name: "Retro Game Launcher" },
-        { templateId: "template-game-2", name: "Classic Arcade" },
-      ],
-      "wellness meditation apps": [
-        { templateId: "template-wellness-1", name: "Mindfulness Guide" },
-        { templateId: "template-wellness-2", name: "Meditation Studio" },
-      ],
-    };
-
-    const templates = keywordToTemplates[trend.keyword] || [];
-
-    for (const template of templates) {
-      const score = Math.min(
-        1,
-        (trend.metrics.growth + trend.metrics.sentiment) / 2
-      );
-
-      suggestions.push({
-        appName: template.name,
-        templateId: template.templateId,
-        score,
-        rationale: `Perfect fit for "${trend.keyword}" trend with strong market demand`,
-      });
+    if (!this.templateRecommender) {
+      return [];
     }
 
-    return suggestions.slice(0, 3);
+    const recommendations = this.templateRecommender.recommend({
+      keyword: trend.keyword,
+      relatedKeywords: this.findRelatedKeywords(trend.keyword),
+      category: trend.category,
+    });
+
+    return recommendations.map((recommendation) => ({
+      appName: trendAppName(trend.keyword),
+      templateId: recommendation.templateId,
+      score: recommendation.score,
+      rationale: recommendation.reasons.map((reason) => reason.detail).join(". "),
+    }));
   }
 
   /**
@@ -373,33 +393,49 @@ class TrendAnalyzer implements TrendAnalyzerService {
   }
 
   /**
-   * Generate trend forecast
+   * Generate trend forecast from the models fitted on the scan history.
+   * Until a trend has been scanned on a few days, the lifespan is guessed
+   * from its metrics and no peak is estimated.
    */
   private generateForecast(trend: Trend): TrendForecast {
-    const { velocity, growth } = trend.metrics;
-
-    // Determine lifespan based on metrics
-    let lifespan: "short" | "medium" | "long" = "medium";
-    if (velocity > 0.5) lifespan = "short"; // Rapidly growing, likely boom-bust
-    if (growth < 0.15) lifespan = "long"; // Stable growth, established trend
-
-    const weeklyGrowth = growth * 100; // Convert to percentage
-    const monthlyForecast = weeklyGrowth * 4;
-
-    let peakDate: Date | undefined;
-    let declineDate: Date | undefined;
+    const history = TREND_HISTORY.get(trend.id) ?? [];
+    let fitted: ReturnType<typeof forecastSeries>;
+    try {
+      fitted = forecastSeries(history, FORECAST_HORIZON_DAYS);
+    } catch {
+      const { velocity, growth } = trend.metrics;
+
+      // Determine lifespan based on metrics
+      let lifespan: "short" | "medium" | "long" = "medium";
+      if (velocity > 0.5) lifespan = "short"; // Rapidly growing, likely boom-bust
+      if (growth < 0.15) lifespan = "long"; // Stable growth, established trend
+
+      const weeklyGrowth = growth * 100; // Convert to percentage
+      return { weeklyGrowth, monthlyForecast: weeklyGrowth * 4, lifespan };
+    }
 
-    if (lifespan === "short") {
-      peakDate = new Date(Date.now() + 30 * 86400000); // ~1 month
-      declineDate = new Date(Date.now() + 90 * 86400000); // ~3 months
-    } else if (lifespan === "medium") {
-      peakDate = new Date(Date.now() + 90 * 86400000); // ~3 months
-      declineDate = new Date(Date.now() + 365 * 86400000); // ~1 year
+    const current = fitted.actual[fitted.actual.length - 1].volume;
+    const growthTo = (days: number) =>
+      current > 0 ? ((fitted.forecast[days - 1].volume - current) / current) * 100 : 0;
+
+    // Decline once the forecast falls below half the peak
+    const { peakDate, peakVolume } = fitted;
+    const declineDate = peakDate
+      ? fitted.forecast.find(
+          (point) => point.date > peakDate && point.volume < peakVolume! / 2
+        )?.date
+      : undefined;
+
+    let lifespan: "short" | "medium" | "long" = "long";
+    if (peakDate && peakDate.getTime() <= Date.now() + 30 * 86400000) {
+      lifespan = "short";
+    } else if (peakDate) {
+      lifespan = "medium";
     }
 
     return {
-      weeklyGrowth,
-      monthlyForecast,
+      weeklyGrowth: growthTo(7),
+      monthlyForecast: growthTo(30),
       peakDate,
       declineDate,
       lifespan,
@@ -447,5 +483,44 @@ class TrendAnalyzer implements TrendAnalyzerService {
   }
 }
 
+/**
+ * Sources number their results per fetch, so trends are told apart by
+ * source and title instead
+ */
+function analyzerTrendId(data: TrendData): string {
+  return `${data.source}:${data.title.trim().toLowerCase()}`;
+}
+
+/**
+ * Convert trend source data to the analyzer's trend, keeping the
+ * discovery date and archive flag of a trend scanned before
+ */
+function toAnalyzerTrend(data: TrendData, known?: Trend): Trend {
+  const sourceNames: Record<string, Trend["source"]> = {
+    "google-trends": "google",
+    reddit: "reddit",
+    twitter: "twitter",
+  };
+  const volume = data.searchVolume ?? 0;
+  const growth = data.growthRate ?? 0;
+
+  return {
+    id: analyzerTrendId(data),
+    keyword: data.title,
+    category: typeof data.metadata?.category === "string" ? data.metadata.category : "Uncategorized",
+    source: sourceNames[data.source] ?? "combined",
+    metrics: {
+      volume,
+      velocity: growth,
+      growth,
+      sentiment: 0,
+      confidence: 0.5,
+      sources: { [data.source]: volume },
+    },
+    discoveredAt: known?.discoveredAt ?? data.fetchedAt,
+    archived: known?.archived ?? false,
+  };
+}
+
 export default new TrendAnalyzer();
 export { TrendAnalyzer };
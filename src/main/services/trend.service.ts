@@ -10,6 +10,29 @@
 
 import { BaseService, ServiceContext, OperationResult } from "./base.service";
 import { EventBus, EventPublisher } from "./event-bus";
+import { TfIdfIndex } from "./TrendMatching";
+
+/**
+ * Similarity from which a discovered title is the same trend
+ */
+const MERGE_SIMILARITY = 0.6;
+
+/**
+ * Similarity from which two trends are correlated
+ */
+const RELATED_SIMILARITY = 0.2;
+
+const MAX_CORRELATIONS = 10;
+
+/**
+ * What one source reports about a trend
+ */
+export interface TrendSignal {
+  title: string;
+  volume: number;
+  momentum: number;
+  seenAt: Date;
+}
 
 /**
  * Trend data
@@ -24,7 +47,7 @@ export interface Trend {
   momentum: number;
   discoveredAt: Date;
   archivedAt?: Date;
-  correlations: string[]; // IDs of related trends
+  signals: Record<string, TrendSignal>; // By source
   metadata?: Record<string, any>;
 }
 
@@ -41,7 +64,8 @@ export class TrendService extends BaseService {
   }
 
   /**
-   * Discover trend
+   * Discover trend. A title similar enough to an active trend, from any
+   * source, is merged into it as that source's signal.
    */
   async discoverTrend(
     title: string,
@@ -50,19 +74,21 @@ export class TrendService extends BaseService {
   ): Promise<OperationResult<Trend>> {
     return this.executeOperation("discoverTrend", async () => {
       // Check if trend already exists
-      const existing = await this.db.query(
-        `SELECT id FROM ${this.tableName} WHERE title = ? AND source = ? AND archived_at IS NULL`,
-        [title, source]
+      const [existing] = (await this.activeTrendIndex()).nearest(
+        title,
+        MERGE_SIMILARITY,
+        1
       );
 
-      if (existing.length > 0) {
+      if (existing) {
         // Update existing trend
-        return this.updateTrendVolume(existing[0].id, volume).then(
+        return this.updateTrendVolume(existing.id, source, title, volume).then(
           (r) => r.data!
         );
       }
 
       // Create new trend
+      const discoveredAt = new Date();
       const trend: Trend = {
         id: `trnd_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         title,
@@ -70,8 +96,8 @@ export class TrendService extends BaseService {
         trendingScore: this.calculateTrendingScore(volume),
         volume,
         momentum: 1.0,
-        discoveredAt: new Date(),
-        correlations: [],
+        discoveredAt,
+        signals: { [source]: { title, volume, momentum: 1.0, seenAt: discoveredAt } },
       };
 
       // Insert into database
@@ -105,11 +131,13 @@ export class TrendService extends BaseService {
   }
 
   /**
-   * Update trend volume and momentum
+   * Update the signal of a source, and the trend volume and momentum
    */
   private async updateTrendVolume(
     trendId: string,
-    newVolume: number
+    source: string,
+    title: string,
+    sourceVolume: number
   ): Promise<OperationResult<Trend>> {
     return this.executeOperation("updateTrendVolume", async () => {
       const results = await this.db.query(
@@ -122,6 +150,20 @@ export class TrendService extends BaseService {
       }
 
       const trend: Trend = JSON.parse(results[0].data);
+      const previous = trend.signals?.[source];
+      const signals: Record<string, TrendSignal> = {
+        ...trend.signals,
+        [source]: {
+          title,
+          volume: sourceVolume,
+          momentum: sourceVolume / (previous?.volume || sourceVolume || 1),
+          seenAt: new Date(),
+        },
+      };
+      const newVolume = Object.values(signals).reduce(
+        (sum, signal) => sum + signal.volume,
+        0
+      );
 
       // Calculate momentum (ratio of new to old volume)
       const momentum = newVolume / (trend.volume || 1);
@@ -131,6 +173,7 @@ export class TrendService extends BaseService {
         volume: newVolume,
         momentum,
         trendingScore: this.calculateTrendingScore(newVolume, momentum),
+        signals,
       };
 
       await this.db.execute(
@@ -250,43 +293,34 @@ export class TrendService extends BaseService {
   }
 
   /**
-   * Find related trends (correlation)
+   * Find related trends (correlation), strongest edge first
    */
   async findRelatedTrends(trendId: string): Promise<OperationResult<Trend[]>> {
     return this.executeOperation("findRelatedTrends", async () => {
       const results = await this.db.query(
-        `SELECT data FROM ${this.tableName} WHERE id = ?`,
-        [trendId]
+        `SELECT t.data FROM (
+           SELECT related_id AS id, weight FROM trend_edges WHERE trend_id = ?
+           UNION ALL
+           SELECT trend_id AS id, weight FROM trend_edges WHERE related_id = ?
+         ) e
+         JOIN ${this.tableName} t ON t.id = e.id
+         WHERE t.archived_at IS NULL
+         ORDER BY e.weight DESC`,
+        [trendId, trendId]
       );
 
-      if (results.length === 0) {
-        throw new Error(`Trend not found: ${trendId}`);
-      }
-
-      const trend: Trend = JSON.parse(results[0].data);
-
-      if (trend.correlations.length === 0) {
-        return [];
-      }
-
-      // Query related trends
-      const placeholders = trend.correlations.map(() => "?").join(",");
-      const relatedResults = await this.db.query(
-        `SELECT data FROM ${this.tableName} WHERE id IN (${placeholders}) AND archived_at IS NULL`,
-        trend.correlations
-      );
-
-      return relatedResults.map((r) => JSON.parse(r.data) as Trend);
+      return results.map((r) => JSON.parse(r.data) as Trend);
     });
   }
 
   /**
-   * Correlate trends (find and link related trends)
+   * Correlate trends (find and link related trends). Edges are weighted
+   * by the similarity of the titles and replace earlier ones.
    */
   async correlateTrends(trendId: string): Promise<OperationResult<void>> {
     return this.executeOperation("correlateTrends", async () => {
       const results = await this.db.query(
-        `SELECT data FROM ${this.tableName} WHERE id = ?`,
+        `SELECT title FROM ${this.tableName} WHERE id = ?`,
         [trendId]
       );
 
@@ -294,37 +328,30 @@ export class TrendService extends BaseService {
         throw new Error(`Trend not found: ${trendId}`);
       }
 
-      const trend: Trend = JSON.parse(results[0].data);
+      const correlated = (await this.activeTrendIndex())
+        .nearest(results[0].title, RELATED_SIMILARITY, MAX_CORRELATIONS + 1)
+        .filter((match) => match.id !== trendId)
+        .slice(0, MAX_CORRELATIONS);
 
-      // Simple correlation: find trends with similar titles
-      const similarResults = await this.db.query(
-        `SELECT id FROM ${this.tableName} 
-         WHERE id != ? AND archived_at IS NULL
-         AND (
-           title LIKE ? OR 
-           INSTR(title, ?) > 0
-         )
-         LIMIT 10`,
-        [trendId, `%${trend.title}%`, trend.title.split(" ")[0]]
+      await this.db.execute(
+        `DELETE FROM trend_edges WHERE trend_id = ? OR related_id = ?`,
+        [trendId, trendId]
       );
 
-      const correlatedIds = similarResults.map((r) => r.id);
-
-      if (correlatedIds.length > 0) {
-        const updated: Trend = {
-          ...trend,
-          correlations: correlatedIds,
-        };
-
+      for (const match of correlated) {
+        const [first, second] =
+          trendId < match.id ? [trendId, match.id] : [match.id, trendId];
         await this.db.execute(
-          `UPDATE ${this.tableName} SET data = ? WHERE id = ?`,
-          [JSON.stringify(updated), trendId]
+          `INSERT INTO trend_edges (trend_id, related_id, weight, updated_at) VALUES (?, ?, ?, ?)`,
+          [first, second, Math.round(match.similarity * 1000) / 1000, new Date()]
         );
+      }
 
+      if (correlated.length > 0) {
         // Publish event
         await this.eventPublisher.publish("trend.correlated", "trend-service", {
           trendId,
-          correlatedCount: correlatedIds.length,
+          correlatedCount: correlated.length,
         });
       }
     });
@@ -377,6 +404,22 @@ export class TrendService extends BaseService {
     );
   }
 
+  /**
+   * Titles of the active trends, indexed for similarity
+   */
+  private async activeTrendIndex(): Promise<TfIdfIndex> {
+    const results = await this.db.query(
+      `SELECT id, title FROM ${this.tableName} WHERE archived_at IS NULL`,
+      []
+    );
+
+    const index = new TfIdfIndex();
+    for (const row of results) {
+      index.add(row.id, row.title);
+    }
+    return index;
+  }
+
   /**
    * Search trends by title
    */
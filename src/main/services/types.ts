@@ -3,6 +3,8 @@
  * Defines interfaces for Template Engine, Build Pipeline, Trend Analyzer, and Distribution
  */
 
+import type { BuildProfile } from "../../shared/types";
+
 // ============================================================================
 // TEMPLATE ENGINE TYPES
 // ============================================================================
@@ -168,6 +170,8 @@ export interface BuildJob {
   artifacts: BuildArtifact[];
   logs: BuildLog[];
   error?: BuildError;
+  /** Gradle task timings, for builds that ran Gradle */
+  profile?: BuildProfile;
 }
 
 export type BuildStatus =
@@ -349,6 +353,18 @@ export interface PublishConfig {
   tags: string[];
   screenshotsPath?: string;
   coverImagePath?: string;
+  /** Build whose signed provenance and SBOM are published with the app */
+  buildId?: string;
+  attachments?: PublishAttachment[];
+}
+
+/**
+ * A file published alongside the app, e.g. a build's provenance or SBOM
+ */
+export interface PublishAttachment {
+  name: string;
+  path: string;
+  mediaType: string;
 }
 
 export interface PublishResult {
@@ -356,6 +372,8 @@ export interface PublishResult {
   success: boolean;
   publishId?: string;
   url?: string;
+  /** Names of the attachments published with the app */
+  attachments?: string[];
   error?: string;
   timestamp: Date;
 }
@@ -413,6 +431,7 @@ export interface PublishedApp {
   status: "draft" | "published" | "unlisted";
   revenue: number;
   downloads: number;
+  attachments?: string[];
 }
 
 // ============================================================================
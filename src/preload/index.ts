@@ -21,6 +21,42 @@ interface IPCResponse<T = unknown> {
   };
 }
 
+interface BuildRequest {
+  appId: string;
+  outputDir: string;
+  debugBuild: boolean;
+  signConfig?: {
+    keystorePath: string;
+    keystorePassword: string;
+    keyAlias: string;
+    keyPassword: string;
+  };
+  optimizations?: {
+    minify: boolean;
+    shrinkResources: boolean;
+    enableR8: boolean;
+  };
+}
+
+interface GenerateIdentityRequest {
+  name: string;
+  kind: 'upload' | 'release';
+  alias: string;
+  commonName: string;
+  organization?: string;
+  countryCode?: string;
+  validityYears?: number;
+}
+
+interface ImportIdentityRequest {
+  name: string;
+  kind: 'upload' | 'release';
+  keystorePath: string;
+  alias: string;
+  storePassword: string;
+  keyPassword: string;
+}
+
 // =============================================================================
 // API Definition
 // =============================================================================
@@ -134,11 +170,68 @@ const api = {
     },
     
     /**
-     * Validate a template at given path
+     * Lint the template at the given path and return its diagnostics
      */
     validate: (path: string): Promise<IPCResponse> => {
       return ipcRenderer.invoke('template:validate', path);
     },
+    
+    /**
+     * Validate morph values against a template's rules
+     */
+    validateValues: (id: string, config: {
+      appName: string;
+      packageName: string;
+      versionName: string;
+      versionCode: number;
+      values: Record<string, string | number | boolean | string[]>;
+    }): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('template:validateValues', id, config);
+    },
+    
+    /**
+     * Preview the files and diffs instantiation would produce
+     */
+    plan: (id: string, config: {
+      appName: string;
+      packageName: string;
+      versionName: string;
+      versionCode: number;
+      values: Record<string, string | number | boolean | string[]>;
+    }): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('template:plan', id, config);
+    },
+    
+    /**
+     * Export a template as an .afz package
+     */
+    export: (id: string, outputPath: string): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('template:export', id, outputPath);
+    },
+    
+    /**
+     * Install a template from an .afz package
+     */
+    import: (packagePath: string, options?: {
+      overwrite?: boolean;
+      requireSignature?: boolean;
+    }): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('template:import', packagePath, options);
+    },
+    
+    /**
+     * Rank the installed templates for a trend
+     */
+    recommend: (trendId: string, limit?: number): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('template:recommend', trendId, limit);
+    },
+    
+    /**
+     * Create a draft app from a template, prefilled from a trend
+     */
+    createFromTrend: (request: { trendId: string; templateId: string; keyword?: string }): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('templates:createFromTrend', request);
+    },
   },
 
   // ===========================================================================
@@ -192,6 +285,20 @@ const api = {
     morph: (id: string, values: Array<{ key: string; value: unknown }>): Promise<IPCResponse> => {
       return ipcRenderer.invoke('app:morph', id, values);
     },
+    
+    /**
+     * Preview how an app's values change on a newer template version
+     */
+    previewMigration: (id: string, toVersion?: string): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('app:previewMigration', id, toVersion);
+    },
+    
+    /**
+     * Rebase an app onto a newer template version
+     */
+    migrate: (id: string, toVersion?: string): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('app:migrate', id, toVersion);
+    },
   },
 
   // ===========================================================================
@@ -202,27 +309,28 @@ const api = {
     /**
      * Start a new build
      */
-    start: (config: {
-      appId: string;
-      outputDir: string;
-      debugBuild: boolean;
-      signConfig?: {
-        keystorePath: string;
-        keystorePassword: string;
-        keyAlias: string;
-        keyPassword: string;
-      };
-      optimizations?: {
-        minify: boolean;
-        shrinkResources: boolean;
-        enableR8: boolean;
-      };
-    }): Promise<IPCResponse> => {
-      return ipcRenderer.invoke('build:start', config);
+    start: (config: BuildRequest, options?: { priority?: number }): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:start', config, options);
+    },
+    
+    /**
+     * Queue one build per flavor, build type and format of a matrix
+     */
+    matrix: (
+      config: BuildRequest,
+      matrix: {
+        flavors?: string[];
+        buildTypes: Array<'debug' | 'release'>;
+        formats?: Array<'apk' | 'aab'>;
+        abis?: string[];
+      },
+      options?: { priority?: number }
+    ): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:matrix', config, matrix, options);
     },
     
     /**
-     * Cancel a running build
+     * Cancel a queued or running build
      */
     cancel: (buildId: string): Promise<IPCResponse> => {
       return ipcRenderer.invoke('build:cancel', buildId);
@@ -242,6 +350,105 @@ const api = {
       return ipcRenderer.invoke('build:logs', buildId);
     },
     
+    /**
+     * Get compiler and tool messages parsed from a finished build
+     */
+    diagnostics: (buildId: string): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:diagnostics', buildId);
+    },
+    
+    /**
+     * Get the manifest details and size breakdown of a built APK
+     */
+    report: (buildId: string): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:report', buildId);
+    },
+    
+    /**
+     * Get the APKs and bundles a build produced
+     */
+    artifacts: (buildId: string): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:artifacts', buildId);
+    },
+    
+    /**
+     * Get a build's Gradle task timings and the tasks slower than in
+     * earlier builds of its template
+     */
+    performance: (buildId: string): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:performance', buildId);
+    },
+    
+    /**
+     * Save a successful build's signed provenance or SBOM as JSON
+     */
+    exportAttestation: (buildId: string, kind: 'provenance' | 'sbom', outputPath: string): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:exportAttestation', buildId, kind, outputPath);
+    },
+    
+    /**
+     * Get running and queued builds, in the order they will run
+     */
+    queue: (): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:queue');
+    },
+    
+    /**
+     * Reorder queued builds
+     */
+    reorder: (buildIds: string[]): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:reorder', buildIds);
+    },
+    
+    /**
+     * Change the priority of a queued build
+     */
+    setPriority: (buildId: string, priority: number): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:setPriority', buildId, priority);
+    },
+    
+    /**
+     * Stop starting new builds
+     */
+    pause: (): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:pause');
+    },
+    
+    /**
+     * Start queued builds again
+     */
+    resume: (): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:resume');
+    },
+    
+    /**
+     * Set how many builds may run at once
+     */
+    setConcurrency: (concurrency: number): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:setConcurrency', concurrency);
+    },
+    
+    /**
+     * Get build cache usage and hit/miss counts
+     */
+    cacheStats: (): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:cacheStats');
+    },
+    
+    /**
+     * Enable or disable the build cache and set its size limit in MB
+     */
+    configureCache: (settings: { cacheEnabled: boolean; cacheMaxSize: number }): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:configureCache', settings);
+    },
+    
+    /**
+     * Remove cached artifacts and idle workspaces
+     */
+    clearCache: (): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('build:clearCache');
+    },
+    
     /**
      * Subscribe to build progress events
      */
@@ -266,18 +473,177 @@ const api = {
     },
   },
 
+  // ===========================================================================
+  // Signing
+  // ===========================================================================
+  
+  signing: {
+    /**
+     * Whether the vault has a passphrase and is unlocked
+     */
+    state: (): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('signing:state');
+    },
+    
+    /**
+     * Unlock the vault; the first unlock sets the passphrase
+     */
+    unlock: (passphrase: string): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('signing:unlock', passphrase);
+    },
+    
+    /**
+     * Lock the vault
+     */
+    lock: (): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('signing:lock');
+    },
+    
+    /**
+     * Change the master passphrase
+     */
+    changePassphrase: (current: string, next: string): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('signing:changePassphrase', current, next);
+    },
+    
+    /**
+     * List signing identities
+     */
+    list: (): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('signing:list');
+    },
+    
+    /**
+     * Generate a new keystore in the vault
+     */
+    generate: (request: GenerateIdentityRequest): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('signing:generate', request);
+    },
+    
+    /**
+     * Import an existing keystore file into the vault
+     */
+    import: (request: ImportIdentityRequest): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('signing:import', request);
+    },
+    
+    /**
+     * Delete a signing identity
+     */
+    delete: (identityId: string): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('signing:delete', identityId);
+    },
+    
+    /**
+     * Sign an app's release builds with an identity, or with none
+     */
+    assign: (appId: string, identityId: string | null): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('signing:assign', appId, identityId);
+    },
+  },
+
+  // ===========================================================================
+  // Toolchains
+  // ===========================================================================
+  
+  toolchain: {
+    /**
+     * List the installed JDKs and SDK packages, scanning again if asked
+     */
+    inventory: (refresh?: boolean): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('toolchain:inventory', refresh);
+    },
+    
+    /**
+     * Check each template against the installed toolchains
+     */
+    compatibility: (): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('toolchain:compatibility');
+    },
+    
+    /**
+     * Pick a compatible toolchain for an app again and pin it
+     */
+    pin: (appId: string): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('toolchain:pin', appId);
+    },
+  },
+
   // ===========================================================================
   // Trends
   // ===========================================================================
   
   trends: {
     /**
-     * Scan for new trends
+     * Poll every included trend source now
      */
     scan: (): Promise<IPCResponse> => {
       return ipcRenderer.invoke('trend:scan');
     },
     
+    /**
+     * Scan settings and the polling state of each source
+     */
+    ingestionStatus: (): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('trend:ingestionStatus');
+    },
+    
+    /**
+     * Apply the trend settings to scheduled scans
+     */
+    configure: (settings: unknown): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('trend:configureIngestion', settings);
+    },
+    
+    /**
+     * Trend sources configured in the settings
+     */
+    plugins: (): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('trend:plugins');
+    },
+    
+    /**
+     * Add or replace a trend source plugin
+     */
+    savePlugin: (config: unknown): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('trend:savePlugin', config);
+    },
+    
+    /**
+     * Remove a trend source plugin
+     */
+    deletePlugin: (id: string): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('trend:deletePlugin', id);
+    },
+    
+    /**
+     * Trends merged across sources, highest score first
+     */
+    entities: (limit?: number): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('trend:entities', limit);
+    },
+    
+    /**
+     * Trends linked to a merged trend, strongest link first
+     */
+    related: (entityId: string): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('trend:related', entityId);
+    },
+    
+    /**
+     * Forecast the daily volume of a trend
+     */
+    forecast: (trendId: string, horizonDays?: number): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('trend:forecast', trendId, horizonDays);
+    },
+    
+    /**
+     * Forecast error of each model on past trend history
+     */
+    backtest: (horizonDays?: number): Promise<IPCResponse> => {
+      return ipcRenderer.invoke('trend:backtest', horizonDays);
+    },
+    
     /**
      * List all trends
      */
@@ -305,6 +671,8 @@ const api = {
     const validChannels = [
       'build:progress',
       'trend:update',
+      'trends:scanProgress',
+      'trends:scanComplete',
       'notification',
     ];
     
@@ -330,6 +698,8 @@ const api = {
     const validChannels = [
       'build:progress',
       'trend:update',
+      'trends:scanProgress',
+      'trends:scanComplete',
       'notification',
     ];
     
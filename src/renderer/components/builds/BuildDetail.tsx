@@ -0,0 +1,200 @@
+import React from "react";
+import type { ApkReport, ApkSizeEntry, BuildArtifact, BuildDiagnostic } from "@shared/types";
+
+interface BuildDetailProps {
+  report: ApkReport | null;
+  diagnostics: BuildDiagnostic[];
+  artifacts?: BuildArtifact[];
+}
+
+const CHECK_LABELS: Record<ApkReport["checks"][number]["name"], string> = {
+  packageName: "Package name",
+  appName: "App name",
+  placeholders: "Unreplaced placeholders",
+};
+
+/**
+ * Format a byte count for display
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Group diagnostics by the template file they map to, falling back to the
+ * generated file for diagnostics outside the template
+ */
+function groupDiagnostics(diagnostics: BuildDiagnostic[]): Array<[string, BuildDiagnostic[]]> {
+  const groups = new Map<string, BuildDiagnostic[]>();
+  for (const diagnostic of diagnostics) {
+    const key = diagnostic.templateFile ?? diagnostic.file ?? "Build";
+    groups.set(key, [...(groups.get(key) ?? []), diagnostic]);
+  }
+  return [...groups.entries()];
+}
+
+const SizeTable: React.FC<{ title: string; entries: ApkSizeEntry[] }> = ({ title, entries }) => (
+  <div>
+    <h3 className="font-semibold mb-1">{title}</h3>
+    <table className="w-full text-sm">
+      <tbody>
+        {entries.map((entry) => (
+          <tr key={entry.path} className="border-b">
+            <td className="font-mono py-1">{entry.path}</td>
+            <td className="text-gray-500">{entry.files} files</td>
+            <td className="text-right">{formatSize(entry.size)}</td>
+            <td className="text-right text-gray-500">{formatSize(entry.compressedSize)} packed</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+/**
+ * BuildDetail Component
+ *
+ * Shows what a finished build produced: its artifacts, the decoded APK
+ * manifest, size breakdown and morph checks, and compiler diagnostics
+ * grouped by file.
+ * Clicking a diagnostic reveals its template source, or the generated
+ * file when it has none.
+ *
+ * @param report - APK report, null for builds without an APK
+ * @param diagnostics - Diagnostics parsed from the build output
+ * @param artifacts - APKs and bundles, with one entry per ABI split
+ */
+const BuildDetail: React.FC<BuildDetailProps> = ({ report, diagnostics, artifacts = [] }) => (
+  <div data-testid="build-detail" className="bg-white rounded-lg shadow p-6 space-y-6">
+    {artifacts.length > 0 && (
+      <div data-testid="build-artifacts">
+        <h2 className="text-xl font-bold mb-2">Artifacts</h2>
+        <ul className="text-sm space-y-1">
+          {artifacts.map((artifact) => (
+            <li
+              key={artifact.id}
+              data-testid="artifact-item"
+              onClick={() => artifact.path && window.appforge.showInFolder(artifact.path)}
+              className={`flex gap-3 ${artifact.path ? "cursor-pointer hover:bg-gray-50" : ""}`}
+            >
+              <span className={artifact.status === "success" ? "text-green-700" : "text-red-700"}>
+                {artifact.status === "success" ? "✓" : "✗"}
+              </span>
+              <span className="uppercase text-gray-500">{artifact.format}</span>
+              {artifact.abi && <span className="font-mono">{artifact.abi}</span>}
+              <span className="flex-1 font-mono">{artifact.path ?? artifact.errorMessage}</span>
+              {artifact.size !== undefined && <span>{formatSize(artifact.size)}</span>}
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+
+    {report && (
+      <div data-testid="apk-report" className="space-y-4">
+        <h2 className="text-xl font-bold">APK</h2>
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+          <dt className="text-gray-500">Package</dt>
+          <dd className="font-mono">{report.packageName}</dd>
+          <dt className="text-gray-500">Label</dt>
+          <dd>{report.label ?? "—"}</dd>
+          <dt className="text-gray-500">Version</dt>
+          <dd>
+            {report.versionName ?? "—"} ({report.versionCode ?? "—"})
+          </dd>
+          <dt className="text-gray-500">SDK</dt>
+          <dd>
+            min {report.minSdkVersion ?? "—"}, target {report.targetSdkVersion ?? "—"}
+          </dd>
+          <dt className="text-gray-500">Size</dt>
+          <dd>{formatSize(report.fileSize)}</dd>
+        </dl>
+
+        <ul className="text-sm space-y-1">
+          {report.checks.map((check) => (
+            <li
+              key={check.name}
+              data-testid="apk-check"
+              className={check.passed ? "text-green-700" : "text-red-700"}
+            >
+              {check.passed ? "✓" : "✗"} {CHECK_LABELS[check.name]}: {check.actual ?? "missing"}
+              {!check.passed && ` (expected ${check.expected})`}
+            </li>
+          ))}
+        </ul>
+
+        {report.permissions.length > 0 && (
+          <div>
+            <h3 className="font-semibold mb-1">Permissions</h3>
+            <ul className="font-mono text-sm">
+              {report.permissions.map((permission) => (
+                <li key={permission}>{permission}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {report.activities.length > 0 && (
+          <div>
+            <h3 className="font-semibold mb-1">Activities</h3>
+            <ul className="font-mono text-sm">
+              {report.activities.map((activity) => (
+                <li key={activity}>{activity}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <SizeTable title="Size by directory" entries={report.directories} />
+        <SizeTable title="Dex files" entries={report.dexFiles} />
+      </div>
+    )}
+
+    {diagnostics.length > 0 && (
+      <div data-testid="build-diagnostics">
+        <h2 className="text-xl font-bold mb-4">Diagnostics</h2>
+        <div className="space-y-4">
+          {groupDiagnostics(diagnostics).map(([file, entries]) => (
+            <div key={file}>
+              <div className="font-mono text-sm font-semibold mb-1">{file}</div>
+              {entries.map((diagnostic, index) => {
+                const target = diagnostic.templateSource ?? diagnostic.file;
+                return (
+                  <div
+                    key={index}
+                    data-testid="diagnostic-item"
+                    onClick={() => target && window.appforge.showInFolder(target)}
+                    className={`flex gap-3 py-1 text-sm ${target ? "cursor-pointer hover:bg-gray-50" : ""}`}
+                  >
+                    <span
+                      className={
+                        diagnostic.severity === "error" ? "text-red-700" : "text-yellow-700"
+                      }
+                    >
+                      {diagnostic.severity}
+                    </span>
+                    {diagnostic.line !== undefined && (
+                      <span className="text-gray-500">
+                        {diagnostic.line}
+                        {diagnostic.column !== undefined ? `:${diagnostic.column}` : ""}
+                      </span>
+                    )}
+                    <span className="flex-1">{diagnostic.message}</span>
+                    {diagnostic.morphPointId && (
+                      <span className="text-blue-700">{diagnostic.morphPointId}</span>
+                    )}
+                    <span className="text-gray-400">{diagnostic.tool}</span>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+export default BuildDetail;
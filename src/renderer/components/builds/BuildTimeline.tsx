@@ -0,0 +1,98 @@
+import React from "react";
+import type { BuildPerformance, BuildTaskOutcome } from "@shared/types";
+
+interface BuildTimelineProps {
+  performance: BuildPerformance;
+}
+
+/**
+ * Tasks shown; the shortest are left out of long builds
+ */
+const MAX_TASKS = 60;
+
+const OUTCOME_COLORS: Record<BuildTaskOutcome, string> = {
+  executed: "bg-blue-500",
+  "up-to-date": "bg-gray-300",
+  "from-cache": "bg-green-400",
+  "no-source": "bg-gray-200",
+  skipped: "bg-gray-200",
+  failed: "bg-red-500",
+};
+
+/**
+ * Format a duration in milliseconds for display
+ */
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+/**
+ * BuildTimeline Component
+ *
+ * Waterfall of the Gradle tasks of a build: each bar starts when its
+ * task started and spans its duration. Tasks slower than in earlier
+ * builds of the same template are flagged.
+ *
+ * @param performance - Task timings and regressions of the build
+ */
+const BuildTimeline: React.FC<BuildTimelineProps> = ({ performance }) => {
+  const { profile, regressions, baselineBuilds } = performance;
+  if (!profile) return null;
+
+  const regressed = new Map(regressions.map((regression) => [regression.path, regression]));
+  const shown = [...profile.tasks]
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, MAX_TASKS)
+    .sort((a, b) => a.start - b.start);
+  const scale = Math.max(profile.duration, 1);
+
+  return (
+    <div data-testid="build-timeline" className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex justify-between items-baseline">
+        <h2 className="text-xl font-bold">Timeline</h2>
+        <span className="text-sm text-gray-500">
+          {formatDuration(profile.duration)} total, {formatDuration(profile.configuration)} before the first task
+        </span>
+      </div>
+
+      {regressions.length > 0 && (
+        <div data-testid="build-regressions" className="text-sm text-red-800 space-y-1">
+          {regressions.map((regression) => (
+            <div key={regression.path}>
+              <span className="font-mono">{regression.path}</span> took {formatDuration(regression.duration)},
+              usually {formatDuration(regression.baseline)} over the last {baselineBuilds} builds
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {shown.map((task) => (
+          <div key={task.path} data-testid="timeline-task" className="flex items-center gap-3 text-xs">
+            <span
+              className={`w-64 truncate font-mono ${regressed.has(task.path) ? "text-red-700 font-semibold" : ""}`}
+              title={task.path}
+            >
+              {task.path}
+            </span>
+            <div className="flex-1 relative h-3 bg-gray-50 rounded">
+              <div
+                className={`absolute h-3 rounded ${regressed.has(task.path) ? "bg-red-500" : OUTCOME_COLORS[task.outcome]}`}
+                style={{
+                  left: `${(task.start / scale) * 100}%`,
+                  width: `${Math.max((task.duration / scale) * 100, 0.5)}%`,
+                }}
+                title={`${task.outcome}, ${formatDuration(task.duration)}`}
+              />
+            </div>
+            <span className="w-16 text-right text-gray-500">{formatDuration(task.duration)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BuildTimeline;
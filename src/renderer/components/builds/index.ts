@@ -0,0 +1,3 @@
+// Build Components
+export { default as BuildDetail } from "./BuildDetail";
+export { default as BuildTimeline } from "./BuildTimeline";
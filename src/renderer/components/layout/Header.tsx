@@ -89,7 +89,7 @@ export const Header: React.FC<HeaderProps> = ({ currentPage, onAction }) => {
   }>>([]);
 
   const info = pageInfo[currentPage];
-  const activeBuilds = queue.filter(b => b.status === 'building').length;
+  const activeBuilds = queue.filter(b => b.status === 'running').length;
   const isScanning = scanProgress !== null;
 
   // Add notifications for active processes
@@ -0,0 +1,336 @@
+import React, { useEffect, useState } from "react";
+import type { SigningIdentity, SigningIdentityKind } from "@shared/types";
+import { useSigningStore } from "../../stores/signingStore";
+
+type FormMode = "none" | "generate" | "import";
+
+const inputClass = "w-full px-4 py-2 border rounded-lg";
+
+/**
+ * Split a colon-separated fingerprint over two lines so it fits the card
+ */
+function formatFingerprint(fingerprint: string): string {
+  const bytes = fingerprint.split(":");
+  const half = Math.ceil(bytes.length / 2);
+  return `${bytes.slice(0, half).join(":")}\n${bytes.slice(half).join(":")}`;
+}
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+    {children}
+  </div>
+);
+
+const IdentityCard: React.FC<{ identity: SigningIdentity }> = ({ identity }) => {
+  const apps = useSigningStore((s) => s.apps);
+  const assignIdentity = useSigningStore((s) => s.assignIdentity);
+  const deleteIdentity = useSigningStore((s) => s.deleteIdentity);
+  const unassigned = apps.filter((app) => !identity.appIds.includes(app.id));
+
+  return (
+    <li data-testid="signing-identity" className="border rounded-lg p-4 space-y-2">
+      <div className="flex justify-between items-center">
+        <div>
+          <span className="font-semibold">{identity.name}</span>
+          <span className="ml-2 text-xs uppercase text-gray-500">{identity.kind} key</span>
+        </div>
+        <button
+          onClick={() => {
+            if (window.confirm(`Delete "${identity.name}"? Apps signed with it can no longer be updated unless you have a backup.`)) {
+              deleteIdentity(identity.id);
+            }
+          }}
+          className="text-sm text-red-600 hover:underline"
+        >
+          Delete
+        </button>
+      </div>
+      <div className="text-sm text-gray-600">
+        {identity.subject} · alias <span className="font-mono">{identity.alias}</span>
+        {identity.validUntil && <> · valid until {new Date(identity.validUntil).toLocaleDateString()}</>}
+      </div>
+      <dl className="text-xs font-mono grid grid-cols-[4rem_1fr] gap-x-2">
+        <dt className="text-gray-500">SHA-1</dt>
+        <dd className="whitespace-pre select-all">{formatFingerprint(identity.sha1)}</dd>
+        <dt className="text-gray-500">SHA-256</dt>
+        <dd className="whitespace-pre select-all">{formatFingerprint(identity.sha256)}</dd>
+      </dl>
+      <div className="flex flex-wrap gap-2 items-center text-sm">
+        {identity.appIds.map((appId) => (
+          <span key={appId} className="bg-gray-100 rounded px-2 py-0.5">
+            {apps.find((app) => app.id === appId)?.name ?? appId}
+            <button onClick={() => assignIdentity(appId, null)} className="ml-1 text-gray-500">
+              ×
+            </button>
+          </span>
+        ))}
+        {unassigned.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => assignIdentity(e.target.value, identity.id)}
+            className="px-2 py-1 border rounded"
+          >
+            <option value="" disabled>
+              Sign app…
+            </option>
+            {unassigned.map((app) => (
+              <option key={app.id} value={app.id}>
+                {app.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    </li>
+  );
+};
+
+const GenerateForm: React.FC<{ onDone: () => void }> = ({ onDone }) => {
+  const generateIdentity = useSigningStore((s) => s.generateIdentity);
+  const [form, setForm] = useState({
+    name: "",
+    kind: "upload" as SigningIdentityKind,
+    alias: "upload",
+    commonName: "",
+    organization: "",
+    countryCode: "",
+    validityYears: 25,
+  });
+  const update = (changes: Partial<typeof form>) => setForm({ ...form, ...changes });
+
+  return (
+    <form
+      onSubmit={async (e) => {
+        e.preventDefault();
+        await generateIdentity({
+          ...form,
+          organization: form.organization || undefined,
+          countryCode: form.countryCode || undefined,
+        });
+        if (!useSigningStore.getState().error) onDone();
+      }}
+      className="space-y-3 border rounded-lg p-4"
+    >
+      <Field label="Name">
+        <input required value={form.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+      </Field>
+      <Field label="Kind">
+        <select
+          value={form.kind}
+          onChange={(e) => update({ kind: e.target.value as SigningIdentityKind })}
+          className={inputClass}
+        >
+          <option value="upload">Upload key (Play App Signing)</option>
+          <option value="release">Release key</option>
+        </select>
+      </Field>
+      <Field label="Key alias">
+        <input required value={form.alias} onChange={(e) => update({ alias: e.target.value })} className={inputClass} />
+      </Field>
+      <Field label="Common name">
+        <input required value={form.commonName} onChange={(e) => update({ commonName: e.target.value })} className={inputClass} />
+      </Field>
+      <Field label="Organization">
+        <input value={form.organization} onChange={(e) => update({ organization: e.target.value })} className={inputClass} />
+      </Field>
+      <Field label="Country code">
+        <input
+          maxLength={2}
+          value={form.countryCode}
+          onChange={(e) => update({ countryCode: e.target.value.toUpperCase() })}
+          className={inputClass}
+        />
+      </Field>
+      <Field label="Validity (years)">
+        <input
+          type="number"
+          min={1}
+          max={100}
+          value={form.validityYears}
+          onChange={(e) => update({ validityYears: Number(e.target.value) })}
+          className={inputClass}
+        />
+      </Field>
+      <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded">
+        Generate keystore
+      </button>
+    </form>
+  );
+};
+
+const ImportForm: React.FC<{ onDone: () => void }> = ({ onDone }) => {
+  const importIdentity = useSigningStore((s) => s.importIdentity);
+  const [form, setForm] = useState({
+    name: "",
+    kind: "upload" as SigningIdentityKind,
+    keystorePath: "",
+    alias: "",
+    storePassword: "",
+    keyPassword: "",
+  });
+  const update = (changes: Partial<typeof form>) => setForm({ ...form, ...changes });
+
+  const chooseKeystore = async () => {
+    const result = await window.appforge.openFileDialog({
+      title: "Select keystore",
+      filters: [{ name: "Keystores", extensions: ["jks", "keystore", "p12", "pfx"] }],
+      properties: ["openFile"],
+    });
+    if (!result.canceled && result.filePaths[0]) {
+      update({ keystorePath: result.filePaths[0] });
+    }
+  };
+
+  return (
+    <form
+      onSubmit={async (e) => {
+        e.preventDefault();
+        // Keys in PKCS12 stores share the store password
+        await importIdentity({ ...form, keyPassword: form.keyPassword || form.storePassword });
+        if (!useSigningStore.getState().error) onDone();
+      }}
+      className="space-y-3 border rounded-lg p-4"
+    >
+      <Field label="Name">
+        <input required value={form.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+      </Field>
+      <Field label="Kind">
+        <select
+          value={form.kind}
+          onChange={(e) => update({ kind: e.target.value as SigningIdentityKind })}
+          className={inputClass}
+        >
+          <option value="upload">Upload key (Play App Signing)</option>
+          <option value="release">Release key</option>
+        </select>
+      </Field>
+      <Field label="Keystore">
+        <div className="flex gap-2">
+          <input required readOnly value={form.keystorePath} className={inputClass} />
+          <button type="button" onClick={chooseKeystore} className="px-4 py-2 border rounded-lg">
+            Browse
+          </button>
+        </div>
+      </Field>
+      <Field label="Key alias">
+        <input required value={form.alias} onChange={(e) => update({ alias: e.target.value })} className={inputClass} />
+      </Field>
+      <Field label="Store password">
+        <input
+          required
+          type="password"
+          value={form.storePassword}
+          onChange={(e) => update({ storePassword: e.target.value })}
+          className={inputClass}
+        />
+      </Field>
+      <Field label="Key password (if different)">
+        <input
+          type="password"
+          value={form.keyPassword}
+          onChange={(e) => update({ keyPassword: e.target.value })}
+          className={inputClass}
+        />
+      </Field>
+      <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded">
+        Import keystore
+      </button>
+    </form>
+  );
+};
+
+/**
+ * SigningIdentities Component
+ *
+ * Manages the encrypted signing vault: unlocking it with the master
+ * passphrase, generating or importing keystores, and choosing which apps
+ * each identity signs. Fingerprints are shown for registering upload keys
+ * with Google Play.
+ */
+const SigningIdentities: React.FC = () => {
+  const vault = useSigningStore((s) => s.vault);
+  const identities = useSigningStore((s) => s.identities);
+  const error = useSigningStore((s) => s.error);
+  const isLoading = useSigningStore((s) => s.isLoading);
+  const { loadState, loadIdentities, unlock, lock } = useSigningStore.getState();
+  const [passphrase, setPassphrase] = useState("");
+  const [mode, setMode] = useState<FormMode>("none");
+
+  useEffect(() => {
+    loadState();
+    loadIdentities();
+  }, [loadState, loadIdentities]);
+
+  return (
+    <div data-testid="signing-identities" className="space-y-4">
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {vault.unlocked ? (
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-green-700">Vault unlocked</span>
+          <button onClick={() => lock()} className="text-sm text-gray-600 hover:underline">
+            Lock
+          </button>
+        </div>
+      ) : (
+        <form
+          onSubmit={async (e) => {
+            e.preventDefault();
+            await unlock(passphrase);
+            setPassphrase("");
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={vault.initialized ? "Master passphrase" : "Choose a master passphrase"}
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded"
+          >
+            {vault.initialized ? "Unlock" : "Create"}
+          </button>
+        </form>
+      )}
+
+      {identities.length > 0 ? (
+        <ul className="space-y-3">
+          {identities.map((identity) => (
+            <IdentityCard key={identity.id} identity={identity} />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">No signing identities yet.</p>
+      )}
+
+      {vault.unlocked && (
+        <>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setMode(mode === "generate" ? "none" : "generate")}
+              className="px-4 py-2 border rounded-lg"
+            >
+              Generate keystore
+            </button>
+            <button
+              onClick={() => setMode(mode === "import" ? "none" : "import")}
+              className="px-4 py-2 border rounded-lg"
+            >
+              Import keystore
+            </button>
+          </div>
+          {mode === "generate" && <GenerateForm onDone={() => setMode("none")} />}
+          {mode === "import" && <ImportForm onDone={() => setMode("none")} />}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SigningIdentities;
@@ -0,0 +1,2 @@
+// Signing Components
+export { default as SigningIdentities } from "./SigningIdentities";
@@ -1,10 +1,41 @@
-import React, { useState, useCallback, useMemo } from "react";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
 import { useTemplateStore } from "../../store/templateStore";
 import MorphPointInput from "./MorphPointInput";
 import MorphPreview from "./MorphPreview";
 import { MorphTransformation } from "../../types/template";
+import type { InstantiationPlan, MorphFieldError, MorphValuesConfig } from "@shared/types";
 import "./MorphConfigPanel.css";
 
+const EMPTY_TRANSFORMATION: MorphTransformation = {
+  characters: {},
+  settings: {},
+  narrative: {},
+};
+
+/**
+ * App details the morph values are checked with; the panel only edits values
+ */
+const PREVIEW_APP = {
+  appName: "Preview",
+  packageName: "com.appforge.preview",
+  versionName: "1.0.0",
+  versionCode: 1,
+};
+
+/**
+ * Morph values of every section, keyed by morph point id
+ */
+function toValuesConfig(morphConfig: MorphTransformation): MorphValuesConfig {
+  return {
+    ...PREVIEW_APP,
+    values: {
+      ...morphConfig.characters,
+      ...morphConfig.settings,
+      ...morphConfig.narrative,
+    },
+  };
+}
+
 /**
  * MorphConfigPanel Component
  *
@@ -13,11 +44,12 @@ import "./MorphConfigPanel.css";
  *
  * Features:
  * - Add/remove morph points (character traits, setting elements, etc.)
- * - Real-time preview of transformations
+ * - Real-time preview of transformations, with the file diffs of a dry run
  * - Validation of morph configurations
  * - Undo/Redo support
  * - Export/Import configurations
- * - Visual feedback for invalid configs
+ * - Visual feedback for invalid configs, checked against the template's
+ *   validation rules as values change
  *
  * @returns React component for morph configuration
  */
@@ -29,12 +61,41 @@ const MorphConfigPanel: React.FC = () => {
     new Set(["characters", "settings", "narrative"])
   );
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  // Messages of the template's validation rules, by morph point id
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [plan, setPlan] = useState<InstantiationPlan | undefined>(undefined);
 
   const currentTemplate = useMemo(
     () => templates.find((t) => t.id === selectedTemplate),
     [templates, selectedTemplate]
   );
 
+  useEffect(() => {
+    if (!currentTemplate) return;
+    let cancelled = false;
+    const config = toValuesConfig(currentTemplate.morphTransformation || EMPTY_TRANSFORMATION);
+
+    window.appforge.templates.validateValues(currentTemplate.id, config).then((response) => {
+      if (cancelled || !response.success) return;
+      const errors = (response.data as MorphFieldError[]).filter(
+        (fieldError) => !(fieldError.field in PREVIEW_APP)
+      );
+      setFieldErrors(
+        Object.fromEntries(errors.map((fieldError) => [fieldError.field, fieldError.message]))
+      );
+    });
+
+    // The preview keeps the last plan when values are incomplete
+    window.appforge.templates.plan(currentTemplate.id, config).then((response) => {
+      if (cancelled || !response.success) return;
+      setPlan(response.data as InstantiationPlan);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentTemplate]);
+
   if (!currentTemplate) {
     return (
       <div className="morph-config-panel morph-config-panel--empty">
@@ -43,11 +104,12 @@ const MorphConfigPanel: React.FC = () => {
     );
   }
 
-  const morphConfig = currentTemplate.morphTransformation || {
-    characters: {},
-    settings: {},
-    narrative: {},
-  };
+  const morphConfig = currentTemplate.morphTransformation || EMPTY_TRANSFORMATION;
+
+  // Errors of morph points that have no input in any section
+  const unplacedErrors = Object.entries(fieldErrors)
+    .filter(([field]) => !(field in toValuesConfig(morphConfig).values))
+    .map(([, message]) => message);
 
   // Toggle section expansion
   const toggleSection = useCallback((section: string): void => {
@@ -169,6 +231,7 @@ const MorphConfigPanel: React.FC = () => {
                 }
                 onDelete={() => handleDeleteMorphPoint(category, key)}
                 category={category}
+                error={fieldErrors[key]}
               />
             ))}
 
@@ -196,9 +259,9 @@ const MorphConfigPanel: React.FC = () => {
         </p>
       </div>
 
-      {validationErrors.length > 0 && (
+      {validationErrors.length + unplacedErrors.length > 0 && (
         <div className="morph-config-panel__errors">
-          {validationErrors.map((error, idx) => (
+          {[...validationErrors, ...unplacedErrors].map((error, idx) => (
             <div key={idx} className="morph-config-panel__error">
               {error}
             </div>
@@ -213,7 +276,11 @@ const MorphConfigPanel: React.FC = () => {
       </div>
 
       {/* Real-time preview */}
-      <MorphPreview template={currentTemplate} morphConfig={morphConfig} />
+      <MorphPreview
+        template={currentTemplate}
+        morphConfig={morphConfig}
+        plan={plan?.templateId === currentTemplate.id ? plan : undefined}
+      />
     </div>
   );
 };
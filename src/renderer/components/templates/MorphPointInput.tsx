@@ -7,6 +7,7 @@ interface MorphPointInputProps {
   onChange: (value: string) => void;
   onDelete: () => void;
   category: "characters" | "settings" | "narrative";
+  error?: string;
 }
 
 /**
@@ -28,6 +29,7 @@ interface MorphPointInputProps {
  * @param onChange - Callback on value change
  * @param onDelete - Callback on deletion
  * @param category - Category for styling
+ * @param error - Inline validation message from the template's rules
  * @returns React component for single morph point input
  */
 const MorphPointInput: React.FC<MorphPointInputProps> = ({
@@ -36,6 +38,7 @@ const MorphPointInput: React.FC<MorphPointInputProps> = ({
   onChange,
   onDelete,
   category,
+  error,
 }) => {
   const [charCount, setCharCount] = useState(value.length);
   const [confirmDelete, setConfirmDelete] = useState(false);
@@ -71,7 +74,11 @@ const MorphPointInput: React.FC<MorphPointInputProps> = ({
   };
 
   return (
-    <div className={`morph-point-input morph-point-input--${category}`}>
+    <div
+      className={`morph-point-input morph-point-input--${category}${
+        error ? " morph-point-input--invalid" : ""
+      }`}
+    >
       <div className="morph-point-input__header">
         <label className="morph-point-input__label">{label}</label>
         <span className="morph-point-input__char-count">
@@ -86,8 +93,15 @@ const MorphPointInput: React.FC<MorphPointInputProps> = ({
         onChange={handleChange}
         placeholder={`Describe the ${category} transformation...`}
         rows={2}
+        aria-invalid={Boolean(error)}
       />
 
+      {error && (
+        <span className="morph-point-input__error" role="alert">
+          {error}
+        </span>
+      )}
+
       <div className="morph-point-input__footer">
         {!confirmDelete ? (
           <button
@@ -1,10 +1,12 @@
 import React, { useMemo } from "react";
 import { Template, MorphTransformation } from "../../types/template";
+import type { InstantiationPlan } from "@shared/types";
 import "./MorphPreview.css";
 
 interface MorphPreviewProps {
   template: Template;
   morphConfig: MorphTransformation;
+  plan?: InstantiationPlan;
 }
 
 /**
@@ -19,14 +21,17 @@ interface MorphPreviewProps {
  * - Validation of completeness
  * - Visual indicators for filled/empty sections
  * - Scrollable preview area
+ * - File-level diffs from a dry-run instantiation plan
  *
  * @param template - Template to preview
  * @param morphConfig - Current morph transformation config
+ * @param plan - Optional dry-run plan from `template:plan`
  * @returns React component displaying transformation preview
  */
 const MorphPreview: React.FC<MorphPreviewProps> = ({
   template,
   morphConfig,
+  plan,
 }) => {
   const completionMetrics = useMemo(() => {
     const calculateCompletion = (section: Record<string, unknown>): number => {
@@ -154,6 +159,55 @@ const MorphPreview: React.FC<MorphPreviewProps> = ({
         )}
       </div>
 
+      {/* File-level changes from the dry-run plan */}
+      {plan && (
+        <div className="morph-preview__plan">
+          <h4 className="morph-preview__section-title">
+            Planned changes ({plan.files.length} files, {plan.diffs.length}{" "}
+            modified)
+          </h4>
+
+          {plan.morphPoints
+            .filter((point) => !point.matched)
+            .map((point) => (
+              <div key={point.id} className="morph-preview__plan-warning">
+                ⚠ {point.id} does not match anything in {point.file}
+              </div>
+            ))}
+
+          {plan.diffs.map((fileDiff) => (
+            <details
+              key={`${fileDiff.oldPath}->${fileDiff.newPath}`}
+              className="morph-preview__diff"
+            >
+              <summary className="morph-preview__diff-file">
+                {fileDiff.oldPath === fileDiff.newPath
+                  ? fileDiff.newPath
+                  : `${fileDiff.oldPath} → ${fileDiff.newPath}`}
+              </summary>
+              <pre className="morph-preview__diff-body">
+                {fileDiff.diff.split("\n").map((line, idx) => (
+                  <div
+                    key={idx}
+                    className={`morph-preview__diff-line${
+                      line.startsWith("+") && !line.startsWith("+++")
+                        ? " morph-preview__diff-line--added"
+                        : line.startsWith("-") && !line.startsWith("---")
+                          ? " morph-preview__diff-line--removed"
+                          : line.startsWith("@@")
+                            ? " morph-preview__diff-line--hunk"
+                            : ""
+                    }`}
+                  >
+                    {line}
+                  </div>
+                ))}
+              </pre>
+            </details>
+          ))}
+        </div>
+      )}
+
       {/* Recommendations */}
       {completionMetrics.overall < 100 && (
         <div className="morph-preview__recommendations">
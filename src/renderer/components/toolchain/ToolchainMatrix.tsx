@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from "react";
+import type {
+  TemplateToolchainCompatibility,
+  ToolchainComponent,
+  ToolchainComponentKind,
+  ToolchainInventory,
+} from "@shared/types";
+
+const COLUMNS: Array<{ kind: ToolchainComponentKind; label: string }> = [
+  { kind: "jdk", label: "JDK" },
+  { kind: "platform", label: "Platform" },
+  { kind: "build-tools", label: "Build-tools" },
+  { kind: "ndk", label: "NDK" },
+];
+
+/**
+ * ToolchainMatrix Component
+ *
+ * Lists the JDKs and SDK packages installed on this machine, and for
+ * each template the components its builds would use or the ones that
+ * have to be installed first.
+ */
+const ToolchainMatrix: React.FC = () => {
+  const [inventory, setInventory] = useState<ToolchainInventory | null>(null);
+  const [rows, setRows] = useState<TemplateToolchainCompatibility[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const load = async (refresh: boolean): Promise<void> => {
+    setStatus(refresh ? "Scanning..." : null);
+    const scanned = await window.appforge.toolchain.inventory(refresh);
+    const checked = await window.appforge.toolchain.compatibility();
+    if (!scanned.success || !checked.success) {
+      setStatus(`Could not check toolchains: ${(scanned.error ?? checked.error)?.message}`);
+      return;
+    }
+    setInventory(scanned.data as ToolchainInventory);
+    setRows(checked.data as TemplateToolchainCompatibility[]);
+    setStatus(null);
+  };
+
+  useEffect(() => {
+    load(false);
+  }, []);
+
+  const installed = (kind: ToolchainComponentKind) =>
+    inventory?.components.filter((component) => component.kind === kind) ?? [];
+
+  return (
+    <div data-testid="toolchain-matrix" className="space-y-4">
+      <div className="flex justify-between items-center">
+        <span className="text-sm text-gray-600">
+          {inventory?.sdkRoot ? <>Android SDK at <span className="font-mono">{inventory.sdkRoot}</span></> : "No Android SDK found"}
+        </span>
+        <button
+          data-testid="toolchain-rescan"
+          onClick={() => load(true)}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-900 font-semibold py-1 px-3 rounded"
+        >
+          Rescan
+        </button>
+      </div>
+      {status && <div className="text-sm text-gray-600">{status}</div>}
+
+      <dl className="text-sm grid grid-cols-[6rem_1fr] gap-x-2 gap-y-1">
+        {COLUMNS.map(({ kind, label }) => (
+          <React.Fragment key={kind}>
+            <dt className="text-gray-500">{label}</dt>
+            <dd>{installed(kind).map((component) => component.version).join(", ") || "none"}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-gray-500">
+            <th className="py-1">Template</th>
+            <th>AGP</th>
+            {COLUMNS.map(({ kind, label }) => (
+              <th key={kind}>{label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ templateId, templateName, resolution }) => (
+            <tr key={templateId} data-testid="toolchain-row" className="border-b align-top">
+              <td className="py-1 font-semibold">{templateName}</td>
+              <td>{resolution.requirements.agpVersion}</td>
+              {COLUMNS.map(({ kind }) => {
+                const missing = resolution.missing.find((component) => component.kind === kind);
+                const chosen = resolution.selected.find((component: ToolchainComponent) => component.kind === kind);
+                return (
+                  <td key={kind} className={missing ? "text-red-700" : "text-green-700"}>
+                    {missing ? (
+                      <span title={missing.sdkPackage && `sdkmanager "${missing.sdkPackage}"`}>
+                        Missing: {missing.requirement}
+                      </span>
+                    ) : (
+                      chosen?.version ?? <span className="text-gray-400">not needed</span>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ToolchainMatrix;
@@ -0,0 +1,2 @@
+// Toolchain Components
+export { default as ToolchainMatrix } from "./ToolchainMatrix";
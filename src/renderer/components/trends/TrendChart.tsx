@@ -1,4 +1,5 @@
 import React, { useMemo } from "react";
+import type { TrendForecastResult } from "@shared/types";
 import "./TrendChart.css";
 
 interface Trend {
@@ -15,8 +16,14 @@ interface TrendChartProps {
   trends: Trend[];
   selectedTrends?: string[];
   onTrendSelect?: (trendId: string) => void;
+  forecast?: TrendForecastResult | null;
 }
 
+/**
+ * Plot area of the chart inside its 800x300 view box
+ */
+const PLOT = { left: 50, right: 780, top: 30, bottom: 250 };
+
 /**
  * TrendChart Component
  *
@@ -31,21 +38,66 @@ interface TrendChartProps {
  * - Export as PNG/SVG
  * - Responsive sizing
  * - Color-coded by source
+ * - Forecast of one trend, with its prediction interval as a band
+ *   after the actual values
  *
  * @param trends - Array of trend data
  * @param selectedTrends - Specific trends to highlight
  * @param onTrendSelect - Callback when trend is selected
+ * @param forecast - Forecast to plot next to the actual values
  * @returns React component showing trend chart
  */
 const TrendChart: React.FC<TrendChartProps> = ({
   trends,
   selectedTrends = [],
   onTrendSelect,
+  forecast,
 }) => {
   const topTrends = useMemo(() => {
     return trends.sort((a, b) => (b.volume || 0) - (a.volume || 0)).slice(0, 5);
   }, [trends]);
 
+  const forecastPaths = useMemo(() => {
+    if (!forecast || forecast.actual.length === 0) return null;
+
+    const count = forecast.actual.length + forecast.forecast.length;
+    const max = Math.max(
+      1,
+      ...forecast.actual.map((point) => point.volume),
+      ...forecast.forecast.map((point) => point.upper)
+    );
+    const x = (index: number) =>
+      PLOT.left + ((PLOT.right - PLOT.left) * index) / Math.max(1, count - 1);
+    const y = (volume: number) =>
+      PLOT.bottom - ((PLOT.bottom - PLOT.top) * volume) / max;
+    const line = (points: Array<[number, number]>) =>
+      points.map(([px, py], i) => `${i === 0 ? "M" : "L"} ${px} ${py}`).join(" ");
+
+    // The forecast starts from the last actual value
+    const last = forecast.actual.length - 1;
+    const lastPoint: [number, number] = [x(last), y(forecast.actual[last].volume)];
+    const ahead = forecast.forecast.map((point, i) => ({ ...point, x: x(last + 1 + i) }));
+    const peak = forecast.peakDate
+      ? [...forecast.actual, ...forecast.forecast].findIndex(
+          (point) => new Date(point.date).getTime() === new Date(forecast.peakDate!).getTime()
+        )
+      : -1;
+
+    return {
+      actual: line(forecast.actual.map((point, i) => [x(i), y(point.volume)])),
+      predicted: line([lastPoint, ...ahead.map((point): [number, number] => [point.x, y(point.volume)])]),
+      band:
+        line([lastPoint, ...ahead.map((point): [number, number] => [point.x, y(point.upper)])]) +
+        " " +
+        [...ahead]
+          .reverse()
+          .map((point) => `L ${point.x} ${y(point.lower)}`)
+          .join(" ") +
+        " Z",
+      peak: peak >= 0 ? { x: x(peak), y: y(forecast.peakVolume ?? 0) } : null,
+    };
+  }, [forecast]);
+
   const getVelocityIndicator = (velocity: number): string => {
     if (velocity > 0.1) return "📈";
     if (velocity < -0.1) return "📉";
@@ -75,6 +127,17 @@ const TrendChart: React.FC<TrendChartProps> = ({
             />
             <span className="trend-chart__legend-label">Reddit</span>
           </div>
+          {forecastPaths && (
+            <div className="trend-chart__legend-item">
+              <span
+                className="trend-chart__legend-color"
+                style={{ backgroundColor: "#93C5FD" }}
+              />
+              <span className="trend-chart__legend-label">
+                Forecast ({Math.round(forecast!.confidence * 100)}% interval)
+              </span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -117,6 +180,24 @@ const TrendChart: React.FC<TrendChartProps> = ({
             strokeWidth="2"
           />
 
+          {/* Forecast of the selected trend */}
+          {forecastPaths && (
+            <g data-testid="trend-forecast">
+              <path d={forecastPaths.band} fill="#93C5FD" fillOpacity="0.5" stroke="none" />
+              <path d={forecastPaths.actual} fill="none" stroke="#111827" strokeWidth="2" />
+              <path
+                d={forecastPaths.predicted}
+                fill="none"
+                stroke="#2563EB"
+                strokeWidth="2"
+                strokeDasharray="6 4"
+              />
+              {forecastPaths.peak && (
+                <circle cx={forecastPaths.peak.x} cy={forecastPaths.peak.y} r="5" fill="#DC2626" />
+              )}
+            </g>
+          )}
+
           {/* Chart lines for top trends */}
           {topTrends.map((trend, index) => {
             const color = getSourceColor(trend.source);
@@ -136,33 +217,45 @@ const TrendChart: React.FC<TrendChartProps> = ({
         </svg>
       </div>
 
+      {forecast && (
+        <p className="trend-chart__forecast-summary">
+          {forecast.model} model
+          {forecast.mape !== undefined && `, ${forecast.mape}% backtest error`}
+          {forecast.peakDate
+            ? `, peak ${new Date(forecast.peakDate).toLocaleDateString()}`
+            : ", still rising at the end of the forecast"}
+        </p>
+      )}
+
       {/* Top trends list */}
-      <div className="trend-chart__top-trends">
-        <h4>Top Trends</h4>
-        {topTrends.map((trend) => (
-          <div
-            key={trend.id}
-            className={`trend-chart__trend-item ${
-              selectedTrends.includes(trend.id)
-                ? "trend-chart__trend-item--selected"
-                : ""
-            }`}
-            onClick={() => onTrendSelect?.(trend.id)}
-          >
-            <span className="trend-chart__trend-icon">
-              {getVelocityIndicator(trend.velocity)}
-            </span>
-            <span className="trend-chart__trend-name">{trend.keyword}</span>
-            <span
-              className="trend-chart__trend-source"
-              style={{ backgroundColor: getSourceColor(trend.source) }}
+      {topTrends.length > 0 && (
+        <div className="trend-chart__top-trends">
+          <h4>Top Trends</h4>
+          {topTrends.map((trend) => (
+            <div
+              key={trend.id}
+              className={`trend-chart__trend-item ${
+                selectedTrends.includes(trend.id)
+                  ? "trend-chart__trend-item--selected"
+                  : ""
+              }`}
+              onClick={() => onTrendSelect?.(trend.id)}
             >
-              {trend.source === "google" ? "G" : "R"}
-            </span>
-            <span className="trend-chart__trend-volume">{trend.volume}%</span>
-          </div>
-        ))}
-      </div>
+              <span className="trend-chart__trend-icon">
+                {getVelocityIndicator(trend.velocity)}
+              </span>
+              <span className="trend-chart__trend-name">{trend.keyword}</span>
+              <span
+                className="trend-chart__trend-source"
+                style={{ backgroundColor: getSourceColor(trend.source) }}
+              >
+                {trend.source === "google" ? "G" : "R"}
+              </span>
+              <span className="trend-chart__trend-volume">{trend.volume}%</span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,334 @@
+import React, { useEffect, useState } from "react";
+import type { TrendFieldMapping, TrendPluginConfig, TrendPluginKind } from "@shared/types";
+
+const inputClass = "w-full px-4 py-2 border rounded-lg";
+
+const KINDS: Array<{ kind: TrendPluginKind; label: string }> = [
+  { kind: "rss", label: "RSS or Atom feed" },
+  { kind: "folder", label: "Watched folder (CSV, JSON)" },
+  { kind: "manual", label: "Keyword list" },
+];
+
+const MAPPED_FIELDS: Array<{ field: keyof TrendFieldMapping; label: string; placeholder: string }> = [
+  { field: "keyword", label: "Keyword", placeholder: "title" },
+  { field: "volume", label: "Volume", placeholder: "volume" },
+  { field: "growthRate", label: "Growth rate", placeholder: "growth_rate" },
+  { field: "category", label: "Category", placeholder: "category" },
+];
+
+interface PluginForm {
+  id: string;
+  kind: TrendPluginKind;
+  name: string;
+  enabled: boolean;
+  url: string;
+  path: string;
+  keywords: string;
+  fields: TrendFieldMapping;
+  refreshIntervalHours: string;
+}
+
+const EMPTY_FORM: PluginForm = {
+  id: "",
+  kind: "rss",
+  name: "",
+  enabled: true,
+  url: "",
+  path: "",
+  keywords: "",
+  fields: {},
+  refreshIntervalHours: "",
+};
+
+/**
+ * Plugin id from its name, e.g. "My Feed" to "my-feed"
+ */
+function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+/**
+ * "keyword, volume, category" lines to keyword entries
+ */
+function parseKeywords(text: string): TrendPluginConfig["keywords"] {
+  return text
+    .split("\n")
+    .map((line) => line.split(",").map((part) => part.trim()))
+    .filter(([keyword]) => keyword)
+    .map(([keyword, volume, category]) => ({
+      keyword,
+      ...(volume && Number.isFinite(Number(volume)) ? { volume: Number(volume) } : {}),
+      ...(category ? { category } : {}),
+    }));
+}
+
+function formatKeywords(keywords: TrendPluginConfig["keywords"] = []): string {
+  return keywords
+    .map((entry) => [entry.keyword, entry.volume ?? "", entry.category ?? ""].join(", ").replace(/(, )+$/, ""))
+    .join("\n");
+}
+
+function toConfig(form: PluginForm): TrendPluginConfig {
+  const fields = Object.fromEntries(
+    Object.entries(form.fields).filter(([, value]) => value?.trim())
+  ) as TrendFieldMapping;
+  return {
+    id: form.id || slug(form.name),
+    kind: form.kind,
+    name: form.name.trim(),
+    enabled: form.enabled,
+    ...(form.kind === "rss" ? { url: form.url.trim() } : {}),
+    ...(form.kind === "folder" ? { path: form.path.trim() } : {}),
+    ...(form.kind === "manual" ? { keywords: parseKeywords(form.keywords) } : {}),
+    ...(form.kind !== "manual" && Object.keys(fields).length > 0 ? { fields } : {}),
+    ...(form.refreshIntervalHours ? { refreshIntervalHours: Number(form.refreshIntervalHours) } : {}),
+  };
+}
+
+function toForm(config: TrendPluginConfig): PluginForm {
+  return {
+    id: config.id,
+    kind: config.kind,
+    name: config.name,
+    enabled: config.enabled,
+    url: config.url ?? "",
+    path: config.path ?? "",
+    keywords: formatKeywords(config.keywords),
+    fields: config.fields ?? {},
+    refreshIntervalHours: config.refreshIntervalHours?.toString() ?? "",
+  };
+}
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+    {children}
+  </div>
+);
+
+const PluginFormView: React.FC<{
+  initial: PluginForm;
+  onSave: (config: TrendPluginConfig) => Promise<boolean>;
+  onCancel: () => void;
+}> = ({ initial, onSave, onCancel }) => {
+  const [form, setForm] = useState<PluginForm>(initial);
+  const update = (changes: Partial<PluginForm>) => setForm({ ...form, ...changes });
+  const editing = initial.id !== "";
+
+  const chooseFolder = async () => {
+    const result = await window.appforge.openFileDialog({
+      title: "Select trend folder",
+      properties: ["openDirectory"],
+    });
+    if (!result.canceled && result.filePaths[0]) {
+      update({ path: result.filePaths[0] });
+    }
+  };
+
+  return (
+    <form
+      onSubmit={async (e) => {
+        e.preventDefault();
+        if (await onSave(toConfig(form))) onCancel();
+      }}
+      className="space-y-3 border rounded-lg p-4"
+    >
+      <Field label="Kind">
+        <select
+          disabled={editing}
+          value={form.kind}
+          onChange={(e) => update({ kind: e.target.value as TrendPluginKind })}
+          className={inputClass}
+        >
+          {KINDS.map(({ kind, label }) => (
+            <option key={kind} value={kind}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </Field>
+      <Field label="Name">
+        <input required value={form.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+      </Field>
+
+      {form.kind === "rss" && (
+        <Field label="Feed URL">
+          <input
+            required
+            value={form.url}
+            onChange={(e) => update({ url: e.target.value })}
+            placeholder="https://trends.google.com/trending/rss?geo=US or file:///path/to/feed.xml"
+            className={inputClass}
+          />
+        </Field>
+      )}
+
+      {form.kind === "folder" && (
+        <Field label="Folder">
+          <div className="flex gap-2">
+            <input required value={form.path} onChange={(e) => update({ path: e.target.value })} className={inputClass} />
+            <button type="button" onClick={chooseFolder} className="px-4 py-2 border rounded-lg">
+              Browse
+            </button>
+          </div>
+        </Field>
+      )}
+
+      {form.kind === "manual" && (
+        <Field label="Keywords (one per line: keyword, volume, category)">
+          <textarea
+            rows={6}
+            value={form.keywords}
+            onChange={(e) => update({ keywords: e.target.value })}
+            placeholder={"cat memes, 12000, entertainment\nlofi beats"}
+            className={`${inputClass} font-mono text-sm`}
+          />
+        </Field>
+      )}
+
+      {form.kind !== "manual" && (
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-700 mb-1">
+            Field mapping ({form.kind === "rss" ? "item elements" : "CSV columns or JSON paths"}; blank for the usual names)
+          </legend>
+          <div className="grid grid-cols-2 gap-2">
+            {MAPPED_FIELDS.map(({ field, label, placeholder }) => (
+              <Field key={field} label={label}>
+                <input
+                  value={form.fields[field] ?? ""}
+                  onChange={(e) => update({ fields: { ...form.fields, [field]: e.target.value } })}
+                  placeholder={placeholder}
+                  className={inputClass}
+                />
+              </Field>
+            ))}
+            {form.kind === "folder" && (
+              <Field label="JSON records path">
+                <input
+                  value={form.fields.records ?? ""}
+                  onChange={(e) => update({ fields: { ...form.fields, records: e.target.value } })}
+                  placeholder="data.trends"
+                  className={inputClass}
+                />
+              </Field>
+            )}
+          </div>
+        </fieldset>
+      )}
+
+      <Field label="Refresh interval (hours; blank for the scan interval)">
+        <input
+          type="number"
+          min={0.25}
+          step={0.25}
+          value={form.refreshIntervalHours}
+          onChange={(e) => update({ refreshIntervalHours: e.target.value })}
+          className={inputClass}
+        />
+      </Field>
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={form.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+        Enabled
+      </label>
+
+      <div className="flex gap-2">
+        <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded">
+          {editing ? "Save source" : "Add source"}
+        </button>
+        <button type="button" onClick={onCancel} className="px-4 py-2 border rounded-lg">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * TrendPluginSettings Component
+ *
+ * Configures the trend sources that need no API keys: RSS and Atom
+ * feeds, folders of CSV and JSON exports, and keyword lists. They are
+ * polled with the built-in sources on their own refresh interval.
+ */
+const TrendPluginSettings: React.FC = () => {
+  const [plugins, setPlugins] = useState<TrendPluginConfig[]>([]);
+  const [editing, setEditing] = useState<PluginForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = async (request: Promise<{ success: boolean; data?: unknown; error?: { message: string } }>) => {
+    const response = await request;
+    if (!response.success) {
+      setError(response.error?.message ?? "Could not update trend sources");
+      return false;
+    }
+    setPlugins(response.data as TrendPluginConfig[]);
+    setError(null);
+    return true;
+  };
+
+  useEffect(() => {
+    apply(window.appforge.trends.plugins());
+  }, []);
+
+  return (
+    <div data-testid="trend-plugin-settings" className="space-y-4">
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {plugins.length > 0 ? (
+        <ul className="space-y-2">
+          {plugins.map((plugin) => (
+            <li key={plugin.id} data-testid="trend-plugin" className="border rounded-lg p-3 flex justify-between items-center">
+              <div>
+                <span className="font-semibold">{plugin.name}</span>
+                <span className="ml-2 text-xs uppercase text-gray-500">{plugin.kind}</span>
+                {!plugin.enabled && <span className="ml-2 text-xs text-gray-500">disabled</span>}
+                <div className="text-sm text-gray-600 font-mono truncate">
+                  {plugin.url ?? plugin.path ?? `${plugin.keywords?.length ?? 0} keywords`}
+                  {plugin.refreshIntervalHours !== undefined && <> · every {plugin.refreshIntervalHours}h</>}
+                </div>
+              </div>
+              <div className="flex gap-3 text-sm">
+                <button
+                  onClick={() => apply(window.appforge.trends.savePlugin({ ...plugin, enabled: !plugin.enabled }))}
+                  className="text-gray-600 hover:underline"
+                >
+                  {plugin.enabled ? "Disable" : "Enable"}
+                </button>
+                <button onClick={() => setEditing(toForm(plugin))} className="text-gray-600 hover:underline">
+                  Edit
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Remove the trend source "${plugin.name}"?`)) {
+                      apply(window.appforge.trends.deletePlugin(plugin.id));
+                    }
+                  }}
+                  className="text-red-600 hover:underline"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">No feed, folder or keyword list sources yet.</p>
+      )}
+
+      {editing ? (
+        <PluginFormView
+          key={editing.id || "new"}
+          initial={editing}
+          onSave={(config) => apply(window.appforge.trends.savePlugin(config))}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        <button onClick={() => setEditing(EMPTY_FORM)} className="px-4 py-2 border rounded-lg">
+          Add trend source
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TrendPluginSettings;
@@ -3,3 +3,4 @@ export { default as TrendPage } from "./TrendPage";
 export { default as TrendChart } from "./TrendChart";
 export { default as TrendList } from "./TrendList";
 export { default as TrendDetail } from "./TrendDetail";
+export { default as TrendPluginSettings } from "./TrendPluginSettings";
@@ -5,6 +5,16 @@
 
 import React, { useState } from "react";
 import { useBuildStore } from "../stores/buildStore";
+import { BuildDetail, BuildTimeline } from "../components/builds";
+import type { BuildAttestationKind, BuildRemediationAttempt } from "@shared/types";
+
+/**
+ * Save dialog defaults for each document recorded with a build
+ */
+const ATTESTATION_FILES: Record<BuildAttestationKind, { title: string; suffix: string }> = {
+  provenance: { title: "Save Build Provenance", suffix: "intoto.json" },
+  sbom: { title: "Save SBOM", suffix: "cdx.json" },
+};
 
 const BuildsPage: React.FC = () => {
   const [showAddDialog, setShowAddDialog] = useState(false);
@@ -13,6 +23,47 @@ const BuildsPage: React.FC = () => {
   const history = useBuildStore((s) => s.history);
   const filters = useBuildStore((s) => s.filters);
   const setFilters = useBuildStore((s) => s.setFilters);
+  const selectBuild = useBuildStore((s) => s.selectBuild);
+  const diagnostics = useBuildStore((s) => s.diagnostics);
+  const loadDiagnostics = useBuildStore((s) => s.loadDiagnostics);
+  const apkReport = useBuildStore((s) => s.apkReport);
+  const loadApkReport = useBuildStore((s) => s.loadApkReport);
+  const artifacts = useBuildStore((s) => s.artifacts);
+  const loadArtifacts = useBuildStore((s) => s.loadArtifacts);
+  const performance = useBuildStore((s) => s.performance);
+  const loadPerformance = useBuildStore((s) => s.loadPerformance);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [attestationStatus, setAttestationStatus] = useState<string | null>(null);
+  const selectedBuild = history.find((h) => h.id === selectedId);
+
+  const openHistoryItem = (buildId: string) => {
+    setSelectedId(buildId);
+    setAttestationStatus(null);
+    selectBuild(buildId);
+    loadDiagnostics(buildId);
+    loadApkReport(buildId);
+    loadArtifacts(buildId);
+    loadPerformance(buildId);
+  };
+
+  const handleExportAttestation = async (kind: BuildAttestationKind): Promise<void> => {
+    if (!selectedBuild) return;
+
+    const file = ATTESTATION_FILES[kind];
+    const selection = await window.appforge.saveFileDialog({
+      title: file.title,
+      defaultPath: `${selectedBuild.appId}-${selectedBuild.id}.${file.suffix}`,
+      filters: [{ name: "JSON", extensions: ["json"] }],
+    });
+    if (selection.canceled || !selection.filePath) return;
+
+    const result = await window.appforge.builds.exportAttestation(selectedBuild.id, kind, selection.filePath);
+    setAttestationStatus(
+      result.success
+        ? `Saved to ${selection.filePath}`
+        : `Export failed: ${result.error?.message}`
+    );
+  };
 
   const filteredHistory = history.filter((h) => {
     if (filters.status !== "all" && h.status !== filters.status) return false;
@@ -134,7 +185,12 @@ const BuildsPage: React.FC = () => {
                 data-testid="queue-item"
                 className="flex justify-between items-center py-2 border-b"
               >
-                <span>{job.instanceId}</span>
+                <span>
+                  {job.appId}
+                  <span className="ml-2 text-sm text-gray-500">
+                    {[job.flavor, job.buildType, job.format].filter(Boolean).join(" · ")}
+                  </span>
+                </span>
                 <span className="text-sm text-gray-600">
                   Position #{queue.indexOf(job) + 1}
                 </span>
@@ -167,7 +223,10 @@ const BuildsPage: React.FC = () => {
             <div
               key={build.id}
               data-testid="history-item"
-              className="flex justify-between items-center py-2 border-b cursor-pointer hover:bg-gray-50"
+              onClick={() => openHistoryItem(build.id)}
+              className={`flex justify-between items-center py-2 border-b cursor-pointer hover:bg-gray-50 ${
+                selectedId === build.id ? "bg-gray-50" : ""
+              }`}
             >
               <div>
                 <div className="font-semibold">{build.appId}</div>
@@ -188,6 +247,66 @@ const BuildsPage: React.FC = () => {
           ))}
         </div>
       </div>
+
+      {/* Provenance and SBOM of the selected build */}
+      {selectedBuild?.status === "success" && (
+        <div
+          data-testid="build-attestations"
+          className="bg-white rounded-lg shadow p-6 flex items-center gap-3"
+        >
+          <span className="font-semibold mr-auto">Provenance</span>
+          {attestationStatus && (
+            <span className="text-sm text-gray-600">{attestationStatus}</span>
+          )}
+          <button
+            data-testid="download-provenance"
+            onClick={() => handleExportAttestation("provenance")}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-900 font-semibold py-1 px-3 rounded"
+          >
+            Download Provenance
+          </button>
+          <button
+            data-testid="download-sbom"
+            onClick={() => handleExportAttestation("sbom")}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-900 font-semibold py-1 px-3 rounded"
+          >
+            Download SBOM
+          </button>
+        </div>
+      )}
+
+      {/* Known failure cause and remediations of the selected build */}
+      {(selectedBuild?.failureClass || selectedBuild?.remediations?.length) && (
+        <div
+          data-testid="build-failure"
+          className="bg-white rounded-lg shadow p-6 space-y-2"
+        >
+          {selectedBuild.failureClass && (
+            <div className="font-semibold text-red-800">
+              Failed: {selectedBuild.failureClass}
+            </div>
+          )}
+          {selectedBuild.errorMessage && selectedBuild.failureClass && (
+            <div className="text-sm text-gray-700">
+              {selectedBuild.errorMessage.split("\n")[0]}
+            </div>
+          )}
+          {selectedBuild.remediations?.map((attempt: BuildRemediationAttempt, index: number) => (
+            <div key={index} className="text-sm text-gray-600">
+              Retried {attempt.failureClass} with {attempt.remediation}:{" "}
+              {attempt.succeeded ? "succeeded" : "failed"}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Details of the selected build */}
+      {selectedId && (apkReport || diagnostics.length > 0 || artifacts.length > 0) && (
+        <BuildDetail report={apkReport} diagnostics={diagnostics} artifacts={artifacts} />
+      )}
+
+      {/* Gradle task waterfall of the selected build */}
+      {selectedId && performance?.profile && <BuildTimeline performance={performance} />}
     </div>
   );
 };
@@ -16,17 +16,22 @@ const DashboardPage: React.FC = () => {
   const loadTemplates = useTemplateStore((s) => s.loadTemplates);
   const loadHistory = useBuildStore((s) => s.loadHistory);
   const loadTrends = useTrendStore((s) => s.loadTrends);
+  const cacheStats = useBuildStore((s) => s.cacheStats);
+  const loadCacheStats = useBuildStore((s) => s.loadCacheStats);
+  const clearCache = useBuildStore((s) => s.clearCache);
 
   useEffect(() => {
     const initDashboard = async () => {
       try {
-        await Promise.all([loadTemplates(), loadHistory(10), loadTrends()]);
+        await Promise.all([loadTemplates(), loadHistory(10), loadTrends(), loadCacheStats()]);
       } finally {
         setIsLoading(false);
       }
     };
     initDashboard();
-  }, [loadTemplates, loadHistory, loadTrends]);
+  }, [loadTemplates, loadHistory, loadTrends, loadCacheStats]);
+
+  const cacheLookups = cacheStats ? cacheStats.hits + cacheStats.misses : 0;
 
   if (isLoading) {
     return (
@@ -68,6 +73,50 @@ const DashboardPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Build Cache */}
+      {cacheStats && (
+        <div data-testid="build-cache-stats" className="bg-white rounded-lg shadow p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold text-gray-900">Build Cache</h2>
+            <button onClick={() => clearCache()} className="text-sm text-gray-600 hover:underline">
+              Clear
+            </button>
+          </div>
+          {cacheStats.cacheEnabled ? (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-gray-500">Hit rate</div>
+                <div className="text-2xl font-bold text-gray-900">
+                  {cacheLookups > 0 ? `${Math.round((cacheStats.hits / cacheLookups) * 100)}%` : "–"}
+                </div>
+              </div>
+              <div>
+                <div className="text-gray-500">Hits / misses</div>
+                <div className="text-2xl font-bold text-gray-900">
+                  {cacheStats.hits} / {cacheStats.misses}
+                </div>
+              </div>
+              <div>
+                <div className="text-gray-500">Cached builds</div>
+                <div className="text-2xl font-bold text-gray-900">
+                  {cacheStats.entries}
+                  <span className="text-sm font-normal text-gray-500"> + {cacheStats.workspaces} workspaces</span>
+                </div>
+              </div>
+              <div>
+                <div className="text-gray-500">Size</div>
+                <div className="text-2xl font-bold text-gray-900">
+                  {Math.round(cacheStats.size / (1024 * 1024))}
+                  <span className="text-sm font-normal text-gray-500"> / {cacheStats.cacheMaxSize} MB</span>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">The build cache is turned off in Settings.</p>
+          )}
+        </div>
+      )}
+
       {/* Quick Actions */}
       <div className="bg-white rounded-lg shadow p-6">
         <h2 className="text-xl font-bold text-gray-900 mb-4">Quick Actions</h2>
@@ -1,10 +1,13 @@
 /**
  * Settings Page - Application Configuration
- * User preferences, API keys, build settings
+ * User preferences, API keys, build settings, signing identities
  */
 
 import React from "react";
 import { useSettingsStore } from "../stores/settingsStore";
+import { SigningIdentities } from "../components/signing";
+import { ToolchainMatrix } from "../components/toolchain";
+import { TrendPluginSettings } from "../components/trends";
 
 const SettingsPage: React.FC = () => {
   const settings = useSettingsStore((s) => s.settings);
@@ -72,9 +75,49 @@ const SettingsPage: React.FC = () => {
             <input type="checkbox" className="mr-3" defaultChecked />
             <span className="text-gray-700">Sign APK automatically</span>
           </label>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              className="mr-3"
+              checked={settings.build.cacheEnabled}
+              onChange={(e) => updateSettings("build", { cacheEnabled: e.target.checked })}
+            />
+            <span className="text-gray-700">Reuse artifacts of identical builds</span>
+          </label>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Build Cache Size (MB)
+            </label>
+            <input
+              type="number"
+              min={256}
+              step={256}
+              value={settings.build.cacheMaxSize}
+              onChange={(e) => updateSettings("build", { cacheMaxSize: Number(e.target.value) })}
+              className="w-full px-4 py-2 border rounded-lg"
+            />
+          </div>
         </div>
       </div>
 
+      {/* Installed JDKs and SDK packages against each template */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-bold mb-4">Toolchains</h2>
+        <ToolchainMatrix />
+      </div>
+
+      {/* Signing */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-bold mb-4">Signing</h2>
+        <SigningIdentities />
+      </div>
+
+      {/* Feeds, watched folders and keyword lists polled for trends */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-bold mb-4">Trend Sources</h2>
+        <TrendPluginSettings />
+      </div>
+
       {/* API Configuration */}
       <div className="bg-white rounded-lg shadow p-6">
         <h2 className="text-xl font-bold mb-4">API Configuration</h2>
@@ -13,6 +13,46 @@ const TemplatesPage: React.FC = () => {
   const selectTemplate = useTemplateStore((s) => s.selectTemplate);
   const filters = useTemplateStore((s) => s.filters);
   const setFilters = useTemplateStore((s) => s.setFilters);
+  const loadTemplates = useTemplateStore((s) => s.loadTemplates);
+  const [packageStatus, setPackageStatus] = useState<string | null>(null);
+
+  const handleImport = async (): Promise<void> => {
+    const selection = await window.appforge.openFileDialog({
+      title: "Import Template",
+      filters: [{ name: "AppForge Template", extensions: ["afz"] }],
+      properties: ["openFile"],
+    });
+    if (selection.canceled || selection.filePaths.length === 0) return;
+
+    const result = await window.appforge.templates.import(selection.filePaths[0]);
+    if (!result.success) {
+      setPackageStatus(`Import failed: ${result.error?.message}`);
+      return;
+    }
+
+    const info = result.data as { name: string; version: string; signedBy: string | null };
+    setPackageStatus(
+      `Imported ${info.name} ${info.version}` +
+        (info.signedBy ? ` (signed by ${info.signedBy})` : " (unsigned)")
+    );
+    await loadTemplates();
+  };
+
+  const handleExport = async (templateId: string): Promise<void> => {
+    const selection = await window.appforge.saveFileDialog({
+      title: "Export Template",
+      defaultPath: `${templateId}.afz`,
+      filters: [{ name: "AppForge Template", extensions: ["afz"] }],
+    });
+    if (selection.canceled || !selection.filePath) return;
+
+    const result = await window.appforge.templates.export(templateId, selection.filePath);
+    setPackageStatus(
+      result.success
+        ? `Exported to ${selection.filePath}`
+        : `Export failed: ${result.error?.message}`
+    );
+  };
 
   const filteredTemplates = templates.filter((t) => {
     if (
@@ -48,9 +88,22 @@ const TemplatesPage: React.FC = () => {
             <option value="soundboard">Soundboard</option>
             <option value="widget">Widget</option>
           </select>
+          <button
+            data-testid="import-template"
+            onClick={handleImport}
+            className="px-4 py-2 border rounded-lg hover:bg-gray-50"
+          >
+            Import .afz
+          </button>
         </div>
       </div>
 
+      {packageStatus && (
+        <p data-testid="template-package-status" className="text-sm text-gray-600">
+          {packageStatus}
+        </p>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div data-testid="template-grid" className="lg:col-span-2">
           <TemplateGrid
@@ -110,6 +163,14 @@ const TemplatesPage: React.FC = () => {
                 {showConfigPanel ? "Hide Configuration" : "Configure"}
               </button>
 
+              <button
+                data-testid="export-template"
+                onClick={() => handleExport(selectedTemplate.id)}
+                className="w-full mt-3 border border-gray-300 hover:bg-gray-50 font-semibold py-2 px-4 rounded"
+              >
+                Export .afz
+              </button>
+
               {showConfigPanel && (
                 <MorphConfigPanel template={selectedTemplate} />
               )}
@@ -1,13 +1,18 @@
 /**
  * Trends Page - Trend Analysis and Discovery
- * Scan for trends, analyze market opportunities
+ * Scan for trends, analyze market opportunities, forecast a selected trend
  */
 
 import React, { useState } from "react";
+import type { TrendForecastResult } from "@shared/types";
 import { useTrendStore } from "../stores/trendStore";
+import TrendChart from "../components/trends/TrendChart";
 
 const TrendsPage: React.FC = () => {
   const [showScanDialog, setShowScanDialog] = useState(false);
+  const [forecastTrendId, setForecastTrendId] = useState<string | null>(null);
+  const [forecast, setForecast] = useState<TrendForecastResult | null>(null);
+  const [forecastError, setForecastError] = useState<string | null>(null);
   const trends = useTrendStore((s) => s.trends);
   const scanProgress = useTrendStore((s) => s.scanProgress);
   const lastScanAt = useTrendStore((s) => s.lastScanAt);
@@ -31,6 +36,18 @@ const TrendsPage: React.FC = () => {
     setShowScanDialog(false);
   };
 
+  const handleSelectTrend = async (trendId: string) => {
+    setForecastTrendId(trendId);
+    setForecast(null);
+    setForecastError(null);
+    const result = await window.appforge.trends.forecast(trendId);
+    if (result.success) {
+      setForecast(result.data as TrendForecastResult);
+    } else {
+      setForecastError(result.error?.message ?? "Could not forecast this trend");
+    }
+  };
+
   return (
     <div data-testid="page-trends" className="space-y-6">
       <div className="flex justify-between items-center">
@@ -170,13 +187,26 @@ const TrendsPage: React.FC = () => {
         </select>
       </div>
 
+      {/* Forecast of the selected trend */}
+      {forecastTrendId && (
+        <div data-testid="trend-forecast-panel" className="bg-white rounded-lg shadow p-4">
+          {forecast && <TrendChart trends={[]} forecast={forecast} />}
+          {forecastError && (
+            <p className="text-sm text-gray-500">{forecastError}</p>
+          )}
+        </div>
+      )}
+
       {/* Trends List */}
       <div data-testid="trend-list" className="space-y-3">
         {filteredTrends.map((trend) => (
           <div
             key={trend.id}
             data-testid="trend-card"
-            className="bg-white rounded-lg shadow p-4 hover:shadow-lg cursor-pointer transition"
+            onClick={() => handleSelectTrend(trend.id)}
+            className={`bg-white rounded-lg shadow p-4 hover:shadow-lg cursor-pointer transition ${
+              trend.id === forecastTrendId ? "ring-2 ring-blue-500" : ""
+            }`}
           >
             <div className="flex justify-between items-start">
               <div>
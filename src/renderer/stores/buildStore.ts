@@ -5,7 +5,18 @@
 
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import type { BuildJob, BuildStatus, BuildResult, TemplateInstance } from '@shared/types';
+import type {
+  ApkReport,
+  BuildArtifact,
+  BuildCacheStats,
+  BuildDiagnostic,
+  BuildJob,
+  BuildJobStatus,
+  BuildPerformance,
+  BuildResult,
+  BuildQueueState,
+  TemplateInstance,
+} from '@shared/types';
 
 interface BuildProgress {
   jobId: string;
@@ -17,7 +28,7 @@ interface BuildProgress {
 }
 
 interface BuildFilters {
-  status: BuildStatus | 'all';
+  status: BuildJobStatus | 'all';
   templateId: string | null;
   dateRange: { start: number; end: number } | null;
 }
@@ -27,6 +38,10 @@ interface BuildState {
   activeBuilds: BuildProgress[];
   history: BuildResult[];
   selectedBuild: BuildResult | null;
+  diagnostics: BuildDiagnostic[];
+  apkReport: ApkReport | null;
+  artifacts: BuildArtifact[];
+  performance: BuildPerformance | null;
   filters: BuildFilters;
   isLoading: boolean;
   error: string | null;
@@ -36,6 +51,7 @@ interface BuildState {
     averageBuildTime: number;
     todayBuilds: number;
   };
+  cacheStats: BuildCacheStats | null;
 
   // Queue actions
   loadQueue: () => Promise<void>;
@@ -54,6 +70,10 @@ interface BuildState {
   // History actions
   loadHistory: (limit?: number) => Promise<void>;
   selectBuild: (resultId: string) => void;
+  loadDiagnostics: (buildId: string) => Promise<void>;
+  loadApkReport: (buildId: string) => Promise<void>;
+  loadArtifacts: (buildId: string) => Promise<void>;
+  loadPerformance: (buildId: string) => Promise<void>;
   deleteBuildResult: (resultId: string) => Promise<void>;
   clearHistory: () => Promise<void>;
   exportBuildLog: (resultId: string) => Promise<string>;
@@ -68,11 +88,26 @@ interface BuildState {
 
   // Stats
   loadStats: () => Promise<void>;
+  loadCacheStats: () => Promise<void>;
+  clearCache: () => Promise<void>;
 
   // Utility
   clearError: () => void;
 }
 
+/**
+ * Unwrap a main-process response, throwing its error message on failure
+ */
+async function unwrap<T>(
+  response: Promise<{ success: boolean; data?: unknown; error?: { message: string } }>
+): Promise<T> {
+  const result = await response;
+  if (!result.success) {
+    throw new Error(result.error?.message ?? 'Request failed');
+  }
+  return result.data as T;
+}
+
 const defaultFilters: BuildFilters = {
   status: 'all',
   templateId: null,
@@ -86,6 +121,10 @@ export const useBuildStore = create<BuildState>()(
       activeBuilds: [],
       history: [],
       selectedBuild: null,
+      diagnostics: [],
+      apkReport: null,
+      artifacts: [],
+      performance: null,
       filters: defaultFilters,
       isLoading: false,
       error: null,
@@ -95,13 +134,14 @@ export const useBuildStore = create<BuildState>()(
         averageBuildTime: 0,
         todayBuilds: 0,
       },
+      cacheStats: null,
 
       // Queue actions
       loadQueue: async () => {
         set({ isLoading: true, error: null });
         try {
-          const queue = await window.api.builds.getQueue();
-          set({ queue, isLoading: false });
+          const { jobs } = await unwrap<BuildQueueState>(window.appforge.builds.queue());
+          set({ queue: jobs, isLoading: false });
         } catch (error) {
           console.error('Failed to load build queue:', error);
           set({
@@ -147,7 +187,7 @@ export const useBuildStore = create<BuildState>()(
 
       reorderQueue: async (jobIds: string[]) => {
         try {
-          await window.api.builds.reorderQueue(jobIds);
+          await unwrap(window.appforge.builds.reorder(jobIds));
           const { queue } = get();
           const reordered = jobIds
             .map((id) => queue.find((j) => j.id === id))
@@ -161,7 +201,7 @@ export const useBuildStore = create<BuildState>()(
 
       pauseQueue: async () => {
         try {
-          await window.api.builds.pauseQueue();
+          await unwrap(window.appforge.builds.pause());
         } catch (error) {
           console.error('Failed to pause queue:', error);
           set({ error: error instanceof Error ? error.message : 'Failed to pause queue' });
@@ -170,7 +210,7 @@ export const useBuildStore = create<BuildState>()(
 
       resumeQueue: async () => {
         try {
-          await window.api.builds.resumeQueue();
+          await unwrap(window.appforge.builds.resume());
         } catch (error) {
           console.error('Failed to resume queue:', error);
           set({ error: error instanceof Error ? error.message : 'Failed to resume queue' });
@@ -183,7 +223,7 @@ export const useBuildStore = create<BuildState>()(
           await window.api.builds.start(jobId);
           set((state) => ({
             queue: state.queue.map((j) =>
-              j.id === jobId ? { ...j, status: 'building' as BuildStatus } : j
+              j.id === jobId ? { ...j, status: 'running' as BuildJobStatus } : j
             ),
             activeBuilds: [
               ...state.activeBuilds,
@@ -204,11 +244,11 @@ export const useBuildStore = create<BuildState>()(
 
       cancelBuild: async (jobId: string) => {
         try {
-          await window.api.builds.cancel(jobId);
+          await unwrap(window.appforge.builds.cancel(jobId));
           set((state) => ({
             activeBuilds: state.activeBuilds.filter((b) => b.jobId !== jobId),
             queue: state.queue.map((j) =>
-              j.id === jobId ? { ...j, status: 'cancelled' as BuildStatus } : j
+              j.id === jobId ? { ...j, status: 'cancelled' as BuildJobStatus } : j
             ),
           }));
         } catch (error) {
@@ -256,6 +296,50 @@ export const useBuildStore = create<BuildState>()(
         set({ selectedBuild: build });
       },
 
+      loadDiagnostics: async (buildId: string) => {
+        set({ diagnostics: [] });
+        try {
+          const diagnostics = await unwrap<BuildDiagnostic[]>(window.appforge.builds.diagnostics(buildId));
+          set({ diagnostics });
+        } catch (error) {
+          console.error('Failed to load build diagnostics:', error);
+          set({ error: error instanceof Error ? error.message : 'Failed to load build diagnostics' });
+        }
+      },
+
+      loadApkReport: async (buildId: string) => {
+        set({ apkReport: null });
+        try {
+          const apkReport = await unwrap<ApkReport | null>(window.appforge.builds.report(buildId));
+          set({ apkReport });
+        } catch (error) {
+          console.error('Failed to load APK report:', error);
+          set({ error: error instanceof Error ? error.message : 'Failed to load APK report' });
+        }
+      },
+
+      loadArtifacts: async (buildId: string) => {
+        set({ artifacts: [] });
+        try {
+          const artifacts = await unwrap<BuildArtifact[]>(window.appforge.builds.artifacts(buildId));
+          set({ artifacts });
+        } catch (error) {
+          console.error('Failed to load build artifacts:', error);
+          set({ error: error instanceof Error ? error.message : 'Failed to load build artifacts' });
+        }
+      },
+
+      loadPerformance: async (buildId: string) => {
+        set({ performance: null });
+        try {
+          const performance = await unwrap<BuildPerformance>(window.appforge.builds.performance(buildId));
+          set({ performance });
+        } catch (error) {
+          console.error('Failed to load build timings:', error);
+          set({ error: error instanceof Error ? error.message : 'Failed to load build timings' });
+        }
+      },
+
       deleteBuildResult: async (resultId: string) => {
         try {
           await window.api.builds.deleteResult(resultId);
@@ -342,6 +426,25 @@ export const useBuildStore = create<BuildState>()(
         }
       },
 
+      loadCacheStats: async () => {
+        try {
+          const cacheStats = await unwrap<BuildCacheStats>(window.appforge.builds.cacheStats());
+          set({ cacheStats });
+        } catch (error) {
+          console.error('Failed to load build cache stats:', error);
+        }
+      },
+
+      clearCache: async () => {
+        try {
+          const cacheStats = await unwrap<BuildCacheStats>(window.appforge.builds.clearCache());
+          set({ cacheStats });
+        } catch (error) {
+          console.error('Failed to clear build cache:', error);
+          set({ error: error instanceof Error ? error.message : 'Failed to clear build cache' });
+        }
+      },
+
       // Utility
       clearError: () => {
         set({ error: null });
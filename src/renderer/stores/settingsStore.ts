@@ -5,6 +5,7 @@
 
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
+import type { BuildQueueState } from '@shared/types';
 
 export interface AndroidSDKSettings {
   sdkPath: string;
@@ -18,6 +19,8 @@ export interface BuildSettings {
   outputDirectory: string;
   parallelBuilds: number;
   cleanBuildEnabled: boolean;
+  cacheEnabled: boolean;
+  cacheMaxSize: number; // MB
   signApks: boolean;
   keystorePath: string;
   keystoreAlias: string;
@@ -27,7 +30,7 @@ export interface TrendSettings {
   autoScanEnabled: boolean;
   scanIntervalHours: number;
   maxTrendsToFetch: number;
-  includeSources: ('google' | 'reddit' | 'playstore')[];
+  includeSources: ('google' | 'reddit' | 'playstore' | 'twitter' | 'tiktok')[];
 }
 
 export interface AssetSettings {
@@ -81,6 +84,8 @@ const defaultSettings: AppSettings = {
     outputDirectory: './output',
     parallelBuilds: 2,
     cleanBuildEnabled: true,
+    cacheEnabled: true,
+    cacheMaxSize: 2048,
     signApks: false,
     keystorePath: '',
     keystoreAlias: '',
@@ -119,8 +124,15 @@ export const useSettingsStore = create<SettingsState>()(
           set({ isLoading: true, error: null });
           try {
             const loaded = await window.api.settings.getAll();
+            const settings = { ...defaultSettings, ...loaded };
+            // The build queue keeps its own concurrency limit
+            const queue = await window.appforge.builds.queue();
+            if (queue.success) {
+              const { concurrency } = queue.data as BuildQueueState;
+              settings.build = { ...settings.build, parallelBuilds: concurrency };
+            }
             set({
-              settings: { ...defaultSettings, ...loaded },
+              settings,
               isLoading: false,
             });
           } catch (error) {
@@ -148,6 +160,19 @@ export const useSettingsStore = create<SettingsState>()(
           });
 
           try {
+            if (section === 'build' && 'parallelBuilds' in updates) {
+              const response = await window.appforge.builds.setConcurrency((newSectionSettings as BuildSettings).parallelBuilds);
+              if (!response.success) {
+                throw new Error(response.error?.message ?? 'Failed to set build concurrency');
+              }
+            }
+            if (section === 'build' && ('cacheEnabled' in updates || 'cacheMaxSize' in updates)) {
+              const { cacheEnabled, cacheMaxSize } = newSectionSettings as BuildSettings;
+              await window.appforge.builds.configureCache({ cacheEnabled, cacheMaxSize });
+            }
+            if (section === 'trends') {
+              await window.appforge.trends.configure(newSectionSettings);
+            }
             await window.api.settings.update(section, newSectionSettings);
           } catch (error) {
             console.error('Failed to save settings:', error);
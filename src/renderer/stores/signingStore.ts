@@ -0,0 +1,151 @@
+/**
+ * Signing Store - Signing vault and identity state management
+ * Handles unlocking the vault, keystore generation and import, and
+ * assigning identities to apps
+ */
+
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type {
+  AppProject,
+  GenerateSigningIdentityRequest,
+  ImportSigningIdentityRequest,
+  SigningIdentity,
+  SigningVaultState,
+} from '@shared/types';
+
+interface SigningState {
+  vault: SigningVaultState;
+  identities: SigningIdentity[];
+  apps: Pick<AppProject, 'id' | 'name'>[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Vault actions
+  loadState: () => Promise<void>;
+  unlock: (passphrase: string) => Promise<void>;
+  lock: () => Promise<void>;
+  changePassphrase: (current: string, next: string) => Promise<void>;
+
+  // Identity actions
+  loadIdentities: () => Promise<void>;
+  generateIdentity: (request: GenerateSigningIdentityRequest) => Promise<void>;
+  importIdentity: (request: ImportSigningIdentityRequest) => Promise<void>;
+  deleteIdentity: (identityId: string) => Promise<void>;
+  assignIdentity: (appId: string, identityId: string | null) => Promise<void>;
+
+  // Utility
+  clearError: () => void;
+}
+
+/**
+ * Unwrap a main-process response, throwing its error message on failure
+ */
+async function unwrap<T>(
+  response: Promise<{ success: boolean; data?: unknown; error?: { message: string } }>
+): Promise<T> {
+  const result = await response;
+  if (!result.success) {
+    throw new Error(result.error?.message ?? 'Request failed');
+  }
+  return result.data as T;
+}
+
+export const useSigningStore = create<SigningState>()(
+  devtools(
+    (set, get) => {
+      /**
+       * Run an action, recording its failure in `error`
+       */
+      const attempt = async (action: () => Promise<void>, fallback: string): Promise<void> => {
+        set({ isLoading: true, error: null });
+        try {
+          await action();
+          set({ isLoading: false });
+        } catch (error) {
+          console.error(`${fallback}:`, error);
+          set({
+            error: error instanceof Error ? error.message : fallback,
+            isLoading: false,
+          });
+        }
+      };
+
+      return {
+        vault: { initialized: false, unlocked: false },
+        identities: [],
+        apps: [],
+        isLoading: false,
+        error: null,
+
+        // Vault actions
+        loadState: () =>
+          attempt(async () => {
+            set({ vault: await unwrap<SigningVaultState>(window.appforge.signing.state()) });
+          }, 'Failed to load signing vault'),
+
+        unlock: (passphrase: string) =>
+          attempt(async () => {
+            set({ vault: await unwrap<SigningVaultState>(window.appforge.signing.unlock(passphrase)) });
+          }, 'Failed to unlock signing vault'),
+
+        lock: () =>
+          attempt(async () => {
+            set({ vault: await unwrap<SigningVaultState>(window.appforge.signing.lock()) });
+          }, 'Failed to lock signing vault'),
+
+        changePassphrase: (current: string, next: string) =>
+          attempt(async () => {
+            await unwrap<void>(window.appforge.signing.changePassphrase(current, next));
+          }, 'Failed to change passphrase'),
+
+        // Identity actions
+        loadIdentities: () =>
+          attempt(async () => {
+            const [identities, apps] = await Promise.all([
+              unwrap<SigningIdentity[]>(window.appforge.signing.list()),
+              unwrap<AppProject[]>(window.appforge.apps.list()),
+            ]);
+            set({ identities, apps: apps.map(({ id, name }) => ({ id, name })) });
+          }, 'Failed to load signing identities'),
+
+        generateIdentity: (request: GenerateSigningIdentityRequest) =>
+          attempt(async () => {
+            const identity = await unwrap<SigningIdentity>(window.appforge.signing.generate(request));
+            set({ identities: [...get().identities, identity] });
+          }, 'Failed to generate keystore'),
+
+        importIdentity: (request: ImportSigningIdentityRequest) =>
+          attempt(async () => {
+            const identity = await unwrap<SigningIdentity>(window.appforge.signing.import(request));
+            set({ identities: [...get().identities, identity] });
+          }, 'Failed to import keystore'),
+
+        deleteIdentity: (identityId: string) =>
+          attempt(async () => {
+            await unwrap<void>(window.appforge.signing.delete(identityId));
+            set({ identities: get().identities.filter((identity) => identity.id !== identityId) });
+          }, 'Failed to delete signing identity'),
+
+        assignIdentity: (appId: string, identityId: string | null) =>
+          attempt(async () => {
+            await unwrap<void>(window.appforge.signing.assign(appId, identityId));
+            set({
+              identities: get().identities.map((identity) => ({
+                ...identity,
+                appIds: identity.id === identityId
+                  ? [...identity.appIds.filter((id) => id !== appId), appId]
+                  : identity.appIds.filter((id) => id !== appId),
+              })),
+            });
+          }, 'Failed to assign signing identity'),
+
+        // Utility
+        clearError: () => set({ error: null }),
+      };
+    },
+    { name: 'signing-store' }
+  )
+);
+
+export default useSigningStore;
@@ -192,7 +192,7 @@ export const useTemplateStore = create<TemplateState>()(
           const defaultConfig: MorphConfig = {
             templateId,
             values: morphPoints.reduce((acc, mp) => {
-              acc[mp.id] = mp.defaultValue;
+              acc[mp.id] = mp.default;
               return acc;
             }, {} as Record<string, unknown>),
           };
@@ -219,11 +219,15 @@ export const useTemplateStore = create<TemplateState>()(
 
         const errors: string[] = [];
         for (const mp of morphPoints) {
-          if (mp.required && !morphConfig.values[mp.id]) {
+          const value = morphConfig.values[mp.id];
+          const isEmpty =
+            value === undefined || value === null || value === '' ||
+            (Array.isArray(value) && value.length === 0);
+          if (mp.required && isEmpty) {
             errors.push(`${mp.label} is required`);
           }
-          if (mp.validation && morphConfig.values[mp.id]) {
-            const regex = new RegExp(mp.validation);
+          if (mp.validation?.pattern && !isEmpty) {
+            const regex = new RegExp(mp.validation.pattern);
             if (!regex.test(String(morphConfig.values[mp.id]))) {
               errors.push(`${mp.label} has invalid format`);
             }
@@ -5,7 +5,7 @@
 
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import type { Trend, TrendSource, TrendCategory } from '@shared/types';
+import type { Trend, TrendSource, TrendCategory, TrendScanProgress } from '@shared/types';
 
 interface TrendInsight {
   id: string;
@@ -310,12 +310,27 @@ export const useTrendStore = create<TrendState>()(
 
       // Progress subscription
       subscribeToScanProgress: () => {
-        const unsubscribe = window.api.trends.onScanProgress((progress: Partial<ScanProgress>) => {
+        const unsubscribeProgress = window.appforge.on('trends:scanProgress', (update) => {
+          const { source, completed, total, fetched, error } = update as TrendScanProgress;
           set((state) => ({
-            scanProgress: { ...state.scanProgress, ...progress },
+            scanProgress: {
+              ...state.scanProgress,
+              isScanning: completed < total,
+              source: source as TrendSource,
+              progress: Math.round((completed / total) * 100),
+              message: error ? `${source} failed: ${error}` : `Fetched ${fetched} trends from ${source}`,
+              startedAt: state.scanProgress.startedAt ?? Date.now(),
+            },
           }));
         });
-        return unsubscribe;
+        const unsubscribeComplete = window.appforge.on('trends:scanComplete', () => {
+          set({ scanProgress: defaultScanProgress, lastScanAt: Date.now() });
+          get().loadTrends();
+        });
+        return () => {
+          unsubscribeProgress();
+          unsubscribeComplete();
+        };
       },
 
       // Utility
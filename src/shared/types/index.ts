@@ -9,18 +9,66 @@
 // Template Types
 // =============================================================================
 
+export type MorphPointType =
+  | 'text'
+  | 'string'
+  | 'color'
+  | 'image'
+  | 'resource'
+  | 'layout'
+  | 'list'
+  | 'boolean'
+  | 'number'
+  | 'asset-bundle';
+
+export type MorphPointValue = string | boolean | number | string[];
+
+export type MorphListFormat = 'kotlin' | 'xml' | 'json' | 'csv' | 'lines';
+
+/**
+ * How a morph point's pattern is matched and its value escaped.
+ * `regex` matches the pattern as a regular expression; the others match
+ * it verbatim, escaping the value for XML, Kotlin, Java or JSON strings.
+ */
+export type SubstitutionMode = 'literal' | 'regex' | 'xml' | 'kotlin' | 'java' | 'json';
+
+/**
+ * A single customization point declared in morph.yaml.
+ * Shared by the template engine and the renderer's morph form.
+ */
 export interface MorphPoint {
-  key: string;
+  id: string;
   label: string;
-  type: 'text' | 'color' | 'image' | 'list' | 'boolean' | 'number';
-  default: string | boolean | number | string[];
+  type: MorphPointType;
+  path: string;
+  pattern: string;
+  required: boolean;
+  default?: MorphPointValue;
+  // Matching and escaping; inferred from the target file when omitted
+  mode?: SubstitutionMode;
+  description?: string;
   validation?: {
     pattern?: string;
     min?: number;
     max?: number;
     required?: boolean;
   };
-  description?: string;
+  // list: syntax the items are rendered in
+  format?: MorphListFormat;
+  // boolean: files or directories dropped when the value is false
+  files?: string[];
+  // number: unit the value is entered in and the unit written out
+  unit?: string;
+  outputUnit?: string;
+  // asset-bundle: resource name prefix and the file that receives the array
+  resourcePrefix?: string;
+  arrayPath?: string;
+}
+
+export interface MorphFieldError {
+  field: string;
+  rule: string;
+  message: string;
 }
 
 export interface TemplateMorphConfig {
@@ -74,7 +122,52 @@ export type AppStatus =
 
 export interface MorphValue {
   key: string;
-  value: string | boolean | number | string[];
+  value: MorphPointValue;
+}
+
+export interface MorphValuesConfig {
+  appName: string;
+  packageName: string;
+  versionName: string;
+  versionCode: number;
+  values: Record<string, MorphPointValue>;
+}
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export interface PlannedFile {
+  path: string;
+  source: string;
+  binary: boolean;
+}
+
+export interface MorphPointPlan {
+  id: string;
+  file: string;
+  matched: boolean;
+  ranges: LineRange[];
+}
+
+export interface FileDiff {
+  oldPath: string;
+  newPath: string;
+  diff: string;
+}
+
+export interface PathMove {
+  from: string;
+  to: string;
+}
+
+export interface InstantiationPlan {
+  templateId: string;
+  files: PlannedFile[];
+  morphPoints: MorphPointPlan[];
+  diffs: FileDiff[];
+  moves: PathMove[];
 }
 
 export interface AppProject {
@@ -82,6 +175,7 @@ export interface AppProject {
   name: string;
   packageName: string;
   templateId: string;
+  templateVersion?: string;
   templateCategory: TemplateCategory;
   morphValues: MorphValue[];
   status: AppStatus;
@@ -92,6 +186,25 @@ export interface AppProject {
   buildHistory: BuildRecord[];
 }
 
+export interface MorphValueChange {
+  key: string;
+  kind: 'renamed' | 'removed' | 'defaulted' | 'orphaned';
+  version: string;
+  from?: string;
+  oldValue?: MorphPointValue;
+  newValue?: MorphPointValue;
+}
+
+export interface AppMigrationPlan {
+  templateId: string;
+  fromVersion: string;
+  toVersion: string;
+  steps: string[];
+  changes: MorphValueChange[];
+  morphValues: MorphValue[];
+  missingRequired: string[];
+}
+
 export interface BuildRecord {
   id: string;
   appId: string;
@@ -109,7 +222,7 @@ export interface BuildRecord {
 // Trend Types
 // =============================================================================
 
-export type TrendSource = 'reddit' | 'google_trends' | 'app_store' | 'manual';
+export type TrendSource = 'reddit' | 'google_trends' | 'app_store' | 'twitter' | 'tiktok' | 'manual';
 
 export interface Trend {
   id: string;
@@ -132,6 +245,217 @@ export interface TrendAnalysis {
   categoryBreakdown: Record<TemplateCategory, number>;
 }
 
+/**
+ * Trend scan settings, mirroring `AppSettings.trends`
+ */
+export interface TrendIngestionSettings {
+  autoScanEnabled: boolean;
+  scanIntervalHours: number;
+  /** Trends fetched from each source per poll */
+  maxTrendsToFetch: number;
+  /** Settings names of the sources to poll, e.g. `google` or `reddit` */
+  includeSources: string[];
+}
+
+/**
+ * When a trend source was last polled and when it is polled next
+ */
+export interface TrendSourceStatus {
+  source: string;
+  intervalHours: number;
+  lastRunAt?: Date;
+  nextRunAt?: Date;
+  /** Consecutive failed polls; the source backs off while non-zero */
+  failures: number;
+  lastError?: string;
+  lastCount?: number;
+}
+
+export interface TrendIngestionStatus {
+  settings: TrendIngestionSettings;
+  scanning: boolean;
+  sources: TrendSourceStatus[];
+}
+
+/**
+ * Sent as `trends:scanProgress` after each source of a scan
+ */
+export interface TrendScanProgress {
+  scanId: string;
+  source: string;
+  completed: number;
+  total: number;
+  fetched: number;
+  error?: string;
+}
+
+/**
+ * Sent as `trends:scanComplete` when a scan finishes
+ */
+export interface TrendScanResult {
+  scanId: string;
+  startedAt: Date;
+  completedAt: Date;
+  sources: Array<{ source: string; fetched: number; error?: string }>;
+  /** Trends written to the trends table */
+  stored: number;
+}
+
+export type TrendPluginKind = 'rss' | 'folder' | 'manual';
+
+/**
+ * Where each trend field is read from: a column of a CSV file, a dotted
+ * path into a JSON record or the name of a feed item element
+ */
+export interface TrendFieldMapping {
+  keyword?: string;
+  volume?: string;
+  growthRate?: string;
+  category?: string;
+  /** JSON only: dotted path to the array of records */
+  records?: string;
+}
+
+/**
+ * A trend source configured in the settings rather than in code
+ */
+export interface TrendPluginConfig {
+  /** Lowercase letters, digits and dashes; the source is named `kind:id` */
+  id: string;
+  kind: TrendPluginKind;
+  name: string;
+  enabled: boolean;
+  /** rss: feed URL, or a file:// URL for a saved feed */
+  url?: string;
+  /** folder: directory watched for .csv and .json files */
+  path?: string;
+  /** manual: the keywords to report */
+  keywords?: Array<{ keyword: string; volume?: number; category?: string }>;
+  fields?: TrendFieldMapping;
+  /** Overrides the scan interval of the trend settings */
+  refreshIntervalHours?: number;
+}
+
+/**
+ * What one source reports about a trend entity
+ */
+export interface TrendEntitySignal {
+  trendId: string;
+  source: string;
+  keyword: string;
+  score: number;
+  volume: number;
+  growthRate: number | null;
+  /** Similarity to the entity when the trend joined it, 0-1 */
+  similarity: number;
+  seenAt: Date;
+}
+
+/**
+ * One topic as seen by any number of sources, merged into a canonical trend
+ */
+export interface TrendEntity {
+  id: string;
+  label: string;
+  sources: string[];
+  /** Highest score among the signals */
+  score: number;
+  /** Sum of the volumes of the signals */
+  volume: number;
+  signals: TrendEntitySignal[];
+  firstSeen: Date;
+  updatedAt: Date;
+}
+
+/**
+ * An entity linked to another by an edge
+ */
+export interface RelatedTrendEntity {
+  entity: TrendEntity;
+  /** Similarity, 0-1 */
+  weight: number;
+}
+
+export type TrendForecastModel = 'linear' | 'holt' | 'holt-winters';
+
+export interface TrendForecastPoint {
+  date: Date;
+  volume: number;
+  /** Bounds of the prediction interval */
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Daily volume forecast of a trend, fitted on its scan history
+ */
+export interface TrendForecastResult {
+  trendId: string;
+  model: TrendForecastModel;
+  /** The daily volumes the model was fitted on */
+  actual: Array<{ date: Date; volume: number }>;
+  forecast: TrendForecastPoint[];
+  /** Coverage of the prediction intervals, e.g. 0.95 */
+  confidence: number;
+  /** Highest volume seen or forecast; unset while still rising at the end of the forecast */
+  peakDate?: Date;
+  peakVolume?: number;
+  /** Backtest error of the model on this trend, in percent */
+  mape?: number;
+}
+
+/**
+ * Forecast error of each model on the trends with enough history
+ */
+export interface TrendBacktestReport {
+  horizonDays: number;
+  trends: number;
+  models: Array<{ model: TrendForecastModel; mape: number; forecasts: number }>;
+  /** Model with the lowest MAPE */
+  best?: TrendForecastModel;
+}
+
+/**
+ * A weighted edge of the trend correlation graph
+ */
+export interface TrendEdge {
+  relatedId: string;
+  /** Similarity, 0-1 */
+  weight: number;
+}
+
+export type TemplateScoreFactor = 'keyword' | 'related' | 'category' | 'sales';
+
+/**
+ * How much one factor added to a template recommendation
+ */
+export interface TemplateScoreReason {
+  factor: TemplateScoreFactor;
+  /** Strength of the factor, 0-1 */
+  value: number;
+  /** Share of the score the factor can contribute */
+  weight: number;
+  detail: string;
+}
+
+/**
+ * An installed template ranked for a trend, with the reasons for its score
+ */
+export interface TemplateRecommendation {
+  templateId: string;
+  templateName: string;
+  /** Sum of value × weight over the reasons, 0-1 */
+  score: number;
+  reasons: TemplateScoreReason[];
+}
+
+export interface CreateAppFromTrendRequest {
+  trendId: string;
+  templateId: string;
+  /** Used when the trend is no longer stored */
+  keyword?: string;
+}
+
 // =============================================================================
 // Distribution Types
 // =============================================================================
@@ -179,6 +503,50 @@ export interface BuildConfig {
     shrinkResources: boolean;
     enableR8: boolean;
   };
+  /** Where Gradle runs: `local` (default), `container` or `remote` */
+  executor?: string;
+}
+
+export type BuildFormat = 'apk' | 'aab';
+
+export type AndroidAbi = 'armeabi-v7a' | 'arm64-v8a' | 'x86' | 'x86_64';
+
+/**
+ * Variants to build from one app project: every combination of flavor,
+ * build type and format. ABI splits apply to APK variants only, since an
+ * App Bundle already contains every ABI.
+ */
+export interface BuildMatrix {
+  flavors?: string[];
+  buildTypes: Array<'debug' | 'release'>;
+  formats?: BuildFormat[];
+  abis?: AndroidAbi[];
+}
+
+/**
+ * One combination from a build matrix
+ */
+export interface BuildVariant {
+  flavor?: string;
+  buildType: 'debug' | 'release';
+  format: BuildFormat;
+  abis?: AndroidAbi[];
+}
+
+/**
+ * A file produced by a build. ABI splits produce one artifact per ABI,
+ * each with its own status.
+ */
+export interface BuildArtifact {
+  id: string;
+  jobId: string;
+  format: BuildFormat;
+  abi?: AndroidAbi;
+  path?: string;
+  size?: number;
+  status: 'success' | 'failed';
+  errorMessage?: string;
+  createdAt: Date;
 }
 
 export interface SigningConfig {
@@ -188,6 +556,60 @@ export interface SigningConfig {
   keyPassword: string;
 }
 
+export type SigningIdentityKind = 'upload' | 'release';
+
+/**
+ * A keystore held in the signing vault. Passwords and key material never
+ * leave the main process; only the certificate details are exposed.
+ */
+export interface SigningIdentity {
+  id: string;
+  name: string;
+  /** Play App Signing upload key, or a key that signs releases directly */
+  kind: SigningIdentityKind;
+  alias: string;
+  /** Certificate subject, e.g. `CN=Jane Doe, O=Example` */
+  subject: string;
+  /** Colon-separated hex certificate fingerprints */
+  sha1: string;
+  sha256: string;
+  validUntil?: Date;
+  /** Apps whose release builds are signed with this identity */
+  appIds: string[];
+  createdAt: Date;
+}
+
+export interface SigningVaultState {
+  /** False until a master passphrase has been set */
+  initialized: boolean;
+  unlocked: boolean;
+}
+
+/**
+ * Parameters for a newly generated keystore
+ */
+export interface GenerateSigningIdentityRequest {
+  name: string;
+  kind: SigningIdentityKind;
+  alias: string;
+  commonName: string;
+  organization?: string;
+  countryCode?: string;
+  validityYears?: number;
+}
+
+/**
+ * An existing keystore file to move into the vault
+ */
+export interface ImportSigningIdentityRequest {
+  name: string;
+  kind: SigningIdentityKind;
+  keystorePath: string;
+  alias: string;
+  storePassword: string;
+  keyPassword: string;
+}
+
 export interface BuildProgress {
   buildId: string;
   stage: BuildStage;
@@ -206,6 +628,284 @@ export type BuildStage =
   | 'complete'
   | 'failed';
 
+export type BuildTool = 'kotlinc' | 'javac' | 'aapt2' | 'd8' | 'r8' | 'manifest-merger' | 'gradle';
+
+/**
+ * A compiler or tool message extracted from Gradle output. `templateFile`
+ * and `morphPointId` are set when the file was generated from a template.
+ */
+export interface BuildDiagnostic {
+  tool: BuildTool;
+  severity: DiagnosticSeverity;
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  task?: string;
+  templateFile?: string;
+  templateSource?: string;
+  morphPointId?: string;
+}
+
+export type BuildJobStatus = 'queued' | 'running' | 'success' | 'failed' | 'cancelled';
+
+/**
+ * A build waiting in, or processed by, the main-process build queue.
+ * Queued jobs run by priority (highest first), then by queue position.
+ */
+export interface BuildJob {
+  id: string;
+  appId: string;
+  buildType: 'debug' | 'release';
+  flavor?: string;
+  format: BuildFormat;
+  /** Shared by the jobs queued from one build matrix */
+  matrixId?: string;
+  status: BuildJobStatus;
+  priority: number;
+  position: number;
+  attempts: number;
+  progress: number; // 0-100
+  currentTask?: string;
+  apkPath?: string;
+  errorMessage?: string;
+  /** Why a failed build failed, when the cause is a known one */
+  failureClass?: BuildFailureClass;
+  /** Retries made with remediations, in order */
+  remediations?: BuildRemediationAttempt[];
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Known causes of failed builds, recognized from the Gradle output
+ */
+export type BuildFailureClass =
+  | 'daemon-crash'
+  | 'out-of-memory'
+  | 'offline-dependencies'
+  | 'sdk-platform-missing'
+  | 'license-not-accepted'
+  | 'keystore-password'
+  | 'unreplaced-placeholder';
+
+/**
+ * Changes a failed build is retried with: without the Gradle daemon,
+ * with a larger heap, or offline from Gradle's cache
+ */
+export type BuildRemediation = 'no-daemon' | 'raise-heap' | 'offline';
+
+/**
+ * A retry of a failed build with a remediation applied
+ */
+export interface BuildRemediationAttempt {
+  failureClass: BuildFailureClass;
+  remediation: BuildRemediation;
+  succeeded: boolean;
+}
+
+export interface BuildQueueState {
+  paused: boolean;
+  concurrency: number;
+  jobs: BuildJob[];
+}
+
+/**
+ * Build cache settings, mirroring `AppSettings.build`
+ */
+export interface BuildCacheSettings {
+  cacheEnabled: boolean;
+  cacheMaxSize: number; // MB
+}
+
+/**
+ * Build cache usage and lookup counters
+ */
+export interface BuildCacheStats extends BuildCacheSettings {
+  /** Bytes used by cached artifacts and warm workspaces */
+  size: number;
+  entries: number;
+  workspaces: number;
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Documents recorded with a successful build: its signed SLSA provenance
+ * and its CycloneDX SBOM
+ */
+export type BuildAttestationKind = 'provenance' | 'sbom';
+
+/**
+ * How Gradle ran a task; only executed tasks did their work
+ */
+export type BuildTaskOutcome = 'executed' | 'up-to-date' | 'from-cache' | 'no-source' | 'skipped' | 'failed';
+
+/**
+ * When a Gradle task ran, in milliseconds from the start of the build
+ */
+export interface BuildTaskTiming {
+  path: string;
+  start: number;
+  duration: number;
+  outcome: BuildTaskOutcome;
+}
+
+/**
+ * Task-level timings of one Gradle invocation
+ */
+export interface BuildProfile {
+  /** Wall time of the build, in milliseconds */
+  duration: number;
+  /** Time spent before the first task started, in milliseconds */
+  configuration: number;
+  tasks: BuildTaskTiming[];
+}
+
+/**
+ * A task that took markedly longer than in earlier builds of the template
+ */
+export interface BuildTaskRegression {
+  path: string;
+  duration: number;
+  /** Median duration of the task in the earlier builds */
+  baseline: number;
+}
+
+/**
+ * Timings of a build next to those of earlier builds of its template
+ */
+export interface BuildPerformance {
+  /** Null for builds that reused cached artifacts or ran before profiling */
+  profile: BuildProfile | null;
+  regressions: BuildTaskRegression[];
+  /** Number of earlier builds compared against */
+  baselineBuilds: number;
+}
+
+/**
+ * Size of a group of APK entries, in bytes
+ */
+export interface ApkSizeEntry {
+  path: string;
+  files: number;
+  size: number;
+  compressedSize: number;
+}
+
+/**
+ * Whether a morphed value made it into the built APK
+ */
+export interface ApkCheck {
+  name: 'packageName' | 'appName' | 'placeholders';
+  expected: string;
+  actual?: string;
+  passed: boolean;
+}
+
+/**
+ * What a built APK contains, decoded from its manifest and resource table
+ */
+export interface ApkReport {
+  packageName: string;
+  versionCode?: number;
+  versionName?: string;
+  minSdkVersion?: number;
+  targetSdkVersion?: number;
+  label?: string;
+  permissions: string[];
+  activities: string[];
+  fileSize: number;
+  /** Sizes by top-level directory; files at the root are grouped under `/` */
+  directories: ApkSizeEntry[];
+  dexFiles: ApkSizeEntry[];
+  checks: ApkCheck[];
+}
+
+// =============================================================================
+// Toolchain Types
+// =============================================================================
+
+export type ToolchainComponentKind = 'jdk' | 'platform' | 'build-tools' | 'ndk';
+
+/**
+ * An installed JDK or Android SDK package. Platforms are versioned by
+ * API level, everything else by its full version.
+ */
+export interface ToolchainComponent {
+  kind: ToolchainComponentKind;
+  version: string;
+  path: string;
+}
+
+/**
+ * Everything installed on this machine that builds can use
+ */
+export interface ToolchainInventory {
+  /** SDK the platforms, build-tools and NDKs were found in */
+  sdkRoot: string | null;
+  components: ToolchainComponent[];
+  scannedAt: Date;
+}
+
+/**
+ * What a template's project needs to build
+ */
+export interface ToolchainRequirements {
+  minSdk: number;
+  targetSdk: number;
+  compileSdk: number;
+  /** Android Gradle Plugin version its build files apply */
+  agpVersion: string;
+  /** NDK version its build files ask for, when it has native code */
+  ndkVersion?: string;
+}
+
+/**
+ * A component a build needs that is not installed
+ */
+export interface MissingToolchainComponent {
+  kind: ToolchainComponentKind;
+  /** What would satisfy it, e.g. `platforms;android-34` or `JDK 17 or newer` */
+  requirement: string;
+  /** Package to install with sdkmanager, for SDK components */
+  sdkPackage?: string;
+}
+
+/**
+ * The components chosen for a build
+ */
+export interface ToolchainPin {
+  sdkRoot: string;
+  jdk: ToolchainComponent;
+  platform: ToolchainComponent;
+  buildTools: ToolchainComponent;
+  ndk?: ToolchainComponent;
+  pinnedAt: Date;
+}
+
+/**
+ * Whether the installed components can build a project, and which
+ */
+export interface ToolchainResolution {
+  requirements: ToolchainRequirements;
+  /** Null when something is missing */
+  pin: ToolchainPin | null;
+  /** Components that fit, also when others are missing */
+  selected: ToolchainComponent[];
+  missing: MissingToolchainComponent[];
+}
+
+/**
+ * A row of the compatibility matrix: one template against this machine
+ */
+export interface TemplateToolchainCompatibility {
+  templateId: string;
+  templateName: string;
+  resolution: ToolchainResolution;
+}
+
 // =============================================================================
 // IPC Communication Types
 // =============================================================================
@@ -221,11 +921,48 @@ export interface IPCResponse<T = unknown> {
 }
 
 // Template IPC Channels
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface TemplateDiagnostic {
+  file: string;
+  line?: number;
+  severity: DiagnosticSeverity;
+  rule: string;
+  message: string;
+}
+
+export interface TemplateLintResult {
+  valid: boolean;
+  diagnostics: TemplateDiagnostic[];
+}
+
+export interface TemplateImportInfo {
+  id: string;
+  name: string;
+  version: string;
+  signedBy: string | null;
+}
+
 export interface TemplateIPCChannels {
   'template:list': () => Promise<IPCResponse<Template[]>>;
   'template:get': (id: string) => Promise<IPCResponse<Template>>;
   'template:refresh': () => Promise<IPCResponse<void>>;
-  'template:validate': (path: string) => Promise<IPCResponse<boolean>>;
+  'template:validate': (path: string) => Promise<IPCResponse<TemplateLintResult>>;
+  'template:validateValues': (
+    id: string,
+    config: MorphValuesConfig
+  ) => Promise<IPCResponse<MorphFieldError[]>>;
+  'template:plan': (
+    id: string,
+    config: MorphValuesConfig
+  ) => Promise<IPCResponse<InstantiationPlan>>;
+  'template:export': (id: string, outputPath: string) => Promise<IPCResponse<string>>;
+  'template:import': (
+    packagePath: string,
+    options?: { overwrite?: boolean; requireSignature?: boolean }
+  ) => Promise<IPCResponse<TemplateImportInfo>>;
+  'template:recommend': (trendId: string, limit?: number) => Promise<IPCResponse<TemplateRecommendation[]>>;
+  'templates:createFromTrend': (request: CreateAppFromTrendRequest) => Promise<IPCResponse<AppProject>>;
 }
 
 // App IPC Channels
@@ -236,21 +973,63 @@ export interface AppIPCChannels {
   'app:update': (id: string, data: Partial<AppProject>) => Promise<IPCResponse<AppProject>>;
   'app:delete': (id: string) => Promise<IPCResponse<void>>;
   'app:morph': (id: string, values: MorphValue[]) => Promise<IPCResponse<void>>;
+  'app:previewMigration': (id: string, toVersion?: string) => Promise<IPCResponse<AppMigrationPlan>>;
+  'app:migrate': (id: string, toVersion?: string) => Promise<IPCResponse<AppMigrationPlan>>;
 }
 
 // Build IPC Channels
 export interface BuildIPCChannels {
-  'build:start': (config: BuildConfig) => Promise<IPCResponse<BuildRecord>>;
-  'build:cancel': (buildId: string) => Promise<IPCResponse<void>>;
+  'build:start': (config: BuildConfig, options?: { priority?: number }) => Promise<IPCResponse<{ buildId: string }>>;
+  'build:matrix': (
+    config: BuildConfig,
+    matrix: BuildMatrix,
+    options?: { priority?: number }
+  ) => Promise<IPCResponse<{ matrixId: string; buildIds: string[] }>>;
+  'build:cancel': (buildId: string) => Promise<IPCResponse<{ cancelled: boolean }>>;
   'build:status': (buildId: string) => Promise<IPCResponse<BuildProgress>>;
   'build:logs': (buildId: string) => Promise<IPCResponse<string[]>>;
+  'build:diagnostics': (buildId: string) => Promise<IPCResponse<BuildDiagnostic[]>>;
+  'build:report': (buildId: string) => Promise<IPCResponse<ApkReport | null>>;
+  'build:artifacts': (buildId: string) => Promise<IPCResponse<BuildArtifact[]>>;
+  'build:exportAttestation': (
+    buildId: string,
+    kind: BuildAttestationKind,
+    outputPath: string
+  ) => Promise<IPCResponse<string>>;
+  'build:queue': () => Promise<IPCResponse<BuildQueueState>>;
+  'build:reorder': (jobIds: string[]) => Promise<IPCResponse<BuildQueueState>>;
+  'build:setPriority': (buildId: string, priority: number) => Promise<IPCResponse<BuildJob>>;
+  'build:pause': () => Promise<IPCResponse<BuildQueueState>>;
+  'build:resume': () => Promise<IPCResponse<BuildQueueState>>;
+  'build:setConcurrency': (concurrency: number) => Promise<IPCResponse<BuildQueueState>>;
+  'build:cacheStats': () => Promise<IPCResponse<BuildCacheStats>>;
+  'build:configureCache': (settings: BuildCacheSettings) => Promise<IPCResponse<BuildCacheStats>>;
+  'build:clearCache': () => Promise<IPCResponse<BuildCacheStats>>;
+  'signing:state': () => Promise<IPCResponse<SigningVaultState>>;
+  'signing:unlock': (passphrase: string) => Promise<IPCResponse<SigningVaultState>>;
+  'signing:lock': () => Promise<IPCResponse<SigningVaultState>>;
+  'signing:changePassphrase': (current: string, next: string) => Promise<IPCResponse<void>>;
+  'signing:list': () => Promise<IPCResponse<SigningIdentity[]>>;
+  'signing:generate': (request: GenerateSigningIdentityRequest) => Promise<IPCResponse<SigningIdentity>>;
+  'signing:import': (request: ImportSigningIdentityRequest) => Promise<IPCResponse<SigningIdentity>>;
+  'signing:delete': (identityId: string) => Promise<IPCResponse<void>>;
+  'signing:assign': (appId: string, identityId: string | null) => Promise<IPCResponse<void>>;
 }
 
 // Trend IPC Channels
 export interface TrendIPCChannels {
-  'trend:scan': () => Promise<IPCResponse<TrendAnalysis>>;
+  'trend:scan': () => Promise<IPCResponse<TrendScanResult>>;
+  'trend:ingestionStatus': () => Promise<IPCResponse<TrendIngestionStatus>>;
+  'trend:configureIngestion': (settings: TrendIngestionSettings) => Promise<IPCResponse<TrendIngestionStatus>>;
+  'trend:forecast': (trendId: string, horizonDays?: number) => Promise<IPCResponse<TrendForecastResult>>;
+  'trend:backtest': (horizonDays?: number) => Promise<IPCResponse<TrendBacktestReport>>;
   'trend:list': () => Promise<IPCResponse<Trend[]>>;
   'trend:suggest': (category: TemplateCategory) => Promise<IPCResponse<Trend[]>>;
+  'trend:plugins': () => Promise<IPCResponse<TrendPluginConfig[]>>;
+  'trend:savePlugin': (config: TrendPluginConfig) => Promise<IPCResponse<TrendPluginConfig[]>>;
+  'trend:deletePlugin': (id: string) => Promise<IPCResponse<TrendPluginConfig[]>>;
+  'trend:entities': (limit?: number) => Promise<IPCResponse<TrendEntity[]>>;
+  'trend:related': (entityId: string) => Promise<IPCResponse<RelatedTrendEntity[]>>;
 }
 
 // =============================================================================
@@ -7,13 +7,20 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
 import { ipcMain, BrowserWindow } from 'electron';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
 import type {
   IPCResponse,
   AppProject,
   Template,
   TemplateCategory,
   BuildProgress,
-  TrendAnalysis,
+  BuildDiagnostic,
+  TrendForecastResult,
+  TrendPluginConfig,
+  TemplateRecommendation,
+  TrendScanResult,
   Trend,
 } from '../../src/shared/types';
 
@@ -30,21 +37,101 @@ interface MockDatabase {
 interface MockTemplateEngine {
   getTemplates: Mock;
   getTemplate: Mock;
+  listTemplates: Mock;
   refreshTemplates: Mock;
   validateTemplatePath: Mock;
   morphTemplate: Mock;
+  planMigration: Mock;
+  lintTemplate: Mock;
 }
 
-interface MockBuildPipeline {
-  buildApp: Mock;
-  cancelBuild: Mock;
-  getBuildInfo: Mock;
+interface MockBuildScheduler {
+  enqueue: Mock;
+  enqueueMatrix: Mock;
+  cancel: Mock;
+  getJob: Mock;
+  getLogs: Mock;
+  getDiagnostics: Mock;
+  getApkReport: Mock;
+  getAttestation: Mock;
+  getArtifacts: Mock;
+  getPerformance: Mock;
+  getState: Mock;
+  reorder: Mock;
+  setPriority: Mock;
+  pause: Mock;
+  resume: Mock;
+  setConcurrency: Mock;
+  on: Mock;
+}
+
+interface MockSigningVault {
+  getState: Mock;
+  unlock: Mock;
+  lock: Mock;
+  changePassphrase: Mock;
+  list: Mock;
+  generate: Mock;
+  import: Mock;
+  delete: Mock;
+  assign: Mock;
+  identityForApp: Mock;
+  credentials: Mock;
+}
+
+interface MockToolchainManager {
+  inventory: Mock;
+  compatibility: Mock;
+  resolveForApp: Mock;
+  pin: Mock;
+}
+
+interface MockTrendIngestion {
+  scan: Mock;
+  getStatus: Mock;
+  configure: Mock;
+  reschedule: Mock;
+  on: Mock;
+}
+
+interface MockTrendForecaster {
+  forecast: Mock;
+  backtest: Mock;
+}
+
+interface MockTrendPlugins {
+  list: Mock;
+  save: Mock;
+  remove: Mock;
+}
+
+interface MockTrendEntities {
+  list: Mock;
+  related: Mock;
+}
+
+interface MockTemplateRecommender {
+  recommend: Mock;
+}
+
+interface MockBuildCache {
+  getStats: Mock;
+  configure: Mock;
+  clear: Mock;
 }
 
 interface MockHandlerContext {
   database: MockDatabase | null;
   templateEngine: MockTemplateEngine | null;
-  buildPipeline: MockBuildPipeline | null;
+  buildScheduler: MockBuildScheduler | null;
+  signingVault: MockSigningVault | null;
+  buildCache: MockBuildCache | null;
+  toolchains: MockToolchainManager | null;
+  trendIngestion: MockTrendIngestion | null;
+  trendForecasts: MockTrendForecaster | null;
+  trendPlugins: MockTrendPlugins | null;
+  trendEntities: MockTrendEntities | null;
+  templateRecommender: MockTemplateRecommender | null;
   mainWindow: () => Partial<BrowserWindow> | null;
 }
 
@@ -92,14 +179,15 @@ const mockAppRow: Record<string, unknown> = {
 const mockTrendRow: Record<string, unknown> = {
   id: 'trend-1',
   keyword: 'aesthetic wallpapers',
-  source: 'google-trends',
+  source: 'google_trends',
   score: 85,
-  velocity: 12.5,
+  volume: 120000,
+  growth_rate: 12.5,
+  category: 'wallpaper-pack',
+  region: 'US',
+  data: '{"relatedKeywords": ["minimalist", "dark mode"], "metadata": {"region": "US"}}',
   first_seen: '2024-01-01T00:00:00.000Z',
-  last_updated: '2024-01-15T00:00:00.000Z',
-  suggested_category: 'wallpaper-pack',
-  related_keywords: '["minimalist", "dark mode"]',
-  metadata: '{"region": "US"}',
+  fetched_at: '2024-01-15T00:00:00.000Z',
 };
 
 // =============================================================================
@@ -135,14 +223,78 @@ function createMockContext(overrides: Partial<MockHandlerContext> = {}): MockHan
     templateEngine: {
       getTemplates: vi.fn(() => []),
       getTemplate: vi.fn(() => undefined),
+      listTemplates: vi.fn(() => []),
       refreshTemplates: vi.fn(() => []),
       validateTemplatePath: vi.fn(() => ({ valid: true })),
       morphTemplate: vi.fn(() => ({ success: true, outputPath: '/output/path' })),
+      planMigration: vi.fn(),
+      lintTemplate: vi.fn(),
+    },
+    buildScheduler: {
+      enqueue: vi.fn(() => ({ id: 'build-123' })),
+      enqueueMatrix: vi.fn(() => []),
+      cancel: vi.fn(() => true),
+      getJob: vi.fn(() => undefined),
+      getLogs: vi.fn(() => undefined),
+      getDiagnostics: vi.fn(() => undefined),
+      getApkReport: vi.fn(() => undefined),
+      getAttestation: vi.fn(() => undefined),
+      getArtifacts: vi.fn(() => undefined),
+      getPerformance: vi.fn(() => undefined),
+      getState: vi.fn(() => ({ paused: false, concurrency: 2, jobs: [] })),
+      reorder: vi.fn(),
+      setPriority: vi.fn(),
+      pause: vi.fn(),
+      resume: vi.fn(),
+      setConcurrency: vi.fn(),
+      on: vi.fn(),
+    },
+    signingVault: {
+      getState: vi.fn(() => ({ initialized: true, unlocked: false })),
+      unlock: vi.fn(),
+      lock: vi.fn(),
+      changePassphrase: vi.fn(),
+      list: vi.fn(() => []),
+      generate: vi.fn(),
+      import: vi.fn(),
+      delete: vi.fn(() => true),
+      assign: vi.fn(),
+      identityForApp: vi.fn(() => undefined),
+      credentials: vi.fn(),
+    },
+    buildCache: {
+      getStats: vi.fn(),
+      configure: vi.fn(),
+      clear: vi.fn(),
+    },
+    toolchains: {
+      inventory: vi.fn(),
+      compatibility: vi.fn(() => []),
+      resolveForApp: vi.fn(() => ({ pin: null, selected: [], missing: [] })),
+      pin: vi.fn(),
     },
-    buildPipeline: {
-      buildApp: vi.fn(() => 'build-123'),
-      cancelBuild: vi.fn(() => true),
-      getBuildInfo: vi.fn(() => undefined),
+    trendIngestion: {
+      scan: vi.fn(),
+      getStatus: vi.fn(),
+      configure: vi.fn(),
+      reschedule: vi.fn(),
+      on: vi.fn(),
+    },
+    trendForecasts: {
+      forecast: vi.fn(),
+      backtest: vi.fn(),
+    },
+    trendPlugins: {
+      list: vi.fn(() => []),
+      save: vi.fn(),
+      remove: vi.fn(),
+    },
+    trendEntities: {
+      list: vi.fn(() => []),
+      related: vi.fn(() => []),
+    },
+    templateRecommender: {
+      recommend: vi.fn(() => []),
     },
     mainWindow: () => ({
       webContents: { send: mockSend },
@@ -252,41 +404,147 @@ describe('Template Handlers', () => {
   });
 
   describe('template:validate', () => {
-    it('should validate template path successfully', async () => {
+    it('should return lint diagnostics for a valid template', async () => {
       const ctx = createMockContext();
-      ctx.templateEngine!.validateTemplatePath.mockReturnValue({
+      ctx.templateEngine!.lintTemplate.mockResolvedValue({
         valid: true,
-        template: mockTemplate,
+        diagnostics: [
+          { file: 'morph.yaml', line: 1, severity: 'warning', rule: 'missing-preview', message: 'No preview_image declared' },
+        ],
       });
       
       setupIPCHandlers(ctx);
       
-      const result = await invokeHandler<{ valid: boolean; template?: Template }>(
+      const result = await invokeHandler<{ valid: boolean; diagnostics: unknown[] }>(
         'template:validate',
         '/path/to/template'
       );
       
       expect(result.success).toBe(true);
       expect(result.data?.valid).toBe(true);
+      expect(ctx.templateEngine!.lintTemplate).toHaveBeenCalledWith('/path/to/template');
     });
 
     it('should return validation failure with errors', async () => {
       const ctx = createMockContext();
-      ctx.templateEngine!.validateTemplatePath.mockReturnValue({
+      ctx.templateEngine!.lintTemplate.mockResolvedValue({
         valid: false,
-        errors: ['Missing template.json', 'Invalid structure'],
+        diagnostics: [
+          { file: 'morph.yaml', severity: 'error', rule: 'missing-morph-yaml', message: 'morph.yaml not found in /invalid/path' },
+        ],
       });
       
       setupIPCHandlers(ctx);
       
-      const result = await invokeHandler<{ valid: boolean; errors?: string[] }>(
+      const result = await invokeHandler<{ valid: boolean; diagnostics: Array<{ rule: string }> }>(
         'template:validate',
         '/invalid/path'
       );
       
       expect(result.success).toBe(true);
       expect(result.data?.valid).toBe(false);
-      expect(result.data?.errors).toContain('Missing template.json');
+      expect(result.data?.diagnostics[0].rule).toBe('missing-morph-yaml');
+    });
+  });
+
+  describe('template:recommend', () => {
+    it('should recommend templates for a stored trend', async () => {
+      const ctx = createMockContext();
+      ctx.database!.get.mockReturnValue(mockTrendRow);
+      ctx.templateRecommender!.recommend.mockReturnValue([
+        { templateId: 'template-1', templateName: 'Wallpaper Pack', score: 0.4, reasons: [] },
+      ]);
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler<TemplateRecommendation[]>('template:recommend', 'trend-1', 5);
+      
+      expect(result.success).toBe(true);
+      expect(result.data?.[0].templateId).toBe('template-1');
+      expect(ctx.templateRecommender!.recommend).toHaveBeenCalledWith({
+        keyword: 'aesthetic wallpapers',
+        relatedKeywords: ['minimalist', 'dark mode'],
+        category: 'wallpaper-pack',
+      }, 5);
+    });
+
+    it('should return error for an unknown trend', async () => {
+      const ctx = createMockContext();
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('template:recommend', 'missing');
+      
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('TREND_NOT_FOUND');
+    });
+  });
+
+  describe('templates:createFromTrend', () => {
+    const template = {
+      ...mockTemplate,
+      morphPoints: [
+        { id: 'app_name', type: 'string', label: 'App Name', path: 'strings.xml', pattern: '{{APP_NAME}}', required: true },
+        { id: 'primary_color', type: 'color', label: 'Primary', path: 'colors.xml', pattern: '{{PRIMARY_COLOR}}', required: false },
+      ],
+      validations: [],
+    };
+
+    it('should create a draft app prefilled from the trend and record the trend', async () => {
+      const ctx = createMockContext();
+      ctx.templateEngine!.getTemplate.mockReturnValue(template);
+      ctx.database!.get.mockImplementation((sql: unknown, params: unknown) =>
+        String(sql).includes('FROM trends')
+          ? { keyword: 'aesthetic wallpapers' }
+          : (params as unknown[])[0] === 'com.appforge.aestheticwallpapers' ? { 1: 1 } : undefined
+      );
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler<AppProject>('templates:createFromTrend', {
+        trendId: 'trend-1',
+        templateId: 'template-1',
+      });
+      
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        name: 'Aesthetic Wallpapers',
+        packageName: 'com.appforge.aestheticwallpapers2',
+        templateId: 'template-1',
+        status: 'draft',
+      });
+      expect(result.data?.morphValues).toEqual([
+        { key: 'app_name', value: 'Aesthetic Wallpapers' },
+        { key: 'primary_color', value: expect.stringMatching(/^#[0-9A-F]{6}$/) },
+      ]);
+      const [, params] = ctx.database!.run.mock.calls[0];
+      expect(params.slice(-2)).toEqual(['trend-1', 'aesthetic wallpapers']);
+    });
+
+    it('should fall back to the keyword of a trend that is no longer stored', async () => {
+      const ctx = createMockContext();
+      ctx.templateEngine!.getTemplate.mockReturnValue(template);
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler<AppProject>('templates:createFromTrend', {
+        trendId: 'trend-gone',
+        templateId: 'template-1',
+        keyword: 'cat memes',
+      });
+      
+      expect(result.data?.name).toBe('Cat Memes');
+    });
+
+    it('should return error for an unknown template', async () => {
+      const ctx = createMockContext();
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('templates:createFromTrend', { trendId: 'trend-1', templateId: 'missing' });
+      
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('TEMPLATE_NOT_FOUND');
     });
   });
 });
@@ -486,6 +744,49 @@ describe('App Handlers', () => {
       expect(result.error?.code).toBe('MORPH_FAILED');
     });
   });
+
+  describe('app:migrate', () => {
+    const plan = {
+      templateId: 'template-1',
+      fromVersion: '1.0.0',
+      toVersion: '2.0.0',
+      steps: ['2.0.0'],
+      changes: [],
+      morphValues: [{ key: 'app_name', value: 'My Wallpapers' }],
+      missingRequired: [] as string[],
+    };
+
+    it('should record the new template version and migrated values', async () => {
+      const ctx = createMockContext();
+      ctx.database!.get.mockReturnValue({ ...mockAppRow, template_version: '1.0.0', morph_values: '[]' });
+      ctx.templateEngine!.planMigration.mockReturnValue(plan);
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('app:migrate', 'app-1', '2.0.0');
+      
+      expect(result.success).toBe(true);
+      expect(ctx.templateEngine!.planMigration).toHaveBeenCalledWith('template-1', '1.0.0', [], '2.0.0');
+      expect(ctx.database!.run).toHaveBeenCalledWith(
+        expect.stringContaining('template_version = ?'),
+        ['2.0.0', JSON.stringify(plan.morphValues), expect.any(String), 'app-1']
+      );
+    });
+
+    it('should refuse to migrate while required values are missing', async () => {
+      const ctx = createMockContext();
+      ctx.database!.get.mockReturnValue({ ...mockAppRow, morph_values: '[]' });
+      ctx.templateEngine!.planMigration.mockReturnValue({ ...plan, missingRequired: ['icon'] });
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('app:migrate', 'app-1');
+      
+      expect(result.error?.code).toBe('APP_MIGRATION_INCOMPLETE');
+      expect(ctx.templateEngine!.planMigration).toHaveBeenCalledWith('template-1', '0.0.0', [], undefined);
+      expect(ctx.database!.run).not.toHaveBeenCalled();
+    });
+  });
 });
 
 // =============================================================================
@@ -494,37 +795,164 @@ describe('App Handlers', () => {
 
 describe('Build Handlers', () => {
   describe('build:start', () => {
-    it('should start build and return build id', async () => {
+    it('should queue a build for the app project', async () => {
       const ctx = createMockContext();
-      ctx.buildPipeline!.buildApp.mockResolvedValue('build-123');
+      ctx.database!.get.mockReturnValue({
+        name: 'Quiz',
+        package_name: 'com.example.quiz',
+        template_id: 'quiz',
+        template_version: '1.2.0',
+        morph_values: JSON.stringify([{ key: 'primaryColor', value: '#ff0000' }]),
+      });
       
       setupIPCHandlers(ctx);
       
-      const result = await invokeHandler<{ buildId: string }>('build:start', 'app-1', {
-        projectPath: '/projects/app-1',
+      const result = await invokeHandler<{ buildId: string }>('build:start', {
+        appId: 'app-1',
         outputDir: '/output',
-      });
+        debugBuild: true,
+      }, { priority: 5 });
       
       expect(result.success).toBe(true);
       expect(result.data?.buildId).toBe('build-123');
+      expect(ctx.buildScheduler!.enqueue).toHaveBeenCalledWith(
+        {
+          appId: 'app-1',
+          projectPath: './output/app-1',
+          outputPath: '/output',
+          buildType: 'debug',
+          keystore: undefined,
+          cacheGroup: 'quiz',
+          expected: { packageName: 'com.example.quiz', appName: 'Quiz' },
+          source: { templateId: 'quiz', templateVersion: '1.2.0', morphValues: { primaryColor: '#ff0000' } },
+        },
+        { priority: 5 }
+      );
+    });
+
+    it('should return error when app does not exist', async () => {
+      const ctx = createMockContext();
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler<{ buildId: string }>('build:start', { appId: 'missing' });
+      
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('APP_NOT_FOUND');
+      expect(ctx.buildScheduler!.enqueue).not.toHaveBeenCalled();
     });
 
-    it('should return error when build pipeline not available', async () => {
-      const ctx = createMockContext({ buildPipeline: null });
+    it('should return error when build scheduler not available', async () => {
+      const ctx = createMockContext({ buildScheduler: null });
       
       setupIPCHandlers(ctx);
       
-      const result = await invokeHandler<{ buildId: string }>('build:start', 'app-1', {});
+      const result = await invokeHandler<{ buildId: string }>('build:start', { appId: 'app-1' });
       
       expect(result.success).toBe(false);
       expect(result.error?.code).toBe('SERVICE_UNAVAILABLE');
     });
   });
 
+  describe('build:matrix', () => {
+    it('should queue one build per variant', async () => {
+      const ctx = createMockContext();
+      ctx.database!.get.mockReturnValue({ name: 'Quiz', package_name: 'com.example.quiz' });
+      ctx.buildScheduler!.enqueueMatrix.mockReturnValue([
+        { id: 'build-1', matrixId: 'matrix-1' },
+        { id: 'build-2', matrixId: 'matrix-1' },
+      ]);
+      
+      setupIPCHandlers(ctx);
+      
+      const matrix = { flavors: ['free', 'paid'], buildTypes: ['release'] };
+      const result = await invokeHandler<{ matrixId: string; buildIds: string[] }>('build:matrix', {
+        appId: 'app-1',
+        outputDir: '/output',
+        debugBuild: false,
+      }, matrix);
+      
+      expect(result.data).toEqual({ matrixId: 'matrix-1', buildIds: ['build-1', 'build-2'] });
+      expect(ctx.buildScheduler!.enqueueMatrix).toHaveBeenCalledWith(
+        expect.objectContaining({ appId: 'app-1', projectPath: './output/app-1' }),
+        matrix,
+        undefined
+      );
+    });
+
+    it('should report invalid matrices', async () => {
+      const ctx = createMockContext();
+      ctx.database!.get.mockReturnValue({ name: 'Quiz', package_name: 'com.example.quiz' });
+      ctx.buildScheduler!.enqueueMatrix.mockImplementation(() => {
+        throw new Error('Invalid product flavor: Free!');
+      });
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('build:matrix', { appId: 'app-1' }, { flavors: ['Free!'], buildTypes: ['debug'] });
+      
+      expect(result.success).toBe(false);
+      expect(result.error).toMatchObject({ code: 'BUILD_MATRIX_ERROR', message: 'Invalid product flavor: Free!' });
+    });
+  });
+
+  describe('build:artifacts', () => {
+    it('should return the artifacts of a build', async () => {
+      const ctx = createMockContext();
+      ctx.buildScheduler!.getArtifacts.mockReturnValue([
+        { id: 'a-1', jobId: 'build-123', format: 'apk', abi: 'arm64-v8a', status: 'success' },
+        { id: 'a-2', jobId: 'build-123', format: 'apk', abi: 'x86_64', status: 'failed' },
+      ]);
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler<Array<{ status: string }>>('build:artifacts', 'build-123');
+      
+      expect(result.data?.map((artifact) => artifact.status)).toEqual(['success', 'failed']);
+    });
+
+    it('should return error when build not found', async () => {
+      const ctx = createMockContext();
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('build:artifacts', 'nonexistent');
+      
+      expect(result.error?.code).toBe('BUILD_NOT_FOUND');
+    });
+  });
+
+  describe('build:performance', () => {
+    it('should return the task timings and regressions of a build', async () => {
+      const ctx = createMockContext();
+      ctx.buildScheduler!.getPerformance.mockReturnValue({
+        profile: { duration: 90000, configuration: 4000, tasks: [] },
+        regressions: [{ path: ':app:compileDebugKotlin', duration: 40000, baseline: 20000 }],
+        baselineBuilds: 5,
+      });
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler<{ regressions: Array<{ path: string }> }>('build:performance', 'build-123');
+      
+      expect(result.data?.regressions.map((regression) => regression.path)).toEqual([':app:compileDebugKotlin']);
+    });
+
+    it('should return error when build not found', async () => {
+      const ctx = createMockContext();
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('build:performance', 'nonexistent');
+      
+      expect(result.error?.code).toBe('BUILD_NOT_FOUND');
+    });
+  });
+
   describe('build:cancel', () => {
     it('should cancel build successfully', async () => {
       const ctx = createMockContext();
-      ctx.buildPipeline!.cancelBuild.mockReturnValue(true);
+      ctx.buildScheduler!.cancel.mockReturnValue(true);
       
       setupIPCHandlers(ctx);
       
@@ -536,7 +964,7 @@ describe('Build Handlers', () => {
 
     it('should return error when build not found', async () => {
       const ctx = createMockContext();
-      ctx.buildPipeline!.cancelBuild.mockReturnValue(false);
+      ctx.buildScheduler!.cancel.mockReturnValue(false);
       
       setupIPCHandlers(ctx);
       
@@ -550,12 +978,11 @@ describe('Build Handlers', () => {
   describe('build:status', () => {
     it('should return build status with progress', async () => {
       const ctx = createMockContext();
-      ctx.buildPipeline!.getBuildInfo.mockReturnValue({
+      ctx.buildScheduler!.getJob.mockReturnValue({
         id: 'build-123',
         status: 'running',
         progress: 45,
-        stage: 'compiling',
-        logs: ['Starting build...', 'Compiling...'],
+        currentTask: '> Task :app:compileDebugKotlin',
       });
       
       setupIPCHandlers(ctx);
@@ -565,11 +992,12 @@ describe('Build Handlers', () => {
       expect(result.success).toBe(true);
       expect(result.data?.progress).toBe(45);
       expect(result.data?.stage).toBe('compiling');
+      expect(result.data?.currentTask).toBe('> Task :app:compileDebugKotlin');
     });
 
     it('should return error when build not found', async () => {
       const ctx = createMockContext();
-      ctx.buildPipeline!.getBuildInfo.mockReturnValue(undefined);
+      ctx.buildScheduler!.getJob.mockReturnValue(undefined);
       
       setupIPCHandlers(ctx);
       
@@ -584,10 +1012,7 @@ describe('Build Handlers', () => {
     it('should return build logs', async () => {
       const ctx = createMockContext();
       const mockLogs = ['Starting build...', 'Compiling MainActivity.kt...', 'Build complete'];
-      ctx.buildPipeline!.getBuildInfo.mockReturnValue({
-        id: 'build-123',
-        logs: mockLogs,
-      });
+      ctx.buildScheduler!.getLogs.mockReturnValue(mockLogs);
       
       setupIPCHandlers(ctx);
       
@@ -598,19 +1023,170 @@ describe('Build Handlers', () => {
       expect(result.data).toContain('Build complete');
     });
 
-    it('should return empty array when no logs', async () => {
+    it('should return error when build not found', async () => {
       const ctx = createMockContext();
-      ctx.buildPipeline!.getBuildInfo.mockReturnValue({
-        id: 'build-123',
-        logs: undefined,
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler<string[]>('build:logs', 'nonexistent');
+      
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('BUILD_NOT_FOUND');
+    });
+  });
+
+  describe('build:report', () => {
+    it('should return the APK report, or null before a successful build', async () => {
+      const ctx = createMockContext();
+      ctx.buildScheduler!.getApkReport.mockReturnValueOnce({ packageName: 'com.example.quiz' });
+      ctx.buildScheduler!.getApkReport.mockReturnValueOnce(null);
+      
+      setupIPCHandlers(ctx);
+      
+      const built = await invokeHandler<{ packageName: string } | null>('build:report', 'build-123');
+      const queued = await invokeHandler<{ packageName: string } | null>('build:report', 'build-456');
+      
+      expect(built.data).toEqual({ packageName: 'com.example.quiz' });
+      expect(queued.success).toBe(true);
+      expect(queued.data).toBeNull();
+    });
+
+    it('should return error when build not found', async () => {
+      const ctx = createMockContext();
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler<null>('build:report', 'nonexistent');
+      
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('BUILD_NOT_FOUND');
+    });
+  });
+
+  describe('build:exportAttestation', () => {
+    it('should save the provenance of a build as JSON', async () => {
+      const ctx = createMockContext();
+      const envelope = { payloadType: 'application/vnd.in-toto+json', payload: 'e30=', signatures: [] };
+      ctx.buildScheduler!.getAttestation.mockReturnValue(envelope);
+      const outputPath = path.join(os.tmpdir(), `afz-provenance-${process.pid}.intoto.json`);
+      
+      setupIPCHandlers(ctx);
+      
+      try {
+        const result = await invokeHandler<string>('build:exportAttestation', 'build-123', 'provenance', outputPath);
+        
+        expect(result.data).toBe(outputPath);
+        expect(ctx.buildScheduler!.getAttestation).toHaveBeenCalledWith('build-123', 'provenance');
+        expect(JSON.parse(await fs.readFile(outputPath, 'utf-8'))).toEqual(envelope);
+      } finally {
+        await fs.remove(outputPath);
+      }
+    });
+
+    it('should return an error before the build has succeeded', async () => {
+      const ctx = createMockContext();
+      ctx.buildScheduler!.getAttestation.mockReturnValue(null);
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('build:exportAttestation', 'build-123', 'sbom', '/tmp/app.cdx.json');
+      
+      expect(result.error?.code).toBe('ATTESTATION_NOT_FOUND');
+    });
+
+    it('should return error when build not found', async () => {
+      const ctx = createMockContext();
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('build:exportAttestation', 'nonexistent', 'sbom', '/tmp/app.cdx.json');
+      
+      expect(result.error?.code).toBe('BUILD_NOT_FOUND');
+    });
+  });
+
+  describe('build:diagnostics', () => {
+    it('should return build diagnostics', async () => {
+      const ctx = createMockContext();
+      ctx.buildScheduler!.getDiagnostics.mockReturnValue([
+        { tool: 'kotlinc', severity: 'error', message: 'Unresolved reference: foo', file: '/p/Main.kt', line: 3 },
+      ]);
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler<BuildDiagnostic[]>('build:diagnostics', 'build-123');
+      
+      expect(result.success).toBe(true);
+      expect(result.data?.[0]).toMatchObject({ tool: 'kotlinc', line: 3 });
+    });
+
+    it('should return error when build not found', async () => {
+      const ctx = createMockContext();
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler<BuildDiagnostic[]>('build:diagnostics', 'nonexistent');
+      
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('BUILD_NOT_FOUND');
+    });
+  });
+
+  describe('queue control', () => {
+    it('should pause, resume and resize the queue', async () => {
+      const ctx = createMockContext();
+      
+      setupIPCHandlers(ctx);
+      
+      expect((await invokeHandler('build:pause')).success).toBe(true);
+      expect((await invokeHandler('build:resume')).success).toBe(true);
+      expect((await invokeHandler('build:setConcurrency', 4)).success).toBe(true);
+      
+      expect(ctx.buildScheduler!.pause).toHaveBeenCalled();
+      expect(ctx.buildScheduler!.resume).toHaveBeenCalled();
+      expect(ctx.buildScheduler!.setConcurrency).toHaveBeenCalledWith(4);
+    });
+
+    it('should report reorder errors', async () => {
+      const ctx = createMockContext();
+      ctx.buildScheduler!.reorder.mockImplementation(() => {
+        throw new Error('Build build-9 is not queued');
       });
       
       setupIPCHandlers(ctx);
       
-      const result = await invokeHandler<string[]>('build:logs', 'build-123');
+      const result = await invokeHandler('build:reorder', ['build-9']);
+      
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('BUILD_QUEUE_ERROR');
+    });
+  });
+
+  describe('build cache', () => {
+    it('should configure the cache and return its stats', async () => {
+      const ctx = createMockContext();
+      const stats = { cacheEnabled: false, cacheMaxSize: 512, size: 0, entries: 0, workspaces: 0, hits: 3, misses: 1 };
+      ctx.buildCache!.configure.mockResolvedValue(stats);
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('build:configureCache', { cacheEnabled: false, cacheMaxSize: 512 });
       
       expect(result.success).toBe(true);
-      expect(result.data).toHaveLength(0);
+      expect(result.data).toEqual(stats);
+      expect(ctx.buildCache!.configure).toHaveBeenCalledWith({ cacheEnabled: false, cacheMaxSize: 512 });
+    });
+
+    it('should report invalid cache settings', async () => {
+      const ctx = createMockContext();
+      ctx.buildCache!.configure.mockRejectedValue(new Error('Cache size must be a positive number of MB, got -1'));
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('build:configureCache', { cacheEnabled: true, cacheMaxSize: -1 });
+      
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('BUILD_CACHE_ERROR');
     });
   });
 });
@@ -621,19 +1197,179 @@ describe('Build Handlers', () => {
 
 describe('Trend Handlers', () => {
   describe('trend:scan', () => {
-    it('should return trend analysis', async () => {
+    it('should poll the trend sources and return what was stored', async () => {
+      const ctx = createMockContext();
+      const scan = { scanId: 'scan-1', sources: [{ source: 'reddit', fetched: 3 }], stored: 3 };
+      ctx.trendIngestion!.scan.mockResolvedValue(scan);
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler<TrendScanResult>('trend:scan');
+      
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(scan);
+    });
+
+    it('should return error when trend ingestion not available', async () => {
+      const ctx = createMockContext({ trendIngestion: null });
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('trend:scan');
+      
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('SERVICE_UNAVAILABLE');
+    });
+  });
+
+  describe('trend:configureIngestion', () => {
+    it('should return error for invalid settings', async () => {
+      const ctx = createMockContext();
+      ctx.trendIngestion!.configure.mockImplementation(() => {
+        throw new Error('Scan interval must be a positive number of hours, got 0');
+      });
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('trend:configureIngestion', {
+        autoScanEnabled: true,
+        scanIntervalHours: 0,
+        maxTrendsToFetch: 50,
+        includeSources: ['google'],
+      });
+      
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('TREND_INGESTION_ERROR');
+    });
+  });
+
+  describe('trend:savePlugin', () => {
+    it('should save the plugin and reschedule polling', async () => {
+      const ctx = createMockContext();
+      const plugin: TrendPluginConfig = { id: 'ideas', kind: 'manual', name: 'Ideas', enabled: true, keywords: [] };
+      ctx.trendPlugins!.save.mockReturnValue([plugin]);
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler<TrendPluginConfig[]>('trend:savePlugin', plugin);
+      
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([plugin]);
+      expect(ctx.trendIngestion!.reschedule).toHaveBeenCalled();
+    });
+
+    it('should return error for an incomplete plugin', async () => {
+      const ctx = createMockContext();
+      ctx.trendPlugins!.save.mockImplementation(() => {
+        throw new Error('RSS trend plugin feed needs a feed URL');
+      });
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('trend:savePlugin', { id: 'feed', kind: 'rss', name: 'Feed', enabled: true });
+      
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('TREND_PLUGIN_ERROR');
+      expect(ctx.trendIngestion!.reschedule).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('trend:deletePlugin', () => {
+    it('should return error when plugins are unavailable', async () => {
+      const ctx = createMockContext({ trendPlugins: null });
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('trend:deletePlugin', 'ideas');
+      
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('SERVICE_UNAVAILABLE');
+    });
+  });
+
+  describe('trend:entities', () => {
+    it('should list the merged trends up to the limit', async () => {
+      const ctx = createMockContext();
+      const entity = { id: 'entity-1', label: 'cat memes', sources: ['google_trends', 'reddit'], score: 80, volume: 1200 };
+      ctx.trendEntities!.list.mockReturnValue([entity]);
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('trend:entities', 10);
+      
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([entity]);
+      expect(ctx.trendEntities!.list).toHaveBeenCalledWith(10);
+    });
+
+    it('should return error when entities are unavailable', async () => {
+      const ctx = createMockContext({ trendEntities: null });
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('trend:entities');
+      
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('SERVICE_UNAVAILABLE');
+    });
+  });
+
+  describe('trend:related', () => {
+    it('should return the entities linked to an entity', async () => {
       const ctx = createMockContext();
+      ctx.trendEntities!.related.mockReturnValue([{ entity: { id: 'entity-2', label: 'dog memes' }, weight: 0.4 }]);
       
       setupIPCHandlers(ctx);
       
-      const result = await invokeHandler<TrendAnalysis>('trend:scan');
+      const result = await invokeHandler('trend:related', 'entity-1');
       
       expect(result.success).toBe(true);
-      expect(result.data?.categoryBreakdown).toBeDefined();
-      expect(result.data?.topTrends).toBeDefined();
+      expect(result.data).toEqual([{ entity: { id: 'entity-2', label: 'dog memes' }, weight: 0.4 }]);
+      expect(ctx.trendEntities!.related).toHaveBeenCalledWith('entity-1');
     });
   });
 
+  describe('trend:forecast', () => {
+    it('should forecast a trend over the requested horizon', async () => {
+      const ctx = createMockContext();
+      ctx.trendForecasts!.forecast.mockReturnValue({ trendId: 'reddit:cat memes', model: 'holt', forecast: [] });
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler<TrendForecastResult>('trend:forecast', 'reddit:cat memes', 30);
+      
+      expect(result.success).toBe(true);
+      expect(result.data?.model).toBe('holt');
+      expect(ctx.trendForecasts!.forecast).toHaveBeenCalledWith('reddit:cat memes', 30);
+    });
+
+    it('should return error when the history is too short', async () => {
+      const ctx = createMockContext();
+      ctx.trendForecasts!.forecast.mockImplementation(() => {
+        throw new Error('A forecast needs at least 3 days of history, got 1');
+      });
+      
+      setupIPCHandlers(ctx);
+      
+      const result = await invokeHandler('trend:forecast', 'reddit:cat memes');
+      
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('TREND_FORECAST_ERROR');
+    });
+  });
+
+  it('should forward scan progress to the renderer', async () => {
+    const send = vi.fn();
+    const ctx = createMockContext({ mainWindow: () => ({ webContents: { send } } as unknown as BrowserWindow) });
+    
+    setupIPCHandlers(ctx);
+    
+    const [, onProgress] = ctx.trendIngestion!.on.mock.calls.find(([event]) => event === 'scan:progress')!;
+    onProgress({ scanId: 'scan-1', source: 'reddit', completed: 1, total: 2, fetched: 3 });
+    
+    expect(send).toHaveBeenCalledWith('trends:scanProgress', expect.objectContaining({ source: 'reddit' }));
+  });
+
   describe('trend:list', () => {
     it('should return list of trends sorted by score', async () => {
       const ctx = createMockContext();
@@ -691,6 +1427,158 @@ describe('Trend Handlers', () => {
   });
 });
 
+// =============================================================================
+// Signing Handler Tests
+// =============================================================================
+
+describe('Signing Handlers', () => {
+  describe('build:start', () => {
+    it('should sign release builds with the identity assigned to the app', async () => {
+      const ctx = createMockContext();
+      const credentials = { data: Buffer.from('keystore'), password: 'secret', alias: 'upload', keyPassword: 'secret' };
+      ctx.database!.get.mockReturnValue({ name: 'Quiz', package_name: 'com.example.quiz' });
+      ctx.signingVault!.identityForApp.mockReturnValue('identity-1');
+      ctx.signingVault!.getState.mockReturnValue({ initialized: true, unlocked: true });
+      ctx.signingVault!.credentials.mockReturnValue(credentials);
+
+      setupIPCHandlers(ctx);
+
+      const result = await invokeHandler('build:start', { appId: 'app-1', outputDir: '/output', debugBuild: false });
+
+      expect(result.success).toBe(true);
+      expect(ctx.signingVault!.credentials).toHaveBeenCalledWith('identity-1');
+      expect(ctx.buildScheduler!.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({ buildType: 'release', keystore: credentials }),
+        undefined
+      );
+    });
+
+    it('should refuse release builds while the vault is locked', async () => {
+      const ctx = createMockContext();
+      ctx.database!.get.mockReturnValue({ name: 'Quiz', package_name: 'com.example.quiz' });
+      ctx.signingVault!.identityForApp.mockReturnValue('identity-1');
+
+      setupIPCHandlers(ctx);
+
+      const result = await invokeHandler('build:start', { appId: 'app-1', outputDir: '/output', debugBuild: false });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VAULT_LOCKED');
+      expect(ctx.buildScheduler!.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('signing:unlock', () => {
+    it('should return error for a wrong passphrase', async () => {
+      const ctx = createMockContext();
+      ctx.signingVault!.unlock.mockRejectedValue(new Error('Incorrect passphrase'));
+
+      setupIPCHandlers(ctx);
+
+      const result = await invokeHandler('signing:unlock', 'wrong passphrase');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('SIGNING_UNLOCK_ERROR');
+      expect(result.error?.message).toBe('Incorrect passphrase');
+    });
+
+    it('should return error when signing vault not available', async () => {
+      const ctx = createMockContext({ signingVault: null });
+
+      setupIPCHandlers(ctx);
+
+      const result = await invokeHandler('signing:unlock', 'passphrase');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('SERVICE_UNAVAILABLE');
+    });
+  });
+
+  describe('signing:delete', () => {
+    it('should return error when identity does not exist', async () => {
+      const ctx = createMockContext();
+      ctx.signingVault!.delete.mockReturnValue(false);
+
+      setupIPCHandlers(ctx);
+
+      const result = await invokeHandler('signing:delete', 'missing');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('IDENTITY_NOT_FOUND');
+    });
+  });
+});
+
+// =============================================================================
+// Toolchain Handler Tests
+// =============================================================================
+
+describe('Toolchain Handlers', () => {
+  describe('build:start', () => {
+    it('should build with the toolchain pinned for the app', async () => {
+      const ctx = createMockContext();
+      const pin = { sdkRoot: '/opt/android-sdk', jdk: { kind: 'jdk', version: '17.0.9', path: '/opt/jdk-17' } };
+      ctx.database!.get.mockReturnValue({ name: 'Quiz', package_name: 'com.example.quiz', template_id: 'template-1' });
+      ctx.templateEngine!.getTemplate.mockReturnValue(mockTemplate);
+      ctx.toolchains!.resolveForApp.mockResolvedValue({ pin, selected: [], missing: [] });
+
+      setupIPCHandlers(ctx);
+
+      const result = await invokeHandler('build:start', { appId: 'app-1', outputDir: '/output', debugBuild: true });
+
+      expect(result.success).toBe(true);
+      expect(ctx.toolchains!.resolveForApp).toHaveBeenCalledWith('app-1', mockTemplate);
+      expect(ctx.buildScheduler!.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({ toolchain: pin }),
+        undefined
+      );
+    });
+  });
+
+  describe('toolchain:compatibility', () => {
+    it('should check templates that can be built', async () => {
+      const ctx = createMockContext();
+      ctx.templateEngine!.listTemplates.mockReturnValue([
+        { id: 'base', abstract: true },
+        { id: 'wallpaper', abstract: false },
+      ]);
+
+      setupIPCHandlers(ctx);
+
+      const result = await invokeHandler('toolchain:compatibility');
+
+      expect(result.success).toBe(true);
+      expect(ctx.toolchains!.compatibility).toHaveBeenCalledWith([{ id: 'wallpaper', abstract: false }]);
+    });
+  });
+
+  describe('toolchain:pin', () => {
+    it('should return error when app does not exist', async () => {
+      const ctx = createMockContext();
+      ctx.database!.get.mockReturnValue(undefined);
+
+      setupIPCHandlers(ctx);
+
+      const result = await invokeHandler('toolchain:pin', 'missing');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('APP_NOT_FOUND');
+      expect(ctx.toolchains!.pin).not.toHaveBeenCalled();
+    });
+
+    it('should return error when toolchain manager not available', async () => {
+      const ctx = createMockContext({ toolchains: null });
+
+      setupIPCHandlers(ctx);
+
+      const result = await invokeHandler('toolchain:pin', 'app-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('SERVICE_UNAVAILABLE');
+    });
+  });
+});
+
 // =============================================================================
 // Handler Registration Tests
 // =============================================================================
@@ -707,6 +1595,12 @@ describe('Handler Registration', () => {
       'template:get',
       'template:refresh',
       'template:validate',
+      'template:validateValues',
+      'template:plan',
+      'template:export',
+      'template:import',
+      'template:recommend',
+      'templates:createFromTrend',
       // App handlers
       'app:create',
       'app:list',
@@ -714,13 +1608,53 @@ describe('Handler Registration', () => {
       'app:update',
       'app:delete',
       'app:morph',
+      'app:previewMigration',
+      'app:migrate',
       // Build handlers
       'build:start',
+      'build:matrix',
       'build:cancel',
       'build:status',
       'build:logs',
+      'build:diagnostics',
+      'build:report',
+      'build:artifacts',
+      'build:performance',
+      'build:exportAttestation',
+      'build:queue',
+      'build:reorder',
+      'build:setPriority',
+      'build:pause',
+      'build:resume',
+      'build:setConcurrency',
+      'build:cacheStats',
+      'build:configureCache',
+      'build:clearCache',
+      // Signing handlers
+      'signing:state',
+      'signing:unlock',
+      'signing:lock',
+      'signing:changePassphrase',
+      'signing:list',
+      'signing:generate',
+      'signing:import',
+      'signing:delete',
+      'signing:assign',
+      // Toolchain handlers
+      'toolchain:inventory',
+      'toolchain:compatibility',
+      'toolchain:pin',
       // Trend handlers
       'trend:scan',
+      'trend:ingestionStatus',
+      'trend:configureIngestion',
+      'trend:plugins',
+      'trend:savePlugin',
+      'trend:deletePlugin',
+      'trend:entities',
+      'trend:related',
+      'trend:forecast',
+      'trend:backtest',
       'trend:list',
       'trend:suggest',
     ];
@@ -735,7 +1669,7 @@ describe('Handler Registration', () => {
     
     setupIPCHandlers(ctx);
     
-    expect(ipcMain.handle).toHaveBeenCalledTimes(17); // Total number of handlers
+    expect(ipcMain.handle).toHaveBeenCalledTimes(61); // Total number of handlers
   });
 });
 
@@ -748,7 +1682,7 @@ describe('Error Handling', () => {
     const ctx = createMockContext({
       database: null,
       templateEngine: null,
-      buildPipeline: null,
+      buildScheduler: null,
     });
     
     setupIPCHandlers(ctx);
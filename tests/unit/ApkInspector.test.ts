@@ -0,0 +1,264 @@
+/**
+ * Unit Tests for ApkInspector
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeApk } from '@main/services/ApkInspector';
+import { parseBinaryXml, parseResourceTable, resolveValue } from '@main/services/AndroidResources';
+import { writeZip } from '@main/services/ZipArchive';
+
+// =============================================================================
+// Binary Resource Builders
+// =============================================================================
+
+type Value = string | number | boolean | { ref: number };
+
+interface Element {
+  name: string;
+  attributes: Array<[string, Value]>;
+  children: Element[];
+}
+
+const el = (name: string, attributes: Array<[string, Value]> = [], children: Element[] = []): Element =>
+  ({ name, attributes, children });
+
+function chunk(type: number, headerSize: number, header: Buffer, body: Buffer): Buffer {
+  const start = Buffer.alloc(8);
+  start.writeUInt16LE(type, 0);
+  start.writeUInt16LE(headerSize, 2);
+  start.writeUInt32LE(8 + header.length + body.length, 4);
+  return Buffer.concat([start, header, body]);
+}
+
+function u32(...values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, index) => buffer.writeUInt32LE(value >>> 0, index * 4));
+  return buffer;
+}
+
+function resValue(value: Value, strings: string[]): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeUInt16LE(8, 0);
+  if (typeof value === 'string') {
+    buffer[3] = 0x03;
+    buffer.writeUInt32LE(strings.indexOf(value), 4);
+  } else if (typeof value === 'number') {
+    buffer[3] = 0x10;
+    buffer.writeUInt32LE(value, 4);
+  } else if (typeof value === 'boolean') {
+    buffer[3] = 0x12;
+    buffer.writeUInt32LE(value ? 0xffffffff : 0, 4);
+  } else {
+    buffer[3] = 0x01;
+    buffer.writeUInt32LE(value.ref, 4);
+  }
+  return buffer;
+}
+
+function stringPool(strings: string[], utf8: boolean): Buffer {
+  const offsets: number[] = [];
+  const data: Buffer[] = [];
+  let length = 0;
+
+  for (const value of strings) {
+    offsets.push(length);
+    const encoded = utf8
+      ? Buffer.concat([Buffer.from([value.length, Buffer.byteLength(value)]), Buffer.from(value), Buffer.from([0])])
+      : Buffer.concat([Buffer.from([value.length, 0]), Buffer.from(value, 'utf16le'), Buffer.alloc(2)]);
+    data.push(encoded);
+    length += encoded.length;
+  }
+
+  let body = Buffer.concat([u32(...offsets), ...data]);
+  body = Buffer.concat([body, Buffer.alloc((4 - (body.length % 4)) % 4)]);
+  const header = u32(strings.length, 0, utf8 ? 0x100 : 0, 28 + strings.length * 4, 0);
+  return chunk(0x0001, 28, header, body);
+}
+
+function binaryXml(root: Element): Buffer {
+  const strings: string[] = [];
+  const intern = (value: string) => {
+    if (!strings.includes(value)) strings.push(value);
+  };
+  const collect = (element: Element): void => {
+    intern(element.name);
+    for (const [name, value] of element.attributes) {
+      intern(name);
+      if (typeof value === 'string') intern(value);
+    }
+    element.children.forEach(collect);
+  };
+  collect(root);
+
+  const nodes: Buffer[] = [];
+  const write = (element: Element): void => {
+    const ext = Buffer.alloc(20);
+    ext.writeUInt32LE(0xffffffff, 0);
+    ext.writeUInt32LE(strings.indexOf(element.name), 4);
+    ext.writeUInt16LE(20, 8);
+    ext.writeUInt16LE(20, 10);
+    ext.writeUInt16LE(element.attributes.length, 12);
+
+    const attributes = element.attributes.map(([name, value]) => Buffer.concat([
+      u32(0xffffffff, strings.indexOf(name), typeof value === 'string' ? strings.indexOf(value) : 0xffffffff),
+      resValue(value, strings),
+    ]));
+
+    nodes.push(chunk(0x0102, 16, u32(1, 0xffffffff), Buffer.concat([ext, ...attributes])));
+    element.children.forEach(write);
+    nodes.push(chunk(0x0103, 16, u32(1, 0xffffffff), u32(0xffffffff, strings.indexOf(element.name))));
+  };
+  write(root);
+
+  return chunk(0x0003, 8, Buffer.alloc(0), Buffer.concat([stringPool(strings, false), ...nodes]));
+}
+
+/**
+ * Resource table with one package (0x7f) holding string resources.
+ * Each config maps entry index to value; `locale` marks a non-default config.
+ */
+function resourceTable(keys: string[], configs: Array<{ locale?: string; values: Value[] }>): Buffer {
+  const strings = [...new Set(configs.flatMap((config) => config.values.filter((v): v is string => typeof v === 'string')))];
+
+  const types = configs.map(({ locale, values }) => {
+    const config = Buffer.alloc(64);
+    config.writeUInt32LE(64, 0);
+    if (locale) config.write(locale, 8);
+
+    const entries = values.map((value, index) => Buffer.concat([
+      Buffer.from([8, 0, 0, 0]),
+      u32(index),
+      resValue(value, strings),
+    ]));
+    const header = Buffer.concat([
+      Buffer.from([1, 0, 0, 0]),
+      u32(values.length, 84 + values.length * 4),
+      config,
+    ]);
+    return chunk(0x0201, 84, header, Buffer.concat([u32(...values.map((_, i) => i * 16)), ...entries]));
+  });
+
+  const typeStrings = stringPool(['string'], true);
+  const keyStrings = stringPool(keys, true);
+  const packageHeader = Buffer.concat([
+    u32(0x7f),
+    Buffer.alloc(256),
+    u32(288, 0, 288 + typeStrings.length, 0, 0),
+  ]);
+  const pkg = chunk(0x0200, 288, packageHeader, Buffer.concat([typeStrings, keyStrings, ...types]));
+
+  return chunk(0x0002, 12, u32(1), Buffer.concat([stringPool(strings, true), pkg]));
+}
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const APP_NAME = 0x7f010000;
+const VERSION_NAME = 0x7f010001;
+
+const manifest = binaryXml(
+  el('manifest', [['package', 'com.example.quiz'], ['versionCode', 3], ['versionName', { ref: VERSION_NAME }]], [
+    el('uses-sdk', [['minSdkVersion', 21], ['targetSdkVersion', 34]]),
+    el('uses-permission', [['name', 'android.permission.INTERNET']]),
+    el('application', [['label', { ref: APP_NAME }], ['debuggable', true]], [
+      el('activity', [['name', '.MainActivity']]),
+      el('activity', [['name', 'com.lib.OtherActivity']]),
+    ]),
+  ])
+);
+
+const resources = resourceTable(['app_name', 'version_name'], [
+  { locale: 'fr', values: ['Quiz FR', '1.2.0'] },
+  { values: ['Quiz', '1.2.0'] },
+]);
+
+function apk(dex = 'dex\n035\0classes'): Buffer {
+  return writeZip([
+    { name: 'AndroidManifest.xml', data: manifest },
+    { name: 'resources.arsc', data: resources },
+    { name: 'classes.dex', data: Buffer.from(dex) },
+    { name: 'res/drawable/icon.png', data: Buffer.alloc(300) },
+    { name: 'META-INF/MANIFEST.MF', data: Buffer.from('Manifest-Version: 1.0') },
+  ]);
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('AndroidResources', () => {
+  it('should decode binary XML elements and typed attributes', () => {
+    const root = parseBinaryXml(manifest);
+
+    expect(root.name).toBe('manifest');
+    expect(root.attributes).toEqual({
+      package: 'com.example.quiz',
+      versionCode: 3,
+      versionName: { resourceId: VERSION_NAME },
+    });
+    expect(root.children[2].attributes.debuggable).toBe(true);
+    expect(root.children[2].children.map((child) => child.attributes.name)).toEqual([
+      '.MainActivity',
+      'com.lib.OtherActivity',
+    ]);
+  });
+
+  it('should resolve references through the default configuration', () => {
+    const table = parseResourceTable(resources);
+
+    expect(table.entries.get(APP_NAME)).toEqual({ type: 'string', key: 'app_name', value: 'Quiz' });
+    expect(resolveValue(table, { resourceId: VERSION_NAME })).toBe('1.2.0');
+    expect(resolveValue(table, { resourceId: 0x7f020000 })).toBeUndefined();
+  });
+
+  it('should reject data that is not binary XML', () => {
+    expect(() => parseBinaryXml(Buffer.from('<manifest/>'))).toThrow('Not a binary XML document');
+  });
+});
+
+describe('ApkInspector', () => {
+  it('should report manifest details', () => {
+    const report = analyzeApk(apk());
+
+    expect(report).toMatchObject({
+      packageName: 'com.example.quiz',
+      versionCode: 3,
+      versionName: '1.2.0',
+      minSdkVersion: 21,
+      targetSdkVersion: 34,
+      label: 'Quiz',
+      permissions: ['android.permission.INTERNET'],
+      activities: ['com.example.quiz.MainActivity', 'com.lib.OtherActivity'],
+    });
+  });
+
+  it('should break down sizes by directory and dex file', () => {
+    const archive = apk();
+    const report = analyzeApk(archive);
+
+    expect(report.fileSize).toBe(archive.length);
+    expect(report.directories.map((entry) => entry.path).sort()).toEqual(['/', 'META-INF', 'res']);
+    expect(report.directories.find((entry) => entry.path === '/')?.files).toBe(3);
+    expect(report.directories.find((entry) => entry.path === 'res')).toMatchObject({ files: 1, size: 300 });
+    expect(report.dexFiles).toEqual([
+      { path: 'classes.dex', files: 1, size: 15, compressedSize: 15 },
+    ]);
+  });
+
+  it('should check that morphed values reached the APK', () => {
+    const matching = analyzeApk(apk(), { packageName: 'com.example.quiz', appName: 'Quiz' });
+    expect(matching.checks.every((check) => check.passed)).toBe(true);
+
+    const stale = analyzeApk(apk('dex\n035\0{{APP_NAME}}'), { packageName: 'com.example.quiz', appName: 'Trivia' });
+    expect(stale.checks.filter((check) => !check.passed)).toEqual([
+      { name: 'appName', expected: 'Trivia', actual: 'Quiz', passed: false },
+      { name: 'placeholders', expected: 'none', actual: '{{APP_NAME}}', passed: false },
+    ]);
+  });
+
+  it('should reject archives without a manifest', () => {
+    const archive = writeZip([{ name: 'classes.dex', data: Buffer.from('dex') }]);
+    expect(() => analyzeApk(archive)).toThrow('APK has no AndroidManifest.xml');
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Unit Tests for the build cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { BuildCache, buildKey, syncProject } from '@main/services/BuildCache';
+import type { BuildCacheEntry, BuildCacheStore } from '@main/services/BuildCacheStore';
+import type { BuildExecutor, ExecutionRequest, OutputListener } from '@main/services/BuildExecutor';
+import { BuildPipeline } from '@main/services/BuildPipeline';
+import type { BuildCacheSettings } from '@shared/types';
+
+class MemoryCacheStore implements BuildCacheStore {
+  settings: BuildCacheSettings = { cacheEnabled: true, cacheMaxSize: 1 };
+  hits = 0;
+  misses = 0;
+  entries = new Map<string, BuildCacheEntry>();
+  private clock = 0;
+
+  getSettings(): BuildCacheSettings {
+    return { ...this.settings };
+  }
+
+  saveSettings(settings: BuildCacheSettings): void {
+    this.settings = { ...settings };
+  }
+
+  counters(): { hits: number; misses: number } {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  countLookup(hit: boolean): void {
+    if (hit) this.hits++;
+    else this.misses++;
+  }
+
+  get(key: string): BuildCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    return entry && { ...entry };
+  }
+
+  put(entry: BuildCacheEntry): void {
+    this.entries.set(entry.key, { ...entry, lastUsedAt: this.tick() });
+  }
+
+  update(key: string, changes: Partial<Pick<BuildCacheEntry, 'size' | 'hits' | 'lastUsedAt'>>): void {
+    Object.assign(this.entries.get(key)!, changes, changes.lastUsedAt ? { lastUsedAt: this.tick() } : {});
+  }
+
+  list(): BuildCacheEntry[] {
+    return [...this.entries.values()]
+      .sort((a, b) => a.lastUsedAt.getTime() - b.lastUsedAt.getTime())
+      .map((entry) => ({ ...entry }));
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /** Builds in a test run within the same millisecond */
+  private tick(): Date {
+    return new Date(++this.clock);
+  }
+}
+
+/**
+ * Stands in for Gradle: counts builds and writes a debug APK
+ */
+class CountingExecutor implements BuildExecutor {
+  readonly name = 'counting';
+  readonly usesHostToolchain = false;
+  readonly toolchain = 'sdk-34';
+  readonly projects: string[] = [];
+
+  execute(request: ExecutionRequest, _onOutput: OutputListener) {
+    this.projects.push(request.projectPath);
+    const done = fs
+      .outputFile(path.join(request.projectPath, 'app/build/outputs/apk/debug/app-debug.apk'), 'apk')
+      .then(() => 0);
+    return { done, cancel: () => undefined };
+  }
+}
+
+describe('BuildCache', () => {
+  let workDir: string;
+  let projectPath: string;
+  let store: MemoryCacheStore;
+  let cache: BuildCache;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'afz-cache-'));
+    projectPath = path.join(workDir, 'project');
+    await fs.outputFile(path.join(projectPath, 'build.gradle'), '');
+    await fs.outputFile(path.join(projectPath, 'app/build.gradle'), '');
+    await fs.outputFile(path.join(projectPath, 'app/src/main/res/values/strings.xml'), '<string>Quiz</string>');
+
+    store = new MemoryCacheStore();
+    cache = new BuildCache(store, path.join(workDir, 'cache'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  describe('buildKey', () => {
+    it('should depend on file contents and inputs but not build state', async () => {
+      const key = await buildKey(projectPath, { buildType: 'debug' });
+
+      await fs.outputFile(path.join(projectPath, 'app/build/intermediates/R.jar'), 'jar');
+      await fs.outputFile(path.join(projectPath, 'local.properties'), 'sdk.dir=/sdk');
+      expect(await buildKey(projectPath, { buildType: 'debug' })).toBe(key);
+
+      expect(await buildKey(projectPath, { buildType: 'release' })).not.toBe(key);
+      await fs.outputFile(path.join(projectPath, 'app/src/main/res/values/strings.xml'), '<string>Trivia</string>');
+      expect(await buildKey(projectPath, { buildType: 'debug' })).not.toBe(key);
+    });
+  });
+
+  describe('syncProject', () => {
+    it('should copy changed files, remove stale ones and keep build directories', async () => {
+      const workspacePath = path.join(workDir, 'workspace');
+      await fs.outputFile(path.join(workspacePath, 'build.gradle'), '');
+      await fs.outputFile(path.join(workspacePath, 'app/build.gradle'), '');
+      await fs.outputFile(path.join(workspacePath, 'app/src/main/Old.kt'), 'old');
+      await fs.outputFile(path.join(workspacePath, 'app/build/intermediates/R.jar'), 'jar');
+      await fs.outputFile(path.join(workspacePath, '.gradle/checksums'), 'state');
+      const unchanged = path.join(workspacePath, 'build.gradle');
+      const before = (await fs.stat(unchanged)).mtimeMs;
+
+      await syncProject(projectPath, workspacePath);
+
+      expect(await fs.readFile(path.join(workspacePath, 'app/src/main/res/values/strings.xml'), 'utf-8'))
+        .toBe('<string>Quiz</string>');
+      expect(await fs.pathExists(path.join(workspacePath, 'app/src/main/Old.kt'))).toBe(false);
+      expect(await fs.pathExists(path.join(workspacePath, 'app/build/intermediates/R.jar'))).toBe(true);
+      expect(await fs.pathExists(path.join(workspacePath, '.gradle/checksums'))).toBe(true);
+      expect((await fs.stat(unchanged)).mtimeMs).toBe(before);
+    });
+  });
+
+  it('should count misses and hits', async () => {
+    const apk = path.join(workDir, 'app-debug.apk');
+    await fs.outputFile(apk, 'apk');
+
+    expect(await cache.lookup('key-1')).toBeNull();
+    await cache.save('key-1', [{ format: 'apk', path: apk }]);
+    const cached = await cache.lookup('key-1');
+
+    expect(cached!.artifacts).toHaveLength(1);
+    expect(await fs.readFile(cached!.artifacts[0].path, 'utf-8')).toBe('apk');
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, entries: 1, size: 3 });
+  });
+
+  it('should evict the least recently used entries beyond the size limit', async () => {
+    const apk = path.join(workDir, 'app-debug.apk');
+    await fs.outputFile(apk, Buffer.alloc(400 * 1024));
+
+    await cache.save('key-1', [{ format: 'apk', path: apk }]);
+    await cache.save('key-2', [{ format: 'apk', path: apk }]);
+    await cache.lookup('key-1');
+    await cache.save('key-3', [{ format: 'apk', path: apk }]);
+
+    expect([...store.entries.keys()].sort()).toEqual(['key-1', 'key-3']);
+    expect(await cache.lookup('key-2')).toBeNull();
+  });
+
+  it('should lend a workspace to one build at a time', async () => {
+    const workspace = await cache.acquireWorkspace('template-1');
+
+    expect(workspace).not.toBeNull();
+    expect(await cache.acquireWorkspace('template-1')).toBeNull();
+
+    await fs.outputFile(path.join(workspace!.path, 'app/build/out.apk'), 'apk');
+    await workspace!.release();
+
+    expect(store.get('workspace:template-1')!.size).toBe(3);
+    expect(await cache.acquireWorkspace('template-1')).not.toBeNull();
+  });
+
+  it('should reject a non-positive size limit', async () => {
+    await expect(cache.configure({ cacheEnabled: true, cacheMaxSize: 0 })).rejects.toThrow('positive number of MB');
+  });
+
+  describe('with BuildPipeline', () => {
+    const config = () => ({
+      appId: 'app-1',
+      projectPath,
+      outputPath: path.join(workDir, 'out'),
+      buildType: 'debug' as const,
+      executor: 'counting',
+      cacheGroup: 'template-1',
+    });
+
+    it('should build once in the warm workspace and reuse the artifact after', async () => {
+      const executor = new CountingExecutor();
+      const pipeline = new BuildPipeline({ counting: executor }, cache);
+
+      const first = await pipeline.build(config());
+      await fs.remove(first.apkPath!);
+      const second = await pipeline.build(config());
+
+      expect(first.success).toBe(true);
+      expect(first.cacheHit).toBeUndefined();
+      expect(executor.projects).toEqual([path.join(workDir, 'cache', 'workspaces', 'template-1')]);
+      expect(second).toMatchObject({ success: true, cacheHit: true });
+      expect(await fs.readFile(second.apkPath!, 'utf-8')).toBe('apk');
+      expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, entries: 1, workspaces: 1 });
+    });
+
+    it('should build in the project when the cache is disabled', async () => {
+      await cache.configure({ cacheEnabled: false, cacheMaxSize: 1 });
+      const executor = new CountingExecutor();
+      const pipeline = new BuildPipeline({ counting: executor }, cache);
+
+      await pipeline.build(config());
+      await pipeline.build(config());
+
+      expect(executor.projects).toEqual([projectPath, projectPath]);
+      expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0, entries: 0 });
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit Tests for build failure classification and remediation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { classifyFailure, nextRemediation } from '@main/services/BuildFailures';
+import type { BuildExecutor, ExecutionRequest, OutputListener } from '@main/services/BuildExecutor';
+import { BuildPipeline } from '@main/services/BuildPipeline';
+
+/**
+ * Stands in for Gradle: prints the next scripted failure, then succeeds.
+ * Every attempt first prints `output`.
+ */
+class FailingExecutor implements BuildExecutor {
+  readonly name = 'failing';
+  readonly usesHostToolchain = false;
+  readonly toolchain = 'sdk-34';
+  readonly calls: string[][] = [];
+
+  constructor(private readonly failures: string[], private readonly output = '') {}
+
+  execute(request: ExecutionRequest, onOutput: OutputListener) {
+    this.calls.push(request.args);
+    if (this.output) {
+      onOutput('stdout', this.output);
+    }
+    const failure = this.failures.shift();
+    if (failure) {
+      onOutput('stderr', failure);
+      return { done: Promise.resolve(1), cancel: () => undefined };
+    }
+    const done = fs
+      .outputFile(path.join(request.projectPath, 'app/build/outputs/apk/debug/app-debug.apk'), 'apk')
+      .then(() => 0);
+    return { done, cancel: () => undefined };
+  }
+}
+
+const DAEMON_CRASH = 'FAILURE: Build failed with an exception.\n* What went wrong:\nGradle build daemon disappeared unexpectedly (it may have been killed or may have crashed)\n';
+const OUT_OF_MEMORY = '> Task :app:mergeDexDebug FAILED\njava.lang.OutOfMemoryError: Java heap space\n';
+
+describe('BuildFailures', () => {
+  describe('classifyFailure', () => {
+    it.each([
+      [DAEMON_CRASH, 'daemon-crash'],
+      [OUT_OF_MEMORY, 'out-of-memory'],
+      [
+        "> Could not resolve com.squareup.okhttp3:okhttp:4.12.0.\n> Could not GET 'https://repo.maven.apache.org/'. > java.net.UnknownHostException: repo.maven.apache.org\n",
+        'offline-dependencies',
+      ],
+      ["Failed to find target with hash string 'android-34' in: /sdk\n", 'sdk-platform-missing'],
+      [
+        'You have not accepted the license agreements of the following SDK components:\n  [Android SDK Platform 34].\n',
+        'license-not-accepted',
+      ],
+      ['Execution failed for task \':app:packageRelease\'.\n> Keystore was tampered with, or password was incorrect\n', 'keystore-password'],
+      ['app/src/main/res/values/strings.xml:3: error: {{APP_NAME}} is not a valid resource name\n', 'unreplaced-placeholder'],
+    ])('should recognize %#', (output, failureClass) => {
+      expect(classifyFailure(output)?.failureClass).toBe(failureClass);
+    });
+
+    it('should say how to fix the cause and quote the line it was recognized by', () => {
+      const failure = classifyFailure("Failed to find Platform SDK with path: platforms;android-33\n");
+
+      expect(failure).toEqual({
+        failureClass: 'sdk-platform-missing',
+        message: expect.stringContaining('sdkmanager "platforms;android-33"'),
+        evidence: 'Failed to find Platform SDK with path: platforms;android-33',
+      });
+    });
+
+    it('should not classify unresolved dependencies without a network error', () => {
+      expect(classifyFailure('> Could not resolve com.example:missing:1.0.\n')).toBeNull();
+      expect(classifyFailure("e: MainActivity.kt:12:5 Unresolved reference: quizz\n")).toBeNull();
+    });
+  });
+
+  describe('nextRemediation', () => {
+    it('should retry each remediation once and keep the earlier ones', () => {
+      const crash = classifyFailure(DAEMON_CRASH);
+      const oom = classifyFailure(OUT_OF_MEMORY);
+
+      const first = nextRemediation(crash, []);
+      const second = nextRemediation(oom, [{ failureClass: 'daemon-crash', remediation: 'no-daemon', succeeded: false }]);
+
+      expect(first).toEqual({ remediation: 'no-daemon', args: ['--no-daemon'] });
+      expect(second!.args).toEqual([
+        '--no-daemon',
+        '-Dorg.gradle.jvmargs=-Xmx4g -XX:MaxMetaspaceSize=1g -XX:+HeapDumpOnOutOfMemoryError',
+      ]);
+      expect(nextRemediation(crash, [{ failureClass: 'daemon-crash', remediation: 'no-daemon', succeeded: false }]))
+        .toBeNull();
+    });
+
+    it('should fail fast on causes the user has to fix', () => {
+      expect(nextRemediation(classifyFailure('Cannot recover key\n'), [])).toBeNull();
+      expect(nextRemediation(null, [])).toBeNull();
+    });
+  });
+
+  describe('with BuildPipeline', () => {
+    let workDir: string;
+    let projectPath: string;
+
+    const config = () => ({
+      appId: 'app-1',
+      projectPath,
+      outputPath: path.join(workDir, 'out'),
+      buildType: 'debug' as const,
+      executor: 'failing',
+    });
+
+    beforeEach(async () => {
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'afz-failures-'));
+      projectPath = path.join(workDir, 'project');
+      await fs.outputFile(path.join(projectPath, 'build.gradle'), '');
+    });
+
+    afterEach(async () => {
+      await fs.remove(workDir);
+    });
+
+    it('should retry with remediations until the build succeeds', async () => {
+      const executor = new FailingExecutor([DAEMON_CRASH, OUT_OF_MEMORY]);
+      const pipeline = new BuildPipeline({ failing: executor });
+
+      const result = await pipeline.build(config());
+
+      expect(result.success).toBe(true);
+      expect(executor.calls).toHaveLength(3);
+      expect(executor.calls[2]).toEqual(expect.arrayContaining(['--no-daemon', expect.stringContaining('-Xmx4g')]));
+      expect(result.remediations).toEqual([
+        { failureClass: 'daemon-crash', remediation: 'no-daemon', succeeded: false },
+        { failureClass: 'out-of-memory', remediation: 'raise-heap', succeeded: true },
+      ]);
+    });
+
+    it('should only report diagnostics of the attempt that succeeded', async () => {
+      const deprecation = "w: file:///src/MainActivity.kt:8:5 'onBackPressed(): Unit' is deprecated\n";
+      const executor = new FailingExecutor(
+        [`e: file:///src/MainActivity.kt:12:5 Unresolved reference: quizz\n${OUT_OF_MEMORY}`],
+        deprecation
+      );
+      const pipeline = new BuildPipeline({ failing: executor });
+
+      const result = await pipeline.build(config());
+
+      expect(result.success).toBe(true);
+      expect(executor.calls).toHaveLength(2);
+      expect(result.diagnostics!.filter((d) => d.severity === 'error')).toEqual([]);
+      expect(result.warnings.filter((warning) => warning.includes('is deprecated'))).toHaveLength(1);
+    });
+
+    it('should fail fast with the actionable message', async () => {
+      const executor = new FailingExecutor(['> Keystore was tampered with, or password was incorrect\n']);
+      const pipeline = new BuildPipeline({ failing: executor });
+
+      const result = await pipeline.build(config());
+
+      expect(result.success).toBe(false);
+      expect(executor.calls).toHaveLength(1);
+      expect(result.failure?.failureClass).toBe('keystore-password');
+      expect(result.errors[0]).toContain('keystore password or key password is wrong');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit Tests for BuildMatrix
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ABI_SPLITS_INIT_SCRIPT_FILE,
+  prepareAbiSplits,
+  expandMatrix,
+  gradleTask,
+  outputDirectories,
+  artifactFileName,
+  abiOf,
+} from '@main/services/BuildMatrix';
+
+describe('BuildMatrix', () => {
+  describe('expandMatrix', () => {
+    it('should build every combination, splitting ABIs for APKs only', () => {
+      const variants = expandMatrix({
+        flavors: ['free', 'paid'],
+        buildTypes: ['release'],
+        formats: ['apk', 'aab'],
+        abis: ['arm64-v8a', 'x86_64'],
+      });
+
+      expect(variants).toEqual([
+        { flavor: 'free', buildType: 'release', format: 'apk', abis: ['arm64-v8a', 'x86_64'] },
+        { flavor: 'free', buildType: 'release', format: 'aab' },
+        { flavor: 'paid', buildType: 'release', format: 'apk', abis: ['arm64-v8a', 'x86_64'] },
+        { flavor: 'paid', buildType: 'release', format: 'aab' },
+      ]);
+    });
+
+    it('should default to unflavored APKs', () => {
+      expect(expandMatrix({ buildTypes: ['debug', 'release'] })).toEqual([
+        { buildType: 'debug', format: 'apk' },
+        { buildType: 'release', format: 'apk' },
+      ]);
+    });
+
+    it('should reject invalid flavors, ABIs and empty build types', () => {
+      expect(() => expandMatrix({ buildTypes: [] })).toThrow('Build matrix needs at least one build type');
+      expect(() => expandMatrix({ flavors: ['Free Tier'], buildTypes: ['debug'] }))
+        .toThrow('Invalid product flavor: Free Tier');
+      expect(() => expandMatrix({ buildTypes: ['debug'], abis: ['mips' as never] })).toThrow('Unknown ABI: mips');
+    });
+  });
+
+  it('should name Gradle tasks after the variant', () => {
+    expect(gradleTask({ buildType: 'debug', format: 'apk' })).toBe('assembleDebug');
+    expect(gradleTask({ flavor: 'free', buildType: 'release', format: 'apk' })).toBe('assembleFreeRelease');
+    expect(gradleTask({ flavor: 'paid', buildType: 'release', format: 'aab' })).toBe('bundlePaidRelease');
+  });
+
+  it('should locate outputs the way the Android Gradle Plugin writes them', () => {
+    expect(outputDirectories('/p', { flavor: 'free', buildType: 'release', format: 'apk' })[0])
+      .toBe(path.join('/p', 'app', 'build', 'outputs', 'apk', 'free', 'release'));
+    expect(outputDirectories('/p', { flavor: 'free', buildType: 'release', format: 'aab' })[0])
+      .toBe(path.join('/p', 'app', 'build', 'outputs', 'bundle', 'freeRelease'));
+    expect(outputDirectories('/p', { buildType: 'debug', format: 'apk' })[1])
+      .toBe(path.join('/p', 'build', 'outputs', 'apk', 'debug'));
+  });
+
+  it('should name artifacts by variant and ABI', () => {
+    expect(artifactFileName('app-1', { buildType: 'debug', format: 'apk' })).toBe('app-1-debug.apk');
+    expect(artifactFileName('app-1', { flavor: 'free', buildType: 'release', format: 'apk' }, 'arm64-v8a'))
+      .toBe('app-1-free-release-arm64-v8a.apk');
+    expect(artifactFileName('app-1', { flavor: 'paid', buildType: 'release', format: 'aab' }))
+      .toBe('app-1-paid-release.aab');
+  });
+
+  it('should tell ABI splits apart', () => {
+    expect(abiOf('app-free-x86-release.apk')).toBe('x86');
+    expect(abiOf('app-free-x86_64-release.apk')).toBe('x86_64');
+    expect(abiOf('app-universal-release.apk')).toBeUndefined();
+  });
+
+  it('should enable ABI splits for templates that declare none', async () => {
+    const template = path.resolve(__dirname, '../../templates/wallpaper-pack/src');
+    const project = await fs.mkdtemp(path.join(os.tmpdir(), 'afz-abi-splits-'));
+    try {
+      await fs.copy(template, project);
+      expect(await fs.readFile(path.join(project, 'app', 'build.gradle.kts'), 'utf-8')).not.toContain('splits');
+
+      expect(await prepareAbiSplits(project, [])).toEqual([]);
+      expect(await prepareAbiSplits(project, ['arm64-v8a', 'x86_64'])).toEqual([
+        '--init-script',
+        '.appforge/abi-splits.gradle',
+        '-PappforgeAbis=arm64-v8a,x86_64',
+      ]);
+
+      const script = await fs.readFile(path.join(project, ABI_SPLITS_INIT_SCRIPT_FILE), 'utf-8');
+      expect(script).toContain("plugins.withId('com.android.application')");
+      expect(script).toContain('split.enable = true');
+    } finally {
+      await fs.remove(project);
+    }
+  });
+});
@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import * as fs from 'fs-extra';
+import * as path from 'path';
 
 // Mock child_process
 vi.mock('child_process', () => ({
@@ -27,8 +28,11 @@ vi.mock('fs-extra', () => ({
   readdir: vi.fn(),
   readFile: vi.fn(),
   writeFile: vi.fn(),
+  outputFile: vi.fn(),
   remove: vi.fn(),
   chmod: vi.fn(),
+  stat: vi.fn(),
+  mkdtemp: vi.fn(),
 }));
 
 describe('BuildPipeline', () => {
@@ -83,6 +87,100 @@ describe('BuildPipeline', () => {
     });
   });
 
+  describe('build', () => {
+    it('should record an artifact per ABI split, failing missing ones', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readdir).mockResolvedValue(['app-free-arm64-v8a-release.apk', 'output-metadata.json'] as never);
+      vi.mocked(fs.stat).mockResolvedValue({ size: 2048 } as never);
+      vi.mocked(fs.readFile).mockRejectedValue(new Error('not an APK'));
+
+      const { spawn } = await import('child_process');
+      const { BuildPipeline } = await import('@main/services/BuildPipeline');
+      const pipeline = new BuildPipeline();
+
+      const result = await pipeline.build({
+        appId: 'app-1',
+        projectPath: '/mock/project',
+        outputPath: '/mock/out',
+        buildType: 'release',
+        flavor: 'free',
+        abis: ['arm64-v8a', 'x86_64'],
+        androidSdkRoot: '/mock/sdk',
+        javaHome: '/mock/java',
+      });
+
+      const args = vi.mocked(spawn).mock.calls[0][1];
+      expect(args).toContain('assembleFreeRelease');
+      expect(args).toContain('.appforge/abi-splits.gradle');
+      expect(args).toContain('-PappforgeAbis=arm64-v8a,x86_64');
+      expect(fs.outputFile).toHaveBeenCalledWith(
+        path.join('/mock/project', '.appforge', 'abi-splits.gradle'),
+        expect.stringContaining('split.include(*abis)'),
+        'utf-8'
+      );
+      expect(result.artifacts).toEqual([
+        { format: 'apk', abi: 'arm64-v8a', path: '/mock/out/app-1-free-release-arm64-v8a.apk', size: 2048, status: 'success' },
+        { format: 'apk', abi: 'x86_64', status: 'failed', errorMessage: 'APK for x86_64 not found after build' },
+      ]);
+      expect(result.success).toBe(false);
+      expect(result.apkPath).toBe('/mock/out/app-1-free-release-arm64-v8a.apk');
+      expect(result.errors).toEqual(['APK for x86_64 not found after build']);
+    });
+
+    it('should fail builds that ask for an unknown executor', async () => {
+      const { spawn } = await import('child_process');
+      const { BuildPipeline } = await import('@main/services/BuildPipeline');
+      const pipeline = new BuildPipeline();
+
+      const result = await pipeline.build({
+        appId: 'app-1',
+        projectPath: '/mock/project',
+        outputPath: '/mock/out',
+        buildType: 'debug',
+        executor: 'gpu-farm',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['Unknown build executor: gpu-farm']);
+      expect(spawn).not.toHaveBeenCalled();
+    });
+
+    it('should sign through an init script without writing passwords to disk', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.mkdtemp).mockResolvedValue('/tmp/appforge-signing-1' as never);
+      vi.mocked(fs.readdir).mockResolvedValue(['app-release.apk'] as never);
+      vi.mocked(fs.stat).mockResolvedValue({ size: 2048 } as never);
+      vi.mocked(fs.readFile).mockRejectedValue(new Error('not an APK'));
+
+      const { spawn } = await import('child_process');
+      const { BuildPipeline } = await import('@main/services/BuildPipeline');
+      const pipeline = new BuildPipeline();
+
+      const result = await pipeline.build({
+        appId: 'app-1',
+        projectPath: '/mock/project',
+        outputPath: '/mock/out',
+        buildType: 'release',
+        keystore: { data: Buffer.from('keystore'), password: 'store-secret', alias: 'upload', keyPassword: 'key-secret' },
+        androidSdkRoot: '/mock/sdk',
+        javaHome: '/mock/java',
+      });
+
+      expect(result.success).toBe(true);
+      const [, args, options] = vi.mocked(spawn).mock.calls[0];
+      expect(args).toEqual(expect.arrayContaining(['--init-script', '/tmp/appforge-signing-1/signing.gradle']));
+      expect(options!.env).toMatchObject({
+        APPFORGE_SIGNING_STORE_FILE: '/tmp/appforge-signing-1/release.keystore',
+        APPFORGE_SIGNING_STORE_PASSWORD: 'store-secret',
+        APPFORGE_SIGNING_KEY_ALIAS: 'upload',
+        APPFORGE_SIGNING_KEY_PASSWORD: 'key-secret',
+      });
+      const written = vi.mocked(fs.writeFile).mock.calls.map((call) => String(call[1]));
+      expect(written.some((content) => content.includes('store-secret'))).toBe(false);
+      expect(fs.remove).toHaveBeenCalledWith('/tmp/appforge-signing-1');
+    });
+  });
+
   describe('getBuildInfo', () => {
     it('should detect Kotlin DSL build files', async () => {
       vi.mocked(fs.pathExists).mockImplementation(async (path: any) => {
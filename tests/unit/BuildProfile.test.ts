@@ -0,0 +1,171 @@
+/**
+ * Unit Tests for Gradle task timings
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { findRegressions, prepareProfile, readProfile, summarizeProfiles } from '@main/services/BuildProfile';
+import { BuildService } from '@main/services/build.service';
+import { BuildPipeline } from '@main/services/build.pipeline';
+import type { ServiceContext } from '@main/services/base.service';
+import type { BuildJobStore, StoredBuildJob } from '@main/services/BuildJobStore';
+import type { BuildProfile, BuildTaskOutcome } from '@shared/types';
+
+/**
+ * A profile of sequential tasks with the given durations
+ */
+function profile(durations: Record<string, number>, outcome: BuildTaskOutcome = 'executed'): BuildProfile {
+  let start = 2000;
+  const tasks = Object.entries(durations).map(([taskPath, duration]) => {
+    const task = { path: taskPath, start, duration, outcome };
+    start += duration;
+    return task;
+  });
+  return { duration: start, configuration: 2000, tasks };
+}
+
+describe('BuildProfile', () => {
+  describe('profile file', () => {
+    let workDir: string;
+
+    beforeEach(async () => {
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'afz-profile-'));
+    });
+
+    afterEach(async () => {
+      await fs.remove(workDir);
+    });
+
+    it('should add the init script and read the timings it writes in start order', async () => {
+      await fs.outputJson(path.join(workDir, 'build/appforge/profile.json'), { duration: 1, tasks: [] });
+
+      const args = await prepareProfile(workDir);
+
+      expect(args).toEqual(['--init-script', '.appforge/profile.gradle']);
+      expect(await fs.readFile(path.join(workDir, '.appforge/profile.gradle'), 'utf-8'))
+        .toContain('gradle.taskGraph.afterTask');
+      expect(await readProfile(workDir)).toBeNull();
+
+      await fs.outputJson(path.join(workDir, 'build/appforge/profile.json'), {
+        duration: 9000,
+        tasks: [
+          { path: ':app:compileDebugKotlin', start: 3500, duration: 5000, outcome: 'executed' },
+          { path: ':app:preBuild', start: 3000, duration: 10, outcome: 'up-to-date' },
+        ],
+      });
+      const read = await readProfile(workDir);
+
+      expect(read!.configuration).toBe(3000);
+      expect(read!.tasks.map((task) => task.path)).toEqual([':app:preBuild', ':app:compileDebugKotlin']);
+    });
+
+    it('should reject a malformed profile', async () => {
+      await fs.outputJson(path.join(workDir, 'build/appforge/profile.json'), {
+        duration: 9000,
+        tasks: [{ path: ':app:preBuild', start: 0, duration: 10, outcome: 'UP-TO-DATE' }],
+      });
+
+      await expect(readProfile(workDir)).rejects.toThrow('Malformed build profile');
+    });
+  });
+
+  describe('findRegressions', () => {
+    const earlier = [
+      profile({ ':app:compileDebugKotlin': 20000, ':app:mergeDebugResources': 3000 }),
+      profile({ ':app:compileDebugKotlin': 22000, ':app:mergeDebugResources': 3200 }),
+      profile({ ':app:compileDebugKotlin': 21000, ':app:mergeDebugResources': 500 }),
+    ];
+
+    it('should flag executed tasks well above their median', () => {
+      const regressions = findRegressions(
+        profile({ ':app:compileDebugKotlin': 45000, ':app:mergeDebugResources': 3100 }),
+        earlier
+      );
+
+      expect(regressions).toEqual([{ path: ':app:compileDebugKotlin', duration: 45000, baseline: 21000 }]);
+    });
+
+    it('should ignore small differences, tasks that did no work and short histories', () => {
+      expect(findRegressions(profile({ ':app:mergeDebugResources': 4000 }), earlier)).toEqual([]);
+      expect(findRegressions(profile({ ':app:compileDebugKotlin': 45000 }, 'from-cache'), earlier)).toEqual([]);
+      expect(findRegressions(profile({ ':app:compileDebugKotlin': 45000 }), earlier.slice(0, 2))).toEqual([]);
+    });
+  });
+
+  describe('summarizeProfiles', () => {
+    it('should average the executed durations of each task, slowest first', () => {
+      const summary = summarizeProfiles([
+        profile({ ':app:compileDebugKotlin': 20000, ':app:dexBuilderDebug': 4000 }),
+        profile({ ':app:compileDebugKotlin': 30000 }),
+        profile({ ':app:dexBuilderDebug': 1 }, 'up-to-date'),
+      ]);
+
+      expect(summary).toEqual([
+        { path: ':app:compileDebugKotlin', builds: 2, averageDuration: 25000 },
+        { path: ':app:dexBuilderDebug', builds: 1, averageDuration: 4000 },
+      ]);
+    });
+  });
+
+  describe('build statistics', () => {
+    const slow = profile({ ':app:compileDebugKotlin': 45000 });
+    const history = [20000, 22000, 21000].map((duration) => profile({ ':app:compileDebugKotlin': duration }));
+
+    it('should keep the profile of each build the service runs', async () => {
+      const rows = new Map<string, string>();
+      const db = {
+        query: vi.fn(async (sql: string, params: unknown[]) => {
+          if (sql.includes('COUNT(*)')) {
+            return [{ total_builds: rows.size, successful_builds: rows.size, failed_builds: 0, avg_duration: 0 }];
+          }
+          if (sql.includes('WHERE id = ?')) {
+            return [{ data: rows.get(params[0] as string) }];
+          }
+          return sql.includes('version_code') ? [] : [...rows.values()].reverse().map((data) => ({ data }));
+        }),
+        // Inserts start with the id, updates end with it, both after the data
+        execute: vi.fn(async (sql: string, params: unknown[]) => {
+          if (sql.includes('INSERT')) {
+            rows.set(params[0] as string, params[5] as string);
+          } else {
+            rows.set(params[params.length - 1] as string, params[params.length - 2] as string);
+          }
+        }),
+      };
+      const profiles = [...history, slow];
+      const api = { buildApk: vi.fn(async () => ({ apkPath: '/out/app.apk', profile: profiles.shift() })) };
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const service = new BuildService({ config: { name: 'builds' }, db, api, logger } as unknown as ServiceContext);
+
+      for (let i = 0; i < 4; i++) {
+        const build = await service.createBuild('template-1', '1.0.0');
+        expect((await service.startBuild(build.data!.id)).data!.profile).toBeDefined();
+      }
+      const stats = await service.getBuildStatistics('template-1');
+
+      expect(stats.data.slowestTasks).toEqual([{ path: ':app:compileDebugKotlin', builds: 4, averageDuration: 27000 }]);
+      expect(stats.data.regressions).toEqual([{ path: ':app:compileDebugKotlin', duration: 45000, baseline: 21000 }]);
+    });
+
+    it('should include the profiles of the build queue in the pipeline statistics', async () => {
+      const jobs = [...history, slow].map((jobProfile, i) => ({
+        id: `job-${i}`,
+        appId: i === 1 ? 'other-app' : 'app-1',
+        status: 'success',
+        startedAt: new Date(Date.UTC(2026, 0, i + 1)),
+        profile: jobProfile,
+      }));
+      const store = { list: vi.fn(() => [...jobs].reverse() as StoredBuildJob[]) } as unknown as BuildJobStore;
+      const pipeline = new BuildPipeline();
+      pipeline.setJobStore(store);
+
+      const stats = await pipeline.getBuildStats('app-1');
+
+      expect(store.list).toHaveBeenCalledWith(['success', 'failed']);
+      expect(stats.slowestTasks).toEqual([{ path: ':app:compileDebugKotlin', builds: 3, averageDuration: 28667 }]);
+      expect(stats.regressions).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Unit Tests for BuildScheduler
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { BuildScheduler } from '@main/services/BuildScheduler';
+import type { BuildJobStore, StoredBuildJob } from '@main/services/BuildJobStore';
+import type { BuildConfig, BuildPipeline, BuildResult } from '@main/services/BuildPipeline';
+import type { BuildArtifact, BuildJobStatus } from '@shared/types';
+
+/**
+ * Store that keeps jobs in memory with the same ordering as SQLite
+ */
+class MemoryJobStore implements BuildJobStore {
+  jobs = new Map<string, StoredBuildJob>();
+  artifacts: BuildArtifact[] = [];
+  concurrency?: number;
+
+  insert(job: StoredBuildJob): void {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  get(id: string): StoredBuildJob | undefined {
+    const job = this.jobs.get(id);
+    return job && { ...job };
+  }
+
+  list(statuses: BuildJobStatus[]): StoredBuildJob[] {
+    return [...this.jobs.values()]
+      .filter((job) => statuses.includes(job.status))
+      .sort((a, b) => b.priority - a.priority || a.position - b.position)
+      .map((job) => ({ ...job }));
+  }
+
+  update(id: string, changes: Partial<StoredBuildJob>): void {
+    Object.assign(this.jobs.get(id)!, changes);
+  }
+
+  nextPosition(): number {
+    return Math.max(0, ...[...this.jobs.values()].map((job) => job.position)) + 1;
+  }
+
+  addArtifacts(artifacts: BuildArtifact[]): void {
+    this.artifacts.push(...artifacts);
+  }
+
+  listArtifacts(jobId: string): BuildArtifact[] {
+    return this.artifacts.filter((artifact) => artifact.jobId === jobId);
+  }
+
+  getConcurrency(): number | undefined {
+    return this.concurrency;
+  }
+
+  saveConcurrency(concurrency: number): void {
+    this.concurrency = concurrency;
+  }
+}
+
+/**
+ * Pipeline whose builds finish when the test says so
+ */
+class FakePipeline extends EventEmitter {
+  config?: BuildConfig;
+  cancelled = false;
+  private finish?: (result: BuildResult) => void;
+
+  build(config: BuildConfig): Promise<BuildResult> {
+    this.config = config;
+    return new Promise((resolve) => {
+      this.finish = resolve;
+    });
+  }
+
+  complete(success = true): void {
+    this.finish?.({
+      success,
+      apkPath: success ? `/out/${this.config?.appId}.apk` : undefined,
+      artifacts: success
+        ? [{ format: 'apk', path: `/out/${this.config?.appId}.apk`, size: 10, status: 'success' }]
+        : [],
+      buildTime: 1,
+      errors: success ? [] : ['Gradle failed'],
+      warnings: [],
+      logs: [],
+      diagnostics: success ? [] : [{ tool: 'gradle', severity: 'error', message: 'Gradle failed' }],
+    });
+  }
+
+  cancelBuild(): boolean {
+    this.cancelled = true;
+    this.complete(false);
+    return true;
+  }
+}
+
+const flush = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+
+function config(appId: string, extra: Partial<BuildConfig> = {}): BuildConfig {
+  return { appId, projectPath: `/p/${appId}`, outputPath: '/out', buildType: 'debug', ...extra };
+}
+
+describe('BuildScheduler', () => {
+  let store: MemoryJobStore;
+  let pipelines: FakePipeline[];
+
+  const createScheduler = (concurrency = 1): BuildScheduler =>
+    new BuildScheduler(store, {
+      concurrency,
+      createPipeline: () => {
+        const pipeline = new FakePipeline();
+        pipelines.push(pipeline);
+        return pipeline as unknown as BuildPipeline;
+      },
+    });
+
+  beforeEach(() => {
+    store = new MemoryJobStore();
+    pipelines = [];
+  });
+
+  it('should run builds up to the concurrency limit', async () => {
+    const scheduler = createScheduler(2);
+    const a = scheduler.enqueue(config('a'));
+    scheduler.enqueue(config('b'));
+    const c = scheduler.enqueue(config('c'));
+
+    expect(pipelines.map((p) => p.config?.appId)).toEqual(['a', 'b']);
+    expect(scheduler.getJob(c.id)?.status).toBe('queued');
+
+    pipelines[0].complete();
+    await flush();
+
+    expect(scheduler.getJob(a.id)).toMatchObject({ status: 'success', apkPath: '/out/a.apk', attempts: 1 });
+    expect(pipelines.map((p) => p.config?.appId)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should keep the concurrency limit across restarts', () => {
+    createScheduler().setConcurrency(3);
+
+    expect(store.concurrency).toBe(3);
+    expect(createScheduler().getState().concurrency).toBe(3);
+    expect(() => createScheduler().setConcurrency(0)).toThrow('Concurrency must be a positive integer, got 0');
+    expect(store.concurrency).toBe(3);
+  });
+
+  it('should order queued builds by priority, then position', async () => {
+    const scheduler = createScheduler();
+    scheduler.enqueue(config('running'));
+    const low = scheduler.enqueue(config('low'));
+    const second = scheduler.enqueue(config('second'));
+    scheduler.enqueue(config('urgent'), { priority: 10 });
+
+    scheduler.reorder([second.id, low.id]);
+    expect(scheduler.getState().jobs.map((job) => job.appId)).toEqual([
+      'running', 'urgent', 'second', 'low',
+    ]);
+
+    scheduler.setPriority(low.id, 20);
+    pipelines[0].complete();
+    await flush();
+
+    expect(pipelines[1].config?.appId).toBe('low');
+    expect(() => scheduler.reorder(['unknown'])).toThrow('Build unknown is not queued');
+  });
+
+  it('should not start builds while paused', async () => {
+    const scheduler = createScheduler();
+    scheduler.pause();
+    const job = scheduler.enqueue(config('a'));
+
+    expect(pipelines).toHaveLength(0);
+    expect(scheduler.getState()).toMatchObject({ paused: true, concurrency: 1 });
+
+    scheduler.resume();
+    expect(scheduler.getJob(job.id)?.status).toBe('running');
+  });
+
+  it('should cancel queued and running builds', async () => {
+    const scheduler = createScheduler();
+    const running = scheduler.enqueue(config('a'));
+    const queued = scheduler.enqueue(config('b'));
+
+    expect(scheduler.cancel(queued.id)).toBe(true);
+    expect(scheduler.cancel(running.id)).toBe(true);
+    await flush();
+
+    expect(pipelines[0].cancelled).toBe(true);
+    expect(scheduler.getJob(running.id)?.status).toBe('cancelled');
+    expect(scheduler.getJob(queued.id)?.status).toBe('cancelled');
+    expect(pipelines).toHaveLength(1);
+    expect(scheduler.cancel(running.id)).toBe(false);
+  });
+
+  it('should keep logs and task progress of running builds', async () => {
+    const scheduler = createScheduler();
+    const job = scheduler.enqueue(config('a'));
+
+    pipelines[0].emit('build:log', { type: 'stdout', message: '> Task :app:preBuild' });
+    pipelines[0].emit('build:progress', { stage: 'task', message: '> Task :app:preBuild' });
+
+    expect(scheduler.getJob(job.id)?.currentTask).toBe('> Task :app:preBuild');
+    expect(scheduler.getLogs(job.id)).toEqual(['> Task :app:preBuild']);
+
+    pipelines[0].complete(false);
+    await flush();
+
+    expect(scheduler.getJob(job.id)).toMatchObject({ status: 'failed', errorMessage: 'Gradle failed' });
+    expect(scheduler.getLogs(job.id)).toEqual(['> Task :app:preBuild']);
+    expect(scheduler.getDiagnostics(job.id)).toEqual([
+      { tool: 'gradle', severity: 'error', message: 'Gradle failed' },
+    ]);
+  });
+
+  it('should queue each matrix variant as its own build', async () => {
+    const keystore = { path: '/k.jks', password: 'p', alias: 'a', keyPassword: 'p' };
+    const scheduler = createScheduler(3);
+    const jobs = scheduler.enqueueMatrix(config('a', { keystore }), {
+      flavors: ['free', 'paid'],
+      buildTypes: ['debug', 'release'],
+      formats: ['apk', 'aab'],
+      abis: ['arm64-v8a'],
+    });
+
+    expect(jobs).toHaveLength(8);
+    expect(new Set(jobs.map((job) => job.matrixId)).size).toBe(1);
+    expect(jobs.map((job) => [job.flavor, job.buildType, job.format])).toContainEqual(['paid', 'release', 'aab']);
+    expect(store.get(jobs[0].id)).toMatchObject({ signed: false, config: { abis: ['arm64-v8a'] } });
+    expect(store.get(jobs[3].id)).toMatchObject({ signed: true, buildType: 'release', format: 'aab' });
+    expect(store.get(jobs[3].id)?.config).not.toHaveProperty('abis');
+
+    pipelines[0].complete();
+    pipelines[1].complete(false);
+    await flush();
+
+    expect(scheduler.getJob(jobs[0].id)?.status).toBe('success');
+    expect(scheduler.getJob(jobs[1].id)?.status).toBe('failed');
+    expect(scheduler.getArtifacts(jobs[0].id)).toEqual([
+      expect.objectContaining({ jobId: jobs[0].id, format: 'apk', path: '/out/a.apk', status: 'success' }),
+    ]);
+    expect(scheduler.getArtifacts('unknown')).toBeUndefined();
+  });
+
+  it('should compare task timings with earlier builds of the same template', () => {
+    const scheduler = createScheduler();
+    const durations = [20000, 22000, 21000, 45000];
+    const jobs = durations.map((duration, index) => {
+      const job = scheduler.enqueue(config(`app-${index}`, { cacheGroup: 'quiz' }));
+      store.update(job.id, {
+        status: 'success',
+        createdAt: new Date(2024, 4, index + 1),
+        profile: {
+          duration: duration + 2000,
+          configuration: 2000,
+          tasks: [{ path: ':app:compileDebugKotlin', start: 2000, duration, outcome: 'executed' }],
+        },
+      });
+      return job;
+    });
+    const other = scheduler.enqueue(config('other', { cacheGroup: 'arcade' }));
+
+    expect(scheduler.getPerformance(jobs[3].id)).toMatchObject({
+      regressions: [{ path: ':app:compileDebugKotlin', duration: 45000, baseline: 21000 }],
+      baselineBuilds: 3,
+    });
+    expect(scheduler.getPerformance(jobs[1].id)).toMatchObject({ regressions: [], baselineBuilds: 1 });
+    expect(scheduler.getPerformance(other.id)).toEqual({ profile: null, regressions: [], baselineBuilds: 0 });
+    expect(scheduler.getPerformance('missing')).toBeUndefined();
+  });
+
+  it('should re-queue interrupted builds on the next start', async () => {
+    const keystore = { path: '/k.jks', password: 'p', alias: 'a', keyPassword: 'p' };
+    const first = createScheduler();
+    const unsigned = first.enqueue(config('a'));
+    const signed = first.enqueue(config('b', { buildType: 'release', keystore }));
+
+    expect(store.get(signed.id)?.config).not.toHaveProperty('keystore');
+
+    first.shutdown();
+    await flush();
+    expect(store.get(unsigned.id)?.status).toBe('queued');
+
+    store.update(unsigned.id, { status: 'running' });
+    const second = createScheduler();
+
+    expect(second.initialize()).toBe(1);
+    expect(second.getJob(unsigned.id)?.status).toBe('running');
+    expect(second.getJob(signed.id)).toMatchObject({
+      status: 'failed',
+      errorMessage: 'Signing credentials are not kept across restarts; queue the build again',
+    });
+  });
+});
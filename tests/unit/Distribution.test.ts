@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for publishing apps with their build attestations
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { Distribution, type BuildAttestationSource } from '@main/services/distribution.service';
+import type { PublishConfig } from '@main/services/types';
+
+const CONFIG: PublishConfig = {
+  appId: 'app-1',
+  appName: 'Cat Memes',
+  appVersion: '1.0.0',
+  description: 'Memes',
+  releaseNotes: 'First release',
+  price: 0,
+  currency: 'USD',
+  category: 'entertainment',
+  tags: [],
+};
+
+describe('Distribution', () => {
+  let workDir: string;
+  let source: BuildAttestationSource & { getAttestation: ReturnType<typeof vi.fn> };
+  let distribution: Distribution;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'afz-distribution-'));
+    source = {
+      getAttestation: vi.fn((buildId: string, kind: string) => {
+        if (buildId !== 'build-1') {
+          return undefined;
+        }
+        return kind === 'provenance'
+          ? { payloadType: 'application/vnd.in-toto+json', payload: 'e30=', signatures: [] }
+          : null;
+      }),
+    };
+    distribution = new Distribution(source, workDir);
+    await distribution.authenticateChannel('gumroad', { accessToken: 'token' });
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  it('should write and attach the stored attestations of the published build', async () => {
+    const [result] = await distribution.publishApp({ ...CONFIG, buildId: 'build-1' }, ['gumroad']);
+
+    expect(result).toMatchObject({ success: true, attachments: ['app-1-build-1.intoto.json'] });
+    expect(source.getAttestation).toHaveBeenCalledWith('build-1', 'sbom');
+    expect(await fs.readJson(path.join(workDir, 'app-1-build-1.intoto.json'))).toMatchObject({ payload: 'e30=' });
+  });
+
+  it('should fail every channel when the build is unknown', async () => {
+    const results = await distribution.publishApp({ ...CONFIG, buildId: 'missing' }, ['gumroad', 'kofi']);
+
+    expect(results.map((result) => [result.channel, result.success, result.error])).toEqual([
+      ['gumroad', false, 'Build not found: missing'],
+      ['kofi', false, 'Build not found: missing'],
+    ]);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Unit Tests for GradleDiagnostics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseGradleOutput,
+  mapDiagnosticsToTemplate,
+  formatDiagnostic,
+} from '@main/services/GradleDiagnostics';
+import type { ProjectSourceMap } from '@main/services/ProjectSourceMap';
+
+const OUTPUT = `
+> Task :app:preBuild UP-TO-DATE
+> Task :app:processDebugMainManifest FAILED
+/p/app/src/main/AndroidManifest.xml:7:5-65 Error:
+\tuses-sdk:minSdkVersion 16 cannot be smaller than version 21
+\tSuggestion: use a compatible library with a minSdk of at most 16
+> Task :app:mergeDebugResources
+ERROR: /p/app/src/main/res/values/strings.xml:5:4: AAPT: error: resource string/missing not found.
+> Task :app:compileDebugKotlin
+e: file:///p/app/src/main/java/com/app/MainActivity.kt:12:5 Unresolved reference: foo
+w: /p/app/src/main/java/com/app/Util.kt: (3, 9): Parameter 'x' is never used
+e: file:///p/app/src/main/java/com/app/MainActivity.kt:12:5 Unresolved reference: foo
+> Task :app:compileDebugJavaWithJavac
+/p/app/src/main/java/com/app/Legacy.java:8: error: cannot find symbol
+> Task :app:mergeDexDebug
+ERROR: /p/app/build/classes.jar: D8: Type com.app.A is defined multiple times
+
+FAILURE: Build failed with an exception.
+
+* What went wrong:
+Execution failed for task ':app:compileDebugKotlin'.
+> Compilation error. See log for more details
+
+* Try:
+`;
+
+describe('GradleDiagnostics', () => {
+  describe('parseGradleOutput', () => {
+    it('should parse messages from each tool with their task', () => {
+      const diagnostics = parseGradleOutput(OUTPUT);
+
+      expect(diagnostics.map((d) => [d.tool, d.severity, d.task])).toEqual([
+        ['manifest-merger', 'error', ':app:processDebugMainManifest'],
+        ['aapt2', 'error', ':app:mergeDebugResources'],
+        ['kotlinc', 'error', ':app:compileDebugKotlin'],
+        ['kotlinc', 'warning', ':app:compileDebugKotlin'],
+        ['javac', 'error', ':app:compileDebugJavaWithJavac'],
+        ['d8', 'error', ':app:mergeDexDebug'],
+        ['gradle', 'error', ':app:compileDebugKotlin'],
+      ]);
+    });
+
+    it('should extract locations and messages', () => {
+      const [manifest, aapt, kotlin, legacyKotlin, javac, dex, gradle] = parseGradleOutput(OUTPUT);
+
+      expect(manifest).toMatchObject({
+        file: '/p/app/src/main/AndroidManifest.xml',
+        line: 7,
+        column: 5,
+        message: 'uses-sdk:minSdkVersion 16 cannot be smaller than version 21 ' +
+          'Suggestion: use a compatible library with a minSdk of at most 16',
+      });
+      expect(aapt).toMatchObject({
+        file: '/p/app/src/main/res/values/strings.xml',
+        line: 5,
+        column: 4,
+        message: 'resource string/missing not found.',
+      });
+      expect(kotlin).toMatchObject({
+        file: '/p/app/src/main/java/com/app/MainActivity.kt',
+        line: 12,
+        column: 5,
+        message: 'Unresolved reference: foo',
+      });
+      expect(legacyKotlin).toMatchObject({ file: '/p/app/src/main/java/com/app/Util.kt', line: 3, column: 9 });
+      expect(javac).toMatchObject({ line: 8, message: 'cannot find symbol' });
+      expect(dex).toMatchObject({ file: '/p/app/build/classes.jar', message: 'Type com.app.A is defined multiple times' });
+      expect(gradle.message).toBe(
+        "Execution failed for task ':app:compileDebugKotlin'. Compilation error. See log for more details"
+      );
+    });
+
+    it('should return nothing for a clean build', () => {
+      expect(parseGradleOutput('> Task :app:assembleDebug\n\nBUILD SUCCESSFUL in 3s\n')).toEqual([]);
+    });
+  });
+
+  describe('mapDiagnosticsToTemplate', () => {
+    const sourceMap: ProjectSourceMap = {
+      templateId: 'basic',
+      templateVersion: '1.0.0',
+      files: {
+        'app/src/main/java/com/app/MainActivity.kt': {
+          templateFile: 'src/app/src/main/java/com/template/MainActivity.kt',
+          source: '/templates/basic/src/app/src/main/java/com/template/MainActivity.kt',
+          morphPoints: [{ id: 'greeting', ranges: [{ start: 10, end: 12 }] }],
+        },
+      },
+    };
+
+    it('should attach the template file and morph point', () => {
+      const [, , kotlin, legacyKotlin] = mapDiagnosticsToTemplate(parseGradleOutput(OUTPUT), sourceMap, '/p');
+
+      expect(kotlin).toMatchObject({
+        templateFile: 'src/app/src/main/java/com/template/MainActivity.kt',
+        templateSource: '/templates/basic/src/app/src/main/java/com/template/MainActivity.kt',
+        morphPointId: 'greeting',
+      });
+      expect(legacyKotlin.templateFile).toBeUndefined();
+    });
+
+    it('should leave diagnostics unchanged without a source map', () => {
+      const diagnostics = parseGradleOutput(OUTPUT);
+      expect(mapDiagnosticsToTemplate(diagnostics, null, '/p')).toBe(diagnostics);
+    });
+  });
+
+  it('should format diagnostics with their location', () => {
+    expect(formatDiagnostic({ tool: 'javac', severity: 'error', file: '/A.java', line: 8, message: 'oops' }))
+      .toBe('/A.java:8: oops');
+    expect(formatDiagnostic({ tool: 'gradle', severity: 'error', message: 'failed' })).toBe('failed');
+  });
+});
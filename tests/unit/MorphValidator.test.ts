@@ -0,0 +1,151 @@
+/**
+ * Unit Tests for MorphValidator
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MorphValidator, readImageDimensions } from '@main/services/MorphValidator';
+
+describe('MorphValidator', () => {
+  const validator = new MorphValidator();
+  const tempFiles: string[] = [];
+
+  afterEach(() => {
+    for (const file of tempFiles.splice(0)) {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  /**
+   * Write a minimal PNG header with the given dimensions
+   */
+  function writePng(width: number, height: number): string {
+    const header = Buffer.alloc(24);
+    header.writeUInt32BE(0x89504e47, 0);
+    header.writeUInt32BE(0x0d0a1a0a, 4);
+    header.writeUInt32BE(13, 8);
+    header.write('IHDR', 12, 'ascii');
+    header.writeUInt32BE(width, 16);
+    header.writeUInt32BE(height, 20);
+
+    const file = path.join(os.tmpdir(), `morph-validator-${Date.now()}-${Math.random()}.png`);
+    fs.writeFileSync(file, header);
+    tempFiles.push(file);
+    return file;
+  }
+
+  describe('parseRules', () => {
+    it('should split type, target and message from rule params', () => {
+      const rules = MorphValidator.parseRules([
+        { type: 'string_length', target: 'app_name', max_length: 30, message: 'Too long' },
+      ]);
+
+      expect(rules).toEqual([
+        { type: 'string_length', target: 'app_name', message: 'Too long', params: { max_length: 30 } },
+      ]);
+    });
+  });
+
+  describe('validate', () => {
+    it('should enforce string_length bounds', () => {
+      const rules = MorphValidator.parseRules([
+        { type: 'string_length', target: 'app_name', max_length: 5 },
+      ]);
+
+      const errors = validator.validate(rules, { app_name: 'Too Long Name' });
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({ field: 'app_name', rule: 'string_length' });
+    });
+
+    it('should accept hex colors and reject malformed ones', () => {
+      const rules = MorphValidator.parseRules([
+        { type: 'color_format', target: 'primary_color', format: 'hex' },
+      ]);
+
+      expect(validator.validate(rules, { primary_color: '#6200EE' })).toHaveLength(0);
+      expect(validator.validate(rules, { primary_color: 'purple' })).toHaveLength(1);
+    });
+
+    it('should check enum, numeric_range, regex and package_name rules', () => {
+      const rules = MorphValidator.parseRules([
+        { type: 'enum', target: 'layout', values: ['grid', 'list'] },
+        { type: 'numeric_range', target: 'columns', min: 1, max: 4 },
+        { type: 'regex', target: 'slug', pattern: '^[a-z-]+$' },
+        { type: 'package_name', target: 'packageName' },
+      ]);
+
+      const errors = validator.validate(rules, {
+        layout: 'carousel',
+        columns: 6,
+        slug: 'Not A Slug',
+        packageName: 'Com.Bad',
+      });
+
+      expect(errors.map((e) => e.rule)).toEqual(['enum', 'numeric_range', 'regex', 'package_name']);
+    });
+
+    it('should skip empty values', () => {
+      const rules = MorphValidator.parseRules([
+        { type: 'color_format', target: 'primary_color' },
+      ]);
+
+      expect(validator.validate(rules, {})).toHaveLength(0);
+    });
+
+    it('should report unknown rule types', () => {
+      const rules = MorphValidator.parseRules([{ type: 'nonsense', target: 'app_name' }]);
+
+      const errors = validator.validate(rules, { app_name: 'x' });
+
+      expect(errors[0].message).toContain('Unknown validation rule type');
+    });
+
+    it('should report a regex rule with an invalid pattern or flags', () => {
+      const rules = MorphValidator.parseRules([
+        { type: 'regex', target: 'slug', pattern: '([a-z' },
+        { type: 'regex', target: 'name', pattern: '^[a-z]+$', flags: 'q' },
+      ]);
+
+      const errors = validator.validate(rules, { slug: 'cats', name: 'cats' });
+
+      expect(errors.map((e) => [e.field, e.rule])).toEqual([['slug', 'regex'], ['name', 'regex']]);
+      expect(errors[0].message).toContain('Regex rule has an invalid pattern');
+      expect(errors[1].message).toContain('Regex rule has an invalid pattern');
+    });
+
+    it('should use custom rule types once registered', () => {
+      const custom = new MorphValidator();
+      custom.registerRule('no_spaces', (value) =>
+        String(value).includes(' ') ? 'Must not contain spaces' : null
+      );
+      const rules = MorphValidator.parseRules([{ type: 'no_spaces', target: 'slug' }]);
+
+      expect(custom.validate(rules, { slug: 'a b' })[0].message).toBe('Must not contain spaces');
+    });
+
+    it('should check image dimensions from the file header', () => {
+      const image = writePng(512, 256);
+      const rules = MorphValidator.parseRules([
+        { type: 'image_dimensions', target: 'icon', width: 512, height: 512 },
+      ]);
+
+      const errors = validator.validate(rules, { icon: image });
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toContain('height');
+    });
+  });
+
+  describe('readImageDimensions', () => {
+    it('should read PNG dimensions', () => {
+      expect(readImageDimensions(writePng(1080, 1920))).toEqual({ width: 1080, height: 1920 });
+    });
+
+    it('should return null for missing files', () => {
+      expect(readImageDimensions('/nonexistent/image.png')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for MorphValues
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  convertUnit,
+  formatNumber,
+  formatList,
+  toList,
+  toBoolean,
+  applyBlockToggle,
+} from '@main/services/MorphValues';
+
+describe('MorphValues', () => {
+  describe('convertUnit', () => {
+    it('should convert within a dimension', () => {
+      expect(convertUnit(2, 's', 'ms')).toBe(2000);
+      expect(convertUnit(50, 'percent', 'fraction')).toBe(0.5);
+    });
+
+    it('should reject conversions across dimensions', () => {
+      expect(() => convertUnit(1, 's', 'mb')).toThrow('Cannot convert from s to mb');
+    });
+  });
+
+  describe('formatNumber', () => {
+    it('should add Android dimension suffixes', () => {
+      expect(formatNumber(16, 'dp')).toBe('16dp');
+    });
+
+    it('should convert to the output unit', () => {
+      expect(formatNumber(1.5, 'min', 'ms')).toBe('90000');
+    });
+  });
+
+  describe('formatList', () => {
+    it('should render Kotlin list literals with escaping', () => {
+      expect(formatList(['a', 'say "hi"', '$x'], 'kotlin')).toBe(
+        'listOf("a", "say \\"hi\\"", "\\$x")'
+      );
+    });
+
+    it('should render XML items', () => {
+      expect(formatList(['A & B', 'C'], 'xml')).toBe('<item>A &amp; B</item>\n<item>C</item>');
+    });
+  });
+
+  describe('toList and toBoolean', () => {
+    it('should split strings on commas and newlines', () => {
+      expect(toList('a, b\nc')).toEqual(['a', 'b', 'c']);
+      expect(toList(undefined)).toEqual([]);
+    });
+
+    it('should accept common boolean strings', () => {
+      expect(toBoolean('yes')).toBe(true);
+      expect(toBoolean('false')).toBe(false);
+      expect(toBoolean(0)).toBe(false);
+    });
+  });
+
+  describe('applyBlockToggle', () => {
+    const content = [
+      'before',
+      '// @morph:if ads',
+      'showAds()',
+      '// @morph:endif ads',
+      'after',
+    ].join('\n');
+
+    it('should keep the block body without markers when enabled', () => {
+      expect(applyBlockToggle(content, 'ads', true)).toBe('before\nshowAds()\nafter');
+    });
+
+    it('should drop the block when disabled', () => {
+      expect(applyBlockToggle(content, 'ads', false)).toBe('before\nafter');
+    });
+
+    it('should leave blocks for other ids alone', () => {
+      expect(applyBlockToggle(content, 'analytics', false)).toBe(content);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit Tests for build provenance and SBOM generation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AttestationInput,
+  DependencyReport,
+  ProvenanceSigner,
+  createSbom,
+  prepareDependencyReport,
+  readDependencyReport,
+  verifyProvenance,
+} from '@main/services/Provenance';
+
+const dependencies: DependencyReport = {
+  gradle: '8.5',
+  java: '17.0.9',
+  androidGradlePlugin: '8.2.0',
+  direct: ['androidx.core:core-ktx:1.12.0'],
+  components: [
+    {
+      group: 'androidx.core',
+      name: 'core-ktx',
+      version: '1.12.0',
+      dependencies: ['org.jetbrains.kotlin:kotlin-stdlib:1.9.10'],
+    },
+    { group: 'org.jetbrains.kotlin', name: 'kotlin-stdlib', version: '1.9.10', dependencies: [] },
+  ],
+};
+
+describe('Provenance', () => {
+  let workDir: string;
+  let apkPath: string;
+  let input: AttestationInput;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'afz-provenance-'));
+    apkPath = path.join(workDir, 'app-1-release.apk');
+    await fs.outputFile(apkPath, 'apk');
+
+    input = {
+      jobId: 'build-1',
+      appId: 'app-1',
+      buildType: 'release',
+      format: 'apk',
+      executor: 'local',
+      source: { templateId: 'quiz', templateVersion: '1.2.0', morphValues: { appName: 'Capitals Quiz' } },
+      artifacts: [{ format: 'apk', path: apkPath }],
+      dependencies,
+      startedAt: new Date('2024-05-01T10:00:00Z'),
+      finishedAt: new Date('2024-05-01T10:04:00Z'),
+    };
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  describe('ProvenanceSigner', () => {
+    it('should sign a statement about the artifacts that verifies with its public key', async () => {
+      const signer = await ProvenanceSigner.load(path.join(workDir, 'provenance-key.pem'));
+
+      const { provenance } = await signer.attest(input);
+      const statement = verifyProvenance(provenance, signer.publicKey);
+
+      expect(provenance.signatures[0].keyid).toBe(signer.keyId);
+      expect(statement.subject).toEqual([
+        { name: 'app-1-release.apk', digest: { sha256: createHash('sha256').update('apk').digest('hex') } },
+      ]);
+      expect(statement.predicate.buildDefinition.externalParameters).toMatchObject({
+        template: { id: 'quiz', version: '1.2.0' },
+        morphValues: { appName: 'Capitals Quiz' },
+        variant: { buildType: 'release', flavor: null, format: 'apk' },
+      });
+      expect(statement.predicate.buildDefinition.internalParameters).toMatchObject({
+        gradle: '8.5',
+        java: '17.0.9',
+        androidGradlePlugin: '8.2.0',
+      });
+      expect(statement.predicate.buildDefinition.resolvedDependencies).toContainEqual({
+        uri: 'pkg:maven/androidx.core/core-ktx@1.12.0',
+        name: 'androidx.core:core-ktx',
+      });
+      expect(statement.predicate.runDetails.metadata.invocationId).toBe('build-1');
+    });
+
+    it('should reuse its key and reject tampered statements', async () => {
+      const keyPath = path.join(workDir, 'provenance-key.pem');
+      const signer = await ProvenanceSigner.load(keyPath);
+      const reloaded = await ProvenanceSigner.load(keyPath);
+      const { provenance } = await signer.attest(input);
+
+      const statement = JSON.parse(Buffer.from(provenance.payload, 'base64').toString('utf-8'));
+      statement.predicate.buildDefinition.externalParameters.morphValues.appName = 'Other Quiz';
+      const tampered = { ...provenance, payload: Buffer.from(JSON.stringify(statement)).toString('base64') };
+
+      expect(reloaded.keyId).toBe(signer.keyId);
+      expect(() => verifyProvenance(tampered, signer.publicKey)).toThrow('signature does not match');
+    });
+  });
+
+  describe('createSbom', () => {
+    it('should list resolved components with purls and their dependency graph', () => {
+      const sbom = createSbom(input);
+
+      expect(sbom).toMatchObject({ bomFormat: 'CycloneDX', specVersion: '1.5' });
+      expect(sbom.components.map((component) => component.purl)).toEqual([
+        'pkg:maven/androidx.core/core-ktx@1.12.0',
+        'pkg:maven/org.jetbrains.kotlin/kotlin-stdlib@1.9.10',
+      ]);
+      expect(sbom.dependencies).toEqual([
+        { ref: 'app:app-1', dependsOn: ['pkg:maven/androidx.core/core-ktx@1.12.0'] },
+        {
+          ref: 'pkg:maven/androidx.core/core-ktx@1.12.0',
+          dependsOn: ['pkg:maven/org.jetbrains.kotlin/kotlin-stdlib@1.9.10'],
+        },
+        { ref: 'pkg:maven/org.jetbrains.kotlin/kotlin-stdlib@1.9.10', dependsOn: [] },
+      ]);
+    });
+  });
+
+  describe('dependency report', () => {
+    it('should add the init script and drop the report of an earlier build', async () => {
+      await fs.outputJson(path.join(workDir, 'build/appforge/dependencies.json'), dependencies);
+
+      const args = await prepareDependencyReport(workDir, { flavor: 'free', buildType: 'release' });
+
+      expect(args).toEqual([
+        'appforgeDependencies',
+        '--init-script',
+        '.appforge/dependencies.gradle',
+        '-PappforgeVariant=freeRelease',
+      ]);
+      expect(await fs.readFile(path.join(workDir, '.appforge/dependencies.gradle'), 'utf-8'))
+        .toContain("tasks.register('appforgeDependencies')");
+      expect(await readDependencyReport(workDir)).toBeNull();
+
+      await fs.outputJson(path.join(workDir, 'build/appforge/dependencies.json'), dependencies);
+      expect(await readDependencyReport(workDir)).toEqual(dependencies);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Unit Tests for the remote build executor and the in-process worker
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { RemoteExecutor } from '@main/services/RemoteExecutor';
+import { BuildWorker } from '@main/services/BuildWorker';
+import { ContainerExecutor } from '@main/services/BuildExecutor';
+import type { BuildExecutor, ExecutionRequest, OutputListener } from '@main/services/BuildExecutor';
+import { BuildPipeline } from '@main/services/BuildPipeline';
+
+/**
+ * Stands in for Gradle on the worker: logs a task and writes a debug APK
+ */
+class ScriptedExecutor implements BuildExecutor {
+  readonly name = 'scripted';
+  readonly usesHostToolchain = true;
+  readonly projects: string[][] = [];
+  exitCode = 0;
+  hang = false;
+
+  execute(request: ExecutionRequest, onOutput: OutputListener) {
+    let cancel = (): void => undefined;
+    const done = (async () => {
+      this.projects.push(await listFiles(request.projectPath));
+      onOutput('stdout', '> Task :app:assembleDebug\n');
+
+      if (this.hang) {
+        return new Promise<number | null>((resolve) => {
+          cancel = () => resolve(null);
+        });
+      }
+      if (this.exitCode !== 0) {
+        onOutput('stderr', 'e: MainActivity.kt: (3, 1): Unresolved reference: foo\n');
+        return this.exitCode;
+      }
+      await fs.outputFile(path.join(request.projectPath, 'app/build/outputs/apk/debug/app-debug.apk'), 'apk');
+      return 0;
+    })();
+    return { done, cancel: () => cancel() };
+  }
+}
+
+async function listFiles(root: string, relative = ''): Promise<string[]> {
+  const files: string[] = [];
+  for (const name of await fs.readdir(path.join(root, relative))) {
+    const entry = relative ? `${relative}/${name}` : name;
+    if ((await fs.stat(path.join(root, entry))).isDirectory()) {
+      files.push(...(await listFiles(root, entry)));
+    } else {
+      files.push(entry);
+    }
+  }
+  return files.sort();
+}
+
+const OUTPUTS = ['app/build/outputs/apk/debug'];
+
+describe('RemoteExecutor', () => {
+  let workDir: string;
+  let projectPath: string;
+  let scripted: ScriptedExecutor;
+  let worker: BuildWorker;
+  let url: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'afz-remote-'));
+    projectPath = path.join(workDir, 'project');
+    await fs.outputFile(path.join(projectPath, 'build.gradle'), '');
+    await fs.outputFile(path.join(projectPath, 'gradlew'), '#!/bin/sh');
+    await fs.outputFile(path.join(projectPath, 'local.properties'), 'sdk.dir=/home/me/Android');
+    await fs.outputFile(path.join(projectPath, 'app/build.gradle'), '');
+    await fs.outputFile(path.join(projectPath, 'app/src/main/java/build/Tool.kt'), '');
+    await fs.outputFile(path.join(projectPath, 'app/build/outputs/apk/debug/stale.apk'), 'old');
+
+    scripted = new ScriptedExecutor();
+    worker = new BuildWorker({ executor: scripted, token: 'secret', workDir: path.join(workDir, 'worker') });
+    url = await worker.start();
+  });
+
+  afterEach(async () => {
+    await worker.stop();
+    await fs.remove(workDir);
+  });
+
+  const request = (overrides: Partial<ExecutionRequest> = {}): ExecutionRequest => ({
+    projectPath,
+    args: ['assembleDebug'],
+    env: {},
+    outputs: OUTPUTS,
+    hostPaths: [],
+    ...overrides,
+  });
+
+  it('should build on the worker and copy the outputs back', async () => {
+    const output: string[] = [];
+    const execution = new RemoteExecutor({ url, token: 'secret' })
+      .execute(request(), (stream, text) => output.push(`${stream}:${text}`));
+
+    expect(await execution.done).toBe(0);
+    expect(output).toEqual(['stdout:> Task :app:assembleDebug\n']);
+    expect(scripted.projects[0]).toEqual([
+      'app/build.gradle',
+      'app/src/main/java/build/Tool.kt',
+      'build.gradle',
+      'gradlew',
+    ]);
+    expect(await listFiles(path.join(projectPath, OUTPUTS[0]))).toEqual(['app-debug.apk']);
+  });
+
+  it('should report a failed build without downloading outputs', async () => {
+    scripted.exitCode = 1;
+    const output: string[] = [];
+    const execution = new RemoteExecutor({ url, token: 'secret' })
+      .execute(request(), (_, text) => output.push(text));
+
+    expect(await execution.done).toBe(1);
+    expect(output[1]).toContain('Unresolved reference');
+    expect(await listFiles(path.join(projectPath, OUTPUTS[0]))).toEqual(['stale.apk']);
+  });
+
+  it('should resolve with null when cancelled', async () => {
+    scripted.hang = true;
+    const execution = new RemoteExecutor({ url, token: 'secret' })
+      .execute(request(), () => execution.cancel());
+
+    expect(await execution.done).toBeNull();
+  });
+
+  it('should refuse files outside the project', async () => {
+    const execution = new RemoteExecutor({ url, token: 'secret' })
+      .execute(request({ hostPaths: ['/keys/release.jks'] }), () => undefined);
+
+    await expect(execution.done).rejects.toThrow('Remote workers cannot read files outside the project');
+  });
+
+  it('should reject clients without the worker token', async () => {
+    const execution = new RemoteExecutor({ url }).execute(request(), () => undefined);
+
+    await expect(execution.done).rejects.toThrow('Build worker responded 401');
+  });
+
+  it('should run a pipeline build end to end', async () => {
+    const pipeline = new BuildPipeline({ remote: new RemoteExecutor({ url, token: 'secret' }) });
+
+    const result = await pipeline.build({
+      appId: 'app-1',
+      projectPath,
+      outputPath: path.join(workDir, 'out'),
+      buildType: 'debug',
+      executor: 'remote',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.apkPath).toBe(path.join(workDir, 'out', 'app-1-debug.apk'));
+    expect(await fs.readFile(result.apkPath!, 'utf-8')).toBe('apk');
+  });
+});
+
+describe('ContainerExecutor', () => {
+  it('should mount the project and host files and pass variables by name', () => {
+    const executor = new ContainerExecutor({ image: 'android-sdk:34', runtime: 'podman' });
+
+    expect(executor.runArgs('build-1', {
+      projectPath: '/projects/app',
+      args: ['assembleRelease'],
+      env: { APPFORGE_SIGNING_STORE_PASSWORD: 'secret' },
+      outputs: OUTPUTS,
+      hostPaths: ['/keys/release.jks'],
+    })).toEqual([
+      'run', '--rm', '--name', 'build-1',
+      '-v', '/projects/app:/workspace',
+      '-v', '/keys/release.jks:/keys/release.jks:ro',
+      '-e', 'APPFORGE_SIGNING_STORE_PASSWORD',
+      '-w', '/workspace',
+      'android-sdk:34',
+      './gradlew', 'assembleRelease',
+    ]);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Unit Tests for the signing vault and keystore helpers
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { SigningVault, seal, unseal } from '@main/services/SigningVault';
+import { describeCertificate, distinguishedName } from '@main/services/Keytool';
+import type { CertificateInfo, GenerateKeystoreOptions, KeystoreTool } from '@main/services/Keytool';
+import type { SigningIdentityStore, StoredSigningIdentity, VaultRecord } from '@main/services/SigningIdentityStore';
+
+const CERTIFICATE = path.join(__dirname, '../fixtures/signing/certificate.crt');
+
+class MemoryIdentityStore implements SigningIdentityStore {
+  vault: VaultRecord | undefined;
+  identities = new Map<string, StoredSigningIdentity>();
+  apps = new Map<string, string | null>([['app-1', null], ['app-2', null]]);
+
+  getVault(): VaultRecord | undefined {
+    return this.vault;
+  }
+
+  rekey(vault: VaultRecord, secrets: Map<string, string>): void {
+    this.vault = vault;
+    for (const [id, secret] of secrets) {
+      this.identities.get(id)!.secret = secret;
+    }
+  }
+
+  insert(identity: StoredSigningIdentity): void {
+    this.identities.set(identity.id, { ...identity });
+  }
+
+  get(id: string): StoredSigningIdentity | undefined {
+    const identity = this.identities.get(id);
+    return identity && { ...identity };
+  }
+
+  list(): StoredSigningIdentity[] {
+    return [...this.identities.values()].map((identity) => ({ ...identity }));
+  }
+
+  delete(id: string): void {
+    this.identities.delete(id);
+    for (const [appId, identityId] of this.apps) {
+      if (identityId === id) this.apps.set(appId, null);
+    }
+  }
+
+  assign(appId: string, identityId: string | null): boolean {
+    if (!this.apps.has(appId)) return false;
+    this.apps.set(appId, identityId);
+    return true;
+  }
+
+  identityForApp(appId: string): string | undefined {
+    return this.apps.get(appId) ?? undefined;
+  }
+
+  assignments(): Map<string, string[]> {
+    const assignments = new Map<string, string[]>();
+    for (const [appId, identityId] of this.apps) {
+      if (identityId) assignments.set(identityId, [...(assignments.get(identityId) ?? []), appId]);
+    }
+    return assignments;
+  }
+}
+
+/**
+ * Keystores are their own password, so certificate() can check it
+ */
+class FakeKeystoreTool implements KeystoreTool {
+  generated: GenerateKeystoreOptions[] = [];
+
+  async generate(options: GenerateKeystoreOptions): Promise<Buffer> {
+    this.generated.push(options);
+    return Buffer.from(options.password);
+  }
+
+  async certificate(keystore: Buffer, _alias: string, storePassword: string): Promise<CertificateInfo> {
+    if (keystore.toString() !== storePassword) {
+      throw new Error('keystore password was incorrect');
+    }
+    return { subject: 'CN=Jane Doe', sha1: 'AA:BB', sha256: 'CC:DD' };
+  }
+}
+
+const PASSPHRASE = 'correct horse';
+
+describe('seal', () => {
+  it('should round-trip data and reject other keys', () => {
+    const key = crypto.randomBytes(32);
+    const sealed = seal(key, Buffer.from('keystore'));
+
+    expect(unseal(key, sealed).toString()).toBe('keystore');
+    expect(() => unseal(crypto.randomBytes(32), sealed)).toThrow('Could not decrypt vault data');
+  });
+});
+
+describe('SigningVault', () => {
+  let store: MemoryIdentityStore;
+  let tool: FakeKeystoreTool;
+  let vault: SigningVault;
+
+  beforeEach(() => {
+    store = new MemoryIdentityStore();
+    tool = new FakeKeystoreTool();
+    vault = new SigningVault(store, tool);
+  });
+
+  const generate = () => vault.generate({ name: 'Upload', kind: 'upload', alias: 'upload', commonName: 'Jane Doe' });
+
+  it('should set the passphrase on first unlock', async () => {
+    expect(vault.getState()).toEqual({ initialized: false, unlocked: false });
+    await expect(vault.unlock('short')).rejects.toThrow('at least 8 characters');
+
+    expect(await vault.unlock(PASSPHRASE)).toEqual({ initialized: true, unlocked: true });
+    vault.lock();
+    await expect(vault.unlock('wrong passphrase')).rejects.toThrow('Incorrect passphrase');
+    expect(vault.getState().unlocked).toBe(false);
+  });
+
+  it('should generate identities sealed at rest', async () => {
+    await vault.unlock(PASSPHRASE);
+    const identity = await generate();
+
+    expect(identity).toMatchObject({ name: 'Upload', subject: 'CN=Jane Doe', sha1: 'AA:BB', appIds: [] });
+    expect(tool.generated[0]).toMatchObject({ distinguishedName: 'CN=Jane Doe', validityDays: 9125 });
+
+    const password = tool.generated[0].password;
+    expect(store.get(identity.id)!.secret).not.toContain(password);
+    expect(vault.credentials(identity.id)).toEqual({
+      data: Buffer.from(password),
+      password,
+      alias: 'upload',
+      keyPassword: password,
+    });
+  });
+
+  it('should list identities but not decrypt them while locked', async () => {
+    await vault.unlock(PASSPHRASE);
+    const identity = await generate();
+    vault.lock();
+
+    expect(vault.list().map((entry) => entry.id)).toEqual([identity.id]);
+    expect(() => vault.credentials(identity.id)).toThrow('Signing vault is locked');
+    await expect(generate()).rejects.toThrow('Signing vault is locked');
+  });
+
+  it('should import a keystore after checking its password', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'afz-signing-'));
+    const keystorePath = path.join(dir, 'release.jks');
+    await fs.writeFile(keystorePath, 'store-secret');
+    await vault.unlock(PASSPHRASE);
+
+    try {
+      const request = { name: 'Legacy', kind: 'release' as const, keystorePath, alias: 'key0', keyPassword: 'key-secret' };
+      await expect(vault.import({ ...request, storePassword: 'wrong' })).rejects.toThrow('password was incorrect');
+
+      const identity = await vault.import({ ...request, storePassword: 'store-secret' });
+      expect(vault.credentials(identity.id)).toMatchObject({ alias: 'key0', password: 'store-secret', keyPassword: 'key-secret' });
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+
+  it('should re-seal every identity under a new passphrase', async () => {
+    await vault.unlock(PASSPHRASE);
+    const identity = await generate();
+    const before = vault.credentials(identity.id);
+
+    await vault.changePassphrase(PASSPHRASE, 'battery staple');
+    vault.lock();
+
+    await expect(vault.unlock(PASSPHRASE)).rejects.toThrow('Incorrect passphrase');
+    await vault.unlock('battery staple');
+    expect(vault.credentials(identity.id)).toEqual(before);
+  });
+
+  it('should assign identities to apps', async () => {
+    await vault.unlock(PASSPHRASE);
+    const identity = await generate();
+
+    vault.assign('app-1', identity.id);
+    expect(vault.identityForApp('app-1')).toBe(identity.id);
+    expect(vault.list()[0].appIds).toEqual(['app-1']);
+
+    expect(() => vault.assign('app-9', identity.id)).toThrow('App with id app-9 not found');
+    expect(() => vault.assign('app-1', 'missing')).toThrow('Signing identity missing not found');
+
+    expect(vault.delete(identity.id)).toBe(true);
+    expect(vault.identityForApp('app-1')).toBeUndefined();
+  });
+});
+
+describe('Keytool helpers', () => {
+  it('should escape distinguished name values', () => {
+    expect(distinguishedName({ commonName: ' Doe, Jane ', organization: 'A+B "Apps"', countryCode: 'US' }))
+      .toBe('CN=Doe\\, Jane, O=A\\+B \\"Apps\\", C=US');
+  });
+
+  it('should describe a PEM certificate', async () => {
+    const info = describeCertificate(await fs.readFile(CERTIFICATE, 'utf-8'));
+
+    expect(info.subject).toBe('CN=Jane Doe, O=Example, C=US');
+    expect(info.sha1).toBe('E4:55:52:D5:17:9E:5D:98:AA:9D:9C:21:4B:F4:50:89:EC:BD:A7:88');
+    expect(info.sha256).toMatch(/^([0-9A-F]{2}:){31}[0-9A-F]{2}$/);
+    expect(info.validUntil).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit Tests for Substitution
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  escapeValue,
+  inferSubstitutionMode,
+  createMatcher,
+  substitute,
+} from '@main/services/Substitution';
+
+describe('Substitution', () => {
+  describe('inferSubstitutionMode', () => {
+    it('should pick a mode from the file extension', () => {
+      expect(inferSubstitutionMode('app/src/main/res/values/strings.xml')).toBe('xml');
+      expect(inferSubstitutionMode('app/Main.kt')).toBe('kotlin');
+      expect(inferSubstitutionMode('app/build.gradle.kts')).toBe('kotlin');
+      expect(inferSubstitutionMode('app/Main.java')).toBe('java');
+      expect(inferSubstitutionMode('assets/config.json')).toBe('json');
+      expect(inferSubstitutionMode('README.md')).toBe('literal');
+    });
+  });
+
+  describe('escapeValue', () => {
+    it('should escape Android string resources', () => {
+      expect(escapeValue(`Tom & Jerry's "Best" <3`, 'xml')).toBe(
+        "Tom &amp; Jerry\\'s \\&quot;Best\\&quot; &lt;3"
+      );
+      expect(escapeValue('@home', 'xml')).toBe('\\@home');
+    });
+
+    it('should escape Kotlin and JSON string contents', () => {
+      expect(escapeValue('Price $1 "now"\n', 'kotlin')).toBe('Price \\$1 \\"now\\"\\n');
+      expect(escapeValue('a "b" \\ c', 'json')).toBe('a \\"b\\" \\\\ c');
+    });
+
+    it('should leave dollar signs alone in Java strings', () => {
+      expect(escapeValue('Price $1 "now"\n', 'java')).toBe('Price $1 \\"now\\"\\n');
+    });
+
+    it('should leave literal and regex values untouched', () => {
+      expect(escapeValue('A & B', 'literal')).toBe('A & B');
+      expect(escapeValue('A & B', 'regex')).toBe('A & B');
+    });
+  });
+
+  describe('substitute', () => {
+    it('should match patterns literally outside regex mode', () => {
+      expect(substitute('v1.0 v1x0', 'v1.0', 'v2', 'literal')).toBe('v2 v1x0');
+      expect(createMatcher('f(x)', 'kotlin').test('f(x)')).toBe(true);
+    });
+
+    it('should match regular expressions in regex mode', () => {
+      expect(substitute('v1.0 v1x0', 'v1.0', 'v2', 'regex')).toBe('v2 v2');
+    });
+
+    it('should not expand replacement tokens in values', () => {
+      expect(substitute('{{PRICE}}', '{{PRICE}}', 'Costs $& or $1', 'literal')).toBe(
+        'Costs $& or $1'
+      );
+    });
+  });
+});
@@ -13,6 +13,7 @@ vi.mock('fs-extra', () => ({
   pathExists: vi.fn(),
   readFile: vi.fn(),
   writeFile: vi.fn(),
+  outputFile: vi.fn(),
   copy: vi.fn(),
   ensureDir: vi.fn(),
   move: vi.fn(),
@@ -22,6 +23,30 @@ vi.mock('fs-extra', () => ({
 
 describe('TemplateEngine', () => {
   const mockTemplatesDir = '/mock/templates';
+
+  /**
+   * Back the mocked fs-extra calls with an in-memory file map
+   */
+  function mockVirtualFs(files: Record<string, string>): void {
+    const isDir = (p: string) =>
+      Object.keys(files).some((file) => file.startsWith(`${p}/`));
+
+    vi.mocked(fs.readdir).mockImplementation((async (dir: string) => {
+      const children = new Set<string>();
+      for (const file of Object.keys(files)) {
+        if (file.startsWith(`${dir}/`)) {
+          children.add(file.slice(dir.length + 1).split('/')[0]);
+        }
+      }
+      return [...children];
+    }) as any);
+    vi.mocked(fs.stat).mockImplementation((async (p: string) => ({
+      isDirectory: () => isDir(p),
+    })) as any);
+    vi.mocked(fs.pathExists).mockImplementation((async (p: string) =>
+      p in files || isDir(p)) as any);
+    vi.mocked(fs.readFile).mockImplementation((async (p: string) => files[p]) as any);
+  }
   
   beforeEach(() => {
     vi.clearAllMocks();
@@ -166,5 +191,587 @@ morph_points: []
       
       expect(errors).toHaveLength(0);
     });
+
+    it('should apply validations declared in morph.yaml', async () => {
+      vi.mocked(fs.readdir).mockResolvedValue(['test-template'] as any);
+      vi.mocked(fs.stat).mockResolvedValue({ isDirectory: () => true } as any);
+      vi.mocked(fs.pathExists).mockResolvedValue(true);
+      vi.mocked(fs.readFile).mockResolvedValue(`
+id: test-template
+name: Test Template
+category: test
+morph_points:
+  - id: primary_color
+    type: color
+    path: res/values/colors.xml
+    pattern: "{{PRIMARY_COLOR}}"
+    required: false
+    default: "#6200EE"
+validations:
+  - type: string_length
+    target: appName
+    max_length: 10
+  - type: color_format
+    target: primary_color
+    format: hex
+`);
+
+      const { TemplateEngine } = await import('@main/services/TemplateEngine');
+      const engine = new TemplateEngine(mockTemplatesDir);
+      await engine.loadTemplates();
+      
+      const template = engine.getTemplate('test-template');
+      
+      const fieldErrors = engine.validateMorphFields(template!, {
+        appName: 'A Very Long App Name',
+        packageName: 'com.example.myapp',
+        versionName: '1.0.0',
+        versionCode: 1,
+        values: { primary_color: 'not-a-color' },
+      });
+      
+      expect(fieldErrors.map((e) => e.field)).toEqual(['appName', 'primary_color']);
+    });
+  });
+
+  describe('planInstantiation', () => {
+    const templateFiles: Record<string, string> = {
+      '/mock/templates/demo/morph.yaml': `
+id: demo
+name: Demo
+morph_points:
+  - id: primary_color
+    type: color
+    path: app/src/main/res/values/colors.xml
+    pattern: "{{PRIMARY_COLOR}}"
+    required: false
+    default: "#6200EE"
+`,
+      '/mock/templates/demo/src/app/src/main/res/values/colors.xml':
+        '<resources>\n  <color name="primary">{{PRIMARY_COLOR}}</color>\n</resources>',
+      '/mock/templates/demo/src/app/src/main/kotlin/com/template/app/MainActivity.kt':
+        'package {{PACKAGE_NAME}}\n\nclass MainActivity',
+    };
+
+    beforeEach(() => {
+      mockVirtualFs(templateFiles);
+    });
+
+    it('should report files, morph point ranges and diffs without writing', async () => {
+      const { TemplateEngine } = await import('@main/services/TemplateEngine');
+      const engine = new TemplateEngine(mockTemplatesDir);
+      await engine.loadTemplates();
+
+      const plan = await engine.planInstantiation('demo', {
+        appName: 'Demo App',
+        packageName: 'com.example.demo',
+        versionName: '1.0.0',
+        versionCode: 1,
+        values: { primary_color: '#FF0000' },
+      });
+
+      expect(plan.files.map((f) => f.path).sort()).toEqual([
+        'app/src/main/kotlin/com/example/demo/MainActivity.kt',
+        'app/src/main/res/values/colors.xml',
+      ]);
+      expect(plan.morphPoints).toEqual([
+        {
+          id: 'primary_color',
+          file: 'app/src/main/res/values/colors.xml',
+          matched: true,
+          ranges: [{ start: 2, end: 2 }],
+        },
+      ]);
+      expect(plan.moves).toEqual([
+        { from: 'app/src/main/kotlin/com/template/app', to: 'app/src/main/kotlin/com/example/demo' },
+      ]);
+
+      const kotlinDiff = plan.diffs.find((d) => d.newPath.endsWith('MainActivity.kt'));
+      expect(kotlinDiff?.oldPath).toBe('app/src/main/kotlin/com/template/app/MainActivity.kt');
+      expect(kotlinDiff?.diff).toContain('+package com.example.demo');
+
+      expect(fs.writeFile).not.toHaveBeenCalled();
+      expect(fs.copy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('typed morph points', () => {
+    it('should render list, boolean, number and asset-bundle values', async () => {
+      mockVirtualFs({
+        '/mock/templates/typed/morph.yaml': `
+id: typed
+name: Typed
+morph_points:
+  - id: categories
+    type: list
+    format: kotlin
+    path: app/Config.kt
+    pattern: "{{CATEGORIES}}"
+  - id: ads_enabled
+    type: boolean
+    path: app/Config.kt
+    files: [app/ads]
+  - id: slideshow_interval
+    type: number
+    unit: s
+    output_unit: ms
+    path: app/Config.kt
+    pattern: "{{INTERVAL}}"
+  - id: wallpapers
+    type: asset-bundle
+    resource_prefix: wallpaper
+    path: app/src/main/res/drawable
+    array_path: app/Config.kt
+    pattern: "{{WALLPAPERS}}"
+`,
+        '/mock/templates/typed/src/app/Config.kt': [
+          'val categories = {{CATEGORIES}}',
+          'val interval = {{INTERVAL}}',
+          'val wallpapers = {{WALLPAPERS}}',
+          '// @morph:if ads_enabled',
+          'val ads = AdsModule()',
+          '// @morph:endif ads_enabled',
+        ].join('\n'),
+        '/mock/templates/typed/src/app/ads/AdsModule.kt': 'class AdsModule',
+        '/assets/one.png': '',
+        '/assets/two.jpg': '',
+      });
+
+      const { TemplateEngine } = await import('@main/services/TemplateEngine');
+      const engine = new TemplateEngine(mockTemplatesDir);
+      await engine.loadTemplates();
+
+      const plan = await engine.planInstantiation('typed', {
+        appName: 'Typed App',
+        packageName: 'com.example.typed',
+        versionName: '1.0.0',
+        versionCode: 1,
+        values: {
+          categories: ['Nature', 'Space'],
+          ads_enabled: false,
+          slideshow_interval: 5,
+          wallpapers: ['/assets/one.png', '/assets/two.jpg'],
+        },
+      });
+
+      expect(plan.files.map((f) => f.path).sort()).toEqual([
+        'app/Config.kt',
+        'app/src/main/res/drawable/wallpaper_1.png',
+        'app/src/main/res/drawable/wallpaper_2.jpg',
+      ]);
+
+      const configDiff = plan.diffs.find((d) => d.newPath === 'app/Config.kt')?.diff;
+      expect(configDiff).toContain('+val categories = listOf("Nature", "Space")');
+      expect(configDiff).toContain('+val interval = 5000');
+      expect(configDiff).toContain(
+        '+val wallpapers = intArrayOf(R.drawable.wallpaper_1, R.drawable.wallpaper_2)'
+      );
+      expect(configDiff).toContain('-val ads = AdsModule()');
+    });
+
+    it('should accept false and 0 for required points', async () => {
+      const { TemplateEngine } = await import('@main/services/TemplateEngine');
+      const engine = new TemplateEngine(mockTemplatesDir);
+      const template = {
+        morphPoints: [
+          { id: 'ads_enabled', label: 'Ads', type: 'boolean', path: 'a', pattern: '', required: true },
+          { id: 'columns', label: 'Columns', type: 'number', path: 'a', pattern: '', required: true },
+        ],
+        validations: [],
+      } as any;
+
+      const errors = engine.validateMorphConfig(template, {
+        appName: 'App',
+        packageName: 'com.example.app',
+        versionName: '1.0.0',
+        versionCode: 1,
+        values: { ads_enabled: false, columns: 0 },
+      });
+
+      expect(errors).toEqual([]);
+    });
+  });
+
+  describe('substitution modes', () => {
+    it('should escape values for the target file and match patterns literally', async () => {
+      mockVirtualFs({
+        '/mock/templates/escaped/morph.yaml': `
+id: escaped
+name: Escaped
+morph_points:
+  - id: tagline
+    type: string
+    path: app/res/values/strings.xml
+    pattern: "{{TAGLINE}}"
+  - id: greeting
+    type: text
+    path: app/Config.kt
+    pattern: "greeting(...)"
+  - id: label_regex
+    type: text
+    mode: regex
+    path: app/Config.kt
+    pattern: "LABEL_[0-9]+"
+`,
+        '/mock/templates/escaped/src/app/res/values/strings.xml':
+          '<string name="app_name">{{APP_NAME}}</string>\n<string name="tagline">{{TAGLINE}}</string>',
+        '/mock/templates/escaped/src/app/Config.kt':
+          'val name = "{{APP_NAME}}"\nval greeting = "greeting(...)"\nval label = "LABEL_42"',
+      });
+
+      const { TemplateEngine } = await import('@main/services/TemplateEngine');
+      const engine = new TemplateEngine(mockTemplatesDir);
+      await engine.loadTemplates();
+
+      const plan = await engine.planInstantiation('escaped', {
+        appName: `Tom & Jerry's "Best"`,
+        packageName: 'com.example.escaped',
+        versionName: '1.0.0',
+        versionCode: 1,
+        values: { tagline: 'Price $1 & up', greeting: 'Say "$&"', label_regex: 'Label' },
+      });
+
+      const stringsDiff = plan.diffs.find((d) => d.newPath.endsWith('strings.xml'))?.diff;
+      expect(stringsDiff).toContain(
+        `+<string name="app_name">Tom &amp; Jerry\\'s \\&quot;Best\\&quot;</string>`
+      );
+      expect(stringsDiff).toContain('+<string name="tagline">Price $1 &amp; up</string>');
+
+      const configDiff = plan.diffs.find((d) => d.newPath === 'app/Config.kt')?.diff;
+      expect(configDiff).toContain('+val name = "Tom & Jerry\'s \\"Best\\""');
+      expect(configDiff).toContain('+val greeting = "Say \\"\\$&\\""');
+      expect(configDiff).toContain('+val label = "Label"');
+    });
+  });
+
+  describe('file rules', () => {
+    it('should include conditional files and repeat files per list item', async () => {
+      mockVirtualFs({
+        '/mock/templates/quiz/morph.yaml': `
+id: quiz
+name: Quiz
+morph_points:
+  - id: categories
+    type: list
+    path: app/Quiz.kt
+    required: false
+  - id: features.favorites
+    type: boolean
+    path: app/Quiz.kt
+    required: false
+files:
+  - path: app/favorites
+    when: features.favorites
+  - path: app/Legacy.kt
+    when: "!features.favorites"
+  - path: app/CategoryScreen.kt
+    each: categories
+    as: category
+    to: "app/screens/{{pascalCase category}}Screen.kt"
+`,
+        '/mock/templates/quiz/src/app/Quiz.kt': 'object Quiz',
+        '/mock/templates/quiz/src/app/Legacy.kt': 'object Legacy',
+        '/mock/templates/quiz/src/app/favorites/Favorites.kt': 'object Favorites',
+        '/mock/templates/quiz/src/app/CategoryScreen.kt':
+          'package {{PACKAGE_NAME}}\n\nclass {{pascalCase category}}Screen(val index: Int = {{index}})',
+      });
+
+      const { TemplateEngine } = await import('@main/services/TemplateEngine');
+      const engine = new TemplateEngine(mockTemplatesDir);
+      await engine.loadTemplates();
+
+      const plan = await engine.planInstantiation('quiz', {
+        appName: 'Quiz App',
+        packageName: 'com.example.quiz',
+        versionName: '1.0.0',
+        versionCode: 1,
+        values: { categories: ['world history', 'science'], 'features.favorites': true },
+      });
+
+      expect(plan.files.map((f) => f.path).sort()).toEqual([
+        'app/Quiz.kt',
+        'app/favorites/Favorites.kt',
+        'app/screens/ScienceScreen.kt',
+        'app/screens/WorldHistoryScreen.kt',
+      ]);
+
+      await engine.instantiate('quiz', {
+        appName: 'Quiz App',
+        packageName: 'com.example.quiz',
+        versionName: '1.0.0',
+        versionCode: 1,
+        values: { categories: ['science'], 'features.favorites': false },
+      }, '/mock/output');
+
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join('/mock/output', 'app/screens/ScienceScreen.kt'),
+        'package com.example.quiz\n\nclass ScienceScreen(val index: Int = 0)',
+        'utf-8'
+      );
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join('/mock/output', 'app/Legacy.kt'),
+        'object Legacy',
+        'utf-8'
+      );
+
+      const [mapPath, mapContent] = vi.mocked(fs.outputFile).mock.calls[0] as unknown as [string, string];
+      expect(mapPath).toBe(path.join('/mock/output', '.appforge', 'source-map.json'));
+      expect(JSON.parse(mapContent).files['app/screens/ScienceScreen.kt']).toMatchObject({
+        templateFile: 'src/app/CategoryScreen.kt',
+        source: '/mock/templates/quiz/src/app/CategoryScreen.kt',
+      });
+      expect(fs.writeFile).not.toHaveBeenCalledWith(
+        path.join('/mock/output', 'app/favorites/Favorites.kt'),
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('should apply morph points to every copy of a repeated file', async () => {
+      mockVirtualFs({
+        '/mock/templates/themed/morph.yaml': `
+id: themed
+name: Themed
+morph_points:
+  - id: categories
+    type: list
+    path: app/Quiz.kt
+    required: false
+  - id: accent
+    type: color
+    path: app/CategoryScreen.kt
+    pattern: "{{ACCENT}}"
+files:
+  - path: app/CategoryScreen.kt
+    each: categories
+    as: category
+    to: "app/screens/{{pascalCase category}}Screen.kt"
+`,
+        '/mock/templates/themed/src/app/Quiz.kt': 'object Quiz',
+        '/mock/templates/themed/src/app/CategoryScreen.kt':
+          'class {{pascalCase category}}Screen {\n  val c = "{{ACCENT}}"\n  val title = "{{category}}{{#if MISSING}}!{{/if}}"\n}',
+      });
+
+      const { TemplateEngine } = await import('@main/services/TemplateEngine');
+      const engine = new TemplateEngine(mockTemplatesDir);
+      await engine.loadTemplates();
+
+      const plan = await engine.planInstantiation('themed', {
+        appName: 'Themed',
+        packageName: 'com.example.themed',
+        versionName: '1.0.0',
+        versionCode: 1,
+        values: { categories: ['art', 'science'], accent: '#FF5722' },
+      });
+
+      expect(plan.morphPoints.filter((point) => point.id === 'accent')).toEqual([
+        { id: 'accent', file: 'app/screens/ArtScreen.kt', matched: true, ranges: [{ start: 2, end: 2 }] },
+        { id: 'accent', file: 'app/screens/ScienceScreen.kt', matched: true, ranges: [{ start: 2, end: 2 }] },
+      ]);
+
+      await engine.instantiate('themed', {
+        appName: 'Themed',
+        packageName: 'com.example.themed',
+        versionName: '1.0.0',
+        versionCode: 1,
+        values: { categories: ['art'], accent: '#FF5722' },
+      }, '/mock/output');
+
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join('/mock/output', 'app/screens/ArtScreen.kt'),
+        'class ArtScreen {\n  val c = "#FF5722"\n  val title = "art"\n}',
+        'utf-8'
+      );
+    });
+  });
+
+  describe('template versions', () => {
+    beforeEach(() => {
+      mockVirtualFs({
+        '/mock/templates/gallery/morph.yaml': `
+id: gallery
+name: Gallery
+version: 1.0.0
+morph_points:
+  - id: primary_colour
+    type: color
+    path: app/colors.xml
+    pattern: "{{COLOR}}"
+  - id: banner_text
+    type: string
+    path: app/strings.xml
+    pattern: "{{BANNER}}"
+    required: false
+`,
+        '/mock/templates/gallery@2.0.0/morph.yaml': `
+id: gallery
+name: Gallery
+version: 2.0.0
+morph_points:
+  - id: primary_color
+    type: color
+    path: app/colors.xml
+    pattern: "{{COLOR}}"
+  - id: columns
+    type: number
+    path: app/Config.kt
+    pattern: "{{COLUMNS}}"
+  - id: icon
+    type: image
+    path: app/icon.png
+    pattern: ""
+migrations:
+  - version: 2.0.0
+    renamed: { primary_colour: primary_color }
+    removed: [banner_text]
+    defaults: { columns: 3 }
+`,
+      });
+    });
+
+    it('should keep installed versions side by side', async () => {
+      const { TemplateEngine } = await import('@main/services/TemplateEngine');
+      const engine = new TemplateEngine(mockTemplatesDir);
+      await engine.loadTemplates();
+
+      expect(engine.listTemplates()).toHaveLength(1);
+      expect(engine.getTemplate('gallery')?.version).toBe('2.0.0');
+      expect(engine.getTemplate('gallery@1.0.0')?.morphPoints[0].id).toBe('primary_colour');
+      expect(engine.listTemplateVersions('gallery')).toEqual(['1.0.0', '2.0.0']);
+    });
+
+    it('should plan value migrations between versions', async () => {
+      const { TemplateEngine } = await import('@main/services/TemplateEngine');
+      const engine = new TemplateEngine(mockTemplatesDir);
+      await engine.loadTemplates();
+
+      const plan = engine.planMigration('gallery', '1.0.0', [
+        { key: 'primary_colour', value: '#FF0000' },
+        { key: 'banner_text', value: 'Hello' },
+        { key: 'stale', value: 'x' },
+      ]);
+
+      expect(plan.toVersion).toBe('2.0.0');
+      expect(plan.steps).toEqual(['2.0.0']);
+      expect(plan.morphValues).toEqual([
+        { key: 'primary_color', value: '#FF0000' },
+        { key: 'columns', value: 3 },
+      ]);
+      expect(plan.changes.map((change) => `${change.kind}:${change.key}`)).toEqual([
+        'renamed:primary_color',
+        'removed:banner_text',
+        'defaulted:columns',
+        'orphaned:stale',
+      ]);
+      expect(plan.missingRequired).toEqual(['icon']);
+      expect(() => engine.planMigration('gallery', '3.0.0', [])).toThrow('Cannot migrate');
+    });
+  });
+
+  describe('template inheritance', () => {
+    const config = {
+      appName: 'Child App',
+      packageName: 'com.example.child',
+      versionName: '1.0.0',
+      versionCode: 1,
+      values: { app_name: 'Child App' },
+    };
+
+    it('should merge base template, partials and child overrides', async () => {
+      mockVirtualFs({
+        '/mock/templates/base/morph.yaml': `
+id: base
+name: Base
+abstract: true
+tags: [android]
+min_sdk_version: 24
+morph_points:
+  - id: app_name
+    type: string
+    path: app/strings.xml
+    pattern: "{{APP_NAME}}"
+  - id: primary_color
+    type: color
+    path: app/colors.xml
+    pattern: "{{PRIMARY_COLOR}}"
+    required: false
+    default: "#000000"
+`,
+        '/mock/templates/base/src/build.gradle.kts': 'base build',
+        '/mock/templates/base/src/app/colors.xml': '<color>{{PRIMARY_COLOR}}</color>',
+        '/mock/templates/_partials/strings/partial.yaml': `
+morph_points:
+  - id: tagline
+    type: string
+    path: app/strings.xml
+    pattern: "{{TAGLINE}}"
+    required: false
+    default: "Hello"
+`,
+        '/mock/templates/_partials/strings/src/app/strings.xml': '{{APP_NAME}} {{TAGLINE}}',
+        '/mock/templates/child/morph.yaml': `
+id: child
+name: Child
+extends: base
+partials: [strings]
+tags: [wallpaper]
+morph_points:
+  - id: primary_color
+    type: color
+    path: app/colors.xml
+    pattern: "{{PRIMARY_COLOR}}"
+    required: false
+    default: "#FFFFFF"
+`,
+        '/mock/templates/child/src/build.gradle.kts': 'child build',
+      });
+
+      const { TemplateEngine } = await import('@main/services/TemplateEngine');
+      const engine = new TemplateEngine(mockTemplatesDir);
+      await engine.loadTemplates();
+
+      expect(engine.listTemplates().map((t) => t.id)).toEqual(['child']);
+
+      const child = engine.getTemplate('child')!;
+      expect(child.morphPoints.map((p) => p.id)).toEqual(['app_name', 'primary_color', 'tagline']);
+      expect(child.morphPoints.find((p) => p.id === 'primary_color')?.default).toBe('#FFFFFF');
+      expect(child.tags).toEqual(['android', 'wallpaper']);
+      expect(child.minSdkVersion).toBe(24);
+
+      const plan = await engine.planInstantiation('child', config);
+      const diffFor = (file: string) => plan.diffs.find((d) => d.newPath === file)?.diff;
+
+      expect(plan.files.map((f) => f.path).sort()).toEqual([
+        'app/colors.xml',
+        'app/strings.xml',
+        'build.gradle.kts',
+      ]);
+      expect(plan.files.find((f) => f.path === 'build.gradle.kts')?.source)
+        .toBe('/mock/templates/child/src/build.gradle.kts');
+      expect(diffFor('app/colors.xml')).toContain('+<color>#FFFFFF</color>');
+      expect(diffFor('app/strings.xml')).toContain('+Child App Hello');
+    });
+
+    it('should report cycles and missing bases as load errors', async () => {
+      mockVirtualFs({
+        '/mock/templates/a/morph.yaml': 'id: a\nname: A\nextends: b',
+        '/mock/templates/b/morph.yaml': 'id: b\nname: B\nextends: a',
+        '/mock/templates/orphan/morph.yaml': 'id: orphan\nname: Orphan\nextends: missing',
+      });
+
+      const { TemplateEngine } = await import('@main/services/TemplateEngine');
+      const engine = new TemplateEngine(mockTemplatesDir);
+      const errors: Error[] = [];
+      engine.on('error', (event) => errors.push(event.error));
+
+      await engine.loadTemplates();
+
+      expect(engine.listTemplates()).toHaveLength(0);
+      expect(errors.map((e) => e.message)).toEqual([
+        'Template inheritance cycle: a -> b -> a',
+        'Template inheritance cycle: b -> a -> b',
+        'Base template not found: missing (extended by orphan)',
+      ]);
+    });
   });
 });
@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for TemplateLinter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { lintTemplateSource, TemplateLintInput } from '@main/services/TemplateLinter';
+
+describe('TemplateLinter', () => {
+  /**
+   * Build linter input with a clean default template
+   */
+  function input(overrides: Partial<TemplateLintInput> = {}): TemplateLintInput {
+    return {
+      morphYaml: `id: demo
+name: Demo
+preview_image: preview.png
+min_sdk_version: 24
+target_sdk_version: 34
+morph_points:
+  - id: primary_color
+    type: color
+    path: app/colors.xml
+    pattern: "{{PRIMARY_COLOR}}"
+`,
+      files: new Map([
+        ['app/colors.xml', '<color>{{PRIMARY_COLOR}}</color>'],
+        ['app/Main.kt', 'package {{PACKAGE_NAME}}'],
+      ]),
+      inheritedPoints: [],
+      previewExists: true,
+      isKnownRule: () => true,
+      ...overrides,
+    };
+  }
+
+  it('should report nothing for a clean template', () => {
+    expect(lintTemplateSource(input())).toEqual([]);
+  });
+
+  it('should report schema errors with line numbers', () => {
+    const diagnostics = lintTemplateSource(input({
+      morphYaml: `id: demo
+name: Demo
+preview_image: preview.png
+colour: red
+min_sdk_version: "24"
+morph_points:
+  - id: primary_color
+    type: colour
+    path: app/colors.xml
+`,
+    }));
+
+    expect(diagnostics).toEqual(expect.arrayContaining([
+      expect.objectContaining({ line: 4, severity: 'warning', message: 'Unknown field "colour"' }),
+      expect.objectContaining({ line: 5, severity: 'error', message: '"min_sdk_version" must be an integer' }),
+      expect.objectContaining({ line: 8, severity: 'error', message: 'Unknown morph point type "colour"' }),
+    ]));
+  });
+
+  it('should flag missing targets and patterns that never occur', () => {
+    const diagnostics = lintTemplateSource(input({
+      morphYaml: `name: Demo
+preview_image: preview.png
+morph_points:
+  - id: primary_color
+    path: app/colors.xml
+    pattern: "{{ACCENT}}"
+  - id: title
+    path: app/missing.xml
+    pattern: "{{TITLE}}"
+`,
+    }));
+
+    expect(diagnostics.map((d) => [d.rule, d.line])).toEqual([
+      ['unmatched-pattern', 6],
+      ['missing-target', 8],
+      ['uncovered-placeholder', 1],
+    ]);
+    expect(diagnostics[2]).toMatchObject({ file: 'src/app/colors.xml', message: expect.stringContaining('{{PRIMARY_COLOR}}') });
+  });
+
+  it('should count inherited morph points as covering placeholders', () => {
+    const files = new Map([['app/strings.xml', '{{TAGLINE}}']]);
+    const inheritedPoints = [
+      { id: 'tagline', label: 'Tagline', type: 'string' as const, path: 'app/strings.xml', pattern: '{{TAGLINE}}', required: false },
+    ];
+
+    expect(lintTemplateSource(input({ files, morphYaml: 'name: Demo\npreview_image: p.png\n', inheritedPoints }))).toEqual([]);
+  });
+
+  it('should check SDK versions and the preview image', () => {
+    const diagnostics = lintTemplateSource(input({
+      morphYaml: 'name: Demo\nmin_sdk_version: 30\ntarget_sdk_version: 28\n',
+      files: new Map(),
+      previewExists: null,
+    }));
+
+    expect(diagnostics.map((d) => `${d.severity}:${d.rule}:${d.line}`)).toEqual([
+      'warning:missing-preview:1',
+      'error:sdk-version:2',
+      'warning:sdk-version:3',
+    ]);
+  });
+
+  it('should report YAML syntax errors', () => {
+    const diagnostics = lintTemplateSource(input({ morphYaml: 'name: Demo\nmorph_points: [\n' }));
+
+    expect(diagnostics[0]).toMatchObject({ severity: 'error', rule: 'yaml-syntax' });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Unit Tests for .afz template packages
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { createPackage, openPackage, isSafeEntryPath } from '@main/services/TemplatePackage';
+import { readZip, writeZip } from '@main/services/ZipArchive';
+import { TemplateEngine } from '@main/services/TemplateEngine';
+
+const MORPH_YAML = `
+id: demo
+name: Demo
+version: 1.0.0
+author: Tester
+morph_points:
+  - id: app_name
+    type: string
+    path: app/strings.xml
+    pattern: "{{APP_NAME}}"
+`;
+
+describe('TemplatePackage', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'afz-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  const metadata = { id: 'demo', name: 'Demo', version: '1.0.0', author: 'Tester' };
+  const files = [
+    { name: 'morph.yaml', data: Buffer.from(MORPH_YAML) },
+    { name: 'src/app/strings.xml', data: Buffer.from('<string>{{APP_NAME}}</string>') },
+  ];
+
+  describe('ZipArchive', () => {
+    it('should round-trip stored and deflated entries', () => {
+      const entries = [
+        { name: 'small.txt', data: Buffer.from('x') },
+        { name: 'dir/large.txt', data: Buffer.from('repeat '.repeat(500)) },
+      ];
+
+      const read = readZip(writeZip(entries));
+
+      expect(read.map(({ name, data }) => ({ name, data }))).toEqual(entries);
+      expect(read.map((entry) => entry.compressedSize)).toEqual([1, expect.any(Number)]);
+      expect(read[1].compressedSize).toBeLessThan(entries[1].data.length);
+    });
+
+    it('should reject corrupted data', () => {
+      const archive = writeZip([{ name: 'a.txt', data: Buffer.from('hello') }]);
+      archive[archive.indexOf('hello')] = 0x4a;
+
+      expect(() => readZip(archive)).toThrow('Checksum mismatch for a.txt');
+    });
+  });
+
+  describe('openPackage', () => {
+    it('should verify manifest hashes', () => {
+      const pkg = openPackage(createPackage(metadata, files));
+
+      expect(pkg.manifest.id).toBe('demo');
+      expect([...pkg.files.keys()]).toEqual(['morph.yaml', 'src/app/strings.xml']);
+      expect(pkg.signedBy).toBeNull();
+    });
+
+    it('should reject path traversal entries', () => {
+      const archive = writeZip([
+        ...readZip(createPackage(metadata, files)),
+        { name: '../../evil.sh', data: Buffer.from('rm -rf /') },
+      ]);
+
+      expect(() => openPackage(archive)).toThrow('Unsafe path in package: ../../evil.sh');
+      expect(isSafeEntryPath('src/../../x')).toBe(false);
+      expect(isSafeEntryPath('/etc/passwd')).toBe(false);
+      expect(isSafeEntryPath('C:/x')).toBe(false);
+      expect(isSafeEntryPath('src/app/Main.kt')).toBe(true);
+    });
+
+    it('should reject versions that are not safe directory names', () => {
+      const escaped = createPackage({ ...metadata, version: '2/../../escaped' }, files);
+
+      expect(() => openPackage(escaped)).toThrow(
+        'Invalid template version in manifest: 2/../../escaped'
+      );
+      expect(() => openPackage(createPackage({ ...metadata, version: '1..0' }, files))).toThrow(
+        'Invalid template version in manifest: 1..0'
+      );
+      const beta = openPackage(createPackage({ ...metadata, version: '2.0.0-beta.1' }, files));
+      expect(beta.manifest.version).toBe('2.0.0-beta.1');
+    });
+
+    it('should reject files that do not match the manifest', () => {
+      const archive = writeZip(
+        readZip(createPackage(metadata, files)).map((entry) =>
+          entry.name === 'morph.yaml' ? { ...entry, data: Buffer.from('id: other') } : entry
+        )
+      );
+
+      expect(() => openPackage(archive)).toThrow('Hash mismatch for morph.yaml');
+    });
+
+    it('should verify Ed25519 signatures against trusted publishers', () => {
+      const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+      const trusted = [
+        { id: 'acme', publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString() },
+      ];
+      const signed = createPackage(metadata, files, {
+        publisher: 'acme',
+        privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+      });
+
+      expect(openPackage(signed, { trustedPublishers: trusted }).signedBy).toBe('acme');
+      expect(openPackage(signed).signedBy).toBeNull();
+      expect(() => openPackage(signed, { requireSignature: true })).toThrow(
+        'untrusted publisher: acme'
+      );
+      expect(() =>
+        openPackage(createPackage(metadata, files), { requireSignature: true })
+      ).toThrow('Package is not signed');
+
+      const other = crypto.generateKeyPairSync('ed25519').publicKey;
+      const impostor = [
+        { id: 'acme', publicKey: other.export({ type: 'spki', format: 'pem' }).toString() },
+      ];
+      expect(() => openPackage(signed, { trustedPublishers: impostor })).toThrow(
+        'Invalid signature from publisher: acme'
+      );
+    });
+  });
+
+  describe('TemplateEngine export/import', () => {
+    it('should export a template and install it elsewhere', async () => {
+      const sourceDir = path.join(workDir, 'source');
+      const targetDir = path.join(workDir, 'target');
+      await fs.outputFile(path.join(sourceDir, 'demo', 'morph.yaml'), MORPH_YAML);
+      await fs.outputFile(path.join(sourceDir, 'demo', 'src', 'app', 'strings.xml'), '<string/>');
+      await fs.outputFile(path.join(sourceDir, 'demo', 'assets', 'icon.png'), Buffer.from([1, 2, 3]));
+      await fs.ensureDir(targetDir);
+
+      const source = new TemplateEngine(sourceDir);
+      await source.loadTemplates();
+      const packagePath = await source.exportTemplate('demo', path.join(workDir, 'demo.afz'));
+
+      const target = new TemplateEngine(targetDir);
+      await target.loadTemplates();
+      const { template, signedBy } = await target.importTemplate(packagePath);
+
+      expect(template.id).toBe('demo');
+      expect(signedBy).toBeNull();
+      expect(await fs.readFile(path.join(targetDir, 'demo', 'assets', 'icon.png'))).toEqual(
+        Buffer.from([1, 2, 3])
+      );
+      expect(await fs.readdir(targetDir)).toEqual(['demo']);
+
+      await expect(target.importTemplate(packagePath)).rejects.toThrow(
+        'Template demo@1.0.0 is already installed'
+      );
+      await expect(target.importTemplate(packagePath, { overwrite: true })).resolves.toMatchObject({
+        template: { id: 'demo' },
+      });
+    });
+  });
+});
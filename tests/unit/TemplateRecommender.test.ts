@@ -0,0 +1,114 @@
+/**
+ * Unit Tests for trend to template recommendations
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  TemplateRecommender,
+  prefillMorphValues,
+  trendAppName,
+  trendColors,
+  trendPackageName,
+  type RecommendableTemplate,
+} from '@main/services/TemplateRecommender';
+import type { TemplateTrendSales } from '@main/services/TemplateSalesStore';
+import type { MorphPoint } from '@shared/types';
+
+const TEMPLATES: RecommendableTemplate[] = [
+  {
+    id: 'wallpaper-pack',
+    name: 'Wallpaper Pack',
+    description: 'A customizable wallpaper collection app with grid gallery and set wallpaper functionality',
+    category: 'personalization',
+    tags: ['wallpaper', 'personalization', 'gallery'],
+  },
+  {
+    id: 'soundboard',
+    name: 'Soundboard',
+    description: 'Play sound effects and audio clips from a grid of buttons',
+    category: 'entertainment',
+    tags: ['sounds', 'audio', 'memes'],
+  },
+  {
+    id: 'quiz-app',
+    name: 'Quiz App',
+    description: 'Multiple choice trivia quiz with scores and categories',
+    category: 'education',
+    tags: ['quiz', 'trivia'],
+  },
+];
+
+function recommender(sales: TemplateTrendSales[] = []): TemplateRecommender {
+  return new TemplateRecommender({ listTemplates: () => TEMPLATES }, { sales: () => sales });
+}
+
+function point(id: string, type: MorphPoint['type']): MorphPoint {
+  return { id, label: id, type, path: 'app/src/main/res/values/strings.xml', pattern: `{{${id.toUpperCase()}}}`, required: false };
+}
+
+describe('TemplateRecommender', () => {
+  it('should rank templates by how well the trend keyword matches their fields', () => {
+    const [first, ...rest] = recommender().recommend({ keyword: '#AestheticWallpapers' });
+
+    expect(first.templateId).toBe('wallpaper-pack');
+    expect(first.reasons).toEqual([
+      expect.objectContaining({ factor: 'keyword', weight: 0.45, detail: '"#AestheticWallpapers" matches the name, tags and description' }),
+    ]);
+    expect(first.score).toBeCloseTo(first.reasons[0].value * 0.45, 3);
+    expect(rest).toEqual([]);
+  });
+
+  it('should credit related keywords and the trend category', () => {
+    const [first] = recommender().recommend({
+      keyword: 'lofi beats',
+      relatedKeywords: ['study music', 'audio clips'],
+      category: 'Entertainment',
+    });
+
+    expect(first.templateId).toBe('soundboard');
+    expect(first.reasons.map((reason) => reason.factor)).toEqual(['related', 'category']);
+    expect(first.reasons[0].detail).toBe('Related keyword "audio clips" matches the description and tags');
+    expect(first.reasons[1]).toMatchObject({ value: 1, detail: 'Trend category "Entertainment" matches the template category "entertainment"' });
+  });
+
+  it('should boost templates by their revenue on similar trends', () => {
+    const recommendations = recommender([
+      { templateId: 'quiz-app', trendKeyword: 'cat meme', apps: 2, revenue: 500 },
+      { templateId: 'quiz-app', trendKeyword: 'budget tracker', apps: 1, revenue: 9000 },
+      { templateId: 'wallpaper-pack', trendKeyword: 'Cat Memes', apps: 1, revenue: 100 },
+    ]).recommend({ keyword: 'cat memes' });
+
+    expect(recommendations.map((recommendation) => recommendation.templateId)).toEqual(['quiz-app', 'soundboard', 'wallpaper-pack']);
+    expect(recommendations[0].reasons).toEqual([
+      { factor: 'sales', value: 1, weight: 0.2, detail: 'Earned $500.00 from 2 apps on similar trends: "cat meme"' },
+    ]);
+    expect(recommendations[2].reasons[0]).toMatchObject({ factor: 'sales', value: 0.2 });
+  });
+
+  it('should prefill names, descriptions and colors for the morph points a template has', () => {
+    const values = prefillMorphValues(
+      {
+        description: 'A customizable wallpaper collection app',
+        morphPoints: [point('app_name', 'string'), point('app_description', 'string'), point('primary_color', 'color')],
+        validations: [{ type: 'string_length', target: 'app_name', params: { max_length: 20 } }],
+      },
+      '#AestheticWallpapers for iPhone'
+    );
+
+    expect(values).toEqual([
+      { key: 'app_name', value: 'Aesthetic Wallpapers' },
+      { key: 'app_description', value: 'Aesthetic Wallpapers: A customizable wallpaper collection app' },
+      { key: 'primary_color', value: trendColors('#AestheticWallpapers for iPhone').primary },
+    ]);
+  });
+
+  it('should derive the same colors and package name for the same topic', () => {
+    const colors = trendColors('Cat Memes');
+
+    expect(colors.primary).toMatch(/^#[0-9A-F]{6}$/);
+    expect(colors.secondary).not.toBe(colors.primary);
+    expect(trendColors('cat meme')).toEqual(colors);
+    expect(trendAppName('retro_gaming nostalgia on handheld consoles')).toBe('Retro Gaming Nostalgia On');
+    expect(trendPackageName('8-bit Games')).toBe('com.appforge.app8bitgames');
+  });
+});
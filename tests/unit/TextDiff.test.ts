@@ -0,0 +1,46 @@
+/**
+ * Unit Tests for TextDiff
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff } from '@main/services/TextDiff';
+
+describe('createUnifiedDiff', () => {
+  it('should return an empty string when nothing changed', () => {
+    expect(createUnifiedDiff('a.txt', 'a.txt', 'same\n', 'same\n')).toBe('');
+  });
+
+  it('should produce a hunk with context around a changed line', () => {
+    const before = ['one', 'two', 'three', 'four', 'five'].join('\n');
+    const after = ['one', 'two', 'THREE', 'four', 'five'].join('\n');
+
+    const diff = createUnifiedDiff('file.txt', 'file.txt', before, after, 1);
+
+    expect(diff).toBe([
+      '--- a/file.txt',
+      '+++ b/file.txt',
+      '@@ -2,3 +2,3 @@',
+      ' two',
+      '-three',
+      '+THREE',
+      ' four',
+    ].join('\n'));
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const after = [...before];
+    after[1] = 'changed 2';
+    after[18] = 'changed 19';
+
+    const diff = createUnifiedDiff('f', 'f', before.join('\n'), after.join('\n'));
+
+    expect(diff.match(/^@@/gm)).toHaveLength(2);
+  });
+
+  it('should emit only headers for a pure rename', () => {
+    const diff = createUnifiedDiff('old/Main.kt', 'new/Main.kt', 'x', 'x');
+
+    expect(diff).toBe('--- a/old/Main.kt\n+++ b/new/Main.kt');
+  });
+});
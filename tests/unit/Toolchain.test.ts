@@ -0,0 +1,195 @@
+/**
+ * Unit Tests for the toolchain manager
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ToolchainManager,
+  readRequirements,
+  resolveToolchain,
+  scanToolchains,
+  verifyPin,
+  type ToolchainSearchPaths,
+  type ToolchainTemplate,
+} from '@main/services/Toolchain';
+import type { ToolchainStore } from '@main/services/ToolchainStore';
+import type { ToolchainPin } from '@shared/types';
+
+class MemoryToolchainStore implements ToolchainStore {
+  pins = new Map<string, ToolchainPin>();
+
+  pinForApp(appId: string): ToolchainPin | undefined {
+    return this.pins.get(appId);
+  }
+
+  pin(appId: string, pin: ToolchainPin | null): boolean {
+    if (pin) {
+      this.pins.set(appId, pin);
+    } else {
+      this.pins.delete(appId);
+    }
+    return true;
+  }
+}
+
+describe('Toolchain', () => {
+  let workDir: string;
+  let sdkRoot: string;
+  let searchPaths: ToolchainSearchPaths;
+  let template: ToolchainTemplate;
+
+  async function installJdk(name: string, version: string): Promise<string> {
+    const home = path.join(workDir, 'jvm', name);
+    await fs.outputFile(path.join(home, 'release'), `IMPLEMENTOR="Eclipse Adoptium"\nJAVA_VERSION="${version}"\n`);
+    await fs.outputFile(path.join(home, 'bin', process.platform === 'win32' ? 'javac.exe' : 'javac'), '');
+    return home;
+  }
+
+  async function installPackage(directory: string, properties: string): Promise<void> {
+    await fs.outputFile(path.join(sdkRoot, directory, 'source.properties'), properties);
+  }
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'afz-toolchain-'));
+    sdkRoot = path.join(workDir, 'sdk');
+    searchPaths = {
+      sdkRoots: [path.join(workDir, 'missing-sdk'), sdkRoot],
+      jdkHomes: [],
+      jdkDirectories: [path.join(workDir, 'jvm')],
+    };
+
+    await installJdk('temurin-11', '11.0.21');
+    await installJdk('temurin-17', '17.0.9');
+    await installJdk('temurin-21', '21.0.1');
+    await fs.ensureDir(path.join(workDir, 'jvm', 'not-a-jdk'));
+    await installPackage('platforms/android-34', 'Pkg.Revision=2\nAndroidVersion.ApiLevel=34\n');
+    await installPackage('platforms/android-33', 'Pkg.Revision=3\nAndroidVersion.ApiLevel=33\n');
+    await installPackage('build-tools/33.0.1', 'Pkg.Revision=33.0.1\n');
+    await installPackage('build-tools/34.0.0', 'Pkg.Revision=34.0.0\n');
+    await installPackage('build-tools/35.0.0-rc1', 'Pkg.Revision=35.0.0 rc1\n');
+    await installPackage('ndk/25.2.9519653', 'Pkg.Revision=25.2.9519653\n');
+
+    const project = path.join(workDir, 'template');
+    await fs.outputFile(
+      path.join(project, 'build.gradle.kts'),
+      'plugins {\n    id("com.android.application") version "8.2.0" apply false\n}\n'
+    );
+    await fs.outputFile(
+      path.join(project, 'app/build.gradle.kts'),
+      'android {\n    compileSdk = 34\n    defaultConfig { minSdk = 24 }\n}\n'
+    );
+    template = { id: 'wallpaper', name: 'Wallpaper Pack', minSdkVersion: 24, targetSdkVersion: 34, sourceLayers: [project] };
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  describe('scanToolchains', () => {
+    it('should list JDKs and the packages of the first SDK root that exists', async () => {
+      const inventory = await scanToolchains(searchPaths);
+
+      expect(inventory.sdkRoot).toBe(sdkRoot);
+      expect(inventory.components.map((component) => `${component.kind} ${component.version}`)).toEqual([
+        'build-tools 35.0.0 rc1',
+        'build-tools 34.0.0',
+        'build-tools 33.0.1',
+        'jdk 21.0.1',
+        'jdk 17.0.9',
+        'jdk 11.0.21',
+        'ndk 25.2.9519653',
+        'platform 34',
+        'platform 33',
+      ]);
+    });
+  });
+
+  describe('readRequirements', () => {
+    it('should read the plugin version and compile SDK from the build files', async () => {
+      expect(await readRequirements(template)).toEqual({
+        minSdk: 24,
+        targetSdk: 34,
+        compileSdk: 34,
+        agpVersion: '8.2.0',
+        ndkVersion: undefined,
+      });
+    });
+
+    it('should let later layers override earlier ones', async () => {
+      const overlay = path.join(workDir, 'overlay');
+      await fs.outputFile(path.join(overlay, 'app/build.gradle.kts'), 'android {\n    ndkVersion = "26.1.10909125"\n}\n');
+
+      const requirements = await readRequirements({ ...template, sourceLayers: [...template.sourceLayers, overlay] });
+
+      expect(requirements.ndkVersion).toBe('26.1.10909125');
+      expect(requirements.compileSdk).toBe(34);
+    });
+  });
+
+  describe('resolveToolchain', () => {
+    it('should pick the oldest JDK and newest stable build-tools the plugin accepts', async () => {
+      const resolution = resolveToolchain(await scanToolchains(searchPaths), await readRequirements(template));
+
+      expect(resolution.missing).toEqual([]);
+      expect(resolution.pin!.sdkRoot).toBe(sdkRoot);
+      expect(resolution.pin!.jdk.version).toBe('17.0.9');
+      expect(resolution.pin!.platform.version).toBe('34');
+      expect(resolution.pin!.buildTools.version).toBe('34.0.0');
+      expect(resolution.pin!.ndk).toBeUndefined();
+    });
+
+    it('should name the SDK packages to install when components are missing', async () => {
+      const inventory = await scanToolchains(searchPaths);
+      const requirements = { ...(await readRequirements(template)), compileSdk: 35, ndkVersion: '26.1.10909125' };
+
+      const resolution = resolveToolchain(inventory, requirements);
+
+      expect(resolution.pin).toBeNull();
+      expect(resolution.selected.map((component) => component.kind)).toEqual(['jdk', 'build-tools']);
+      expect(resolution.missing).toEqual([
+        { kind: 'platform', requirement: 'Android 35 SDK platform', sdkPackage: 'platforms;android-35' },
+        { kind: 'ndk', requirement: 'NDK 26.1.10909125', sdkPackage: 'ndk;26.1.10909125' },
+      ]);
+    });
+  });
+
+  describe('ToolchainManager', () => {
+    it('should pin a toolchain on first use and report it once a component is removed', async () => {
+      const store = new MemoryToolchainStore();
+      const manager = new ToolchainManager(store, searchPaths);
+
+      const first = await manager.resolveForApp('app-1', template);
+      expect(store.pinForApp('app-1')).toEqual(first.pin);
+
+      // A newer JDK installed later does not change the pin
+      await installJdk('temurin-17.0.10', '17.0.10');
+      const again = await manager.resolveForApp('app-1', template);
+      expect(again.pin!.jdk.version).toBe('17.0.9');
+
+      await fs.remove(path.join(sdkRoot, 'build-tools/34.0.0'));
+      const broken = await manager.resolveForApp('app-1', template);
+
+      expect(broken.pin).toBeNull();
+      expect(broken.missing).toEqual([
+        expect.objectContaining({ kind: 'build-tools', sdkPackage: 'build-tools;34.0.0' }),
+      ]);
+      expect(await verifyPin(store.pinForApp('app-1')!)).toEqual(broken.missing);
+    });
+
+    it('should pin again from a fresh inventory', async () => {
+      const store = new MemoryToolchainStore();
+      const manager = new ToolchainManager(store, searchPaths);
+      await manager.resolveForApp('app-1', template);
+
+      await fs.remove(path.join(sdkRoot, 'build-tools/34.0.0'));
+      await installPackage('build-tools/34.0.1', 'Pkg.Revision=34.0.1\n');
+      const repinned = await manager.pin('app-1', template);
+
+      expect(repinned.pin!.buildTools.version).toBe('34.0.1');
+      expect(store.pinForApp('app-1')!.buildTools.version).toBe('34.0.1');
+    });
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Unit Tests for scanning the app's trend sources with the trend analyzer
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createPluginRegistry } from '@main/apis/trend-plugins';
+import { TrendManager } from '@main/apis/trend-sources';
+import trendAnalyzer from '@main/services/trend.analyzer';
+
+describe('TrendAnalyzer', () => {
+  beforeEach(() => {
+    const manager = new TrendManager();
+    manager.registerSource(
+      createPluginRegistry().create({
+        id: 'ideas',
+        kind: 'manual',
+        name: 'Ideas',
+        enabled: true,
+        keywords: [
+          { keyword: 'cat memes', volume: 5000, category: 'entertainment' },
+          { keyword: 'sleep sounds', volume: 3000, category: 'health' },
+          { keyword: 'pixel art', volume: 10 },
+        ],
+      })
+    );
+    trendAnalyzer.setTrendManager(manager);
+  });
+
+  it('should scan the trend sources it is given', async () => {
+    const trends = await trendAnalyzer.scan({ limit: 10 });
+
+    expect(trends.map((trend) => [trend.keyword, trend.category, trend.metrics.volume])).toEqual([
+      ['cat memes', 'entertainment', 5000],
+      ['sleep sounds', 'health', 3000],
+    ]);
+    expect(trends[0].id).toBe('manual:ideas:cat memes');
+  });
+
+  it('should filter scanned trends by category', async () => {
+    const trends = await trendAnalyzer.scan({ categories: ['health'], minVolume: 0 });
+
+    expect(trends.map((trend) => trend.keyword)).toEqual(['sleep sounds']);
+  });
+});
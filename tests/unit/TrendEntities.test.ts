@@ -0,0 +1,147 @@
+/**
+ * Unit Tests for trend entity resolution
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TrendEntities } from '@main/services/TrendEntities';
+import { summarizeEntity, type TrendEntityStore } from '@main/services/TrendEntityStore';
+import { TfIdfIndex, matchKey, normalizeText } from '@main/services/TrendMatching';
+import type { IngestedTrend } from '@main/services/TrendStore';
+import type { TrendEdge, TrendEntity, TrendEntitySignal } from '@shared/types';
+
+class MemoryTrendEntityStore implements TrendEntityStore {
+  rows = new Map<string, TrendEntity>();
+  members = new Map<string, { entityId: string; signal: TrendEntitySignal }>();
+  edgeWeights = new Map<string, number>();
+
+  entities(): TrendEntity[] {
+    return [...this.rows.values()].map((row) => summarizeEntity(
+      row.id,
+      row.label,
+      [...this.members.values()].filter((member) => member.entityId === row.id).map((member) => member.signal),
+      row.firstSeen,
+      row.updatedAt
+    ));
+  }
+
+  saveEntity(entity: TrendEntity): void {
+    this.rows.set(entity.id, { ...entity, firstSeen: this.rows.get(entity.id)?.firstSeen ?? entity.firstSeen });
+  }
+
+  link(entityId: string, signal: TrendEntitySignal): void {
+    this.members.set(signal.trendId, { entityId, signal });
+  }
+
+  edges(id: string): TrendEdge[] {
+    return [...this.edgeWeights.entries()]
+      .filter(([pair]) => pair.split('|').includes(id))
+      .map(([pair, weight]) => ({ relatedId: pair.split('|').find((end) => end !== id)!, weight }))
+      .sort((a, b) => b.weight - a.weight);
+  }
+
+  replaceEdges(id: string, edges: TrendEdge[]): void {
+    for (const pair of [...this.edgeWeights.keys()]) {
+      if (pair.split('|').includes(id)) {
+        this.edgeWeights.delete(pair);
+      }
+    }
+    for (const edge of edges) {
+      this.edgeWeights.set([id, edge.relatedId].sort().join('|'), edge.weight);
+    }
+  }
+}
+
+function trend(source: string, keyword: string, volume: number): IngestedTrend {
+  return {
+    id: `${source}:${keyword.toLowerCase()}`,
+    keyword,
+    source,
+    score: Math.round(Math.log1p(volume) * 10),
+    volume,
+    growthRate: null,
+    category: null,
+    data: {},
+    fetchedAt: new Date('2026-01-01T00:00:00Z'),
+    expiresAt: new Date('2026-01-02T00:00:00Z'),
+  };
+}
+
+describe('TrendMatching', () => {
+  it('should normalize case, hashtags, stop words and inflections', () => {
+    expect(normalizeText('#AestheticWallpapers')).toEqual(['aesthetic', 'wallpaper']);
+    expect(normalizeText("What's the best budget tracker app? https://t.co/x @someone")).toEqual(['budget', 'tracker']);
+    expect(matchKey('Gaming memes')).toBe(matchKey('meme games'));
+  });
+
+  it('should score shared words above shared fragments', () => {
+    const index = new TfIdfIndex();
+    index.add('wallpaper', 'aesthetic wallpaper');
+    index.add('anime', 'anime wallpapers');
+    index.add('cats', 'cat memes');
+
+    const matches = index.nearest('Aesthetic wallpapers for iPhone', 0.1);
+
+    expect(matches.map((match) => match.id)).toEqual(['wallpaper', 'anime']);
+    expect(matches[0].similarity).toBeGreaterThan(0.6);
+    expect(matches[1].similarity).toBeLessThan(0.6);
+    expect(index.nearest('#lofibeats')).toEqual([]);
+  });
+});
+
+describe('TrendEntities', () => {
+  const seenAt = new Date('2026-01-01T00:00:00Z');
+  let store: MemoryTrendEntityStore;
+  let entities: TrendEntities;
+
+  beforeEach(() => {
+    store = new MemoryTrendEntityStore();
+    entities = new TrendEntities(store);
+  });
+
+  it('should merge the same topic from different sources into one entity', () => {
+    const resolution = entities.resolve([
+      trend('google_trends', 'aesthetic wallpaper', 90000),
+      trend('twitter', '#AestheticWallpapers', 4000),
+      trend('reddit', 'Aesthetic wallpapers for iPhone', 700),
+      trend('reddit', 'cat memes', 500),
+    ], seenAt);
+
+    expect(resolution).toMatchObject({ created: 2, merged: 2 });
+
+    const [wallpapers, cats] = entities.list();
+    expect(wallpapers.label).toBe('aesthetic wallpaper');
+    expect(wallpapers.sources).toEqual(['google_trends', 'twitter', 'reddit']);
+    expect(wallpapers.volume).toBe(94700);
+    expect(wallpapers.signals.map((signal) => signal.similarity)).toEqual([1, 1, expect.any(Number)]);
+    expect(cats.sources).toEqual(['reddit']);
+  });
+
+  it('should keep a trend in its entity and follow its latest signal', () => {
+    entities.resolve([trend('reddit', 'cat memes', 500)], seenAt);
+    entities.resolve([trend('twitter', 'Cat Memes', 8000)], seenAt);
+    entities.resolve([trend('reddit', 'cat memes', 50000)], new Date('2026-01-02T00:00:00Z'));
+
+    const [cats] = entities.list();
+    expect(entities.list()).toHaveLength(1);
+    expect(cats.label).toBe('cat memes');
+    expect(cats.signals.map((signal) => `${signal.source} ${signal.volume}`)).toEqual(['reddit 50000', 'twitter 8000']);
+    expect(cats.firstSeen).toEqual(seenAt);
+  });
+
+  it('should link related topics by weighted edges', () => {
+    entities.resolve([
+      trend('reddit', 'cat memes', 500),
+      trend('reddit', 'dog memes', 400),
+      trend('google_trends', 'budget tracker', 300),
+    ], seenAt);
+
+    const [cats, dogs, budget] = ['cat memes', 'dog memes', 'budget tracker']
+      .map((label) => entities.list().find((entity) => entity.label === label)!);
+
+    const related = entities.related(cats.id);
+    expect(related.map((edge) => edge.entity.id)).toEqual([dogs.id]);
+    expect(related[0].weight).toBeGreaterThan(0.2);
+    expect(related[0].weight).toBeLessThan(0.6);
+    expect(entities.related(budget.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for trend forecasting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  TrendForecaster,
+  backtest,
+  dailySeries,
+  forecastSeries,
+  type TrendObservation,
+} from '@main/services/TrendForecast';
+
+/**
+ * Noon of the given day after 2026-01-01
+ */
+function day(index: number): Date {
+  return new Date(Date.UTC(2026, 0, 1 + index, 12));
+}
+
+function series(length: number, volume: (index: number) => number): TrendObservation[] {
+  return Array.from({ length }, (_, index) => ({ recordedAt: day(index), volume: volume(index) }));
+}
+
+const WEEKLY = [0, 50, 120, 200, 120, 50, -300];
+
+/**
+ * Five weeks of growth with a weekly pattern
+ */
+const seasonal = series(35, (i) => 1000 + 20 * i + WEEKLY[i % 7]);
+
+describe('TrendForecast', () => {
+  it('should resample scans to daily means and fill days without a scan', () => {
+    const { start, values } = dailySeries([
+      { recordedAt: new Date('2026-01-01T06:00:00Z'), volume: 100 },
+      { recordedAt: new Date('2026-01-01T18:00:00Z'), volume: 200 },
+      { recordedAt: new Date('2026-01-04T09:00:00Z'), volume: 300 },
+    ]);
+
+    expect(start).toEqual(new Date('2026-01-01T00:00:00Z'));
+    expect(values).toEqual([150, 200, 250, 300]);
+  });
+
+  it('should pick the seasonal model for a weekly pattern and widen its intervals with the horizon', () => {
+    const result = forecastSeries(seasonal, 14);
+
+    expect(result.model).toBe('holt-winters');
+    expect(result.mape).toBeLessThan(5);
+    expect(result.actual).toHaveLength(35);
+    expect(result.forecast[0].date).toEqual(new Date('2026-02-05T00:00:00Z'));
+    for (const point of result.forecast) {
+      expect(point.lower).toBeLessThanOrEqual(point.volume);
+      expect(point.upper).toBeGreaterThanOrEqual(point.volume);
+    }
+    const width = (step: number) => result.forecast[step].upper - result.forecast[step].lower;
+    expect(width(13)).toBeGreaterThan(width(0));
+  });
+
+  it('should extend a straight line with no uncertainty and no peak in sight', () => {
+    const result = forecastSeries(series(5, (i) => 100 + 10 * i), 3, 'linear');
+
+    expect(result.forecast.map(({ volume, lower, upper }) => [volume, lower, upper])).toEqual([
+      [150, 150, 150],
+      [160, 160, 160],
+      [170, 170, 170],
+    ]);
+    expect(result.peakDate).toBeUndefined();
+  });
+
+  it('should find the peak of a trend that has turned', () => {
+    const result = forecastSeries(series(20, (i) => 5000 - 8 * (i - 10) ** 2), 30);
+
+    expect(result.peakDate).toEqual(new Date('2026-01-11T00:00:00Z'));
+    expect(result.peakVolume).toBe(5000);
+  });
+
+  it('should report the error of every model on the same windows', () => {
+    const report = backtest([seasonal, series(15, (i) => 100 + i)], 7);
+
+    expect(report.trends).toBe(1);
+    expect(report.best).toBe('holt-winters');
+    expect(report.models.map(({ model, forecasts }) => `${model} ${forecasts}`)).toEqual([
+      'linear 3',
+      'holt 3',
+      'holt-winters 3',
+    ]);
+  });
+
+  it('should refuse forecasts the history cannot support', () => {
+    expect(() => forecastSeries(series(2, () => 10), 7)).toThrow('at least 3 days');
+    expect(() => forecastSeries(series(10, () => 10), 7, 'holt-winters')).toThrow('needs at least 14 days');
+    expect(() => backtest([seasonal], 0)).toThrow('Forecast horizon');
+  });
+
+  it('should forecast trends from their scan history', () => {
+    const forecaster = new TrendForecaster({
+      history: (trendId) => (trendId === 'reddit:cat memes' ? seasonal : []),
+      trendsWithHistory: () => ['reddit:cat memes'],
+    });
+
+    expect(forecaster.forecast('reddit:cat memes', 7)).toMatchObject({ trendId: 'reddit:cat memes', model: 'holt-winters' });
+    expect(forecaster.backtest().trends).toBe(1);
+    expect(() => forecaster.forecast('google_trends:dogs')).toThrow('got 0');
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Unit Tests for scheduled trend ingestion
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TrendIngestion, normalizeTrends, type PolledTrendSource } from '@main/services/TrendIngestion';
+import { SqliteTrendStore, type IngestedTrend, type TrendSourceState, type TrendStore } from '@main/services/TrendStore';
+import type { DatabaseService } from '@main/database/Database';
+import type { TrendData } from '@main/apis/types';
+import type { TrendIngestionSettings, TrendScanProgress } from '@shared/types';
+
+const HOUR = 60 * 60 * 1000;
+
+class MemoryTrendStore implements TrendStore {
+  settings: TrendIngestionSettings = {
+    autoScanEnabled: true,
+    scanIntervalHours: 24,
+    maxTrendsToFetch: 50,
+    includeSources: ['google', 'reddit'],
+  };
+  states = new Map<string, TrendSourceState>();
+  trends = new Map<string, IngestedTrend>();
+  history: Array<{ trendId: string; volume: number; recordedAt: Date }> = [];
+
+  getSettings(): TrendIngestionSettings {
+    return this.settings;
+  }
+
+  saveSettings(settings: TrendIngestionSettings): void {
+    this.settings = settings;
+  }
+
+  sourceState(source: string): TrendSourceState | undefined {
+    return this.states.get(source);
+  }
+
+  saveSourceState(state: TrendSourceState): void {
+    this.states.set(state.source, state);
+  }
+
+  volumes(ids: string[]): Map<string, number> {
+    return new Map(ids.filter((id) => this.trends.has(id)).map((id) => [id, this.trends.get(id)!.volume]));
+  }
+
+  ingest(trends: IngestedTrend[], recordedAt: Date): number {
+    for (const trend of trends) {
+      this.trends.set(trend.id, trend);
+      this.history.push({ trendId: trend.id, volume: trend.volume, recordedAt });
+    }
+    return trends.length;
+  }
+}
+
+/**
+ * A source returning the given titles and volumes, or failing
+ */
+function fakeSource(source: string, volumes: Record<string, number>, pollIntervalHours?: number) {
+  const fake = {
+    source,
+    pollIntervalHours,
+    fail: null as Error | null,
+    fetchTrends: vi.fn(async (): Promise<TrendData[]> => {
+      if (fake.fail) {
+        throw fake.fail;
+      }
+      return Object.entries(volumes).map(([title, searchVolume], index) => ({
+        id: `${source}-${index}`,
+        source: source as TrendData['source'],
+        title,
+        searchVolume,
+        fetchedAt: new Date('2026-01-01T00:00:00Z'),
+        expiresAt: new Date('2026-01-02T00:00:00Z'),
+      }));
+    }),
+  };
+  return fake;
+}
+
+describe('TrendIngestion', () => {
+  let store: MemoryTrendStore;
+  let clock: Date;
+  let google: ReturnType<typeof fakeSource>;
+  let reddit: ReturnType<typeof fakeSource>;
+  let twitter: ReturnType<typeof fakeSource>;
+  let ingestion: TrendIngestion;
+
+  const advance = (ms: number) => {
+    clock = new Date(clock.getTime() + ms);
+  };
+
+  beforeEach(() => {
+    store = new MemoryTrendStore();
+    clock = new Date('2026-01-01T00:00:00Z');
+    google = fakeSource('google-trends', { 'Aesthetic Wallpapers': 100000, 'cat memes': 1000 });
+    reddit = fakeSource('reddit', { 'lofi sounds': 500 }, 6);
+    twitter = fakeSource('twitter', { 'ignored': 10 });
+    const sources: PolledTrendSource[] = [google, reddit, twitter];
+    ingestion = new TrendIngestion(store, { listSources: () => sources }, null, () => clock);
+  });
+
+  afterEach(() => {
+    ingestion.stop();
+    vi.useRealTimers();
+  });
+
+  it('should poll the included sources and store their trends with a history snapshot', async () => {
+    const progress: TrendScanProgress[] = [];
+    ingestion.on('scan:progress', (update: TrendScanProgress) => progress.push(update));
+
+    const result = await ingestion.scan();
+
+    expect(twitter.fetchTrends).not.toHaveBeenCalled();
+    expect(google.fetchTrends).toHaveBeenCalledWith(50);
+    expect(result.stored).toBe(3);
+    expect(result.sources).toEqual([
+      { source: 'google-trends', fetched: 2 },
+      { source: 'reddit', fetched: 1 },
+    ]);
+    expect([...store.trends.keys()]).toEqual([
+      'google_trends:aesthetic wallpapers',
+      'google_trends:cat memes',
+      'reddit:lofi sounds',
+    ]);
+    expect(store.history).toHaveLength(3);
+    expect(progress.map((update) => `${update.source} ${update.completed}/${update.total}`)).toEqual([
+      'google-trends 1/2',
+      'reddit 2/2',
+    ]);
+  });
+
+  it('should poll each source on its own interval', async () => {
+    await ingestion.runDue();
+    expect(google.fetchTrends).toHaveBeenCalledTimes(1);
+    expect(reddit.fetchTrends).toHaveBeenCalledTimes(1);
+
+    advance(7 * HOUR);
+    await ingestion.runDue();
+    expect(google.fetchTrends).toHaveBeenCalledTimes(1);
+    expect(reddit.fetchTrends).toHaveBeenCalledTimes(2);
+
+    advance(17 * HOUR);
+    await ingestion.runDue();
+    expect(google.fetchTrends).toHaveBeenCalledTimes(2);
+    expect(store.history).toHaveLength(7);
+  });
+
+  it('should back off a failing source and recover once it succeeds', async () => {
+    reddit.fail = new Error('Reddit is not authenticated');
+
+    const result = await ingestion.runDue();
+    expect(result!.sources[1]).toEqual({ source: 'reddit', fetched: 0, error: 'Reddit is not authenticated' });
+    expect(store.states.get('reddit')).toMatchObject({ failures: 1, nextRunAt: new Date(clock.getTime() + HOUR / 4) });
+
+    advance(HOUR / 4);
+    await ingestion.runDue();
+    expect(store.states.get('reddit')).toMatchObject({ failures: 2, nextRunAt: new Date(clock.getTime() + HOUR / 2) });
+    expect(google.fetchTrends).toHaveBeenCalledTimes(1);
+
+    reddit.fail = null;
+    advance(HOUR / 2);
+    await ingestion.runDue();
+    expect(store.states.get('reddit')).toMatchObject({ failures: 0, lastCount: 1 });
+    expect(ingestion.getStatus().sources[1].nextRunAt).toEqual(new Date(clock.getTime() + 6 * HOUR));
+  });
+
+  it('should not poll on schedule while auto scan is disabled', async () => {
+    ingestion.configure({ ...store.settings, autoScanEnabled: false });
+
+    expect(await ingestion.runDue()).toBeNull();
+    expect(google.fetchTrends).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid settings', () => {
+    expect(() => ingestion.configure({ ...store.settings, scanIntervalHours: 0 })).toThrow('Scan interval');
+    expect(() => ingestion.configure({ ...store.settings, maxTrendsToFetch: 2.5 })).toThrow('Trends to fetch');
+  });
+
+  it('should run scheduled scans from a timer once started', async () => {
+    vi.useFakeTimers();
+    const complete = vi.fn();
+    ingestion.on('scan:complete', complete);
+
+    ingestion.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(google.fetchTrends).toHaveBeenCalledTimes(1);
+  });
+
+  it('should poll plugin sources whatever the included sources', async () => {
+    const feed = Object.assign(fakeSource('rss:lofi-feed', { 'lofi beats': 300 }), { plugin: 'lofi-feed' });
+    ingestion = new TrendIngestion(store, { listSources: () => [google, feed] }, null, () => clock);
+
+    const result = await ingestion.scan();
+
+    expect(result.sources.map((outcome) => outcome.source)).toEqual(['google-trends', 'rss:lofi-feed']);
+    expect(store.trends.has('rss:lofi_feed:lofi beats')).toBe(true);
+  });
+
+  it('should poll a watched source when it reports a change, until it is removed', async () => {
+    let notify = () => {};
+    const close = vi.fn();
+    const folder = Object.assign(fakeSource('folder:drops', { 'cat memes': 40 }), {
+      plugin: 'drops',
+      watch: vi.fn((onChange: () => void) => {
+        notify = onChange;
+        return close;
+      }),
+    });
+    let sources: PolledTrendSource[] = [folder];
+    ingestion = new TrendIngestion(store, { listSources: () => sources }, null, () => clock);
+    ingestion.configure({ ...store.settings, autoScanEnabled: false });
+
+    ingestion.start();
+    notify();
+    await vi.waitFor(() => expect(folder.fetchTrends).toHaveBeenCalledTimes(1));
+
+    sources = [];
+    ingestion.reschedule();
+    expect(folder.watch).toHaveBeenCalledTimes(1);
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('normalizeTrends', () => {
+  const item = (title: string, searchVolume: number): TrendData => ({
+    id: 'x',
+    source: 'google-trends',
+    title,
+    searchVolume,
+    fetchedAt: new Date('2026-01-01T00:00:00Z'),
+    expiresAt: new Date('2026-01-02T00:00:00Z'),
+  });
+
+  it('should score on a log scale and measure growth against the previous scan', () => {
+    const trends = normalizeTrends(
+      'google-trends',
+      [item('  Cat   memes ', 999), item('cat memes', 99), item('dogs', 9), item('', 5)],
+      () => new Map([['google_trends:cat memes', 500]])
+    );
+
+    expect(trends.map(({ id, keyword, score, growthRate }) => ({ id, keyword, score, growthRate }))).toEqual([
+      { id: 'google_trends:cat memes', keyword: 'Cat memes', score: 100, growthRate: 99.8 },
+      { id: 'google_trends:dogs', keyword: 'dogs', score: 33.33, growthRate: null },
+    ]);
+  });
+
+  it('should write the category the source reported to the trends table', () => {
+    const trends = normalizeTrends(
+      'rss:daily',
+      [
+        { ...item('lofi beats', 10), metadata: { plugin: 'daily', category: 'music' } },
+        { ...item('cat memes', 5), metadata: { category: 3 } },
+      ],
+      () => new Map()
+    );
+    const database = { transaction: <T>(fn: () => T): T => fn(), run: vi.fn() };
+
+    new SqliteTrendStore(database as unknown as DatabaseService).ingest(trends, new Date('2026-01-01T00:00:00Z'));
+
+    expect(trends.map((trend) => trend.category)).toEqual(['music', null]);
+    const [sql, params] = database.run.mock.calls[0];
+    expect(sql).toContain('category = excluded.category');
+    expect(params.slice(0, 7)).toEqual(['rss:daily:lofi beats', 'lofi beats', 'rss:daily', 100, 10, null, 'music']);
+  });
+});
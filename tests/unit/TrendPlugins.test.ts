@@ -0,0 +1,196 @@
+/**
+ * Unit Tests for the RSS, folder and manual trend source plugins
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { createPluginRegistry, parseCsv, parseFeed } from '@main/apis/trend-plugins';
+import { TrendManager, GoogleTrendsSource } from '@main/apis/trend-sources';
+import { TrendPlugins } from '@main/services/TrendPlugins';
+import type { TrendPluginStore } from '@main/services/TrendPluginStore';
+import type { TrendPluginConfig } from '@shared/types';
+
+const FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:ht="https://trends.google.com/trending/rss">
+  <channel>
+    <title>Daily Search Trends</title>
+    <item>
+      <title>cat memes</title>
+      <ht:approx_traffic>20,000+</ht:approx_traffic>
+      <link>https://example.com/cat-memes</link>
+    </item>
+    <item>
+      <title><![CDATA[Retro & 8-bit games]]></title>
+      <ht:approx_traffic>200,000+</ht:approx_traffic>
+    </item>
+  </channel>
+</rss>`;
+
+class MemoryPluginStore implements TrendPluginStore {
+  configs: TrendPluginConfig[] = [];
+
+  list(): TrendPluginConfig[] {
+    return [...this.configs];
+  }
+
+  save(config: TrendPluginConfig): void {
+    const index = this.configs.findIndex((existing) => existing.id === config.id);
+    this.configs.splice(index < 0 ? this.configs.length : index, index < 0 ? 0 : 1, config);
+  }
+
+  remove(id: string): boolean {
+    const before = this.configs.length;
+    this.configs = this.configs.filter((config) => config.id !== id);
+    return this.configs.length < before;
+  }
+}
+
+describe('parseCsv', () => {
+  it('should detect the delimiter and read quoted fields', () => {
+    expect(parseCsv('keyword;volume\n"cat; memes";"1,200"\r\n\n"say ""hi""";3')).toEqual([
+      ['keyword', 'volume'],
+      ['cat; memes', '1,200'],
+      ['say "hi"', '3'],
+    ]);
+  });
+});
+
+describe('parseFeed', () => {
+  it('should read RSS items by element and local name', () => {
+    const [first, second] = parseFeed(FEED);
+
+    expect(first.get('title')).toBe('cat memes');
+    expect(first.get('ht:approx_traffic')).toBe('20,000+');
+    expect(first.get('approx_traffic')).toBe('20,000+');
+    expect(second.get('title')).toBe('Retro & 8-bit games');
+  });
+
+  it('should read Atom entries', () => {
+    const [entry] = parseFeed(
+      '<feed xmlns="http://www.w3.org/2005/Atom"><entry><title type="text">lofi &amp; chill</title><link href="https://example.com"/></entry></feed>'
+    );
+
+    expect(entry.get('title')).toBe('lofi & chill');
+    expect(entry.get('link')).toBe('');
+  });
+});
+
+describe('trend source plugins', () => {
+  const registry = createPluginRegistry();
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'afz-trend-plugins-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  it('should read a saved feed, ranking items by their traffic', async () => {
+    const file = path.join(workDir, 'daily.xml');
+    await fs.writeFile(file, FEED);
+    const source = registry.create({
+      id: 'google-daily',
+      kind: 'rss',
+      name: 'Google daily',
+      enabled: true,
+      url: pathToFileURL(file).href,
+      fields: { volume: 'approx_traffic' },
+      refreshIntervalHours: 2,
+    });
+
+    const trends = await source.fetchTrends();
+
+    expect(source.source).toBe('rss:google-daily');
+    expect(source.plugin).toBe('google-daily');
+    expect(source.pollIntervalHours).toBe(2);
+    expect(trends.map((trend) => [trend.title, trend.searchVolume])).toEqual([
+      ['Retro & 8-bit games', 200000],
+      ['cat memes', 20000],
+    ]);
+    expect(await source.searchTrend('CAT')).toHaveLength(1);
+  });
+
+  it('should read the CSV and JSON files of a folder with a field mapping', async () => {
+    await fs.writeFile(path.join(workDir, 'export.csv'), '\uFEFFQuery,Searches,Growth\nlofi beats,1200,12.5%\n');
+    await fs.writeFile(
+      path.join(workDir, 'tiktok.json'),
+      JSON.stringify({ data: { trends: [{ Query: 'cat memes', Searches: 800, Growth: -3 }] } })
+    );
+    await fs.writeFile(path.join(workDir, 'notes.txt'), 'ignored');
+    const source = registry.create({
+      id: 'exports',
+      kind: 'folder',
+      name: 'Exports',
+      enabled: true,
+      path: workDir,
+      fields: { keyword: 'Query', volume: 'Searches', growthRate: 'Growth', records: 'data.trends' },
+    });
+
+    const trends = await source.fetchTrends();
+
+    expect(trends.map((trend) => [trend.title, trend.searchVolume, trend.growthRate])).toEqual([
+      ['lofi beats', 1200, 12.5],
+      ['cat memes', 800, -3],
+    ]);
+    expect(trends[0].metadata).toEqual({ plugin: 'exports', origin: workDir });
+  });
+
+  it('should report the keywords entered by hand', async () => {
+    const source = registry.create({
+      id: 'ideas',
+      kind: 'manual',
+      name: 'Ideas',
+      enabled: true,
+      keywords: [{ keyword: 'pixel art' }, { keyword: 'sleep sounds', volume: 50, category: 'health' }],
+    });
+
+    const trends = await source.fetchTrends();
+
+    expect(trends.map((trend) => [trend.title, trend.searchVolume])).toEqual([['sleep sounds', 50], ['pixel art', 2]]);
+    expect(trends[0].metadata).toMatchObject({ category: 'health' });
+  });
+
+  it('should reject incomplete configurations', () => {
+    const base = { name: 'Feed', enabled: true };
+
+    expect(() => registry.create({ ...base, id: 'Feed!', kind: 'manual' })).toThrow('lowercase letters');
+    expect(() => registry.create({ ...base, id: 'feed', kind: 'rss' })).toThrow('needs a feed URL');
+    expect(() => registry.create({ ...base, id: 'drops', kind: 'folder' })).toThrow('needs a folder');
+    expect(() => registry.create({ ...base, id: 'ideas', kind: 'manual', refreshIntervalHours: 0 })).toThrow('Refresh interval');
+  });
+});
+
+describe('TrendPlugins', () => {
+  let manager: TrendManager;
+  let store: MemoryPluginStore;
+  let plugins: TrendPlugins;
+
+  beforeEach(() => {
+    manager = new TrendManager();
+    manager.registerSource(new GoogleTrendsSource(''));
+    store = new MemoryPluginStore();
+    plugins = new TrendPlugins(store, createPluginRegistry(), manager);
+  });
+
+  it('should register the enabled plugins next to the built-in sources', () => {
+    plugins.save({ id: 'ideas', kind: 'manual', name: 'Ideas', enabled: true, keywords: [] });
+    plugins.save({ id: 'off', kind: 'manual', name: 'Off', enabled: false, keywords: [] });
+
+    expect(manager.listSources().map((source) => source.source)).toEqual(['google-trends', 'manual:ideas']);
+
+    plugins.save({ id: 'ideas', kind: 'manual', name: 'Ideas', enabled: false, keywords: [] });
+    expect(manager.listSources().map((source) => source.source)).toEqual(['google-trends']);
+    expect(plugins.remove('off')).toHaveLength(1);
+  });
+
+  it('should not save a plugin whose source cannot be created', () => {
+    expect(() => plugins.save({ id: 'feed', kind: 'rss', name: 'Feed', enabled: true })).toThrow('needs a feed URL');
+    expect(() => plugins.remove('feed')).toThrow('Trend plugin not found: feed');
+    expect(store.configs).toEqual([]);
+  });
+});
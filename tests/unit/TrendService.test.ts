@@ -0,0 +1,110 @@
+/**
+ * Unit Tests for merging discovered trends and correlating them by edges
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TrendService, type Trend } from '@main/services/trend.service';
+import type { ServiceContext } from '@main/services/base.service';
+
+interface TrendRow {
+  id: string;
+  title: string;
+  data: string;
+}
+
+interface EdgeRow {
+  trend_id: string;
+  related_id: string;
+  weight: number;
+}
+
+/**
+ * The queries TrendService runs, over in-memory trends and trend_edges tables
+ */
+class MemoryTrendDatabase {
+  trends = new Map<string, TrendRow>();
+  edges: EdgeRow[] = [];
+
+  query = vi.fn(async (sql: string, params: unknown[]) => {
+    if (sql.includes('trend_edges')) {
+      const [id] = params as string[];
+      return this.edges
+        .filter((edge) => edge.trend_id === id || edge.related_id === id)
+        .sort((a, b) => b.weight - a.weight)
+        .map((edge) => this.trends.get(edge.trend_id === id ? edge.related_id : edge.trend_id)!);
+    }
+    if (sql.includes('WHERE id = ?')) {
+      const row = this.trends.get(params[0] as string);
+      return row ? [row] : [];
+    }
+    return [...this.trends.values()];
+  });
+
+  execute = vi.fn(async (sql: string, params: unknown[]) => {
+    if (sql.startsWith('INSERT INTO trends')) {
+      const [id, title, , , , , data] = params as string[];
+      this.trends.set(id, { id, title, data });
+    } else if (sql.startsWith('UPDATE trends')) {
+      const row = this.trends.get(params[params.length - 1] as string)!;
+      row.data = params[0] as string;
+    } else if (sql.startsWith('DELETE FROM trend_edges')) {
+      this.edges = this.edges.filter((edge) => edge.trend_id !== params[0] && edge.related_id !== params[1]);
+    } else if (sql.startsWith('INSERT INTO trend_edges')) {
+      const [trendId, relatedId, weight] = params as [string, string, number];
+      this.edges.push({ trend_id: trendId, related_id: relatedId, weight });
+    }
+  });
+}
+
+describe('TrendService', () => {
+  let db: MemoryTrendDatabase;
+  let service: TrendService;
+
+  const discover = async (title: string, source: string, volume?: number): Promise<Trend> =>
+    (await service.discoverTrend(title, source, volume)).data!;
+
+  beforeEach(() => {
+    db = new MemoryTrendDatabase();
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    service = new TrendService({ config: { name: 'trends' }, db, logger } as unknown as ServiceContext);
+  });
+
+  it('should merge a similar title from another source into the same trend', async () => {
+    const trend = await discover('Cat memes', 'google', 300);
+    const merged = await discover('#CatMemes', 'reddit', 100);
+    const other = await discover('lofi beats', 'tiktok', 50);
+
+    expect(merged.id).toBe(trend.id);
+    expect(merged.volume).toBe(400);
+    expect(Object.keys(merged.signals)).toEqual(['google', 'reddit']);
+    expect(merged.signals.reddit).toMatchObject({ title: '#CatMemes', volume: 100 });
+    expect(other.id).not.toBe(trend.id);
+    expect(db.trends.size).toBe(2);
+  });
+
+  it('should link related trends by weighted edges that replace earlier ones', async () => {
+    const memes = await discover('cat memes', 'google');
+    const videos = await discover('cat videos', 'tiktok');
+    await discover('lofi beats', 'reddit');
+
+    expect((await service.correlateTrends(memes.id)).success).toBe(true);
+    expect((await service.correlateTrends(memes.id)).success).toBe(true);
+
+    expect(db.edges).toHaveLength(1);
+    expect(db.edges[0]).toMatchObject({
+      trend_id: [memes.id, videos.id].sort()[0],
+      related_id: [memes.id, videos.id].sort()[1],
+    });
+    expect(db.edges[0].weight).toBeGreaterThan(0.2);
+    expect(db.edges[0].weight).toBeLessThan(0.6);
+    expect((await service.findRelatedTrends(memes.id)).data!.map((trend) => trend.title)).toEqual(['cat videos']);
+    expect((await service.findRelatedTrends(videos.id)).data!.map((trend) => trend.title)).toEqual(['cat memes']);
+  });
+
+  it('should fail to correlate an unknown trend', async () => {
+    const result = await service.correlateTrends('trnd_missing');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Trend not found: trnd_missing');
+  });
+});